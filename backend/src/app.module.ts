@@ -16,6 +16,7 @@ import { AuthModule } from './modules/auth/auth.module';
 import { UsersModule } from './modules/users/users.module';
 import { OrgsModule } from './modules/orgs/orgs.module';
 import { ProjectsModule } from './modules/projects/projects.module';
+import { ProjectAccessModule } from './modules/project-access/project-access.module';
 import { ClustersModule } from './modules/clusters/clusters.module';
 import { JobsModule } from './modules/jobs/jobs.module';
 import { BackupsModule } from './modules/backups/backups.module';
@@ -33,6 +34,7 @@ import { AlertsModule } from './modules/alerts/alerts.module';
 import { DataExplorerModule } from './modules/data-explorer/data-explorer.module';
 import { PerformanceAdvisorModule } from './modules/performance-advisor/performance-advisor.module';
 import { BillingModule } from './modules/billing/billing.module';
+import { BudgetsModule } from './modules/budgets/budgets.module';
 import { PitrModule } from './modules/pitr/pitr.module';
 import { SearchIndexesModule } from './modules/search-indexes/search-indexes.module';
 import { ScalingModule } from './modules/scaling/scaling.module';
@@ -97,6 +99,7 @@ import { HetznerModule } from './modules/hetzner/hetzner.module';
     UsersModule,
     OrgsModule,
     ProjectsModule,
+    ProjectAccessModule,
     ClustersModule,
     JobsModule,
     BackupsModule,
@@ -114,6 +117,7 @@ import { HetznerModule } from './modules/hetzner/hetzner.module';
     DataExplorerModule,
     PerformanceAdvisorModule,
     BillingModule,
+    BudgetsModule,
     PitrModule,
     SearchIndexesModule,
     ScalingModule,
@@ -4,6 +4,11 @@ export interface CurrentUserData {
   userId: string;
   email: string;
   verified: boolean;
+  /** Session behind the access token; absent for API key requests */
+  sessionId?: string;
+  /** Set while a global admin impersonates the user */
+  impersonatedBy?: string;
+  impersonationLogId?: string;
 }
 
 export const CurrentUser = createParamDecorator(
@@ -0,0 +1,25 @@
+import { SetMetadata, createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { ProjectRole } from '../../modules/project-access/schemas/project-role-binding.schema';
+import { ProjectAccess } from '../../modules/project-access/project-access.service';
+
+export const PROJECT_ROLE_KEY = 'projectRole';
+
+/**
+ * Minimum project role for a route guarded by ProjectAccessGuard. Without it,
+ * reads need PROJECT_READ_ONLY and writes need PROJECT_OWNER.
+ */
+export const RequireProjectRole = (role: ProjectRole) => SetMetadata(PROJECT_ROLE_KEY, role);
+
+/** The access resolved by ProjectAccessGuard for the current request */
+export const CurrentProjectAccess = createParamDecorator(
+  (data: keyof ProjectAccess | undefined, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest();
+    const access = request.projectAccess as ProjectAccess | undefined;
+
+    if (!access) {
+      return null;
+    }
+
+    return data ? access[data] : access;
+  },
+);
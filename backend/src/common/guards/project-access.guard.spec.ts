@@ -0,0 +1,114 @@
+import { ProjectAccessGuard } from './project-access.guard';
+import { Reflector } from '@nestjs/core';
+import {
+  ExecutionContext,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+
+describe('ProjectAccessGuard', () => {
+  let guard: ProjectAccessGuard;
+  let reflector: Reflector;
+
+  const access = {
+    orgId: 'org-1',
+    projectId: 'project-1',
+    orgRole: 'MEMBER',
+    role: 'PROJECT_DATA_ACCESS_READ_WRITE',
+  };
+
+  const mockProjectAccessService = {
+    checkAccess: jest.fn(),
+    assertClusterInProject: jest.fn(),
+  };
+
+  const createMockContext = (request: Record<string, any>): ExecutionContext => {
+    return {
+      getHandler: jest.fn(),
+      getClass: jest.fn(),
+      switchToHttp: () => ({
+        getRequest: () => request,
+      }),
+    } as any as ExecutionContext;
+  };
+
+  const request = (overrides: Record<string, any> = {}) => ({
+    method: 'GET',
+    params: { projectId: 'project-1' },
+    user: { userId: 'user-1' },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    reflector = new Reflector();
+    guard = new ProjectAccessGuard(reflector, mockProjectAccessService as any);
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+    mockProjectAccessService.checkAccess.mockResolvedValue(access);
+    mockProjectAccessService.assertClusterInProject.mockResolvedValue(undefined);
+  });
+
+  it('should allow routes without a project', async () => {
+    const context = createMockContext(request({ params: { orgId: 'org-1' } }));
+
+    expect(await guard.canActivate(context)).toBe(true);
+    expect(mockProjectAccessService.checkAccess).not.toHaveBeenCalled();
+  });
+
+  it('should throw UnauthorizedException without an authenticated user', async () => {
+    const context = createMockContext(request({ user: undefined }));
+
+    await expect(guard.canActivate(context)).rejects.toThrow(UnauthorizedException);
+  });
+
+  // ==================== Required role ====================
+
+  it('should require read-only access for reads', async () => {
+    const req = request();
+
+    expect(await guard.canActivate(createMockContext(req))).toBe(true);
+    expect(mockProjectAccessService.checkAccess).toHaveBeenCalledWith('project-1', 'user-1', 'PROJECT_READ_ONLY');
+    expect((req as any).projectAccess).toBe(access);
+  });
+
+  it('should require project ownership for writes by default', async () => {
+    await guard.canActivate(createMockContext(request({ method: 'DELETE' })));
+
+    expect(mockProjectAccessService.checkAccess).toHaveBeenCalledWith('project-1', 'user-1', 'PROJECT_OWNER');
+  });
+
+  it('should use the role set on the route', async () => {
+    jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue('PROJECT_DATA_ACCESS_READ_WRITE');
+
+    await guard.canActivate(createMockContext(request({ method: 'POST' })));
+
+    expect(mockProjectAccessService.checkAccess).toHaveBeenCalledWith(
+      'project-1',
+      'user-1',
+      'PROJECT_DATA_ACCESS_READ_WRITE',
+    );
+  });
+
+  // ==================== Route consistency ====================
+
+  it('should throw NotFoundException when the project belongs to another org in the path', async () => {
+    const context = createMockContext(request({ params: { orgId: 'org-2', projectId: 'project-1' } }));
+
+    await expect(guard.canActivate(context)).rejects.toThrow(NotFoundException);
+  });
+
+  it('should reject API keys of another organization', async () => {
+    const context = createMockContext(request({ apiKey: { orgId: 'org-2' } }));
+
+    await expect(guard.canActivate(context)).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should check that the cluster belongs to the project', async () => {
+    mockProjectAccessService.assertClusterInProject.mockRejectedValue(new NotFoundException('Cluster not found'));
+    const context = createMockContext(request({ params: { projectId: 'project-1', clusterId: 'cluster-1' } }));
+
+    await expect(guard.canActivate(context)).rejects.toThrow('Cluster not found');
+    expect(mockProjectAccessService.assertClusterInProject).toHaveBeenCalledWith('project-1', 'cluster-1');
+  });
+});
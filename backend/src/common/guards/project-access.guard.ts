@@ -0,0 +1,66 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PROJECT_ROLE_KEY } from '../decorators/project-access.decorator';
+import { ProjectAccessService } from '../../modules/project-access/project-access.service';
+import { ProjectRole } from '../../modules/project-access/schemas/project-role-binding.schema';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Authorizes routes with a `:projectId` parameter against the caller's
+ * project role. Must run after JwtAuthGuard.
+ */
+@Injectable()
+export class ProjectAccessGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly projectAccessService: ProjectAccessService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const { projectId, clusterId, orgId } = request.params ?? {};
+
+    if (!projectId) {
+      return true;
+    }
+
+    const userId = request.user?.userId;
+    if (!userId) {
+      throw new UnauthorizedException('Authentication required');
+    }
+
+    const requiredRole = this.reflector.getAllAndOverride<ProjectRole>(PROJECT_ROLE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]) ?? (READ_METHODS.includes(request.method) ? 'PROJECT_READ_ONLY' : 'PROJECT_OWNER');
+
+    const access = await this.projectAccessService.checkAccess(projectId, userId, requiredRole);
+
+    if (orgId && orgId !== access.orgId) {
+      throw new NotFoundException('Project not found');
+    }
+
+    // API keys belong to one organization
+    if (request.apiKey && request.apiKey.orgId.toString() !== access.orgId) {
+      throw new ForbiddenException({
+        code: 'API_KEY_WRONG_ORG',
+        message: 'This API key belongs to a different organization',
+      });
+    }
+
+    if (clusterId) {
+      await this.projectAccessService.assertClusterInProject(projectId, clusterId);
+    }
+
+    request.projectAccess = access;
+    return true;
+  }
+}
@@ -19,6 +19,7 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { GlobalAdminGuard } from './guards/global-admin.guard';
 import { AdminService } from './admin.service';
 import {
@@ -238,6 +239,16 @@ export class AdminController {
     return this.adminService.deleteUser(userId);
   }
 
+  @Delete('users/:userId/sessions')
+  @ApiOperation({ summary: 'Sign a user out of every session' })
+  @ApiResponse({ status: 200, description: 'Number of sessions revoked' })
+  async revokeUserSessions(
+    @Param('userId') userId: string,
+    @CurrentUser('userId') adminUserId: string,
+  ): Promise<{ revoked: number }> {
+    return this.adminService.revokeUserSessions(userId, adminUserId);
+  }
+
   @Get('users/:userId/tenants')
   @ApiOperation({ summary: 'Get tenants a user belongs to' })
   @ApiResponse({ status: 200, type: [TenantResponseDto] })
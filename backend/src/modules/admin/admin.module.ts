@@ -11,6 +11,7 @@ import { Cluster, ClusterSchema } from '../clusters/schemas/cluster.schema';
 import { KubernetesModule } from '../kubernetes/kubernetes.module';
 import { ClustersModule } from '../clusters/clusters.module';
 import { JobsModule } from '../jobs/jobs.module';
+import { UsersModule } from '../users/users.module';
 
 @Module({
   imports: [
@@ -22,6 +23,7 @@ import { JobsModule } from '../jobs/jobs.module';
       { name: Cluster.name, schema: ClusterSchema },
     ]),
     KubernetesModule,
+    UsersModule,
     forwardRef(() => ClustersModule),
     forwardRef(() => JobsModule),
   ],
@@ -18,6 +18,7 @@ import { Cluster, ClusterDocument } from '../clusters/schemas/cluster.schema';
 import { KubernetesService } from '../kubernetes/kubernetes.service';
 import { ClustersService } from '../clusters/clusters.service';
 import { JobsService } from '../jobs/jobs.service';
+import { SessionsService } from '../users/sessions.service';
 import {
   CreateTenantDto,
   UpdateTenantDto,
@@ -46,6 +47,7 @@ export class AdminService {
     private readonly clustersService: ClustersService,
     @Inject(forwardRef(() => JobsService))
     private readonly jobsService: JobsService,
+    private readonly sessionsService: SessionsService,
   ) {}
 
   // ============ Stats ============
@@ -429,9 +431,29 @@ export class AdminService {
     }
 
     await user.save();
+
+    if (dto.password) {
+      await this.sessionsService.revokeAll(userId, 'password_changed');
+    } else if (dto.isActive === false) {
+      await this.sessionsService.revokeAll(userId, 'admin');
+    }
+
     return this.enrichUserResponse(user.toObject());
   }
 
+  /** Force a user to sign in again on every device */
+  async revokeUserSessions(userId: string, adminUserId: string): Promise<{ revoked: number }> {
+    const user = await this.userModel.findById(userId).lean();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const revoked = await this.sessionsService.revokeAll(userId, 'admin');
+    this.logger.warn(`Admin ${adminUserId} signed out ${revoked} session(s) of user ${user.email} (${userId})`);
+
+    return { revoked };
+  }
+
   async deleteUser(userId: string): Promise<void> {
     const user = await this.userModel.findById(userId);
     if (!user) {
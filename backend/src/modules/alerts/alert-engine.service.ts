@@ -106,24 +106,37 @@ export class AlertEngineService implements OnModuleInit {
         return;
       }
 
-      const conditionMet = this.evaluateCondition(metricValue, rule.condition, rule.threshold);
-
-      if (conditionMet) {
-        const alert = await this.alertsService.createAlert(rule, cluster._id.toString(), metricValue);
-        
-        if (alert) {
-          // Send notifications
-          await this.sendAlertNotifications(alert, rule, cluster);
-        }
-      } else {
-        // Check if there's an active alert that should be resolved
-        await this.checkAndResolveAlert(rule, cluster._id.toString());
-      }
+      await this.evaluateMetric(rule, cluster, metricValue);
     } catch (error: any) {
       this.logger.error(`Error evaluating rule ${rule.id} for cluster ${cluster._id}: ${error.message}`);
     }
   }
 
+  /**
+   * Fire or resolve a rule for a metric value. Used by the metrics poll
+   * above and by modules that compute their own metrics, such as query
+   * regressions from the Performance Advisor.
+   */
+  async evaluateMetric(
+    rule: AlertRuleDocument,
+    cluster: ClusterDocument,
+    metricValue: number,
+  ): Promise<void> {
+    const conditionMet = this.evaluateCondition(metricValue, rule.condition, rule.threshold);
+
+    if (conditionMet) {
+      const alert = await this.alertsService.createAlert(rule, cluster._id.toString(), metricValue);
+      
+      if (alert) {
+        // Send notifications
+        await this.sendAlertNotifications(alert, rule, cluster);
+      }
+    } else {
+      // Check if there's an active alert that should be resolved
+      await this.checkAndResolveAlert(rule, cluster._id.toString());
+    }
+  }
+
   private getMetricValue(metrics: CurrentMetrics, metricType: string): number | null {
     const mapping: Record<string, keyof CurrentMetrics> = {
       cpu_usage: 'cpu',
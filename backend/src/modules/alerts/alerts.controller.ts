@@ -15,6 +15,7 @@ import { JwtAuthGuard } from '../../common/guards/auth.guard';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { AlertsService } from './alerts.service';
 import { OrgsService } from '../orgs/orgs.service';
+import { ProjectAccessService } from '../project-access/project-access.service';
 import { CreateAlertRuleDto, UpdateAlertRuleDto, AcknowledgeAlertDto } from './dto/create-alert.dto';
 import { AlertStatus } from './schemas/alert-history.schema';
 
@@ -26,6 +27,7 @@ export class AlertsController {
   constructor(
     private readonly alertsService: AlertsService,
     private readonly orgsService: OrgsService,
+    private readonly projectAccessService: ProjectAccessService,
   ) {}
 
   // ==================== Alert Rules ====================
@@ -61,9 +63,13 @@ export class AlertsController {
     const enabledFilter = enabled === 'true' ? true : enabled === 'false' ? false : undefined;
     const rules = await this.alertsService.findRulesByOrg(orgId, enabledFilter);
 
+    // Members with project roles only see org-wide rules and rules of their clusters
+    const accessibleIds = await this.projectAccessService.getAccessibleClusterIds(orgId, user.userId);
     return {
       success: true,
-      data: rules,
+      data: accessibleIds
+        ? rules.filter((rule) => !rule.clusterId || accessibleIds.includes(rule.clusterId.toString()))
+        : rules,
     };
   }
 
@@ -81,6 +87,11 @@ export class AlertsController {
       throw new NotFoundException('Alert rule not found');
     }
 
+    const accessibleIds = await this.projectAccessService.getAccessibleClusterIds(orgId, user.userId);
+    if (accessibleIds && rule.clusterId && !accessibleIds.includes(rule.clusterId.toString())) {
+      throw new NotFoundException('Alert rule not found');
+    }
+
     return {
       success: true,
       data: rule,
@@ -148,9 +159,16 @@ export class AlertsController {
   ) {
     await this.orgsService.checkAccess(orgId, user.userId);
 
+    // Members with project roles only see alerts of their clusters
+    const accessibleIds = await this.projectAccessService.getAccessibleClusterIds(orgId, user.userId);
+    if (accessibleIds && clusterId && !accessibleIds.includes(clusterId)) {
+      return { success: true, data: [] };
+    }
+
     const alerts = await this.alertsService.findAlertsByOrg(orgId, {
       status,
       clusterId,
+      clusterIds: accessibleIds ?? undefined,
       limit: limit ? parseInt(String(limit), 10) : undefined,
     });
 
@@ -168,7 +186,8 @@ export class AlertsController {
   ) {
     await this.orgsService.checkAccess(orgId, user.userId);
 
-    const stats = await this.alertsService.getAlertStats(orgId);
+    const accessibleIds = await this.projectAccessService.getAccessibleClusterIds(orgId, user.userId);
+    const stats = await this.alertsService.getAlertStats(orgId, accessibleIds);
 
     return {
       success: true,
@@ -190,6 +209,11 @@ export class AlertsController {
       throw new NotFoundException('Alert not found');
     }
 
+    const accessibleIds = await this.projectAccessService.getAccessibleClusterIds(orgId, user.userId);
+    if (accessibleIds && !accessibleIds.includes(alert.clusterId.toString())) {
+      throw new NotFoundException('Alert not found');
+    }
+
     return {
       success: true,
       data: alert,
@@ -211,6 +235,11 @@ export class AlertsController {
       throw new NotFoundException('Alert not found');
     }
 
+    const accessibleIds = await this.projectAccessService.getAccessibleClusterIds(orgId, user.userId);
+    if (accessibleIds && !accessibleIds.includes(alert.clusterId.toString())) {
+      throw new NotFoundException('Alert not found');
+    }
+
     const updated = await this.alertsService.acknowledgeAlert(
       alertId,
       user.userId,
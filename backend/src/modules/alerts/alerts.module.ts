@@ -29,7 +29,7 @@ import { EmailModule } from '../email/email.module';
   ],
   controllers: [AlertsController, NotificationChannelsController],
   providers: [AlertsService, NotificationService, AlertEngineService],
-  exports: [AlertsService, NotificationService],
+  exports: [AlertsService, NotificationService, AlertEngineService],
 })
 export class AlertsModule {}
 
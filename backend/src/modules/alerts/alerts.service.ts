@@ -205,13 +205,16 @@ export class AlertsService {
 
   async findAlertsByOrg(
     orgId: string,
-    options?: { status?: AlertStatus; limit?: number; clusterId?: string },
+    options?: { status?: AlertStatus; limit?: number; clusterId?: string; clusterIds?: string[] },
   ): Promise<AlertHistory[]> {
     const query: any = { orgId };
     
     if (options?.status) {
       query.status = options.status;
     }
+    if (options?.clusterIds) {
+      query.clusterId = { $in: options.clusterIds.map(id => new Types.ObjectId(id)) };
+    }
     if (options?.clusterId) {
       query.clusterId = options.clusterId;
     }
@@ -229,7 +232,8 @@ export class AlertsService {
     return this.alertHistoryModel.findById(alertId).exec();
   }
 
-  async getAlertStats(orgId: string): Promise<{
+  /** Alert counts of the org, or only of the given clusters */
+  async getAlertStats(orgId: string, clusterIds: string[] | null = null): Promise<{
     totalFiring: number;
     totalAcknowledged: number;
     totalResolved24h: number;
@@ -238,16 +242,19 @@ export class AlertsService {
     const now = new Date();
     const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
 
+    const inClusters = clusterIds ? { clusterId: { $in: clusterIds.map(id => new Types.ObjectId(id)) } } : {};
+
     const [firing, acknowledged, resolved24h, bySeverity] = await Promise.all([
-      this.alertHistoryModel.countDocuments({ orgId, status: 'firing' }).exec(),
-      this.alertHistoryModel.countDocuments({ orgId, status: 'acknowledged' }).exec(),
+      this.alertHistoryModel.countDocuments({ orgId, status: 'firing', ...inClusters }).exec(),
+      this.alertHistoryModel.countDocuments({ orgId, status: 'acknowledged', ...inClusters }).exec(),
       this.alertHistoryModel.countDocuments({ 
         orgId, 
         status: 'resolved',
         resolvedAt: { $gte: yesterday },
+        ...inClusters,
       }).exec(),
       this.alertHistoryModel.aggregate([
-        { $match: { orgId: new Types.ObjectId(orgId), status: 'firing' } },
+        { $match: { orgId: new Types.ObjectId(orgId), status: 'firing', ...inClusters } },
         { $group: { _id: '$severity', count: { $sum: 1 } } },
       ]).exec(),
     ]);
@@ -288,6 +295,7 @@ export class AlertsService {
       replication_lag: 'ms',
       operations_per_sec: ' ops/s',
       query_latency: 'ms',
+      query_regression: '%',
     };
 
     const unit = metricUnit[rule.metricType] || '';
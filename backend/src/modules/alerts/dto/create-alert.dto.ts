@@ -19,10 +19,10 @@ export class CreateAlertRuleDto {
   clusterId?: string;
 
   @ApiProperty({ 
-    enum: ['cpu_usage', 'memory_usage', 'storage_usage', 'connections', 'replication_lag', 'operations_per_sec', 'query_latency'],
+    enum: ['cpu_usage', 'memory_usage', 'storage_usage', 'connections', 'replication_lag', 'operations_per_sec', 'query_latency', 'query_regression'],
     example: 'cpu_usage'
   })
-  @IsEnum(['cpu_usage', 'memory_usage', 'storage_usage', 'connections', 'replication_lag', 'operations_per_sec', 'query_latency'])
+  @IsEnum(['cpu_usage', 'memory_usage', 'storage_usage', 'connections', 'replication_lag', 'operations_per_sec', 'query_latency', 'query_regression'])
   metricType: string;
 
   @ApiProperty({ enum: ['gt', 'gte', 'lt', 'lte', 'eq'], example: 'gt' })
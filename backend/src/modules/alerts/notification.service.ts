@@ -20,6 +20,21 @@ export interface NotificationPayload {
   orgName?: string;
 }
 
+export interface BudgetNotificationPayload {
+  orgId: string;
+  budgetId: string;
+  budgetName: string;
+  /** e.g. "Project production" or "Tag env=prod" */
+  scope: string;
+  severity: 'info' | 'warning' | 'critical';
+  basis: 'actual' | 'forecasted';
+  percent: number;
+  amountCents: number;
+  actualSpendCents: number;
+  forecastedSpendCents: number;
+  message: string;
+}
+
 @Injectable()
 export class NotificationService {
   private readonly logger = new Logger(NotificationService.name);
@@ -98,50 +113,35 @@ export class NotificationService {
     channel: NotificationChannelDocument,
     payload: NotificationPayload,
   ): Promise<boolean> {
-    if (!channel.enabled) {
-      this.logger.debug(`Channel ${channel.id} is disabled, skipping`);
-      return false;
-    }
+    return this.deliver(channel, {
+      email: () => this.sendEmailNotification(channel, payload),
+      webhook: () => this.sendWebhookNotification(channel, payload),
+      slack: () => this.sendSlackNotification(channel, payload),
+    });
+  }
 
-    try {
-      switch (channel.type) {
-        case 'email':
-          await this.sendEmailNotification(channel, payload);
-          break;
-        case 'webhook':
-          await this.sendWebhookNotification(channel, payload);
-          break;
-        case 'slack':
-          await this.sendSlackNotification(channel, payload);
-          break;
-        default:
-          this.logger.warn(`Unknown channel type: ${channel.type}`);
-          return false;
-      }
+  async sendBudgetNotification(
+    channelIds: string[],
+    payload: BudgetNotificationPayload,
+  ): Promise<string[]> {
+    const successfulChannels: string[] = [];
 
-      // Update channel stats
-      channel.lastUsedAt = new Date();
-      channel.failureCount = 0;
-      channel.lastError = undefined;
-      await channel.save();
+    for (const channelId of channelIds) {
+      const channel = await this.findChannelById(channelId);
+      // Channels are org-scoped; a budget may still name one that moved away
+      if (!channel || channel.orgId.toString() !== payload.orgId) continue;
 
-      return true;
-    } catch (error: any) {
-      this.logger.error(`Failed to send notification via ${channel.type}: ${error.message}`);
-      
-      // Update failure stats
-      channel.failureCount += 1;
-      channel.lastError = error.message;
-      
-      // Disable after 5 failures
-      if (channel.failureCount >= 5) {
-        channel.enabled = false;
-        this.logger.warn(`Channel ${channel.id} disabled after 5 failures`);
+      const success = await this.deliver(channel, {
+        email: () => this.sendBudgetEmail(channel, payload),
+        webhook: () => this.sendBudgetWebhook(channel, payload),
+        slack: () => this.sendBudgetSlack(channel, payload),
+      });
+      if (success) {
+        successfulChannels.push(channelId);
       }
-      
-      await channel.save();
-      return false;
     }
+
+    return successfulChannels;
   }
 
   async sendToMultipleChannels(
@@ -201,6 +201,49 @@ export class NotificationService {
 
   // ==================== Private Methods ====================
 
+  private async deliver(
+    channel: NotificationChannelDocument,
+    senders: Record<ChannelType, () => Promise<void>>,
+  ): Promise<boolean> {
+    if (!channel.enabled) {
+      this.logger.debug(`Channel ${channel.id} is disabled, skipping`);
+      return false;
+    }
+
+    const send = senders[channel.type];
+    if (!send) {
+      this.logger.warn(`Unknown channel type: ${channel.type}`);
+      return false;
+    }
+
+    try {
+      await send();
+
+      // Update channel stats
+      channel.lastUsedAt = new Date();
+      channel.failureCount = 0;
+      channel.lastError = undefined;
+      await channel.save();
+
+      return true;
+    } catch (error: any) {
+      this.logger.error(`Failed to send notification via ${channel.type}: ${error.message}`);
+      
+      // Update failure stats
+      channel.failureCount += 1;
+      channel.lastError = error.message;
+      
+      // Disable after 5 failures
+      if (channel.failureCount >= 5) {
+        channel.enabled = false;
+        this.logger.warn(`Channel ${channel.id} disabled after 5 failures`);
+      }
+      
+      await channel.save();
+      return false;
+    }
+  }
+
   private async sendEmailNotification(
     channel: NotificationChannelDocument,
     payload: NotificationPayload,
@@ -314,6 +357,110 @@ export class NotificationService {
     await axios.post(slackWebhookUrl, slackPayload, { timeout: 10000 });
   }
 
+  private async sendBudgetEmail(
+    channel: NotificationChannelDocument,
+    payload: BudgetNotificationPayload,
+  ): Promise<void> {
+    const emails = channel.config.emails || [];
+    if (emails.length === 0) {
+      throw new Error('No email addresses configured');
+    }
+
+    for (const email of emails) {
+      await this.emailService.sendBudgetAlert({
+        to: email,
+        budgetName: payload.budgetName,
+        scope: payload.scope,
+        severity: payload.severity,
+        message: payload.message,
+        budgetUrl: this.getBudgetUrl(payload),
+      });
+    }
+  }
+
+  private async sendBudgetWebhook(
+    channel: NotificationChannelDocument,
+    payload: BudgetNotificationPayload,
+  ): Promise<void> {
+    const { webhookUrl, webhookSecret, webhookHeaders } = channel.config;
+    if (!webhookUrl) {
+      throw new Error('Webhook URL not configured');
+    }
+
+    const body = {
+      event: 'budget.threshold_reached',
+      budget: {
+        id: payload.budgetId,
+        name: payload.budgetName,
+        scope: payload.scope,
+        amountCents: payload.amountCents,
+      },
+      threshold: { percent: payload.percent, basis: payload.basis },
+      actualSpendCents: payload.actualSpendCents,
+      forecastedSpendCents: payload.forecastedSpendCents,
+      severity: payload.severity,
+      message: payload.message,
+      timestamp: new Date().toISOString(),
+    };
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...webhookHeaders,
+    };
+
+    if (webhookSecret) {
+      const signature = crypto
+        .createHmac('sha256', webhookSecret)
+        .update(JSON.stringify(body))
+        .digest('hex');
+      headers['X-EUTLAS-Signature'] = `sha256=${signature}`;
+    }
+
+    await axios.post(webhookUrl, body, { headers, timeout: 10000 });
+  }
+
+  private async sendBudgetSlack(
+    channel: NotificationChannelDocument,
+    payload: BudgetNotificationPayload,
+  ): Promise<void> {
+    const { slackWebhookUrl, slackChannel } = channel.config;
+    if (!slackWebhookUrl) {
+      throw new Error('Slack webhook URL not configured');
+    }
+
+    const severityColor = {
+      info: '#36a64f',
+      warning: '#ff9800',
+      critical: '#f44336',
+    }[payload.severity];
+
+    const slackPayload = {
+      channel: slackChannel,
+      attachments: [
+        {
+          color: severityColor,
+          title: `Budget ${payload.percent}% ${payload.basis}: ${payload.budgetName}`,
+          title_link: this.getBudgetUrl(payload),
+          text: payload.message,
+          fields: [
+            { title: 'Scope', value: payload.scope, short: true },
+            { title: 'Budget', value: (payload.amountCents / 100).toFixed(2), short: true },
+            { title: 'Actual', value: (payload.actualSpendCents / 100).toFixed(2), short: true },
+            { title: 'Forecast', value: (payload.forecastedSpendCents / 100).toFixed(2), short: true },
+          ],
+          footer: 'EUTLAS Budget',
+          ts: Math.floor(Date.now() / 1000),
+        },
+      ],
+    };
+
+    await axios.post(slackWebhookUrl, slackPayload, { timeout: 10000 });
+  }
+
+  private getBudgetUrl(payload: BudgetNotificationPayload): string {
+    return `${this.frontendUrl}/dashboard/orgs/${payload.orgId}/billing?budget=${payload.budgetId}`;
+  }
+
   private validateChannelConfig(type: ChannelType, config: any): void {
     switch (type) {
       case 'email':
@@ -33,7 +33,7 @@ export class AlertHistory {
   @Prop({ required: true })
   alertName: string;
 
-  @Prop({ required: true, enum: ['cpu_usage', 'memory_usage', 'storage_usage', 'connections', 'replication_lag', 'operations_per_sec', 'query_latency'] })
+  @Prop({ required: true, enum: ['cpu_usage', 'memory_usage', 'storage_usage', 'connections', 'replication_lag', 'operations_per_sec', 'query_latency', 'query_regression'] })
   metricType: AlertMetricType;
 
   @Prop({ required: true, enum: ['info', 'warning', 'critical'] })
@@ -8,7 +8,9 @@ export type AlertMetricType =
   | 'connections'
   | 'replication_lag'
   | 'operations_per_sec'
-  | 'query_latency';
+  | 'query_latency'
+  // Largest p95 latency increase of a query shape over its baseline, in %
+  | 'query_regression';
 
 export type AlertCondition = 'gt' | 'gte' | 'lt' | 'lte' | 'eq';
 export type AlertSeverity = 'info' | 'warning' | 'critical';
@@ -44,7 +46,7 @@ export class AlertRule {
 
   @Prop({ 
     required: true,
-    enum: ['cpu_usage', 'memory_usage', 'storage_usage', 'connections', 'replication_lag', 'operations_per_sec', 'query_latency'],
+    enum: ['cpu_usage', 'memory_usage', 'storage_usage', 'connections', 'replication_lag', 'operations_per_sec', 'query_latency', 'query_regression'],
   })
   metricType: AlertMetricType;
 
@@ -153,6 +153,30 @@ export class AuditService {
     };
   }
 
+  /**
+   * Audit events of a cluster in chronological order, strictly after the
+   * given position (timestamp plus _id as tie-breaker).
+   */
+  async findClusterEventsAfter(
+    clusterId: string,
+    after: { timestamp: Date; id?: string } | undefined,
+    limit: number,
+  ): Promise<AuditLogDocument[]> {
+    const query: any = { clusterId: new Types.ObjectId(clusterId) };
+    if (after) {
+      query.$or = [
+        { timestamp: { $gt: after.timestamp } },
+        ...(after.id ? [{ timestamp: after.timestamp, _id: { $gt: new Types.ObjectId(after.id) } }] : []),
+      ];
+    }
+
+    return this.auditLogModel
+      .find(query)
+      .sort({ timestamp: 1, _id: 1 })
+      .limit(limit)
+      .exec();
+  }
+
   async getById(id: string): Promise<AuditLog | null> {
     return this.auditLogModel.findById(id).exec();
   }
@@ -168,6 +192,7 @@ export class AuditService {
       'BACKUP_CREATED', 'BACKUP_RESTORED', 'BACKUP_DELETED',
       'ALERT_TRIGGERED', 'ALERT_RESOLVED',
       'SETTINGS_CHANGED', 'PERMISSION_GRANTED', 'PERMISSION_REVOKED',
+      'MFA_ENABLED', 'MFA_DISABLED', 'MFA_RECOVERY_CODES_REGENERATED',
     ];
   }
 
@@ -177,6 +202,7 @@ export class AuditService {
       'database_user', 'ip_whitelist', 'backup', 'api_key',
       'alert_rule', 'notification_channel', 'invitation',
       'archive_rule', 'maintenance_window', 'log_forwarding', 'private_network',
+      'embedding_provider',
     ];
   }
 
@@ -12,13 +12,17 @@ export type AuditAction =
   | 'CLUSTER_PAUSED' | 'CLUSTER_RESUMED'
   | 'BACKUP_CREATED' | 'BACKUP_RESTORED' | 'BACKUP_DELETED'
   | 'ALERT_TRIGGERED' | 'ALERT_RESOLVED'
-  | 'SETTINGS_CHANGED' | 'PERMISSION_GRANTED' | 'PERMISSION_REVOKED';
+  | 'SETTINGS_CHANGED' | 'PERMISSION_GRANTED' | 'PERMISSION_REVOKED'
+  | 'MFA_ENABLED' | 'MFA_DISABLED' | 'MFA_RECOVERY_CODES_REGENERATED'
+  | 'PASSKEY_REGISTERED' | 'PASSKEY_REMOVED' | 'PASSKEY_VERIFIED' | 'PASSKEY_VERIFICATION_FAILED'
+  | 'SESSION_REVOKED';
 
 export type AuditResourceType =
   | 'organization' | 'project' | 'cluster' | 'user'
   | 'database_user' | 'ip_whitelist' | 'backup' | 'api_key'
   | 'alert_rule' | 'notification_channel' | 'invitation'
-  | 'archive_rule' | 'maintenance_window' | 'log_forwarding' | 'private_network';
+  | 'archive_rule' | 'maintenance_window' | 'log_forwarding' | 'private_network'
+  | 'embedding_provider';
 
 @Schema({
   timestamps: true,
@@ -8,13 +8,15 @@ import {
   UseGuards,
   Req,
   Query,
+  Delete,
+  Param,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { SkipThrottle, Throttle } from '@nestjs/throttler';
 import { Public } from '../../common/decorators/public.decorator';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
 import { GlobalAdminGuard } from '../admin/guards/global-admin.guard';
-import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { AuthService } from './auth.service';
 import { SignupDto } from './dto/signup.dto';
 import { LoginDto } from './dto/login.dto';
@@ -22,11 +24,25 @@ import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
 import { VerifyEmailDto } from './dto/verify-email.dto';
 import { ImpersonateUserDto, ImpersonationResponseDto } from './dto/impersonate.dto';
+import {
+  VerifyMfaLoginDto,
+  ConfirmMfaEnrollmentDto,
+  DisableMfaDto,
+  RegenerateRecoveryCodesDto,
+} from './dto/mfa.dto';
+import { PasskeyLoginDto, PasskeyMfaOptionsDto, RegisterPasskeyDto } from './dto/passkey.dto';
+import { RefreshTokenDto } from './dto/session.dto';
+import { MfaService } from './mfa.service';
+import { PasskeyService } from './passkey.service';
 
 @ApiTags('Authentication')
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly mfaService: MfaService,
+    private readonly passkeyService: PasskeyService,
+  ) {}
 
   @Public()
   @Post('signup')
@@ -54,6 +70,88 @@ export class AuthController {
     });
   }
 
+  @Public()
+  @Post('login/mfa')
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 5 attempts per minute
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Complete a login with an authenticator or recovery code' })
+  @ApiResponse({ status: 200, description: 'Login successful' })
+  @ApiResponse({ status: 401, description: 'Invalid code or expired challenge' })
+  @ApiResponse({ status: 429, description: 'Too many attempts' })
+  async verifyMfaLogin(@Body() dto: VerifyMfaLoginDto, @Req() req: { ip?: string; headers?: Record<string, string> }) {
+    return this.authService.verifyMfaLogin(dto, {
+      ipAddress: req.ip,
+      userAgent: req.headers?.['user-agent'],
+    });
+  }
+
+  @Public()
+  @Post('login/mfa/passkey/options')
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get passkey options to complete a login with a passkey as second factor' })
+  @ApiResponse({ status: 200, description: 'Options for navigator.credentials.get()' })
+  @ApiResponse({ status: 401, description: 'Expired challenge' })
+  async startMfaPasskeyLogin(@Body() dto: PasskeyMfaOptionsDto) {
+    return this.authService.startMfaPasskeyLogin(dto.challengeToken);
+  }
+
+  @Public()
+  @Post('login/passkey/options')
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get passkey options to sign in without a password' })
+  @ApiResponse({ status: 200, description: 'Options for navigator.credentials.get()' })
+  async startPasskeyLogin() {
+    const options = await this.passkeyService.startAuthentication();
+    return { success: true, data: options };
+  }
+
+  @Public()
+  @Post('login/passkey')
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 5 login attempts per minute
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Login with a passkey' })
+  @ApiResponse({ status: 200, description: 'Login successful' })
+  @ApiResponse({ status: 401, description: 'Unknown passkey, invalid signature or expired challenge' })
+  @ApiResponse({ status: 429, description: 'Too many login attempts' })
+  async loginWithPasskey(@Body() dto: PasskeyLoginDto, @Req() req: { ip?: string; headers?: Record<string, string> }) {
+    return this.authService.loginWithPasskey(dto.credential, {
+      ipAddress: req.ip,
+      userAgent: req.headers?.['user-agent'],
+    });
+  }
+
+  @Public()
+  @Post('refresh')
+  @Throttle({ default: { limit: 30, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Exchange a refresh token for new tokens',
+    description: 'Each refresh token works once. Replaying a used one signs the session out.',
+  })
+  @ApiResponse({ status: 200, description: 'New access token and refresh token' })
+  @ApiResponse({ status: 401, description: 'Refresh token invalid, expired or reused' })
+  async refresh(@Body() dto: RefreshTokenDto, @Req() req: any) {
+    return this.authService.refresh(dto.refreshToken, {
+      ipAddress: req.ip,
+      userAgent: req.headers?.['user-agent'],
+    });
+  }
+
+  @Post('logout')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Sign out the current session' })
+  @ApiResponse({ status: 200, description: 'Logged out' })
+  async logout(@CurrentUser() user: CurrentUserData, @Req() req: any) {
+    return this.authService.logout(user.userId, user.sessionId, {
+      ipAddress: req.ip,
+      userAgent: req.headers?.['user-agent'],
+    });
+  }
+
   @Public()
   @Post('verify-email')
   @SkipThrottle() // No throttling needed for email verification
@@ -91,6 +189,202 @@ export class AuthController {
     );
   }
 
+  // ============ Multi-Factor Authentication ============
+
+  @Get('mfa')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get MFA status of the current user' })
+  @ApiResponse({ status: 200, description: 'MFA status' })
+  async getMfaStatus(@CurrentUser('userId') userId: string) {
+    const status = await this.mfaService.getStatus(userId);
+    return { success: true, data: status };
+  }
+
+  @Post('mfa/enroll')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Start MFA enrollment',
+    description: 'Returns a new secret and its otpauth:// URI to render as a QR code. Confirm with POST /auth/mfa/enable.',
+  })
+  @ApiResponse({ status: 200, description: 'Enrollment started' })
+  @ApiResponse({ status: 400, description: 'MFA already enabled' })
+  async startMfaEnrollment(@CurrentUser('userId') userId: string) {
+    const enrollment = await this.mfaService.startEnrollment(userId);
+    return { success: true, data: enrollment };
+  }
+
+  @Post('mfa/enable')
+  @UseGuards(JwtAuthGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Confirm MFA enrollment',
+    description: 'Enables MFA and returns the recovery codes. They are shown only once.',
+  })
+  @ApiResponse({ status: 200, description: 'MFA enabled' })
+  @ApiResponse({ status: 400, description: 'Invalid code or enrollment not started' })
+  async confirmMfaEnrollment(
+    @CurrentUser('userId') userId: string,
+    @Body() dto: ConfirmMfaEnrollmentDto,
+    @Req() req: any,
+  ) {
+    const result = await this.mfaService.confirmEnrollment(userId, dto.code, {
+      ipAddress: req.ip,
+      userAgent: req.headers?.['user-agent'],
+    });
+    return { success: true, data: result };
+  }
+
+  @Post('mfa/disable')
+  @UseGuards(JwtAuthGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Disable MFA (requires password and a code)' })
+  @ApiResponse({ status: 200, description: 'MFA disabled' })
+  @ApiResponse({ status: 401, description: 'Invalid password or code' })
+  @ApiResponse({ status: 403, description: 'An organization requires MFA' })
+  async disableMfa(
+    @CurrentUser('userId') userId: string,
+    @Body() dto: DisableMfaDto,
+    @Req() req: any,
+  ) {
+    await this.mfaService.disable(userId, dto.password, { code: dto.code, recoveryCode: dto.recoveryCode }, {
+      ipAddress: req.ip,
+      userAgent: req.headers?.['user-agent'],
+    });
+    return { success: true, message: 'Multi-factor authentication disabled' };
+  }
+
+  @Post('mfa/recovery-codes')
+  @UseGuards(JwtAuthGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Replace the MFA recovery codes' })
+  @ApiResponse({ status: 200, description: 'New recovery codes' })
+  @ApiResponse({ status: 401, description: 'Invalid code' })
+  async regenerateRecoveryCodes(
+    @CurrentUser('userId') userId: string,
+    @Body() dto: RegenerateRecoveryCodesDto,
+    @Req() req: any,
+  ) {
+    const result = await this.mfaService.regenerateRecoveryCodes(userId, dto.code, {
+      ipAddress: req.ip,
+      userAgent: req.headers?.['user-agent'],
+    });
+    return { success: true, data: result };
+  }
+
+  // ============ Passkeys ============
+
+  @Get('passkeys')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the passkeys of the current user' })
+  @ApiResponse({ status: 200, description: 'Passkeys' })
+  async listPasskeys(@CurrentUser('userId') userId: string) {
+    const passkeys = await this.passkeyService.list(userId);
+    return { success: true, data: passkeys };
+  }
+
+  @Post('passkeys/options')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Start passkey registration',
+    description: 'Returns options for navigator.credentials.create(). Finish with POST /auth/passkeys.',
+  })
+  @ApiResponse({ status: 200, description: 'Registration options' })
+  async startPasskeyRegistration(@CurrentUser('userId') userId: string) {
+    const options = await this.passkeyService.startRegistration(userId);
+    return { success: true, data: options };
+  }
+
+  @Post('passkeys')
+  @UseGuards(JwtAuthGuard)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Register a passkey' })
+  @ApiResponse({ status: 201, description: 'Passkey registered' })
+  @ApiResponse({ status: 400, description: 'Invalid registration response' })
+  @ApiResponse({ status: 409, description: 'Passkey already registered' })
+  async registerPasskey(
+    @CurrentUser('userId') userId: string,
+    @Body() dto: RegisterPasskeyDto,
+    @Req() req: any,
+  ) {
+    const passkey = await this.passkeyService.finishRegistration(userId, dto, {
+      ipAddress: req.ip,
+      userAgent: req.headers?.['user-agent'],
+    });
+    return { success: true, data: passkey };
+  }
+
+  @Delete('passkeys/:passkeyId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Remove a passkey' })
+  @ApiResponse({ status: 200, description: 'Passkey removed' })
+  @ApiResponse({ status: 404, description: 'Passkey not found' })
+  async removePasskey(
+    @CurrentUser('userId') userId: string,
+    @Param('passkeyId') passkeyId: string,
+    @Req() req: any,
+  ) {
+    await this.passkeyService.remove(userId, passkeyId, {
+      ipAddress: req.ip,
+      userAgent: req.headers?.['user-agent'],
+    });
+    return { success: true, message: 'Passkey removed' };
+  }
+
+  // ============ Sessions ============
+
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the signed-in sessions of the current user' })
+  @ApiResponse({ status: 200, description: 'Sessions; the calling one is marked current' })
+  async listSessions(@CurrentUser() user: CurrentUserData) {
+    return this.authService.listSessions(user.userId, user.sessionId);
+  }
+
+  @Post('sessions/revoke-others')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Sign out all other sessions' })
+  @ApiResponse({ status: 200, description: 'Number of sessions signed out' })
+  async revokeOtherSessions(@CurrentUser() user: CurrentUserData, @Req() req: any) {
+    return this.authService.revokeOtherSessions(user.userId, user.sessionId, {
+      ipAddress: req.ip,
+      userAgent: req.headers?.['user-agent'],
+    });
+  }
+
+  @Delete('sessions/:sessionId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Sign out a session' })
+  @ApiResponse({ status: 200, description: 'Session signed out' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(
+    @CurrentUser('userId') userId: string,
+    @Param('sessionId') sessionId: string,
+    @Req() req: any,
+  ) {
+    return this.authService.revokeSession(userId, sessionId, {
+      ipAddress: req.ip,
+      userAgent: req.headers?.['user-agent'],
+    });
+  }
+
   // ============ Impersonation (Global Admin Only) ============
 
   @Post('impersonate')
@@ -107,14 +401,14 @@ export class AuthController {
   @ApiResponse({ status: 400, description: 'Target user not found or cannot be impersonated' })
   @ApiResponse({ status: 429, description: 'Too many impersonation attempts' })
   async impersonateUser(
-    @CurrentUser('userId') adminUserId: string,
+    @CurrentUser() admin: CurrentUserData,
     @Body() dto: ImpersonateUserDto,
     @Req() req: any,
   ) {
     const clientIp = req.ip || req.connection?.remoteAddress;
     const userAgent = req.headers['user-agent'];
 
-    return this.authService.impersonateUser(adminUserId, dto, clientIp, userAgent);
+    return this.authService.impersonateUser(admin.userId, dto, clientIp, userAgent, admin.sessionId);
   }
 
   @Post('stop-impersonating')
@@ -124,7 +418,7 @@ export class AuthController {
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Stop impersonating and return to admin session',
-    description: 'Ends the impersonation session and returns a fresh token for the admin user.',
+    description: 'Ends the impersonation session and resumes the admin session with fresh tokens.',
   })
   @ApiResponse({ status: 200, description: 'Successfully stopped impersonating' })
   @ApiResponse({ status: 401, description: 'Not authenticated' })
@@ -140,7 +434,7 @@ export class AuthController {
       };
     }
 
-    return this.authService.stopImpersonating(impersonationLogId, adminUserId);
+    return this.authService.stopImpersonating(impersonationLogId, adminUserId, req.user?.sessionId);
   }
 
   @Get('impersonation-logs')
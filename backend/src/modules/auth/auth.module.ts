@@ -13,15 +13,24 @@ import { ImpersonationLog, ImpersonationLogSchema } from './schemas/impersonatio
 import { AdminModule } from '../admin/admin.module';
 import { OrgsModule } from '../orgs/orgs.module';
 import { AuditService } from '../audit/audit.service';
+import { CredentialsModule } from '../credentials/credentials.module';
+import { MfaService } from './mfa.service';
+import { PasskeyService } from './passkey.service';
+import { Passkey, PasskeySchema, PasskeyChallenge, PasskeyChallengeSchema } from './schemas/passkey.schema';
+import { MfaChallenge, MfaChallengeSchema } from './schemas/mfa-challenge.schema';
 
 @Module({
   imports: [
     AdminModule,
     OrgsModule,
     UsersModule,
+    CredentialsModule,
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
       { name: ImpersonationLog.name, schema: ImpersonationLogSchema },
+      { name: Passkey.name, schema: PasskeySchema },
+      { name: PasskeyChallenge.name, schema: PasskeyChallengeSchema },
+      { name: MfaChallenge.name, schema: MfaChallengeSchema },
     ]),
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.registerAsync({
@@ -29,14 +38,14 @@ import { AuditService } from '../audit/audit.service';
       useFactory: async (configService: ConfigService) => ({
         secret: configService.get<string>('JWT_SECRET'),
         signOptions: {
-          expiresIn: configService.get<string>('JWT_EXPIRES_IN', '7d'),
+          expiresIn: configService.get<string>('JWT_EXPIRES_IN', '15m'),
         },
       }),
       inject: [ConfigService],
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, LocalStrategy],
+  providers: [AuthService, MfaService, PasskeyService, JwtStrategy, LocalStrategy],
   exports: [AuthService, JwtModule],
 })
 export class AuthModule {}
@@ -9,18 +9,33 @@ import {
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import * as bcrypt from 'bcryptjs';
+import { createHmac } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { UsersService } from '../users/users.service';
+import { SessionsService, SessionMeta } from '../users/sessions.service';
+import { SessionDocument, SessionMethod } from '../users/schemas/session.schema';
 import { EmailService } from '../email/email.service';
 import { SignupDto } from './dto/signup.dto';
 import { LoginDto } from './dto/login.dto';
 import { ImpersonateUserDto } from './dto/impersonate.dto';
 import { User, UserDocument } from '../users/schemas/user.schema';
 import { ImpersonationLog, ImpersonationLogDocument } from './schemas/impersonation-log.schema';
+import { MfaChallenge, MfaChallengeDocument } from './schemas/mfa-challenge.schema';
 import { OrgsService } from '../orgs/orgs.service';
 import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/schemas/audit-log.schema';
+import { VerifyMfaLoginDto } from './dto/mfa.dto';
+import { PasskeyAssertionCredentialDto } from './dto/passkey.dto';
+import { MfaService } from './mfa.service';
+import { PasskeyService } from './passkey.service';
+
+export const MFA_CHALLENGE_PURPOSE = 'mfa_challenge';
+const MFA_CHALLENGE_TTL_SECONDS = 300;
+/** Wrong codes allowed per challenge before the password has to be entered again */
+const MFA_CHALLENGE_MAX_ATTEMPTS = 5;
+const IMPERSONATION_TTL_SECONDS = 3600;
 
 @Injectable()
 export class AuthService {
@@ -33,8 +48,12 @@ export class AuthService {
     private readonly emailService: EmailService,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     @InjectModel(ImpersonationLog.name) private impersonationLogModel: Model<ImpersonationLogDocument>,
+    @InjectModel(MfaChallenge.name) private mfaChallengeModel: Model<MfaChallengeDocument>,
     private readonly orgsService: OrgsService,
     private readonly auditService: AuditService,
+    private readonly mfaService: MfaService,
+    private readonly passkeyService: PasskeyService,
+    private readonly sessionsService: SessionsService,
   ) {}
 
   async signup(signupDto: SignupDto) {
@@ -109,32 +128,223 @@ export class AuthService {
       });
     }
 
+    // A registered passkey also works as a second factor
+    const hasPasskeys = await this.passkeyService.hasPasskeys(user.id);
+    if (user.mfaEnabled || hasPasskeys) {
+      // Second step happens in verifyMfaLogin; the login is audited there
+      const challengeId = uuidv4();
+      await this.mfaChallengeModel.create({
+        challengeId,
+        userId: new Types.ObjectId(user.id),
+        expiresAt: new Date(Date.now() + MFA_CHALLENGE_TTL_SECONDS * 1000),
+      });
+      const challengeToken = this.jwtService.sign(
+        { sub: user.id, purpose: MFA_CHALLENGE_PURPOSE, jti: challengeId },
+        { expiresIn: MFA_CHALLENGE_TTL_SECONDS, secret: this.mfaChallengeSecret() },
+      );
+
+      return {
+        success: true,
+        data: {
+          mfaRequired: true,
+          challengeToken,
+          expiresIn: MFA_CHALLENGE_TTL_SECONDS,
+          mfaMethods: [...(user.mfaEnabled ? ['totp'] : []), ...(hasPasskeys ? ['passkey'] : [])],
+        },
+      };
+    }
+
     await this.logSuccessfulLogin(user.id, user.email, meta);
 
-    // Generate tokens
-    const payload = {
-      sub: user.id,
-      email: user.email,
-      verified: user.verified,
-    };
+    return this.buildLoginResponse(user, 'password', meta);
+  }
 
-    const accessToken = this.jwtService.sign(payload);
+  /**
+   * Second step of the login for users with MFA enabled: exchanges the
+   * challenge token and an authenticator or recovery code for an access token.
+   */
+  async verifyMfaLogin(dto: VerifyMfaLoginDto, meta?: { ipAddress?: string; userAgent?: string }) {
+    const { userId, challengeId } = this.verifyMfaChallenge(dto.challengeToken);
+
+    if (!dto.code && !dto.recoveryCode && !dto.passkey) {
+      throw new BadRequestException({
+        code: 'MFA_CODE_REQUIRED',
+        message: 'Enter a code from your authenticator app or a recovery code',
+      });
+    }
+
+    await this.countMfaAttempt(challengeId);
+
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new UnauthorizedException({
+        code: 'INVALID_MFA_CHALLENGE',
+        message: 'The sign-in attempt has expired. Please sign in again.',
+      });
+    }
+
+    if (dto.passkey) {
+      try {
+        await this.passkeyService.verifyAuthentication(dto.passkey, { userId, requireUserVerification: false }, meta);
+      } catch (error) {
+        await this.logFailedLogin(user.email, meta, user.id);
+        throw error;
+      }
+
+      await this.mfaChallengeModel.deleteOne({ challengeId }).exec();
+      await this.logSuccessfulLogin(user.id, user.email, meta);
+
+      return this.buildLoginResponse(user, 'mfa', meta);
+    }
+
+    const verified = await this.mfaService.verifySecondFactor(user, {
+      code: dto.code,
+      recoveryCode: dto.recoveryCode,
+    });
+    if (!verified) {
+      await this.logFailedLogin(user.email, meta, user.id);
+      throw new UnauthorizedException({
+        code: 'INVALID_MFA_CODE',
+        message: 'Invalid authentication code',
+      });
+    }
+
+    await this.mfaChallengeModel.deleteOne({ challengeId }).exec();
+    await this.logSuccessfulLogin(user.id, user.email, meta);
+
+    return this.buildLoginResponse(user, 'mfa', meta);
+  }
+
+  /** Passkey options for the second step of a password login */
+  async startMfaPasskeyLogin(challengeToken: string) {
+    const { userId, challengeId } = this.verifyMfaChallenge(challengeToken);
+    const challenge = await this.mfaChallengeModel.exists({
+      challengeId,
+      attempts: { $lt: MFA_CHALLENGE_MAX_ATTEMPTS },
+    });
+    if (!challenge) {
+      throw new UnauthorizedException({
+        code: 'INVALID_MFA_CHALLENGE',
+        message: 'The sign-in attempt has expired. Please sign in again.',
+      });
+    }
+    const options = await this.passkeyService.startAuthentication(userId);
+
+    return { success: true, data: options };
+  }
+
+  /**
+   * Sign in with a passkey alone. The authenticator has to verify the user
+   * (PIN or biometrics), so no second factor is asked for.
+   */
+  async loginWithPasskey(credential: PasskeyAssertionCredentialDto, meta?: { ipAddress?: string; userAgent?: string }) {
+    const user = await this.passkeyService.verifyAuthentication(credential, { requireUserVerification: true }, meta);
+
+    await this.logSuccessfulLogin(user.id, user.email, meta);
+
+    return this.buildLoginResponse(user, 'passkey', meta);
+  }
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token. Each
+   * refresh token works once; replaying an old one signs the session out.
+   */
+  async refresh(refreshToken: string, meta?: SessionMeta) {
+    const result = await this.sessionsService.rotate(refreshToken, meta);
+
+    if (result.status === 'reused') {
+      const user = await this.userModel.findById(result.session.userId).lean();
+      if (user) {
+        await this.logSessionEvent(user._id.toString(), user.email, 'SESSION_REVOKED', {
+          description: `Session on ${result.session.device} signed out: an old refresh token was used again`,
+          status: 'failure',
+          meta,
+        });
+      }
+      throw new UnauthorizedException({
+        code: 'REFRESH_TOKEN_REUSED',
+        message: 'This session was signed out for your security. Please sign in again.',
+      });
+    }
+
+    const user = result.status === 'rotated' ? await this.userModel.findById(result.session.userId) : null;
+    if (result.status === 'invalid' || !user || user.isActive === false) {
+      throw new UnauthorizedException({
+        code: 'INVALID_REFRESH_TOKEN',
+        message: 'Your session has expired. Please sign in again.',
+      });
+    }
+
+    const accessToken = await this.signAccessToken(user, result.session);
 
     return {
       success: true,
       data: {
         accessToken,
+        refreshToken: result.refreshToken,
         expiresIn: this.getExpiresInSeconds(),
-        user: {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          verified: user.verified,
-        },
       },
     };
   }
 
+  async logout(userId: string, sessionId?: string, meta?: SessionMeta) {
+    if (sessionId) {
+      const session = await this.sessionsService.findActive(sessionId);
+      if (session && session.userId.toString() === userId) {
+        await this.sessionsService.revoke(userId, sessionId, 'logout');
+
+        const user = await this.userModel.findById(userId).lean();
+        if (user) {
+          await this.logSessionEvent(userId, user.email, 'LOGOUT', { description: 'User logged out', meta });
+        }
+      }
+    }
+
+    return { success: true, message: 'Logged out' };
+  }
+
+  /** Active sessions of the user, newest activity first */
+  async listSessions(userId: string, currentSessionId?: string) {
+    const sessions = await this.sessionsService.listActive(userId);
+
+    return {
+      success: true,
+      data: sessions.map((session) => ({
+        ...session.toJSON(),
+        current: session.id === currentSessionId,
+      })),
+    };
+  }
+
+  async revokeSession(userId: string, sessionId: string, meta?: SessionMeta) {
+    const session = await this.sessionsService.revoke(userId, sessionId, 'signed_out_elsewhere');
+
+    const user = await this.userModel.findById(userId).lean();
+    if (user) {
+      await this.logSessionEvent(userId, user.email, 'SESSION_REVOKED', {
+        description: `Signed out session on ${session.device}`,
+        meta,
+      });
+    }
+
+    return { success: true, message: 'Session signed out' };
+  }
+
+  /** Sign out everywhere except the session making the request */
+  async revokeOtherSessions(userId: string, currentSessionId: string | undefined, meta?: SessionMeta) {
+    const revoked = await this.sessionsService.revokeAll(userId, 'signed_out_elsewhere', currentSessionId);
+
+    const user = await this.userModel.findById(userId).lean();
+    if (user && revoked > 0) {
+      await this.logSessionEvent(userId, user.email, 'SESSION_REVOKED', {
+        description: `Signed out ${revoked} other session(s)`,
+        meta,
+      });
+    }
+
+    return { success: true, data: { revoked } };
+  }
+
   async verifyEmail(token: string) {
     const user = await this.usersService.findByVerificationToken(token);
     if (!user) {
@@ -193,6 +403,9 @@ export class AuthService {
     const passwordHash = await bcrypt.hash(newPassword, 12);
     await this.usersService.updatePassword(user.id, passwordHash);
 
+    // Whoever knew the old password may still be signed in
+    await this.sessionsService.revokeAll(user.id, 'password_changed');
+
     return {
       success: true,
       message: 'Password reset successful',
@@ -212,6 +425,7 @@ export class AuthService {
     dto: ImpersonateUserDto,
     clientIp?: string,
     userAgent?: string,
+    adminSessionId?: string,
   ) {
     // 1. Verify admin user
     const adminUser = await this.userModel.findById(adminUserId).lean();
@@ -255,23 +469,37 @@ export class AuthService {
       `IMPERSONATION STARTED: Admin ${adminUser.email} (${adminUserId}) is impersonating ${targetUser.email} (${dto.userId})`,
     );
 
-    // 6. Generate JWT with impersonation metadata
-    const payload = {
+    // 6. Open a time-limited session and generate JWT with impersonation metadata
+    const { session, refreshToken } = await this.sessionsService.create(
+      targetUser._id.toString(),
+      'impersonation',
+      { ipAddress: clientIp, userAgent },
+      {
+        expiresInSeconds: IMPERSONATION_TTL_SECONDS,
+        impersonation: {
+          adminUserId: adminUser._id.toString(),
+          logId: logEntry._id.toString(),
+          parentSessionId: adminSessionId,
+        },
+      },
+    );
+
+    const accessToken = this.jwtService.sign({
       sub: targetUser._id.toString(),
       email: targetUser.email,
       verified: targetUser.verified,
+      sid: session.id,
       // Impersonation metadata
       impersonatedBy: adminUser._id.toString(),
       impersonatedByEmail: adminUser.email,
       impersonationLogId: logEntry._id.toString(),
-    };
-
-    const accessToken = this.jwtService.sign(payload);
+    });
 
     return {
       success: true,
       data: {
         accessToken,
+        refreshToken,
         expiresIn: this.getExpiresInSeconds(),
         user: {
           id: targetUser._id.toString(),
@@ -291,7 +519,7 @@ export class AuthService {
   /**
    * Stop impersonating and return to admin session
    */
-  async stopImpersonating(impersonationLogId: string, adminUserId: string) {
+  async stopImpersonating(impersonationLogId: string, adminUserId: string, sessionId?: string) {
     // Find and mark the log entry as ended
     const logEntry = await this.impersonationLogModel.findById(impersonationLogId);
     
@@ -305,24 +533,34 @@ export class AuthService {
       );
     }
 
-    // Return fresh admin token
-    const adminUser = await this.userModel.findById(adminUserId).lean();
+    // End the impersonation session and resume the admin's own
+    const session = sessionId ? await this.sessionsService.findActive(sessionId) : null;
+    if (session) {
+      await this.sessionsService.revoke(session.userId.toString(), session.id, 'logout');
+    }
+
+    const adminUser = await this.userModel.findById(adminUserId);
     if (!adminUser) {
       throw new UnauthorizedException('Admin user not found');
     }
 
-    const payload = {
-      sub: adminUser._id.toString(),
-      email: adminUser.email,
-      verified: adminUser.verified,
-    };
+    const resumed = session?.parentSessionId
+      ? await this.sessionsService.reissue(session.parentSessionId.toString())
+      : null;
+    if (!resumed) {
+      throw new UnauthorizedException({
+        code: 'SESSION_EXPIRED',
+        message: 'Your admin session has ended. Please sign in again.',
+      });
+    }
 
-    const accessToken = this.jwtService.sign(payload);
+    const accessToken = await this.signAccessToken(adminUser, resumed.session);
 
     return {
       success: true,
       data: {
         accessToken,
+        refreshToken: resumed.refreshToken,
         expiresIn: this.getExpiresInSeconds(),
         user: {
           id: adminUser._id.toString(),
@@ -355,6 +593,49 @@ export class AuthService {
     };
   }
 
+  /**
+   * Challenge tokens are signed with their own key, so nothing that accepts
+   * access tokens (HTTP guard, WebSocket gateways) can be passed one.
+   */
+  private mfaChallengeSecret(): string {
+    return createHmac('sha256', this.configService.get<string>('JWT_SECRET')!)
+      .update(MFA_CHALLENGE_PURPOSE)
+      .digest('hex');
+  }
+
+  /** The user and challenge a token from the first login step was issued for */
+  private verifyMfaChallenge(challengeToken: string): { userId: string; challengeId: string } {
+    try {
+      const challenge = this.jwtService.verify<{ sub: string; purpose?: string; jti?: string }>(challengeToken, {
+        secret: this.mfaChallengeSecret(),
+      });
+      if (challenge.purpose !== MFA_CHALLENGE_PURPOSE || !challenge.jti) {
+        throw new Error('Not an MFA challenge');
+      }
+      return { userId: challenge.sub, challengeId: challenge.jti };
+    } catch {
+      throw new UnauthorizedException({
+        code: 'INVALID_MFA_CHALLENGE',
+        message: 'The sign-in attempt has expired. Please sign in again.',
+      });
+    }
+  }
+
+  /** Count an attempt before checking it, so parallel guesses are capped too */
+  private async countMfaAttempt(challengeId: string): Promise<void> {
+    const challenge = await this.mfaChallengeModel.findOneAndUpdate(
+      { challengeId, attempts: { $lt: MFA_CHALLENGE_MAX_ATTEMPTS } },
+      { $inc: { attempts: 1 } },
+    ).exec();
+
+    if (!challenge) {
+      throw new UnauthorizedException({
+        code: 'MFA_ATTEMPTS_EXCEEDED',
+        message: 'Too many attempts. Please sign in again.',
+      });
+    }
+  }
+
   private async logSuccessfulLogin(
     userId: string,
     email: string,
@@ -422,10 +703,96 @@ export class AuthService {
     });
   }
 
+  private async logSessionEvent(
+    userId: string,
+    email: string,
+    action: Extract<AuditAction, 'LOGOUT' | 'SESSION_REVOKED'>,
+    details: { description: string; status?: 'success' | 'failure'; meta?: SessionMeta },
+  ): Promise<void> {
+    const orgs = await this.orgsService.findAllByUser(userId);
+    const targets = orgs.length > 0 ? orgs : [null];
+
+    await Promise.all(
+      targets.map((org) =>
+        this.auditService.safeLog({
+          orgId: org?.id,
+          action,
+          resourceType: 'user',
+          resourceId: userId,
+          resourceName: email,
+          actorId: userId,
+          actorEmail: email,
+          actorType: 'user',
+          ipAddress: details.meta?.ipAddress,
+          userAgent: details.meta?.userAgent,
+          status: details.status,
+          description: details.description,
+        }),
+      ),
+    );
+  }
+
+  /** Access token bound to a session; impersonation sessions carry the admin's identity */
+  private async signAccessToken(
+    user: Pick<UserDocument, 'id' | 'email' | 'verified'>,
+    session: SessionDocument,
+  ): Promise<string> {
+    const payload: Record<string, unknown> = {
+      sub: user.id,
+      email: user.email,
+      verified: user.verified,
+      sid: session.id,
+    };
+
+    if (session.impersonationLogId) {
+      const log = await this.impersonationLogModel.findById(session.impersonationLogId).lean();
+      if (!log?.isActive) {
+        throw new UnauthorizedException({
+          code: 'INVALID_REFRESH_TOKEN',
+          message: 'The impersonation session has ended.',
+        });
+      }
+      Object.assign(payload, {
+        impersonatedBy: log.adminUserId.toString(),
+        impersonatedByEmail: log.adminEmail,
+        impersonationLogId: log._id.toString(),
+      });
+    }
+
+    return this.jwtService.sign(payload);
+  }
+
+  private async buildLoginResponse(user: UserDocument, method: SessionMethod, meta?: SessionMeta) {
+    const { session, refreshToken } = await this.sessionsService.create(user.id, method, meta);
+    const accessToken = await this.signAccessToken(user, session);
+
+    // Members of orgs that require MFA can sign in, but only reach those orgs
+    // after enrolling
+    const mfaEnrollmentRequired = !user.mfaEnabled
+      && (await this.orgsService.findRequiringMfa(user.id)).length > 0;
+
+    return {
+      success: true,
+      data: {
+        accessToken,
+        refreshToken,
+        expiresIn: this.getExpiresInSeconds(),
+        mfaEnrollmentRequired,
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          verified: user.verified,
+          mfaEnabled: user.mfaEnabled,
+        },
+      },
+    };
+  }
+
   private getExpiresInSeconds(): number {
-    const expiresIn = this.configService.get<string>('JWT_EXPIRES_IN', '7d');
+    const expiresIn = this.configService.get<string>('JWT_EXPIRES_IN', '15m');
     const match = expiresIn.match(/^(\d+)([smhd])$/);
-    if (!match) return 604800; // 7 days default
+    if (!match) return 900; // 15 minutes default
 
     const value = parseInt(match[1]);
     const unit = match[2];
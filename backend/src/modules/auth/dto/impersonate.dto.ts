@@ -18,6 +18,7 @@ export class ImpersonationResponseDto {
   @ApiProperty({ description: 'Impersonation details' })
   data: {
     accessToken: string;
+    refreshToken: string;
     expiresIn: number;
     user: {
       id: string;
@@ -0,0 +1,63 @@
+import { IsString, IsOptional, MinLength, Matches, ValidateNested } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { PasskeyAssertionCredentialDto } from './passkey.dto';
+
+export class VerifyMfaLoginDto {
+  @ApiProperty({ description: 'Challenge token returned by POST /auth/login' })
+  @IsString()
+  @MinLength(1, { message: 'Challenge token is required' })
+  challengeToken: string;
+
+  @ApiPropertyOptional({ example: '123456', description: 'Code from the authenticator app' })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'Code must be 6 digits' })
+  code?: string;
+
+  @ApiPropertyOptional({ example: 'a1b2c-3d4e5', description: 'One of the recovery codes, instead of a code' })
+  @IsOptional()
+  @IsString()
+  recoveryCode?: string;
+
+  @ApiPropertyOptional({
+    type: PasskeyAssertionCredentialDto,
+    description: 'Passkey assertion for the options from POST /auth/login/mfa/passkey/options, instead of a code',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PasskeyAssertionCredentialDto)
+  passkey?: PasskeyAssertionCredentialDto;
+}
+
+export class ConfirmMfaEnrollmentDto {
+  @ApiProperty({ example: '123456', description: 'Code from the authenticator app' })
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'Code must be 6 digits' })
+  code: string;
+}
+
+export class DisableMfaDto {
+  @ApiProperty({ example: 'SecurePass123' })
+  @IsString()
+  @MinLength(1, { message: 'Password is required' })
+  password: string;
+
+  @ApiPropertyOptional({ example: '123456' })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'Code must be 6 digits' })
+  code?: string;
+
+  @ApiPropertyOptional({ example: 'a1b2c-3d4e5' })
+  @IsOptional()
+  @IsString()
+  recoveryCode?: string;
+}
+
+export class RegenerateRecoveryCodesDto {
+  @ApiProperty({ example: '123456', description: 'Code from the authenticator app' })
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'Code must be 6 digits' })
+  code: string;
+}
@@ -0,0 +1,91 @@
+import { IsString, IsOptional, IsArray, MinLength, MaxLength, ValidateNested } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+// Binary fields of the browser's PublicKeyCredential are sent base64url encoded
+
+class PasskeyAttestationResponseDto {
+  @ApiProperty()
+  @IsString()
+  clientDataJSON: string;
+
+  @ApiProperty()
+  @IsString()
+  attestationObject: string;
+
+  @ApiPropertyOptional({ example: ['internal', 'hybrid'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  transports?: string[];
+}
+
+class PasskeyAssertionResponseDto {
+  @ApiProperty()
+  @IsString()
+  clientDataJSON: string;
+
+  @ApiProperty()
+  @IsString()
+  authenticatorData: string;
+
+  @ApiProperty()
+  @IsString()
+  signature: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  userHandle?: string;
+}
+
+export class PasskeyRegistrationCredentialDto {
+  @ApiProperty({ description: 'Credential ID, base64url' })
+  @IsString()
+  @MinLength(1)
+  id: string;
+
+  @ApiProperty({ type: PasskeyAttestationResponseDto })
+  @ValidateNested()
+  @Type(() => PasskeyAttestationResponseDto)
+  response: PasskeyAttestationResponseDto;
+}
+
+export class PasskeyAssertionCredentialDto {
+  @ApiProperty({ description: 'Credential ID, base64url' })
+  @IsString()
+  @MinLength(1)
+  id: string;
+
+  @ApiProperty({ type: PasskeyAssertionResponseDto })
+  @ValidateNested()
+  @Type(() => PasskeyAssertionResponseDto)
+  response: PasskeyAssertionResponseDto;
+}
+
+export class RegisterPasskeyDto {
+  @ApiPropertyOptional({ example: 'MacBook Touch ID' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  name?: string;
+
+  @ApiProperty({ type: PasskeyRegistrationCredentialDto })
+  @ValidateNested()
+  @Type(() => PasskeyRegistrationCredentialDto)
+  credential: PasskeyRegistrationCredentialDto;
+}
+
+export class PasskeyLoginDto {
+  @ApiProperty({ type: PasskeyAssertionCredentialDto })
+  @ValidateNested()
+  @Type(() => PasskeyAssertionCredentialDto)
+  credential: PasskeyAssertionCredentialDto;
+}
+
+export class PasskeyMfaOptionsDto {
+  @ApiProperty({ description: 'Challenge token returned by POST /auth/login' })
+  @IsString()
+  @MinLength(1, { message: 'Challenge token is required' })
+  challengeToken: string;
+}
@@ -0,0 +1,9 @@
+import { IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({ description: 'Refresh token from the last login or refresh' })
+  @IsString()
+  @MinLength(1, { message: 'Refresh token is required' })
+  refreshToken: string;
+}
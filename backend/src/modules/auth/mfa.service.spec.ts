@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { MfaService } from './mfa.service';
+import { User } from '../users/schemas/user.schema';
+import { CredentialsService } from '../credentials/credentials.service';
+import { OrgsService } from '../orgs/orgs.service';
+import { AuditService } from '../audit/audit.service';
+import { generateTotp, generateTotpSecret, hashRecoveryCode, totpStep } from './totp';
+
+describe('MfaService', () => {
+  let service: MfaService;
+
+  const USER_ID = new Types.ObjectId();
+  const secret = generateTotpSecret();
+
+  const mockUserModel = {
+    findById: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  const mockCredentialsService = {
+    // Identity "encryption" keeps the secret readable in assertions
+    encryptString: jest.fn((value: string) => `enc:${value}`),
+    decryptString: jest.fn((value: string) => value.replace(/^enc:/, '')),
+  };
+
+  const mockOrgsService = {
+    findAllByUser: jest.fn(),
+    findRequiringMfa: jest.fn(),
+  };
+
+  const mockAuditService = {
+    safeLog: jest.fn(),
+  };
+
+  const user = (overrides: Record<string, any> = {}) => ({
+    _id: USER_ID,
+    id: USER_ID.toString(),
+    email: 'user@example.com',
+    passwordHash: 'hash',
+    mfaEnabled: false,
+    mfaRecoveryCodeHashes: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        { provide: getModelToken(User.name), useValue: mockUserModel },
+        { provide: ConfigService, useValue: { get: jest.fn((_key: string, fallback?: unknown) => fallback) } },
+        { provide: CredentialsService, useValue: mockCredentialsService },
+        { provide: OrgsService, useValue: mockOrgsService },
+        { provide: AuditService, useValue: mockAuditService },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+
+    jest.clearAllMocks();
+    mockUserModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+    mockOrgsService.findAllByUser.mockResolvedValue([{ id: 'org-1', name: 'Acme' }]);
+    mockOrgsService.findRequiringMfa.mockResolvedValue([]);
+  });
+
+  it('should store the pending secret and return a provisioning URI', async () => {
+    mockUserModel.findById.mockResolvedValue(user());
+
+    const result = await service.startEnrollment(USER_ID.toString());
+
+    expect(result.otpauthUrl).toContain(`secret=${result.secret}`);
+    expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+      { _id: USER_ID },
+      { $set: { mfaPendingSecretEncrypted: `enc:${result.secret}` } },
+    );
+  });
+
+  it('should enable MFA with a valid code and audit it', async () => {
+    mockUserModel.findById.mockResolvedValue(user({ mfaPendingSecretEncrypted: `enc:${secret}` }));
+
+    const { recoveryCodes } = await service.confirmEnrollment(
+      USER_ID.toString(),
+      generateTotp(secret, totpStep(Date.now())),
+    );
+
+    expect(recoveryCodes).toHaveLength(10);
+    const [, update] = mockUserModel.updateOne.mock.calls[0];
+    expect(update.$set).toMatchObject({
+      mfaEnabled: true,
+      mfaSecretEncrypted: `enc:${secret}`,
+      mfaRecoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+    });
+    expect(mockAuditService.safeLog).toHaveBeenCalledWith(
+      expect.objectContaining({ orgId: 'org-1', action: 'MFA_ENABLED' }),
+    );
+  });
+
+  it('should reject an invalid enrollment code', async () => {
+    mockUserModel.findById.mockResolvedValue(user({ mfaPendingSecretEncrypted: `enc:${secret}` }));
+
+    await expect(service.confirmEnrollment(USER_ID.toString(), '000000')).rejects.toThrow(BadRequestException);
+    expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a replayed code', async () => {
+    const enrolled = user({ mfaEnabled: true, mfaSecretEncrypted: `enc:${secret}` });
+    const step = totpStep(Date.now());
+    const code = generateTotp(secret, step);
+
+    await expect(service.verifySecondFactor(enrolled as any, { code })).resolves.toBe(true);
+    const [filter] = mockUserModel.updateOne.mock.calls[0];
+    expect(filter.$or).toEqual([
+      { mfaLastUsedStep: { $exists: false } },
+      { mfaLastUsedStep: { $lt: step } },
+    ]);
+
+    // The conditional update matches nothing once the step has been used
+    mockUserModel.updateOne.mockResolvedValue({ modifiedCount: 0 });
+    await expect(service.verifySecondFactor(enrolled as any, { code })).resolves.toBe(false);
+  });
+
+  it('should consume a recovery code', async () => {
+    const enrolled = user({ mfaEnabled: true, mfaSecretEncrypted: `enc:${secret}` });
+
+    await expect(service.verifySecondFactor(enrolled as any, { recoveryCode: 'ABCDE-12345' })).resolves.toBe(true);
+    expect(mockUserModel.updateOne).toHaveBeenCalledWith(
+      { _id: USER_ID, mfaRecoveryCodeHashes: hashRecoveryCode('abcde12345') },
+      { $pull: { mfaRecoveryCodeHashes: hashRecoveryCode('abcde12345') } },
+    );
+  });
+
+  it('should not disable MFA while an organization requires it', async () => {
+    mockUserModel.findById.mockResolvedValue(user({ mfaEnabled: true, mfaSecretEncrypted: `enc:${secret}` }));
+    mockOrgsService.findRequiringMfa.mockResolvedValue([{ id: 'org-1', name: 'Acme' }]);
+
+    await expect(
+      service.disable(USER_ID.toString(), 'password', { code: generateTotp(secret, totpStep(Date.now())) }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(mockUserModel.updateOne).not.toHaveBeenCalled();
+  });
+});
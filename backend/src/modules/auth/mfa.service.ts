@@ -0,0 +1,267 @@
+import {
+  Injectable,
+  BadRequestException,
+  UnauthorizedException,
+  ForbiddenException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import * as bcrypt from 'bcryptjs';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { CredentialsService } from '../credentials/credentials.service';
+import { OrgsService } from '../orgs/orgs.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/schemas/audit-log.schema';
+import {
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from './totp';
+
+interface RequestMeta {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+@Injectable()
+export class MfaService {
+  private readonly logger = new Logger(MfaService.name);
+
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly configService: ConfigService,
+    private readonly credentialsService: CredentialsService,
+    private readonly orgsService: OrgsService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async getStatus(userId: string) {
+    const user = await this.getUser(userId);
+    const requiredBy = await this.orgsService.findRequiringMfa(userId);
+
+    return {
+      enabled: user.mfaEnabled,
+      enabledAt: user.mfaEnabledAt,
+      enrollmentPending: !user.mfaEnabled && !!user.mfaPendingSecretEncrypted,
+      recoveryCodesRemaining: user.mfaEnabled ? user.mfaRecoveryCodeHashes.length : 0,
+      requiredBy: requiredBy.map((org) => ({ id: org.id, name: org.name })),
+    };
+  }
+
+  /**
+   * Start (or restart) enrollment with a new secret. The secret only becomes
+   * active once a code generated from it is confirmed.
+   */
+  async startEnrollment(userId: string) {
+    const user = await this.getUser(userId);
+    if (user.mfaEnabled) {
+      throw new BadRequestException({
+        code: 'MFA_ALREADY_ENABLED',
+        message: 'Multi-factor authentication is already enabled',
+      });
+    }
+
+    const secret = generateTotpSecret();
+    await this.userModel.updateOne(
+      { _id: user._id },
+      { $set: { mfaPendingSecretEncrypted: this.credentialsService.encryptString(secret) } },
+    );
+
+    return {
+      secret,
+      otpauthUrl: buildOtpauthUrl(secret, user.email, this.configService.get<string>('MFA_ISSUER', 'EUTLAS')),
+    };
+  }
+
+  /** Activate the pending secret and hand out the recovery codes, once. */
+  async confirmEnrollment(userId: string, code: string, meta?: RequestMeta) {
+    const user = await this.getUser(userId);
+    if (user.mfaEnabled) {
+      throw new BadRequestException({
+        code: 'MFA_ALREADY_ENABLED',
+        message: 'Multi-factor authentication is already enabled',
+      });
+    }
+    if (!user.mfaPendingSecretEncrypted) {
+      throw new BadRequestException({
+        code: 'MFA_ENROLLMENT_NOT_STARTED',
+        message: 'Start the enrollment first',
+      });
+    }
+
+    const secret = this.credentialsService.decryptString(user.mfaPendingSecretEncrypted);
+    const step = verifyTotp(secret, code);
+    if (step === null) {
+      throw new BadRequestException({
+        code: 'INVALID_MFA_CODE',
+        message: 'The code is not valid. Check the time on your device and try again.',
+      });
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.userModel.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          mfaEnabled: true,
+          mfaEnabledAt: new Date(),
+          mfaSecretEncrypted: user.mfaPendingSecretEncrypted,
+          mfaRecoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+          mfaLastUsedStep: step,
+        },
+        $unset: { mfaPendingSecretEncrypted: 1 },
+      },
+    );
+
+    await this.audit(user, 'MFA_ENABLED', 'Enabled multi-factor authentication (authenticator app)', meta);
+    this.logger.log(`MFA enabled for user ${user.id}`);
+
+    return { recoveryCodes };
+  }
+
+  async disable(userId: string, password: string, factor: SecondFactor, meta?: RequestMeta): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user.mfaEnabled) {
+      throw new BadRequestException({
+        code: 'MFA_NOT_ENABLED',
+        message: 'Multi-factor authentication is not enabled',
+      });
+    }
+
+    const requiredBy = await this.orgsService.findRequiringMfa(userId);
+    if (requiredBy.length > 0) {
+      throw new ForbiddenException({
+        code: 'MFA_REQUIRED_BY_ORG',
+        message: `Multi-factor authentication is required by ${requiredBy.map((org) => org.name).join(', ')}`,
+      });
+    }
+
+    const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
+    if (!isPasswordValid || !(await this.verifySecondFactor(user, factor))) {
+      throw new UnauthorizedException({
+        code: 'INVALID_CREDENTIALS',
+        message: 'Invalid password or code',
+      });
+    }
+
+    await this.userModel.updateOne(
+      { _id: user._id },
+      {
+        $set: { mfaEnabled: false, mfaRecoveryCodeHashes: [] },
+        $unset: { mfaSecretEncrypted: 1, mfaPendingSecretEncrypted: 1, mfaEnabledAt: 1, mfaLastUsedStep: 1 },
+      },
+    );
+
+    await this.audit(user, 'MFA_DISABLED', 'Disabled multi-factor authentication', meta);
+    this.logger.log(`MFA disabled for user ${user.id}`);
+  }
+
+  /** Replace all recovery codes; the old ones stop working. */
+  async regenerateRecoveryCodes(userId: string, code: string, meta?: RequestMeta) {
+    const user = await this.getUser(userId);
+    if (!user.mfaEnabled) {
+      throw new BadRequestException({
+        code: 'MFA_NOT_ENABLED',
+        message: 'Multi-factor authentication is not enabled',
+      });
+    }
+    if (!(await this.verifySecondFactor(user, { code }))) {
+      throw new UnauthorizedException({
+        code: 'INVALID_MFA_CODE',
+        message: 'The code is not valid',
+      });
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.userModel.updateOne(
+      { _id: user._id },
+      { $set: { mfaRecoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) } },
+    );
+
+    await this.audit(user, 'MFA_RECOVERY_CODES_REGENERATED', 'Generated new MFA recovery codes', meta);
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Check a TOTP code or consume a recovery code. Each TOTP time step and
+   * each recovery code is accepted only once.
+   */
+  async verifySecondFactor(user: UserDocument, factor: SecondFactor): Promise<boolean> {
+    if (!user.mfaEnabled || !user.mfaSecretEncrypted) {
+      return false;
+    }
+
+    if (factor.code) {
+      const secret = this.credentialsService.decryptString(user.mfaSecretEncrypted);
+      const step = verifyTotp(secret, factor.code);
+      if (step === null) {
+        return false;
+      }
+
+      const result = await this.userModel.updateOne(
+        {
+          _id: user._id,
+          $or: [{ mfaLastUsedStep: { $exists: false } }, { mfaLastUsedStep: { $lt: step } }],
+        },
+        { $set: { mfaLastUsedStep: step } },
+      );
+      return result.modifiedCount === 1;
+    }
+
+    if (factor.recoveryCode) {
+      const hash = hashRecoveryCode(factor.recoveryCode);
+      const result = await this.userModel.updateOne(
+        { _id: user._id, mfaRecoveryCodeHashes: hash },
+        { $pull: { mfaRecoveryCodeHashes: hash } },
+      );
+      if (result.modifiedCount === 1) {
+        this.logger.warn(`User ${user.id} signed in with a recovery code`);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private async getUser(userId: string): Promise<UserDocument> {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private async audit(user: UserDocument, action: AuditAction, description: string, meta?: RequestMeta): Promise<void> {
+    const orgs = await this.orgsService.findAllByUser(user.id);
+    const targets = orgs.length > 0 ? orgs : [null];
+
+    await Promise.all(
+      targets.map((org) =>
+        this.auditService.safeLog({
+          orgId: org?.id,
+          action,
+          resourceType: 'user',
+          resourceId: user.id,
+          resourceName: user.email,
+          actorId: user.id,
+          actorEmail: user.email,
+          actorType: 'user',
+          ipAddress: meta?.ipAddress,
+          userAgent: meta?.userAgent,
+          description,
+        }),
+      ),
+    );
+  }
+}
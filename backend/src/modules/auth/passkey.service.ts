@@ -0,0 +1,341 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  UnauthorizedException,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import {
+  Passkey,
+  PasskeyDocument,
+  PasskeyChallenge,
+  PasskeyChallengeDocument,
+  PasskeyCeremony,
+} from './schemas/passkey.schema';
+import { OrgsService } from '../orgs/orgs.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/schemas/audit-log.schema';
+import { PasskeyAssertionCredentialDto, RegisterPasskeyDto } from './dto/passkey.dto';
+import {
+  SUPPORTED_ALGORITHMS,
+  WebAuthnError,
+  generateChallenge,
+  parseClientData,
+  verifyAssertion,
+  verifyRegistration,
+} from './webauthn';
+
+const CHALLENGE_TTL_SECONDS = 300;
+
+interface RequestMeta {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface PasskeyVerification {
+  /** Only accept the passkeys of this user (second factor) */
+  userId?: string;
+  /** Require the authenticator to verify the user, e.g. by PIN or biometrics (primary factor) */
+  requireUserVerification: boolean;
+}
+
+/**
+ * WebAuthn registration and authentication ceremonies. Passkeys sign the
+ * user in on their own, or serve as a second factor after the password.
+ */
+@Injectable()
+export class PasskeyService {
+  private readonly logger = new Logger(PasskeyService.name);
+
+  constructor(
+    @InjectModel(Passkey.name) private passkeyModel: Model<PasskeyDocument>,
+    @InjectModel(PasskeyChallenge.name) private challengeModel: Model<PasskeyChallengeDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private readonly configService: ConfigService,
+    private readonly orgsService: OrgsService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  async list(userId: string): Promise<Passkey[]> {
+    return this.passkeyModel
+      .find({ userId: new Types.ObjectId(userId) })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async hasPasskeys(userId: string): Promise<boolean> {
+    return !!(await this.passkeyModel.exists({ userId: new Types.ObjectId(userId) }));
+  }
+
+  /** Options for `navigator.credentials.create()` */
+  async startRegistration(userId: string) {
+    const user = await this.getUser(userId);
+    const existing = await this.list(userId);
+    const { rpId, rpName } = this.relyingParty();
+
+    return {
+      challenge: await this.createChallenge('registration', user.id),
+      rp: { id: rpId, name: rpName },
+      // The user handle is stored on the authenticator; the ObjectId reveals nothing about the user
+      user: {
+        id: Buffer.from(user.id, 'hex').toString('base64url'),
+        name: user.email,
+        displayName: user.name || user.email,
+      },
+      pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({ type: 'public-key', alg })),
+      timeout: CHALLENGE_TTL_SECONDS * 1000,
+      attestation: 'none',
+      excludeCredentials: existing.map((passkey) => ({
+        type: 'public-key',
+        id: passkey.credentialId,
+        transports: passkey.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: 'required',
+        requireResidentKey: true,
+        userVerification: 'preferred',
+      },
+    };
+  }
+
+  async finishRegistration(userId: string, dto: RegisterPasskeyDto, meta?: RequestMeta): Promise<Passkey> {
+    const user = await this.getUser(userId);
+    const challenge = await this.consumeChallenge(dto.credential.response.clientDataJSON, 'registration', user.id);
+
+    let verified: ReturnType<typeof verifyRegistration>;
+    try {
+      verified = verifyRegistration(dto.credential.response, {
+        challenge,
+        ...this.expectedOrigin(),
+        requireUserVerification: false,
+      });
+    } catch (error) {
+      if (error instanceof WebAuthnError) {
+        throw new BadRequestException({ code: 'INVALID_PASSKEY', message: error.message });
+      }
+      throw error;
+    }
+
+    if (await this.passkeyModel.exists({ credentialId: verified.credentialId })) {
+      throw new ConflictException({
+        code: 'PASSKEY_ALREADY_REGISTERED',
+        message: 'This passkey is already registered',
+      });
+    }
+
+    const passkey = await this.passkeyModel.create({
+      userId: user._id,
+      credentialId: verified.credentialId,
+      publicKey: verified.publicKey,
+      algorithm: verified.algorithm,
+      signCount: verified.signCount,
+      transports: dto.credential.response.transports ?? [],
+      name: dto.name?.trim() || 'Passkey',
+      aaguid: verified.aaguid,
+      backedUp: verified.backedUp,
+    });
+
+    await this.audit(user, 'PASSKEY_REGISTERED', `Registered passkey "${passkey.name}"`, meta);
+    this.logger.log(`Passkey registered for user ${user.id}`);
+
+    return passkey;
+  }
+
+  /**
+   * Options for `navigator.credentials.get()`. Without a user the browser
+   * offers any passkey it has for this site.
+   */
+  async startAuthentication(userId?: string) {
+    const allowCredentials = userId
+      ? (await this.list(userId)).map((passkey) => ({
+          type: 'public-key',
+          id: passkey.credentialId,
+          transports: passkey.transports,
+        }))
+      : [];
+
+    return {
+      challenge: await this.createChallenge('authentication', userId),
+      rpId: this.relyingParty().rpId,
+      timeout: CHALLENGE_TTL_SECONDS * 1000,
+      userVerification: userId ? 'preferred' : 'required',
+      allowCredentials,
+    };
+  }
+
+  /** Verify an assertion and return the user it signs in. */
+  async verifyAuthentication(
+    credential: PasskeyAssertionCredentialDto,
+    options: PasskeyVerification,
+    meta?: RequestMeta,
+  ): Promise<UserDocument> {
+    const challenge = await this.consumeChallenge(credential.response.clientDataJSON, 'authentication', options.userId);
+
+    const passkey = await this.passkeyModel.findOne({
+      credentialId: credential.id,
+      ...(options.userId && { userId: new Types.ObjectId(options.userId) }),
+    });
+    const user = passkey ? await this.userModel.findById(passkey.userId) : null;
+    if (!passkey || !user) {
+      await this.auditService.safeLog({
+        action: 'PASSKEY_VERIFICATION_FAILED',
+        resourceType: 'user',
+        actorType: 'user',
+        ipAddress: meta?.ipAddress,
+        userAgent: meta?.userAgent,
+        status: 'failure',
+        description: 'Sign-in attempt with an unknown passkey',
+      });
+      throw this.invalidPasskey();
+    }
+
+    const { userHandle } = credential.response;
+    if (userHandle && Buffer.from(userHandle, 'base64url').toString('hex') !== user.id) {
+      await this.audit(user, 'PASSKEY_VERIFICATION_FAILED', `Passkey "${passkey.name}" returned another user handle`, meta, 'failure');
+      throw this.invalidPasskey();
+    }
+
+    let verified: ReturnType<typeof verifyAssertion>;
+    try {
+      verified = verifyAssertion(credential.response, {
+        challenge,
+        ...this.expectedOrigin(),
+        requireUserVerification: options.requireUserVerification,
+        publicKey: passkey.publicKey,
+        signCount: passkey.signCount,
+      });
+    } catch (error) {
+      if (!(error instanceof WebAuthnError)) throw error;
+      await this.audit(user, 'PASSKEY_VERIFICATION_FAILED', `Passkey "${passkey.name}" rejected: ${error.message}`, meta, 'failure');
+      throw this.invalidPasskey();
+    }
+
+    // Conditional on the counter we checked against, so concurrent uses of a cloned key cannot both pass
+    const result = await this.passkeyModel.updateOne(
+      { _id: passkey._id, signCount: passkey.signCount },
+      { $set: { signCount: verified.signCount, backedUp: verified.backedUp, lastUsedAt: new Date() } },
+    );
+    if (result.modifiedCount !== 1) {
+      throw this.invalidPasskey();
+    }
+
+    await this.audit(user, 'PASSKEY_VERIFIED', `Signed in with passkey "${passkey.name}"`, meta);
+
+    return user;
+  }
+
+  async remove(userId: string, passkeyId: string, meta?: RequestMeta): Promise<void> {
+    const user = await this.getUser(userId);
+    const passkey = Types.ObjectId.isValid(passkeyId)
+      ? await this.passkeyModel.findOneAndDelete({ _id: passkeyId, userId: user._id })
+      : null;
+    if (!passkey) {
+      throw new NotFoundException({ code: 'PASSKEY_NOT_FOUND', message: 'Passkey not found' });
+    }
+
+    await this.audit(user, 'PASSKEY_REMOVED', `Removed passkey "${passkey.name}"`, meta);
+    this.logger.log(`Passkey ${passkey.id} removed for user ${user.id}`);
+  }
+
+  private relyingParty(): { rpId: string; rpName: string } {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
+    return {
+      rpId: this.configService.get<string>('WEBAUTHN_RP_ID') || new URL(frontendUrl).hostname,
+      rpName: this.configService.get<string>('MFA_ISSUER', 'EUTLAS'),
+    };
+  }
+
+  private expectedOrigin(): { rpId: string; origins: string[] } {
+    const origins = this.configService.get<string>('WEBAUTHN_ORIGINS')
+      || this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000');
+    return {
+      rpId: this.relyingParty().rpId,
+      origins: origins.split(',').map((origin) => origin.trim().replace(/\/$/, '')),
+    };
+  }
+
+  private async createChallenge(ceremony: PasskeyCeremony, userId?: string): Promise<string> {
+    const challenge = generateChallenge();
+    await this.challengeModel.create({
+      challenge,
+      ceremony,
+      userId: userId ? new Types.ObjectId(userId) : undefined,
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_SECONDS * 1000),
+    });
+    return challenge;
+  }
+
+  /** Take the challenge the response was made for; each is accepted once. */
+  private async consumeChallenge(clientDataJSON: string, ceremony: PasskeyCeremony, userId?: string): Promise<string> {
+    let challenge: string;
+    try {
+      challenge = parseClientData(clientDataJSON).challenge;
+    } catch (error) {
+      throw new BadRequestException({ code: 'INVALID_PASSKEY', message: (error as Error).message });
+    }
+
+    const stored = await this.challengeModel.findOneAndDelete({
+      challenge,
+      ceremony,
+      userId: userId ? new Types.ObjectId(userId) : { $exists: false },
+      expiresAt: { $gt: new Date() },
+    });
+    if (!stored) {
+      throw new UnauthorizedException({
+        code: 'PASSKEY_CHALLENGE_EXPIRED',
+        message: 'The passkey request has expired. Please try again.',
+      });
+    }
+    return challenge;
+  }
+
+  private invalidPasskey(): UnauthorizedException {
+    return new UnauthorizedException({
+      code: 'INVALID_PASSKEY',
+      message: 'The passkey could not be verified',
+    });
+  }
+
+  private async getUser(userId: string): Promise<UserDocument> {
+    const user = await this.userModel.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private async audit(
+    user: UserDocument,
+    action: AuditAction,
+    description: string,
+    meta?: RequestMeta,
+    status: 'success' | 'failure' = 'success',
+  ): Promise<void> {
+    const orgs = await this.orgsService.findAllByUser(user.id);
+    const targets = orgs.length > 0 ? orgs : [null];
+
+    await Promise.all(
+      targets.map((org) =>
+        this.auditService.safeLog({
+          orgId: org?.id,
+          action,
+          resourceType: 'user',
+          resourceId: user.id,
+          resourceName: user.email,
+          actorId: user.id,
+          actorEmail: user.email,
+          actorType: 'user',
+          ipAddress: meta?.ipAddress,
+          userAgent: meta?.userAgent,
+          status,
+          description,
+        }),
+      ),
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type MfaChallengeDocument = MfaChallenge & Document;
+
+/**
+ * Second login step in progress. Counts attempts so a challenge token can't
+ * be used to guess codes, and is removed once the login completes.
+ */
+@Schema({
+  timestamps: true,
+  collection: 'mfachallenges',
+})
+export class MfaChallenge {
+  /** `jti` of the challenge token */
+  @Prop({ required: true, unique: true })
+  challengeId: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const MfaChallengeSchema = SchemaFactory.createForClass(MfaChallenge);
+
+MfaChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
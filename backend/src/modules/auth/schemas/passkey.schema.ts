@@ -0,0 +1,96 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PasskeyDocument = Passkey & Document;
+export type PasskeyChallengeDocument = PasskeyChallenge & Document;
+
+export type PasskeyCeremony = 'registration' | 'authentication';
+
+/** A WebAuthn public-key credential registered by a user */
+@Schema({
+  timestamps: true,
+  collection: 'passkeys',
+  toJSON: {
+    virtuals: true,
+    transform: (_: any, ret: any) => {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      delete ret.publicKey;
+      return ret;
+    },
+  },
+})
+export class Passkey {
+  id: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  /** Credential ID chosen by the authenticator, base64url */
+  @Prop({ required: true, unique: true })
+  credentialId: string;
+
+  /** COSE_Key, base64url */
+  @Prop({ required: true })
+  publicKey: string;
+
+  /** COSE algorithm identifier of the key */
+  @Prop({ required: true })
+  algorithm: number;
+
+  /** Last signature counter seen; 0 for authenticators without a counter */
+  @Prop({ default: 0 })
+  signCount: number;
+
+  @Prop({ type: [String], default: [] })
+  transports: string[];
+
+  @Prop({ required: true, trim: true })
+  name: string;
+
+  /** Authenticator model, all zeros when not disclosed */
+  @Prop()
+  aaguid?: string;
+
+  /** Synced to other devices (e.g. through a password manager) */
+  @Prop({ default: false })
+  backedUp: boolean;
+
+  @Prop()
+  lastUsedAt?: Date;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const PasskeySchema = SchemaFactory.createForClass(Passkey);
+
+PasskeySchema.index({ userId: 1, createdAt: -1 });
+
+/** Challenge of a ceremony in progress; each is accepted once */
+@Schema({
+  timestamps: true,
+  collection: 'passkeychallenges',
+})
+export class PasskeyChallenge {
+  @Prop({ required: true, unique: true })
+  challenge: string;
+
+  @Prop({ required: true, enum: ['registration', 'authentication'] })
+  ceremony: PasskeyCeremony;
+
+  /** Unset for passkey sign-in, where the user is not known yet */
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId?: Types.ObjectId;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const PasskeyChallengeSchema = SchemaFactory.createForClass(PasskeyChallenge);
+
+PasskeyChallengeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
@@ -1,22 +1,15 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
-import { AuthService } from '../auth.service';
-
-interface JwtPayload {
-  sub: string;
-  email: string;
-  verified: boolean;
-  iat: number;
-  exp: number;
-}
+import { AccessTokensService, AccessTokenPayload } from '../../users/access-tokens.service';
+import { CurrentUserData } from '../../../common/decorators/current-user.decorator';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private readonly configService: ConfigService,
-    private readonly authService: AuthService,
+    private readonly accessTokensService: AccessTokensService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -25,22 +18,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  async validate(payload: JwtPayload) {
-    const user = await this.authService.validateUser(payload.sub);
-    
-    if (!user) {
-      throw new UnauthorizedException('User not found');
-    }
-
-    return {
-      userId: payload.sub,
-      email: payload.email,
-      verified: payload.verified,
-    };
+  async validate(payload: AccessTokenPayload): Promise<CurrentUserData> {
+    return this.accessTokensService.validate(payload);
   }
 }
-
-
-
-
-
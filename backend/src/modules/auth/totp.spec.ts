@@ -0,0 +1,55 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTotp,
+  hashRecoveryCode,
+  totpStep,
+  verifyTotp,
+} from './totp';
+
+describe('totp', () => {
+  // RFC 6238 appendix B test secret "12345678901234567890"
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('should round-trip base32', () => {
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(secret).toString()).toBe('12345678901234567890');
+    expect(base32Decode('gezd gnbv-gy3t qojq').toString()).toBe('1234567890');
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    // The RFC lists 8 digit codes; authenticators use the last 6
+    expect(generateTotp(secret, totpStep(59_000))).toBe('287082');
+    expect(generateTotp(secret, totpStep(1_111_111_109_000))).toBe('081804');
+    expect(generateTotp(secret, totpStep(1_234_567_890_000))).toBe('005924');
+  });
+
+  it('should accept codes within one step of drift and return the matching step', () => {
+    const at = 1_234_567_890_000;
+    const step = totpStep(at);
+
+    expect(verifyTotp(secret, generateTotp(secret, step), at)).toBe(step);
+    expect(verifyTotp(secret, generateTotp(secret, step - 1), at)).toBe(step - 1);
+    expect(verifyTotp(secret, generateTotp(secret, step + 2), at)).toBeNull();
+    expect(verifyTotp(secret, '12345', at)).toBeNull();
+    expect(verifyTotp(secret, 'abcdef', at)).toBeNull();
+  });
+
+  it('should build an otpauth provisioning URI', () => {
+    const url = buildOtpauthUrl(secret, 'user@example.com', 'EUTLAS');
+
+    expect(url.startsWith('otpauth://totp/EUTLAS%3Auser%40example.com?')).toBe(true);
+    expect(new URL(url).searchParams.get('secret')).toBe(secret);
+    expect(new URL(url).searchParams.get('issuer')).toBe('EUTLAS');
+  });
+
+  it('should hash recovery codes independent of formatting', () => {
+    const [code] = generateRecoveryCodes(1);
+
+    expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    expect(hashRecoveryCode(code.toUpperCase().replace('-', ' '))).toBe(hashRecoveryCode(code));
+    expect(new Set(generateRecoveryCodes(10)).size).toBe(10);
+  });
+});
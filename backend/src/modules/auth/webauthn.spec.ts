@@ -0,0 +1,209 @@
+import { createHash, generateKeyPairSync, KeyObject, sign } from 'crypto';
+import {
+  COSE_ALG_EDDSA,
+  COSE_ALG_ES256,
+  decodeCbor,
+  parseAuthenticatorData,
+  verifyAssertion,
+  verifyRegistration,
+} from './webauthn';
+
+// Minimal encoder for building authenticator responses
+function encodeCbor(value: unknown): Buffer {
+  const head = (major: number, length: number) =>
+    length < 24
+      ? Buffer.from([(major << 5) | length])
+      : length < 256
+        ? Buffer.from([(major << 5) | 24, length])
+        : Buffer.from([(major << 5) | 25, length >> 8, length & 255]);
+
+  if (typeof value === 'number') return value >= 0 ? head(0, value) : head(1, -1 - value);
+  if (typeof value === 'string') return Buffer.concat([head(3, Buffer.byteLength(value)), Buffer.from(value)]);
+  if (Buffer.isBuffer(value)) return Buffer.concat([head(2, value.length), value]);
+  if (Array.isArray(value)) return Buffer.concat([head(4, value.length), ...value.map(encodeCbor)]);
+  if (value instanceof Map) {
+    return Buffer.concat([head(5, value.size), ...[...value].flatMap(([k, v]) => [encodeCbor(k), encodeCbor(v)])]);
+  }
+  throw new Error(`Cannot encode ${typeof value}`);
+}
+
+describe('webauthn', () => {
+  const rpId = 'app.example.com';
+  const origin = 'https://app.example.com';
+  const challenge = Buffer.from('challenge-bytes').toString('base64url');
+  const expected = { challenge, origins: [origin], rpId, requireUserVerification: false };
+  const credentialId = Buffer.from('credential-1');
+
+  const clientData = (type: string, overrides: Record<string, unknown> = {}) =>
+    Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false, ...overrides })).toString('base64url');
+
+  const authenticatorData = (flags: number, signCount: number, attested?: Buffer, id = rpId) => {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(signCount);
+    return Buffer.concat([createHash('sha256').update(id).digest(), Buffer.from([flags]), counter, attested ?? Buffer.alloc(0)]);
+  };
+
+  const es256Key = () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const jwk = publicKey.export({ format: 'jwk' });
+    const cose = encodeCbor(new Map<number, unknown>([
+      [1, 2],
+      [3, COSE_ALG_ES256],
+      [-1, 1],
+      [-2, Buffer.from(jwk.x!, 'base64url')],
+      [-3, Buffer.from(jwk.y!, 'base64url')],
+    ]));
+    return { cose, privateKey };
+  };
+
+  const register = (cose: Buffer, flags = 0x41, overrides: Record<string, unknown> = {}) => {
+    const idLength = Buffer.alloc(2);
+    idLength.writeUInt16BE(credentialId.length);
+    const attested = Buffer.concat([Buffer.alloc(16), idLength, credentialId, cose]);
+    const attestationObject = encodeCbor(new Map<string, unknown>([
+      ['fmt', 'none'],
+      ['attStmt', new Map()],
+      ['authData', authenticatorData(flags, 0, attested)],
+    ]));
+
+    return verifyRegistration(
+      { clientDataJSON: clientData('webauthn.create', overrides), attestationObject: attestationObject.toString('base64url') },
+      expected,
+    );
+  };
+
+  const assertion = (privateKey: KeyObject, signCount: number, flags = 0x05, algorithm: string | null = 'sha256') => {
+    const authData = authenticatorData(flags, signCount);
+    const clientDataJSON = clientData('webauthn.get');
+    const signature = sign(
+      algorithm,
+      Buffer.concat([authData, createHash('sha256').update(Buffer.from(clientDataJSON, 'base64url')).digest()]),
+      privateKey,
+    );
+    return {
+      clientDataJSON,
+      authenticatorData: authData.toString('base64url'),
+      signature: signature.toString('base64url'),
+    };
+  };
+
+  it('should decode the CBOR types authenticators use', () => {
+    const { value, offset } = decodeCbor(Buffer.from([
+      0xa4, // map of 4
+      0x01, 0x02, // 1: 2
+      0x20, 0x83, 0xf5, 0xf4, 0xf6, // -1: [true, false, null]
+      0x63, 0x61, 0x62, 0x63, 0x42, 0x01, 0x02, // "abc": h'0102'
+      0x39, 0x01, 0x00, 0xf9, 0x3c, 0x00, // -257: 1.0 (half float)
+    ]));
+
+    expect(value).toEqual(new Map<unknown, unknown>([
+      [1, 2],
+      [-1, [true, false, null]],
+      ['abc', Buffer.from([1, 2])],
+      [-257, 1],
+    ]));
+    expect(offset).toBe(21);
+    expect(() => decodeCbor(Buffer.from([0x43, 0x01]))).toThrow('Unexpected end of CBOR data');
+  });
+
+  it('should read flags, counter and the attested credential', () => {
+    const { cose } = es256Key();
+    const data = parseAuthenticatorData(Buffer.concat([
+      authenticatorData(0x5d, 7),
+      Buffer.from('00112233445566778899aabbccddeeff', 'hex'),
+      Buffer.from([0, 2, 9, 9]),
+      cose,
+      Buffer.from([0xa0]), // extensions
+    ]));
+
+    expect(data).toMatchObject({ userPresent: true, userVerified: true, backupEligible: true, backedUp: true, signCount: 7 });
+    expect(data.attestedCredential).toEqual({
+      aaguid: '00112233-4455-6677-8899-aabbccddeeff',
+      credentialId: Buffer.from([9, 9]),
+      publicKey: cose,
+    });
+  });
+
+  describe('verifyRegistration', () => {
+    it('should return the credential and its public key', () => {
+      const { cose } = es256Key();
+
+      expect(register(cose)).toEqual({
+        credentialId: credentialId.toString('base64url'),
+        publicKey: cose.toString('base64url'),
+        algorithm: COSE_ALG_ES256,
+        signCount: 0,
+        aaguid: '00000000-0000-0000-0000-000000000000',
+        userVerified: false,
+        backupEligible: false,
+        backedUp: false,
+      });
+    });
+
+    it('should reject responses for another origin or challenge, or without user presence', () => {
+      const { cose } = es256Key();
+
+      expect(() => register(cose, 0x41, { origin: 'https://evil.example.com' })).toThrow(expect.objectContaining({ code: 'ORIGIN_MISMATCH' }));
+      expect(() => register(cose, 0x41, { challenge: 'other' })).toThrow(expect.objectContaining({ code: 'CHALLENGE_MISMATCH' }));
+      expect(() => register(cose, 0x40)).toThrow(expect.objectContaining({ code: 'USER_NOT_PRESENT' }));
+    });
+
+    it('should reject keys with unsupported algorithms', () => {
+      const cose = encodeCbor(new Map<number, unknown>([[1, 2], [3, -35], [-1, 2]]));
+
+      expect(() => register(cose)).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_ALGORITHM' }));
+    });
+  });
+
+  describe('verifyAssertion', () => {
+    it('should verify ES256 signatures and return the new counter', () => {
+      const { cose, privateKey } = es256Key();
+      const publicKey = cose.toString('base64url');
+
+      expect(verifyAssertion(assertion(privateKey, 5), { ...expected, publicKey, signCount: 4 })).toEqual({
+        signCount: 5,
+        userVerified: true,
+        backedUp: false,
+      });
+    });
+
+    it('should verify Ed25519 signatures', () => {
+      const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+      const cose = encodeCbor(new Map<number, unknown>([
+        [1, 1],
+        [3, COSE_ALG_EDDSA],
+        [-1, 6],
+        [-2, Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url')],
+      ]));
+
+      expect(verifyAssertion(assertion(privateKey, 0, 0x05, null), { ...expected, publicKey: cose.toString('base64url'), signCount: 0 }))
+        .toMatchObject({ signCount: 0 });
+    });
+
+    it('should reject signatures from another key', () => {
+      const { cose } = es256Key();
+      const other = es256Key();
+
+      expect(() => verifyAssertion(assertion(other.privateKey, 1), { ...expected, publicKey: cose.toString('base64url'), signCount: 0 }))
+        .toThrow(expect.objectContaining({ code: 'INVALID_SIGNATURE' }));
+    });
+
+    it('should reject counters that did not increase', () => {
+      const { cose, privateKey } = es256Key();
+
+      expect(() => verifyAssertion(assertion(privateKey, 3), { ...expected, publicKey: cose.toString('base64url'), signCount: 3 }))
+        .toThrow(expect.objectContaining({ code: 'SIGN_COUNT_REGRESSED' }));
+    });
+
+    it('should require user verification when asked to', () => {
+      const { cose, privateKey } = es256Key();
+
+      expect(() => verifyAssertion(assertion(privateKey, 1, 0x01), {
+        ...expected,
+        requireUserVerification: true,
+        publicKey: cose.toString('base64url'),
+        signCount: 0,
+      })).toThrow(expect.objectContaining({ code: 'USER_NOT_VERIFIED' }));
+    });
+  });
+});
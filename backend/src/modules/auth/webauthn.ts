@@ -0,0 +1,398 @@
+import { createHash, createPublicKey, KeyObject, randomBytes, verify } from 'crypto';
+
+/** COSE algorithm identifiers we accept, in order of preference. */
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_EDDSA = -8;
+export const COSE_ALG_RS256 = -257;
+export const SUPPORTED_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256];
+
+// Authenticator data flags (WebAuthn §6.1)
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+export class WebAuthnError extends Error {
+  constructor(readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+export type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | Buffer
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  userPresent: boolean;
+  userVerified: boolean;
+  backupEligible: boolean;
+  backedUp: boolean;
+  signCount: number;
+  attestedCredential?: {
+    aaguid: string;
+    credentialId: Buffer;
+    /** COSE_Key as encoded by the authenticator */
+    publicKey: Buffer;
+  };
+}
+
+export interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+/** What the relying party expects of a ceremony it started. */
+export interface ExpectedCeremony {
+  challenge: string;
+  origins: string[];
+  rpId: string;
+  requireUserVerification: boolean;
+}
+
+/** `AuthenticatorAttestationResponse` with binary fields base64url encoded */
+export interface RegistrationResponse {
+  clientDataJSON: string;
+  attestationObject: string;
+}
+
+/** `AuthenticatorAssertionResponse` with binary fields base64url encoded */
+export interface AssertionResponse {
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+  userHandle?: string;
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  /** COSE_Key, base64url */
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  aaguid: string;
+  userVerified: boolean;
+  backupEligible: boolean;
+  backedUp: boolean;
+}
+
+export interface VerifiedAssertion {
+  signCount: number;
+  userVerified: boolean;
+  backedUp: boolean;
+}
+
+/** A new 256-bit challenge, base64url encoded. */
+export function generateChallenge(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function ensureAvailable(buffer: Buffer, offset: number, length: number): void {
+  if (offset + length > buffer.length) {
+    throw new WebAuthnError('INVALID_CBOR', 'Unexpected end of CBOR data');
+  }
+}
+
+function readArgument(buffer: Buffer, additional: number, offset: number): { value: number; offset: number } {
+  if (additional < 24) {
+    return { value: additional, offset };
+  }
+
+  const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[additional];
+  if (!size) {
+    throw new WebAuthnError('INVALID_CBOR', 'Indefinite-length CBOR items are not supported');
+  }
+  ensureAvailable(buffer, offset, size);
+
+  const value = size === 8 ? Number(buffer.readBigUInt64BE(offset)) : buffer.readUIntBE(offset, size);
+  if (!Number.isSafeInteger(value)) {
+    throw new WebAuthnError('INVALID_CBOR', 'CBOR integer out of range');
+  }
+  return { value, offset: offset + size };
+}
+
+function decodeHalfFloat(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+  const value = exponent === 0
+    ? mantissa * 2 ** -24
+    : exponent === 31
+      ? (mantissa ? NaN : Infinity)
+      : (1 + mantissa / 1024) * 2 ** (exponent - 15);
+  return half & 0x8000 ? -value : value;
+}
+
+/**
+ * Decode the CBOR item at `offset` (RFC 8949). Covers the subset that
+ * authenticators emit: definite lengths only, tags are skipped. Returns the
+ * value and the offset just past it.
+ */
+export function decodeCbor(buffer: Buffer, offset = 0): { value: CborValue; offset: number } {
+  ensureAvailable(buffer, offset, 1);
+  const major = buffer[offset] >> 5;
+  const additional = buffer[offset] & 0x1f;
+
+  if (major === 7) {
+    switch (additional) {
+      case 20: return { value: false, offset: offset + 1 };
+      case 21: return { value: true, offset: offset + 1 };
+      case 22: return { value: null, offset: offset + 1 };
+      case 23: return { value: undefined, offset: offset + 1 };
+      case 25:
+        ensureAvailable(buffer, offset + 1, 2);
+        return { value: decodeHalfFloat(buffer.readUInt16BE(offset + 1)), offset: offset + 3 };
+      case 26:
+        ensureAvailable(buffer, offset + 1, 4);
+        return { value: buffer.readFloatBE(offset + 1), offset: offset + 5 };
+      case 27:
+        ensureAvailable(buffer, offset + 1, 8);
+        return { value: buffer.readDoubleBE(offset + 1), offset: offset + 9 };
+      default:
+        throw new WebAuthnError('INVALID_CBOR', `Unsupported CBOR simple value ${additional}`);
+    }
+  }
+
+  const head = readArgument(buffer, additional, offset + 1);
+  let cursor = head.offset;
+
+  switch (major) {
+    case 0:
+      return { value: head.value, offset: cursor };
+    case 1:
+      return { value: -1 - head.value, offset: cursor };
+    case 2:
+      ensureAvailable(buffer, cursor, head.value);
+      return { value: buffer.subarray(cursor, cursor + head.value), offset: cursor + head.value };
+    case 3:
+      ensureAvailable(buffer, cursor, head.value);
+      return { value: buffer.toString('utf8', cursor, cursor + head.value), offset: cursor + head.value };
+    case 4: {
+      const items: CborValue[] = [];
+      for (let i = 0; i < head.value; i++) {
+        const item = decodeCbor(buffer, cursor);
+        items.push(item.value);
+        cursor = item.offset;
+      }
+      return { value: items, offset: cursor };
+    }
+    case 5: {
+      const map = new Map<CborValue, CborValue>();
+      for (let i = 0; i < head.value; i++) {
+        const key = decodeCbor(buffer, cursor);
+        const value = decodeCbor(buffer, key.offset);
+        map.set(key.value, value.value);
+        cursor = value.offset;
+      }
+      return { value: map, offset: cursor };
+    }
+    default:
+      // Tag: the tagged item is all we need
+      return decodeCbor(buffer, cursor);
+  }
+}
+
+export function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    throw new WebAuthnError('INVALID_AUTHENTICATOR_DATA', 'Authenticator data is too short');
+  }
+
+  const flags = data[32];
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    userPresent: (flags & FLAG_USER_PRESENT) !== 0,
+    userVerified: (flags & FLAG_USER_VERIFIED) !== 0,
+    backupEligible: (flags & FLAG_BACKUP_ELIGIBLE) !== 0,
+    backedUp: (flags & FLAG_BACKED_UP) !== 0,
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    if (data.length < 55) {
+      throw new WebAuthnError('INVALID_AUTHENTICATOR_DATA', 'Attested credential data is truncated');
+    }
+    const aaguid = data.subarray(37, 53).toString('hex');
+    const idLength = data.readUInt16BE(53);
+    ensureAvailable(data, 55, idLength);
+    const credentialId = data.subarray(55, 55 + idLength);
+    const { offset } = decodeCbor(data, 55 + idLength);
+
+    parsed.attestedCredential = {
+      aaguid: aaguid.replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5'),
+      credentialId,
+      publicKey: data.subarray(55 + idLength, offset),
+    };
+  }
+
+  return parsed;
+}
+
+function coseBytes(key: Map<CborValue, CborValue>, label: number): string {
+  const value = key.get(label);
+  if (!Buffer.isBuffer(value)) {
+    throw new WebAuthnError('INVALID_PUBLIC_KEY', `COSE key parameter ${label} is missing`);
+  }
+  return value.toString('base64url');
+}
+
+/** Import a COSE_Key (RFC 9053) as a Node.js public key. */
+export function coseToPublicKey(cose: Buffer): { key: KeyObject; algorithm: number } {
+  const { value } = decodeCbor(cose);
+  if (!(value instanceof Map)) {
+    throw new WebAuthnError('INVALID_PUBLIC_KEY', 'Public key is not a COSE key');
+  }
+
+  const keyType = value.get(1);
+  const algorithm = value.get(3);
+
+  try {
+    if (keyType === 2 && algorithm === COSE_ALG_ES256 && value.get(-1) === 1) {
+      return {
+        key: createPublicKey({ key: { kty: 'EC', crv: 'P-256', x: coseBytes(value, -2), y: coseBytes(value, -3) }, format: 'jwk' }),
+        algorithm,
+      };
+    }
+    if (keyType === 1 && algorithm === COSE_ALG_EDDSA && value.get(-1) === 6) {
+      return {
+        key: createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: coseBytes(value, -2) }, format: 'jwk' }),
+        algorithm,
+      };
+    }
+    if (keyType === 3 && algorithm === COSE_ALG_RS256) {
+      return {
+        key: createPublicKey({ key: { kty: 'RSA', n: coseBytes(value, -1), e: coseBytes(value, -2) }, format: 'jwk' }),
+        algorithm,
+      };
+    }
+  } catch (error) {
+    if (error instanceof WebAuthnError) throw error;
+    throw new WebAuthnError('INVALID_PUBLIC_KEY', 'Public key could not be imported');
+  }
+
+  throw new WebAuthnError('UNSUPPORTED_ALGORITHM', `COSE key type ${keyType} with algorithm ${algorithm} is not supported`);
+}
+
+function verifySignature(key: KeyObject, algorithm: number, data: Buffer, signature: Buffer): boolean {
+  try {
+    // ES256 signatures are DER encoded and RS256 uses PKCS#1 v1.5, both Node defaults
+    return verify(algorithm === COSE_ALG_EDDSA ? null : 'sha256', data, key, signature);
+  } catch {
+    return false;
+  }
+}
+
+export function parseClientData(clientDataJSON: string): ClientData {
+  try {
+    const clientData = JSON.parse(Buffer.from(clientDataJSON, 'base64url').toString('utf8'));
+    if (typeof clientData?.type === 'string' && typeof clientData.challenge === 'string' && typeof clientData.origin === 'string') {
+      return clientData;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new WebAuthnError('INVALID_CLIENT_DATA', 'Client data is not valid');
+}
+
+function checkClientData(clientDataJSON: string, type: string, expected: ExpectedCeremony): void {
+  const clientData = parseClientData(clientDataJSON);
+  if (clientData.type !== type) {
+    throw new WebAuthnError('INVALID_CLIENT_DATA', `Expected a ${type} ceremony`);
+  }
+  if (clientData.challenge !== expected.challenge) {
+    throw new WebAuthnError('CHALLENGE_MISMATCH', 'The response is for a different challenge');
+  }
+  if (!expected.origins.includes(clientData.origin)) {
+    throw new WebAuthnError('ORIGIN_MISMATCH', `Origin ${clientData.origin} is not allowed`);
+  }
+}
+
+function checkAuthenticatorData(data: AuthenticatorData, expected: ExpectedCeremony): void {
+  if (!data.rpIdHash.equals(createHash('sha256').update(expected.rpId).digest())) {
+    throw new WebAuthnError('RP_ID_MISMATCH', 'The credential belongs to a different site');
+  }
+  if (!data.userPresent) {
+    throw new WebAuthnError('USER_NOT_PRESENT', 'The authenticator did not confirm user presence');
+  }
+  if (expected.requireUserVerification && !data.userVerified) {
+    throw new WebAuthnError('USER_NOT_VERIFIED', 'The authenticator did not verify the user');
+  }
+}
+
+/**
+ * Verify the response to `navigator.credentials.create()`. We ask for
+ * `attestation: 'none'`, so attestation certificate chains are not checked;
+ * self attestation signatures are.
+ */
+export function verifyRegistration(response: RegistrationResponse, expected: ExpectedCeremony): VerifiedRegistration {
+  checkClientData(response.clientDataJSON, 'webauthn.create', expected);
+
+  const { value: attestation } = decodeCbor(Buffer.from(response.attestationObject, 'base64url'));
+  if (!(attestation instanceof Map) || !Buffer.isBuffer(attestation.get('authData'))) {
+    throw new WebAuthnError('INVALID_ATTESTATION', 'Attestation object has no authenticator data');
+  }
+
+  const authData = attestation.get('authData') as Buffer;
+  const data = parseAuthenticatorData(authData);
+  checkAuthenticatorData(data, expected);
+  if (!data.attestedCredential) {
+    throw new WebAuthnError('INVALID_ATTESTATION', 'Attestation object has no credential');
+  }
+
+  const { key, algorithm } = coseToPublicKey(data.attestedCredential.publicKey);
+
+  const statement = attestation.get('attStmt');
+  if (attestation.get('fmt') === 'packed' && statement instanceof Map && !statement.has('x5c')) {
+    const signature = statement.get('sig');
+    const signed = Buffer.concat([authData, createHash('sha256').update(Buffer.from(response.clientDataJSON, 'base64url')).digest()]);
+    if (statement.get('alg') !== algorithm || !Buffer.isBuffer(signature) || !verifySignature(key, algorithm, signed, signature)) {
+      throw new WebAuthnError('INVALID_ATTESTATION', 'Self attestation signature is not valid');
+    }
+  }
+
+  return {
+    credentialId: data.attestedCredential.credentialId.toString('base64url'),
+    publicKey: data.attestedCredential.publicKey.toString('base64url'),
+    algorithm,
+    signCount: data.signCount,
+    aaguid: data.attestedCredential.aaguid,
+    userVerified: data.userVerified,
+    backupEligible: data.backupEligible,
+    backedUp: data.backedUp,
+  };
+}
+
+/**
+ * Verify the response to `navigator.credentials.get()` against the stored
+ * public key. A signature counter that stops growing means the credential was
+ * cloned; authenticators without a counter always report 0.
+ */
+export function verifyAssertion(
+  response: AssertionResponse,
+  expected: ExpectedCeremony & { publicKey: string; signCount: number },
+): VerifiedAssertion {
+  checkClientData(response.clientDataJSON, 'webauthn.get', expected);
+
+  const authData = Buffer.from(response.authenticatorData, 'base64url');
+  const data = parseAuthenticatorData(authData);
+  checkAuthenticatorData(data, expected);
+
+  const { key, algorithm } = coseToPublicKey(Buffer.from(expected.publicKey, 'base64url'));
+  const signed = Buffer.concat([authData, createHash('sha256').update(Buffer.from(response.clientDataJSON, 'base64url')).digest()]);
+  if (!verifySignature(key, algorithm, signed, Buffer.from(response.signature, 'base64url'))) {
+    throw new WebAuthnError('INVALID_SIGNATURE', 'Signature is not valid');
+  }
+
+  if ((data.signCount > 0 || expected.signCount > 0) && data.signCount <= expected.signCount) {
+    throw new WebAuthnError('SIGN_COUNT_REGRESSED', 'Signature counter did not increase; the authenticator may be cloned');
+  }
+
+  return { signCount: data.signCount, userVerified: data.userVerified, backedUp: data.backedUp };
+}
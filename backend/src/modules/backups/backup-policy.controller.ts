@@ -9,13 +9,14 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { BackupPolicyService } from './backup-policy.service';
 import { UpdateBackupPolicyDto, CompliancePresetDto } from './dto/backup-policy.dto';
 
 @ApiTags('Backup Policy')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/backup-policy')
 export class BackupPolicyController {
   constructor(private readonly policyService: BackupPolicyService) {}
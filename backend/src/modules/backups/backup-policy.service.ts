@@ -4,6 +4,7 @@ import { Model, Types } from 'mongoose';
 import { BackupPolicy, BackupPolicyDocument } from './schemas/backup-policy.schema';
 import { UpdateBackupPolicyDto } from './dto/backup-policy.dto';
 import { AuditService } from '../audit/audit.service';
+import { isPiiComplianceTag } from '../schema-validation/pii-scan';
 const COMPLIANCE_PRESETS: Record<string, Partial<BackupPolicy>> = {
   standard: {
     snapshotFrequencyHours: 24,
@@ -152,6 +153,11 @@ export class BackupPolicyService {
       policy.id,
       {
         ...presetConfig,
+        // Tags from PII discovery describe the data, not the preset
+        complianceTags: [
+          ...(presetConfig.complianceTags ?? []),
+          ...policy.complianceTags.filter(isPiiComplianceTag),
+        ],
         complianceLevel: preset,
         updatedBy: new Types.ObjectId(userId),
       },
@@ -174,6 +180,27 @@ export class BackupPolicyService {
     return updated || policy;
   }
 
+  /**
+   * Replace the tags maintained by PII discovery with `tags`, keeping the
+   * tags set by users and compliance presets.
+   */
+  async syncPiiComplianceTags(clusterId: string, tags: string[]): Promise<string[]> {
+    const policy = await this.getOrCreate(clusterId);
+    const complianceTags = [
+      ...policy.complianceTags.filter((tag) => !isPiiComplianceTag(tag)),
+      ...tags,
+    ];
+
+    if (complianceTags.join(',') !== policy.complianceTags.join(',')) {
+      await this.policyModel.updateOne(
+        { clusterId: new Types.ObjectId(clusterId) },
+        { $set: { complianceTags } },
+      ).exec();
+      this.logger.log(`Updated PII compliance tags of cluster ${clusterId}: ${tags.join(', ') || 'none'}`);
+    }
+    return complianceTags;
+  }
+
   async enableLegalHold(
     clusterId: string,
     reason: string,
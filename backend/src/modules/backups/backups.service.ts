@@ -137,6 +137,16 @@ export class BackupsService {
       .exec();
   }
 
+  /**
+   * Latest completed backup that finished at or before the given point in time
+   */
+  async findLatestCompletedBefore(clusterId: string, before: Date): Promise<BackupDocument | null> {
+    return this.backupModel
+      .findOne({ clusterId, status: 'completed', completedAt: { $lte: before } })
+      .sort({ completedAt: -1 })
+      .exec();
+  }
+
   // Alias for PITR service compatibility
   async getLatest(clusterId: string): Promise<BackupDocument | null> {
     return this.findLatestCompleted(clusterId);
@@ -24,6 +24,8 @@ import { InvoiceService } from './services/invoice.service';
 import { UsageService } from './services/usage.service';
 import { PricingService } from './services/pricing.service';
 import { StripeService } from './services/stripe.service';
+import { CostAllocationService } from './services/cost-allocation.service';
+import { InvoiceDocumentService } from './services/invoice-document.service';
 import { OrgsService } from '../orgs/orgs.service';
 import { EmailService } from '../email/email.service';
 import {
@@ -34,6 +36,7 @@ import {
   VoidInvoiceDto,
   QueryUsageDto,
   AddCreditDto,
+  CostAllocationQueryDto,
 } from './dto/billing.dto';
 
 @ApiTags('Billing')
@@ -47,6 +50,8 @@ export class BillingController {
     private readonly usageService: UsageService,
     private readonly pricingService: PricingService,
     private readonly stripeService: StripeService,
+    private readonly costAllocationService: CostAllocationService,
+    private readonly invoiceDocumentService: InvoiceDocumentService,
     private readonly orgsService: OrgsService,
     private readonly emailService: EmailService,
   ) {}
@@ -134,6 +139,22 @@ export class BillingController {
     };
   }
 
+  @Post('account/vat-id/validate')
+  @ApiOperation({ summary: 'Check the billing account VAT ID against VIES again' })
+  async revalidateVatId(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+
+    const account = await this.billingAccountService.revalidateVatId(orgId);
+
+    return {
+      success: true,
+      data: account,
+    };
+  }
+
   @Post('account/credit')
   @ApiOperation({ summary: 'Add credit to account' })
   async addCredit(
@@ -384,6 +405,60 @@ export class BillingController {
     };
   }
 
+  @Get('invoices/:invoiceId/pdf')
+  @ApiOperation({ summary: 'Download the invoice as PDF with embedded Factur-X XML' })
+  async downloadInvoicePdf(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('invoiceId') invoiceId: string,
+    @Res() res: Response,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+
+    const invoice = await this.invoiceService.findById(invoiceId);
+    if (!invoice || invoice.orgId.toString() !== orgId) {
+      throw new NotFoundException('Invoice not found');
+    }
+    this.invoiceDocumentService.assertIssued(invoice);
+
+    const pdf = this.invoiceDocumentService.renderPdf(invoice);
+
+    res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber}.pdf"`);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.send(pdf);
+  }
+
+  @Get('invoices/:invoiceId/e-invoice')
+  @ApiOperation({ summary: 'Download the invoice as XRechnung (UBL) or Factur-X (CII) XML' })
+  @ApiQuery({ name: 'format', required: false, enum: ['xrechnung', 'factur-x'] })
+  async downloadEInvoice(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('invoiceId') invoiceId: string,
+    @Query('format') format: 'xrechnung' | 'factur-x' = 'xrechnung',
+    @Res() res: Response,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+
+    if (format !== 'xrechnung' && format !== 'factur-x') {
+      throw new BadRequestException({ code: 'VALIDATION_ERROR', message: 'format must be xrechnung or factur-x' });
+    }
+
+    const invoice = await this.invoiceService.findById(invoiceId);
+    if (!invoice || invoice.orgId.toString() !== orgId) {
+      throw new NotFoundException('Invoice not found');
+    }
+    this.invoiceDocumentService.assertIssued(invoice);
+
+    const xml = format === 'xrechnung'
+      ? this.invoiceDocumentService.renderXRechnung(invoice)
+      : this.invoiceDocumentService.renderFacturX(invoice);
+
+    res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoiceNumber}-${format}.xml"`);
+    res.setHeader('Content-Type', 'application/xml');
+    res.send(xml);
+  }
+
   @Post('invoices/generate')
   @ApiOperation({ summary: 'Generate a new invoice' })
   async generateInvoice(
@@ -404,16 +479,13 @@ export class BillingController {
     const account = await this.billingAccountService.findByOrgId(orgId);
     if (account?.billingEmail) {
       try {
-        await this.emailService.send({
-          to: account.billingEmail,
-          subject: `New Invoice ${invoice.invoiceNumber} - EUTLAS`,
-          html: this.getInvoiceEmailTemplate(
-            invoice.invoiceNumber,
-            this.pricingService.formatAmount(invoice.totalCents),
-            new Date(invoice.dueDate).toLocaleDateString('de-DE'),
-            `${process.env.FRONTEND_URL}/dashboard/orgs/${orgId}/billing`,
-          ),
-        });
+        await this.emailService.sendInvoiceIssued(
+          account.billingEmail,
+          invoice.invoiceNumber,
+          this.pricingService.formatAmount(invoice.totalCents),
+          new Date(invoice.dueDate).toLocaleDateString('de-DE'),
+          `${process.env.FRONTEND_URL}/dashboard/orgs/${orgId}/billing`,
+        );
       } catch {
         // Don't fail if email fails
       }
@@ -584,6 +656,59 @@ export class BillingController {
     };
   }
 
+  // ==================== Cost Allocation ====================
+
+  @Get('cost-allocation')
+  @ApiOperation({ summary: 'Get costs broken down by project, cluster and cluster tag' })
+  async getCostAllocation(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Query() queryDto: CostAllocationQueryDto,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+
+    const { startDate, endDate } = this.costAllocationService.resolveRange(queryDto.startDate, queryDto.endDate);
+    const report = await this.costAllocationService.getReport(orgId, startDate, endDate, this.parseTagKeys(queryDto.tagKeys));
+
+    return {
+      success: true,
+      data: {
+        ...report,
+        totalFormatted: this.pricingService.formatAmount(report.totalCents),
+        untaggedFormatted: this.pricingService.formatAmount(report.untaggedCents),
+      },
+    };
+  }
+
+  @Get('cost-allocation/export')
+  @ApiOperation({ summary: 'Export the cost allocation report' })
+  @ApiQuery({ name: 'format', required: false, enum: ['json', 'csv'] })
+  async exportCostAllocation(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Query() queryDto: CostAllocationQueryDto,
+    @Res() res: Response,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+
+    const format = queryDto.format || 'csv';
+    const { startDate, endDate } = this.costAllocationService.resolveRange(queryDto.startDate, queryDto.endDate);
+    const report = await this.costAllocationService.getReport(orgId, startDate, endDate, this.parseTagKeys(queryDto.tagKeys));
+
+    const day = (date: Date) => date.toISOString().split('T')[0];
+    const filename = `cost-allocation-${orgId}-${day(startDate)}-${day(endDate)}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : 'application/json');
+    res.send(format === 'csv' ? this.costAllocationService.toCsv(report) : JSON.stringify(report, null, 2));
+  }
+
+  private parseTagKeys(tagKeys?: string): string[] | undefined {
+    return tagKeys
+      ?.split(',')
+      .map(key => key.trim())
+      .filter(Boolean);
+  }
+
   // ==================== Prices ====================
 
   @Get('prices')
@@ -608,65 +733,6 @@ export class BillingController {
       })),
     };
   }
-
-  // ==================== Email Templates ====================
-
-  private getInvoiceEmailTemplate(invoiceNumber: string, amount: string, dueDate: string, billingUrl: string): string {
-    return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-</head>
-<body style="margin: 0; padding: 0; background-color: #f4f4f5; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
-  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f4f4f5; padding: 40px 20px;">
-    <tr>
-      <td align="center">
-        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #ffffff; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
-          <tr>
-            <td style="padding: 32px 40px; border-bottom: 1px solid #e4e4e7;">
-              <h1 style="margin: 0; font-size: 24px; color: #18181b;">EUTLAS</h1>
-              <p style="margin: 4px 0 0; font-size: 14px; color: #71717a;">EU MongoDB Cloud Platform</p>
-            </td>
-          </tr>
-          <tr>
-            <td style="padding: 40px;">
-              <div style="padding: 16px; background-color: #dbeafe; border-radius: 8px; margin-bottom: 24px; text-align: center;">
-                <h2 style="margin: 0; font-size: 20px; color: #1e40af;">New Invoice</h2>
-              </div>
-              <p style="margin: 0 0 16px; font-size: 16px; color: #3f3f46;">
-                Invoice <strong>${invoiceNumber}</strong> has been generated for your organization.
-              </p>
-              <table style="width: 100%; margin-bottom: 24px;">
-                <tr>
-                  <td style="padding: 8px 0; color: #71717a;">Amount:</td>
-                  <td style="padding: 8px 0; font-weight: bold; text-align: right;">${amount}</td>
-                </tr>
-                <tr>
-                  <td style="padding: 8px 0; color: #71717a; border-top: 1px solid #e4e4e7;">Due Date:</td>
-                  <td style="padding: 8px 0; font-weight: bold; text-align: right; border-top: 1px solid #e4e4e7;">${dueDate}</td>
-                </tr>
-              </table>
-              <a href="${billingUrl}" style="display: inline-block; padding: 12px 32px; background-color: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600;">
-                View Invoice
-              </a>
-            </td>
-          </tr>
-          <tr>
-            <td style="padding: 24px 40px; background-color: #fafafa; border-top: 1px solid #e4e4e7; border-radius: 0 0 8px 8px;">
-              <p style="margin: 0; font-size: 12px; color: #71717a; text-align: center;">
-                &copy; ${new Date().getFullYear()} EUTLAS. All rights reserved.
-              </p>
-            </td>
-          </tr>
-        </table>
-      </td>
-    </tr>
-  </table>
-</body>
-</html>`;
-  }
 }
 
 // ==================== Stripe Webhook Controller ====================
@@ -6,11 +6,19 @@ import { InvoiceService } from './services/invoice.service';
 import { UsageService } from './services/usage.service';
 import { PricingService } from './services/pricing.service';
 import { StripeService } from './services/stripe.service';
+import { BillingRunService } from './services/billing-run.service';
+import { CostAllocationService } from './services/cost-allocation.service';
+import { InvoiceDocumentService } from './services/invoice-document.service';
+import { TaxService } from './services/tax.service';
 import { UsageRecord, UsageRecordSchema } from './schemas/usage-record.schema';
 import { Invoice, InvoiceSchema } from './schemas/invoice.schema';
 import { BillingAccount, BillingAccountSchema } from './schemas/billing-account.schema';
 import { Price, PriceSchema } from './schemas/price.schema';
+import { BillingRun, BillingRunSchema } from './schemas/billing-run.schema';
+import { InvoiceSequence, InvoiceSequenceSchema } from './schemas/invoice-sequence.schema';
 import { Cluster, ClusterSchema } from '../clusters/schemas/cluster.schema';
+import { ClusterSettings, ClusterSettingsSchema } from '../cluster-settings/schemas/cluster-settings.schema';
+import { Project, ProjectSchema } from '../projects/schemas/project.schema';
 import { OrgsModule } from '../orgs/orgs.module';
 import { EmailModule } from '../email/email.module';
 
@@ -21,7 +29,11 @@ import { EmailModule } from '../email/email.module';
       { name: Invoice.name, schema: InvoiceSchema },
       { name: BillingAccount.name, schema: BillingAccountSchema },
       { name: Price.name, schema: PriceSchema },
+      { name: BillingRun.name, schema: BillingRunSchema },
+      { name: InvoiceSequence.name, schema: InvoiceSequenceSchema },
       { name: Cluster.name, schema: ClusterSchema },
+      { name: ClusterSettings.name, schema: ClusterSettingsSchema },
+      { name: Project.name, schema: ProjectSchema },
     ]),
     forwardRef(() => OrgsModule),
     EmailModule,
@@ -33,6 +45,10 @@ import { EmailModule } from '../email/email.module';
     UsageService,
     PricingService,
     StripeService,
+    BillingRunService,
+    CostAllocationService,
+    InvoiceDocumentService,
+    TaxService,
   ],
   exports: [
     BillingAccountService,
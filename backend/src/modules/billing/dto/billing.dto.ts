@@ -58,6 +58,12 @@ export class CreateBillingAccountDto {
   @IsString()
   vatId?: string;
 
+  @ApiProperty({ required: false, example: '04011000-12345-67', description: 'Buyer reference (Leitweg-ID) for e-invoices' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  buyerReference?: string;
+
   @ApiProperty({ required: false, default: 'EUR' })
   @IsOptional()
   @IsString()
@@ -89,10 +95,9 @@ export class UpdateBillingAccountDto {
   vatId?: string;
 
   @IsOptional()
-  @IsNumber()
-  @Min(0)
-  @Max(100)
-  taxPercent?: number;
+  @IsString()
+  @MaxLength(100)
+  buyerReference?: string;
 
   @IsOptional()
   @IsEnum(['monthly', 'annual'])
@@ -269,7 +274,26 @@ export class AddCreditDto {
   description?: string;
 }
 
+// ==================== Cost Allocation ====================
 
+export class CostAllocationQueryDto {
+  @ApiProperty({ required: false, description: 'Start date (ISO string), defaults to the start of the current month' })
+  @IsOptional()
+  @IsString()
+  startDate?: string;
 
+  @ApiProperty({ required: false, description: 'End date (ISO string), defaults to now' })
+  @IsOptional()
+  @IsString()
+  endDate?: string;
 
+  @ApiProperty({ required: false, example: 'team,cost-center', description: 'Comma-separated tag keys to break down' })
+  @IsOptional()
+  @IsString()
+  tagKeys?: string;
 
+  @ApiProperty({ required: false, enum: ['json', 'csv'] })
+  @IsOptional()
+  @IsEnum(['json', 'csv'])
+  format?: 'json' | 'csv';
+}
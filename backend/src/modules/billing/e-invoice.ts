@@ -0,0 +1,458 @@
+/**
+ * Structured e-invoices following EN 16931: Factur-X / ZUGFeRD (UN/CEFACT CII,
+ * EN 16931 profile) and XRechnung (UBL 2.1 with the German CIUS).
+ */
+
+export interface EInvoiceAddress {
+  line1?: string;
+  line2?: string;
+  postalCode?: string;
+  city?: string;
+  /** ISO 3166-1 alpha-2 */
+  country: string;
+}
+
+export interface EInvoiceParty {
+  name: string;
+  vatId?: string;
+  email?: string;
+  address: EInvoiceAddress;
+}
+
+export interface EInvoiceSeller extends EInvoiceParty {
+  phone?: string;
+  /** Commercial register entry and similar legal information */
+  registration?: string;
+  iban?: string;
+  bic?: string;
+}
+
+/**
+ * EN 16931 VAT category: standard rate, zero rated, intra-EU reverse charge,
+ * or not subject to EU VAT (customers outside the EU)
+ */
+export type VatCategory = 'S' | 'Z' | 'AE' | 'O';
+
+export interface EInvoiceLine {
+  name: string;
+  quantity: number;
+  /** UN/ECE Recommendation 20 unit code */
+  unitCode: string;
+  netAmountCents: number;
+}
+
+export interface EInvoiceData {
+  number: string;
+  issueDate: Date;
+  dueDate: Date;
+  periodStart: Date;
+  periodEnd: Date;
+  currency: string;
+  seller: EInvoiceSeller;
+  buyer: EInvoiceParty;
+  buyerReference: string;
+  lines: EInvoiceLine[];
+  allowanceCents: number;
+  allowanceReason?: string;
+  vatCategory: VatCategory;
+  vatPercent: number;
+  vatExemptionReason?: string;
+  taxCents: number;
+  prepaidCents: number;
+  paymentTerms: string;
+  notes: string[];
+}
+
+export const FACTUR_X_FILENAME = 'factur-x.xml';
+const FACTUR_X_XMP_NAMESPACE = 'urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#';
+
+const VAT_EXEMPTION_CODES: Partial<Record<VatCategory, string>> = {
+  AE: 'VATEX-EU-AE',
+  O: 'VATEX-EU-O',
+};
+
+const UNIT_CODES: Record<string, string> = {
+  hours: 'HUR',
+  month: 'MON',
+  gb: 'E34',
+};
+
+export function unitCodeFor(unit: string): string {
+  return UNIT_CODES[unit] || 'C62';
+}
+
+export function eInvoiceTotals(data: EInvoiceData) {
+  const lineTotalCents = data.lines.reduce((sum, line) => sum + line.netAmountCents, 0);
+  const taxBasisCents = lineTotalCents - data.allowanceCents;
+  const grandTotalCents = taxBasisCents + data.taxCents;
+  return {
+    lineTotalCents,
+    taxBasisCents,
+    grandTotalCents,
+    dueCents: grandTotalCents - data.prepaidCents,
+  };
+}
+
+// ==================== Factur-X / ZUGFeRD (CII) ====================
+
+export function buildFacturXXml(data: EInvoiceData): string {
+  const totals = eInvoiceTotals(data);
+  const amount = (cents: number) => formatAmount(cents);
+  // Reverse charge needs both VAT IDs; "not subject to VAT" must carry neither
+  const withVatId = data.vatCategory !== 'O';
+
+  const tradeTax = (indent: string, calculated?: number, basis?: number) => [
+    `${indent}<ram:ApplicableTradeTax>`,
+    calculated !== undefined ? `${indent}  <ram:CalculatedAmount>${amount(calculated)}</ram:CalculatedAmount>` : '',
+    `${indent}  <ram:TypeCode>VAT</ram:TypeCode>`,
+    calculated !== undefined && data.vatExemptionReason
+      ? `${indent}  <ram:ExemptionReason>${xml(data.vatExemptionReason)}</ram:ExemptionReason>`
+      : '',
+    basis !== undefined ? `${indent}  <ram:BasisAmount>${amount(basis)}</ram:BasisAmount>` : '',
+    `${indent}  <ram:CategoryCode>${data.vatCategory}</ram:CategoryCode>`,
+    calculated !== undefined && VAT_EXEMPTION_CODES[data.vatCategory]
+      ? `${indent}  <ram:ExemptionReasonCode>${VAT_EXEMPTION_CODES[data.vatCategory]}</ram:ExemptionReasonCode>`
+      : '',
+    data.vatCategory !== 'O' ? `${indent}  <ram:RateApplicablePercent>${data.vatPercent}</ram:RateApplicablePercent>` : '',
+    `${indent}</ram:ApplicableTradeTax>`,
+  ];
+
+  const party = (tag: string, p: EInvoiceParty) => [
+    `      <ram:${tag}>`,
+    `        <ram:Name>${xml(p.name)}</ram:Name>`,
+    `        <ram:PostalTradeAddress>`,
+    p.address.postalCode ? `          <ram:PostcodeCode>${xml(p.address.postalCode)}</ram:PostcodeCode>` : '',
+    p.address.line1 ? `          <ram:LineOne>${xml(p.address.line1)}</ram:LineOne>` : '',
+    p.address.line2 ? `          <ram:LineTwo>${xml(p.address.line2)}</ram:LineTwo>` : '',
+    p.address.city ? `          <ram:CityName>${xml(p.address.city)}</ram:CityName>` : '',
+    `          <ram:CountryID>${p.address.country}</ram:CountryID>`,
+    `        </ram:PostalTradeAddress>`,
+    p.email
+      ? `        <ram:URIUniversalCommunication><ram:URIID schemeID="EM">${xml(p.email)}</ram:URIID></ram:URIUniversalCommunication>`
+      : '',
+    withVatId && p.vatId
+      ? `        <ram:SpecifiedTaxRegistration><ram:ID schemeID="VA">${xml(p.vatId)}</ram:ID></ram:SpecifiedTaxRegistration>`
+      : '',
+    `      </ram:${tag}>`,
+  ];
+
+  const lines = data.lines.flatMap((line, index) => [
+    `    <ram:IncludedSupplyChainTradeLineItem>`,
+    `      <ram:AssociatedDocumentLineDocument><ram:LineID>${index + 1}</ram:LineID></ram:AssociatedDocumentLineDocument>`,
+    `      <ram:SpecifiedTradeProduct><ram:Name>${xml(line.name)}</ram:Name></ram:SpecifiedTradeProduct>`,
+    `      <ram:SpecifiedLineTradeAgreement>`,
+    `        <ram:NetPriceProductTradePrice><ram:ChargeAmount>${netPrice(line)}</ram:ChargeAmount></ram:NetPriceProductTradePrice>`,
+    `      </ram:SpecifiedLineTradeAgreement>`,
+    `      <ram:SpecifiedLineTradeDelivery>`,
+    `        <ram:BilledQuantity unitCode="${line.unitCode}">${quantity(line)}</ram:BilledQuantity>`,
+    `      </ram:SpecifiedLineTradeDelivery>`,
+    `      <ram:SpecifiedLineTradeSettlement>`,
+    ...tradeTax('        '),
+    `        <ram:SpecifiedTradeSettlementLineMonetarySummation>`,
+    `          <ram:LineTotalAmount>${amount(line.netAmountCents)}</ram:LineTotalAmount>`,
+    `        </ram:SpecifiedTradeSettlementLineMonetarySummation>`,
+    `      </ram:SpecifiedLineTradeSettlement>`,
+    `    </ram:IncludedSupplyChainTradeLineItem>`,
+  ]);
+
+  const allowance = data.allowanceCents > 0
+    ? [
+        `      <ram:SpecifiedTradeAllowanceCharge>`,
+        `        <ram:ChargeIndicator><udt:Indicator>false</udt:Indicator></ram:ChargeIndicator>`,
+        `        <ram:ActualAmount>${amount(data.allowanceCents)}</ram:ActualAmount>`,
+        `        <ram:Reason>${xml(data.allowanceReason || 'Discount')}</ram:Reason>`,
+        `        <ram:CategoryTradeTax>`,
+        `          <ram:TypeCode>VAT</ram:TypeCode>`,
+        `          <ram:CategoryCode>${data.vatCategory}</ram:CategoryCode>`,
+        data.vatCategory !== 'O' ? `          <ram:RateApplicablePercent>${data.vatPercent}</ram:RateApplicablePercent>` : '',
+        `        </ram:CategoryTradeTax>`,
+        `      </ram:SpecifiedTradeAllowanceCharge>`,
+      ]
+    : [];
+
+  const paymentMeans = data.seller.iban
+    ? [
+        `      <ram:SpecifiedTradeSettlementPaymentMeans>`,
+        `        <ram:TypeCode>58</ram:TypeCode>`,
+        `        <ram:PayeePartyCreditorFinancialAccount><ram:IBANID>${xml(compact(data.seller.iban))}</ram:IBANID></ram:PayeePartyCreditorFinancialAccount>`,
+        data.seller.bic
+          ? `        <ram:PayeeSpecifiedCreditorFinancialInstitution><ram:BICID>${xml(data.seller.bic)}</ram:BICID></ram:PayeeSpecifiedCreditorFinancialInstitution>`
+          : '',
+        `      </ram:SpecifiedTradeSettlementPaymentMeans>`,
+      ]
+    : [`      <ram:SpecifiedTradeSettlementPaymentMeans><ram:TypeCode>1</ram:TypeCode></ram:SpecifiedTradeSettlementPaymentMeans>`];
+
+  return joinLines([
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rsm:CrossIndustryInvoice xmlns:rsm="urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100"` +
+      ` xmlns:ram="urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100"` +
+      ` xmlns:qdt="urn:un:unece:uncefact:data:standard:QualifiedDataType:100"` +
+      ` xmlns:udt="urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100">`,
+    `  <rsm:ExchangedDocumentContext>`,
+    `    <ram:GuidelineSpecifiedDocumentContextParameter><ram:ID>urn:cen.eu:en16931:2017</ram:ID></ram:GuidelineSpecifiedDocumentContextParameter>`,
+    `  </rsm:ExchangedDocumentContext>`,
+    `  <rsm:ExchangedDocument>`,
+    `    <ram:ID>${xml(data.number)}</ram:ID>`,
+    `    <ram:TypeCode>380</ram:TypeCode>`,
+    `    <ram:IssueDateTime>${ciiDate(data.issueDate)}</ram:IssueDateTime>`,
+    ...data.notes.map(note => `    <ram:IncludedNote><ram:Content>${xml(note)}</ram:Content></ram:IncludedNote>`),
+    `  </rsm:ExchangedDocument>`,
+    `  <rsm:SupplyChainTradeTransaction>`,
+    ...lines,
+    `    <ram:ApplicableHeaderTradeAgreement>`,
+    `      <ram:BuyerReference>${xml(data.buyerReference)}</ram:BuyerReference>`,
+    ...party('SellerTradeParty', data.seller),
+    ...party('BuyerTradeParty', data.buyer),
+    `    </ram:ApplicableHeaderTradeAgreement>`,
+    `    <ram:ApplicableHeaderTradeDelivery/>`,
+    `    <ram:ApplicableHeaderTradeSettlement>`,
+    `      <ram:PaymentReference>${xml(data.number)}</ram:PaymentReference>`,
+    `      <ram:InvoiceCurrencyCode>${data.currency}</ram:InvoiceCurrencyCode>`,
+    ...paymentMeans,
+    ...tradeTax('      ', data.taxCents, totals.taxBasisCents),
+    `      <ram:BillingSpecifiedPeriod>`,
+    `        <ram:StartDateTime>${ciiDate(data.periodStart)}</ram:StartDateTime>`,
+    `        <ram:EndDateTime>${ciiDate(data.periodEnd)}</ram:EndDateTime>`,
+    `      </ram:BillingSpecifiedPeriod>`,
+    ...allowance,
+    `      <ram:SpecifiedTradePaymentTerms>`,
+    `        <ram:Description>${xml(data.paymentTerms)}</ram:Description>`,
+    `        <ram:DueDateDateTime>${ciiDate(data.dueDate)}</ram:DueDateDateTime>`,
+    `      </ram:SpecifiedTradePaymentTerms>`,
+    `      <ram:SpecifiedTradeSettlementHeaderMonetarySummation>`,
+    `        <ram:LineTotalAmount>${amount(totals.lineTotalCents)}</ram:LineTotalAmount>`,
+    `        <ram:AllowanceTotalAmount>${amount(data.allowanceCents)}</ram:AllowanceTotalAmount>`,
+    `        <ram:TaxBasisTotalAmount>${amount(totals.taxBasisCents)}</ram:TaxBasisTotalAmount>`,
+    `        <ram:TaxTotalAmount currencyID="${data.currency}">${amount(data.taxCents)}</ram:TaxTotalAmount>`,
+    `        <ram:GrandTotalAmount>${amount(totals.grandTotalCents)}</ram:GrandTotalAmount>`,
+    `        <ram:TotalPrepaidAmount>${amount(data.prepaidCents)}</ram:TotalPrepaidAmount>`,
+    `        <ram:DuePayableAmount>${amount(totals.dueCents)}</ram:DuePayableAmount>`,
+    `      </ram:SpecifiedTradeSettlementHeaderMonetarySummation>`,
+    `    </ram:ApplicableHeaderTradeSettlement>`,
+    `  </rsm:SupplyChainTradeTransaction>`,
+    `</rsm:CrossIndustryInvoice>`,
+  ]);
+}
+
+/**
+ * XMP descriptions that tell readers the PDF carries a Factur-X invoice, with
+ * the extension schema PDF/A requires for the fx properties.
+ */
+export function buildFacturXXmp(): string[] {
+  const property = (name: string, description: string) => [
+    `          <rdf:li rdf:parseType="Resource">`,
+    `            <pdfaProperty:name>${name}</pdfaProperty:name>`,
+    `            <pdfaProperty:valueType>Text</pdfaProperty:valueType>`,
+    `            <pdfaProperty:category>external</pdfaProperty:category>`,
+    `            <pdfaProperty:description>${description}</pdfaProperty:description>`,
+    `          </rdf:li>`,
+  ];
+
+  return [
+    [
+      `    <rdf:Description rdf:about="" xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"`,
+      `        xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#" xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">`,
+      `      <pdfaExtension:schemas><rdf:Bag><rdf:li rdf:parseType="Resource">`,
+      `        <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>`,
+      `        <pdfaSchema:namespaceURI>${FACTUR_X_XMP_NAMESPACE}</pdfaSchema:namespaceURI>`,
+      `        <pdfaSchema:prefix>fx</pdfaSchema:prefix>`,
+      `        <pdfaSchema:property><rdf:Seq>`,
+      ...property('DocumentFileName', 'The name of the embedded XML document'),
+      ...property('DocumentType', 'The type of the hybrid document in capital letters, e.g. INVOICE or ORDER'),
+      ...property('Version', 'The actual version of the standard applying to the embedded XML document'),
+      ...property('ConformanceLevel', 'The conformance level of the embedded XML document'),
+      `        </rdf:Seq></pdfaSchema:property>`,
+      `      </rdf:li></rdf:Bag></pdfaExtension:schemas>`,
+      `    </rdf:Description>`,
+    ].join('\n'),
+    [
+      `    <rdf:Description rdf:about="" xmlns:fx="${FACTUR_X_XMP_NAMESPACE}">`,
+      `      <fx:DocumentType>INVOICE</fx:DocumentType>`,
+      `      <fx:DocumentFileName>${FACTUR_X_FILENAME}</fx:DocumentFileName>`,
+      `      <fx:Version>1.0</fx:Version>`,
+      `      <fx:ConformanceLevel>EN 16931</fx:ConformanceLevel>`,
+      `    </rdf:Description>`,
+    ].join('\n'),
+  ];
+}
+
+// ==================== XRechnung (UBL) ====================
+
+export const XRECHNUNG_CUSTOMIZATION_ID = 'urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0';
+
+export function buildXRechnungXml(data: EInvoiceData): string {
+  const totals = eInvoiceTotals(data);
+  const currency = `currencyID="${data.currency}"`;
+  const amount = (cents: number) => formatAmount(cents);
+  const withVatId = data.vatCategory !== 'O';
+
+  const taxCategory = (tag: string, indent: string, withReason = false) => [
+    `${indent}<cac:${tag}>`,
+    `${indent}  <cbc:ID>${data.vatCategory}</cbc:ID>`,
+    data.vatCategory !== 'O' ? `${indent}  <cbc:Percent>${data.vatPercent}</cbc:Percent>` : '',
+    withReason && VAT_EXEMPTION_CODES[data.vatCategory]
+      ? `${indent}  <cbc:TaxExemptionReasonCode>${VAT_EXEMPTION_CODES[data.vatCategory]}</cbc:TaxExemptionReasonCode>`
+      : '',
+    withReason && data.vatExemptionReason
+      ? `${indent}  <cbc:TaxExemptionReason>${xml(data.vatExemptionReason)}</cbc:TaxExemptionReason>`
+      : '',
+    `${indent}  <cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>`,
+    `${indent}</cac:${tag}>`,
+  ];
+
+  const party = (tag: string, p: EInvoiceParty, seller?: EInvoiceSeller) => [
+    `  <cac:${tag}>`,
+    `    <cac:Party>`,
+    `      <cbc:EndpointID schemeID="EM">${xml(p.email || '')}</cbc:EndpointID>`,
+    `      <cac:PartyName><cbc:Name>${xml(p.name)}</cbc:Name></cac:PartyName>`,
+    `      <cac:PostalAddress>`,
+    p.address.line1 ? `        <cbc:StreetName>${xml(p.address.line1)}</cbc:StreetName>` : '',
+    p.address.line2 ? `        <cbc:AdditionalStreetName>${xml(p.address.line2)}</cbc:AdditionalStreetName>` : '',
+    p.address.city ? `        <cbc:CityName>${xml(p.address.city)}</cbc:CityName>` : '',
+    p.address.postalCode ? `        <cbc:PostalZone>${xml(p.address.postalCode)}</cbc:PostalZone>` : '',
+    `        <cac:Country><cbc:IdentificationCode>${p.address.country}</cbc:IdentificationCode></cac:Country>`,
+    `      </cac:PostalAddress>`,
+    withVatId && p.vatId
+      ? `      <cac:PartyTaxScheme><cbc:CompanyID>${xml(p.vatId)}</cbc:CompanyID><cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>`
+      : '',
+    `      <cac:PartyLegalEntity>`,
+    `        <cbc:RegistrationName>${xml(p.name)}</cbc:RegistrationName>`,
+    seller?.registration ? `        <cbc:CompanyLegalForm>${xml(seller.registration)}</cbc:CompanyLegalForm>` : '',
+    `      </cac:PartyLegalEntity>`,
+    ...(seller
+      ? [
+          `      <cac:Contact>`,
+          `        <cbc:Name>${xml(seller.name)}</cbc:Name>`,
+          `        <cbc:Telephone>${xml(seller.phone || '')}</cbc:Telephone>`,
+          `        <cbc:ElectronicMail>${xml(seller.email || '')}</cbc:ElectronicMail>`,
+          `      </cac:Contact>`,
+        ]
+      : []),
+    `    </cac:Party>`,
+    `  </cac:${tag}>`,
+  ];
+
+  const paymentMeans = data.seller.iban
+    ? [
+        `  <cac:PaymentMeans>`,
+        `    <cbc:PaymentMeansCode>58</cbc:PaymentMeansCode>`,
+        `    <cbc:PaymentID>${xml(data.number)}</cbc:PaymentID>`,
+        `    <cac:PayeeFinancialAccount>`,
+        `      <cbc:ID>${xml(compact(data.seller.iban))}</cbc:ID>`,
+        `      <cbc:Name>${xml(data.seller.name)}</cbc:Name>`,
+        data.seller.bic
+          ? `      <cac:FinancialInstitutionBranch><cbc:ID>${xml(data.seller.bic)}</cbc:ID></cac:FinancialInstitutionBranch>`
+          : '',
+        `    </cac:PayeeFinancialAccount>`,
+        `  </cac:PaymentMeans>`,
+      ]
+    : [`  <cac:PaymentMeans><cbc:PaymentMeansCode>1</cbc:PaymentMeansCode></cac:PaymentMeans>`];
+
+  const allowance = data.allowanceCents > 0
+    ? [
+        `  <cac:AllowanceCharge>`,
+        `    <cbc:ChargeIndicator>false</cbc:ChargeIndicator>`,
+        `    <cbc:AllowanceChargeReason>${xml(data.allowanceReason || 'Discount')}</cbc:AllowanceChargeReason>`,
+        `    <cbc:Amount ${currency}>${amount(data.allowanceCents)}</cbc:Amount>`,
+        ...taxCategory('TaxCategory', '    '),
+        `  </cac:AllowanceCharge>`,
+      ]
+    : [];
+
+  const lines = data.lines.flatMap((line, index) => [
+    `  <cac:InvoiceLine>`,
+    `    <cbc:ID>${index + 1}</cbc:ID>`,
+    `    <cbc:InvoicedQuantity unitCode="${line.unitCode}">${quantity(line)}</cbc:InvoicedQuantity>`,
+    `    <cbc:LineExtensionAmount ${currency}>${amount(line.netAmountCents)}</cbc:LineExtensionAmount>`,
+    `    <cac:Item>`,
+    `      <cbc:Name>${xml(line.name)}</cbc:Name>`,
+    ...taxCategory('ClassifiedTaxCategory', '      '),
+    `    </cac:Item>`,
+    `    <cac:Price><cbc:PriceAmount ${currency}>${netPrice(line)}</cbc:PriceAmount></cac:Price>`,
+    `  </cac:InvoiceLine>`,
+  ]);
+
+  return joinLines([
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<ubl:Invoice xmlns:ubl="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"` +
+      ` xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"` +
+      ` xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">`,
+    `  <cbc:CustomizationID>${XRECHNUNG_CUSTOMIZATION_ID}</cbc:CustomizationID>`,
+    `  <cbc:ProfileID>urn:fdc:peppol.eu:2017:poacc:billing:01:1.0</cbc:ProfileID>`,
+    `  <cbc:ID>${xml(data.number)}</cbc:ID>`,
+    `  <cbc:IssueDate>${isoDate(data.issueDate)}</cbc:IssueDate>`,
+    `  <cbc:DueDate>${isoDate(data.dueDate)}</cbc:DueDate>`,
+    `  <cbc:InvoiceTypeCode>380</cbc:InvoiceTypeCode>`,
+    ...data.notes.map(note => `  <cbc:Note>${xml(note)}</cbc:Note>`),
+    `  <cbc:DocumentCurrencyCode>${data.currency}</cbc:DocumentCurrencyCode>`,
+    `  <cbc:BuyerReference>${xml(data.buyerReference)}</cbc:BuyerReference>`,
+    `  <cac:InvoicePeriod>`,
+    `    <cbc:StartDate>${isoDate(data.periodStart)}</cbc:StartDate>`,
+    `    <cbc:EndDate>${isoDate(data.periodEnd)}</cbc:EndDate>`,
+    `  </cac:InvoicePeriod>`,
+    ...party('AccountingSupplierParty', data.seller, data.seller),
+    ...party('AccountingCustomerParty', data.buyer),
+    ...paymentMeans,
+    `  <cac:PaymentTerms><cbc:Note>${xml(data.paymentTerms)}</cbc:Note></cac:PaymentTerms>`,
+    ...allowance,
+    `  <cac:TaxTotal>`,
+    `    <cbc:TaxAmount ${currency}>${amount(data.taxCents)}</cbc:TaxAmount>`,
+    `    <cac:TaxSubtotal>`,
+    `      <cbc:TaxableAmount ${currency}>${amount(totals.taxBasisCents)}</cbc:TaxableAmount>`,
+    `      <cbc:TaxAmount ${currency}>${amount(data.taxCents)}</cbc:TaxAmount>`,
+    ...taxCategory('TaxCategory', '      ', true),
+    `    </cac:TaxSubtotal>`,
+    `  </cac:TaxTotal>`,
+    `  <cac:LegalMonetaryTotal>`,
+    `    <cbc:LineExtensionAmount ${currency}>${amount(totals.lineTotalCents)}</cbc:LineExtensionAmount>`,
+    `    <cbc:TaxExclusiveAmount ${currency}>${amount(totals.taxBasisCents)}</cbc:TaxExclusiveAmount>`,
+    `    <cbc:TaxInclusiveAmount ${currency}>${amount(totals.grandTotalCents)}</cbc:TaxInclusiveAmount>`,
+    `    <cbc:AllowanceTotalAmount ${currency}>${amount(data.allowanceCents)}</cbc:AllowanceTotalAmount>`,
+    `    <cbc:PrepaidAmount ${currency}>${amount(data.prepaidCents)}</cbc:PrepaidAmount>`,
+    `    <cbc:PayableAmount ${currency}>${amount(totals.dueCents)}</cbc:PayableAmount>`,
+    `  </cac:LegalMonetaryTotal>`,
+    ...lines,
+    `</ubl:Invoice>`,
+  ]);
+}
+
+// ==================== Helpers ====================
+
+function formatAmount(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function quantity(line: EInvoiceLine): string {
+  return String(Number((line.quantity > 0 ? line.quantity : 1).toFixed(4)));
+}
+
+/** Pro-rated lines don't bill the list price, so the net price is derived from the line amount */
+function netPrice(line: EInvoiceLine): string {
+  const qty = line.quantity > 0 ? line.quantity : 1;
+  return String(Number((line.netAmountCents / 100 / qty).toFixed(4)));
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function ciiDate(date: Date): string {
+  return `<udt:DateTimeString format="102">${isoDate(date).replace(/-/g, '')}</udt:DateTimeString>`;
+}
+
+function compact(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase();
+}
+
+function xml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function joinLines(lines: string[]): string {
+  return lines.filter(Boolean).join('\n') + '\n';
+}
@@ -0,0 +1,403 @@
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+
+/**
+ * Minimal PDF 1.7 writer for generated documents such as invoices: text in the
+ * standard Helvetica fonts, rules, several pages and embedded file attachments.
+ *
+ * Text is WinAnsi-encoded, which covers Latin-1 plus a few typographic
+ * characters and €; anything else is replaced with "?". Documents carry the
+ * XMP metadata and the grey output intent PDF/A-3 asks for, but the standard
+ * fonts are not embedded yet, so they don't declare PDF/A conformance.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  align?: 'left' | 'right';
+  /** Grey level, 0 is black */
+  gray?: number;
+}
+
+export interface PdfAttachment {
+  filename: string;
+  mimeType: string;
+  description: string;
+  /** How the file relates to the document (PDF 2.0 / PDF/A-3 AFRelationship) */
+  relationship: 'Data' | 'Source' | 'Alternative' | 'Supplement' | 'Unspecified';
+  content: Buffer;
+  modifiedAt: Date;
+}
+
+/** A4 in points */
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+const FONT_NAMES: Record<PdfFont, { resource: string; baseFont: string }> = {
+  regular: { resource: 'F1', baseFont: 'Helvetica' },
+  bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+};
+
+// Glyph widths (1/1000 em) for ASCII 32-126, from the standard font metrics
+const ASCII_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+/** Characters outside Latin-1 that WinAnsiEncoding maps into 0x80-0x9F */
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+export function encodeWinAnsi(text: string): Buffer {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (WIN_ANSI_EXTRA[char] !== undefined) {
+      bytes.push(WIN_ANSI_EXTRA[char]);
+    } else if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+      bytes.push(code);
+    } else {
+      bytes.push(0x3f);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+  private readonly attachments: PdfAttachment[] = [];
+  private readonly xmpDescriptions: string[] = [];
+  private current = 0;
+
+  constructor(private readonly info: { title: string; author?: string; subject?: string; createdAt: Date }) {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  /** Further drawing goes to an existing page, e.g. for footers once the page count is known */
+  goToPage(index: number): void {
+    this.current = index;
+  }
+
+  /** Draws text with its baseline at y, measured from the bottom of the page */
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const font = options.font || 'regular';
+    const size = options.size || 10;
+    const left = options.align === 'right' ? x - this.widthOf(text, font, size) : x;
+
+    this.pages[this.current].push(
+      `${this.num(options.gray ?? 0)} g BT /${FONT_NAMES[font].resource} ${this.num(size)} Tf ` +
+        `${this.num(left)} ${this.num(y)} Td <${encodeWinAnsi(text).toString('hex')}> Tj ET`,
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, gray = 0): void {
+    this.pages[this.current].push(
+      `${this.num(gray)} G ${this.num(width)} w ${this.num(x1)} ${this.num(y1)} m ${this.num(x2)} ${this.num(y2)} l S`,
+    );
+  }
+
+  widthOf(text: string, font: PdfFont = 'regular', size = 10): number {
+    let units = 0;
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      // Accented letters and € are close enough to the width of a digit
+      units += code >= 32 && code <= 126 ? ASCII_WIDTHS[font][code - 32] : 556;
+    }
+    return (units * size) / 1000;
+  }
+
+  /** Splits text into lines no wider than maxWidth, breaking at spaces where possible */
+  wrap(text: string, maxWidth: number, font: PdfFont = 'regular', size = 10): string[] {
+    const lines: string[] = [];
+    let line = '';
+
+    for (const word of text.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (this.widthOf(candidate, font, size) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (this.widthOf(line, font, size) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && this.widthOf(line.slice(0, cut), font, size) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+
+    if (line) lines.push(line);
+    return lines.length > 0 ? lines : [''];
+  }
+
+  attach(attachment: PdfAttachment): void {
+    this.attachments.push(attachment);
+  }
+
+  /**
+   * Adds an rdf:Description to the XMP metadata, e.g. to declare a Factur-X
+   * attachment. Title, author, subject and dates are taken from the document info.
+   */
+  addXmpDescription(description: string): void {
+    this.xmpDescriptions.push(description);
+  }
+
+  toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const add = (body: string | Buffer): number => {
+      objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+      return objects.length;
+    };
+    const reserve = (): number => add('');
+    const set = (ref: number, body: string): void => {
+      objects[ref - 1] = Buffer.from(body, 'latin1');
+    };
+    const ref = (n: number) => `${n} 0 R`;
+
+    const catalogRef = reserve();
+    const pagesRef = reserve();
+    const fontRefs = Object.values(FONT_NAMES).map(({ resource, baseFont }) => ({
+      resource,
+      ref: add(`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`),
+    }));
+    const fontResources = fontRefs.map(f => `/${f.resource} ${ref(f.ref)}`).join(' ');
+
+    const pageRefs = this.pages.map(ops => {
+      const contentRef = add(this.stream('', Buffer.from(ops.join('\n'), 'latin1')));
+      return add(
+        `<< /Type /Page /Parent ${ref(pagesRef)} /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+          `/Resources << /Font << ${fontResources} >> >> /Contents ${ref(contentRef)} >>`,
+      );
+    });
+    set(pagesRef, `<< /Type /Pages /Kids [${pageRefs.map(ref).join(' ')}] /Count ${pageRefs.length} >>`);
+
+    // The name tree must be sorted by file name
+    const files = [...this.attachments]
+      .sort((a, b) => a.filename.localeCompare(b.filename))
+      .map(file => {
+        const streamRef = add(this.stream(
+          `/Type /EmbeddedFile /Subtype /${file.mimeType.replace('/', '#2F')} ` +
+            `/Params << /Size ${file.content.length} /ModDate ${this.date(file.modifiedAt)} >>`,
+          file.content,
+        ));
+        const specRef = add(
+          `<< /Type /Filespec /F ${this.literal(file.filename)} /UF ${this.textString(file.filename)} ` +
+            `/Desc ${this.textString(file.description)} /AFRelationship /${file.relationship} ` +
+            `/EF << /F ${ref(streamRef)} /UF ${ref(streamRef)} >> >>`,
+        );
+        return { filename: file.filename, specRef };
+      });
+
+    // Metadata is not compressed so that tools which only scan for XMP packets find it
+    const xmp = Buffer.from(this.xmpPacket(), 'utf8');
+    const metadataRef = add(Buffer.concat([
+      Buffer.from(`<< /Type /Metadata /Subtype /XML /Length ${xmp.length} >>\nstream\n`, 'latin1'),
+      xmp,
+      Buffer.from('\nendstream', 'latin1'),
+    ]));
+    const profileRef = add(this.stream('/N 1', grayIccProfile()));
+
+    const catalog = [
+      `/Type /Catalog /Pages ${ref(pagesRef)} /Metadata ${ref(metadataRef)}`,
+      `/OutputIntents [<< /Type /OutputIntent /S /GTS_PDFA1 /OutputConditionIdentifier (Custom) ` +
+        `/Info (Grey, gamma 2.2) /DestOutputProfile ${ref(profileRef)} >>]`,
+    ];
+    if (files.length > 0) {
+      const names = files.map(f => `${this.literal(f.filename)} ${ref(f.specRef)}`).join(' ');
+      catalog.push(`/Names << /EmbeddedFiles << /Names [${names}] >> >>`);
+      catalog.push(`/AF [${files.map(f => ref(f.specRef)).join(' ')}]`);
+    }
+    set(catalogRef, `<< ${catalog.join(' ')} >>`);
+
+    const infoRef = add(
+      `<< /Title ${this.textString(this.info.title)}` +
+        (this.info.author ? ` /Author ${this.textString(this.info.author)}` : '') +
+        (this.info.subject ? ` /Subject ${this.textString(this.info.subject)}` : '') +
+        ` /Producer (EUTLAS) /CreationDate ${this.date(this.info.createdAt)} >>`,
+    );
+
+    // Header with a binary comment so transfer tools treat the file as binary
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+
+    objects.forEach((body, index) => {
+      const chunk = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+        body,
+        Buffer.from('\nendobj\n', 'latin1'),
+      ]);
+      offsets.push(offset);
+      offset += chunk.length;
+      chunks.push(chunk);
+    });
+
+    const id = createHash('md5').update(Buffer.concat(chunks)).digest('hex');
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(o => `${o.toString().padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${ref(catalogRef)} /Info ${ref(infoRef)} /ID [<${id}> <${id}>] >>`,
+      'startxref',
+      `${offset}`,
+      '%%EOF',
+      '',
+    ].join('\n');
+    chunks.push(Buffer.from(xref, 'latin1'));
+
+    return Buffer.concat(chunks);
+  }
+
+  // ==================== Helpers ====================
+
+  private stream(dictionary: string, data: Buffer): Buffer {
+    const compressed = deflateSync(data);
+    const entries = [dictionary, `/Length ${compressed.length} /Filter /FlateDecode`].filter(Boolean).join(' ');
+    return Buffer.concat([
+      Buffer.from(`<< ${entries} >>\nstream\n`, 'latin1'),
+      compressed,
+      Buffer.from('\nendstream', 'latin1'),
+    ]);
+  }
+
+  /** XMP packet mirroring the document info, as PDF/A requires both to agree */
+  private xmpPacket(): string {
+    const { title, author, subject, createdAt } = this.info;
+    const alt = (text: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${xmlText(text)}</rdf:li></rdf:Alt>`;
+
+    return [
+      `<?xpacket begin="\ufeff" id="W5M0MpCehiHzreSzNTczkc9d"?>`,
+      `<x:xmpmeta xmlns:x="adobe:ns:meta/">`,
+      `  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">`,
+      `    <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">`,
+      `      <dc:format>application/pdf</dc:format>`,
+      `      <dc:title>${alt(title)}</dc:title>`,
+      author ? `      <dc:creator><rdf:Seq><rdf:li>${xmlText(author)}</rdf:li></rdf:Seq></dc:creator>` : '',
+      subject ? `      <dc:description>${alt(subject)}</dc:description>` : '',
+      `    </rdf:Description>`,
+      `    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">`,
+      `      <xmp:CreateDate>${createdAt.toISOString().slice(0, 19)}Z</xmp:CreateDate>`,
+      `      <pdf:Producer>EUTLAS</pdf:Producer>`,
+      `    </rdf:Description>`,
+      ...this.xmpDescriptions,
+      `  </rdf:RDF>`,
+      `</x:xmpmeta>`,
+      `<?xpacket end="w"?>`,
+    ].filter(Boolean).join('\n');
+  }
+
+  private num(value: number): string {
+    return Number(value.toFixed(2)).toString();
+  }
+
+  /** ASCII-only literal string, used for names PDF readers match on */
+  private literal(text: string): string {
+    return `(${text.replace(/[^\x20-\x7e]/g, '_').replace(/([\\()])/g, '\\$1')})`;
+  }
+
+  /** UTF-16BE text string for document metadata */
+  private textString(text: string): string {
+    const utf16 = Buffer.from(text, 'utf16le').swap16();
+    return `<feff${utf16.toString('hex')}>`;
+  }
+
+  private date(date: Date): string {
+    const iso = date.toISOString();
+    return `(D:${iso.slice(0, 4)}${iso.slice(5, 7)}${iso.slice(8, 10)}${iso.slice(11, 13)}${iso.slice(14, 16)}${iso.slice(17, 19)}Z)`;
+  }
+}
+
+function xmlText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * ICC v2 display profile for grey with D50 white and gamma 2.2, the output
+ * intent for content drawn in DeviceGray. Built here rather than shipped as a
+ * file since it is only a header and four small tags.
+ */
+function grayIccProfile(): Buffer {
+  const fixed = (value: number) => Math.round(value * 0x10000);
+  const xyz = (x: number, y: number, z: number) => {
+    const tag = Buffer.alloc(20);
+    tag.write('XYZ ', 0, 'latin1');
+    tag.writeInt32BE(fixed(x), 8);
+    tag.writeInt32BE(fixed(y), 12);
+    tag.writeInt32BE(fixed(z), 16);
+    return tag;
+  };
+  const description = 'Grey, gamma 2.2';
+  const desc = Buffer.alloc(12 + description.length + 1 + 8 + 3 + 67);
+  desc.write('desc', 0, 'latin1');
+  desc.writeUInt32BE(description.length + 1, 8);
+  desc.write(description, 12, 'latin1');
+  const copyright = 'No copyright, use freely';
+  const cprt = Buffer.alloc(8 + copyright.length + 1);
+  cprt.write('text', 0, 'latin1');
+  cprt.write(copyright, 8, 'latin1');
+  const curve = Buffer.alloc(14);
+  curve.write('curv', 0, 'latin1');
+  curve.writeUInt32BE(1, 8);
+  curve.writeUInt16BE(Math.round(2.2 * 0x100), 12);
+
+  const tags: Array<[string, Buffer]> = [
+    ['desc', desc],
+    ['cprt', cprt],
+    ['wtpt', xyz(0.9642, 1, 0.8249)],
+    ['kTRC', curve],
+  ];
+  const pad = (data: Buffer) => Buffer.concat([data, Buffer.alloc((4 - (data.length % 4)) % 4)]);
+
+  const table = Buffer.alloc(4 + tags.length * 12);
+  table.writeUInt32BE(tags.length, 0);
+  let offset = 128 + table.length;
+  const data = tags.map(([signature, tag], index) => {
+    table.write(signature, 4 + index * 12, 'latin1');
+    table.writeUInt32BE(offset, 8 + index * 12);
+    table.writeUInt32BE(tag.length, 12 + index * 12);
+    offset += pad(tag).length;
+    return pad(tag);
+  });
+
+  const header = Buffer.alloc(128);
+  header.writeUInt32BE(offset, 0);
+  header.writeUInt32BE(0x02100000, 8);
+  header.write('mntrGRAYXYZ ', 12, 'latin1');
+  [2026, 1, 1, 0, 0, 0].forEach((part, index) => header.writeUInt16BE(part, 24 + index * 2));
+  header.write('acsp', 36, 'latin1');
+  header.writeInt32BE(fixed(0.9642), 68);
+  header.writeInt32BE(fixed(1), 72);
+  header.writeInt32BE(fixed(0.8249), 76);
+
+  return Buffer.concat([header, table, ...data]);
+}
@@ -5,6 +5,18 @@ export type BillingAccountDocument = BillingAccount & Document;
 
 export type PaymentMethodType = 'card' | 'sepa_debit' | 'invoice' | 'none';
 
+/** Result of checking a VAT ID against VIES (or the local stand-in) */
+export interface VatIdValidation {
+  vatId: string; // normalized, e.g. "NL123456789B01"
+  status: 'valid' | 'invalid' | 'unavailable';
+  source: 'vies' | 'local';
+  checkedAt: Date;
+  name?: string;
+  address?: string;
+  /** VIES consultation number, proof that the check was made */
+  requestIdentifier?: string;
+}
+
 @Schema({
   timestamps: true,
   toJSON: {
@@ -50,11 +62,19 @@ export class BillingAccount {
   @Prop()
   vatId?: string;
 
+  @Prop({ type: Object })
+  vatValidation?: VatIdValidation;
+
+  /** Buyer reference for e-invoices, e.g. the Leitweg-ID of German public-sector customers */
+  @Prop()
+  buyerReference?: string;
+
   @Prop({ default: 'EUR' })
   currency: string;
 
+  /** Rate the tax engine currently applies, recalculated when the address or VAT ID changes */
   @Prop({ default: 19 })
-  taxPercent: number; // Default VAT for EU
+  taxPercent: number;
 
   // Payment method info
   @Prop({ enum: ['card', 'sepa_debit', 'invoice', 'none'], default: 'none' })
@@ -104,6 +124,9 @@ export class BillingAccount {
   @Prop({ default: 0 })
   creditBalanceCents: number; // Prepaid credits
 
+  @Prop({ type: Types.ObjectId, ref: 'Invoice' })
+  creditAppliedInvoiceId?: Types.ObjectId; // Last invoice paid from credits, so a retry doesn't deduct twice
+
   @Prop({ default: 0 })
   currentPeriodUsageCents: number; // Running total for current period
 
@@ -0,0 +1,76 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type BillingRunDocument = BillingRun & Document;
+
+export type BillingRunStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * One closed billing period of one account. The unique period key makes the
+ * scheduled run safe to repeat: a period is invoiced once, and a run that
+ * crashed halfway resumes from the invoice it already created.
+ */
+@Schema({
+  timestamps: true,
+  collection: 'billing_runs',
+  toJSON: {
+    virtuals: true,
+    transform: (_: any, ret: any) => {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class BillingRun {
+  id: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'BillingAccount', required: true })
+  billingAccountId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true, index: true })
+  orgId: Types.ObjectId;
+
+  @Prop({ required: true, enum: ['monthly', 'annual'] })
+  billingCycle: 'monthly' | 'annual';
+
+  @Prop({ required: true })
+  periodStart: Date;
+
+  @Prop({ required: true })
+  periodEnd: Date;
+
+  @Prop({ required: true, enum: ['running', 'completed', 'failed'], default: 'running' })
+  status: BillingRunStatus;
+
+  @Prop({ type: Types.ObjectId, ref: 'Invoice' })
+  invoiceId?: Types.ObjectId;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  /** Another worker owns the run until then */
+  @Prop()
+  lockedUntil?: Date;
+
+  @Prop()
+  lastError?: string;
+
+  @Prop()
+  emailSentAt?: Date;
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const BillingRunSchema = SchemaFactory.createForClass(BillingRun);
+
+BillingRunSchema.index({ billingAccountId: 1, periodStart: 1 }, { unique: true });
+BillingRunSchema.index({ status: 1, updatedAt: -1 });
@@ -0,0 +1,19 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type InvoiceSequenceDocument = InvoiceSequence & Document;
+
+/**
+ * Last invoice number handed out per calendar year. Incremented atomically so
+ * invoice numbers stay unique and gapless under concurrent billing runs.
+ */
+@Schema({ timestamps: true, collection: 'invoice_sequences' })
+export class InvoiceSequence {
+  @Prop({ required: true, unique: true })
+  year: number;
+
+  @Prop({ required: true, default: 0 })
+  lastNumber: number;
+}
+
+export const InvoiceSequenceSchema = SchemaFactory.createForClass(InvoiceSequence);
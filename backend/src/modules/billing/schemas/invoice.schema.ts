@@ -1,5 +1,7 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { VatIdValidation } from './billing-account.schema';
+import { EInvoiceSeller } from '../e-invoice';
 
 export type InvoiceDocument = Invoice & Document;
 
@@ -18,6 +20,20 @@ export interface InvoiceLineItem {
   periodEnd?: Date;
 }
 
+export type TaxTreatment = 'domestic' | 'eu_b2c' | 'reverse_charge' | 'outside_eu';
+
+/** How the tax on an invoice was determined, kept as evidence for tax audits */
+export interface TaxDecision {
+  treatment: TaxTreatment;
+  taxPercent: number;
+  sellerCountry: string;
+  customerCountry: string;
+  vatId?: string;
+  vatValidation?: VatIdValidation;
+  reason: string;
+  decidedAt: Date;
+}
+
 @Schema({
   timestamps: true,
   toJSON: {
@@ -66,15 +82,26 @@ export class Invoice {
   @Prop()
   discountDescription?: string;
 
+  /** Paid from the account's prepaid credit balance */
+  @Prop({ default: 0 })
+  creditAppliedCents: number;
+
   @Prop({ default: 0 })
   taxPercent: number; // e.g., 19 for 19% VAT
 
+  @Prop({ type: Object })
+  taxDecision?: TaxDecision;
+
   @Prop({ default: 0 })
   taxCents: number;
 
   @Prop({ required: true, default: 0 })
   totalCents: number;
 
+  /** Invoice date: when the invoice was finalized */
+  @Prop()
+  issuedAt?: Date;
+
   @Prop()
   dueDate: Date;
 
@@ -102,8 +129,13 @@ export class Invoice {
       country?: string;
     };
     vatId?: string;
+    buyerReference?: string;
   };
 
+  // Seller details as of issuing, so documents don't change with the configuration
+  @Prop({ type: Object })
+  seller?: EInvoiceSeller;
+
   // Stripe integration fields (prepared for later)
   @Prop()
   stripeInvoiceId?: string;
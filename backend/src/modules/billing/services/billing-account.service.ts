@@ -6,8 +6,9 @@ import {
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { BillingAccount, BillingAccountDocument, PaymentMethodType } from '../schemas/billing-account.schema';
+import { BillingAccount, BillingAccountDocument, PaymentMethodType, VatIdValidation } from '../schemas/billing-account.schema';
 import { CreateBillingAccountDto, UpdateBillingAccountDto } from '../dto/billing.dto';
+import { TaxService } from './tax.service';
 
 @Injectable()
 export class BillingAccountService {
@@ -15,6 +16,7 @@ export class BillingAccountService {
 
   constructor(
     @InjectModel(BillingAccount.name) private billingAccountModel: Model<BillingAccountDocument>,
+    private readonly taxService: TaxService,
   ) {}
 
   // ==================== CRUD ====================
@@ -25,15 +27,20 @@ export class BillingAccountService {
       throw new BadRequestException('Billing account already exists for this organization');
     }
 
+    const vatValidation = createDto.vatId ? await this.checkVatId(createDto.vatId) : undefined;
+
     const account = new this.billingAccountModel({
       orgId: new Types.ObjectId(orgId),
       companyName: createDto.companyName,
       billingEmail: createDto.billingEmail,
       billingName: createDto.billingName,
       address: createDto.address,
-      vatId: createDto.vatId,
+      vatId: vatValidation?.vatId,
+      vatValidation,
+      buyerReference: createDto.buyerReference,
       currency: createDto.currency || 'EUR',
     });
+    this.applyTaxRate(account);
 
     await account.save();
     this.logger.log(`Created billing account for org ${orgId}`);
@@ -58,15 +65,61 @@ export class BillingAccountService {
     if (updateDto.billingEmail !== undefined) account.billingEmail = updateDto.billingEmail;
     if (updateDto.billingName !== undefined) account.billingName = updateDto.billingName;
     if (updateDto.address !== undefined) account.address = { ...account.address, ...updateDto.address };
-    if (updateDto.vatId !== undefined) account.vatId = updateDto.vatId;
-    if (updateDto.taxPercent !== undefined) account.taxPercent = updateDto.taxPercent;
+    if (updateDto.vatId !== undefined) {
+      const vatValidation = updateDto.vatId ? await this.checkVatId(updateDto.vatId) : undefined;
+      account.vatId = vatValidation?.vatId;
+      account.vatValidation = vatValidation;
+    }
+    if (updateDto.buyerReference !== undefined) account.buyerReference = updateDto.buyerReference;
     if (updateDto.billingCycle !== undefined) account.billingCycle = updateDto.billingCycle;
     if (updateDto.billingDay !== undefined) account.billingDay = updateDto.billingDay;
+    this.applyTaxRate(account);
+
+    await account.save();
+    return account;
+  }
+
+  // ==================== Tax ====================
+
+  /** Check the stored VAT ID again, e.g. after VIES was unavailable */
+  async revalidateVatId(orgId: string): Promise<BillingAccount> {
+    const account = await this.billingAccountModel.findOne({ orgId: new Types.ObjectId(orgId) }).exec();
+    if (!account) {
+      throw new NotFoundException('Billing account not found');
+    }
+    if (!account.vatId) {
+      throw new BadRequestException({
+        code: 'VALIDATION_ERROR',
+        message: 'The billing account has no VAT ID',
+      });
+    }
 
+    account.vatValidation = await this.taxService.validateVatId(account.vatId);
+    this.applyTaxRate(account);
     await account.save();
     return account;
   }
 
+  /** VAT IDs VIES doesn't know are rejected; if VIES is down the ID is kept and checked again later */
+  private async checkVatId(vatId: string): Promise<VatIdValidation> {
+    const validation = await this.taxService.validateVatId(vatId);
+    if (validation.status === 'invalid') {
+      throw new BadRequestException({
+        code: 'INVALID_VAT_ID',
+        message: `VAT ID ${validation.vatId} is not registered in VIES`,
+      });
+    }
+    return validation;
+  }
+
+  private applyTaxRate(account: BillingAccountDocument): void {
+    account.taxPercent = this.taxService.decide({
+      country: account.address?.country,
+      vatId: account.vatId,
+      vatValidation: account.vatValidation,
+    }).taxPercent;
+  }
+
   // ==================== Payment Method (Prepared for Stripe) ====================
 
   async setPaymentMethod(
@@ -170,6 +223,37 @@ export class BillingAccountService {
     };
   }
 
+  /**
+   * Deduct credit for an invoice at most once. Returns false when the balance
+   * no longer covers the amount.
+   */
+  async useCreditForInvoice(orgId: string, invoiceId: string, amountCents: number): Promise<boolean> {
+    const invoiceObjectId = new Types.ObjectId(invoiceId);
+    const account = await this.billingAccountModel.findOneAndUpdate(
+      {
+        orgId: new Types.ObjectId(orgId),
+        creditBalanceCents: { $gte: amountCents },
+        creditAppliedInvoiceId: { $ne: invoiceObjectId },
+      },
+      {
+        $inc: { creditBalanceCents: -amountCents },
+        $set: { creditAppliedInvoiceId: invoiceObjectId },
+      },
+      { new: true },
+    ).exec();
+    if (account) {
+      this.logger.log(`Used ${amountCents} cents credit of org ${orgId} for invoice ${invoiceId}`);
+      return true;
+    }
+
+    // Already deducted by an earlier attempt
+    const applied = await this.billingAccountModel.exists({
+      orgId: new Types.ObjectId(orgId),
+      creditAppliedInvoiceId: invoiceObjectId,
+    });
+    return !!applied;
+  }
+
   // ==================== Status ====================
 
   async setDelinquent(orgId: string, delinquent: boolean): Promise<void> {
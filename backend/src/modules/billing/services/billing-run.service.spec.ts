@@ -0,0 +1,278 @@
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { BillingRunService } from './billing-run.service';
+import { PricingService } from './pricing.service';
+
+describe('BillingRunService', () => {
+  let service: BillingRunService;
+  let mockRunModel: any;
+  let mockAccountModel: any;
+  let mockClusterModel: any;
+  let mockBillingAccountService: any;
+  let mockInvoiceService: any;
+  let mockUsageService: any;
+  let mockStripeService: any;
+  let mockEmailService: any;
+
+  const ORG_ID = new Types.ObjectId();
+  const ACCOUNT_ID = new Types.ObjectId();
+  const INVOICE_ID = new Types.ObjectId().toString();
+  const NOW = new Date(2026, 2, 20, 12);
+
+  const exec = (value: any) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+  const account = (overrides: Record<string, any> = {}): any => ({
+    _id: ACCOUNT_ID,
+    orgId: ORG_ID,
+    billingEmail: 'billing@example.com',
+    billingCycle: 'monthly',
+    billingDay: 15,
+    annualDiscountPercent: 20,
+    creditBalanceCents: 0,
+    createdAt: new Date(2025, 0, 1),
+    ...overrides,
+  });
+
+  const invoice = (overrides: Record<string, any> = {}): any => ({
+    id: INVOICE_ID,
+    invoiceNumber: 'INV-2026-0001',
+    status: 'draft',
+    currency: 'EUR',
+    lineItems: [{ description: 'Medium - prod', totalCents: 10000, usageType: 'plan' }],
+    subtotalCents: 10000,
+    discountCents: 0,
+    creditAppliedCents: 0,
+    taxPercent: 19,
+    taxCents: 1900,
+    totalCents: 11900,
+    dueDate: new Date(2026, 3, 1),
+    ...overrides,
+  });
+
+  const pricingService = (): PricingService => {
+    const mock: Partial<PricingService> = { formatAmount: jest.fn((cents: number) => `€${(cents / 100).toFixed(2)}`) };
+    return mock as PricingService;
+  };
+
+  const configService = (): ConfigService => {
+    const mock: Partial<ConfigService> = { get: jest.fn() };
+    return mock as ConfigService;
+  };
+
+  const run = (overrides: Record<string, any> = {}): any => ({
+    id: new Types.ObjectId().toString(),
+    periodStart: new Date(2026, 1, 15),
+    periodEnd: new Date(2026, 2, 14, 23, 59, 59, 999),
+    attempts: 1,
+    status: 'running',
+    save: jest.fn(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockRunModel = {
+      findOne: jest.fn().mockReturnValue({ sort: jest.fn().mockReturnValue(exec(null)) }),
+      exists: jest.fn().mockResolvedValue(null),
+      findOneAndUpdate: jest.fn(),
+    };
+    mockAccountModel = { find: jest.fn().mockReturnValue(exec([account()])) };
+    mockClusterModel = { countDocuments: jest.fn().mockReturnValue(exec(1)) };
+    mockBillingAccountService = {
+      findByOrgId: jest.fn().mockResolvedValue(account()),
+      useCreditForInvoice: jest.fn().mockResolvedValue(true),
+    };
+    mockInvoiceService = {
+      findById: jest.fn(),
+      findForPeriod: jest.fn().mockResolvedValue(null),
+      generateInvoice: jest.fn().mockResolvedValue(invoice()),
+      applyDiscount: jest.fn(),
+      applyCredit: jest.fn(),
+      finalizeInvoice: jest.fn().mockImplementation(async () => invoice({ status: 'open' })),
+      markAsPaid: jest.fn(),
+      setStripeInvoice: jest.fn(),
+    };
+    mockUsageService = {
+      getUninvoicedUsage: jest.fn().mockResolvedValue([]),
+      markUsageAsInvoiced: jest.fn(),
+    };
+    mockStripeService = {
+      configured: false,
+      createInvoice: jest.fn().mockResolvedValue('in_123'),
+      finalizeInvoice: jest.fn().mockResolvedValue({ hostedUrl: 'https://stripe.test/i/123' }),
+    };
+    mockEmailService = { sendInvoiceIssued: jest.fn().mockResolvedValue(true) };
+
+    service = new BillingRunService(
+      mockRunModel,
+      mockAccountModel,
+      mockClusterModel,
+      mockBillingAccountService,
+      mockInvoiceService,
+      mockUsageService,
+      pricingService(),
+      mockStripeService,
+      mockEmailService,
+      configService(),
+    );
+  });
+
+  describe('getClosedPeriod', () => {
+    it('should close monthly periods on the billing day', () => {
+      expect(service.getClosedPeriod(account(), NOW)).toEqual({
+        start: new Date(2026, 1, 15),
+        end: new Date(2026, 2, 14, 23, 59, 59, 999),
+      });
+      expect(service.getClosedPeriod(account(), new Date(2026, 2, 10))).toEqual({
+        start: new Date(2026, 0, 15),
+        end: new Date(2026, 1, 14, 23, 59, 59, 999),
+      });
+    });
+
+    it('should close annual periods on the anniversary of the account', () => {
+      const annual = account({ billingCycle: 'annual', billingDay: 1, createdAt: new Date(2025, 5, 3) });
+
+      expect(service.getClosedPeriod(annual, new Date(2026, 6, 1))).toEqual({
+        start: new Date(2025, 5, 1),
+        end: new Date(2026, 4, 31, 23, 59, 59, 999),
+      });
+    });
+
+    it('should not bill a period that ended before the account existed', () => {
+      expect(service.getClosedPeriod(account({ createdAt: new Date(2026, 2, 16) }), NOW)).toBeNull();
+    });
+  });
+
+  it('should generate, credit, finalize and email the invoice for a closed period', async () => {
+    const claimed = run();
+    mockRunModel.findOneAndUpdate.mockReturnValue(exec(claimed));
+    mockBillingAccountService.findByOrgId.mockResolvedValue(account({ creditBalanceCents: 2500 }));
+    mockInvoiceService.applyCredit.mockResolvedValue(invoice({ creditAppliedCents: 2500, totalCents: 9400 }));
+
+    await service.runBillingCycle(NOW);
+
+    expect(mockInvoiceService.generateInvoice).toHaveBeenCalledWith(
+      ORG_ID.toString(),
+      new Date(2026, 1, 15),
+      new Date(2026, 2, 14, 23, 59, 59, 999),
+      { planMonths: 1 },
+    );
+    expect(mockInvoiceService.applyCredit).toHaveBeenCalledWith(INVOICE_ID, 2500);
+    expect(mockBillingAccountService.useCreditForInvoice).toHaveBeenCalledWith(ORG_ID.toString(), INVOICE_ID, 2500);
+    expect(mockInvoiceService.finalizeInvoice).toHaveBeenCalledWith(INVOICE_ID);
+    expect(mockEmailService.sendInvoiceIssued).toHaveBeenCalledTimes(1);
+    expect(claimed).toMatchObject({ status: 'completed', invoiceId: new Types.ObjectId(INVOICE_ID) });
+    expect(claimed.emailSentAt).toBeInstanceOf(Date);
+  });
+
+  it('should skip periods that were already billed', async () => {
+    mockRunModel.exists.mockResolvedValue({ _id: new Types.ObjectId() });
+
+    await service.runBillingCycle(NOW);
+
+    expect(mockRunModel.findOneAndUpdate).not.toHaveBeenCalled();
+    expect(mockInvoiceService.generateInvoice).not.toHaveBeenCalled();
+  });
+
+  it('should leave a period alone while another worker holds it', async () => {
+    mockRunModel.findOneAndUpdate.mockReturnValue({
+      exec: jest.fn().mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 })),
+    });
+
+    await service.runBillingCycle(NOW);
+
+    expect(mockInvoiceService.generateInvoice).not.toHaveBeenCalled();
+  });
+
+  it('should resume a crashed run from its invoice without deducting credit twice', async () => {
+    const crashed = run({ status: 'failed', attempts: 2, invoiceId: new Types.ObjectId(INVOICE_ID), lastError: 'timeout' });
+    mockRunModel.findOne.mockReturnValue({ sort: jest.fn().mockReturnValue(exec(crashed)) });
+    mockRunModel.findOneAndUpdate.mockReturnValue(exec(crashed));
+    mockInvoiceService.findById.mockResolvedValue(invoice({ creditAppliedCents: 2500, totalCents: 9400 }));
+
+    await service.runBillingCycle(NOW);
+
+    expect(mockInvoiceService.generateInvoice).not.toHaveBeenCalled();
+    expect(mockInvoiceService.applyCredit).not.toHaveBeenCalled();
+    expect(mockBillingAccountService.useCreditForInvoice).toHaveBeenCalledWith(ORG_ID.toString(), INVOICE_ID, 2500);
+    expect(crashed).toMatchObject({ status: 'completed', lastError: undefined });
+  });
+
+  it('should adopt an invoice saved before a crash and mark its leftover usage', async () => {
+    mockRunModel.findOneAndUpdate.mockReturnValue(exec(run()));
+    mockInvoiceService.findForPeriod.mockResolvedValue(invoice());
+    mockUsageService.getUninvoicedUsage.mockResolvedValue([{ id: 'u1' }, { id: 'u2' }]);
+
+    await service.runBillingCycle(NOW);
+
+    expect(mockInvoiceService.generateInvoice).not.toHaveBeenCalled();
+    expect(mockUsageService.markUsageAsInvoiced).toHaveBeenCalledWith(['u1', 'u2'], INVOICE_ID);
+  });
+
+  it('should not issue empty invoices', async () => {
+    const claimed = run();
+    mockRunModel.findOneAndUpdate.mockReturnValue(exec(claimed));
+    mockClusterModel.countDocuments.mockReturnValue(exec(0));
+
+    await service.runBillingCycle(NOW);
+
+    expect(mockInvoiceService.generateInvoice).not.toHaveBeenCalled();
+    expect(mockEmailService.sendInvoiceIssued).not.toHaveBeenCalled();
+    expect(claimed.status).toBe('completed');
+  });
+
+  it('should discount plan charges of annual accounts', async () => {
+    const annual = account({ billingCycle: 'annual', billingDay: 1, createdAt: new Date(2025, 2, 5) });
+    mockAccountModel.find.mockReturnValue(exec([annual]));
+    mockRunModel.findOneAndUpdate.mockImplementation((filter: any, update: any) =>
+      exec(run({ periodStart: filter.periodStart, periodEnd: update.$setOnInsert.periodEnd })));
+    mockInvoiceService.generateInvoice.mockResolvedValue(invoice({
+      lineItems: [
+        { description: 'Medium - prod', totalCents: 120000, usageType: 'plan' },
+        { description: 'Data transfer', totalCents: 3000, usageType: 'data_transfer_gb' },
+      ],
+    }));
+    mockInvoiceService.applyDiscount.mockResolvedValue(invoice({ discountCents: 24000 }));
+
+    await service.runBillingCycle(NOW);
+
+    expect(mockInvoiceService.generateInvoice).toHaveBeenCalledWith(
+      ORG_ID.toString(),
+      new Date(2025, 2, 1),
+      new Date(2026, 1, 28, 23, 59, 59, 999),
+      { planMonths: 12 },
+    );
+    expect(mockInvoiceService.applyDiscount).toHaveBeenCalledWith(INVOICE_ID, 24000, 'Annual billing discount (20%)');
+  });
+
+  it('should push open invoices to Stripe with an idempotency key', async () => {
+    const claimed = run();
+    mockStripeService.configured = true;
+    mockAccountModel.find.mockReturnValue(exec([account({ stripeCustomerId: 'cus_123' })]));
+    mockRunModel.findOneAndUpdate.mockReturnValue(exec(claimed));
+
+    await service.runBillingCycle(NOW);
+
+    expect(mockStripeService.createInvoice).toHaveBeenCalledWith(
+      'cus_123',
+      [
+        { description: 'Medium - prod', amount: 10000 },
+        { description: 'VAT (19%)', amount: 1900 },
+      ],
+      expect.objectContaining({ idempotencyKey: `billing-run-${claimed.id}` }),
+    );
+    expect(mockInvoiceService.setStripeInvoice).toHaveBeenLastCalledWith(INVOICE_ID, 'in_123', {
+      hostedUrl: 'https://stripe.test/i/123',
+    });
+  });
+
+  it('should record the error and retry later when a step fails', async () => {
+    const claimed = run();
+    mockRunModel.findOneAndUpdate.mockReturnValue(exec(claimed));
+    mockInvoiceService.finalizeInvoice.mockRejectedValue(new Error('write conflict'));
+
+    await service.runBillingCycle(NOW);
+
+    expect(claimed).toMatchObject({ status: 'failed', lastError: 'write conflict', lockedUntil: undefined });
+    expect(mockEmailService.sendInvoiceIssued).not.toHaveBeenCalled();
+  });
+});
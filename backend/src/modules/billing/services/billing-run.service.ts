@@ -0,0 +1,336 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { BillingRun, BillingRunDocument } from '../schemas/billing-run.schema';
+import { BillingAccount, BillingAccountDocument } from '../schemas/billing-account.schema';
+import { Invoice } from '../schemas/invoice.schema';
+import { Cluster, ClusterDocument } from '../../clusters/schemas/cluster.schema';
+import { BillingAccountService } from './billing-account.service';
+import { InvoiceService } from './invoice.service';
+import { UsageService } from './usage.service';
+import { PricingService } from './pricing.service';
+import { StripeService } from './stripe.service';
+import { EmailService } from '../../email/email.service';
+
+/** A crashed worker's claim on a run expires after this */
+const RUN_LEASE_MS = 15 * 60 * 1000;
+/** Failed runs are retried hourly up to this many times, then left for an operator */
+const MAX_RUN_ATTEMPTS = 5;
+
+export interface BillingPeriod {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Closes billing periods on each account's billing day and issues the
+ * invoice: generate, annual discount, prepaid credit, finalize, Stripe and
+ * email. Every step checks what an earlier attempt already did, so rerunning
+ * a period never bills it twice.
+ */
+@Injectable()
+export class BillingRunService {
+  private readonly logger = new Logger(BillingRunService.name);
+  private isRunning = false;
+
+  constructor(
+    @InjectModel(BillingRun.name) private billingRunModel: Model<BillingRunDocument>,
+    @InjectModel(BillingAccount.name) private billingAccountModel: Model<BillingAccountDocument>,
+    @InjectModel(Cluster.name) private clusterModel: Model<ClusterDocument>,
+    private readonly billingAccountService: BillingAccountService,
+    private readonly invoiceService: InvoiceService,
+    private readonly usageService: UsageService,
+    private readonly pricingService: PricingService,
+    private readonly stripeService: StripeService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async runScheduledBilling(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test') {
+      return;
+    }
+
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      await this.runBillingCycle(new Date());
+    } catch (error: any) {
+      this.logger.error(`Scheduled billing run failed: ${error.message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  async runBillingCycle(now: Date): Promise<void> {
+    const accounts = await this.billingAccountModel.find({
+      active: true,
+      isTrialActive: { $ne: true },
+    }).exec();
+
+    for (const account of accounts) {
+      try {
+        await this.processAccount(account, now);
+      } catch (error: any) {
+        this.logger.error(`Billing run for org ${account.orgId} failed: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * The most recent period that ended on the account's billing day, or null
+   * if the account did not exist yet when it ended. Monthly periods close on
+   * `billingDay` every month, annual ones on the anniversary of the account.
+   */
+  getClosedPeriod(account: BillingAccount, now: Date): BillingPeriod | null {
+    const day = Math.min(Math.max(account.billingDay || 1, 1), 28);
+    const months = account.billingCycle === 'annual' ? 12 : 1;
+    const anchorMonth = account.billingCycle === 'annual'
+      ? new Date(account.createdAt ?? now).getMonth()
+      : now.getMonth();
+
+    let boundary = new Date(now.getFullYear(), anchorMonth, day);
+    if (boundary > now) {
+      boundary = new Date(boundary.getFullYear(), boundary.getMonth() - months, day);
+    }
+
+    const start = new Date(boundary.getFullYear(), boundary.getMonth() - months, day);
+    const end = new Date(boundary.getTime() - 1);
+    if (account.createdAt && account.createdAt > end) {
+      return null;
+    }
+
+    return { start, end };
+  }
+
+  private async processAccount(account: BillingAccountDocument, now: Date): Promise<void> {
+    // Finish an interrupted period before closing the next one; its credit
+    // and usage bookkeeping must not interleave with a newer invoice
+    const unfinished = await this.billingRunModel
+      .findOne({ billingAccountId: account._id, status: { $ne: 'completed' } })
+      .sort({ periodStart: 1 })
+      .exec();
+
+    let period: BillingPeriod | null;
+    if (unfinished) {
+      if (unfinished.attempts >= MAX_RUN_ATTEMPTS) {
+        this.logger.warn(`Billing for org ${account.orgId} is stuck on run ${unfinished.id}: ${unfinished.lastError}`);
+        return;
+      }
+      period = { start: unfinished.periodStart, end: unfinished.periodEnd };
+    } else {
+      period = this.getClosedPeriod(account, now);
+      if (!period) return;
+
+      const done = await this.billingRunModel.exists({ billingAccountId: account._id, periodStart: period.start });
+      if (done) return;
+    }
+
+    const run = await this.claimRun(account, period, now);
+    if (!run) return;
+
+    try {
+      await this.closePeriod(run, account);
+
+      run.status = 'completed';
+      run.completedAt = new Date();
+      run.lockedUntil = undefined;
+      run.lastError = undefined;
+      await run.save();
+    } catch (error: any) {
+      run.status = 'failed';
+      run.lockedUntil = undefined;
+      run.lastError = error.message;
+      await run.save();
+      this.logger.error(`Billing run ${run.id} for org ${account.orgId} failed (attempt ${run.attempts}): ${error.message}`);
+    }
+  }
+
+  /** Take the run for the period unless it is done or another worker holds it */
+  private async claimRun(
+    account: BillingAccountDocument,
+    period: BillingPeriod,
+    now: Date,
+  ): Promise<BillingRunDocument | null> {
+    try {
+      return await this.billingRunModel.findOneAndUpdate(
+        {
+          billingAccountId: account._id,
+          periodStart: period.start,
+          status: { $ne: 'completed' },
+          $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }],
+        },
+        {
+          $setOnInsert: {
+            orgId: account.orgId,
+            billingCycle: account.billingCycle,
+            periodEnd: period.end,
+          },
+          $set: { status: 'running', lockedUntil: new Date(now.getTime() + RUN_LEASE_MS) },
+          $inc: { attempts: 1 },
+        },
+        { upsert: true, new: true },
+      ).exec();
+    } catch (error: any) {
+      // The upsert collides with a run that is completed or locked
+      if (error.code === 11000) return null;
+      throw error;
+    }
+  }
+
+  private async closePeriod(run: BillingRunDocument, account: BillingAccountDocument): Promise<void> {
+    const orgId = account.orgId.toString();
+
+    let invoice = run.invoiceId
+      ? await this.invoiceService.findById(run.invoiceId.toString())
+      : await this.findOrGenerateInvoice(run, account);
+    if (!invoice) {
+      this.logger.log(`Nothing to bill for org ${orgId} in period ending ${run.periodEnd.toISOString()}`);
+      return;
+    }
+
+    if (!run.invoiceId) {
+      run.invoiceId = new Types.ObjectId(invoice.id);
+      await run.save();
+    }
+
+    if (invoice.status === 'draft') {
+      if (account.billingCycle === 'annual') {
+        invoice = await this.applyAnnualDiscount(invoice, account);
+      }
+      invoice = await this.applyCredit(invoice, orgId);
+      invoice = await this.invoiceService.finalizeInvoice(invoice.id);
+
+      if (invoice.totalCents <= 0) {
+        invoice = await this.invoiceService.markAsPaid(invoice.id, undefined, 'Prepaid credit');
+      }
+    }
+
+    if (invoice.status === 'open') {
+      await this.pushToStripe(run, invoice, account);
+    }
+
+    if (!run.emailSentAt && account.billingEmail) {
+      await this.emailService.sendInvoiceIssued(
+        account.billingEmail,
+        invoice.invoiceNumber,
+        this.pricingService.formatAmount(invoice.totalCents),
+        new Date(invoice.dueDate).toLocaleDateString('de-DE'),
+        `${this.configService.get('FRONTEND_URL')}/dashboard/orgs/${orgId}/billing`,
+      );
+      run.emailSentAt = new Date();
+      await run.save();
+    }
+
+    this.logger.log(`Closed billing period for org ${orgId} with invoice ${invoice.invoiceNumber}`);
+  }
+
+  private async findOrGenerateInvoice(run: BillingRunDocument, account: BillingAccountDocument): Promise<Invoice | null> {
+    const orgId = account.orgId.toString();
+
+    const existing = await this.invoiceService.findForPeriod(orgId, run.periodStart, run.periodEnd);
+    if (existing) {
+      // An earlier attempt saved the invoice but may have crashed before
+      // marking its usage. Usage of a closed period can't grow, so whatever
+      // is still uninvoiced belongs to this invoice.
+      const leftover = await this.usageService.getUninvoicedUsage(orgId, run.periodEnd);
+      if (leftover.length > 0) {
+        await this.usageService.markUsageAsInvoiced(leftover.map(r => r.id), existing.id);
+      }
+      return existing;
+    }
+
+    const usage = await this.usageService.getUninvoicedUsage(orgId, run.periodEnd);
+    const clusterCount = await this.clusterModel.countDocuments({ orgId: account.orgId }).exec();
+    if (usage.length === 0 && clusterCount === 0) {
+      return null;
+    }
+
+    return this.invoiceService.generateInvoice(orgId, run.periodStart, run.periodEnd, {
+      planMonths: account.billingCycle === 'annual' ? 12 : 1,
+    });
+  }
+
+  /** The annual discount covers plan charges, not metered usage */
+  private async applyAnnualDiscount(invoice: Invoice, account: BillingAccountDocument): Promise<Invoice> {
+    const percent = account.annualDiscountPercent || 0;
+    const planCents = invoice.lineItems
+      .filter(item => item.usageType === 'plan')
+      .reduce((sum, item) => sum + item.totalCents, 0);
+    const discountCents = Math.round(planCents * (percent / 100));
+
+    if (discountCents <= 0 || invoice.discountCents === discountCents) {
+      return invoice;
+    }
+
+    return this.invoiceService.applyDiscount(invoice.id, discountCents, `Annual billing discount (${percent}%)`);
+  }
+
+  /**
+   * The credit is written on the invoice before it leaves the balance. A
+   * retry finds it there and only repeats the deduction, which the account
+   * accepts once per invoice.
+   */
+  private async applyCredit(invoice: Invoice, orgId: string): Promise<Invoice> {
+    if (!invoice.creditAppliedCents && invoice.totalCents > 0) {
+      const account = await this.billingAccountService.findByOrgId(orgId);
+      const creditCents = Math.min(account?.creditBalanceCents ?? 0, invoice.totalCents);
+      if (creditCents <= 0) {
+        return invoice;
+      }
+      invoice = await this.invoiceService.applyCredit(invoice.id, creditCents);
+    }
+
+    if (invoice.creditAppliedCents > 0) {
+      const used = await this.billingAccountService.useCreditForInvoice(orgId, invoice.id, invoice.creditAppliedCents);
+      if (!used) {
+        this.logger.warn(`Credit balance of org ${orgId} dropped below ${invoice.creditAppliedCents} cents; invoicing without credit`);
+        invoice = await this.invoiceService.applyCredit(invoice.id, 0);
+      }
+    }
+
+    return invoice;
+  }
+
+  private async pushToStripe(run: BillingRunDocument, invoice: Invoice, account: BillingAccountDocument): Promise<void> {
+    if (!this.stripeService.configured || !account.stripeCustomerId || invoice.totalCents <= 0) {
+      return;
+    }
+
+    let stripeInvoiceId = invoice.stripeInvoiceId;
+    if (!stripeInvoiceId) {
+      const items = [
+        ...invoice.lineItems.map(item => ({ description: item.description, amount: item.totalCents })),
+        { description: invoice.discountDescription || 'Discount', amount: -invoice.discountCents },
+        { description: `VAT (${invoice.taxPercent}%)`, amount: invoice.taxCents },
+        { description: 'Prepaid credit', amount: -invoice.creditAppliedCents },
+      ].filter(item => item.amount !== 0);
+
+      stripeInvoiceId = await this.stripeService.createInvoice(account.stripeCustomerId, items, {
+        idempotencyKey: `billing-run-${run.id}`,
+        currency: invoice.currency,
+        metadata: { invoiceId: invoice.id, invoiceNumber: invoice.invoiceNumber },
+      }) ?? undefined;
+      if (!stripeInvoiceId) return;
+
+      await this.invoiceService.setStripeInvoice(invoice.id, stripeInvoiceId);
+    }
+
+    if (!invoice.stripeHostedInvoiceUrl) {
+      try {
+        const urls = await this.stripeService.finalizeInvoice(stripeInvoiceId);
+        await this.invoiceService.setStripeInvoice(invoice.id, stripeInvoiceId, urls);
+      } catch (error: any) {
+        // Stripe keeps auto-advancing the invoice; only the links are missing
+        this.logger.warn(`Could not finalize Stripe invoice ${stripeInvoiceId}: ${error.message}`);
+      }
+    }
+  }
+}
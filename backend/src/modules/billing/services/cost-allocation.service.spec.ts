@@ -0,0 +1,179 @@
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { CostAllocationService } from './cost-allocation.service';
+import { PricingService } from './pricing.service';
+
+describe('CostAllocationService', () => {
+  let service: CostAllocationService;
+  let mockUsageRecordModel: any;
+  let mockClusterModel: any;
+  let mockClusterSettingsModel: any;
+  let mockProjectModel: any;
+
+  const ORG_ID = new Types.ObjectId().toString();
+  const PROJECT_ID = new Types.ObjectId();
+  const API = new Types.ObjectId();
+  const ANALYTICS = new Types.ObjectId();
+  const SCRATCH = new Types.ObjectId();
+  const GONE = new Types.ObjectId();
+  const START = new Date(2026, 2, 1);
+  const END = new Date(2026, 2, 31, 23, 59, 59, 999);
+
+  const pricingService = (): PricingService => {
+    const mock: Partial<PricingService> = { formatAmount: jest.fn((cents: number) => `€${(cents / 100).toFixed(2)}`) };
+    return mock as PricingService;
+  };
+
+  const query = (value: any) => ({
+    select: jest.fn().mockReturnValue({ exec: jest.fn().mockResolvedValue(value) }),
+  });
+
+  const usage = (clusterId: Types.ObjectId | undefined, usageType: string, totalCents: number, clusterName?: string) => ({
+    _id: { clusterId, usageType },
+    quantity: totalCents / 10,
+    totalCents,
+    clusterName,
+  });
+
+  beforeEach(() => {
+    mockUsageRecordModel = {
+      aggregate: jest.fn().mockReturnValue({
+        exec: jest.fn().mockResolvedValue([
+          usage(API, 'cluster_hours', 6000),
+          usage(API, 'storage_gb_hours', 1000),
+          usage(ANALYTICS, 'cluster_hours', 2000),
+          usage(SCRATCH, 'cluster_hours', 500),
+          usage(GONE, 'cluster_hours', 300, 'old-cluster'),
+          usage(undefined, 'backup_storage_gb', 200),
+        ]),
+      }),
+    };
+    mockClusterModel = {
+      find: jest.fn().mockReturnValue(query([
+        { _id: API, name: 'api', projectId: PROJECT_ID },
+        { _id: ANALYTICS, name: 'analytics', projectId: PROJECT_ID },
+        { _id: SCRATCH, name: 'scratch', projectId: PROJECT_ID },
+      ])),
+    };
+    mockClusterSettingsModel = {
+      find: jest.fn().mockReturnValue(query([
+        { clusterId: API, tags: new Map([['team', 'platform'], ['cost-center', 'cc-1']]) },
+        { clusterId: ANALYTICS, tags: new Map([['team', 'data']]) },
+        { clusterId: SCRATCH, tags: new Map() },
+      ])),
+    };
+    mockProjectModel = {
+      find: jest.fn().mockReturnValue(query([{ _id: PROJECT_ID, name: 'Production' }])),
+    };
+
+    service = new CostAllocationService(
+      mockUsageRecordModel,
+      mockClusterModel,
+      mockClusterSettingsModel,
+      mockProjectModel,
+      pricingService(),
+    );
+  });
+
+  describe('getReport', () => {
+    it('should break costs down per cluster with tags and project', async () => {
+      const report = await service.getReport(ORG_ID, START, END);
+
+      expect(report.totalCents).toBe(10000);
+      expect(report.byCluster[0]).toEqual(expect.objectContaining({
+        clusterName: 'api',
+        projectName: 'Production',
+        tags: { team: 'platform', 'cost-center': 'cc-1' },
+        totalCents: 7000,
+      }));
+      expect(report.byCluster[0].byUsageType).toHaveLength(2);
+    });
+
+    it('should keep spend of deleted clusters under their recorded name', async () => {
+      const report = await service.getReport(ORG_ID, START, END);
+
+      const gone = report.byCluster.find(c => c.clusterId === GONE.toString());
+      expect(gone).toEqual(expect.objectContaining({ clusterName: 'old-cluster', deleted: true, totalCents: 300 }));
+    });
+
+    it('should call out untagged and unattributed spend', async () => {
+      const report = await service.getReport(ORG_ID, START, END);
+
+      // scratch (no tags) + deleted cluster + org-level usage
+      expect(report.untaggedCents).toBe(1000);
+      expect(report.unattributedCents).toBe(200);
+    });
+
+    it('should break down every tag key found, with untagged spend per key', async () => {
+      const report = await service.getReport(ORG_ID, START, END);
+
+      expect(report.byTag.map(t => t.tagKey)).toEqual(['cost-center', 'team']);
+      const team = report.byTag.find(t => t.tagKey === 'team')!;
+      expect(team.values).toEqual([
+        { value: 'platform', totalCents: 7000, clusterCount: 1 },
+        { value: 'data', totalCents: 2000, clusterCount: 1 },
+      ]);
+      expect(team.untaggedCents).toBe(1000);
+      expect(report.byTag.find(t => t.tagKey === 'cost-center')!.untaggedCents).toBe(3000);
+    });
+
+    it('should only break down the requested tag keys', async () => {
+      const report = await service.getReport(ORG_ID, START, END, ['owner']);
+
+      expect(report.byTag).toEqual([{ tagKey: 'owner', values: [], untaggedCents: 10000 }]);
+    });
+
+    it('should group unknown projects and org-level usage as unassigned', async () => {
+      const report = await service.getReport(ORG_ID, START, END);
+
+      expect(report.byProject).toEqual([
+        { projectId: PROJECT_ID.toString(), projectName: 'Production', totalCents: 9500, clusterCount: 3 },
+        { projectId: undefined, projectName: 'Unassigned', totalCents: 500, clusterCount: 1 },
+      ]);
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should export one row per project, cluster and tag value', async () => {
+      const csv = service.toCsv(await service.getReport(ORG_ID, START, END, ['team']));
+      const lines = csv.split('\n');
+
+      expect(lines[0]).toBe('Dimension,Tag Key,ID,Name,Amount (cents),Amount');
+      expect(lines).toContain('"untagged","","","Untagged","1000","€10.00"');
+      expect(lines).toContain('"tag","team","","platform","7000","€70.00"');
+      expect(lines).toContain('"tag","team","","(untagged)","1000","€10.00"');
+      expect(lines).toContain(`"cluster","","${GONE}","old-cluster (deleted)","300","€3.00"`);
+    });
+
+    it('should keep names and tag values that look like formulas as text', async () => {
+      mockClusterModel.find.mockReturnValue(query([{ _id: API, name: '@SUM(A1)', projectId: PROJECT_ID }]));
+      mockClusterSettingsModel.find.mockReturnValue(query([
+        { clusterId: API, tags: new Map([['team', '=HYPERLINK("https://evil.example")']]) },
+      ]));
+
+      const lines = service.toCsv(await service.getReport(ORG_ID, START, END, ['team'])).split('\n');
+
+      expect(lines).toContain(`"cluster","","${API}","'@SUM(A1)","7000","€70.00"`);
+      expect(lines).toContain('"tag","team","","\'=HYPERLINK(""https://evil.example"")","7000","€70.00"');
+    });
+  });
+
+  describe('resolveRange', () => {
+    it('should default to the current month so far', () => {
+      const now = new Date(2026, 2, 20, 12);
+
+      expect(service.resolveRange(undefined, undefined, now)).toEqual({ startDate: START, endDate: now });
+    });
+
+    it('should include the whole end day for date-only input', () => {
+      const { endDate } = service.resolveRange('2026-03-01', '2026-03-31');
+
+      expect(endDate.toISOString()).toBe('2026-03-31T23:59:59.999Z');
+    });
+
+    it('should reject invalid or inverted ranges', () => {
+      expect(() => service.resolveRange('not-a-date')).toThrow(BadRequestException);
+      expect(() => service.resolveRange('2026-03-31', '2026-03-01')).toThrow(BadRequestException);
+    });
+  });
+});
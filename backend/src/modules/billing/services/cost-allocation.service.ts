@@ -0,0 +1,267 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { UsageRecord, UsageRecordDocument } from '../schemas/usage-record.schema';
+import { Cluster, ClusterDocument } from '../../clusters/schemas/cluster.schema';
+import { ClusterSettings, ClusterSettingsDocument } from '../../cluster-settings/schemas/cluster-settings.schema';
+import { Project, ProjectDocument } from '../../projects/schemas/project.schema';
+import { PricingService } from './pricing.service';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+// Spreadsheets evaluate cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+/** Quote a CSV cell; user-controlled text that looks like a formula is kept as text */
+function csvCell(value: string | number): string {
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+export interface CostAllocationCluster {
+  clusterId: string;
+  clusterName: string;
+  projectId?: string;
+  projectName?: string;
+  deleted: boolean;
+  tags: Record<string, string>;
+  totalCents: number;
+  byUsageType: { usageType: string; quantity: number; totalCents: number }[];
+}
+
+export interface CostAllocationTag {
+  tagKey: string;
+  values: { value: string; totalCents: number; clusterCount: number }[];
+  untaggedCents: number;
+}
+
+export interface CostAllocationReport {
+  orgId: string;
+  startDate: Date;
+  endDate: Date;
+  totalCents: number;
+  /** Spend on clusters without any tag, plus usage not tied to a cluster */
+  untaggedCents: number;
+  /** Usage not tied to a cluster, e.g. org-level backup storage */
+  unattributedCents: number;
+  byProject: { projectId?: string; projectName: string; totalCents: number; clusterCount: number }[];
+  byCluster: CostAllocationCluster[];
+  byTag: CostAllocationTag[];
+}
+
+/**
+ * Showback: breaks usage costs down by project, cluster and cluster tag.
+ * Tags and projects are taken as they are now, not as they were when the
+ * usage was recorded.
+ */
+@Injectable()
+export class CostAllocationService {
+  constructor(
+    @InjectModel(UsageRecord.name) private usageRecordModel: Model<UsageRecordDocument>,
+    @InjectModel(Cluster.name) private clusterModel: Model<ClusterDocument>,
+    @InjectModel(ClusterSettings.name) private clusterSettingsModel: Model<ClusterSettingsDocument>,
+    @InjectModel(Project.name) private projectModel: Model<ProjectDocument>,
+    private readonly pricingService: PricingService,
+  ) {}
+
+  /** Defaults to the current month so far; a date-only end date includes that whole day */
+  resolveRange(startDate?: string, endDate?: string, now: Date = new Date()): { startDate: Date; endDate: Date } {
+    const start = startDate ? new Date(startDate) : new Date(now.getFullYear(), now.getMonth(), 1);
+    const end = endDate ? new Date(endDate) : now;
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      throw new BadRequestException({ code: 'VALIDATION_ERROR', message: 'startDate and endDate must be ISO dates' });
+    }
+    if (endDate && DATE_ONLY.test(endDate)) {
+      end.setUTCHours(23, 59, 59, 999);
+    }
+    if (start > end) {
+      throw new BadRequestException({ code: 'VALIDATION_ERROR', message: 'startDate must be before endDate' });
+    }
+
+    return { startDate: start, endDate: end };
+  }
+
+  async getReport(
+    orgId: string,
+    startDate: Date,
+    endDate: Date,
+    tagKeys?: string[],
+  ): Promise<CostAllocationReport> {
+    const rows: {
+      _id: { clusterId?: Types.ObjectId; usageType: string };
+      quantity: number;
+      totalCents: number;
+      clusterName?: string;
+    }[] = await this.usageRecordModel.aggregate([
+      {
+        $match: {
+          orgId: new Types.ObjectId(orgId),
+          // Narrows to the monthly periods in range so the period index is used
+          billingPeriodStart: { $gte: new Date(startDate.getFullYear(), startDate.getMonth(), 1), $lte: endDate },
+          createdAt: { $gte: startDate, $lte: endDate },
+        },
+      },
+      {
+        $group: {
+          _id: { clusterId: '$clusterId', usageType: '$usageType' },
+          quantity: { $sum: '$quantity' },
+          totalCents: { $sum: '$totalCents' },
+          clusterName: { $last: '$metadata.clusterName' },
+        },
+      },
+    ]).exec();
+
+    const clusterIds = [...new Set(rows.filter(r => r._id.clusterId).map(r => r._id.clusterId!.toString()))]
+      .map(id => new Types.ObjectId(id));
+
+    const [clusters, settings] = await Promise.all([
+      this.clusterModel.find({ _id: { $in: clusterIds } }).select('name projectId').exec(),
+      this.clusterSettingsModel.find({ clusterId: { $in: clusterIds } }).select('clusterId tags').exec(),
+    ]);
+    const projectIds = [...new Set(clusters.map(c => c.projectId.toString()))];
+    const projects = await this.projectModel.find({ _id: { $in: projectIds } }).select('name').exec();
+
+    const clusterById = new Map(clusters.map(c => [c._id.toString(), c]));
+    const tagsByCluster = new Map(settings.map(s => [s.clusterId.toString(), Object.fromEntries(s.tags || new Map())]));
+    const projectNames = new Map(projects.map(p => [p._id.toString(), p.name]));
+
+    const byCluster = new Map<string, CostAllocationCluster>();
+    let totalCents = 0;
+    let unattributedCents = 0;
+
+    for (const row of rows) {
+      totalCents += row.totalCents;
+
+      if (!row._id.clusterId) {
+        unattributedCents += row.totalCents;
+        continue;
+      }
+
+      const clusterId = row._id.clusterId.toString();
+      let entry = byCluster.get(clusterId);
+      if (!entry) {
+        const cluster = clusterById.get(clusterId);
+        const projectId = cluster?.projectId.toString();
+        entry = {
+          clusterId,
+          clusterName: cluster?.name || row.clusterName || 'Unknown',
+          projectId,
+          projectName: projectId ? projectNames.get(projectId) : undefined,
+          deleted: !cluster,
+          tags: tagsByCluster.get(clusterId) || {},
+          totalCents: 0,
+          byUsageType: [],
+        };
+        byCluster.set(clusterId, entry);
+      }
+
+      entry.totalCents += row.totalCents;
+      entry.byUsageType.push({ usageType: row._id.usageType, quantity: row.quantity, totalCents: row.totalCents });
+    }
+
+    const clusterList = Array.from(byCluster.values()).sort((a, b) => b.totalCents - a.totalCents);
+
+    return {
+      orgId,
+      startDate,
+      endDate,
+      totalCents,
+      untaggedCents: unattributedCents + clusterList
+        .filter(c => Object.keys(c.tags).length === 0)
+        .reduce((sum, c) => sum + c.totalCents, 0),
+      unattributedCents,
+      byProject: this.groupByProject(clusterList, unattributedCents),
+      byCluster: clusterList,
+      byTag: this.groupByTag(clusterList, unattributedCents, tagKeys),
+    };
+  }
+
+  toCsv(report: CostAllocationReport): string {
+    const format = (cents: number) => this.pricingService.formatAmount(cents);
+    const headers = ['Dimension', 'Tag Key', 'ID', 'Name', 'Amount (cents)', 'Amount'];
+    const rows: (string | number)[][] = [
+      ['total', '', '', 'Total', report.totalCents, format(report.totalCents)],
+      ['untagged', '', '', 'Untagged', report.untaggedCents, format(report.untaggedCents)],
+      ...report.byProject.map(p => ['project', '', p.projectId || '', p.projectName, p.totalCents, format(p.totalCents)]),
+      ...report.byCluster.map(c => [
+        'cluster', '', c.clusterId, c.deleted ? `${c.clusterName} (deleted)` : c.clusterName, c.totalCents, format(c.totalCents),
+      ]),
+    ];
+
+    for (const tag of report.byTag) {
+      for (const value of tag.values) {
+        rows.push(['tag', tag.tagKey, '', value.value, value.totalCents, format(value.totalCents)]);
+      }
+      rows.push(['tag', tag.tagKey, '', '(untagged)', tag.untaggedCents, format(tag.untaggedCents)]);
+    }
+
+    return [
+      headers.join(','),
+      ...rows.map(row => row.map(csvCell).join(',')),
+    ].join('\n');
+  }
+
+  // ==================== Helpers ====================
+
+  private groupByProject(
+    clusters: CostAllocationCluster[],
+    unattributedCents: number,
+  ): CostAllocationReport['byProject'] {
+    const byProject = new Map<string, CostAllocationReport['byProject'][number]>();
+
+    for (const cluster of clusters) {
+      const key = cluster.projectId || 'unassigned';
+      const entry = byProject.get(key) || {
+        projectId: cluster.projectId,
+        projectName: cluster.projectName || 'Unassigned',
+        totalCents: 0,
+        clusterCount: 0,
+      };
+      entry.totalCents += cluster.totalCents;
+      entry.clusterCount++;
+      byProject.set(key, entry);
+    }
+
+    if (unattributedCents > 0) {
+      const entry = byProject.get('unassigned') || { projectName: 'Unassigned', totalCents: 0, clusterCount: 0 };
+      entry.totalCents += unattributedCents;
+      byProject.set('unassigned', entry);
+    }
+
+    return Array.from(byProject.values()).sort((a, b) => b.totalCents - a.totalCents);
+  }
+
+  /** Without explicit keys every tag key found on a cluster in the report is broken down */
+  private groupByTag(
+    clusters: CostAllocationCluster[],
+    unattributedCents: number,
+    tagKeys?: string[],
+  ): CostAllocationTag[] {
+    const keys = tagKeys && tagKeys.length > 0
+      ? tagKeys
+      : [...new Set(clusters.flatMap(c => Object.keys(c.tags)))].sort();
+
+    return keys.map(tagKey => {
+      const values = new Map<string, { value: string; totalCents: number; clusterCount: number }>();
+      let untaggedCents = unattributedCents;
+
+      for (const cluster of clusters) {
+        const value = cluster.tags[tagKey];
+        if (value === undefined) {
+          untaggedCents += cluster.totalCents;
+          continue;
+        }
+        const entry = values.get(value) || { value, totalCents: 0, clusterCount: 0 };
+        entry.totalCents += cluster.totalCents;
+        entry.clusterCount++;
+        values.set(value, entry);
+      }
+
+      return {
+        tagKey,
+        values: Array.from(values.values()).sort((a, b) => b.totalCents - a.totalCents),
+        untaggedCents,
+      };
+    });
+  }
+}
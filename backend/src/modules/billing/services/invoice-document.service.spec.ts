@@ -0,0 +1,177 @@
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { inflateSync } from 'zlib';
+import { InvoiceDocumentService } from './invoice-document.service';
+
+describe('InvoiceDocumentService', () => {
+  let service: InvoiceDocumentService;
+  let config: Record<string, string>;
+
+  const invoice = (overrides: any = {}, billingDetails: any = {}): any => ({
+    orgId: new Types.ObjectId(),
+    invoiceNumber: 'INV-2026-0042',
+    status: 'open',
+    billingPeriodStart: new Date(2026, 1, 1),
+    billingPeriodEnd: new Date(2026, 1, 28),
+    issuedAt: new Date(2026, 2, 1),
+    dueDate: new Date(2026, 2, 15),
+    currency: 'EUR',
+    lineItems: [
+      { description: 'M10 cluster', quantity: 672, unit: 'hours', unitPriceCents: 5, totalCents: 3360 },
+      { description: 'Backup storage', quantity: 20, unit: 'GB', unitPriceCents: 10, totalCents: 200 },
+    ],
+    subtotalCents: 3560,
+    discountCents: 0,
+    taxPercent: 0,
+    taxCents: 0,
+    totalCents: 3560,
+    creditAppliedCents: 0,
+    amountDueCents: 3560,
+    billingDetails: {
+      companyName: 'Acme B.V.',
+      email: 'billing@acme.example',
+      vatId: 'NL123456789B01',
+      address: { line1: 'Damrak 1', postalCode: '1012 LG', city: 'Amsterdam', country: 'NL' },
+      ...billingDetails,
+    },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    config = {
+      INVOICE_SELLER_NAME: 'EUTLAS GmbH',
+      INVOICE_SELLER_VAT_ID: 'DE123456789',
+      INVOICE_SELLER_EMAIL: 'billing@eutlas.example',
+      INVOICE_SELLER_PHONE: '+49 30 1234567',
+      INVOICE_SELLER_STREET: 'Musterstraße 1',
+      INVOICE_SELLER_POSTAL_CODE: '10115',
+      INVOICE_SELLER_CITY: 'Berlin',
+      INVOICE_SELLER_COUNTRY: 'DE',
+      INVOICE_SELLER_IBAN: 'DE89370400440532013000',
+    };
+    const mockConfigService: any = { get: jest.fn((key: string) => config[key]) };
+    const mockPricingService: any = {
+      formatAmount: jest.fn((cents: number) => `${(cents / 100).toFixed(2)} €`),
+    };
+
+    service = new InvoiceDocumentService(mockConfigService, mockPricingService);
+  });
+
+  describe('assertIssued', () => {
+    it('should reject drafts', () => {
+      expect(() => service.assertIssued(invoice({ status: 'draft' }))).toThrow(BadRequestException);
+      expect(() => service.assertIssued(invoice())).not.toThrow();
+    });
+  });
+
+  describe('toEInvoice', () => {
+    it('should apply reverse charge for EU business customers in another country', () => {
+      const data = service.toEInvoice(invoice());
+
+      expect(data.vatCategory).toBe('AE');
+      expect(data.vatPercent).toBe(0);
+      expect(data.notes.join(' ')).toContain('Steuerschuldnerschaft des Leistungsempfängers');
+    });
+
+    it('should treat customers outside the EU as not subject to VAT', () => {
+      const data = service.toEInvoice(invoice({}, {
+        vatId: undefined,
+        address: { line1: '1 Main St', postalCode: '10001', city: 'New York', country: 'us' },
+      }));
+
+      expect(data.vatCategory).toBe('O');
+      expect(data.buyer.address.country).toBe('US');
+    });
+
+    it('should use standard rate when tax was charged', () => {
+      const data = service.toEInvoice(invoice({ taxPercent: 19, taxCents: 676 }, {
+        vatId: undefined,
+        address: { postalCode: '10115', city: 'Berlin', country: 'DE' },
+      }));
+
+      expect(data.vatCategory).toBe('S');
+      expect(data.vatPercent).toBe(19);
+      expect(data.notes).toHaveLength(0);
+    });
+
+    it('should follow the tax decision recorded on the invoice', () => {
+      const decision = { treatment: 'outside_eu', taxPercent: 0, sellerCountry: 'DE', customerCountry: 'CH' };
+
+      expect(service.toEInvoice(invoice({ taxDecision: decision })).vatCategory).toBe('O');
+      expect(service.toEInvoice(invoice({ taxDecision: { ...decision, treatment: 'eu_b2c' } })).vatCategory).toBe('Z');
+    });
+
+    it('should use the seller details kept on the invoice', () => {
+      const seller = { ...service.getSeller(), name: 'EUTLAS Old GmbH' };
+      config.INVOICE_SELLER_NAME = 'EUTLAS New GmbH';
+
+      expect(service.toEInvoice(invoice({ seller })).seller.name).toBe('EUTLAS Old GmbH');
+      expect(service.toEInvoice(invoice()).seller.name).toBe('EUTLAS New GmbH');
+    });
+
+    it('should fall back to the org ID as buyer reference', () => {
+      const inv = invoice();
+
+      expect(service.toEInvoice(inv).buyerReference).toBe(inv.orgId.toString());
+      expect(service.toEInvoice(invoice({}, { buyerReference: '991-12345-67' })).buyerReference).toBe('991-12345-67');
+    });
+  });
+
+  describe('renderXRechnung', () => {
+    it('should produce UBL with totals and the reverse charge category', () => {
+      const xml = service.renderXRechnung(invoice());
+
+      expect(xml).toContain('urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0');
+      expect(xml).toContain('<cbc:ID>INV-2026-0042</cbc:ID>');
+      expect(xml).toContain('<cbc:PayableAmount currencyID="EUR">35.60</cbc:PayableAmount>');
+      expect(xml).toContain('<cbc:ID>AE</cbc:ID>');
+      expect(xml).toContain('<cbc:ID>DE89370400440532013000</cbc:ID>');
+    });
+
+    it('should list missing mandatory fields', () => {
+      delete config.INVOICE_SELLER_PHONE;
+
+      expect(() => service.renderXRechnung(invoice({}, { address: { country: 'NL' } })))
+        .toThrow('XRechnung requires: seller phone, billing address postal code, billing address city');
+    });
+  });
+
+  describe('renderFacturX', () => {
+    it('should escape text and total the invoice', () => {
+      const xml = service.renderFacturX(invoice({}, { companyName: 'Käufer & Söhne' }));
+
+      expect(xml).toContain('<ram:Name>Käufer &amp; Söhne</ram:Name>');
+      expect(xml).toContain('<ram:GrandTotalAmount>35.60</ram:GrandTotalAmount>');
+      expect(xml).toContain('<ram:CategoryCode>AE</ram:CategoryCode>');
+    });
+  });
+
+  describe('renderPdf', () => {
+    it('should render a PDF with the Factur-X XML attached', () => {
+      const pdf = service.renderPdf(invoice());
+      const raw = pdf.toString('latin1');
+
+      expect(raw.startsWith('%PDF-1.7')).toBe(true);
+      expect(raw.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(raw).toContain('(factur-x.xml)');
+      expect(raw).toContain('/AFRelationship /Data');
+      expect(raw).toContain('/S /GTS_PDFA1');
+      expect(raw).toContain('<fx:DocumentFileName>factur-x.xml</fx:DocumentFileName>');
+
+      const embedded = raw.match(/\/Type \/EmbeddedFile .*?\/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/);
+      expect(embedded).not.toBeNull();
+      const start = embedded!.index! + embedded![0].length;
+      const xml = inflateSync(pdf.subarray(start, start + Number(embedded![1]))).toString('utf8');
+      expect(xml).toContain('<ram:ID>INV-2026-0042</ram:ID>');
+    });
+
+    it('should start new pages for long invoices', () => {
+      const lineItems = Array.from({ length: 80 }, (_, i) => ({
+        description: `Cluster ${i}`, quantity: 1, unit: 'month', unitPriceCents: 100, totalCents: 100,
+      }));
+      const raw = service.renderPdf(invoice({ lineItems })).toString('latin1');
+
+      expect(raw.match(/\/Type \/Page /g)!.length).toBeGreaterThan(1);
+    });
+  });
+});
@@ -0,0 +1,350 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Invoice } from '../schemas/invoice.schema';
+import { PricingService } from './pricing.service';
+import { PdfDocument, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH } from '../pdf-document';
+import {
+  EInvoiceData,
+  EInvoiceParty,
+  EInvoiceSeller,
+  VatCategory,
+  FACTUR_X_FILENAME,
+  buildFacturXXml,
+  buildFacturXXmp,
+  buildXRechnungXml,
+  eInvoiceTotals,
+  unitCodeFor,
+} from '../e-invoice';
+import { isEuCountry } from '../vat';
+
+const VAT_NOTES: Partial<Record<VatCategory, { reason: string; note: string }>> = {
+  AE: {
+    reason: 'Reverse charge',
+    note: 'Reverse charge: the recipient is liable for VAT (Art. 196 Council Directive 2006/112/EC). ' +
+      'Steuerschuldnerschaft des Leistungsempfängers.',
+  },
+  O: {
+    reason: 'Not subject to VAT in the EU',
+    note: 'Not subject to EU VAT: the place of supply is outside the EU.',
+  },
+};
+
+const MARGIN = 50;
+const FOOTER_HEIGHT = 70;
+
+/**
+ * Renders issued invoices as PDF (with the Factur-X XML embedded) and as
+ * XRechnung or standalone Factur-X XML, so customers who don't pay through
+ * Stripe still get a document.
+ */
+@Injectable()
+export class InvoiceDocumentService {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly pricingService: PricingService,
+  ) {}
+
+  /** Drafts can still change and have no invoice date, so they have no document */
+  assertIssued(invoice: Invoice): void {
+    if (invoice.status === 'draft') {
+      throw new BadRequestException({
+        code: 'INVOICE_NOT_ISSUED',
+        message: 'Finalize the invoice before downloading it',
+      });
+    }
+  }
+
+  getSeller(): EInvoiceSeller {
+    const get = (key: string) => this.configService.get<string>(`INVOICE_SELLER_${key}`) || undefined;
+    return {
+      name: get('NAME') || 'EUTLAS',
+      vatId: get('VAT_ID'),
+      email: get('EMAIL'),
+      phone: get('PHONE'),
+      registration: get('REGISTRATION'),
+      iban: get('IBAN'),
+      bic: get('BIC'),
+      address: {
+        line1: get('STREET'),
+        postalCode: get('POSTAL_CODE'),
+        city: get('CITY'),
+        country: get('COUNTRY') || 'DE',
+      },
+    };
+  }
+
+  toEInvoice(invoice: Invoice): EInvoiceData {
+    // Invoices issued before the seller was kept on them use the current configuration
+    const seller = invoice.seller || this.getSeller();
+    const details = invoice.billingDetails;
+    const buyer: EInvoiceParty = {
+      name: details.companyName || details.name || details.email,
+      vatId: details.vatId,
+      email: details.email,
+      address: {
+        line1: details.address?.line1,
+        line2: details.address?.line2,
+        postalCode: details.address?.postalCode,
+        city: details.address?.city,
+        country: (details.address?.country || seller.address.country).toUpperCase(),
+      },
+    };
+
+    const vatCategory = this.vatCategoryFor(invoice, seller, buyer);
+    const vatNote = VAT_NOTES[vatCategory];
+    const dueDate = invoice.dueDate || invoice.billingPeriodEnd;
+
+    return {
+      number: invoice.invoiceNumber,
+      issueDate: invoice.issuedAt || invoice.createdAt,
+      dueDate,
+      periodStart: invoice.billingPeriodStart,
+      periodEnd: invoice.billingPeriodEnd,
+      currency: invoice.currency,
+      seller,
+      buyer,
+      buyerReference: details.buyerReference || invoice.orgId.toString(),
+      lines: invoice.lineItems.map(item => ({
+        name: item.description,
+        quantity: item.quantity,
+        unitCode: unitCodeFor(item.unit),
+        netAmountCents: item.totalCents,
+      })),
+      allowanceCents: invoice.discountCents || 0,
+      allowanceReason: invoice.discountDescription,
+      vatCategory,
+      vatPercent: vatCategory === 'S' ? invoice.taxPercent : 0,
+      vatExemptionReason: vatNote?.reason,
+      taxCents: invoice.taxCents,
+      prepaidCents: invoice.creditAppliedCents || 0,
+      paymentTerms: `Payable by ${dueDate.toLocaleDateString('de-DE')} without deduction.`,
+      notes: [vatNote?.note, invoice.notes].filter((note): note is string => !!note),
+    };
+  }
+
+  renderFacturX(invoice: Invoice): string {
+    return buildFacturXXml(this.toEInvoice(invoice));
+  }
+
+  /** German public-sector portals reject XRechnung without these fields */
+  renderXRechnung(invoice: Invoice): string {
+    const data = this.toEInvoice(invoice);
+
+    const missing = [
+      !data.seller.address.line1 && 'seller street',
+      !data.seller.address.postalCode && 'seller postal code',
+      !data.seller.address.city && 'seller city',
+      !data.seller.email && 'seller email',
+      !data.seller.phone && 'seller phone',
+      data.vatCategory !== 'O' && !data.seller.vatId && 'seller VAT ID',
+      !data.buyer.address.postalCode && 'billing address postal code',
+      !data.buyer.address.city && 'billing address city',
+    ].filter(Boolean);
+
+    if (missing.length > 0) {
+      throw new BadRequestException({
+        code: 'VALIDATION_ERROR',
+        message: `XRechnung requires: ${missing.join(', ')}`,
+      });
+    }
+
+    return buildXRechnungXml(data);
+  }
+
+  renderPdf(invoice: Invoice): Buffer {
+    const data = this.toEInvoice(invoice);
+    const totals = eInvoiceTotals(data);
+    const money = (cents: number) => this.pricingService.formatAmount(cents, data.currency);
+    const date = (value: Date) => value.toLocaleDateString('de-DE');
+
+    const doc = new PdfDocument({
+      title: `Invoice ${data.number}`,
+      author: data.seller.name,
+      subject: `Invoice for ${date(data.periodStart)} - ${date(data.periodEnd)}`,
+      createdAt: data.issueDate,
+    });
+    const left = MARGIN;
+    const right = PDF_PAGE_WIDTH - MARGIN;
+    const top = PDF_PAGE_HEIGHT - 60;
+
+    // Header: seller and title
+    doc.text(left, top, data.seller.name, { font: 'bold', size: 16 });
+    doc.text(right, top, 'Invoice', { font: 'bold', size: 20, align: 'right' });
+    let y = top - 16;
+    for (const line of this.addressLines(data.seller)) {
+      doc.text(left, y, line, { size: 9, gray: 0.4 });
+      y -= 12;
+    }
+
+    // Buyer block on the left, invoice details on the right
+    let buyerY = top - 110;
+    doc.text(left, buyerY, 'Bill to', { font: 'bold', size: 9, gray: 0.4 });
+    buyerY -= 14;
+    doc.text(left, buyerY, data.buyer.name, { font: 'bold' });
+    buyerY -= 13;
+    const buyerLines = [
+      ...(invoice.billingDetails.companyName && invoice.billingDetails.name ? [invoice.billingDetails.name] : []),
+      ...this.addressLines(data.buyer),
+      ...(data.buyer.vatId ? [`VAT ID: ${data.buyer.vatId}`] : []),
+    ];
+    for (const line of buyerLines) {
+      doc.text(left, buyerY, line);
+      buyerY -= 13;
+    }
+
+    let metaY = top - 110;
+    const meta: [string, string][] = [
+      ['Invoice number', data.number],
+      ['Invoice date', date(data.issueDate)],
+      ['Service period', `${date(data.periodStart)} - ${date(data.periodEnd)}`],
+      ['Due date', date(data.dueDate)],
+      ...(invoice.billingDetails.buyerReference ? [['Buyer reference', data.buyerReference] as [string, string]] : []),
+    ];
+    for (const [label, value] of meta) {
+      doc.text(right - 210, metaY, label, { size: 9, gray: 0.4 });
+      doc.text(right, metaY, value, { size: 9, align: 'right' });
+      metaY -= 14;
+    }
+
+    y = Math.min(buyerY, metaY) - 24;
+
+    // Line items
+    const columns = { quantity: 370, unitPrice: 455, amount: right };
+    const descriptionWidth = columns.quantity - left - 70;
+    const tableHeader = () => {
+      doc.text(left, y, 'Description', { font: 'bold', size: 9 });
+      doc.text(columns.quantity, y, 'Quantity', { font: 'bold', size: 9, align: 'right' });
+      doc.text(columns.unitPrice, y, 'Unit price', { font: 'bold', size: 9, align: 'right' });
+      doc.text(columns.amount, y, 'Amount', { font: 'bold', size: 9, align: 'right' });
+      y -= 6;
+      doc.line(left, y, right, y);
+      y -= 14;
+    };
+    const ensureSpace = (height: number, withHeader: boolean) => {
+      if (y - height >= MARGIN + FOOTER_HEIGHT) return;
+      doc.addPage();
+      y = top;
+      if (withHeader) tableHeader();
+    };
+
+    tableHeader();
+    invoice.lineItems.forEach(item => {
+      const description = doc.wrap(item.description, descriptionWidth, 'regular', 9);
+      ensureSpace(description.length * 12 + 4, true);
+
+      doc.text(columns.quantity, y, `${Number(item.quantity.toFixed(4)).toLocaleString('de-DE')} ${item.unit}`, { size: 9, align: 'right' });
+      doc.text(columns.unitPrice, y, money(item.unitPriceCents), { size: 9, align: 'right' });
+      doc.text(columns.amount, y, money(item.totalCents), { size: 9, align: 'right' });
+      for (const line of description) {
+        doc.text(left, y, line, { size: 9 });
+        y -= 12;
+      }
+      y -= 4;
+    });
+
+    // Totals
+    const totalRows: [string, string, boolean][] = [['Subtotal', money(totals.lineTotalCents), false]];
+    if (data.allowanceCents > 0) {
+      totalRows.push([data.allowanceReason || 'Discount', `-${money(data.allowanceCents)}`, false]);
+      totalRows.push(['Net amount', money(totals.taxBasisCents), false]);
+    }
+    totalRows.push([
+      data.vatCategory === 'S' ? `VAT ${data.vatPercent}%` : `VAT 0% (${data.vatExemptionReason || 'zero rated'})`,
+      money(data.taxCents),
+      false,
+    ]);
+    totalRows.push(['Total', money(totals.grandTotalCents), true]);
+    if (data.prepaidCents > 0) {
+      totalRows.push(['Paid from credit balance', `-${money(data.prepaidCents)}`, false]);
+      totalRows.push(['Amount due', money(totals.dueCents), true]);
+    }
+
+    ensureSpace(totalRows.length * 15 + 10, false);
+    y -= 4;
+    doc.line(right - 230, y + 10, right, y + 10);
+    for (const [label, value, bold] of totalRows) {
+      const font = bold ? 'bold' : 'regular';
+      doc.text(right - 230, y, label, { font, size: 9 });
+      doc.text(right, y, value, { font, size: 9, align: 'right' });
+      y -= 15;
+    }
+
+    // Payment status and legal notes
+    const notes = [...this.paymentNotes(invoice, data, money(totals.dueCents)), ...data.notes];
+    y -= 10;
+    for (const note of notes) {
+      const lines = doc.wrap(note, right - left, 'regular', 9);
+      ensureSpace(lines.length * 12 + 6, false);
+      for (const line of lines) {
+        doc.text(left, y, line, { size: 9 });
+        y -= 12;
+      }
+      y -= 6;
+    }
+
+    // Footer on every page, now that the page count is known
+    const footer = [
+      data.seller.name,
+      data.seller.registration,
+      data.seller.vatId && `VAT ID ${data.seller.vatId}`,
+      data.seller.email,
+    ].filter(Boolean).join(' · ');
+    for (let page = 0; page < doc.pageCount; page++) {
+      doc.goToPage(page);
+      doc.line(left, MARGIN + 14, right, MARGIN + 14, 0.5, 0.7);
+      doc.text(left, MARGIN, footer, { size: 7, gray: 0.4 });
+      doc.text(right, MARGIN, `Page ${page + 1} of ${doc.pageCount}`, { size: 7, gray: 0.4, align: 'right' });
+    }
+
+    buildFacturXXmp().forEach(description => doc.addXmpDescription(description));
+    doc.attach({
+      filename: FACTUR_X_FILENAME,
+      mimeType: 'text/xml',
+      description: 'Factur-X/ZUGFeRD invoice',
+      relationship: 'Data',
+      content: Buffer.from(buildFacturXXml(data), 'utf8'),
+      modifiedAt: data.issueDate,
+    });
+
+    return doc.toBuffer();
+  }
+
+  // ==================== Helpers ====================
+
+  /** Invoices from before the tax engine carry no decision and are classified from the address */
+  private vatCategoryFor(invoice: Invoice, seller: EInvoiceSeller, buyer: EInvoiceParty): VatCategory {
+    if (invoice.taxPercent > 0) return 'S';
+    if (invoice.taxDecision?.treatment === 'reverse_charge') return 'AE';
+    if (invoice.taxDecision?.treatment === 'outside_eu') return 'O';
+    if (invoice.taxDecision) return 'Z';
+    if (!isEuCountry(buyer.address.country)) return 'O';
+    if (buyer.vatId && buyer.address.country !== seller.address.country) return 'AE';
+    return 'Z';
+  }
+
+  private addressLines(party: EInvoiceParty): string[] {
+    const { line1, line2, postalCode, city, country } = party.address;
+    return [
+      line1,
+      line2,
+      [postalCode, city].filter(Boolean).join(' '),
+      country,
+    ].filter((line): line is string => !!line);
+  }
+
+  private paymentNotes(invoice: Invoice, data: EInvoiceData, due: string): string[] {
+    if (invoice.status === 'void') {
+      return [`This invoice has been voided${invoice.voidReason ? `: ${invoice.voidReason}` : '.'}`];
+    }
+    if (invoice.status === 'paid') {
+      return [`Paid${invoice.paidAt ? ` on ${invoice.paidAt.toLocaleDateString('de-DE')}` : ''}. Thank you.`];
+    }
+    if (!data.seller.iban) {
+      return [`Please pay ${due} by ${data.dueDate.toLocaleDateString('de-DE')}, quoting ${data.number}.`];
+    }
+    return [
+      `Please transfer ${due} by ${data.dueDate.toLocaleDateString('de-DE')} to IBAN ${data.seller.iban}` +
+        `${data.seller.bic ? ` (BIC ${data.seller.bic})` : ''}, quoting ${data.number} as the reference.`,
+    ];
+  }
+}
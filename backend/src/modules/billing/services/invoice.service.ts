@@ -8,8 +8,11 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Invoice, InvoiceDocument, InvoiceLineItem, InvoiceStatus } from '../schemas/invoice.schema';
 import { BillingAccount, BillingAccountDocument } from '../schemas/billing-account.schema';
+import { InvoiceSequence, InvoiceSequenceDocument } from '../schemas/invoice-sequence.schema';
 import { UsageService } from './usage.service';
 import { PricingService } from './pricing.service';
+import { TaxService } from './tax.service';
+import { InvoiceDocumentService } from './invoice-document.service';
 import { Cluster, ClusterDocument } from '../../clusters/schemas/cluster.schema';
 
 @Injectable()
@@ -20,8 +23,11 @@ export class InvoiceService {
     @InjectModel(Invoice.name) private invoiceModel: Model<InvoiceDocument>,
     @InjectModel(BillingAccount.name) private billingAccountModel: Model<BillingAccountDocument>,
     @InjectModel(Cluster.name) private clusterModel: Model<ClusterDocument>,
+    @InjectModel(InvoiceSequence.name) private invoiceSequenceModel: Model<InvoiceSequenceDocument>,
     private readonly usageService: UsageService,
     private readonly pricingService: PricingService,
+    private readonly taxService: TaxService,
+    private readonly invoiceDocumentService: InvoiceDocumentService,
   ) {}
 
   // ==================== Invoice Generation ====================
@@ -30,7 +36,7 @@ export class InvoiceService {
     orgId: string,
     billingPeriodStart: Date,
     billingPeriodEnd: Date,
-    options?: { notes?: string },
+    options?: { notes?: string; planMonths?: number },
   ): Promise<Invoice> {
     // Get billing account
     const billingAccount = await this.billingAccountModel.findOne({ orgId: new Types.ObjectId(orgId) }).exec();
@@ -59,7 +65,8 @@ export class InvoiceService {
     // Build line items
     const lineItems: InvoiceLineItem[] = [];
 
-    // 1. Add plan charges for each cluster
+    // 1. Add plan charges for each cluster (annual periods bill 12 months at once)
+    const planMonths = options?.planMonths ?? 1;
     for (const cluster of clusters) {
       const planPrice = await this.pricingService.getPlanPrice(cluster.plan);
       if (planPrice) {
@@ -67,11 +74,11 @@ export class InvoiceService {
         const clusterStart = cluster.createdAt > billingPeriodStart ? cluster.createdAt : billingPeriodStart;
         const daysInPeriod = this.daysBetween(billingPeriodStart, billingPeriodEnd);
         const daysActive = this.daysBetween(clusterStart, billingPeriodEnd);
-        const proRatedAmount = Math.round((planPrice.unitAmountCents || 0) * (daysActive / daysInPeriod));
+        const proRatedAmount = Math.round((planPrice.unitAmountCents || 0) * planMonths * (daysActive / daysInPeriod));
 
         lineItems.push({
           description: `${planPrice.name} - ${cluster.name}`,
-          quantity: 1,
+          quantity: planMonths,
           unit: 'month',
           unitPriceCents: planPrice.unitAmountCents || 0,
           totalCents: proRatedAmount,
@@ -128,9 +135,23 @@ export class InvoiceService {
       }
     }
 
+    // Decide tax on the customer's current country and VAT status
+    const vatValidation = await this.taxService.refreshVatValidation(billingAccount.vatId, billingAccount.vatValidation);
+    const taxDecision = this.taxService.decide({
+      country: billingAccount.address?.country,
+      vatId: billingAccount.vatId,
+      vatValidation,
+    });
+    if (vatValidation !== billingAccount.vatValidation || taxDecision.taxPercent !== billingAccount.taxPercent) {
+      await this.billingAccountModel.updateOne(
+        { _id: billingAccount._id },
+        { $set: { vatValidation, taxPercent: taxDecision.taxPercent } },
+      ).exec();
+    }
+
     // Calculate totals
     const subtotalCents = lineItems.reduce((sum, item) => sum + item.totalCents, 0);
-    const taxCents = Math.round(subtotalCents * (billingAccount.taxPercent / 100));
+    const taxCents = Math.round(subtotalCents * (taxDecision.taxPercent / 100));
     const totalCents = subtotalCents + taxCents;
 
     // Create invoice
@@ -147,7 +168,8 @@ export class InvoiceService {
       billingPeriodEnd,
       lineItems,
       subtotalCents,
-      taxPercent: billingAccount.taxPercent,
+      taxPercent: taxDecision.taxPercent,
+      taxDecision,
       taxCents,
       totalCents,
       dueDate,
@@ -157,6 +179,7 @@ export class InvoiceService {
         email: billingAccount.billingEmail,
         address: billingAccount.address,
         vatId: billingAccount.vatId,
+        buyerReference: billingAccount.buyerReference,
       },
       notes: options?.notes,
     });
@@ -191,6 +214,15 @@ export class InvoiceService {
     return this.invoiceModel.findOne({ invoiceNumber }).exec();
   }
 
+  async findForPeriod(orgId: string, billingPeriodStart: Date, billingPeriodEnd: Date): Promise<Invoice | null> {
+    return this.invoiceModel.findOne({
+      orgId,
+      billingPeriodStart,
+      billingPeriodEnd,
+      status: { $ne: 'void' },
+    }).exec();
+  }
+
   async getInvoiceStats(orgId: string): Promise<{
     totalPaid: number;
     totalOpen: number;
@@ -239,6 +271,8 @@ export class InvoiceService {
     }
 
     invoice.status = 'open';
+    invoice.issuedAt = new Date();
+    invoice.seller = this.invoiceDocumentService.getSeller();
     await invoice.save();
 
     this.logger.log(`Finalized invoice ${invoice.invoiceNumber}`);
@@ -318,30 +352,81 @@ export class InvoiceService {
 
     invoice.discountCents = discountCents;
     invoice.discountDescription = description;
-    invoice.totalCents = invoice.subtotalCents - discountCents + invoice.taxCents;
+    this.recalculateTotals(invoice);
 
     await invoice.save();
     return invoice;
   }
 
+  async applyCredit(invoiceId: string, creditCents: number): Promise<Invoice> {
+    const invoice = await this.invoiceModel.findById(invoiceId).exec();
+    if (!invoice) {
+      throw new NotFoundException('Invoice not found');
+    }
+
+    if (invoice.status !== 'draft') {
+      throw new BadRequestException('Credit can only be applied to draft invoices');
+    }
+
+    invoice.creditAppliedCents = creditCents;
+    this.recalculateTotals(invoice);
+
+    await invoice.save();
+    return invoice;
+  }
+
+  async setStripeInvoice(
+    invoiceId: string,
+    stripeInvoiceId: string,
+    urls?: { hostedUrl?: string; pdfUrl?: string },
+  ): Promise<void> {
+    await this.invoiceModel.findByIdAndUpdate(invoiceId, {
+      $set: {
+        stripeInvoiceId,
+        ...(urls?.hostedUrl && { stripeHostedInvoiceUrl: urls.hostedUrl }),
+        ...(urls?.pdfUrl && { stripePdfUrl: urls.pdfUrl }),
+      },
+    }).exec();
+  }
+
   // ==================== Helpers ====================
 
+  /** Numbers come from a per-year counter so concurrent runs never share one */
   private async generateInvoiceNumber(): Promise<string> {
     const year = new Date().getFullYear();
     const prefix = `INV-${year}-`;
-    
-    const lastInvoice = await this.invoiceModel
-      .findOne({ invoiceNumber: { $regex: `^${prefix}` } })
-      .sort({ invoiceNumber: -1 })
-      .exec();
 
-    let nextNumber = 1;
-    if (lastInvoice) {
-      const lastNumber = parseInt(lastInvoice.invoiceNumber.replace(prefix, ''), 10);
-      nextNumber = lastNumber + 1;
+    if (!(await this.invoiceSequenceModel.exists({ year }))) {
+      // Continue after invoices numbered before the counter existed
+      const existing = await this.invoiceModel
+        .find({ invoiceNumber: { $regex: `^${prefix}` } })
+        .select('invoiceNumber')
+        .exec();
+      const lastNumber = existing.reduce(
+        (max, invoice) => Math.max(max, parseInt(invoice.invoiceNumber.replace(prefix, ''), 10) || 0),
+        0,
+      );
+
+      try {
+        await this.invoiceSequenceModel.create({ year, lastNumber });
+      } catch (error: any) {
+        // Another run seeded the counter first
+        if (error.code !== 11000) throw error;
+      }
     }
 
-    return `${prefix}${nextNumber.toString().padStart(4, '0')}`;
+    const sequence = await this.invoiceSequenceModel
+      .findOneAndUpdate({ year }, { $inc: { lastNumber: 1 } }, { new: true })
+      .exec();
+
+    return `${prefix}${sequence!.lastNumber.toString().padStart(4, '0')}`;
+  }
+
+  /** Tax is charged on the discounted amount; credits pay down the total */
+  private recalculateTotals(invoice: InvoiceDocument): void {
+    const taxableCents = invoice.subtotalCents - (invoice.discountCents || 0);
+    invoice.taxCents = Math.round(taxableCents * (invoice.taxPercent / 100));
+    invoice.totalCents = taxableCents + invoice.taxCents - (invoice.creditAppliedCents || 0);
   }
 
   private daysBetween(start: Date, end: Date): number {
@@ -249,31 +249,52 @@ export class StripeService implements OnModuleInit {
 
   // ==================== Invoices ====================
 
-  async createInvoice(customerId: string, items: { description: string; amount: number }[]): Promise<string | null> {
+  /**
+   * Create a draft Stripe invoice. With an idempotency key, a retry after a
+   * crash returns the invoice created before instead of a second one.
+   */
+  async createInvoice(
+    customerId: string,
+    items: { description: string; amount: number }[],
+    options?: { idempotencyKey?: string; currency?: string; metadata?: Record<string, string> },
+  ): Promise<string | null> {
     if (!this.stripe) {
       this.logger.warn('Stripe not configured - skipping createInvoice');
       return null;
     }
 
+    const key = options?.idempotencyKey;
+    const currency = (options?.currency || 'eur').toLowerCase();
+
     try {
-      // Create invoice items
-      for (const item of items) {
-        await this.stripe.invoiceItems.create({
+      // Create the invoice first and attach the items to it, so pending items
+      // of the customer are not swept in
+      const invoice = await this.stripe.invoices.create(
+        {
           customer: customerId,
-          amount: item.amount,
-          currency: 'eur',
-          description: item.description,
-        });
+          currency,
+          auto_advance: true,
+          pending_invoice_items_behavior: 'exclude',
+          metadata: options?.metadata,
+        },
+        key ? { idempotencyKey: `${key}-invoice` } : undefined,
+      );
+
+      for (const [index, item] of items.entries()) {
+        await this.stripe.invoiceItems.create(
+          {
+            customer: customerId,
+            invoice: invoice.id,
+            amount: item.amount,
+            currency,
+            description: item.description,
+          },
+          key ? { idempotencyKey: `${key}-item-${index}` } : undefined,
+        );
       }
 
-      // Create the invoice
-      const invoice = await this.stripe.invoices.create({
-        customer: customerId,
-        auto_advance: true,
-      });
-
       this.logger.log(`Created Stripe invoice ${invoice.id} for customer ${customerId}`);
-      return invoice.id;
+      return invoice.id ?? null;
     } catch (error: any) {
       this.logger.error(`Failed to create Stripe invoice: ${error.message}`);
       throw error;
@@ -0,0 +1,157 @@
+import { BadRequestException } from '@nestjs/common';
+import { TaxService } from './tax.service';
+import { VatIdValidation } from '../schemas/billing-account.schema';
+import { ViesVatIdValidator } from '../vat';
+
+describe('TaxService', () => {
+  let service: TaxService;
+  const NOW = new Date('2026-03-01T00:00:00Z');
+
+  const validation = (vatId: string, status: VatIdValidation['status'], checkedAt = NOW): VatIdValidation => ({
+    vatId,
+    status,
+    source: 'vies',
+    checkedAt,
+    requestIdentifier: status === 'valid' ? 'WAPIAAAAXYZ' : undefined,
+  });
+
+  const createService = (config: Record<string, string>) => {
+    const mockConfigService: any = { get: jest.fn((key: string) => config[key]) };
+    return new TaxService(mockConfigService);
+  };
+
+  beforeEach(() => {
+    service = createService({ INVOICE_SELLER_COUNTRY: 'DE', VAT_VALIDATION_PROVIDER: 'local' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('decide', () => {
+    it('should apply reverse charge for verified EU businesses in another member state', () => {
+      const decision = service.decide({
+        country: 'NL',
+        vatId: 'nl 123456789B01',
+        vatValidation: validation('NL123456789B01', 'valid'),
+      }, NOW);
+
+      expect(decision).toMatchObject({
+        treatment: 'reverse_charge',
+        taxPercent: 0,
+        sellerCountry: 'DE',
+        customerCountry: 'NL',
+        vatId: 'NL123456789B01',
+        decidedAt: NOW,
+      });
+      expect(decision.vatValidation?.requestIdentifier).toBe('WAPIAAAAXYZ');
+    });
+
+    it('should charge domestic VAT to businesses in the seller country', () => {
+      const decision = service.decide({
+        country: 'DE',
+        vatId: 'DE123456789',
+        vatValidation: validation('DE123456789', 'valid'),
+      });
+
+      expect(decision.treatment).toBe('domestic');
+      expect(decision.taxPercent).toBe(19);
+    });
+
+    it('should charge the local rate to EU consumers', () => {
+      expect(service.decide({ country: 'FR' })).toMatchObject({ treatment: 'eu_b2c', taxPercent: 20 });
+      expect(service.decide({ country: 'fi' })).toMatchObject({ treatment: 'eu_b2c', taxPercent: 25.5 });
+    });
+
+    it('should tax businesses whose VAT ID is not verified as consumers', () => {
+      const invalid = service.decide({
+        country: 'AT',
+        vatId: 'ATU12345678',
+        vatValidation: validation('ATU12345678', 'invalid'),
+      });
+      const unavailable = service.decide({
+        country: 'AT',
+        vatId: 'ATU12345678',
+        vatValidation: validation('ATU12345678', 'unavailable'),
+      });
+      const changed = service.decide({
+        country: 'AT',
+        vatId: 'ATU87654321',
+        vatValidation: validation('ATU12345678', 'valid'),
+      });
+
+      for (const decision of [invalid, unavailable, changed]) {
+        expect(decision.treatment).toBe('eu_b2c');
+        expect(decision.taxPercent).toBe(20);
+      }
+      expect(unavailable.reason).toContain('not verified (unavailable)');
+    });
+
+    it('should not charge EU VAT outside the EU', () => {
+      expect(service.decide({ country: 'US' })).toMatchObject({ treatment: 'outside_eu', taxPercent: 0 });
+      expect(service.decide({ country: 'CH' }).customerCountry).toBe('CH');
+    });
+
+    it('should fall back to the VAT ID country, then the seller country', () => {
+      expect(service.decide({ vatId: 'EL123456789' })).toMatchObject({ customerCountry: 'GR', taxPercent: 24 });
+      expect(service.decide({})).toMatchObject({ treatment: 'domestic', customerCountry: 'DE', taxPercent: 19 });
+    });
+  });
+
+  describe('validateVatId', () => {
+    it('should reject malformed VAT IDs', async () => {
+      await expect(service.validateVatId('DE1234')).rejects.toThrow(BadRequestException);
+    });
+
+    it('should check well-formed VAT IDs with the local stand-in when configured', async () => {
+      const result = await service.validateVatId('fr 12 345678901');
+
+      expect(result).toMatchObject({ vatId: 'FR12345678901', status: 'valid', source: 'local' });
+    });
+
+    it('should check against VIES unless the stand-in is asked for', async () => {
+      const vies = jest.spyOn(ViesVatIdValidator.prototype, 'validate')
+        .mockResolvedValue(validation('FR12345678901', 'valid'));
+
+      const result = await createService({ NODE_ENV: 'development' }).validateVatId('FR12345678901');
+
+      expect(vies).toHaveBeenCalled();
+      expect(result.source).toBe('vies');
+    });
+  });
+
+  describe('refreshVatValidation', () => {
+    it('should re-use a recent check of the same VAT ID', async () => {
+      const previous = { ...validation('NL123456789B01', 'valid', new Date('2026-02-20T00:00:00Z')), source: 'local' as const };
+
+      expect(await service.refreshVatValidation('NL123456789B01', previous, NOW)).toBe(previous);
+    });
+
+    it('should not trust checks made by another validator', async () => {
+      const vies = jest.spyOn(ViesVatIdValidator.prototype, 'validate')
+        .mockResolvedValue(validation('NL123456789B01', 'invalid'));
+      const local = { ...validation('NL123456789B01', 'valid', new Date('2026-02-20T00:00:00Z')), source: 'local' as const };
+
+      const result = await createService({}).refreshVatValidation('NL123456789B01', local, NOW);
+
+      expect(vies).toHaveBeenCalled();
+      expect(result).toMatchObject({ status: 'invalid', source: 'vies' });
+    });
+
+    it('should re-check stale, unavailable and changed VAT IDs', async () => {
+      const stale = validation('NL123456789B01', 'valid', new Date('2026-01-01T00:00:00Z'));
+      const unavailable = validation('NL123456789B01', 'unavailable');
+
+      expect((await service.refreshVatValidation('NL123456789B01', stale, NOW))?.source).toBe('local');
+      expect((await service.refreshVatValidation('NL123456789B01', unavailable, NOW))?.status).toBe('valid');
+      expect((await service.refreshVatValidation('DE123456789', stale, NOW))?.vatId).toBe('DE123456789');
+    });
+
+    it('should mark malformed stored VAT IDs as invalid', async () => {
+      const result = await service.refreshVatValidation('DE-TBD', undefined, NOW);
+
+      expect(result?.status).toBe('invalid');
+      expect(await service.refreshVatValidation(undefined, undefined, NOW)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { VatIdValidation } from '../schemas/billing-account.schema';
+import { TaxDecision } from '../schemas/invoice.schema';
+import {
+  EU_VAT_RATES,
+  ParsedVatId,
+  VatIdValidator,
+  LocalVatIdValidator,
+  ViesVatIdValidator,
+  isEuCountry,
+  parseVatId,
+} from '../vat';
+
+/** A VIES confirmation is trusted for this long before invoices re-check it */
+const VAT_VALIDATION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface TaxCustomer {
+  /** Billing address country (ISO 3166-1 alpha-2) */
+  country?: string;
+  vatId?: string;
+  vatValidation?: VatIdValidation;
+}
+
+/**
+ * Decides how customers are taxed: reverse charge for EU businesses with a
+ * verified VAT ID in another member state, the customer's local rate for EU
+ * consumers, no EU VAT outside the EU.
+ */
+@Injectable()
+export class TaxService {
+  private readonly logger = new Logger(TaxService.name);
+  private readonly validator: VatIdValidator;
+  readonly sellerCountry: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.sellerCountry = (this.configService.get<string>('INVOICE_SELLER_COUNTRY') || 'DE').toUpperCase();
+
+    // The format-only stand-in has to be asked for explicitly (tests), it
+    // would otherwise grant reverse charge to any well-formed VAT ID
+    const provider = this.configService.get<string>('VAT_VALIDATION_PROVIDER') || 'vies';
+    const sellerVatId = this.configService.get<string>('INVOICE_SELLER_VAT_ID');
+    this.validator = provider === 'local'
+      ? new LocalVatIdValidator()
+      : new ViesVatIdValidator({ requesterVatId: sellerVatId ? parseVatId(sellerVatId) : null });
+    this.logger.log(`Using ${this.validator.kind} VAT ID validation`);
+  }
+
+  /** Normalize a VAT ID entered by a customer, rejecting malformed ones */
+  parseVatId(vatId: string): ParsedVatId {
+    const parsed = parseVatId(vatId);
+    if (!parsed) {
+      throw new BadRequestException({
+        code: 'INVALID_VAT_ID',
+        message: `"${vatId}" is not a valid EU VAT ID`,
+      });
+    }
+    return parsed;
+  }
+
+  async validateVatId(vatId: string): Promise<VatIdValidation> {
+    const validation = await this.validator.validate(this.parseVatId(vatId));
+    if (validation.status === 'unavailable') {
+      this.logger.warn(`VAT ID ${validation.vatId} could not be checked, VIES is unavailable`);
+    }
+    return validation;
+  }
+
+  /**
+   * Re-use a recent check of the same VAT ID. Stale checks, checks that
+   * couldn't reach VIES and checks by another validator are repeated.
+   */
+  async refreshVatValidation(
+    vatId: string | undefined,
+    previous: VatIdValidation | undefined,
+    now = new Date(),
+  ): Promise<VatIdValidation | undefined> {
+    if (!vatId) return undefined;
+
+    const parsed = parseVatId(vatId);
+    if (!parsed) {
+      // Stored before VAT IDs were validated
+      return { vatId, status: 'invalid', source: this.validator.kind, checkedAt: now };
+    }
+
+    if (
+      previous
+      && previous.vatId === parsed.vatId
+      && previous.status !== 'unavailable'
+      && previous.source === this.validator.kind
+      && now.getTime() - new Date(previous.checkedAt).getTime() < VAT_VALIDATION_MAX_AGE_MS
+    ) {
+      return previous;
+    }
+
+    return this.validator.validate(parsed);
+  }
+
+  decide(customer: TaxCustomer, decidedAt = new Date()): TaxDecision {
+    const vatId = customer.vatId ? parseVatId(customer.vatId) : null;
+    const validation = customer.vatValidation;
+    const verified = vatId && validation?.status === 'valid' && validation.vatId === vatId.vatId;
+    const customerCountry = (customer.country || vatId?.country || this.sellerCountry).toUpperCase();
+
+    const decision = (treatment: TaxDecision['treatment'], taxPercent: number, reason: string): TaxDecision => ({
+      treatment,
+      taxPercent,
+      sellerCountry: this.sellerCountry,
+      customerCountry,
+      vatId: vatId?.vatId ?? customer.vatId,
+      vatValidation: validation,
+      reason,
+      decidedAt,
+    });
+    const domesticRate = EU_VAT_RATES[this.sellerCountry] ?? 0;
+
+    // Businesses are taxed where they are established, i.e. where their VAT ID is issued
+    if (verified) {
+      if (vatId.country === this.sellerCountry) {
+        return decision('domestic', domesticRate, `Business customer with ${vatId.country} VAT ID ${vatId.vatId}`);
+      }
+      return decision(
+        'reverse_charge',
+        0,
+        `Business customer with VAT ID ${vatId.vatId} verified via ${validation!.source}; the customer accounts for the VAT`,
+      );
+    }
+
+    if (!isEuCountry(customerCountry)) {
+      return decision('outside_eu', 0, `Customer in ${customerCountry} is outside the EU`);
+    }
+
+    const status = validation && vatId && validation.vatId === vatId.vatId ? validation.status : 'not checked';
+    const unverified = vatId
+      ? `VAT ID ${vatId.vatId} is not verified (${status}), taxed as a consumer. `
+      : customer.vatId ? `VAT ID ${customer.vatId} is malformed, taxed as a consumer. ` : '';
+
+    if (customerCountry === this.sellerCountry) {
+      return decision('domestic', domesticRate, `${unverified}Customer in ${customerCountry}`);
+    }
+    return decision(
+      'eu_b2c',
+      EU_VAT_RATES[customerCountry],
+      `${unverified}Consumer in ${customerCountry}, charged ${customerCountry} VAT`,
+    );
+  }
+}
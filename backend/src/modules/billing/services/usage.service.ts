@@ -214,6 +214,24 @@ export class UsageService {
     }).exec();
   }
 
+  /** Spend recorded in the month starting at `periodStart`, optionally only for some clusters */
+  async getSpendCents(orgId: string, periodStart: Date, clusterIds?: string[]): Promise<number> {
+    const match: Record<string, any> = {
+      orgId: new Types.ObjectId(orgId),
+      billingPeriodStart: periodStart,
+    };
+    if (clusterIds) {
+      match.clusterId = { $in: clusterIds.map(id => new Types.ObjectId(id)) };
+    }
+
+    const [result] = await this.usageRecordModel.aggregate([
+      { $match: match },
+      { $group: { _id: null, total: { $sum: '$totalCents' } } },
+    ]).exec();
+
+    return result?.total || 0;
+  }
+
   async markUsageAsInvoiced(usageIds: string[], invoiceId: string): Promise<void> {
     await this.usageRecordModel.updateMany(
       { _id: { $in: usageIds.map(id => new Types.ObjectId(id)) } },
@@ -0,0 +1,136 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { LocalVatIdValidator, ViesVatIdValidator, isEuCountry, parseVatId } from './vat';
+
+describe('vat', () => {
+  describe('parseVatId', () => {
+    it('should normalize formatting', () => {
+      expect(parseVatId('de 123.456-789')).toEqual({
+        vatId: 'DE123456789',
+        prefix: 'DE',
+        number: '123456789',
+        country: 'DE',
+      });
+      expect(parseVatId('NL123456789B01')?.number).toBe('123456789B01');
+    });
+
+    it('should map the Greek EL prefix to GR', () => {
+      expect(parseVatId('EL123456789')?.country).toBe('GR');
+      expect(parseVatId('GR123456789')).toBeNull();
+    });
+
+    it('should reject malformed and non-EU numbers', () => {
+      expect(parseVatId('DE12345678')).toBeNull();
+      expect(parseVatId('ATU1234567')).toBeNull();
+      expect(parseVatId('GB123456789')).toBeNull();
+      expect(parseVatId('')).toBeNull();
+    });
+  });
+
+  it('should know EU member states', () => {
+    expect(isEuCountry('fr')).toBe(true);
+    expect(isEuCountry('CH')).toBe(false);
+    expect(isEuCountry(undefined)).toBe(false);
+  });
+
+  describe('LocalVatIdValidator', () => {
+    it('should accept well-formed numbers unless listed as invalid', async () => {
+      const validator = new LocalVatIdValidator(['FR12345678901']);
+
+      expect((await validator.validate(parseVatId('DE123456789')!)).status).toBe('valid');
+      expect((await validator.validate(parseVatId('FR12345678901')!)).status).toBe('invalid');
+    });
+  });
+
+  describe('ViesVatIdValidator', () => {
+    // Local stand-in for the VIES REST API
+    let server: Server;
+    let baseUrl: string;
+    let received: any[];
+    let response: { status: number; body: unknown };
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk) => chunks.push(chunk));
+        req.on('end', () => {
+          received.push({ url: req.url, body: JSON.parse(Buffer.concat(chunks).toString()) });
+          res.writeHead(response.status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(response.body));
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      received = [];
+    });
+
+    it('should return the trader details and consultation number', async () => {
+      response = {
+        status: 200,
+        body: {
+          countryCode: 'NL',
+          vatNumber: '123456789B01',
+          valid: true,
+          name: 'ACME B.V.',
+          address: 'DAMRAK 1\n1012LG AMSTERDAM',
+          requestIdentifier: 'WAPIAAAAXYZ',
+        },
+      };
+      const validator = new ViesVatIdValidator({ baseUrl, requesterVatId: parseVatId('DE123456789') });
+
+      const result = await validator.validate(parseVatId('NL123456789B01')!);
+
+      expect(received[0]).toEqual({
+        url: '/check-vat-number',
+        body: {
+          countryCode: 'NL',
+          vatNumber: '123456789B01',
+          requesterMemberStateCode: 'DE',
+          requesterNumber: '123456789',
+        },
+      });
+      expect(result).toMatchObject({
+        vatId: 'NL123456789B01',
+        status: 'valid',
+        source: 'vies',
+        name: 'ACME B.V.',
+        requestIdentifier: 'WAPIAAAAXYZ',
+      });
+    });
+
+    it('should report unregistered numbers as invalid and drop undisclosed details', async () => {
+      response = { status: 200, body: { valid: false, name: '---', address: '---' } };
+
+      const result = await new ViesVatIdValidator({ baseUrl }).validate(parseVatId('DE123456789')!);
+
+      expect(result.status).toBe('invalid');
+      expect(result.name).toBeUndefined();
+      expect(received[0].body.requesterNumber).toBeUndefined();
+    });
+
+    it('should report member state outages as unavailable', async () => {
+      response = { status: 200, body: { actionSucceed: false, errorWrappers: [{ error: 'MS_UNAVAILABLE' }] } };
+      const validator = new ViesVatIdValidator({ baseUrl });
+
+      expect((await validator.validate(parseVatId('IT12345678901')!)).status).toBe('unavailable');
+
+      response = { status: 500, body: {} };
+      expect((await validator.validate(parseVatId('IT12345678901')!)).status).toBe('unavailable');
+    });
+
+    it('should report rejected input as invalid', async () => {
+      response = { status: 200, body: { actionSucceed: false, errorWrappers: [{ error: 'INVALID_INPUT' }] } };
+
+      const result = await new ViesVatIdValidator({ baseUrl }).validate(parseVatId('PL1234567890')!);
+
+      expect(result.status).toBe('invalid');
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import axios from 'axios';
+import { VatIdValidation } from './schemas/billing-account.schema';
+
+/** Standard VAT rate per EU member state (ISO 3166-1 alpha-2), in percent */
+export const EU_VAT_RATES: Record<string, number> = {
+  AT: 20, BE: 21, BG: 20, CY: 19, CZ: 21, DE: 19, DK: 25, EE: 24, ES: 21,
+  FI: 25.5, FR: 20, GR: 24, HR: 25, HU: 27, IE: 23, IT: 22, LT: 21, LU: 17,
+  LV: 21, MT: 18, NL: 21, PL: 23, PT: 23, RO: 21, SE: 25, SI: 22, SK: 23,
+};
+
+export const EU_COUNTRIES = Object.keys(EU_VAT_RATES);
+
+export function isEuCountry(country?: string): boolean {
+  return !!country && country.toUpperCase() in EU_VAT_RATES;
+}
+
+/**
+ * Number part of a VAT ID per prefix. VAT IDs use the ISO country code
+ * except for Greece, which uses EL.
+ */
+const VAT_ID_PATTERNS: Record<string, RegExp> = {
+  AT: /^U\d{8}$/,
+  BE: /^[01]\d{9}$/,
+  BG: /^\d{9,10}$/,
+  CY: /^\d{8}[A-Z]$/,
+  CZ: /^\d{8,10}$/,
+  DE: /^\d{9}$/,
+  DK: /^\d{8}$/,
+  EE: /^\d{9}$/,
+  EL: /^\d{9}$/,
+  ES: /^[A-Z0-9]\d{7}[A-Z0-9]$/,
+  FI: /^\d{8}$/,
+  FR: /^[A-HJ-NP-Z0-9]{2}\d{9}$/,
+  HR: /^\d{11}$/,
+  HU: /^\d{8}$/,
+  IE: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/,
+  IT: /^\d{11}$/,
+  LT: /^(\d{9}|\d{12})$/,
+  LU: /^\d{8}$/,
+  LV: /^\d{11}$/,
+  MT: /^\d{8}$/,
+  NL: /^\d{9}B\d{2}$/,
+  PL: /^\d{10}$/,
+  PT: /^\d{9}$/,
+  RO: /^\d{2,10}$/,
+  SE: /^\d{12}$/,
+  SI: /^\d{8}$/,
+  SK: /^\d{10}$/,
+};
+
+export interface ParsedVatId {
+  /** Normalized VAT ID, e.g. "EL123456789" */
+  vatId: string;
+  /** VAT prefix as used by VIES ("EL" for Greece) */
+  prefix: string;
+  number: string;
+  /** ISO country of the issuing member state ("GR" for Greece) */
+  country: string;
+}
+
+/** Parse an EU VAT ID, ignoring spaces, dots and dashes. Returns null if malformed. */
+export function parseVatId(vatId: string): ParsedVatId | null {
+  const normalized = vatId.toUpperCase().replace(/[\s.\-]/g, '');
+  const prefix = normalized.slice(0, 2);
+  const number = normalized.slice(2);
+  const pattern = VAT_ID_PATTERNS[prefix];
+
+  if (!pattern || !pattern.test(number)) return null;
+  return {
+    vatId: normalized,
+    prefix,
+    number,
+    country: prefix === 'EL' ? 'GR' : prefix,
+  };
+}
+
+export interface VatIdValidator {
+  readonly kind: VatIdValidation['source'];
+  validate(vatId: ParsedVatId): Promise<VatIdValidation>;
+}
+
+/** Optional requester VAT ID, so VIES returns a consultation number as evidence */
+export interface ViesValidatorConfig {
+  requesterVatId?: ParsedVatId | null;
+  baseUrl?: string;
+}
+
+const VIES_BASE_URL = 'https://ec.europa.eu/taxation_customs/vies/rest-api';
+const VIES_TIMEOUT_MS = 15_000;
+
+/** VIES errors that mean "try again later" rather than "this number is wrong" */
+const VIES_UNAVAILABLE_ERRORS = [
+  'SERVICE_UNAVAILABLE',
+  'MS_UNAVAILABLE',
+  'TIMEOUT',
+  'GLOBAL_MAX_CONCURRENT_REQ',
+  'MS_MAX_CONCURRENT_REQ',
+];
+
+/**
+ * Checks VAT IDs with the European Commission's VIES REST API. Member state
+ * registries go offline regularly; that is reported as `unavailable`, not
+ * as an invalid number.
+ */
+export class ViesVatIdValidator implements VatIdValidator {
+  readonly kind = 'vies' as const;
+
+  constructor(private readonly config: ViesValidatorConfig = {}) {}
+
+  async validate(vatId: ParsedVatId): Promise<VatIdValidation> {
+    const checkedAt = new Date();
+    const requester = this.config.requesterVatId;
+
+    let data: any;
+    try {
+      const response = await axios.post(
+        `${this.config.baseUrl || VIES_BASE_URL}/check-vat-number`,
+        {
+          countryCode: vatId.prefix,
+          vatNumber: vatId.number,
+          ...(requester ? { requesterMemberStateCode: requester.prefix, requesterNumber: requester.number } : {}),
+        },
+        { timeout: VIES_TIMEOUT_MS },
+      );
+      data = response.data;
+    } catch {
+      return { vatId: vatId.vatId, status: 'unavailable', source: this.kind, checkedAt };
+    }
+
+    const error = data?.errorWrappers?.[0]?.error;
+    if (error || typeof data?.valid !== 'boolean') {
+      return {
+        vatId: vatId.vatId,
+        status: !error || VIES_UNAVAILABLE_ERRORS.includes(error) ? 'unavailable' : 'invalid',
+        source: this.kind,
+        checkedAt,
+      };
+    }
+
+    // Some member states don't disclose trader details and return "---"
+    const disclosed = (value?: string) => (value && value.trim() !== '---' ? value.trim() : undefined);
+    return {
+      vatId: vatId.vatId,
+      status: data.valid ? 'valid' : 'invalid',
+      source: this.kind,
+      checkedAt,
+      name: disclosed(data.name),
+      address: disclosed(data.address),
+      requestIdentifier: data.requestIdentifier || undefined,
+    };
+  }
+}
+
+/**
+ * Stand-in for development and tests: any well-formed VAT ID is valid
+ * unless it is listed as invalid.
+ */
+export class LocalVatIdValidator implements VatIdValidator {
+  readonly kind = 'local' as const;
+
+  constructor(private readonly invalidVatIds: string[] = []) {}
+
+  async validate(vatId: ParsedVatId): Promise<VatIdValidation> {
+    return {
+      vatId: vatId.vatId,
+      status: this.invalidVatIds.includes(vatId.vatId) ? 'invalid' : 'valid',
+      source: this.kind,
+      checkedAt: new Date(),
+    };
+  }
+}
@@ -0,0 +1,162 @@
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { BudgetEngineService, BUDGET_CAP_PAUSE_REASON } from './budget-engine.service';
+import { DEFAULT_BUDGET_THRESHOLDS } from './schemas/budget.schema';
+import { PricingService } from '../billing/services/pricing.service';
+
+describe('BudgetEngineService', () => {
+  let service: BudgetEngineService;
+  let mockBudgetsService: any;
+  let mockClustersService: any;
+  let mockNotificationService: any;
+
+  const ORG_ID = new Types.ObjectId();
+  const CHANNEL_ID = new Types.ObjectId();
+  const NOW = new Date(2026, 2, 20, 12);
+  const MARCH = new Date(2026, 2, 1);
+
+  const pricingService = (): PricingService => {
+    const mock: Partial<PricingService> = { formatAmount: jest.fn((cents: number) => `€${(cents / 100).toFixed(2)}`) };
+    return mock as PricingService;
+  };
+
+  const configService = (): ConfigService => {
+    const mock: Partial<ConfigService> = { get: jest.fn() };
+    return mock as ConfigService;
+  };
+
+  const budget = (overrides: Record<string, any> = {}): any => ({
+    id: new Types.ObjectId().toString(),
+    orgId: ORG_ID,
+    name: 'Production',
+    amountCents: 10000,
+    scope: 'org',
+    thresholds: DEFAULT_BUDGET_THRESHOLDS,
+    notificationChannelIds: [CHANNEL_ID],
+    pauseDevClusters: false,
+    periodStart: MARCH,
+    actualSpendCents: 0,
+    forecastedSpendCents: 0,
+    notifiedThresholds: [],
+    save: jest.fn(),
+    ...overrides,
+  });
+
+  const spend = (actualSpendCents: number, forecastedSpendCents = actualSpendCents) =>
+    mockBudgetsService.getSpend.mockResolvedValue({
+      periodStart: MARCH,
+      periodEnd: new Date(2026, 3, 1),
+      actualSpendCents,
+      forecastedSpendCents,
+    });
+
+  beforeEach(() => {
+    mockBudgetsService = {
+      getSpend: jest.fn(),
+      findClustersInScope: jest.fn().mockResolvedValue([]),
+      describeScope: jest.fn().mockResolvedValue('Organization'),
+    };
+    mockClustersService = { pause: jest.fn() };
+    mockNotificationService = { sendBudgetNotification: jest.fn().mockResolvedValue([]) };
+
+    service = new BudgetEngineService(
+      configService(),
+      mockBudgetsService,
+      mockClustersService,
+      mockNotificationService,
+      pricingService(),
+    );
+  });
+
+  it('should notify only the highest threshold crossed since the last run', async () => {
+    const b = budget();
+    spend(8500);
+
+    await service.evaluateBudget(b, NOW);
+
+    expect(b.notifiedThresholds).toEqual(['actual:50', 'actual:80']);
+    expect(mockNotificationService.sendBudgetNotification).toHaveBeenCalledTimes(1);
+    expect(mockNotificationService.sendBudgetNotification).toHaveBeenCalledWith(
+      [CHANNEL_ID.toString()],
+      expect.objectContaining({ percent: 80, basis: 'actual', severity: 'warning', actualSpendCents: 8500 }),
+    );
+    expect(b.save).toHaveBeenCalled();
+  });
+
+  it('should not notify a threshold twice in the same month', async () => {
+    const b = budget({ notifiedThresholds: ['actual:50', 'actual:80'] });
+    spend(9000);
+
+    await service.evaluateBudget(b, NOW);
+
+    expect(mockNotificationService.sendBudgetNotification).not.toHaveBeenCalled();
+  });
+
+  it('should warn about forecasted overspend separately from actual spend', async () => {
+    const b = budget({ notifiedThresholds: ['actual:50'] });
+    spend(6000, 14000);
+
+    await service.evaluateBudget(b, NOW);
+
+    expect(mockNotificationService.sendBudgetNotification).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.objectContaining({ percent: 100, basis: 'forecasted', severity: 'critical' }),
+    );
+    expect(b.notifiedThresholds).toContain('forecasted:100');
+  });
+
+  it('should re-arm thresholds and lift the cap when a new month starts', async () => {
+    const b = budget({
+      periodStart: new Date(2026, 1, 1),
+      notifiedThresholds: ['actual:50', 'actual:80', 'actual:100'],
+      capReachedAt: new Date(2026, 1, 25),
+    });
+    spend(1000);
+
+    await service.evaluateBudget(b, NOW);
+
+    expect(b.periodStart).toEqual(MARCH);
+    expect(b.notifiedThresholds).toEqual([]);
+    expect(b.capReachedAt).toBeUndefined();
+  });
+
+  it('should record when the cap was first reached', async () => {
+    const reachedAt = new Date(2026, 2, 18);
+    const b = budget({ notifiedThresholds: ['actual:50', 'actual:80', 'actual:100', 'forecasted:100'], capReachedAt: reachedAt });
+    spend(12000);
+
+    await service.evaluateBudget(b, NOW);
+
+    expect(b.capReachedAt).toBe(reachedAt);
+
+    const fresh = budget();
+    await service.evaluateBudget(fresh, NOW);
+    expect(fresh.capReachedAt).toBe(NOW);
+  });
+
+  it('should pause running DEV clusters in scope at the cap', async () => {
+    const b = budget({ pauseDevClusters: true, notifiedThresholds: ['actual:50', 'actual:80', 'actual:100', 'forecasted:100'] });
+    const devId = new Types.ObjectId();
+    mockBudgetsService.findClustersInScope.mockResolvedValue([{ _id: devId, name: 'scratch' }]);
+    spend(10000);
+
+    await service.evaluateBudget(b, NOW);
+
+    expect(mockBudgetsService.findClustersInScope).toHaveBeenCalledWith(b, { plan: 'DEV', status: 'ready' });
+    expect(mockClustersService.pause).toHaveBeenCalledWith(devId.toString(), BUDGET_CAP_PAUSE_REASON);
+    expect(mockNotificationService.sendBudgetNotification).toHaveBeenCalledWith(
+      expect.any(Array),
+      expect.objectContaining({ message: expect.stringContaining('scratch') }),
+    );
+  });
+
+  it('should leave clusters alone below the cap', async () => {
+    const b = budget({ pauseDevClusters: true });
+    spend(9999);
+
+    await service.evaluateBudget(b, NOW);
+
+    expect(mockClustersService.pause).not.toHaveBeenCalled();
+    expect(b.capReachedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import { BudgetsService, isThresholdCrossed, thresholdKey } from './budgets.service';
+import { BudgetBasis, BudgetDocument, BudgetThreshold } from './schemas/budget.schema';
+import { ClustersService } from '../clusters/clusters.service';
+import { NotificationService } from '../alerts/notification.service';
+import { PricingService } from '../billing/services/pricing.service';
+
+export const BUDGET_CAP_PAUSE_REASON = 'budget-cap';
+
+/**
+ * Re-evaluates budgets after each hourly usage collection: notifies the
+ * budget's channels once per threshold per month and enforces hard caps.
+ */
+@Injectable()
+export class BudgetEngineService {
+  private readonly logger = new Logger(BudgetEngineService.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly budgetsService: BudgetsService,
+    @Inject(forwardRef(() => ClustersService))
+    private readonly clustersService: ClustersService,
+    private readonly notificationService: NotificationService,
+    private readonly pricingService: PricingService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async runBudgetEvaluation(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test') {
+      return;
+    }
+
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const budgets = await this.budgetsService.findEnabled();
+
+      for (const budget of budgets) {
+        try {
+          await this.evaluateBudget(budget, new Date());
+        } catch (error: any) {
+          this.logger.error(`Budget evaluation failed for budget ${budget.id}: ${error.message}`);
+        }
+      }
+    } catch (error: any) {
+      this.logger.error(`Budget evaluation run failed: ${error.message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  async evaluateBudget(budget: BudgetDocument, now: Date): Promise<void> {
+    const spend = await this.budgetsService.getSpend(budget, now);
+
+    // New month: thresholds re-arm and the cap lifts
+    if (!budget.periodStart || budget.periodStart.getTime() !== spend.periodStart.getTime()) {
+      budget.periodStart = spend.periodStart;
+      budget.notifiedThresholds = [];
+      budget.capReachedAt = undefined;
+    }
+
+    budget.actualSpendCents = spend.actualSpendCents;
+    budget.forecastedSpendCents = spend.forecastedSpendCents;
+    budget.lastEvaluatedAt = now;
+
+    const crossed = budget.thresholds.filter(
+      t => !budget.notifiedThresholds.includes(thresholdKey(t)) && isThresholdCrossed(budget, t),
+    );
+    budget.notifiedThresholds = [...budget.notifiedThresholds, ...crossed.map(thresholdKey)];
+
+    const capReached = budget.actualSpendCents >= budget.amountCents;
+    budget.capReachedAt = capReached ? (budget.capReachedAt ?? now) : undefined;
+
+    // Saved before notifying: a crash may drop a notification but never repeats one
+    await budget.save();
+
+    // Jumping past several thresholds at once sends only the highest per basis
+    for (const basis of ['actual', 'forecasted'] as BudgetBasis[]) {
+      const highest = crossed
+        .filter(t => t.basis === basis)
+        .sort((a, b) => b.percent - a.percent)[0];
+      if (highest) {
+        await this.notify(budget, highest, this.describeThreshold(budget, highest));
+      }
+    }
+
+    if (capReached && budget.pauseDevClusters) {
+      await this.pauseDevClusters(budget);
+    }
+  }
+
+  /** Running DEV clusters in scope are paused for as long as the cap stays reached */
+  private async pauseDevClusters(budget: BudgetDocument): Promise<void> {
+    const clusters = await this.budgetsService.findClustersInScope(budget, { plan: 'DEV', status: 'ready' });
+    const paused: string[] = [];
+
+    for (const cluster of clusters) {
+      try {
+        await this.clustersService.pause(cluster._id.toString(), BUDGET_CAP_PAUSE_REASON);
+        paused.push(cluster.name);
+      } catch (error: any) {
+        this.logger.warn(`Could not pause cluster ${cluster._id} for budget ${budget.id}: ${error.message}`);
+      }
+    }
+
+    if (paused.length > 0) {
+      this.logger.log(`Paused ${paused.length} DEV cluster(s) for budget ${budget.id}`);
+      await this.notify(
+        budget,
+        { percent: 100, basis: 'actual' },
+        `Budget "${budget.name}" reached its monthly amount of ${this.pricingService.formatAmount(budget.amountCents)}. ` +
+          `Paused DEV cluster(s): ${paused.join(', ')}.`,
+      );
+    }
+  }
+
+  private async notify(budget: BudgetDocument, threshold: BudgetThreshold, message: string): Promise<void> {
+    const channelIds = budget.notificationChannelIds.map(id => id.toString());
+    if (channelIds.length === 0) return;
+
+    await this.notificationService.sendBudgetNotification(channelIds, {
+      orgId: budget.orgId.toString(),
+      budgetId: budget.id,
+      budgetName: budget.name,
+      scope: await this.budgetsService.describeScope(budget),
+      severity: threshold.percent >= 100 ? 'critical' : threshold.percent >= 80 ? 'warning' : 'info',
+      basis: threshold.basis,
+      percent: threshold.percent,
+      amountCents: budget.amountCents,
+      actualSpendCents: budget.actualSpendCents,
+      forecastedSpendCents: budget.forecastedSpendCents,
+      message,
+    });
+  }
+
+  private describeThreshold(budget: BudgetDocument, threshold: BudgetThreshold): string {
+    const amount = this.pricingService.formatAmount(budget.amountCents);
+    if (threshold.basis === 'forecasted') {
+      return `Spend for budget "${budget.name}" is forecast to reach ${this.pricingService.formatAmount(budget.forecastedSpendCents)} ` +
+        `this month, ${threshold.percent}% or more of ${amount}.`;
+    }
+    return `Spend for budget "${budget.name}" reached ${this.pricingService.formatAmount(budget.actualSpendCents)} ` +
+      `this month, ${threshold.percent}% or more of ${amount}.`;
+  }
+}
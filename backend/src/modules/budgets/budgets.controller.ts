@@ -0,0 +1,136 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  NotFoundException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { BudgetsService } from './budgets.service';
+import { OrgsService } from '../orgs/orgs.service';
+import { ProjectAccessService } from '../project-access/project-access.service';
+import { CreateBudgetDto, UpdateBudgetDto } from './dto/budget.dto';
+
+@ApiTags('Budgets')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('orgs/:orgId/budgets')
+export class BudgetsController {
+  constructor(
+    private readonly budgetsService: BudgetsService,
+    private readonly orgsService: OrgsService,
+    private readonly projectAccessService: ProjectAccessService,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a budget' })
+  async create(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Body() createDto: CreateBudgetDto,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+
+    const budget = await this.budgetsService.create(orgId, user.userId, createDto);
+
+    return {
+      success: true,
+      data: budget,
+      message: 'Budget created',
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List budgets with current and forecasted spend' })
+  async findAll(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId);
+
+    // Members with project roles only see the budgets of their projects
+    const accessibleIds = await this.projectAccessService.getAccessibleProjectIds(orgId, user.userId);
+    const budgets = await this.budgetsService.findByOrg(orgId, accessibleIds);
+
+    return {
+      success: true,
+      data: budgets,
+    };
+  }
+
+  @Get(':budgetId')
+  @ApiOperation({ summary: 'Get budget details' })
+  async findOne(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('budgetId') budgetId: string,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId);
+
+    const budget = await this.budgetsService.findById(budgetId);
+    if (!budget || budget.orgId.toString() !== orgId) {
+      throw new NotFoundException('Budget not found');
+    }
+
+    const accessibleIds = await this.projectAccessService.getAccessibleProjectIds(orgId, user.userId);
+    if (accessibleIds && !(budget.scope === 'project' && budget.projectId && accessibleIds.includes(budget.projectId.toString()))) {
+      throw new NotFoundException('Budget not found');
+    }
+
+    return {
+      success: true,
+      data: budget,
+    };
+  }
+
+  @Patch(':budgetId')
+  @ApiOperation({ summary: 'Update a budget' })
+  async update(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('budgetId') budgetId: string,
+    @Body() updateDto: UpdateBudgetDto,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+
+    const budget = await this.budgetsService.findById(budgetId);
+    if (!budget || budget.orgId.toString() !== orgId) {
+      throw new NotFoundException('Budget not found');
+    }
+
+    const updated = await this.budgetsService.update(budgetId, updateDto);
+
+    return {
+      success: true,
+      data: updated,
+    };
+  }
+
+  @Delete(':budgetId')
+  @ApiOperation({ summary: 'Delete a budget' })
+  async delete(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('budgetId') budgetId: string,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+
+    const budget = await this.budgetsService.findById(budgetId);
+    if (!budget || budget.orgId.toString() !== orgId) {
+      throw new NotFoundException('Budget not found');
+    }
+
+    await this.budgetsService.delete(budgetId);
+
+    return {
+      success: true,
+      message: 'Budget deleted',
+    };
+  }
+}
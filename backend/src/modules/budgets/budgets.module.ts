@@ -0,0 +1,32 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { BudgetsController } from './budgets.controller';
+import { BudgetsService } from './budgets.service';
+import { BudgetEngineService } from './budget-engine.service';
+import { Budget, BudgetSchema } from './schemas/budget.schema';
+import { Cluster, ClusterSchema } from '../clusters/schemas/cluster.schema';
+import { ClusterSettings, ClusterSettingsSchema } from '../cluster-settings/schemas/cluster-settings.schema';
+import { OrgsModule } from '../orgs/orgs.module';
+import { ProjectsModule } from '../projects/projects.module';
+import { ClustersModule } from '../clusters/clusters.module';
+import { AlertsModule } from '../alerts/alerts.module';
+import { BillingModule } from '../billing/billing.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Budget.name, schema: BudgetSchema },
+      { name: Cluster.name, schema: ClusterSchema },
+      { name: ClusterSettings.name, schema: ClusterSettingsSchema },
+    ]),
+    OrgsModule,
+    ProjectsModule,
+    forwardRef(() => ClustersModule),
+    AlertsModule,
+    BillingModule,
+  ],
+  controllers: [BudgetsController],
+  providers: [BudgetsService, BudgetEngineService],
+  exports: [BudgetsService],
+})
+export class BudgetsModule {}
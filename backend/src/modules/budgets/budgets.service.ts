@@ -0,0 +1,266 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  Budget,
+  BudgetDocument,
+  BudgetThreshold,
+  DEFAULT_BUDGET_THRESHOLDS,
+} from './schemas/budget.schema';
+import { CreateBudgetDto, UpdateBudgetDto } from './dto/budget.dto';
+import { Cluster, ClusterDocument } from '../clusters/schemas/cluster.schema';
+import { ClusterSettings, ClusterSettingsDocument } from '../cluster-settings/schemas/cluster-settings.schema';
+import { UsageService } from '../billing/services/usage.service';
+import { ProjectsService } from '../projects/projects.service';
+import { NotificationService } from '../alerts/notification.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Until then the forecast is just the actual spend; a few hours of usage don't predict a month */
+const FORECAST_MIN_ELAPSED_MS = 3 * DAY_MS;
+
+export interface BudgetSpend {
+  periodStart: Date;
+  periodEnd: Date;
+  actualSpendCents: number;
+  forecastedSpendCents: number;
+}
+
+export function thresholdKey(threshold: BudgetThreshold): string {
+  return `${threshold.basis}:${threshold.percent}`;
+}
+
+export function isThresholdCrossed(
+  budget: Pick<Budget, 'amountCents' | 'actualSpendCents' | 'forecastedSpendCents'>,
+  threshold: BudgetThreshold,
+): boolean {
+  const spend = threshold.basis === 'actual' ? budget.actualSpendCents : budget.forecastedSpendCents;
+  return spend >= (budget.amountCents * threshold.percent) / 100;
+}
+
+/** Usage records are grouped by calendar month, so budgets are too */
+export function monthStart(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1, 0, 0, 0, 0);
+}
+
+@Injectable()
+export class BudgetsService {
+  private readonly logger = new Logger(BudgetsService.name);
+
+  constructor(
+    @InjectModel(Budget.name) private budgetModel: Model<BudgetDocument>,
+    @InjectModel(Cluster.name) private clusterModel: Model<ClusterDocument>,
+    @InjectModel(ClusterSettings.name) private clusterSettingsModel: Model<ClusterSettingsDocument>,
+    private readonly usageService: UsageService,
+    private readonly projectsService: ProjectsService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  // ==================== CRUD ====================
+
+  async create(orgId: string, userId: string, createDto: CreateBudgetDto): Promise<Budget> {
+    const scope = createDto.scope || 'org';
+
+    if (scope === 'project') {
+      if (!createDto.projectId) {
+        throw new BadRequestException({ code: 'VALIDATION_ERROR', message: 'projectId is required for project budgets' });
+      }
+      const projectOrgId = await this.projectsService.getOrgIdForProject(createDto.projectId);
+      if (projectOrgId !== orgId) {
+        throw new NotFoundException('Project not found');
+      }
+    }
+
+    if (scope === 'tag' && (!createDto.tagKey || createDto.tagValue === undefined)) {
+      throw new BadRequestException({ code: 'VALIDATION_ERROR', message: 'tagKey and tagValue are required for tag budgets' });
+    }
+
+    await this.validateChannels(orgId, createDto.notificationChannelIds);
+
+    const budget = new this.budgetModel({
+      orgId: new Types.ObjectId(orgId),
+      name: createDto.name,
+      amountCents: createDto.amountCents,
+      scope,
+      projectId: scope === 'project' ? new Types.ObjectId(createDto.projectId) : undefined,
+      tagKey: scope === 'tag' ? createDto.tagKey : undefined,
+      tagValue: scope === 'tag' ? createDto.tagValue : undefined,
+      thresholds: createDto.thresholds || DEFAULT_BUDGET_THRESHOLDS,
+      notificationChannelIds: (createDto.notificationChannelIds || []).map(id => new Types.ObjectId(id)),
+      blockClusterCreation: createDto.blockClusterCreation || false,
+      pauseDevClusters: createDto.pauseDevClusters || false,
+      enabled: createDto.enabled !== false,
+      createdBy: new Types.ObjectId(userId),
+    });
+
+    // Start with current spend so the list shows numbers before the first evaluation
+    const spend = await this.getSpend(budget, new Date());
+    budget.periodStart = spend.periodStart;
+    budget.actualSpendCents = spend.actualSpendCents;
+    budget.forecastedSpendCents = spend.forecastedSpendCents;
+
+    await budget.save();
+    this.logger.log(`Created budget "${budget.name}" for org ${orgId}`);
+    return budget;
+  }
+
+  /**
+   * Budgets of the org. Members restricted to some projects only see the
+   * budgets of those projects, org and tag budgets span the others too.
+   */
+  async findByOrg(orgId: string, projectIds: string[] | null = null): Promise<Budget[]> {
+    return this.budgetModel.find({
+      orgId: new Types.ObjectId(orgId),
+      ...(projectIds ? { scope: 'project', projectId: { $in: projectIds.map((id) => new Types.ObjectId(id)) } } : {}),
+    }).sort({ createdAt: -1 }).exec();
+  }
+
+  async findById(budgetId: string): Promise<BudgetDocument | null> {
+    if (!Types.ObjectId.isValid(budgetId)) return null;
+    return this.budgetModel.findById(budgetId).exec();
+  }
+
+  async findEnabled(): Promise<BudgetDocument[]> {
+    return this.budgetModel.find({ enabled: true }).exec();
+  }
+
+  async update(budgetId: string, updateDto: UpdateBudgetDto): Promise<Budget> {
+    const budget = await this.findById(budgetId);
+    if (!budget) {
+      throw new NotFoundException('Budget not found');
+    }
+
+    if (updateDto.notificationChannelIds !== undefined) {
+      await this.validateChannels(budget.orgId.toString(), updateDto.notificationChannelIds);
+      budget.notificationChannelIds = updateDto.notificationChannelIds.map(id => new Types.ObjectId(id));
+    }
+    if (updateDto.name !== undefined) budget.name = updateDto.name;
+    if (updateDto.amountCents !== undefined) budget.amountCents = updateDto.amountCents;
+    if (updateDto.thresholds !== undefined) budget.thresholds = updateDto.thresholds;
+    if (updateDto.blockClusterCreation !== undefined) budget.blockClusterCreation = updateDto.blockClusterCreation;
+    if (updateDto.pauseDevClusters !== undefined) budget.pauseDevClusters = updateDto.pauseDevClusters;
+    if (updateDto.enabled !== undefined) budget.enabled = updateDto.enabled;
+
+    // A raised amount lifts the cap and re-arms thresholds that are no longer crossed
+    const stillCrossed = new Set(
+      budget.thresholds.filter(t => isThresholdCrossed(budget, t)).map(thresholdKey),
+    );
+    budget.notifiedThresholds = budget.notifiedThresholds.filter(key => stillCrossed.has(key));
+    if (budget.actualSpendCents < budget.amountCents) {
+      budget.capReachedAt = undefined;
+    }
+
+    await budget.save();
+    return budget;
+  }
+
+  async delete(budgetId: string): Promise<void> {
+    const result = await this.budgetModel.findByIdAndDelete(budgetId).exec();
+    if (!result) {
+      throw new NotFoundException('Budget not found');
+    }
+  }
+
+  // ==================== Spend ====================
+
+  /** Month-to-date spend in scope and a run-rate forecast for the whole month */
+  async getSpend(budget: Budget, now: Date): Promise<BudgetSpend> {
+    const periodStart = monthStart(now);
+    const periodEnd = new Date(periodStart.getFullYear(), periodStart.getMonth() + 1, 1);
+
+    const clusterIds = budget.scope === 'org'
+      ? undefined
+      : (await this.findClustersInScope(budget)).map(c => c._id.toString());
+    const actualSpendCents = await this.usageService.getSpendCents(budget.orgId.toString(), periodStart, clusterIds);
+
+    const elapsedMs = now.getTime() - periodStart.getTime();
+    const forecastedSpendCents = elapsedMs < FORECAST_MIN_ELAPSED_MS
+      ? actualSpendCents
+      : Math.round(actualSpendCents * ((periodEnd.getTime() - periodStart.getTime()) / elapsedMs));
+
+    return { periodStart, periodEnd, actualSpendCents, forecastedSpendCents };
+  }
+
+  async findClustersInScope(budget: Budget, filter: Record<string, any> = {}): Promise<ClusterDocument[]> {
+    const query: Record<string, any> = { orgId: budget.orgId, ...filter };
+
+    if (budget.scope === 'project') {
+      query.projectId = budget.projectId;
+    }
+
+    if (budget.scope === 'tag') {
+      const orgClusters = await this.clusterModel.find({ orgId: budget.orgId }).select('_id').exec();
+      const tagged = await this.clusterSettingsModel
+        .find({
+          clusterId: { $in: orgClusters.map(c => c._id) },
+          [`tags.${budget.tagKey}`]: budget.tagValue,
+        })
+        .select('clusterId')
+        .exec();
+      query._id = { $in: tagged.map(s => s.clusterId) };
+    }
+
+    return this.clusterModel.find(query).exec();
+  }
+
+  async describeScope(budget: Budget): Promise<string> {
+    switch (budget.scope) {
+      case 'project': {
+        const project = budget.projectId ? await this.projectsService.findById(budget.projectId.toString()) : null;
+        return `Project ${project?.name ?? budget.projectId}`;
+      }
+      case 'tag':
+        return `Tag ${budget.tagKey}=${budget.tagValue}`;
+      default:
+        return 'Organization';
+    }
+  }
+
+  // ==================== Enforcement ====================
+
+  /**
+   * Refuse new clusters once an org or project budget with a hard cap is
+   * spent. Tag budgets can't apply: a new cluster has no tags yet.
+   */
+  async assertCanCreateCluster(orgId: string, projectId: string): Promise<void> {
+    const budget = await this.budgetModel.findOne({
+      orgId: new Types.ObjectId(orgId),
+      enabled: true,
+      blockClusterCreation: true,
+      capReachedAt: { $gte: monthStart(new Date()) },
+      $or: [
+        { scope: 'org' },
+        { scope: 'project', projectId: new Types.ObjectId(projectId) },
+      ],
+    }).exec();
+
+    if (budget) {
+      throw new ForbiddenException({
+        code: 'BUDGET_EXCEEDED',
+        message: `Budget "${budget.name}" has reached its monthly amount. Raise the budget or wait until next month to create clusters.`,
+      });
+    }
+  }
+
+  // ==================== Helpers ====================
+
+  private async validateChannels(orgId: string, channelIds?: string[]): Promise<void> {
+    if (!channelIds || channelIds.length === 0) return;
+
+    const channels = await this.notificationService.findChannelsByOrg(orgId);
+    const known = new Set(channels.map(c => c.id));
+    const unknown = channelIds.filter(id => !known.has(id));
+    if (unknown.length > 0) {
+      throw new BadRequestException({
+        code: 'VALIDATION_ERROR',
+        message: `Unknown notification channel(s): ${unknown.join(', ')}`,
+      });
+    }
+  }
+}
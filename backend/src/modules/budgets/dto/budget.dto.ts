@@ -0,0 +1,132 @@
+import {
+  IsString,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  Min,
+  Max,
+  MaxLength,
+  Matches,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+// Mongoose map keys can't contain dots or start with $
+const TAG_KEY_PATTERN = /^[A-Za-z0-9_:\/-]{1,64}$/;
+
+export class BudgetThresholdDto {
+  @ApiProperty({ example: 80, description: 'Percent of the budget amount' })
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  percent: number;
+
+  @ApiProperty({ enum: ['actual', 'forecasted'], example: 'actual' })
+  @IsEnum(['actual', 'forecasted'])
+  basis: 'actual' | 'forecasted';
+}
+
+export class CreateBudgetDto {
+  @ApiProperty({ example: 'Production spend' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 50000, description: 'Monthly amount in cents' })
+  @IsInt()
+  @Min(100)
+  amountCents: number;
+
+  @ApiProperty({ enum: ['org', 'project', 'tag'], default: 'org' })
+  @IsOptional()
+  @IsEnum(['org', 'project', 'tag'])
+  scope?: 'org' | 'project' | 'tag';
+
+  @ApiProperty({ required: false, description: 'Required for project scope' })
+  @IsOptional()
+  @IsMongoId()
+  projectId?: string;
+
+  @ApiProperty({ required: false, example: 'env', description: 'Required for tag scope' })
+  @IsOptional()
+  @Matches(TAG_KEY_PATTERN, { message: 'tagKey may only contain letters, digits, _ : / and -' })
+  tagKey?: string;
+
+  @ApiProperty({ required: false, example: 'production' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(256)
+  tagValue?: string;
+
+  @ApiProperty({ required: false, type: [BudgetThresholdDto] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => BudgetThresholdDto)
+  thresholds?: BudgetThresholdDto[];
+
+  @ApiProperty({ required: false, description: 'Notification channel IDs' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsMongoId({ each: true })
+  notificationChannelIds?: string[];
+
+  @ApiProperty({ required: false, default: false })
+  @IsOptional()
+  @IsBoolean()
+  blockClusterCreation?: boolean;
+
+  @ApiProperty({ required: false, default: false })
+  @IsOptional()
+  @IsBoolean()
+  pauseDevClusters?: boolean;
+
+  @ApiProperty({ required: false, default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
+
+export class UpdateBudgetDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(100)
+  amountCents?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => BudgetThresholdDto)
+  thresholds?: BudgetThresholdDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsMongoId({ each: true })
+  notificationChannelIds?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  blockClusterCreation?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  pauseDevClusters?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
@@ -0,0 +1,111 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type BudgetDocument = Budget & Document;
+
+export type BudgetScope = 'org' | 'project' | 'tag';
+
+export type BudgetBasis = 'actual' | 'forecasted';
+
+export interface BudgetThreshold {
+  percent: number;
+  basis: BudgetBasis;
+}
+
+export const DEFAULT_BUDGET_THRESHOLDS: BudgetThreshold[] = [
+  { percent: 50, basis: 'actual' },
+  { percent: 80, basis: 'actual' },
+  { percent: 100, basis: 'actual' },
+  { percent: 100, basis: 'forecasted' },
+];
+
+/** Monthly spend limit for an org, a project, or clusters carrying a tag. */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_: any, ret: any) => {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class Budget {
+  id: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  orgId: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true })
+  amountCents: number; // Per calendar month
+
+  @Prop({ required: true, enum: ['org', 'project', 'tag'], default: 'org' })
+  scope: BudgetScope;
+
+  @Prop({ type: Types.ObjectId, ref: 'Project' })
+  projectId?: Types.ObjectId;
+
+  /** Matches clusters whose ClusterSettings tags contain tagKey=tagValue */
+  @Prop()
+  tagKey?: string;
+
+  @Prop()
+  tagValue?: string;
+
+  @Prop({ type: [Object], default: DEFAULT_BUDGET_THRESHOLDS })
+  thresholds: BudgetThreshold[];
+
+  @Prop({ type: [Types.ObjectId], ref: 'NotificationChannel', default: [] })
+  notificationChannelIds: Types.ObjectId[];
+
+  /** Hard cap: refuse new clusters in scope once actual spend reaches the amount */
+  @Prop({ default: false })
+  blockClusterCreation: boolean;
+
+  /** Hard cap: pause running DEV clusters in scope once actual spend reaches the amount */
+  @Prop({ default: false })
+  pauseDevClusters: boolean;
+
+  @Prop({ default: true })
+  enabled: boolean;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  // Evaluation state for the current month
+
+  @Prop()
+  periodStart?: Date;
+
+  @Prop({ default: 0 })
+  actualSpendCents: number;
+
+  @Prop({ default: 0 })
+  forecastedSpendCents: number;
+
+  /** Thresholds already notified this month, as "basis:percent" */
+  @Prop({ type: [String], default: [] })
+  notifiedThresholds: string[];
+
+  @Prop()
+  capReachedAt?: Date;
+
+  @Prop()
+  lastEvaluatedAt?: Date;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const BudgetSchema = SchemaFactory.createForClass(Budget);
+
+BudgetSchema.index({ orgId: 1 });
+BudgetSchema.index({ enabled: 1 });
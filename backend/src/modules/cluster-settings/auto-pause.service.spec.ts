@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { AutoPauseService, AUTO_PAUSE_REASON } from './auto-pause.service';
+import { ClusterSettingsService } from './cluster-settings.service';
+import { ClustersService } from '../clusters/clusters.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { JobsService } from '../jobs/jobs.service';
+import { OrgsService } from '../orgs/orgs.service';
+import { EmailService } from '../email/email.service';
+
+describe('AutoPauseService', () => {
+  let service: AutoPauseService;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const CLUSTER_ID = new Types.ObjectId();
+  const NOW = new Date('2026-03-20T12:00:00Z');
+  const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS);
+
+  const mockSettingsService = {
+    findWithAutoPauseEnabled: jest.fn(),
+    setAutoPauseWarning: jest.fn(),
+  };
+
+  const mockClustersService = {
+    findById: jest.fn(),
+    pause: jest.fn(),
+  };
+
+  const mockMetricsService = {
+    getActivitySummary: jest.fn(),
+  };
+
+  const mockJobsService = {
+    findActiveJobForCluster: jest.fn(),
+  };
+
+  const mockOrgsService = {
+    getMembers: jest.fn(),
+  };
+
+  const mockEmailService = {
+    sendAutoPauseWarning: jest.fn(),
+    sendClusterPaused: jest.fn(),
+  };
+
+  const settings = (overrides: Record<string, any> = {}): any => ({
+    clusterId: CLUSTER_ID,
+    autoPauseEnabled: true,
+    autoPauseAfterDays: 7,
+    ...overrides,
+  });
+
+  const cluster = (overrides: Record<string, any> = {}) => ({
+    id: CLUSTER_ID.toString(),
+    name: 'orders',
+    status: 'ready',
+    orgId: new Types.ObjectId(),
+    projectId: new Types.ObjectId(),
+    createdAt: daysAgo(60),
+    updatedAt: daysAgo(60),
+    ...overrides,
+  });
+
+  const idle = (since: Date) => ({ samples: 100, firstSampleAt: since, maxConnections: 0, operations: 0 });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AutoPauseService,
+        { provide: ConfigService, useValue: { get: jest.fn((_key: string, fallback?: unknown) => fallback) } },
+        { provide: ClusterSettingsService, useValue: mockSettingsService },
+        { provide: ClustersService, useValue: mockClustersService },
+        { provide: MetricsService, useValue: mockMetricsService },
+        { provide: JobsService, useValue: mockJobsService },
+        { provide: OrgsService, useValue: mockOrgsService },
+        { provide: EmailService, useValue: mockEmailService },
+      ],
+    }).compile();
+
+    service = module.get<AutoPauseService>(AutoPauseService);
+
+    jest.clearAllMocks();
+    mockClustersService.findById.mockResolvedValue(cluster());
+    mockClustersService.pause.mockResolvedValue({});
+    mockMetricsService.getActivitySummary.mockImplementation(async (_id: string, since: Date) => idle(since));
+    mockJobsService.findActiveJobForCluster.mockResolvedValue(null);
+    mockOrgsService.getMembers.mockResolvedValue([
+      { role: 'OWNER', userId: { email: 'owner@example.com' } },
+      { role: 'MEMBER', userId: { email: 'member@example.com' } },
+    ]);
+    mockEmailService.sendAutoPauseWarning.mockResolvedValue(true);
+    mockEmailService.sendClusterPaused.mockResolvedValue(true);
+  });
+
+  it('should warn owners before pausing an idle cluster', async () => {
+    await service.evaluateCluster(settings(), NOW);
+
+    expect(mockEmailService.sendAutoPauseWarning).toHaveBeenCalledTimes(1);
+    expect(mockEmailService.sendAutoPauseWarning.mock.calls[0][0]).toBe('owner@example.com');
+    expect(mockSettingsService.setAutoPauseWarning).toHaveBeenCalledWith(CLUSTER_ID.toString(), NOW);
+    expect(mockClustersService.pause).not.toHaveBeenCalled();
+  });
+
+  it('should pause once the warning lead time has passed', async () => {
+    await service.evaluateCluster(settings({ autoPauseWarningSentAt: daysAgo(1) }), NOW);
+
+    expect(mockClustersService.pause).toHaveBeenCalledWith(CLUSTER_ID.toString(), AUTO_PAUSE_REASON);
+    expect(mockSettingsService.setAutoPauseWarning).toHaveBeenCalledWith(CLUSTER_ID.toString(), null);
+    expect(mockEmailService.sendClusterPaused).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for the full lead time after a warning', async () => {
+    await service.evaluateCluster(settings({ autoPauseWarningSentAt: new Date(NOW.getTime() - 60_000) }), NOW);
+
+    expect(mockClustersService.pause).not.toHaveBeenCalled();
+  });
+
+  it('should cancel a pending pause when clients are active again', async () => {
+    mockMetricsService.getActivitySummary.mockImplementation(async (_id: string, since: Date) => ({
+      ...idle(since),
+      maxConnections: 1,
+    }));
+
+    await service.evaluateCluster(settings({ autoPauseWarningSentAt: daysAgo(1) }), NOW);
+
+    expect(mockSettingsService.setAutoPauseWarning).toHaveBeenCalledWith(CLUSTER_ID.toString(), null);
+    expect(mockClustersService.pause).not.toHaveBeenCalled();
+  });
+
+  it('should not treat an uncovered period as idle', async () => {
+    mockMetricsService.getActivitySummary.mockResolvedValue(idle(daysAgo(2)));
+
+    await service.evaluateCluster(settings(), NOW);
+
+    expect(mockEmailService.sendAutoPauseWarning).not.toHaveBeenCalled();
+  });
+
+  it('should not restart the idle clock on record updates', async () => {
+    mockClustersService.findById.mockResolvedValue(cluster({ updatedAt: daysAgo(0.5) }));
+
+    await service.evaluateCluster(settings({ autoPauseWarningSentAt: daysAgo(1) }), NOW);
+
+    expect(mockClustersService.pause).toHaveBeenCalled();
+  });
+
+  it('should restart the idle clock when the cluster is resumed', async () => {
+    mockClustersService.findById.mockResolvedValue(cluster({ resumedAt: daysAgo(3) }));
+
+    await service.evaluateCluster(settings(), NOW);
+
+    expect(mockEmailService.sendAutoPauseWarning).not.toHaveBeenCalled();
+    expect(mockMetricsService.getActivitySummary).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import { ClusterSettingsService } from './cluster-settings.service';
+import { ClusterSettingsDocument } from './schemas/cluster-settings.schema';
+import { ClustersService } from '../clusters/clusters.service';
+import { ClusterDocument } from '../clusters/schemas/cluster.schema';
+import { MetricsService } from '../metrics/metrics.service';
+import { JobsService } from '../jobs/jobs.service';
+import { OrgsService } from '../orgs/orgs.service';
+import { EmailService } from '../email/email.service';
+
+export const AUTO_PAUSE_REASON = 'auto-pause';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Metrics must start within this margin of the idle window to cover it. */
+const COVERAGE_GRACE_MS = HOUR_MS;
+
+/** Owners are warned this long before the pause (capped at half the idle period). */
+const WARNING_LEAD_MS = DAY_MS;
+
+@Injectable()
+export class AutoPauseService {
+  private readonly logger = new Logger(AutoPauseService.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly settingsService: ClusterSettingsService,
+    @Inject(forwardRef(() => ClustersService))
+    private readonly clustersService: ClustersService,
+    private readonly metricsService: MetricsService,
+    @Inject(forwardRef(() => JobsService))
+    private readonly jobsService: JobsService,
+    private readonly orgsService: OrgsService,
+    private readonly emailService: EmailService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async runAutoPause(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test') {
+      return;
+    }
+
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const settingsList = await this.settingsService.findWithAutoPauseEnabled();
+
+      for (const settings of settingsList) {
+        try {
+          await this.evaluateCluster(settings, new Date());
+        } catch (error: any) {
+          this.logger.error(`Auto-pause evaluation failed for cluster ${settings.clusterId}: ${error.message}`);
+        }
+      }
+    } catch (error: any) {
+      this.logger.error(`Auto-pause run failed: ${error.message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  async evaluateCluster(settings: ClusterSettingsDocument, now: Date): Promise<void> {
+    const clusterId = settings.clusterId.toString();
+    const cluster = await this.clustersService.findById(clusterId);
+    if (!cluster || cluster.status !== 'ready') {
+      return;
+    }
+
+    const idleDays = settings.autoPauseAfterDays || 7;
+    const idlePeriodMs = idleDays * DAY_MS;
+    const leadMs = Math.min(WARNING_LEAD_MS, idlePeriodMs / 2);
+
+    // Warn once the cluster has been idle for the period minus the lead time
+    const warnIdle = await this.isIdleSince(cluster, new Date(now.getTime() - (idlePeriodMs - leadMs)));
+    if (!warnIdle) {
+      if (settings.autoPauseWarningSentAt) {
+        this.logger.log(`Cluster ${clusterId} became active again, auto-pause cancelled`);
+        await this.settingsService.setAutoPauseWarning(clusterId, null);
+      }
+      return;
+    }
+
+    if (!settings.autoPauseWarningSentAt) {
+      await this.notifyOwners(cluster, (email, url) =>
+        this.emailService.sendAutoPauseWarning(email, cluster.name, idleDays, new Date(now.getTime() + leadMs), url),
+      );
+      await this.settingsService.setAutoPauseWarning(clusterId, now);
+      this.logger.log(`Warned owners of cluster ${clusterId} about upcoming auto-pause`);
+      return;
+    }
+
+    // Give owners the full lead time even if the warning went out late
+    if (now.getTime() - new Date(settings.autoPauseWarningSentAt).getTime() < leadMs) {
+      return;
+    }
+
+    if (!(await this.isIdleSince(cluster, new Date(now.getTime() - idlePeriodMs)))) {
+      return;
+    }
+
+    const activeJob = await this.jobsService.findActiveJobForCluster(clusterId);
+    if (activeJob) {
+      this.logger.debug(`Cluster ${clusterId} has job ${activeJob.id} in flight, postponing auto-pause`);
+      return;
+    }
+
+    this.logger.log(`Auto-pausing cluster ${clusterId} after ${idleDays} idle days`);
+    await this.clustersService.pause(clusterId, AUTO_PAUSE_REASON);
+    await this.settingsService.setAutoPauseWarning(clusterId, null);
+
+    await this.notifyOwners(cluster, (email, url) =>
+      this.emailService.sendClusterPaused(
+        email,
+        cluster.name,
+        `No client activity for ${idleDays} day${idleDays === 1 ? '' : 's'} (auto-pause)`,
+        url,
+      ),
+    );
+  }
+
+  /**
+   * A cluster is idle when metrics cover the whole period and show neither
+   * client connections nor operations. The control plane's own connections are
+   * not counted, and only creating or resuming the cluster restarts the idle
+   * clock; other record updates (settings, status changes, ...) do not.
+   */
+  private async isIdleSince(cluster: ClusterDocument, since: Date): Promise<boolean> {
+    const activeSince = cluster.resumedAt || cluster.createdAt;
+    if (activeSince && activeSince > since) {
+      return false;
+    }
+
+    const summary = await this.metricsService.getActivitySummary(cluster.id, since);
+    if (!summary.firstSampleAt || summary.firstSampleAt.getTime() > since.getTime() + COVERAGE_GRACE_MS) {
+      return false;
+    }
+
+    return summary.operations === 0 && summary.maxConnections === 0;
+  }
+
+  private async notifyOwners(
+    cluster: ClusterDocument,
+    send: (email: string, clusterUrl: string) => Promise<boolean>,
+  ): Promise<void> {
+    const orgId = cluster.orgId.toString();
+    const clusterUrl = `${this.configService.get('FRONTEND_URL')}/dashboard/orgs/${orgId}/projects/${cluster.projectId}/clusters/${cluster.id}`;
+    const members = await this.orgsService.getMembers(orgId);
+
+    for (const member of members) {
+      if (!['OWNER', 'ADMIN'].includes(member.role)) continue;
+      const email = (member.userId as any)?.email;
+      if (!email) continue;
+
+      try {
+        await send(email, clusterUrl);
+      } catch (error: any) {
+        this.logger.warn(`Failed to send auto-pause email to ${email}: ${error.message}`);
+      }
+    }
+  }
+}
@@ -10,6 +10,8 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { CurrentProjectAccess } from '../../common/decorators/project-access.decorator';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { ClusterSettingsService } from './cluster-settings.service';
 import {
@@ -23,7 +25,7 @@ import {
 
 @ApiTags('Cluster Settings')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/settings')
 export class ClusterSettingsController {
   constructor(private readonly settingsService: ClusterSettingsService) {}
@@ -41,8 +43,8 @@ export class ClusterSettingsController {
     @Param('clusterId') clusterId: string,
     @Body() dto: UpdateClusterSettingsDto,
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
   ) {
-    const orgId = user.userId; // Placeholder
     const settings = await this.settingsService.update(clusterId, dto, user.userId, orgId);
     return { success: true, data: settings };
   }
@@ -111,6 +113,13 @@ export class ClusterSettingsController {
     return { success: true, data: settings.scheduledScaling };
   }
 
+  @Get('scheduled-scaling/history')
+  @ApiOperation({ summary: 'Get scheduled scaling execution history' })
+  async getScheduledScalingHistory(@Param('clusterId') clusterId: string) {
+    const settings = await this.settingsService.getOrCreate(clusterId);
+    return { success: true, data: settings.scheduledScalingHistory };
+  }
+
   @Post('scheduled-scaling')
   @ApiOperation({ summary: 'Add scheduled scaling rule' })
   async addScheduledScaling(
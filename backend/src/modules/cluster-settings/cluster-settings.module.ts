@@ -1,9 +1,14 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ClusterSettingsController } from './cluster-settings.controller';
 import { ClusterSettingsService } from './cluster-settings.service';
+import { AutoPauseService } from './auto-pause.service';
 import { ClusterSettings, ClusterSettingsSchema } from './schemas/cluster-settings.schema';
 import { AuditModule } from '../audit/audit.module';
+import { ClustersModule } from '../clusters/clusters.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { OrgsModule } from '../orgs/orgs.module';
 
 @Module({
   imports: [
@@ -11,9 +16,13 @@ import { AuditModule } from '../audit/audit.module';
       { name: ClusterSettings.name, schema: ClusterSettingsSchema },
     ]),
     AuditModule,
+    forwardRef(() => ClustersModule),
+    forwardRef(() => JobsModule),
+    MetricsModule,
+    OrgsModule,
   ],
   controllers: [ClusterSettingsController],
-  providers: [ClusterSettingsService],
+  providers: [ClusterSettingsService, AutoPauseService],
   exports: [ClusterSettingsService],
 })
 export class ClusterSettingsModule {}
@@ -1,10 +1,15 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
 import { ClusterSettings, ClusterSettingsDocument } from './schemas/cluster-settings.schema';
 import { UpdateClusterSettingsDto, AddScheduledScalingDto } from './dto/cluster-settings.dto';
 import { AuditService } from '../audit/audit.service';
+import { parseCronExpression, isValidTimezone } from './cron-schedule';
+
+const SCHEDULED_SCALING_HISTORY_LIMIT = 100;
+
+export type ScheduledScalingHistoryEntry = ClusterSettings['scheduledScalingHistory'][number];
 
 @Injectable()
 export class ClusterSettingsService {
@@ -65,6 +70,7 @@ export class ClusterSettingsService {
   }
 
   async addScheduledScaling(clusterId: string, dto: AddScheduledScalingDto): Promise<ClusterSettingsDocument> {
+    this.validateSchedule(dto.cronSchedule, dto.timezone || 'UTC');
     const settings = await this.getOrCreate(clusterId);
     
     settings.scheduledScaling.push({
@@ -92,6 +98,11 @@ export class ClusterSettingsService {
       throw new NotFoundException('Scheduled scaling not found');
     }
 
+    this.validateSchedule(
+      update.cronSchedule ?? schedule.cronSchedule,
+      update.timezone ?? schedule.timezone,
+    );
+
     if (update.name !== undefined) schedule.name = update.name;
     if (update.enabled !== undefined) schedule.enabled = update.enabled;
     if (update.cronSchedule !== undefined) schedule.cronSchedule = update.cronSchedule;
@@ -109,6 +120,89 @@ export class ClusterSettingsService {
     return settings;
   }
 
+  async findWithAutoPauseEnabled(): Promise<ClusterSettingsDocument[]> {
+    return this.settingsModel.find({ autoPauseEnabled: true }).exec();
+  }
+
+  async setAutoPauseWarning(clusterId: string, sentAt: Date | null): Promise<void> {
+    await this.settingsModel.updateOne(
+      { clusterId: new Types.ObjectId(clusterId) },
+      sentAt ? { $set: { autoPauseWarningSentAt: sentAt } } : { $unset: { autoPauseWarningSentAt: 1 } },
+    ).exec();
+  }
+
+  /**
+   * Settings documents that have at least one enabled scaling schedule.
+   */
+  async findWithEnabledSchedules(): Promise<ClusterSettingsDocument[]> {
+    return this.settingsModel.find({ 'scheduledScaling.enabled': true }).exec();
+  }
+
+  /**
+   * Marks a schedule as fired so the same occurrence is never triggered twice.
+   * Only succeeds while the schedule still has the `lastTriggeredAt` the caller
+   * read, so of several schedulers evaluating it at once exactly one wins.
+   */
+  async markScheduleTriggered(
+    clusterId: string,
+    scheduleId: string,
+    previous: Date | undefined,
+    triggeredAt: Date,
+  ): Promise<boolean> {
+    const result = await this.settingsModel.updateOne(
+      {
+        clusterId: new Types.ObjectId(clusterId),
+        // null also matches schedules that never fired
+        scheduledScaling: { $elemMatch: { id: scheduleId, lastTriggeredAt: previous ?? null } },
+      },
+      { $set: { 'scheduledScaling.$.lastTriggeredAt': triggeredAt } },
+    ).exec();
+    return result.modifiedCount === 1;
+  }
+
+  async setScheduleJob(clusterId: string, scheduleId: string, jobId: string): Promise<void> {
+    await this.settingsModel.updateOne(
+      { clusterId: new Types.ObjectId(clusterId), 'scheduledScaling.id': scheduleId },
+      { $set: { 'scheduledScaling.$.lastJobId': jobId } },
+    ).exec();
+  }
+
+  async recordScheduledScalingHistory(
+    clusterId: string,
+    entry: ScheduledScalingHistoryEntry,
+  ): Promise<void> {
+    await this.settingsModel.updateOne(
+      { clusterId: new Types.ObjectId(clusterId) },
+      {
+        $push: {
+          scheduledScalingHistory: {
+            $each: [entry],
+            $position: 0,
+            $slice: SCHEDULED_SCALING_HISTORY_LIMIT,
+          },
+        },
+      },
+    ).exec();
+  }
+
+  private validateSchedule(cronSchedule: string, timezone: string): void {
+    try {
+      parseCronExpression(cronSchedule);
+    } catch (error: any) {
+      throw new BadRequestException({
+        code: 'INVALID_CRON_SCHEDULE',
+        message: error.message,
+      });
+    }
+
+    if (!isValidTimezone(timezone)) {
+      throw new BadRequestException({
+        code: 'INVALID_TIMEZONE',
+        message: `Unknown timezone "${timezone}"`,
+      });
+    }
+  }
+
   async getConnectionString(clusterId: string, baseConnectionString: string): Promise<string> {
     const settings = await this.get(clusterId);
     if (!settings) return baseConnectionString;
@@ -201,8 +295,13 @@ export class ClusterSettingsService {
     if (dto.writeConcern) settings.writeConcern = dto.writeConcern;
     if (dto.profilingLevel !== undefined) settings.profilingLevel = dto.profilingLevel;
     if (dto.slowOpThresholdMs !== undefined) settings.slowOpThresholdMs = dto.slowOpThresholdMs;
+    if (dto.unusedIndexDays !== undefined) settings.unusedIndexDays = dto.unusedIndexDays;
     if (dto.autoPauseEnabled !== undefined) settings.autoPauseEnabled = dto.autoPauseEnabled;
     if (dto.autoPauseAfterDays !== undefined) settings.autoPauseAfterDays = dto.autoPauseAfterDays;
+    // A changed auto-pause policy invalidates any pending inactivity warning
+    if (dto.autoPauseEnabled !== undefined || dto.autoPauseAfterDays !== undefined) {
+      settings.autoPauseWarningSentAt = undefined;
+    }
     if (dto.backupSettings) settings.backupSettings = { ...settings.backupSettings, ...dto.backupSettings };
     if (dto.alertThresholds) settings.alertThresholds = { ...settings.alertThresholds, ...dto.alertThresholds };
     if (dto.maintenancePreferences) settings.maintenancePreferences = { ...settings.maintenancePreferences, ...dto.maintenancePreferences };
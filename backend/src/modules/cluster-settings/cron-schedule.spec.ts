@@ -0,0 +1,95 @@
+import {
+  parseCronExpression,
+  matchesCron,
+  findLastCronOccurrence,
+  isValidTimezone,
+} from './cron-schedule';
+
+describe('cron-schedule', () => {
+  // ==================== parseCronExpression ====================
+
+  describe('parseCronExpression', () => {
+    it('should expand wildcards, ranges, lists and steps', () => {
+      const cron = parseCronExpression('*/15 8-10 1,15 * MON-FRI');
+
+      expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+      expect([...cron.hours]).toEqual([8, 9, 10]);
+      expect([...cron.daysOfMonth]).toEqual([1, 15]);
+      expect(cron.months.size).toBe(12);
+      expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat day-of-week 7 as Sunday', () => {
+      const cron = parseCronExpression('0 0 * * 7');
+      expect([...cron.daysOfWeek]).toEqual([0]);
+    });
+
+    it('should reject expressions with the wrong number of fields', () => {
+      expect(() => parseCronExpression('0 8 * *')).toThrow('5 fields');
+    });
+
+    it('should reject out-of-range values', () => {
+      expect(() => parseCronExpression('60 8 * * *')).toThrow('out of range');
+      expect(() => parseCronExpression('0 24 * * *')).toThrow('out of range');
+    });
+
+    it('should reject garbage values and steps', () => {
+      expect(() => parseCronExpression('abc 8 * * *')).toThrow('Invalid cron value');
+      expect(() => parseCronExpression('*/0 8 * * *')).toThrow('Invalid cron step');
+    });
+  });
+
+  // ==================== matchesCron ====================
+
+  describe('matchesCron', () => {
+    it('should match in UTC', () => {
+      const cron = parseCronExpression('0 8 * * *');
+      expect(matchesCron(cron, new Date('2024-03-04T08:00:00Z'))).toBe(true);
+      expect(matchesCron(cron, new Date('2024-03-04T08:01:00Z'))).toBe(false);
+    });
+
+    it('should evaluate in the schedule timezone', () => {
+      const cron = parseCronExpression('0 8 * * *');
+      // 08:00 in Berlin is 07:00 UTC in winter (CET) and 06:00 UTC in summer (CEST)
+      expect(matchesCron(cron, new Date('2024-01-15T07:00:00Z'), 'Europe/Berlin')).toBe(true);
+      expect(matchesCron(cron, new Date('2024-07-15T06:00:00Z'), 'Europe/Berlin')).toBe(true);
+      expect(matchesCron(cron, new Date('2024-07-15T07:00:00Z'), 'Europe/Berlin')).toBe(false);
+    });
+
+    it('should match weekday restrictions', () => {
+      const cron = parseCronExpression('0 20 * * MON-FRI');
+      // 2024-03-09 is a Saturday
+      expect(matchesCron(cron, new Date('2024-03-08T20:00:00Z'))).toBe(true);
+      expect(matchesCron(cron, new Date('2024-03-09T20:00:00Z'))).toBe(false);
+    });
+
+    it('should OR day-of-month and day-of-week when both are restricted', () => {
+      const cron = parseCronExpression('0 0 1 * MON');
+      // 2024-03-01 is a Friday, 2024-03-04 is a Monday
+      expect(matchesCron(cron, new Date('2024-03-01T00:00:00Z'))).toBe(true);
+      expect(matchesCron(cron, new Date('2024-03-04T00:00:00Z'))).toBe(true);
+      expect(matchesCron(cron, new Date('2024-03-05T00:00:00Z'))).toBe(false);
+    });
+  });
+
+  // ==================== findLastCronOccurrence ====================
+
+  describe('findLastCronOccurrence', () => {
+    it('should return the occurrence within the lookback period', () => {
+      const result = findLastCronOccurrence('0 8 * * *', 'UTC', new Date('2024-03-04T08:03:30Z'), 5);
+      expect(result?.toISOString()).toBe('2024-03-04T08:00:00.000Z');
+    });
+
+    it('should return null when the occurrence is older than the lookback', () => {
+      const result = findLastCronOccurrence('0 8 * * *', 'UTC', new Date('2024-03-04T08:10:00Z'), 5);
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('isValidTimezone', () => {
+    it('should accept IANA names and reject unknown zones', () => {
+      expect(isValidTimezone('Europe/Berlin')).toBe(true);
+      expect(isValidTimezone('Mars/Olympus')).toBe(false);
+    });
+  });
+});
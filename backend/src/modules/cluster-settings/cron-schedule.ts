@@ -0,0 +1,184 @@
+/**
+ * Minimal five-field cron evaluation (minute hour day-of-month month day-of-week)
+ * used by scheduled scaling. Supports `*`, lists, ranges, steps and
+ * three-letter month/day names. Evaluation happens in the schedule's IANA
+ * timezone via Intl, so DST transitions follow the wall clock.
+ */
+
+export interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Cron semantics: when both day fields are restricted, either may match. */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface ZonedParts {
+  minute: number;
+  hour: number;
+  day: number;
+  month: number;
+  weekday: number;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+function parseValue(token: string, names: string[] | undefined, offset: number): number {
+  if (names) {
+    const idx = names.indexOf(token.toUpperCase());
+    if (idx !== -1) return idx + offset;
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`Invalid cron value "${token}"`);
+  }
+  return Number.parseInt(token, 10);
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0,
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart !== undefined ? Number(stepPart) : 1;
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step in "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseValue(from, names, nameOffset);
+      end = parseValue(to, names, nameOffset);
+    } else {
+      start = parseValue(rangePart, names, nameOffset);
+      end = stepPart !== undefined ? max : start;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`Cron field "${part}" is out of range ${min}-${max}`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+export function parseCronExpression(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${fields.length}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    dayOfMonthRestricted: dayOfMonth !== '*',
+    dayOfWeekRestricted: dayOfWeek !== '*',
+  };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    minute: Number.parseInt(get('minute'), 10),
+    hour: Number.parseInt(get('hour'), 10),
+    day: Number.parseInt(get('day'), 10),
+    month: Number.parseInt(get('month'), 10),
+    weekday: WEEKDAY_INDEX[get('weekday')],
+  };
+}
+
+export function matchesCron(cron: ParsedCron, date: Date, timezone = 'UTC'): boolean {
+  const p = getZonedParts(date, timezone);
+
+  if (!cron.minutes.has(p.minute) || !cron.hours.has(p.hour) || !cron.months.has(p.month)) {
+    return false;
+  }
+
+  const domMatch = cron.daysOfMonth.has(p.day);
+  const dowMatch = cron.daysOfWeek.has(p.weekday);
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Returns the most recent minute within the lookback period (inclusive of the
+ * current minute) at which the expression fires, or null if it did not fire.
+ */
+export function findLastCronOccurrence(
+  expression: string,
+  timezone: string,
+  now: Date,
+  lookbackMinutes: number,
+): Date | null {
+  const cron = parseCronExpression(expression);
+  const cursor = new Date(now);
+  cursor.setUTCSeconds(0, 0);
+
+  for (let i = 0; i <= lookbackMinutes; i++) {
+    if (matchesCron(cron, cursor, timezone)) {
+      return new Date(cursor);
+    }
+    cursor.setUTCMinutes(cursor.getUTCMinutes() - 1);
+  }
+
+  return null;
+}
@@ -226,14 +226,23 @@ export class UpdateClusterSettingsDto {
   @IsNumber()
   slowOpThresholdMs?: number;
 
+  @ApiPropertyOptional({ description: 'Days without any access before an index is suggested for dropping', minimum: 1, maximum: 365 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(365)
+  unusedIndexDays?: number;
+
   @ApiPropertyOptional()
   @IsOptional()
   @IsBoolean()
   autoPauseEnabled?: boolean;
 
-  @ApiPropertyOptional()
+  @ApiPropertyOptional({ description: 'Days without client activity before the cluster is paused', minimum: 1, maximum: 30 })
   @IsOptional()
   @IsNumber()
+  @Min(1)
+  @Max(30) // bounded by the metrics retention period
   autoPauseAfterDays?: number;
 
   @ApiPropertyOptional()
@@ -67,6 +67,10 @@ export class ClusterSettings {
   @Prop({ default: 100 })
   slowOpThresholdMs: number;
 
+  // Days without any access before the index advisor suggests dropping an index
+  @Prop({ default: 30 })
+  unusedIndexDays: number;
+
   // Auto-pause settings
   @Prop({ default: false })
   autoPauseEnabled: boolean;
@@ -74,6 +78,9 @@ export class ClusterSettings {
   @Prop({ default: 7 })
   autoPauseAfterDays: number;
 
+  @Prop()
+  autoPauseWarningSentAt?: Date;
+
   // Scheduled scaling
   @Prop({ type: [Object], default: [] })
   scheduledScaling: Array<{
@@ -83,6 +90,21 @@ export class ClusterSettings {
     cronSchedule: string;
     targetPlan: string;
     timezone: string;
+    lastTriggeredAt?: Date;
+    lastJobId?: string;
+  }>;
+
+  // Outcome of each scheduled scaling trigger (most recent first, capped)
+  @Prop({ type: [Object], default: [] })
+  scheduledScalingHistory: Array<{
+    scheduleId: string;
+    scheduleName: string;
+    triggeredAt: Date;
+    fromPlan: string;
+    toPlan: string;
+    status: 'enqueued' | 'skipped' | 'failed';
+    reason?: string;
+    jobId?: string;
   }>;
 
   // Backup settings
@@ -11,16 +11,18 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { CurrentProjectAccess, RequireProjectRole } from '../../common/decorators/project-access.decorator';
 import { ClustersService } from './clusters.service';
-import { ProjectsService } from '../projects/projects.service';
-import { OrgsService } from '../orgs/orgs.service';
+import { ProjectAccessService } from '../project-access/project-access.service';
 import { KubernetesService } from '../kubernetes/kubernetes.service';
 import { CreateClusterDto, CloneClusterDto } from './dto/create-cluster.dto';
 import { ResizeClusterDto } from './dto/resize-cluster.dto';
 import { UpdateClusterDto } from './dto/update-cluster.dto';
 import { PauseClusterDto, ResumeClusterDto } from './dto/pause-cluster.dto';
 import { AuditService } from '../audit/audit.service';
+import { BudgetsService } from '../budgets/budgets.service';
 
 function auditActor(user: CurrentUserData) {
   return {
@@ -32,31 +34,28 @@ function auditActor(user: CurrentUserData) {
 
 @ApiTags('Clusters')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters')
 export class ClustersController {
   constructor(
     private readonly clustersService: ClustersService,
-    private readonly projectsService: ProjectsService,
-    private readonly orgsService: OrgsService,
+    private readonly projectAccessService: ProjectAccessService,
     private readonly kubernetesService: KubernetesService,
     private readonly auditService: AuditService,
+    private readonly budgetsService: BudgetsService,
   ) {}
 
   @Post()
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Create a new cluster' })
   async create(
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
     @Param('projectId') projectId: string,
     @Body() createClusterDto: CreateClusterDto,
   ) {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
+    await this.budgetsService.assertCanCreateCluster(orgId, projectId);
 
-    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN', 'MEMBER']);
-    
     const cluster = await this.clustersService.create(
       projectId,
       orgId,
@@ -85,16 +84,8 @@ export class ClustersController {
   @Get()
   @ApiOperation({ summary: 'Get all clusters in project' })
   async findAll(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
   ) {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, user.userId);
-    
     const clusters = await this.clustersService.findAllByProject(projectId);
     return {
       success: true,
@@ -105,17 +96,9 @@ export class ClustersController {
   @Get(':clusterId')
   @ApiOperation({ summary: 'Get cluster by ID' })
   async findOne(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
   ) {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, user.userId);
-    
     const cluster = await this.clustersService.findById(clusterId);
     if (!cluster || cluster.projectId.toString() !== projectId) {
       throw new NotFoundException('Cluster not found');
@@ -128,19 +111,12 @@ export class ClustersController {
   }
 
   @Get(':clusterId/credentials')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Get cluster credentials' })
   async getCredentials(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
   ) {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN', 'MEMBER']);
-    
     const result = await this.clustersService.findByIdWithCredentials(clusterId);
     if (!result || result.cluster.projectId.toString() !== projectId) {
       throw new NotFoundException('Cluster not found');
@@ -155,17 +131,9 @@ export class ClustersController {
   @Get(':clusterId/status')
   @ApiOperation({ summary: 'Get real-time cluster status from Kubernetes' })
   async getStatus(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
   ) {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, user.userId);
-
     const cluster = await this.clustersService.findById(clusterId);
     if (!cluster || cluster.projectId.toString() !== projectId) {
       throw new NotFoundException('Cluster not found');
@@ -187,17 +155,11 @@ export class ClustersController {
   @ApiOperation({ summary: 'Resize cluster' })
   async resize(
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Body() resizeClusterDto: ResizeClusterDto,
   ) {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
-    
     const cluster = await this.clustersService.findById(clusterId);
     if (!cluster || cluster.projectId.toString() !== projectId) {
       throw new NotFoundException('Cluster not found');
@@ -229,17 +191,11 @@ export class ClustersController {
   @ApiOperation({ summary: 'Pause a cluster to save costs' })
   async pause(
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Body() pauseDto: PauseClusterDto,
   ) {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
-    
     const cluster = await this.clustersService.findById(clusterId);
     if (!cluster || cluster.projectId.toString() !== projectId) {
       throw new NotFoundException('Cluster not found');
@@ -270,17 +226,11 @@ export class ClustersController {
   @ApiOperation({ summary: 'Resume a paused cluster' })
   async resume(
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Body() resumeDto: ResumeClusterDto,
   ) {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
-    
     const cluster = await this.clustersService.findById(clusterId);
     if (!cluster || cluster.projectId.toString() !== projectId) {
       throw new NotFoundException('Cluster not found');
@@ -310,17 +260,9 @@ export class ClustersController {
   @Post(':clusterId/enable-external-access')
   @ApiOperation({ summary: 'Enable external access for an existing cluster (creates NodePort service)' })
   async enableExternalAccess(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
   ) {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
-
     const cluster = await this.clustersService.findById(clusterId);
     if (!cluster || cluster.projectId.toString() !== projectId) {
       throw new NotFoundException('Cluster not found');
@@ -350,23 +292,23 @@ export class ClustersController {
   @ApiOperation({ summary: 'Clone a cluster' })
   async clone(
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Body() body: CloneClusterDto,
   ) {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
-    
     const sourceCluster = await this.clustersService.findById(clusterId);
     if (!sourceCluster || sourceCluster.projectId.toString() !== projectId) {
       throw new NotFoundException('Cluster not found');
     }
 
     const targetProjectId = body.targetProjectId || projectId;
+    if (targetProjectId !== projectId) {
+      await this.projectAccessService.checkAccess(targetProjectId, user.userId, 'PROJECT_OWNER');
+    }
+
+    await this.budgetsService.assertCanCreateCluster(orgId, targetProjectId);
+
     const clone = await this.clustersService.clone(
       clusterId,
       targetProjectId,
@@ -398,17 +340,11 @@ export class ClustersController {
   @ApiOperation({ summary: 'Update cluster properties (e.g., rename)' })
   async update(
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Body() updateClusterDto: UpdateClusterDto,
   ) {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
-    
     const cluster = await this.clustersService.findById(clusterId);
     if (!cluster || cluster.projectId.toString() !== projectId) {
       throw new NotFoundException('Cluster not found');
@@ -440,16 +376,10 @@ export class ClustersController {
   @ApiOperation({ summary: 'Delete cluster and all related data' })
   async remove(
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
   ) {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
-    
     const cluster = await this.clustersService.findById(clusterId);
     if (!cluster || cluster.projectId.toString() !== projectId) {
       throw new NotFoundException('Cluster not found');
@@ -8,6 +8,7 @@ import { OrgsModule } from '../orgs/orgs.module';
 import { JobsModule } from '../jobs/jobs.module';
 import { CredentialsModule } from '../credentials/credentials.module';
 import { KubernetesModule } from '../kubernetes/kubernetes.module';
+import { BudgetsModule } from '../budgets/budgets.module';
 
 @Module({
   imports: [
@@ -17,6 +18,7 @@ import { KubernetesModule } from '../kubernetes/kubernetes.module';
     forwardRef(() => JobsModule),
     forwardRef(() => CredentialsModule),
     KubernetesModule,
+    forwardRef(() => BudgetsModule),
   ],
   controllers: [ClustersController],
   providers: [ClustersService],
@@ -294,6 +294,20 @@ export class ClustersService {
     return cluster;
   }
 
+  async updateMongoVersion(clusterId: string, mongoVersion: string): Promise<ClusterDocument> {
+    const cluster = await this.clusterModel.findByIdAndUpdate(
+      clusterId,
+      { $set: { mongoVersion } },
+      { new: true },
+    ).exec();
+
+    if (!cluster) {
+      throw new NotFoundException('Cluster not found');
+    }
+
+    return cluster;
+  }
+
   /**
    * Hard delete cluster and ALL related data (cascade delete)
    * Called after Kubernetes resources are cleaned up
@@ -322,9 +336,14 @@ export class ClustersService {
       'metrics',
       'slowqueries',
       'indexsuggestions',
+      'queryshapestats',
+      'queryregressions',
+      'piimaps',
+      'piiscans',
       'maintenancewindows',
       'logforwardings',
       'archiverules',
+      'archivepartitions',
       'clusterendpoints',
       'clustersettings',
       'collectionschemas',
@@ -487,6 +506,7 @@ export class ClustersService {
       { 
         $set: { 
           status: 'ready' as ClusterStatus,
+          resumedAt: new Date(),
         },
         $unset: {
           pausedAt: 1,
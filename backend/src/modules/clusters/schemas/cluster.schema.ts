@@ -61,6 +61,10 @@ export class Cluster {
   @Prop()
   pauseReason?: string;
 
+  /** Last time the cluster came back from a pause; auto-pause counts idle time from here */
+  @Prop()
+  resumedAt?: Date;
+
   @Prop({ default: '7.0.5' })
   mongoVersion: string;
 
@@ -11,6 +11,7 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { DashboardsService } from './dashboards.service';
 import { CreateDashboardDto, UpdateDashboardDto, AddWidgetDto, UpdateWidgetDto } from './dto/dashboard.dto';
@@ -176,7 +177,7 @@ export class DashboardsController {
 // Cluster-specific dashboard controller
 @ApiTags('Dashboards')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/dashboards')
 export class ClusterDashboardsController {
   constructor(private readonly dashboardsService: DashboardsService) {}
@@ -12,11 +12,10 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
-import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { RequireProjectRole } from '../../common/decorators/project-access.decorator';
 import { DataExplorerService } from './data-explorer.service';
-import { ClustersService } from '../clusters/clusters.service';
-import { ProjectsService } from '../projects/projects.service';
-import { OrgsService } from '../orgs/orgs.service';
+import { FederatedQueryService } from '../online-archive/federated-query.service';
 import {
   CreateDatabaseDto,
   CreateCollectionDto,
@@ -30,14 +29,12 @@ import {
 
 @ApiTags('Data Explorer')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/explorer')
 export class DataExplorerController {
   constructor(
     private readonly dataExplorerService: DataExplorerService,
-    private readonly clustersService: ClustersService,
-    private readonly projectsService: ProjectsService,
-    private readonly orgsService: OrgsService,
+    private readonly federatedQueryService: FederatedQueryService,
   ) {}
 
   // ==================== Databases ====================
@@ -45,12 +42,9 @@ export class DataExplorerController {
   @Get('databases')
   @ApiOperation({ summary: 'List all databases' })
   async listDatabases(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const databases = await this.dataExplorerService.listDatabases(clusterId);
 
     return {
@@ -60,15 +54,13 @@ export class DataExplorerController {
   }
 
   @Post('databases')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Create a database' })
   async createDatabase(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Body() createDto: CreateDatabaseDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN', 'MEMBER']);
-
     await this.dataExplorerService.createDatabase(clusterId, createDto.name);
 
     return {
@@ -80,13 +72,10 @@ export class DataExplorerController {
   @Delete('databases/:dbName')
   @ApiOperation({ summary: 'Drop a database' })
   async dropDatabase(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
     await this.dataExplorerService.dropDatabase(clusterId, dbName);
 
     return {
@@ -100,13 +89,10 @@ export class DataExplorerController {
   @Get('databases/:dbName/collections')
   @ApiOperation({ summary: 'List all collections in a database' })
   async listCollections(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const collections = await this.dataExplorerService.listCollections(clusterId, dbName);
 
     return {
@@ -116,16 +102,14 @@ export class DataExplorerController {
   }
 
   @Post('databases/:dbName/collections')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Create a collection' })
   async createCollection(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
     @Body() createDto: CreateCollectionDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN', 'MEMBER']);
-
     await this.dataExplorerService.createCollection(clusterId, dbName, createDto.name);
 
     return {
@@ -137,14 +121,11 @@ export class DataExplorerController {
   @Delete('databases/:dbName/collections/:collectionName')
   @ApiOperation({ summary: 'Drop a collection' })
   async dropCollection(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
     @Param('collectionName') collectionName: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
     await this.dataExplorerService.dropCollection(clusterId, dbName, collectionName);
 
     return {
@@ -156,17 +137,15 @@ export class DataExplorerController {
   // ==================== Documents ====================
 
   @Post('databases/:dbName/collections/:collectionName/find')
+  @RequireProjectRole('PROJECT_READ_ONLY')
   @ApiOperation({ summary: 'Query documents' })
   async findDocuments(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
     @Param('collectionName') collectionName: string,
     @Body() queryDto: QueryDocumentsDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const result = await this.dataExplorerService.findDocuments(
       clusterId,
       dbName,
@@ -183,15 +162,12 @@ export class DataExplorerController {
   @Get('databases/:dbName/collections/:collectionName/documents/:documentId')
   @ApiOperation({ summary: 'Get a single document by ID' })
   async findDocument(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
     @Param('collectionName') collectionName: string,
     @Param('documentId') documentId: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const document = await this.dataExplorerService.findDocumentById(
       clusterId,
       dbName,
@@ -210,17 +186,15 @@ export class DataExplorerController {
   }
 
   @Post('databases/:dbName/collections/:collectionName/documents')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Insert a document' })
   async insertDocument(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
     @Param('collectionName') collectionName: string,
     @Body() insertDto: InsertDocumentDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN', 'MEMBER']);
-
     const result = await this.dataExplorerService.insertDocument(
       clusterId,
       dbName,
@@ -236,9 +210,9 @@ export class DataExplorerController {
   }
 
   @Put('databases/:dbName/collections/:collectionName/documents/:documentId')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Update a document' })
   async updateDocument(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
@@ -246,8 +220,6 @@ export class DataExplorerController {
     @Param('documentId') documentId: string,
     @Body() updateDto: UpdateDocumentDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN', 'MEMBER']);
-
     const result = await this.dataExplorerService.updateDocument(
       clusterId,
       dbName,
@@ -264,17 +236,15 @@ export class DataExplorerController {
   }
 
   @Delete('databases/:dbName/collections/:collectionName/documents/:documentId')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Delete a document' })
   async deleteDocument(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
     @Param('collectionName') collectionName: string,
     @Param('documentId') documentId: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN', 'MEMBER']);
-
     const result = await this.dataExplorerService.deleteDocument(
       clusterId,
       dbName,
@@ -292,15 +262,12 @@ export class DataExplorerController {
   @Post('databases/:dbName/collections/:collectionName/deleteMany')
   @ApiOperation({ summary: 'Delete multiple documents' })
   async deleteDocuments(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
     @Param('collectionName') collectionName: string,
     @Body() deleteDto: DeleteDocumentsDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
     const result = await this.dataExplorerService.deleteDocuments(
       clusterId,
       dbName,
@@ -320,14 +287,11 @@ export class DataExplorerController {
   @Get('databases/:dbName/collections/:collectionName/indexes')
   @ApiOperation({ summary: 'List indexes' })
   async listIndexes(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
     @Param('collectionName') collectionName: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const indexes = await this.dataExplorerService.listIndexes(
       clusterId,
       dbName,
@@ -343,15 +307,12 @@ export class DataExplorerController {
   @Post('databases/:dbName/collections/:collectionName/indexes')
   @ApiOperation({ summary: 'Create an index' })
   async createIndex(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
     @Param('collectionName') collectionName: string,
     @Body() createDto: CreateIndexDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
     const result = await this.dataExplorerService.createIndex(
       clusterId,
       dbName,
@@ -376,15 +337,12 @@ export class DataExplorerController {
   @Delete('databases/:dbName/collections/:collectionName/indexes/:indexName')
   @ApiOperation({ summary: 'Drop an index' })
   async dropIndex(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
     @Param('collectionName') collectionName: string,
     @Param('indexName') indexName: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
     await this.dataExplorerService.dropIndex(
       clusterId,
       dbName,
@@ -401,17 +359,15 @@ export class DataExplorerController {
   // ==================== Aggregation ====================
 
   @Post('databases/:dbName/collections/:collectionName/aggregate')
+  @RequireProjectRole('PROJECT_READ_ONLY')
   @ApiOperation({ summary: 'Run an aggregation pipeline' })
   async runAggregation(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('dbName') dbName: string,
     @Param('collectionName') collectionName: string,
     @Body() aggregationDto: RunAggregationDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const result = await this.dataExplorerService.runAggregation(
       clusterId,
       dbName,
@@ -425,31 +381,35 @@ export class DataExplorerController {
     };
   }
 
-  // ==================== Helper ====================
-
-  private async verifyAccess(
-    userId: string,
-    projectId: string,
-    clusterId: string,
-    requiredRoles?: ('OWNER' | 'ADMIN' | 'MEMBER' | 'READONLY')[],
-  ): Promise<string> {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, userId, requiredRoles);
-
-    const cluster = await this.clustersService.findById(clusterId);
-    if (!cluster || cluster.projectId.toString() !== projectId) {
-      throw new NotFoundException('Cluster not found');
-    }
+  // ==================== Federated Query ====================
+
+  @Post('databases/:dbName/collections/:collectionName/federated/find')
+  @RequireProjectRole('PROJECT_READ_ONLY')
+  @ApiOperation({
+    summary: 'Query live and archived documents together',
+    description:
+      'Archived partitions are scanned in the API process. Queries that would scan more than ' +
+      'FEDERATED_QUERY_MAX_PARTITIONS partitions or FEDERATED_QUERY_MAX_SCAN_BYTES uncompressed bytes (1 GiB by default), ' +
+      'or page past 10,000 documents, fail with 400; add a range on the archived date field.',
+  })
+  async findFederated(
+    @Param('projectId') projectId: string,
+    @Param('clusterId') clusterId: string,
+    @Param('dbName') dbName: string,
+    @Param('collectionName') collectionName: string,
+    @Body() queryDto: QueryDocumentsDto,
+  ) {
+    const result = await this.federatedQueryService.find(
+      clusterId,
+      dbName,
+      collectionName,
+      queryDto,
+    );
 
-    return orgId;
+    return {
+      success: true,
+      data: result,
+    };
   }
 }
 
-
-
-
-
@@ -5,6 +5,7 @@ import { ClustersModule } from '../clusters/clusters.module';
 import { ProjectsModule } from '../projects/projects.module';
 import { OrgsModule } from '../orgs/orgs.module';
 import { CredentialsModule } from '../credentials/credentials.module';
+import { OnlineArchiveModule } from '../online-archive/online-archive.module';
 
 @Module({
   imports: [
@@ -12,6 +13,7 @@ import { CredentialsModule } from '../credentials/credentials.module';
     ProjectsModule,
     OrgsModule,
     CredentialsModule,
+    forwardRef(() => OnlineArchiveModule),
   ],
   controllers: [DataExplorerController],
   providers: [DataExplorerService],
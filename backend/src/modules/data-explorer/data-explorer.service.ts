@@ -8,6 +8,7 @@ import { ConfigService } from '@nestjs/config';
 import { MongoClient, Db, Collection, ObjectId, Document, GridFSBucket } from 'mongodb';
 import { CredentialsService } from '../credentials/credentials.service';
 import { ClustersService } from '../clusters/clusters.service';
+import { CONTROL_PLANE_APP_NAME } from '../metrics/client-activity';
 
 export interface DatabaseInfo {
   name: string;
@@ -94,6 +95,7 @@ export class DataExplorerService {
 
     // Create connection
     const client = new MongoClient(connectionString, {
+      appName: CONTROL_PLANE_APP_NAME,
       maxPoolSize: 5,
       minPoolSize: 1,
       maxIdleTimeMS: 30000,
@@ -452,6 +454,27 @@ export class DataExplorerService {
     this.logger.log(`Dropped index ${indexName} on ${dbName}.${collectionName}`);
   }
 
+  /**
+   * Hide an index from the query planner without dropping it. A hidden
+   * index is still maintained on writes, so unhiding it is instant.
+   */
+  async setIndexHidden(
+    clusterId: string,
+    dbName: string,
+    collectionName: string,
+    indexName: string,
+    hidden: boolean,
+  ): Promise<void> {
+    if (indexName === '_id_') {
+      throw new BadRequestException('Cannot hide the _id index');
+    }
+
+    const client = await this.getConnection(clusterId);
+    await client.db(dbName).command({ collMod: collectionName, index: { name: indexName, hidden } });
+
+    this.logger.log(`${hidden ? 'Hid' : 'Unhid'} index ${indexName} on ${dbName}.${collectionName}`);
+  }
+
   // ==================== Aggregation ====================
 
   async runAggregation(
@@ -524,7 +547,7 @@ export class DataExplorerService {
     return parsed;
   }
 
-  private serializeDocument(doc: Document): Document {
+  serializeDocument(doc: Document): Document {
     const serialized: Document = {};
 
     for (const [key, value] of Object.entries(doc)) {
@@ -13,24 +13,21 @@ import {
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { Types } from 'mongoose';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
-import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { CurrentProjectAccess, RequireProjectRole } from '../../common/decorators/project-access.decorator';
 import { DatabaseUsersService } from './database-users.service';
 import { ClustersService } from '../clusters/clusters.service';
-import { ProjectsService } from '../projects/projects.service';
-import { OrgsService } from '../orgs/orgs.service';
 import { CreateDatabaseUserDto } from './dto/create-database-user.dto';
 import { UpdateDatabaseUserDto } from './dto/update-database-user.dto';
 
 @ApiTags('Database Users')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/database-users')
 export class DatabaseUsersController {
   constructor(
     private readonly dbUsersService: DatabaseUsersService,
     private readonly clustersService: ClustersService,
-    private readonly projectsService: ProjectsService,
-    private readonly orgsService: OrgsService,
   ) {}
 
   private validateObjectId(id: string, name: string): void {
@@ -40,9 +37,10 @@ export class DatabaseUsersController {
   }
 
   @Post()
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Create a database user for a cluster' })
   async create(
-    @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Body() createDto: CreateDatabaseUserDto,
@@ -50,13 +48,6 @@ export class DatabaseUsersController {
     this.validateObjectId(projectId, 'project');
     this.validateObjectId(clusterId, 'cluster');
 
-    // Verify access
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN', 'MEMBER']);
-
     // Verify cluster belongs to project
     const cluster = await this.clustersService.findById(clusterId);
     if (!cluster || cluster.projectId.toString() !== projectId) {
@@ -79,20 +70,12 @@ export class DatabaseUsersController {
   @Get()
   @ApiOperation({ summary: 'List all database users for a cluster' })
   async findAll(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
   ) {
     this.validateObjectId(projectId, 'project');
     this.validateObjectId(clusterId, 'cluster');
 
-    // Verify access
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-    await this.orgsService.checkAccess(orgId, user.userId);
-
     // Verify cluster belongs to project
     const cluster = await this.clustersService.findById(clusterId);
     if (!cluster || cluster.projectId.toString() !== projectId) {
@@ -110,7 +93,6 @@ export class DatabaseUsersController {
   @Get(':userId')
   @ApiOperation({ summary: 'Get a database user by ID' })
   async findOne(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('userId') userId: string,
@@ -119,13 +101,6 @@ export class DatabaseUsersController {
     this.validateObjectId(clusterId, 'cluster');
     this.validateObjectId(userId, 'user');
 
-    // Verify access
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-    await this.orgsService.checkAccess(orgId, user.userId);
-
     const dbUser = await this.dbUsersService.findById(userId);
     if (!dbUser || dbUser.clusterId.toString() !== clusterId) {
       throw new NotFoundException('Database user not found');
@@ -140,7 +115,6 @@ export class DatabaseUsersController {
   @Patch(':userId')
   @ApiOperation({ summary: 'Update a database user' })
   async update(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('userId') userId: string,
@@ -150,13 +124,6 @@ export class DatabaseUsersController {
     this.validateObjectId(clusterId, 'cluster');
     this.validateObjectId(userId, 'user');
 
-    // Verify access
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
-
     const dbUser = await this.dbUsersService.findById(userId);
     if (!dbUser || dbUser.clusterId.toString() !== clusterId) {
       throw new NotFoundException('Database user not found');
@@ -173,7 +140,6 @@ export class DatabaseUsersController {
   @Delete(':userId')
   @ApiOperation({ summary: 'Delete a database user' })
   async remove(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('userId') userId: string,
@@ -182,13 +148,6 @@ export class DatabaseUsersController {
     this.validateObjectId(clusterId, 'cluster');
     this.validateObjectId(userId, 'user');
 
-    // Verify access
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
-
     const dbUser = await this.dbUsersService.findById(userId);
     if (!dbUser || dbUser.clusterId.toString() !== clusterId) {
       throw new NotFoundException('Database user not found');
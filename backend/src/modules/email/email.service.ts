@@ -208,6 +208,29 @@ export class EmailService {
     return result.success;
   }
 
+  async sendBudgetAlert(options: {
+    to: string;
+    budgetName: string;
+    scope: string;
+    severity: string;
+    message: string;
+    budgetUrl: string;
+  }): Promise<boolean> {
+    const result = await this.send({
+      to: options.to,
+      subject: `[${options.severity.toUpperCase()}] Budget ${options.budgetName} - EUTLAS`,
+      html: this.getBudgetAlertTemplate(
+        options.budgetName,
+        options.scope,
+        options.severity,
+        options.message,
+        options.budgetUrl,
+      ),
+    });
+
+    return result.success;
+  }
+
   // ===== HTML Templates =====
 
   private getBaseTemplate(content: string): string {
@@ -340,6 +363,33 @@ export class EmailService {
     `);
   }
 
+  private getBudgetAlertTemplate(budgetName: string, scope: string, severity: string, message: string, budgetUrl: string): string {
+    const severityColors: Record<string, string> = {
+      critical: '#dc2626',
+      warning: '#f59e0b',
+      info: '#3b82f6',
+    };
+    const color = severityColors[severity] || severityColors.info;
+
+    return this.getBaseTemplate(`
+      <div style="padding: 16px; background-color: ${color}10; border-left: 4px solid ${color}; border-radius: 4px; margin-bottom: 24px;">
+        <p style="margin: 0; font-size: 12px; color: ${color}; font-weight: 600; text-transform: uppercase;">
+          Budget Alert
+        </p>
+        <h2 style="margin: 8px 0 0; font-size: 18px; color: #18181b;">${budgetName}</h2>
+      </div>
+      <p style="margin: 0 0 16px; font-size: 16px; color: #3f3f46; line-height: 1.6;">
+        <strong>Scope:</strong> ${scope}
+      </p>
+      <p style="margin: 0 0 24px; font-size: 16px; color: #3f3f46; line-height: 1.6;">
+        ${message}
+      </p>
+      <a href="${budgetUrl}" style="display: inline-block; padding: 12px 32px; background-color: #18181b; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+        View Budget
+      </a>
+    `);
+  }
+
   private getBackupNotificationTemplate(clusterName: string, type: 'completed' | 'failed', details?: string): string {
     const isSuccess = type === 'completed';
     return this.getBaseTemplate(`
@@ -411,6 +461,21 @@ export class EmailService {
     return result.success;
   }
 
+  async sendAutoPauseWarning(
+    email: string,
+    clusterName: string,
+    idleDays: number,
+    pauseAt: Date,
+    clusterUrl: string,
+  ): Promise<boolean> {
+    const result = await this.send({
+      to: email,
+      subject: `Cluster "${clusterName}" will be paused due to inactivity`,
+      html: this.getAutoPauseWarningTemplate(clusterName, idleDays, pauseAt, clusterUrl),
+    });
+    return result.success;
+  }
+
   async sendUsageWarning(
     email: string,
     clusterName: string,
@@ -428,6 +493,21 @@ export class EmailService {
 
   // ===== Payment Emails =====
 
+  async sendInvoiceIssued(
+    email: string,
+    invoiceNumber: string,
+    amount: string,
+    dueDate: string,
+    invoiceUrl: string,
+  ): Promise<boolean> {
+    const result = await this.send({
+      to: email,
+      subject: `New Invoice ${invoiceNumber} - EUTLAS`,
+      html: this.getInvoiceIssuedTemplate(invoiceNumber, amount, dueDate, invoiceUrl),
+    });
+    return result.success;
+  }
+
   async sendPaymentFailed(
     email: string,
     amount: string,
@@ -520,6 +600,29 @@ export class EmailService {
     `);
   }
 
+  private getAutoPauseWarningTemplate(clusterName: string, idleDays: number, pauseAt: Date, clusterUrl: string): string {
+    return this.getBaseTemplate(`
+      <div style="padding: 16px; background-color: #f59e0b10; border-left: 4px solid #f59e0b; border-radius: 4px; margin-bottom: 24px;">
+        <p style="margin: 0; font-size: 12px; color: #f59e0b; font-weight: 600; text-transform: uppercase;">
+          Auto-Pause Scheduled
+        </p>
+        <h2 style="margin: 8px 0 0; font-size: 18px; color: #18181b;">
+          ${clusterName} is idle
+        </h2>
+      </div>
+      <p style="margin: 0 0 16px; font-size: 16px; color: #3f3f46; line-height: 1.6;">
+        Your cluster <strong>${clusterName}</strong> has had no client activity and will be paused automatically
+        after ${idleDays} idle day${idleDays === 1 ? '' : 's'}, on <strong>${pauseAt.toUTCString()}</strong>.
+      </p>
+      <p style="margin: 0 0 24px; font-size: 14px; color: #71717a; line-height: 1.6;">
+        Any connection or operation before then cancels the pause. You can also disable auto-pause in the cluster settings.
+      </p>
+      <a href="${clusterUrl}" style="display: inline-block; padding: 12px 32px; background-color: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+        View Cluster
+      </a>
+    `);
+  }
+
   private getUsageWarningTemplate(clusterName: string, usagePercent: number, resourceType: string, upgradeUrl: string): string {
     const color = usagePercent >= 90 ? '#dc2626' : '#f59e0b';
     return this.getBaseTemplate(`
@@ -545,6 +648,32 @@ export class EmailService {
     `);
   }
 
+  private getInvoiceIssuedTemplate(invoiceNumber: string, amount: string, dueDate: string, invoiceUrl: string): string {
+    return this.getBaseTemplate(`
+      <div style="padding: 16px; background-color: #dbeafe; border-radius: 8px; margin-bottom: 24px; text-align: center;">
+        <h2 style="margin: 0; font-size: 20px; color: #1e40af;">
+          New Invoice
+        </h2>
+      </div>
+      <p style="margin: 0 0 16px; font-size: 16px; color: #3f3f46; line-height: 1.6;">
+        Invoice <strong>${invoiceNumber}</strong> has been generated for your organization.
+      </p>
+      <table style="width: 100%; margin-bottom: 24px;">
+        <tr>
+          <td style="padding: 8px 0; color: #71717a;">Amount:</td>
+          <td style="padding: 8px 0; font-weight: bold; text-align: right;">${amount}</td>
+        </tr>
+        <tr>
+          <td style="padding: 8px 0; color: #71717a; border-top: 1px solid #e4e4e7;">Due Date:</td>
+          <td style="padding: 8px 0; font-weight: bold; text-align: right; border-top: 1px solid #e4e4e7;">${dueDate}</td>
+        </tr>
+      </table>
+      <a href="${invoiceUrl}" style="display: inline-block; padding: 12px 32px; background-color: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px; font-weight: 600; font-size: 16px;">
+        View Invoice
+      </a>
+    `);
+  }
+
   private getPaymentFailedTemplate(amount: string, updatePaymentUrl: string): string {
     return this.getBaseTemplate(`
       <div style="padding: 16px; background-color: #fef2f2; border-radius: 8px; margin-bottom: 24px; text-align: center;">
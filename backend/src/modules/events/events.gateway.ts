@@ -6,14 +6,17 @@ import {
   OnGatewayDisconnect,
   ConnectedSocket,
   MessageBody,
+  WsException,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { Logger, UseGuards } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
-import { ConfigService } from '@nestjs/config';
+import { HttpException, Logger, UseGuards } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { AccessTokensService } from '../users/access-tokens.service';
+import { ProjectAccessService } from '../project-access/project-access.service';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
+  sessionId?: string;
   orgIds?: string[];
 }
 
@@ -32,8 +35,8 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
   private connectedClients: Map<string, AuthenticatedSocket> = new Map();
 
   constructor(
-    private jwtService: JwtService,
-    private configService: ConfigService,
+    private accessTokensService: AccessTokensService,
+    private projectAccessService: ProjectAccessService,
   ) {}
 
   async handleConnection(client: AuthenticatedSocket) {
@@ -48,15 +51,14 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
         return;
       }
 
-      // Verify JWT
-      const payload = this.jwtService.verify(token, {
-        secret: this.configService.get('JWT_SECRET'),
-      });
+      // Same checks as HTTP requests, including the session
+      const user = await this.accessTokensService.verify(token);
 
-      client.userId = payload.sub;
+      client.userId = user.userId;
+      client.sessionId = user.sessionId;
       this.connectedClients.set(client.id, client);
 
-      this.logger.log(`Client connected: ${client.id}, User: ${payload.sub}`);
+      this.logger.log(`Client connected: ${client.id}, User: ${user.userId}`);
       
       // Acknowledge connection
       client.emit('connected', { 
@@ -74,6 +76,18 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
     this.logger.log(`Client disconnected: ${client.id}`);
   }
 
+  /** Sessions revoked after the socket connected (sign-out, password change) end the stream */
+  @Interval(60_000)
+  async disconnectRevokedSessions() {
+    for (const client of this.connectedClients.values()) {
+      if (!client.userId || !client.sessionId) continue;
+      if (!(await this.accessTokensService.isSessionActive(client.sessionId, client.userId))) {
+        this.logger.log(`Disconnecting ${client.id}: session revoked`);
+        client.disconnect();
+      }
+    }
+  }
+
   @SubscribeMessage('subscribe:org')
   handleSubscribeOrg(
     @ConnectedSocket() client: AuthenticatedSocket,
@@ -86,10 +100,12 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
   }
 
   @SubscribeMessage('subscribe:project')
-  handleSubscribeProject(
+  async handleSubscribeProject(
     @ConnectedSocket() client: AuthenticatedSocket,
     @MessageBody() data: { projectId: string },
   ) {
+    await this.assertAccess(() => this.projectAccessService.checkAccess(data.projectId, client.userId!));
+
     const room = `project:${data.projectId}`;
     client.join(room);
     this.logger.log(`Client ${client.id} subscribed to project: ${data.projectId}`);
@@ -97,16 +113,30 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
   }
 
   @SubscribeMessage('subscribe:cluster')
-  handleSubscribeCluster(
+  async handleSubscribeCluster(
     @ConnectedSocket() client: AuthenticatedSocket,
     @MessageBody() data: { clusterId: string },
   ) {
+    await this.assertAccess(() => this.projectAccessService.checkClusterAccess(data.clusterId, client.userId!));
+
     const room = `cluster:${data.clusterId}`;
     client.join(room);
     this.logger.log(`Client ${client.id} subscribed to cluster: ${data.clusterId}`);
     return { event: 'subscribed', data: { room } };
   }
 
+  /** Rooms carry the same events as the project routes, so they need the same project access */
+  private async assertAccess(check: () => Promise<unknown>): Promise<void> {
+    try {
+      await check();
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw new WsException(error.getResponse());
+      }
+      throw error;
+    }
+  }
+
   @SubscribeMessage('unsubscribe')
   handleUnsubscribe(
     @ConnectedSocket() client: AuthenticatedSocket,
@@ -10,4 +10,10 @@ describe('EventSchema', () => {
     expect(enumValues).toContain('MIGRATION_FAILED');
     expect(enumValues).toContain('MIGRATION_CANCELLED');
   });
+
+  it('should allow the PII discovery event type', () => {
+    const typePath = EventSchema.path('type') as any;
+
+    expect(typePath.enumValues).toContain('PII_FIELDS_DISCOVERED');
+  });
 });
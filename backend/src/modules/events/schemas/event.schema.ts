@@ -47,7 +47,8 @@ export type EventType =
   | 'MIGRATION_STARTED'
   | 'MIGRATION_COMPLETED'
   | 'MIGRATION_FAILED'
-  | 'MIGRATION_CANCELLED';
+  | 'MIGRATION_CANCELLED'
+  | 'PII_FIELDS_DISCOVERED';
 
 export type EventSeverity = 'info' | 'warning' | 'error';
 
@@ -126,6 +127,7 @@ export class Event {
       'MIGRATION_COMPLETED',
       'MIGRATION_FAILED',
       'MIGRATION_CANCELLED',
+      'PII_FIELDS_DISCOVERED',
     ],
   })
   type: EventType;
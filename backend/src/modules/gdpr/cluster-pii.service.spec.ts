@@ -0,0 +1,146 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { GoneException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ClusterPiiService } from './cluster-pii.service';
+import { PiiMap } from './schemas/pii-map.schema';
+import { DataSubjectJob } from './schemas/data-subject-job.schema';
+import { GdprRequest } from './schemas/gdpr-request.schema';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+import { ClustersService } from '../clusters/clusters.service';
+import { AuditService } from '../audit/audit.service';
+
+describe('ClusterPiiService', () => {
+  let service: ClusterPiiService;
+
+  const ORG_ID = new Types.ObjectId();
+  const CLUSTER_ID = new Types.ObjectId();
+
+  const exec = (value: unknown) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+  const mockJobModel = {
+    findById: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+    updateMany: jest.fn(),
+  };
+
+  const mockPiiMapModel = {
+    findOne: jest.fn(),
+  };
+
+  const config: Record<string, string> = {};
+
+  const job = (overrides: Record<string, any> = {}): any => ({
+    _id: new Types.ObjectId(),
+    id: 'job-1',
+    orgId: ORG_ID,
+    clusterId: CLUSTER_ID,
+    type: 'access',
+    subject: { email: 'ada@example.com' },
+    status: 'running',
+    attempts: 1,
+    createdBy: new Types.ObjectId(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClusterPiiService,
+        { provide: getModelToken(PiiMap.name), useValue: mockPiiMapModel },
+        { provide: getModelToken(DataSubjectJob.name), useValue: mockJobModel },
+        { provide: getModelToken(GdprRequest.name), useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => config[key]) } },
+        { provide: DataExplorerService, useValue: { getConnection: jest.fn(async () => ({ db: jest.fn() })) } },
+        { provide: ClustersService, useValue: { findById: jest.fn() } },
+        { provide: AuditService, useValue: { safeLog: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ClusterPiiService>(ClusterPiiService);
+
+    jest.clearAllMocks();
+    for (const key of Object.keys(config)) delete config[key];
+    config.JWT_SECRET = 'test-secret';
+    mockJobModel.findOneAndUpdate.mockReturnValue(exec(null));
+    mockJobModel.updateOne.mockReturnValue(exec({ modifiedCount: 1 }));
+    mockJobModel.updateMany.mockReturnValue(exec({ modifiedCount: 0 }));
+    mockPiiMapModel.findOne.mockReturnValue({ lean: () => exec({ fields: [] }) });
+  });
+
+  describe('runQueuedJobs', () => {
+    it('should claim queued jobs and running jobs whose lease expired', async () => {
+      await service.runQueuedJobs();
+
+      const [filter, update] = mockJobModel.findOneAndUpdate.mock.calls[0];
+      expect(filter.$or).toEqual([
+        { status: 'queued' },
+        { status: 'running', $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: expect.any(Date) } }] },
+      ]);
+      expect(update.$set).toEqual(expect.objectContaining({ status: 'running', lockedUntil: expect.any(Date) }));
+      expect(update.$inc).toEqual({ attempts: 1 });
+    });
+
+    it('should complete a claimed job and release its lease', async () => {
+      mockJobModel.findOneAndUpdate.mockReturnValueOnce(exec(job())).mockReturnValue(exec(null));
+
+      await service.runQueuedJobs();
+
+      const [, update] = mockJobModel.updateOne.mock.calls.at(-1)!;
+      expect(update.$set).toEqual(expect.objectContaining({ status: 'completed', exportExpiresAt: expect.any(Date) }));
+      expect(update.$unset).toEqual({ lockedUntil: 1 });
+    });
+
+    it('should give up on a job that keeps losing its worker', async () => {
+      mockJobModel.findOneAndUpdate.mockReturnValueOnce(exec(job({ attempts: 4 }))).mockReturnValue(exec(null));
+
+      await service.runQueuedJobs();
+
+      expect(mockPiiMapModel.findOne).not.toHaveBeenCalled();
+      const [, update] = mockJobModel.updateOne.mock.calls[0];
+      expect(update.$set).toEqual(expect.objectContaining({ status: 'failed', error: 'Gave up after 3 attempts' }));
+    });
+  });
+
+  describe('exports', () => {
+    it('should expire exports after the configured retention', async () => {
+      config.GDPR_EXPORT_RETENTION_DAYS = '7';
+      mockJobModel.findOneAndUpdate.mockReturnValueOnce(exec(job())).mockReturnValue(exec(null));
+
+      const before = Date.now();
+      await service.runQueuedJobs();
+
+      const [, update] = mockJobModel.updateOne.mock.calls.at(-1)!;
+      const expiresIn = update.$set.exportExpiresAt.getTime() - before;
+      expect(expiresIn).toBeGreaterThanOrEqual(7 * 24 * 60 * 60 * 1000);
+      expect(expiresIn).toBeLessThan(8 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should remove expired exports', async () => {
+      await service.purgeExpiredExports();
+
+      expect(mockJobModel.updateMany).toHaveBeenCalledWith(
+        {
+          exportData: { $exists: true },
+          $or: [
+            { exportExpiresAt: { $lte: expect.any(Date) } },
+            { exportExpiresAt: { $exists: false }, completedAt: { $lte: expect.any(Date) } },
+          ],
+        },
+        { $unset: { exportData: 1 } },
+      );
+    });
+
+    it('should refuse to serve an expired export', async () => {
+      mockJobModel.findById.mockReturnValue(
+        exec(job({ status: 'completed', exportExpiresAt: new Date(Date.now() - 1000) })),
+      );
+
+      await expect(
+        service.getExport(ORG_ID.toString(), CLUSTER_ID.toString(), new Types.ObjectId().toString()),
+      ).rejects.toThrow(GoneException);
+    });
+  });
+});
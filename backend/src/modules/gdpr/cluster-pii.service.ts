@@ -0,0 +1,515 @@
+import { BadRequestException, ConflictException, GoneException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { createHmac } from 'crypto';
+import { AnyBulkWriteOperation, BSON, Collection, Document } from 'mongodb';
+import { PiiMap, PiiMapDocument, PiiField } from './schemas/pii-map.schema';
+import {
+  DataSubjectJob,
+  DataSubjectJobDocument,
+  DataSubjectJobResult,
+} from './schemas/data-subject-job.schema';
+import { GdprRequest, GdprRequestDocument } from './schemas/gdpr-request.schema';
+import { CreateDataSubjectJobDto, UpdatePiiMapDto } from './dto/cluster-pii.dto';
+import {
+  classifySample,
+  DataSubject,
+  PiiFieldRef,
+  redactDocument,
+  signReport,
+  subjectFilter,
+  subjectHash,
+  verifyReport,
+} from './pii-fields';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+import { ClustersService } from '../clusters/clusters.service';
+import { AuditService } from '../audit/audit.service';
+import { SYSTEM_DATABASES } from '../performance-advisor/profiler-entries';
+
+const SAMPLE_SIZE = 100;
+const WRITE_BATCH_SIZE = 500;
+// Keeps the stored export well below the 16MB document limit
+const MAX_EXPORT_BYTES = 8 * 1024 * 1024;
+const REPORT_VERSION = 1;
+// Renewed after every collection, so only a worker that went away loses the job
+const JOB_LEASE_MS = 10 * 60 * 1000;
+// A job that keeps taking its worker down is not retried forever
+const MAX_JOB_ATTEMPTS = 3;
+const DEFAULT_EXPORT_RETENTION_DAYS = 30;
+
+/**
+ * PII maps of customer clusters and the subject access and erasure jobs
+ * that search them.
+ */
+@Injectable()
+export class ClusterPiiService {
+  private readonly logger = new Logger(ClusterPiiService.name);
+  private isRunningJobs = false;
+
+  constructor(
+    @InjectModel(PiiMap.name) private piiMapModel: Model<PiiMapDocument>,
+    @InjectModel(DataSubjectJob.name) private jobModel: Model<DataSubjectJobDocument>,
+    @InjectModel(GdprRequest.name) private requestModel: Model<GdprRequestDocument>,
+    private readonly configService: ConfigService,
+    private readonly dataExplorerService: DataExplorerService,
+    private readonly clustersService: ClustersService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  // ==================== PII Map ====================
+
+  async getPiiMap(orgId: string, clusterId: string): Promise<PiiMap> {
+    await this.assertClusterInOrg(orgId, clusterId);
+    const map = await this.piiMapModel.findOne({ clusterId: new Types.ObjectId(clusterId) }).exec();
+    return map ?? new this.piiMapModel({
+      orgId: new Types.ObjectId(orgId),
+      clusterId: new Types.ObjectId(clusterId),
+      fields: [],
+      ignoredFields: [],
+    });
+  }
+
+  async updatePiiMap(orgId: string, clusterId: string, dto: UpdatePiiMapDto, userId: string): Promise<PiiMap> {
+    await this.assertClusterInOrg(orgId, clusterId);
+    const existing = await this.piiMapModel.findOne({ clusterId: new Types.ObjectId(clusterId) }).lean().exec();
+    const previous = new Map((existing?.fields ?? []).map((f) => [this.fieldKey(f), f]));
+
+    // Fields kept as they were stay sampled, anything new or changed is manual
+    const fields: PiiField[] = [];
+    const seen = new Set<string>();
+    for (const field of dto.fields) {
+      const key = this.fieldKey(field);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const before = previous.get(key);
+      fields.push(before?.category === field.category
+        ? before
+        : { database: field.database, collection: field.collection, path: field.path, category: field.category, source: 'manual' });
+    }
+
+    const map = await this.piiMapModel.findOneAndUpdate(
+      { clusterId: new Types.ObjectId(clusterId) },
+      {
+        $set: {
+          fields,
+          updatedBy: new Types.ObjectId(userId),
+          ...(dto.ignoredFields ? { ignoredFields: [...new Set(dto.ignoredFields)] } : {}),
+        },
+        $setOnInsert: { orgId: new Types.ObjectId(orgId) },
+      },
+      { upsert: true, new: true },
+    ).exec();
+
+    await this.auditService.safeLog({
+      orgId,
+      clusterId,
+      action: 'UPDATE',
+      resourceType: 'cluster',
+      resourceId: clusterId,
+      actorId: userId,
+      description: `PII map updated (${fields.length} fields)`,
+    });
+    return map!;
+  }
+
+  /**
+   * Sample every application collection and add the fields that look like
+   * PII. Manually mapped and ignored fields are left alone, so sampling
+   * can be repeated as the data changes.
+   */
+  async samplePiiMap(orgId: string, clusterId: string, userId: string): Promise<PiiMap> {
+    await this.assertClusterInOrg(orgId, clusterId);
+    const client = await this.dataExplorerService.getConnection(clusterId);
+
+    const existing = await this.piiMapModel.findOne({ clusterId: new Types.ObjectId(clusterId) }).lean().exec();
+    const ignored = new Set(existing?.ignoredFields ?? []);
+    const fields = new Map((existing?.fields ?? []).map((f) => [this.fieldKey(f), f]));
+
+    const { databases } = await client.db('admin').admin().listDatabases({ nameOnly: true });
+    for (const { name: database } of databases) {
+      if (SYSTEM_DATABASES.includes(database)) continue;
+
+      const collections = await client.db(database).listCollections({ type: 'collection' }, { nameOnly: true }).toArray();
+      for (const { name: collection } of collections) {
+        if (collection.startsWith('system.')) continue;
+
+        let sample: Document[];
+        try {
+          sample = await client.db(database).collection(collection).aggregate([{ $sample: { size: SAMPLE_SIZE } }]).toArray();
+        } catch (error: any) {
+          this.logger.warn(`Could not sample ${database}.${collection} on cluster ${clusterId}: ${error.message}`);
+          continue;
+        }
+
+        for (const { path, category, confidence } of classifySample(sample)) {
+          const field: PiiField = { database, collection, path, category, confidence, source: 'sampled' };
+          const key = this.fieldKey(field);
+          if (ignored.has(key) || fields.get(key)?.source === 'manual') continue;
+          fields.set(key, field);
+        }
+      }
+    }
+
+    const map = await this.piiMapModel.findOneAndUpdate(
+      { clusterId: new Types.ObjectId(clusterId) },
+      {
+        $set: { fields: [...fields.values()], sampledAt: new Date(), updatedBy: new Types.ObjectId(userId) },
+        $setOnInsert: { orgId: new Types.ObjectId(orgId) },
+      },
+      { upsert: true, new: true },
+    ).exec();
+
+    this.logger.log(`PII map of cluster ${clusterId} sampled: ${map!.fields.length} fields`);
+    return map!;
+  }
+
+  // ==================== Jobs ====================
+
+  async createJob(orgId: string, clusterId: string, dto: CreateDataSubjectJobDto, userId: string): Promise<DataSubjectJob> {
+    await this.assertClusterInOrg(orgId, clusterId);
+
+    let subjectEmail = dto.subjectEmail;
+    if (dto.requestId) {
+      const request = await this.requestModel.findById(dto.requestId).exec();
+      if (!request || request.orgId.toString() !== orgId) {
+        throw new NotFoundException({ code: 'GDPR_REQUEST_NOT_FOUND', message: 'GDPR request not found' });
+      }
+      subjectEmail ??= request.subjectEmail;
+    }
+
+    const subject: DataSubject = { email: subjectEmail, name: dto.subjectName, phone: dto.subjectPhone };
+    if (!subject.email && !subject.name && !subject.phone) {
+      throw new BadRequestException({
+        code: 'SUBJECT_REQUIRED',
+        message: 'Provide at least one of subjectEmail, subjectName or subjectPhone',
+      });
+    }
+
+    const map = await this.piiMapModel.findOne({ clusterId: new Types.ObjectId(clusterId) }).lean().exec();
+    if (!map?.fields.length) {
+      throw new BadRequestException({
+        code: 'PII_MAP_EMPTY',
+        message: 'Map the PII fields of this cluster before running subject jobs',
+      });
+    }
+
+    const job = await this.jobModel.create({
+      orgId: new Types.ObjectId(orgId),
+      clusterId: new Types.ObjectId(clusterId),
+      requestId: dto.requestId ? new Types.ObjectId(dto.requestId) : undefined,
+      type: dto.type,
+      erasureMode: dto.type === 'erasure' ? dto.erasureMode ?? 'erase' : undefined,
+      subject,
+      status: 'queued',
+      createdBy: new Types.ObjectId(userId),
+    });
+
+    await this.auditService.safeLog({
+      orgId,
+      clusterId,
+      action: 'CREATE',
+      resourceType: 'cluster',
+      resourceId: clusterId,
+      actorId: userId,
+      description: `GDPR subject ${dto.type} job ${job.id} queued`,
+    });
+    return job;
+  }
+
+  async listJobs(orgId: string, clusterId: string): Promise<DataSubjectJob[]> {
+    await this.assertClusterInOrg(orgId, clusterId);
+    return this.jobModel
+      .find({ clusterId: new Types.ObjectId(clusterId) })
+      .sort({ createdAt: -1 })
+      .limit(100)
+      .exec();
+  }
+
+  async getJob(orgId: string, clusterId: string, jobId: string): Promise<DataSubjectJobDocument> {
+    const job = Types.ObjectId.isValid(jobId) ? await this.jobModel.findById(jobId).exec() : null;
+    if (!job || job.orgId.toString() !== orgId || job.clusterId.toString() !== clusterId) {
+      throw new NotFoundException({ code: 'JOB_NOT_FOUND', message: 'Job not found' });
+    }
+    return job;
+  }
+
+  async getExport(orgId: string, clusterId: string, jobId: string): Promise<string> {
+    const job = await this.getJob(orgId, clusterId, jobId);
+    if (job.type !== 'access' || job.status !== 'completed') {
+      throw new ConflictException({ code: 'EXPORT_NOT_AVAILABLE', message: 'Only completed access jobs have an export' });
+    }
+    if (job.exportExpiresAt && job.exportExpiresAt <= new Date()) {
+      throw new GoneException({ code: 'EXPORT_EXPIRED', message: 'The export has expired, run the access job again' });
+    }
+    return job.exportData ?? '{}';
+  }
+
+  async getReport(orgId: string, clusterId: string, jobId: string): Promise<{ report: Record<string, any>; signature: string; algorithm: string }> {
+    const job = await this.getJob(orgId, clusterId, jobId);
+    if (job.status !== 'completed' || !job.report || !job.reportSignature) {
+      throw new ConflictException({ code: 'REPORT_NOT_AVAILABLE', message: 'The job has not completed yet' });
+    }
+    return { report: job.report, signature: job.reportSignature, algorithm: 'HMAC-SHA256' };
+  }
+
+  verifyReport(report: Record<string, any>, signature: string): boolean {
+    return /^[0-9a-f]{64}$/i.test(signature) && verifyReport(report, signature, this.signingKey());
+  }
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async runQueuedJobs(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test' || this.isRunningJobs) {
+      return;
+    }
+
+    this.isRunningJobs = true;
+    try {
+      let job: DataSubjectJobDocument | null;
+      while ((job = await this.claimJob(new Date()))) {
+        if (job.attempts > MAX_JOB_ATTEMPTS) {
+          await this.jobModel.updateOne(
+            { _id: job._id },
+            {
+              $set: { status: 'failed', error: `Gave up after ${MAX_JOB_ATTEMPTS} attempts`, completedAt: new Date() },
+              $unset: { lockedUntil: 1 },
+            },
+          ).exec();
+          continue;
+        }
+        await this.runJob(job);
+      }
+    } catch (error: any) {
+      this.logger.error(`Data subject job processing failed: ${error.message}`);
+    } finally {
+      this.isRunningJobs = false;
+    }
+  }
+
+  /** Drop access exports past their retention; the signed reports stay */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredExports(): Promise<void> {
+    try {
+      const now = new Date();
+      const completedBefore = new Date(now.getTime() - this.exportRetentionDays() * 24 * 60 * 60 * 1000);
+      const { modifiedCount } = await this.jobModel.updateMany(
+        {
+          exportData: { $exists: true },
+          $or: [
+            { exportExpiresAt: { $lte: now } },
+            // Exports stored before expiry dates were recorded
+            { exportExpiresAt: { $exists: false }, completedAt: { $lte: completedBefore } },
+          ],
+        },
+        { $unset: { exportData: 1 } },
+      ).exec();
+      if (modifiedCount > 0) {
+        this.logger.log(`Removed ${modifiedCount} expired data subject export(s)`);
+      }
+    } catch (error: any) {
+      this.logger.error(`Purging expired data subject exports failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Take the oldest queued job, or a running one whose worker stopped renewing
+   * its lease (restart, crash). Both job types are safe to run again: access
+   * only reads, and erasure skips documents that are already redacted.
+   */
+  private async claimJob(now: Date): Promise<DataSubjectJobDocument | null> {
+    return this.jobModel.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'queued' },
+          { status: 'running', $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }] },
+        ],
+      },
+      {
+        $set: { status: 'running', startedAt: now, lockedUntil: new Date(now.getTime() + JOB_LEASE_MS) },
+        $inc: { attempts: 1 },
+      },
+      { sort: { createdAt: 1 }, new: true },
+    ).exec();
+  }
+
+  /** Search every mapped collection, then export or redact the matches */
+  async runJob(job: DataSubjectJobDocument): Promise<void> {
+    const clusterId = job.clusterId.toString();
+    try {
+      const map = await this.piiMapModel.findOne({ clusterId: job.clusterId }).lean().exec();
+      const client = await this.dataExplorerService.getConnection(clusterId);
+      const pseudonymKey = job.erasureMode === 'pseudonymize' ? this.pseudonymKey(job.orgId.toString()) : undefined;
+
+      const exported: Record<string, Document[]> = {};
+      let exportBytes = 0;
+      let truncated = false;
+      const results: DataSubjectJobResult[] = [];
+
+      for (const [namespace, fields] of this.fieldsByNamespace(map?.fields ?? [])) {
+        const [database, collection] = [fields[0].database, fields[0].collection];
+        const filter = subjectFilter(fields, job.subject);
+        if (!filter) continue;
+
+        const coll = client.db(database).collection(collection);
+        const result: DataSubjectJobResult = { database, collection, fields: fields.map((f) => f.path), matched: 0, modified: 0 };
+
+        if (job.type === 'access') {
+          for await (const doc of coll.find(filter)) {
+            result.matched += 1;
+            const size = BSON.EJSON.stringify(doc, { relaxed: true }).length;
+            if (exportBytes + size > MAX_EXPORT_BYTES) {
+              truncated = true;
+              continue;
+            }
+            exportBytes += size;
+            (exported[namespace] ??= []).push(doc);
+          }
+        } else {
+          Object.assign(result, await this.redactCollection(coll, filter, fields, job.subject, pseudonymKey));
+        }
+
+        if (result.matched > 0) results.push(result);
+        await this.jobModel.updateOne(
+          { _id: job._id },
+          { $set: { lockedUntil: new Date(Date.now() + JOB_LEASE_MS) } },
+        ).exec();
+      }
+
+      const completedAt = new Date();
+      const report = {
+        version: REPORT_VERSION,
+        jobId: job.id,
+        orgId: job.orgId.toString(),
+        clusterId,
+        requestId: job.requestId?.toString(),
+        type: job.type,
+        erasureMode: job.erasureMode,
+        subjectHash: subjectHash(job.subject),
+        collections: results,
+        totalMatched: results.reduce((sum, r) => sum + r.matched, 0),
+        totalModified: results.reduce((sum, r) => sum + r.modified, 0),
+        exportTruncated: job.type === 'access' ? truncated : undefined,
+        startedAt: job.startedAt?.toISOString(),
+        completedAt: completedAt.toISOString(),
+      };
+      // Stored as plain JSON so the stored report verifies as served
+      const plainReport = JSON.parse(JSON.stringify(report));
+
+      await this.jobModel.updateOne(
+        { _id: job._id },
+        {
+          $set: {
+            status: 'completed',
+            results,
+            report: plainReport,
+            reportSignature: signReport(plainReport, this.signingKey()),
+            exportTruncated: truncated,
+            completedAt,
+            ...(job.type === 'access'
+              ? {
+                exportData: BSON.EJSON.stringify(exported, undefined, 2, { relaxed: true }),
+                exportExpiresAt: new Date(completedAt.getTime() + this.exportRetentionDays() * 24 * 60 * 60 * 1000),
+              }
+              : {}),
+          },
+          $unset: { lockedUntil: 1 },
+        },
+      ).exec();
+
+      await this.auditService.safeLog({
+        orgId: job.orgId.toString(),
+        clusterId,
+        action: job.type === 'erasure' ? 'DELETE' : 'READ',
+        resourceType: 'cluster',
+        resourceId: clusterId,
+        actorId: job.createdBy.toString(),
+        description: `GDPR subject ${job.type} job ${job.id} completed: ${report.totalMatched} document(s) matched, ${report.totalModified} modified`,
+      });
+      this.logger.log(`Data subject ${job.type} job ${job.id} completed on cluster ${clusterId}`);
+    } catch (error: any) {
+      this.logger.warn(`Data subject job ${job.id} failed: ${error.message}`);
+      await this.jobModel.updateOne(
+        { _id: job._id },
+        { $set: { status: 'failed', error: error.message, completedAt: new Date() }, $unset: { lockedUntil: 1 } },
+      ).exec();
+    }
+  }
+
+  private async redactCollection(
+    coll: Collection,
+    filter: Document,
+    fields: PiiFieldRef[],
+    subject: DataSubject,
+    pseudonymKey?: string,
+  ): Promise<{ matched: number; modified: number }> {
+    const projection = Object.fromEntries(fields.map((f) => [f.path.split('.')[0], 1]));
+    let matched = 0;
+    let modified = 0;
+    let batch: AnyBulkWriteOperation[] = [];
+
+    const flush = async () => {
+      if (batch.length === 0) return;
+      const result = await coll.bulkWrite(batch, { ordered: false });
+      modified += result.modifiedCount;
+      batch = [];
+    };
+
+    for await (const doc of coll.find(filter, { projection })) {
+      matched += 1;
+      const update = redactDocument(doc, fields, subject, pseudonymKey);
+      if (!update) continue;
+
+      batch.push({
+        updateOne: {
+          filter: { _id: doc._id },
+          update: {
+            ...(Object.keys(update.$set).length ? { $set: update.$set } : {}),
+            ...(Object.keys(update.$unset).length ? { $unset: update.$unset } : {}),
+          },
+        },
+      });
+      if (batch.length >= WRITE_BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    return { matched, modified };
+  }
+
+  // ==================== Helpers ====================
+
+  private async assertClusterInOrg(orgId: string, clusterId: string): Promise<void> {
+    const cluster = Types.ObjectId.isValid(clusterId) ? await this.clustersService.findById(clusterId) : null;
+    if (!cluster || cluster.orgId.toString() !== orgId) {
+      throw new NotFoundException({ code: 'CLUSTER_NOT_FOUND', message: 'Cluster not found' });
+    }
+  }
+
+  private fieldKey(field: Pick<PiiField, 'database' | 'collection' | 'path'>): string {
+    return `${field.database}.${field.collection}.${field.path}`;
+  }
+
+  private fieldsByNamespace(fields: PiiField[]): Map<string, PiiField[]> {
+    const byNamespace = new Map<string, PiiField[]>();
+    for (const field of fields) {
+      const namespace = `${field.database}.${field.collection}`;
+      if (!byNamespace.has(namespace)) byNamespace.set(namespace, []);
+      byNamespace.get(namespace)!.push(field);
+    }
+    return byNamespace;
+  }
+
+  private exportRetentionDays(): number {
+    return Number(this.configService.get<string>('GDPR_EXPORT_RETENTION_DAYS')) || DEFAULT_EXPORT_RETENTION_DAYS;
+  }
+
+  private signingKey(): string {
+    return this.configService.get<string>('GDPR_REPORT_SIGNING_KEY') || this.configService.get<string>('JWT_SECRET')!;
+  }
+
+  /** Per-organization key, so pseudonyms cannot be correlated across organizations */
+  private pseudonymKey(orgId: string): string {
+    return createHmac('sha256', this.signingKey()).update(`pseudonym:${orgId}`).digest('hex');
+  }
+}
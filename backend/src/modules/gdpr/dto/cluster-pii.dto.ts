@@ -0,0 +1,102 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEmail,
+  IsEnum,
+  IsIn,
+  IsMongoId,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PII_CATEGORIES, PiiCategory } from '../pii-fields';
+import { DataSubjectJobType, ErasureMode } from '../schemas/data-subject-job.schema';
+
+export class PiiFieldDto {
+  @ApiProperty({ example: 'shop' })
+  @IsString()
+  @MinLength(1)
+  database: string;
+
+  @ApiProperty({ example: 'customers' })
+  @IsString()
+  @MinLength(1)
+  collection: string;
+
+  @ApiProperty({ example: 'contact.email' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(500)
+  path: string;
+
+  @ApiProperty({ enum: PII_CATEGORIES })
+  @IsEnum(PII_CATEGORIES)
+  category: PiiCategory;
+}
+
+export class UpdatePiiMapDto {
+  @ApiProperty({ type: [PiiFieldDto], description: 'Replaces the mapped fields' })
+  @IsArray()
+  @ArrayMaxSize(2000)
+  @ValidateNested({ each: true })
+  @Type(() => PiiFieldDto)
+  fields: PiiFieldDto[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    example: ['shop.products.name'],
+    description: '"database.collection.path" entries sampling must not add',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  ignoredFields?: string[];
+}
+
+export class CreateDataSubjectJobDto {
+  @ApiProperty({ enum: ['access', 'erasure'] })
+  @IsIn(['access', 'erasure'])
+  type: DataSubjectJobType;
+
+  @ApiPropertyOptional({ enum: ['erase', 'pseudonymize'], default: 'erase' })
+  @IsOptional()
+  @IsIn(['erase', 'pseudonymize'])
+  erasureMode?: ErasureMode;
+
+  @ApiPropertyOptional({ description: 'GDPR request this job is part of; its subject email is used by default' })
+  @IsOptional()
+  @IsMongoId()
+  requestId?: string;
+
+  @ApiPropertyOptional({ example: 'jane@example.com' })
+  @IsOptional()
+  @IsEmail()
+  subjectEmail?: string;
+
+  @ApiPropertyOptional({ example: 'Jane Doe' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  subjectName?: string;
+
+  @ApiPropertyOptional({ example: '+49 30 1234567' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  subjectPhone?: string;
+}
+
+export class VerifyReportDto {
+  @ApiProperty({ description: 'Report as returned by the report endpoint' })
+  @IsObject()
+  report: Record<string, any>;
+
+  @ApiProperty()
+  @IsString()
+  signature: string;
+}
@@ -1,9 +1,12 @@
-import { Controller, Post, Get, Param, Body, NotFoundException, UseGuards } from '@nestjs/common';
+import { Controller, Post, Get, Put, Param, Body, NotFoundException, UseGuards, Res, HttpCode, HttpStatus } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
+import { Response } from 'express';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { OrgsService } from '../orgs/orgs.service';
 import { GdprService, DataSubjectRequestType } from './gdpr.service';
+import { ClusterPiiService } from './cluster-pii.service';
+import { CreateDataSubjectJobDto, UpdatePiiMapDto, VerifyReportDto } from './dto/cluster-pii.dto';
 
 @ApiTags('GDPR / Data Subject Requests')
 @ApiBearerAuth()
@@ -12,6 +15,7 @@ import { GdprService, DataSubjectRequestType } from './gdpr.service';
 export class GdprController {
   constructor(
     private readonly gdprService: GdprService,
+    private readonly clusterPiiService: ClusterPiiService,
     private readonly orgsService: OrgsService,
   ) {}
 
@@ -104,4 +108,122 @@ export class GdprController {
         return { message: `Request type ${request.type} requires manual processing` };
     }
   }
+
+  // ==================== Cluster Data ====================
+
+  @Get('clusters/:clusterId/pii-map')
+  @ApiOperation({ summary: 'Get the PII fields mapped in a cluster' })
+  async getPiiMap(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('clusterId') clusterId: string,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+    return this.clusterPiiService.getPiiMap(orgId, clusterId);
+  }
+
+  @Put('clusters/:clusterId/pii-map')
+  @ApiOperation({ summary: 'Replace the PII fields mapped in a cluster' })
+  async updatePiiMap(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('clusterId') clusterId: string,
+    @Body() dto: UpdatePiiMapDto,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+    return this.clusterPiiService.updatePiiMap(orgId, clusterId, dto, user.userId);
+  }
+
+  @Post('clusters/:clusterId/pii-map/sample')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Add PII fields found by sampling the cluster\'s collections' })
+  async samplePiiMap(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('clusterId') clusterId: string,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+    return this.clusterPiiService.samplePiiMap(orgId, clusterId, user.userId);
+  }
+
+  @Post('clusters/:clusterId/jobs')
+  @ApiOperation({ summary: 'Queue a subject access or erasure job on the cluster\'s data' })
+  async createJob(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('clusterId') clusterId: string,
+    @Body() dto: CreateDataSubjectJobDto,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+    return this.clusterPiiService.createJob(orgId, clusterId, dto, user.userId);
+  }
+
+  @Get('clusters/:clusterId/jobs')
+  @ApiOperation({ summary: 'List subject access and erasure jobs of a cluster' })
+  async listJobs(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('clusterId') clusterId: string,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+    return this.clusterPiiService.listJobs(orgId, clusterId);
+  }
+
+  @Get('clusters/:clusterId/jobs/:jobId')
+  @ApiOperation({ summary: 'Get a subject access or erasure job' })
+  async getJob(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('clusterId') clusterId: string,
+    @Param('jobId') jobId: string,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+    return this.clusterPiiService.getJob(orgId, clusterId, jobId);
+  }
+
+  @Get('clusters/:clusterId/jobs/:jobId/export')
+  @ApiOperation({
+    summary: 'Download the documents found by an access job as JSON',
+    description: 'Exports are deleted GDPR_EXPORT_RETENTION_DAYS (default 30) after the job completed; afterwards this returns 410.',
+  })
+  async downloadExport(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('clusterId') clusterId: string,
+    @Param('jobId') jobId: string,
+    @Res() res: Response,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+    const data = await this.clusterPiiService.getExport(orgId, clusterId, jobId);
+
+    res.setHeader('Content-Disposition', `attachment; filename="subject-access-${jobId}.json"`);
+    res.setHeader('Content-Type', 'application/json');
+    res.send(data);
+  }
+
+  @Get('clusters/:clusterId/jobs/:jobId/report')
+  @ApiOperation({ summary: 'Get the signed completion report of a job' })
+  async getReport(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('clusterId') clusterId: string,
+    @Param('jobId') jobId: string,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+    return this.clusterPiiService.getReport(orgId, clusterId, jobId);
+  }
+
+  @Post('reports/verify')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Check that a completion report is unmodified' })
+  async verifyReport(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Body() dto: VerifyReportDto,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+    return {
+      valid: dto.report.orgId === orgId && this.clusterPiiService.verifyReport(dto.report, dto.signature),
+    };
+  }
 }
@@ -2,20 +2,31 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { GdprService } from './gdpr.service';
 import { GdprController } from './gdpr.controller';
+import { ClusterPiiService } from './cluster-pii.service';
 import { GdprRequest, GdprRequestSchema } from './schemas/gdpr-request.schema';
+import { PiiMap, PiiMapSchema } from './schemas/pii-map.schema';
+import { DataSubjectJob, DataSubjectJobSchema } from './schemas/data-subject-job.schema';
 import { AuditModule } from '../audit/audit.module';
 import { EventsModule } from '../events/events.module';
 import { OrgsModule } from '../orgs/orgs.module';
+import { ClustersModule } from '../clusters/clusters.module';
+import { DataExplorerModule } from '../data-explorer/data-explorer.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: GdprRequest.name, schema: GdprRequestSchema }]),
+    MongooseModule.forFeature([
+      { name: GdprRequest.name, schema: GdprRequestSchema },
+      { name: PiiMap.name, schema: PiiMapSchema },
+      { name: DataSubjectJob.name, schema: DataSubjectJobSchema },
+    ]),
     AuditModule,
     EventsModule,
     OrgsModule,
+    ClustersModule,
+    DataExplorerModule,
   ],
   controllers: [GdprController],
-  providers: [GdprService],
-  exports: [GdprService],
+  providers: [GdprService, ClusterPiiService],
+  exports: [GdprService, ClusterPiiService],
 })
 export class GdprModule {}
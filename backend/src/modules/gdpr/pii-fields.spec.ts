@@ -0,0 +1,195 @@
+import { ObjectId } from 'mongodb';
+import {
+  classifyField,
+  classifySample,
+  isNationalId,
+  isValidCardNumber,
+  isValidIban,
+  matchesSubject,
+  pseudonymize,
+  redactDocument,
+  signReport,
+  subjectFilter,
+  subjectHash,
+  verifyReport,
+} from './pii-fields';
+
+describe('pii-fields', () => {
+  describe('classifyField', () => {
+    it('should combine the field name and the share of matching values', () => {
+      expect(classifyField('email', ['a@example.com', 'b@example.com'])).toEqual({
+        path: 'email',
+        category: 'email',
+        confidence: 1,
+        samples: 2,
+        matches: 2,
+      });
+      expect(classifyField('contact.mobile_phone', ['+49 170 1234567', 'n/a'])).toEqual({
+        path: 'contact.mobile_phone',
+        category: 'phone',
+        confidence: 0.8,
+        samples: 2,
+        matches: 1,
+      });
+      expect(classifyField('lastName', ['müller'])).toMatchObject({ category: 'name', confidence: 0.6 });
+    });
+
+    it('should only go by values for categories with distinctive values', () => {
+      expect(classifyField('owner', ['jane@example.com'])).toMatchObject({ category: 'email', confidence: 0.9 });
+      expect(classifyField('reference', ['+49 170 1234567'])).toBeNull();
+      expect(classifyField('title', ['Jane Doe'])).toBeNull();
+    });
+
+    it('should not take dates or short numbers for phone numbers', () => {
+      expect(classifyField('phone', ['2026-03-01'])).toMatchObject({ confidence: 0.6 });
+      expect(classifyField('code', ['12345'])).toBeNull();
+    });
+
+    it('should recognize payment data and identifiers by their check digits', () => {
+      expect(classifyField('payout', ['DE89 3704 0044 0532 0130 00'])).toMatchObject({ category: 'iban', confidence: 0.95 });
+      expect(classifyField('payout', ['DE89 3704 0044 0532 0130 01'])).toBeNull();
+      expect(classifyField('payment.pan', ['4111 1111 1111 1111', '5500-0000-0000-0004'])).toMatchObject({ category: 'card_number', confidence: 1 });
+      expect(classifyField('reference', ['4111111111111112'])).toBeNull();
+      expect(classifyField('lastSeenFrom', ['192.168.0.1', '2001:db8::1'])).toMatchObject({ category: 'ip_address', confidence: 0.8 });
+      expect(classifyField('zip', ['10115'])).toBeNull();
+    });
+
+    it('should take a hint from elsewhere like a field name', () => {
+      expect(classifyField('contact', ['n/a'], 'email')).toMatchObject({ category: 'email', confidence: 0.6 });
+    });
+  });
+
+  it('should validate national ID formats', () => {
+    expect(isNationalId('123-45-6789')).toBe(true);
+    expect(isNationalId('666-45-6789')).toBe(false);
+    expect(isNationalId('AB 12 34 56 C')).toBe(true);
+    expect(isNationalId('12345678Z')).toBe(true);
+    expect(isNationalId('12345678A')).toBe(false);
+    expect(isNationalId('X1234567L')).toBe(true);
+    expect(isNationalId('RSSMRA85T10A562S')).toBe(true);
+    expect(isNationalId('1 84 12 76 451 089 46')).toBe(true);
+    expect(isNationalId('1 84 12 76 451 089 47')).toBe(false);
+  });
+
+  it('should validate card numbers with the Luhn check', () => {
+    expect(isValidCardNumber('378282246310005')).toBe(true);
+    expect(isValidCardNumber('378282246310006')).toBe(false);
+    expect(isValidCardNumber('1234567812345670')).toBe(false);
+    expect(isValidIban('GB82WEST12345698765432')).toBe(true);
+  });
+
+  it('should classify nested fields and fields inside arrays', () => {
+    const fields = classifySample([
+      { _id: new ObjectId(), name: 'Jane Doe', contacts: [{ email: 'a@example.com' }, { email: 'b@example.com' }], sku: 'X-1' },
+      { _id: new ObjectId(), name: 'John Roe', profile: { phone: '+44 20 7946 0958' }, card: 4111111111111111 },
+    ]);
+
+    expect(fields.map((f) => [f.path, f.category])).toEqual([
+      ['card', 'card_number'],
+      ['contacts.email', 'email'],
+      ['name', 'name'],
+      ['profile.phone', 'phone'],
+    ]);
+  });
+
+  describe('subjectFilter', () => {
+    const fields = [
+      { path: 'email', category: 'email' as const },
+      { path: 'phone', category: 'phone' as const },
+      { path: 'fullName', category: 'name' as const },
+    ];
+
+    it('should only use identifiers the subject has', () => {
+      expect(subjectFilter(fields, { email: 'Jane.Doe@Example.com' })).toEqual({
+        $or: [{ email: { $regex: '^\\s*jane\\.doe@example\\.com\\s*$', $options: 'i' } }],
+      });
+      expect(subjectFilter(fields, {})).toBeNull();
+    });
+
+    it('should match phone numbers regardless of formatting', () => {
+      const filter = subjectFilter(fields, { phone: '+49 (30) 123-45' })!;
+      const regex = new RegExp(filter.$or[0].phone.$regex);
+
+      expect(regex.test('0049 30 12345')).toBe(false);
+      expect(regex.test('+49-30-12345')).toBe(true);
+      expect(regex.test('+49 30 123456')).toBe(false);
+    });
+  });
+
+  it('should match subjects case- and format-insensitively', () => {
+    expect(matchesSubject('email', ' JANE@example.com', { email: 'jane@example.com' })).toBe(true);
+    expect(matchesSubject('name', ['Other', 'jane   doe'], { name: 'Jane Doe' })).toBe(true);
+    expect(matchesSubject('phone', 'no phone', { phone: 'none' })).toBe(false);
+  });
+
+  describe('redactDocument', () => {
+    const fields = [
+      { path: 'email', category: 'email' as const },
+      { path: 'name', category: 'name' as const },
+      { path: 'guests.email', category: 'email' as const },
+      { path: 'guests.name', category: 'name' as const },
+    ];
+    const doc = {
+      _id: new ObjectId(),
+      email: 'host@example.com',
+      name: 'Host',
+      guests: [
+        { email: 'jane@example.com', name: 'Jane Doe', seat: 1 },
+        { email: 'john@example.com', name: 'John Roe', seat: 2 },
+      ],
+    };
+
+    it('should only redact the array element that matched', () => {
+      const update = redactDocument(doc, fields, { email: 'jane@example.com' });
+
+      expect(update).toEqual({
+        $set: { guests: [{ seat: 1 }, { email: 'john@example.com', name: 'John Roe', seat: 2 }] },
+        $unset: {},
+        redacted: 2,
+      });
+      expect(doc.guests[0].email).toBe('jane@example.com');
+    });
+
+    it('should redact the whole document when a top-level field matched', () => {
+      const update = redactDocument(doc, fields, { email: 'host@example.com' });
+
+      expect(update!.$unset).toEqual({ email: 1, name: 1 });
+      expect(update!.$set.guests).toEqual([{ seat: 1 }, { seat: 2 }]);
+      expect(update!.redacted).toBe(6);
+    });
+
+    it('should replace values with stable pseudonyms', () => {
+      const update = redactDocument(doc, fields, { email: 'jane@example.com' }, 'key');
+
+      expect(update!.$set.guests[0]).toEqual({
+        email: pseudonymize('jane@example.com', 'email', 'key'),
+        name: pseudonymize('Jane Doe', 'name', 'key'),
+        seat: 1,
+      });
+      expect(pseudonymize('JANE@example.com', 'email', 'key')).toBe(pseudonymize('jane@example.com', 'email', 'key'));
+      expect(pseudonymize('jane@example.com', 'email', 'key')).toMatch(/^[0-9a-f]{16}@pseudonymized\.invalid$/);
+    });
+
+    it('should return null when nothing matches', () => {
+      expect(redactDocument(doc, fields, { email: 'nobody@example.com' })).toBeNull();
+    });
+  });
+
+  describe('reports', () => {
+    const report = { jobId: 'j1', collections: [{ database: 'shop', matched: 2 }], totalMatched: 2 };
+
+    it('should verify regardless of key order and detect changes', () => {
+      const signature = signReport(report, 'secret');
+
+      expect(verifyReport({ totalMatched: 2, collections: [{ matched: 2, database: 'shop' }], jobId: 'j1' }, signature, 'secret')).toBe(true);
+      expect(verifyReport({ ...report, totalMatched: 3 }, signature, 'secret')).toBe(false);
+      expect(verifyReport(report, signature, 'other')).toBe(false);
+      expect(verifyReport(report, 'abc', 'secret')).toBe(false);
+    });
+
+    it('should hash subjects without revealing them', () => {
+      expect(subjectHash({ email: 'Jane@Example.com' })).toBe(subjectHash({ email: 'jane@example.com' }));
+      expect(subjectHash({ email: 'jane@example.com' })).not.toContain('jane');
+    });
+  });
+});
@@ -0,0 +1,463 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { isIP } from 'net';
+import { Document } from 'mongodb';
+
+export type PiiCategory = 'email' | 'name' | 'phone' | 'iban' | 'ip_address' | 'national_id' | 'card_number';
+
+/** Categories a data subject can be looked up by */
+export type SubjectCategory = 'email' | 'name' | 'phone';
+
+export const PII_CATEGORIES: PiiCategory[] = ['email', 'name', 'phone', 'iban', 'ip_address', 'national_id', 'card_number'];
+
+export const SUBJECT_CATEGORIES: SubjectCategory[] = ['email', 'name', 'phone'];
+
+/** Fields below this confidence are not added to the PII map by sampling */
+export const MIN_PII_CONFIDENCE = 0.6;
+
+export interface PiiFieldRef {
+  path: string;
+  category: PiiCategory;
+}
+
+export interface ClassifiedField extends PiiFieldRef {
+  confidence: number;
+  /** Sampled values of the field */
+  samples: number;
+  /** Sampled values that look like the category */
+  matches: number;
+}
+
+export type DataSubject = Partial<Record<SubjectCategory, string>>;
+
+interface PiiDetector {
+  category: PiiCategory;
+  /** Matches the last path segment, lowercased without separators */
+  names: RegExp;
+  value: (value: string) => boolean;
+  /** Confidence when values match but the field name gives no hint */
+  valueOnlyWeight: number;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const PERSON_NAME_PATTERN = /^\p{Lu}[\p{L}'’.-]*(\s+\p{Lu}[\p{L}'’.-]*){0,3}$/u;
+const PHONE_PATTERN = /^\+?[0-9(][0-9\s().\/-]{5,20}[0-9]$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function compact(value: string): string {
+  return value.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/** Remainder of a long number given as digits */
+function mod97(digits: string): number {
+  let remainder = 0;
+  for (let i = 0; i < digits.length; i += 7) {
+    remainder = Number(`${remainder}${digits.slice(i, i + 7)}`) % 97;
+  }
+  return remainder;
+}
+
+export function isValidIban(value: string): boolean {
+  const iban = compact(value);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  const digits = `${iban.slice(4)}${iban.slice(0, 4)}`.replace(/[A-Z]/g, (c) => String(c.charCodeAt(0) - 55));
+  return mod97(digits) === 1;
+}
+
+/** Card numbers of the major networks with a valid Luhn check digit */
+export function isValidCardNumber(value: string): boolean {
+  if (!/^[\d\s-]+$/.test(value)) return false;
+  const digits = digitsOf(value);
+  if (digits.length < 13 || digits.length > 19 || !/^(4|5[1-5]|2[2-7]|3[47]|6011|65)/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+const DNI_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+
+/**
+ * National identification numbers with a recognizable format: US SSNs,
+ * UK National Insurance numbers, Spanish DNI/NIE, Italian fiscal codes
+ * and French social security numbers. Check digits are verified where
+ * the format has one.
+ */
+export function isNationalId(value: string): boolean {
+  const trimmed = value.trim().toUpperCase();
+  if (/^(?!000|666|9)\d{3}-(?!00)\d{2}-(?!0000)\d{4}$/.test(trimmed)) return true;
+
+  const id = compact(trimmed);
+  if (/^[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z]\d{6}[A-D]$/.test(id)) return true;
+  if (/^[A-Z]{6}\d{2}[A-EHLMPR-T]\d{2}[A-Z]\d{3}[A-Z]$/.test(id)) return true;
+
+  const dni = /^([XYZ]|\d)(\d{7})([A-Z])$/.exec(id);
+  if (dni) {
+    const number = Number(`${'XYZ'.indexOf(dni[1]) >= 0 ? 'XYZ'.indexOf(dni[1]) : dni[1]}${dni[2]}`);
+    return DNI_LETTERS[number % 23] === dni[3];
+  }
+
+  const nir = /^([12]\d{4}(?:\d{2}|2A|2B)\d{6})(\d{2})$/.exec(id);
+  if (nir) {
+    const body = nir[1].replace('2A', '19').replace('2B', '18');
+    return 97 - mod97(body) === Number(nir[2]);
+  }
+  return false;
+}
+
+const DETECTORS: PiiDetector[] = [
+  {
+    category: 'email',
+    names: /^(e?mail|\w*email|emailaddress)$/,
+    value: (value) => EMAIL_PATTERN.test(value.trim()),
+    valueOnlyWeight: 0.9,
+  },
+  {
+    category: 'phone',
+    names: /^(\w*phone|\w*phonenumber|mobile|mobilenumber|cell|tel|telephone|msisdn|fax)$/,
+    value: (value) => PHONE_PATTERN.test(value.trim()) && !DATE_PATTERN.test(value) && digitsOf(value).length >= 7 && digitsOf(value).length <= 15,
+    valueOnlyWeight: 0.5,
+  },
+  {
+    category: 'name',
+    names: /^(name|fullname|firstname|lastname|middlename|givenname|familyname|surname|forename|displayname|contactname|customername|billingname|shippingname)$/,
+    value: (value) => PERSON_NAME_PATTERN.test(value.trim()),
+    // Too many things have capitalized names to go by values alone
+    valueOnlyWeight: 0,
+  },
+  {
+    category: 'iban',
+    names: /^(\w*iban|bankaccount|bankaccountnumber|accountnumber)$/,
+    value: isValidIban,
+    valueOnlyWeight: 0.95,
+  },
+  {
+    category: 'card_number',
+    names: /^(card|cardnumber|creditcard|creditcardnumber|ccnumber|cc|pan)$/,
+    value: isValidCardNumber,
+    valueOnlyWeight: 0.8,
+  },
+  {
+    category: 'ip_address',
+    names: /^(ip|ipaddr|ipaddress|ipv4|ipv6|(client|remote|source|user|login|lastlogin|signup)ip(address)?|remoteaddr|remoteaddress|xforwardedfor)$/,
+    value: (value) => isIP(value.trim()) !== 0,
+    valueOnlyWeight: 0.8,
+  },
+  {
+    category: 'national_id',
+    names: /^(ssn|socialsecuritynumber|nationalid|nationalidnumber|nationalinsurancenumber|nino|taxid|dni|nie|nif|codicefiscale|fiscalcode|nir|idnumber|personalidnumber)$/,
+    value: isNationalId,
+    valueOnlyWeight: 0.7,
+  },
+];
+
+function normalizeFieldName(path: string): string {
+  const last = path.split('.').pop() ?? path;
+  return last.toLowerCase().replace(/[_\-\s]/g, '');
+}
+
+/**
+ * Guess the PII category of a field from its name and sampled values. A
+ * matching name counts for 0.6 and the share of matching values for the
+ * rest; without a name hint only the values count, weighted by how
+ * distinctive the category's values are. `hint` is a category known from
+ * elsewhere, such as a validation schema, and counts like a name.
+ */
+export function classifyField(path: string, values: string[], hint?: PiiCategory): ClassifiedField | null {
+  if (values.length === 0) return null;
+
+  const fieldName = normalizeFieldName(path);
+  let best: ClassifiedField | null = null;
+
+  for (const detector of DETECTORS) {
+    const matches = values.filter(detector.value).length;
+    const share = matches / values.length;
+    const confidence = detector.names.test(fieldName) || hint === detector.category
+      ? 0.6 + 0.4 * share
+      : share * detector.valueOnlyWeight;
+
+    if (confidence >= MIN_PII_CONFIDENCE && (!best || confidence > best.confidence)) {
+      best = {
+        path,
+        category: detector.category,
+        confidence: Math.round(confidence * 100) / 100,
+        samples: values.length,
+        matches,
+      };
+    }
+  }
+  return best;
+}
+
+function isPlainObject(value: unknown): value is Document {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+    && !ArrayBuffer.isView(value) && (value as any)._bsontype === undefined;
+}
+
+/** Deep copy of arrays and plain objects, keeping BSON values as they are */
+function copyPlain<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(copyPlain) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, copyPlain(child)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Collect string and integer values per dotted path; card and ID numbers
+ * are often stored as numbers. Arrays do not add a segment, matching how
+ * MongoDB queries address fields inside arrays.
+ */
+export function collectFieldValues(docs: Document[], maxDepth = 5): Map<string, string[]> {
+  const values = new Map<string, string[]>();
+
+  const add = (path: string, value: string) => {
+    if (!values.has(path)) values.set(path, []);
+    values.get(path)!.push(value);
+  };
+
+  const visit = (value: unknown, path: string, depth: number) => {
+    if (typeof value === 'string') {
+      if (path && value.trim()) add(path, value);
+    } else if (typeof value === 'number' || typeof value === 'bigint' || (value as any)?._bsontype === 'Long') {
+      if (path && Number.isInteger(Number(value))) add(path, String(value));
+    } else if (Array.isArray(value)) {
+      for (const item of value) visit(item, path, depth);
+    } else if (isPlainObject(value) && depth < maxDepth) {
+      for (const [key, child] of Object.entries(value)) {
+        if (path === '' && key === '_id') continue;
+        visit(child, path ? `${path}.${key}` : key, depth + 1);
+      }
+    }
+  };
+
+  for (const doc of docs) visit(doc, '', 0);
+  return values;
+}
+
+/** PII fields found in a sample of a collection's documents */
+export function classifySample(docs: Document[], hints: Map<string, PiiCategory> = new Map()): ClassifiedField[] {
+  const fields: ClassifiedField[] = [];
+  for (const [path, values] of collectFieldValues(docs)) {
+    const field = classifyField(path, values, hints.get(path));
+    if (field) fields.push(field);
+  }
+  return fields.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// ==================== Subject Matching ====================
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Normalize an identifier so equal values compare equal across formats */
+export function normalizeIdentifier(category: PiiCategory, value: string): string {
+  switch (category) {
+    case 'email':
+      return value.trim().toLowerCase();
+    case 'phone':
+      return digitsOf(value);
+    case 'name':
+      return value.trim().replace(/\s+/g, ' ').toLowerCase();
+    default:
+      return compact(value);
+  }
+}
+
+function isSubjectCategory(category: PiiCategory): category is SubjectCategory {
+  return (SUBJECT_CATEGORIES as PiiCategory[]).includes(category);
+}
+
+/** Query condition matching a field value equal to the identifier after normalization */
+function identifierCondition(category: SubjectCategory, value: string): Document | null {
+  const normalized = normalizeIdentifier(category, value);
+  if (!normalized) return null;
+
+  switch (category) {
+    case 'email':
+      return { $regex: `^\\s*${escapeRegex(normalized)}\\s*$`, $options: 'i' };
+    case 'phone':
+      return { $regex: `^\\D*${normalized.split('').join('\\D*')}\\D*$` };
+    case 'name':
+      return { $regex: `^\\s*${normalized.split(' ').map(escapeRegex).join('\\s+')}\\s*$`, $options: 'i' };
+  }
+}
+
+/**
+ * Filter for documents where any mapped field holds one of the subject's
+ * identifiers, or null when none of the fields can match.
+ */
+export function subjectFilter(fields: PiiFieldRef[], subject: DataSubject): Document | null {
+  const conditions: Document[] = [];
+  for (const field of fields) {
+    const identifier = isSubjectCategory(field.category) ? subject[field.category] : undefined;
+    const condition = identifier ? identifierCondition(field.category as SubjectCategory, identifier) : null;
+    if (condition) conditions.push({ [field.path]: condition });
+  }
+  return conditions.length > 0 ? { $or: conditions } : null;
+}
+
+export function matchesSubject(category: PiiCategory, value: unknown, subject: DataSubject): boolean {
+  const identifier = isSubjectCategory(category) ? subject[category] : undefined;
+  if (!identifier) return false;
+  const expected = normalizeIdentifier(category, identifier);
+  if (!expected) return false;
+  const values = Array.isArray(value) ? value : [value];
+  return values.some((v) => typeof v === 'string' && normalizeIdentifier(category, v) === expected);
+}
+
+/** Hash of the subject's identifiers, so reports do not repeat them */
+export function subjectHash(subject: DataSubject): string {
+  const parts = SUBJECT_CATEGORIES
+    .filter((category) => subject[category])
+    .map((category) => `${category}:${normalizeIdentifier(category, subject[category]!)}`);
+  return createHash('sha256').update(parts.join('\n')).digest('hex');
+}
+
+// ==================== Redaction ====================
+
+/**
+ * Replacement for a PII value. The token is derived from the value, so the
+ * same person gets the same pseudonym in every collection.
+ */
+export function pseudonymize(value: string, category: PiiCategory, key: string): string {
+  const token = createHmac('sha256', key).update(`${category}:${normalizeIdentifier(category, value)}`).digest('hex').slice(0, 16);
+  switch (category) {
+    case 'email':
+      return `${token}@pseudonymized.invalid`;
+    case 'phone':
+      return `+000${parseInt(token.slice(0, 8), 16).toString().padStart(10, '0')}`;
+    case 'name':
+      return `Pseudonym ${token}`;
+    default:
+      return `pseudonym-${token}`;
+  }
+}
+
+interface PiiLeaf {
+  /** Concrete path with array indexes */
+  path: (string | number)[];
+  category: PiiCategory;
+  value: unknown;
+}
+
+function collectLeaves(value: unknown, segments: string[], category: PiiCategory, path: (string | number)[], out: PiiLeaf[]): void {
+  if (segments.length === 0) {
+    if (value !== undefined) out.push({ path, category, value });
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => collectLeaves(item, segments, category, [...path, i], out));
+  } else if (isPlainObject(value) && segments[0] in value) {
+    collectLeaves(value[segments[0]], segments.slice(1), category, [...path, segments[0]], out);
+  }
+}
+
+/** Path up to the innermost array element the leaf lives in */
+function scopeOf(leaf: PiiLeaf): string {
+  const lastIndex = leaf.path.reduce<number>((last, segment, i) => (typeof segment === 'number' ? i : last), -1);
+  return leaf.path.slice(0, lastIndex + 1).join('.');
+}
+
+function withinScope(scope: string, matched: string): boolean {
+  return matched === '' || scope === matched || scope.startsWith(`${matched}.`);
+}
+
+export interface RedactionUpdate {
+  $set: Document;
+  $unset: Document;
+  /** Number of PII values erased or replaced */
+  redacted: number;
+}
+
+/**
+ * Update that erases (`pseudonymKey` omitted) or pseudonymizes the
+ * subject's PII in a document. A match redacts the mapped fields of the
+ * whole document, except a match inside an array element, which only
+ * redacts that element, so other people listed in the same array keep
+ * their data. Returns null when nothing in the document matches.
+ */
+export function redactDocument(
+  doc: Document,
+  fields: PiiFieldRef[],
+  subject: DataSubject,
+  pseudonymKey?: string,
+): RedactionUpdate | null {
+  const leaves: PiiLeaf[] = [];
+  for (const field of fields) {
+    collectLeaves(doc, field.path.split('.'), field.category, [], leaves);
+  }
+
+  const matchedScopes = leaves
+    .filter((leaf) => matchesSubject(leaf.category, leaf.value, subject))
+    .map(scopeOf);
+  if (matchedScopes.length === 0) return null;
+
+  const redacting = leaves.filter((leaf) => matchedScopes.some((scope) => withinScope(scopeOf(leaf), scope)));
+  const copy = copyPlain(doc);
+  const update: RedactionUpdate = { $set: {}, $unset: {}, redacted: 0 };
+  const touched = new Set<string>();
+
+  for (const leaf of redacting) {
+    const parent = leaf.path.slice(0, -1).reduce<any>((node, segment) => node[segment], copy);
+    const key = leaf.path[leaf.path.length - 1];
+
+    if (pseudonymKey) {
+      const replace = (v: unknown) => (typeof v === 'string' || typeof v === 'number'
+        ? pseudonymize(String(v), leaf.category, pseudonymKey)
+        : v);
+      parent[key] = Array.isArray(leaf.value) ? leaf.value.map(replace) : replace(leaf.value);
+    } else {
+      delete parent[key];
+    }
+    update.redacted += 1;
+    touched.add(String(leaf.path[0]));
+  }
+
+  for (const field of touched) {
+    if (copy[field] === undefined) {
+      update.$unset[field] = 1;
+    } else {
+      update.$set[field] = copy[field];
+    }
+  }
+  return update;
+}
+
+// ==================== Reports ====================
+
+/** JSON with sorted keys, so the signature does not depend on key order */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value).sort()
+      .filter((key) => (value as any)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function signReport(report: unknown, key: string): string {
+  return createHmac('sha256', key).update(stableStringify(report)).digest('hex');
+}
+
+export function verifyReport(report: unknown, signature: string, key: string): boolean {
+  const expected = Buffer.from(signReport(report, key), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,115 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type DataSubjectJobDocument = DataSubjectJob & Document;
+
+export type DataSubjectJobType = 'access' | 'erasure';
+export type DataSubjectJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type ErasureMode = 'erase' | 'pseudonymize';
+
+export interface DataSubjectJobResult {
+  database: string;
+  collection: string;
+  fields: string[];
+  matched: number;
+  modified: number;
+}
+
+/**
+ * Subject access or erasure run against the application data in a
+ * cluster, using the fields of the cluster's PII map.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_: any, ret: any) => {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      // Can be large, served by the export endpoint
+      delete ret.exportData;
+      return ret;
+    },
+  },
+})
+export class DataSubjectJob {
+  id: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  orgId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Cluster', required: true })
+  clusterId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'GdprRequest' })
+  requestId?: Types.ObjectId;
+
+  @Prop({ required: true, enum: ['access', 'erasure'] })
+  type: DataSubjectJobType;
+
+  @Prop({ enum: ['erase', 'pseudonymize'] })
+  erasureMode?: ErasureMode;
+
+  @Prop({ type: Object, required: true })
+  subject: {
+    email?: string;
+    name?: string;
+    phone?: string;
+  };
+
+  @Prop({ required: true, enum: ['queued', 'running', 'completed', 'failed'], default: 'queued' })
+  status: DataSubjectJobStatus;
+
+  @Prop({ type: [Object], default: [] })
+  results: DataSubjectJobResult[];
+
+  // Matching documents as relaxed Extended JSON, for access jobs
+  @Prop()
+  exportData?: string;
+
+  // The export is removed after this date; the signed report is kept
+  @Prop()
+  exportExpiresAt?: Date;
+
+  @Prop({ default: false })
+  exportTruncated: boolean;
+
+  @Prop({ type: Object })
+  report?: Record<string, any>;
+
+  // HMAC-SHA256 of the report
+  @Prop()
+  reportSignature?: string;
+
+  @Prop()
+  error?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  createdBy: Types.ObjectId;
+
+  // Lease of the worker running the job; an expired lease lets another worker take over
+  @Prop()
+  lockedUntil?: Date;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop()
+  startedAt?: Date;
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const DataSubjectJobSchema = SchemaFactory.createForClass(DataSubjectJob);
+
+DataSubjectJobSchema.index({ clusterId: 1, createdAt: -1 });
+DataSubjectJobSchema.index({ status: 1, createdAt: 1 });
+DataSubjectJobSchema.index({ exportExpiresAt: 1 }, { sparse: true });
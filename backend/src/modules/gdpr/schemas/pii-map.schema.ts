@@ -0,0 +1,79 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { PII_CATEGORIES, PiiCategory } from '../pii-fields';
+
+export type PiiMapDocument = PiiMap & Document;
+
+export type PiiFieldSource = 'sampled' | 'manual';
+
+@Schema({ _id: false })
+export class PiiField {
+  @Prop({ required: true })
+  database: string;
+
+  @Prop({ required: true })
+  collection: string;
+
+  // Dotted path, as used in queries
+  @Prop({ required: true })
+  path: string;
+
+  @Prop({ required: true, enum: PII_CATEGORIES })
+  category: PiiCategory;
+
+  @Prop({ required: true, enum: ['sampled', 'manual'] })
+  source: PiiFieldSource;
+
+  // Classifier confidence for sampled fields
+  @Prop()
+  confidence?: number;
+}
+
+export const PiiFieldSchema = SchemaFactory.createForClass(PiiField);
+
+/**
+ * Where personal data lives in a cluster's application databases.
+ * Subject access and erasure jobs search these fields.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_: any, ret: any) => {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class PiiMap {
+  id: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Cluster', required: true, unique: true })
+  clusterId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true, index: true })
+  orgId: Types.ObjectId;
+
+  @Prop({ type: [PiiFieldSchema], default: [] })
+  fields: PiiField[];
+
+  // "database.collection.path" entries that sampling must not add back
+  @Prop({ type: [String], default: [] })
+  ignoredFields: string[];
+
+  @Prop()
+  sampledAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy?: Types.ObjectId;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const PiiMapSchema = SchemaFactory.createForClass(PiiMap);
@@ -62,6 +62,21 @@ export class JobsService {
       .exec();
   }
 
+  /**
+   * Returns the pending or running job for a cluster, if any. Used by
+   * background schedulers so they never queue work on top of an in-flight
+   * operation.
+   */
+  async findActiveJobForCluster(clusterId: string): Promise<JobDocument | null> {
+    return this.jobModel
+      .findOne({
+        targetClusterId: clusterId,
+        status: { $in: ['pending', 'in_progress'] },
+      })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
   async startJob(jobId: string): Promise<JobDocument | null> {
     return this.jobModel.findByIdAndUpdate(
       jobId,
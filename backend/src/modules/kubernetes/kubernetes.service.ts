@@ -2,6 +2,7 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as k8s from '@kubernetes/client-node';
 import { randomBytes } from 'crypto';
+import { Writable } from 'stream';
 
 // ========== Interfaces ==========
 
@@ -118,6 +119,16 @@ interface BackupParams {
   storageClass?: string;
 }
 
+interface RestoreParams extends BackupParams {
+  databases?: string[];
+  collections?: string[];
+  /** Restore into another cluster of the same project (defaults to the source cluster) */
+  targetClusterId?: string;
+  targetPlan?: string;
+  /** Distinguishes repeated restores of the same backup, e.g. a PITR restore id */
+  restoreId?: string;
+}
+
 export interface BackupRunResult {
   sizeBytes: number;
   compressedSizeBytes: number;
@@ -131,6 +142,51 @@ export interface BackupRunResult {
   simulated: boolean;
 }
 
+interface ReadMongoLogsParams {
+  clusterId: string;
+  projectId: string;
+  since?: Date;
+  limitBytesPerPod?: number;
+}
+
+export interface PodLogs {
+  pod: string;
+  /** Lines with the RFC3339 timestamp added by the kubelet */
+  lines: Array<{ timestamp: string; line: string }>;
+  /** The byte limit was hit, later lines of this pod were not read */
+  truncated: boolean;
+}
+
+interface MongoMemberParams {
+  clusterId: string;
+  projectId: string;
+}
+
+interface SetMongoVersionParams extends MongoMemberParams {
+  plan: string;
+  version: string;
+}
+
+interface StepDownParams extends MongoMemberParams {
+  pod: string;
+  credentials: {
+    username: string;
+    password: string;
+  };
+}
+
+export interface MongoMemberStatus {
+  pod: string;
+  /** Changes whenever the pod is recreated; not reported when simulating */
+  uid?: string;
+  /** Pod is ready and mongod answers */
+  ready: boolean;
+  /** PRIMARY, SECONDARY, STANDALONE or UNKNOWN while starting up or recovering */
+  state: string;
+  /** Version reported by mongod; not reported when simulating */
+  version?: string;
+}
+
 export interface ClusterStatus {
   phase: string;
   ready: boolean;
@@ -2202,6 +2258,245 @@ export class KubernetesService implements OnModuleInit {
     }
   }
 
+  // ========== Rolling Maintenance ==========
+
+  /**
+   * Report every replica set member of a cluster with the state and version
+   * mongod itself reports. `hello` and `buildInfo` need no authentication.
+   */
+  async getMongoMembers(params: MongoMemberParams): Promise<MongoMemberStatus[]> {
+    const resourceName = this.getResourceName(params.clusterId);
+
+    if (this.shouldSimulate()) {
+      return [{ pod: `${resourceName}-0`, ready: true, state: 'PRIMARY' }];
+    }
+
+    const namespace = this.getNamespace(params.projectId);
+    const memberPattern = new RegExp(`^${resourceName}-\\d+$`);
+    const { body } = await this.coreApi.listNamespacedPod(namespace);
+    const pods = body.items
+      .filter((pod) => memberPattern.test(pod.metadata?.name || ''))
+      .sort((a, b) => a.metadata!.name!.localeCompare(b.metadata!.name!));
+
+    const members: MongoMemberStatus[] = [];
+    for (const pod of pods) {
+      const podName = pod.metadata!.name!;
+      const member: MongoMemberStatus = { pod: podName, uid: pod.metadata?.uid, ready: false, state: 'UNKNOWN' };
+      members.push(member);
+
+      const podReady = pod.status?.conditions?.some((c) => c.type === 'Ready' && c.status === 'True');
+      const container = pod.spec?.containers.find((c) => c.name === 'mongod' || c.name === 'mongodb');
+      if (!podReady || !container || pod.metadata?.deletionTimestamp) continue;
+
+      try {
+        const output = await this.execInPod(
+          namespace,
+          podName,
+          container.name,
+          `mongosh --quiet --eval "const h = db.hello(); print(JSON.stringify({ primary: h.isWritablePrimary, secondary: h.secondary, setName: h.setName || null, version: db.version() }))"`,
+        );
+        const hello = JSON.parse(output.trim().split('\n').pop() || '{}');
+        member.ready = true;
+        member.version = hello.version;
+        member.state = hello.primary
+          ? (hello.setName ? 'PRIMARY' : 'STANDALONE')
+          : (hello.secondary ? 'SECONDARY' : 'UNKNOWN');
+      } catch (error: any) {
+        this.logger.debug(`Member ${podName} not answering: ${error.message}`);
+      }
+    }
+
+    return members;
+  }
+
+  /**
+   * Restart one member by deleting its pod; the StatefulSet recreates it
+   * with the current template.
+   */
+  async restartMongoMember(params: MongoMemberParams & { pod: string }): Promise<void> {
+    this.logger.log(`Restarting member ${params.pod} of cluster ${params.clusterId}`);
+
+    if (this.shouldSimulate()) {
+      await this.simulateDelay(1000);
+      return;
+    }
+
+    const namespace = this.getNamespace(params.projectId);
+    if (!new RegExp(`^${this.getResourceName(params.clusterId)}-\\d+$`).test(params.pod)) {
+      throw new Error(`${params.pod} is not a member of cluster ${params.clusterId}`);
+    }
+
+    await this.coreApi.deleteNamespacedPod(params.pod, namespace);
+  }
+
+  /** Ask the primary to step down so that a secondary takes over before it restarts. */
+  async stepDownMongoPrimary(params: StepDownParams): Promise<void> {
+    this.logger.log(`Stepping down primary ${params.pod} of cluster ${params.clusterId}`);
+
+    if (this.shouldSimulate()) {
+      await this.simulateDelay(500);
+      return;
+    }
+
+    const namespace = this.getNamespace(params.projectId);
+    const { body: pod } = await this.coreApi.readNamespacedPod(params.pod, namespace);
+    const container = pod.spec?.containers.find((c) => c.name === 'mongod' || c.name === 'mongodb');
+    const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+    try {
+      await this.execInPod(
+        namespace,
+        params.pod,
+        container?.name || 'mongodb',
+        `mongosh --quiet -u ${quote(params.credentials.username)} -p ${quote(params.credentials.password)} --authenticationDatabase admin --eval "rs.stepDown(60)"`,
+      );
+    } catch (error: any) {
+      // The primary drops its connections while stepping down
+      if (!/network|connection|closed/i.test(error.message)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Change the MongoDB version of a cluster. The operator (MEDIUM+) and the
+   * StatefulSet controller (DEV/SMALL) roll the members one at a time.
+   */
+  async setMongoVersion(params: SetMongoVersionParams): Promise<void> {
+    this.logger.log(`Setting MongoDB version of cluster ${params.clusterId} to ${params.version}`);
+
+    if (this.shouldSimulate()) {
+      await this.simulateDelay(1500);
+      return;
+    }
+
+    const namespace = this.getNamespace(params.projectId);
+    const resourceName = this.getResourceName(params.clusterId);
+
+    try {
+      if (this.isOperatorManaged(params.plan)) {
+        const { body: mongoDb } = await this.customApi.getNamespacedCustomObject(
+          'mongodbcommunity.mongodb.com', 'v1', namespace, 'mongodbcommunity', resourceName,
+        ) as { body: any };
+
+        mongoDb.spec.version = params.version;
+
+        await this.customApi.replaceNamespacedCustomObject(
+          'mongodbcommunity.mongodb.com', 'v1', namespace, 'mongodbcommunity', resourceName, mongoDb,
+        );
+      } else {
+        const patch = {
+          spec: {
+            template: {
+              spec: {
+                containers: [{ name: 'mongodb', image: `mongo:${params.version}` }],
+              },
+            },
+          },
+        };
+
+        await this.appsApi.patchNamespacedStatefulSet(
+          resourceName,
+          namespace,
+          patch,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { headers: { 'Content-Type': 'application/strategic-merge-patch+json' } },
+        );
+      }
+    } catch (error: any) {
+      this.logger.error(`Failed to set MongoDB version: ${error.message}`);
+      throw error;
+    }
+  }
+
+  // ========== Log Streaming ==========
+
+  /**
+   * Read the mongod container logs of every member of a cluster since a
+   * point in time. Lines are streamed from the kubelet and split as they
+   * arrive; `limitBytesPerPod` bounds how much a single call pulls.
+   */
+  async readMongoLogs(params: ReadMongoLogsParams): Promise<PodLogs[]> {
+    if (this.shouldSimulate()) {
+      return [];
+    }
+
+    const namespace = this.getNamespace(params.projectId);
+    const resourceName = this.getResourceName(params.clusterId);
+    const memberPattern = new RegExp(`^${resourceName}-\\d+$`);
+
+    const { body } = await this.coreApi.listNamespacedPod(namespace);
+    const pods = body.items.filter((pod) => memberPattern.test(pod.metadata?.name || ''));
+
+    const result: PodLogs[] = [];
+    for (const pod of pods) {
+      const podName = pod.metadata!.name!;
+      // Operator-managed members run "mongod", simple StatefulSets "mongodb"
+      const container = pod.spec?.containers.find((c) => c.name === 'mongod' || c.name === 'mongodb');
+      if (!container) continue;
+
+      try {
+        const { lines, bytes } = await this.streamPodLog(namespace, podName, container.name, params);
+        result.push({
+          pod: podName,
+          lines: lines
+            .map((raw) => {
+              const separator = raw.indexOf(' ');
+              return { timestamp: raw.slice(0, Math.max(separator, 0)), line: raw.slice(separator + 1) };
+            })
+            .filter((entry) => entry.timestamp.length > 0),
+          truncated: !!params.limitBytesPerPod && bytes >= params.limitBytesPerPod,
+        });
+      } catch (error: any) {
+        this.logger.warn(`Failed to read logs of ${namespace}/${podName}: ${error.message}`);
+      }
+    }
+
+    return result;
+  }
+
+  private async streamPodLog(
+    namespace: string,
+    podName: string,
+    containerName: string,
+    params: ReadMongoLogsParams,
+  ): Promise<{ lines: string[]; bytes: number }> {
+    const lines: string[] = [];
+    let pending = '';
+    let bytes = 0;
+    const sink = new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        bytes += chunk.length;
+        const parts = (pending + chunk.toString('utf8')).split('\n');
+        pending = parts.pop() || '';
+        lines.push(...parts.filter((part) => part.length > 0));
+        callback();
+      },
+    });
+    const finished = new Promise<void>((resolve, reject) => {
+      sink.on('finish', resolve);
+      sink.on('error', reject);
+    });
+
+    await new k8s.Log(this.kc).log(namespace, podName, containerName, sink, {
+      follow: false,
+      timestamps: true,
+      limitBytes: params.limitBytesPerPod,
+      // The API only offers second granularity here; callers filter precisely
+      sinceSeconds: params.since
+        ? Math.max(1, Math.ceil((Date.now() - params.since.getTime()) / 1000) + 1)
+        : undefined,
+    });
+    await finished;
+
+    // A trailing partial line (cut off by limitBytes) is dropped and read again next time
+    return { lines, bytes };
+  }
+
   // ========== Backup & Restore ==========
 
   /**
@@ -2325,8 +2620,9 @@ export class KubernetesService implements OnModuleInit {
     this.logger.log(`Backup job ${jobName} created`);
   }
 
-  async restoreBackup(params: BackupParams & { databases?: string[]; collections?: string[] }): Promise<void> {
-    this.logger.log(`Restoring backup ${params.backupId} to cluster ${params.clusterId}`);
+  async restoreBackup(params: RestoreParams): Promise<void> {
+    const targetClusterId = params.targetClusterId || params.clusterId;
+    this.logger.log(`Restoring backup ${params.backupId} to cluster ${targetClusterId}`);
 
     if (this.shouldSimulate()) {
       await this.simulateDelay(4000);
@@ -2334,8 +2630,10 @@ export class KubernetesService implements OnModuleInit {
     }
 
     const namespace = this.getNamespace(params.projectId);
+    // The archive lives on the source cluster's backup volume; the target may be another cluster in the project
     const resourceName = this.getResourceName(params.clusterId);
-    const serviceName = this.getServiceName(resourceName, params.plan);
+    const targetResourceName = this.getResourceName(targetClusterId);
+    const serviceName = this.getServiceName(targetResourceName, params.targetPlan || params.plan);
 
     // Build mongorestore command with proper auth and correct service name
     let restoreCmd = `mongorestore --host="${serviceName}" --port=27017 --username="$MONGO_ADMIN_USER" --password="$MONGO_ADMIN_PASSWORD" --authenticationDatabase=admin --archive=/backup/${params.backupId}.gz --gzip --drop`;
@@ -2352,7 +2650,7 @@ export class KubernetesService implements OnModuleInit {
       }
     }
 
-    const jobName = `restore-${params.backupId}`.substring(0, 63).toLowerCase();
+    const jobName = this.getRestoreJobName(params.restoreId || params.backupId);
     
     const restoreJob: k8s.V1Job = {
       metadata: {
@@ -2385,7 +2683,7 @@ export class KubernetesService implements OnModuleInit {
                     name: 'MONGO_ADMIN_PASSWORD',
                     valueFrom: {
                       secretKeyRef: {
-                        name: `${resourceName}-admin-password`,
+                        name: `${targetResourceName}-admin-password`,
                         key: 'password',
                       },
                     },
@@ -2472,9 +2770,7 @@ export class KubernetesService implements OnModuleInit {
   /**
    * Restore from backup and wait for the K8s Job to finish.
    */
-  async runRestore(
-    params: BackupParams & { databases?: string[]; collections?: string[] },
-  ): Promise<void> {
+  async runRestore(params: RestoreParams): Promise<void> {
     if (this.shouldSimulate()) {
       await this.simulateDelay(4000);
       return;
@@ -2482,7 +2778,7 @@ export class KubernetesService implements OnModuleInit {
 
     await this.restoreBackup(params);
     const namespace = this.getNamespace(params.projectId);
-    const jobName = this.getRestoreJobName(params.backupId);
+    const jobName = this.getRestoreJobName(params.restoreId || params.backupId);
     await this.waitForJobCompletion(namespace, jobName);
   }
 
@@ -29,10 +29,22 @@ export class S3ConfigDto {
   @IsOptional()
   @IsString()
   roleArn?: string;
+  @ApiPropertyOptional({
+    description:
+      'S3-compatible endpoint URL (defaults to AWS S3 for the region). ' +
+      'Private, loopback and link-local hosts must be listed in LOG_FORWARDING_ALLOWED_HOSTS',
+  })
+  @IsOptional()
+  @IsString()
+  endpoint?: string;
 }
 
 export class DatadogConfigDto {
-  @ApiProperty()
+  @ApiProperty({
+    description:
+      'Datadog site (datadoghq.eu) or a proxy base URL. ' +
+      'Private, loopback and link-local hosts must be listed in LOG_FORWARDING_ALLOWED_HOSTS',
+  })
   @IsString()
   site: string;
 
@@ -57,7 +69,7 @@ export class DatadogConfigDto {
 }
 
 export class SplunkConfigDto {
-  @ApiProperty()
+  @ApiProperty({ description: 'Private, loopback and link-local hosts must be listed in LOG_FORWARDING_ALLOWED_HOSTS' })
   @IsString()
   host: string;
 
@@ -86,7 +98,7 @@ export class SplunkConfigDto {
 }
 
 export class WebhookConfigDto {
-  @ApiProperty()
+  @ApiProperty({ description: 'Private, loopback and link-local hosts must be listed in LOG_FORWARDING_ALLOWED_HOSTS' })
   @IsString()
   url: string;
 
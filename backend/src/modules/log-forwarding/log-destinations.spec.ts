@@ -0,0 +1,223 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHmac } from 'crypto';
+import { gunzipSync } from 'zlib';
+import { Types } from 'mongoose';
+import { createLogDestination, LogDeliveryError } from './log-destinations';
+import { ForwardedLogRecord } from './log-records';
+import { LogForwardingConfig } from './schemas/log-forwarding.schema';
+
+interface ReceivedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Buffer;
+}
+
+describe('log-destinations', () => {
+  // Local stand-in for the destination endpoints
+  let server: Server;
+  let baseUrl: string;
+  let port: number;
+  let received: ReceivedRequest[];
+  let respondWith: number;
+
+  // The local server listens on loopback, an internal address
+  const ALLOWED_HOSTS = ['127.0.0.1'];
+
+  const clusterId = new Types.ObjectId();
+  const records: ForwardedLogRecord[] = [
+    {
+      timestamp: new Date('2024-01-01T00:00:00Z'),
+      logType: 'mongodb',
+      clusterId: clusterId.toString(),
+      host: 'mongo-abc-0',
+      message: 'Connection accepted',
+      attributes: { component: 'NETWORK' },
+    },
+  ];
+
+  const config = (overrides: Partial<LogForwardingConfig>) =>
+    ({ clusterId, logTypes: ['mongodb'], ...overrides }) as LogForwardingConfig;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ method: req.method!, url: req.url!, headers: req.headers, body: Buffer.concat(chunks) });
+        res.statusCode = respondWith;
+        res.end(respondWith < 300 ? '{"code":0}' : '{"text":"denied"}');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    respondWith = 200;
+  });
+
+  // ==================== Webhook ====================
+
+  describe('webhook', () => {
+    it('should post records with the configured headers and signature', async () => {
+      const destination = await createLogDestination(
+        config({
+          destinationType: 'webhook',
+          webhookConfig: { url: `${baseUrl}/ingest`, headers: { 'X-Api-Key': 'k' } },
+          credentials: { webhookSecret: 'secret' },
+        }),
+        ALLOWED_HOSTS,
+      );
+
+      await destination.send(records);
+
+      const [request] = received;
+      expect(request.method).toBe('POST');
+      expect(request.url).toBe('/ingest');
+      expect(request.headers['x-api-key']).toBe('k');
+      expect(request.headers['x-eutlas-signature']).toBe(
+        `sha256=${createHmac('sha256', 'secret').update(request.body).digest('hex')}`,
+      );
+      const body = JSON.parse(request.body.toString());
+      expect(body.logs).toEqual([
+        expect.objectContaining({ timestamp: '2024-01-01T00:00:00.000Z', message: 'Connection accepted' }),
+      ]);
+    });
+
+    it('should mark 5xx responses retryable and 4xx responses final', async () => {
+      const destination = await createLogDestination(
+        config({ destinationType: 'webhook', webhookConfig: { url: `${baseUrl}/ingest` } }),
+        ALLOWED_HOSTS,
+      );
+
+      respondWith = 503;
+      await expect(destination.send(records)).rejects.toMatchObject({ retryable: true });
+
+      respondWith = 401;
+      await expect(destination.send(records)).rejects.toMatchObject({ retryable: false });
+    });
+
+    it('should report only the status of a failed request', async () => {
+      const destination = await createLogDestination(
+        config({ destinationType: 'webhook', webhookConfig: { url: `${baseUrl}/ingest` } }),
+        ALLOWED_HOSTS,
+      );
+
+      respondWith = 401;
+      await expect(destination.send(records)).rejects.toThrow(/^HTTP 401$/);
+    });
+
+    it('should refuse internal addresses that are not allow-listed', async () => {
+      await expect(
+        createLogDestination(
+          config({ destinationType: 'webhook', webhookConfig: { url: 'http://169.254.169.254/latest/meta-data' } }),
+          ALLOWED_HOSTS,
+        ),
+      ).rejects.toThrow('LOG_FORWARDING_ALLOWED_HOSTS');
+      await expect(
+        createLogDestination(config({ destinationType: 'webhook', webhookConfig: { url: `${baseUrl}/ingest` } }), []),
+      ).rejects.toMatchObject({ retryable: false });
+      expect(received).toHaveLength(0);
+    });
+  });
+
+  // ==================== Splunk HEC ====================
+
+  describe('splunk', () => {
+    it('should send HEC events with the token', async () => {
+      const destination = await createLogDestination(
+        config({
+          destinationType: 'splunk',
+          splunkConfig: { host: '127.0.0.1', port, index: 'mongo', useTls: false },
+          credentials: { splunkHecToken: 'hec-token' },
+        }),
+        ALLOWED_HOSTS,
+      );
+
+      await destination.send([...records, ...records]);
+
+      const [request] = received;
+      expect(request.url).toBe('/services/collector/event');
+      expect(request.headers.authorization).toBe('Splunk hec-token');
+      const events = request.body.toString().split('\n').map((line) => JSON.parse(line));
+      expect(events).toHaveLength(2);
+      expect(events[0]).toMatchObject({ time: 1704067200, index: 'mongo', host: 'mongo-abc-0' });
+    });
+  });
+
+  // ==================== Datadog ====================
+
+  describe('datadog', () => {
+    const datadog = () =>
+      createLogDestination(
+        config({
+          destinationType: 'datadog',
+          datadogConfig: { site: baseUrl, service: 'orders', tags: ['env:prod'] },
+          credentials: { datadogApiKey: 'dd-key' },
+        }),
+        ALLOWED_HOSTS,
+      );
+
+    it('should send logs to the intake API', async () => {
+      await (await datadog()).send(records);
+
+      const [request] = received;
+      expect(request.url).toBe('/api/v2/logs');
+      expect(request.headers['dd-api-key']).toBe('dd-key');
+      expect(JSON.parse(request.body.toString())[0]).toMatchObject({
+        service: 'orders',
+        hostname: 'mongo-abc-0',
+        ddtags: `env:prod,cluster_id:${clusterId},log_type:mongodb`,
+      });
+    });
+
+    it('should validate the API key when testing', async () => {
+      await (await datadog()).test();
+      expect(received[0]).toMatchObject({ method: 'GET', url: '/api/v1/validate' });
+    });
+  });
+
+  // ==================== S3 ====================
+
+  describe('s3', () => {
+    it('should upload a gzipped NDJSON object per batch', async () => {
+      const destination = await createLogDestination(
+        config({
+          destinationType: 's3',
+          s3Config: { bucketName: 'logs', region: 'eu-central-1', prefix: 'mongo/', accessKeyId: 'AKID', endpoint: baseUrl },
+          credentials: { s3SecretAccessKey: 'secret' },
+        }),
+        ALLOWED_HOSTS,
+      );
+
+      await destination.send(records);
+
+      const [request] = received;
+      expect(request.method).toBe('PUT');
+      expect(request.url).toMatch(new RegExp(`^/logs/mongo/${clusterId}/2024/01/01/.+\\.ndjson\\.gz$`));
+      expect(request.headers.authorization).toMatch(/^AWS4-HMAC-SHA256 Credential=AKID\//);
+      expect(JSON.parse(gunzipSync(request.body).toString().trim())).toMatchObject({ host: 'mongo-abc-0' });
+    });
+
+    it('should require static credentials', async () => {
+      await expect(
+        createLogDestination(
+          config({ destinationType: 's3', s3Config: { bucketName: 'logs', region: 'eu-central-1' } }),
+          ALLOWED_HOSTS,
+        ),
+      ).rejects.toThrow(LogDeliveryError);
+    });
+  });
+
+  it('should reject destinations the worker cannot serve', async () => {
+    await expect(createLogDestination(config({ destinationType: 'gcs' }), ALLOWED_HOSTS)).rejects.toThrow('not supported');
+  });
+});
@@ -0,0 +1,310 @@
+import { createHmac, randomBytes } from 'crypto';
+import { gzipSync } from 'zlib';
+import axios, { AxiosRequestConfig } from 'axios';
+import { S3ArchiveStore } from '../online-archive/archive-storage.service';
+import { assertAllowedEndpoint, EmbeddingRequestError } from '../vector-search/embedding-providers';
+import { LogForwardingConfig } from './schemas/log-forwarding.schema';
+import { ForwardedLogRecord, serializeLogRecord } from './log-records';
+
+export interface LogDestination {
+  send(records: ForwardedLogRecord[]): Promise<void>;
+  /** Deliver a single marker event to prove the destination accepts our requests */
+  test(): Promise<void>;
+}
+
+/**
+ * Delivery failure. Network errors, 429 and 5xx responses are worth
+ * retrying; anything else (bad credentials, unknown bucket) is not.
+ */
+export class LogDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+  ) {
+    super(message);
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+const TEST_MESSAGE = 'EUTLAS log forwarding connectivity test';
+
+function testRecord(clusterId: string): ForwardedLogRecord {
+  return {
+    timestamp: new Date(),
+    logType: 'mongodb',
+    clusterId,
+    host: 'eutlas',
+    message: TEST_MESSAGE,
+  };
+}
+
+async function deliver(config: AxiosRequestConfig): Promise<void> {
+  try {
+    // No redirects: they could lead to an internal address the endpoint check did not see
+    await axios.request({ timeout: REQUEST_TIMEOUT_MS, maxBodyLength: Infinity, maxRedirects: 0, ...config });
+  } catch (error: any) {
+    throw toDeliveryError(error);
+  }
+}
+
+/** Only the status: the response body is the destination's and is shown to whoever tests it */
+function toDeliveryError(error: any): LogDeliveryError {
+  const status: number | undefined = error.response?.status;
+  if (status === undefined) {
+    return new LogDeliveryError(error.message, true);
+  }
+  return new LogDeliveryError(`HTTP ${status}`, status === 429 || status >= 500);
+}
+
+class WebhookDestination implements LogDestination {
+  constructor(
+    private readonly config: NonNullable<LogForwardingConfig['webhookConfig']>,
+    private readonly clusterId: string,
+    private readonly secret?: string,
+  ) {}
+
+  async send(records: ForwardedLogRecord[]): Promise<void> {
+    await this.post({ clusterId: this.clusterId, logs: records.map(serializeLogRecord) });
+  }
+
+  async test(): Promise<void> {
+    await this.post({ clusterId: this.clusterId, test: true, logs: [serializeLogRecord(testRecord(this.clusterId))] });
+  }
+
+  private async post(body: Record<string, any>): Promise<void> {
+    const payload = Buffer.from(JSON.stringify(body));
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...this.config.headers,
+    };
+    // Same signature scheme as alert webhooks
+    if (this.secret) {
+      headers['X-EUTLAS-Signature'] = `sha256=${createHmac('sha256', this.secret).update(payload).digest('hex')}`;
+    }
+    await deliver({ method: 'POST', url: this.config.url, data: payload, headers });
+  }
+}
+
+function splunkBaseUrl(config: NonNullable<LogForwardingConfig['splunkConfig']>): string {
+  return `${config.useTls === false ? 'http' : 'https'}://${config.host}:${config.port}`;
+}
+
+class SplunkHecDestination implements LogDestination {
+  constructor(
+    private readonly config: NonNullable<LogForwardingConfig['splunkConfig']>,
+    private readonly clusterId: string,
+    private readonly hecToken: string,
+  ) {}
+
+  async send(records: ForwardedLogRecord[]): Promise<void> {
+    await this.post(records);
+  }
+
+  async test(): Promise<void> {
+    await this.post([testRecord(this.clusterId)]);
+  }
+
+  private async post(records: ForwardedLogRecord[]): Promise<void> {
+    // HEC accepts several events per request as concatenated JSON objects
+    const payload = records
+      .map((record) =>
+        JSON.stringify({
+          time: record.timestamp.getTime() / 1000,
+          host: record.host,
+          source: this.config.source || 'eutlas',
+          sourcetype: this.config.sourcetype || 'mongodb',
+          ...(this.config.index ? { index: this.config.index } : {}),
+          event: serializeLogRecord(record),
+        }),
+      )
+      .join('\n');
+
+    // Sent as a Buffer: axios would re-encode a string that is not a single JSON document
+    await deliver({
+      method: 'POST',
+      url: `${splunkBaseUrl(this.config)}/services/collector/event`,
+      data: Buffer.from(payload),
+      headers: { Authorization: `Splunk ${this.hecToken}`, 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+type DatadogSubdomain = 'http-intake.logs' | 'api';
+
+/** `site` is a Datadog site (`datadoghq.eu`) or, for proxies, a base URL. */
+function datadogBaseUrl(site: string, subdomain: DatadogSubdomain): string {
+  const trimmed = site.replace(/\/+$/, '');
+  return /^https?:\/\//.test(trimmed) ? trimmed : `https://${subdomain}.${trimmed}`;
+}
+
+class DatadogDestination implements LogDestination {
+  constructor(
+    private readonly config: NonNullable<LogForwardingConfig['datadogConfig']>,
+    private readonly apiKey: string,
+  ) {}
+
+  private baseUrl(subdomain: DatadogSubdomain): string {
+    return datadogBaseUrl(this.config.site, subdomain);
+  }
+
+  async send(records: ForwardedLogRecord[]): Promise<void> {
+    const entries = records.map((record) => ({
+      ddsource: this.config.source || 'mongodb',
+      ddtags: [...(this.config.tags || []), `cluster_id:${record.clusterId}`, `log_type:${record.logType}`].join(','),
+      hostname: record.host,
+      service: this.config.service || 'eutlas',
+      message: record.message,
+      timestamp: record.timestamp.getTime(),
+      ...(record.attributes ? { attributes: record.attributes } : {}),
+    }));
+
+    await deliver({
+      method: 'POST',
+      url: `${this.baseUrl('http-intake.logs')}/api/v2/logs`,
+      data: entries,
+      headers: { 'DD-API-KEY': this.apiKey, 'Content-Type': 'application/json' },
+    });
+  }
+
+  async test(): Promise<void> {
+    await deliver({
+      method: 'GET',
+      url: `${this.baseUrl('api')}/api/v1/validate`,
+      headers: { 'DD-API-KEY': this.apiKey },
+    });
+  }
+}
+
+function s3Endpoint(config: NonNullable<LogForwardingConfig['s3Config']>): string {
+  return config.endpoint || `https://s3.${config.region}.amazonaws.com`;
+}
+
+class S3Destination implements LogDestination {
+  private readonly store: S3ArchiveStore;
+
+  constructor(
+    private readonly config: NonNullable<LogForwardingConfig['s3Config']>,
+    private readonly clusterId: string,
+    secretAccessKey: string,
+  ) {
+    this.store = new S3ArchiveStore({
+      endpoint: s3Endpoint(config),
+      bucket: config.bucketName,
+      region: config.region,
+      accessKeyId: config.accessKeyId!,
+      secretAccessKey,
+    });
+  }
+
+  /** One gzipped NDJSON object per batch, partitioned by cluster and day. */
+  async send(records: ForwardedLogRecord[]): Promise<void> {
+    const first = records[0].timestamp.toISOString();
+    const key =
+      `${this.config.prefix || ''}${this.clusterId}/${first.slice(0, 10).replace(/-/g, '/')}/` +
+      `${first.replace(/[:.]/g, '-')}-${randomBytes(4).toString('hex')}.ndjson.gz`;
+    const body = gzipSync(records.map((record) => JSON.stringify(serializeLogRecord(record))).join('\n') + '\n');
+    await this.put(key, body);
+  }
+
+  async test(): Promise<void> {
+    await this.put(
+      `${this.config.prefix || ''}eutlas-connection-test.json`,
+      Buffer.from(JSON.stringify(serializeLogRecord(testRecord(this.clusterId)))),
+    );
+  }
+
+  private async put(key: string, body: Buffer): Promise<void> {
+    try {
+      await this.store.put(key, body);
+    } catch (error: any) {
+      throw toDeliveryError(error);
+    }
+  }
+}
+
+/** Hosts on internal addresses destinations may use, from a comma-separated setting */
+export function parseAllowedHosts(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** Every URL a configuration makes requests to */
+function destinationUrls(config: LogForwardingConfig): string[] {
+  switch (config.destinationType) {
+    case 'webhook':
+      return config.webhookConfig?.url ? [config.webhookConfig.url] : [];
+    case 'splunk':
+      return config.splunkConfig ? [splunkBaseUrl(config.splunkConfig)] : [];
+    case 'datadog':
+      return config.datadogConfig
+        ? [datadogBaseUrl(config.datadogConfig.site, 'http-intake.logs'), datadogBaseUrl(config.datadogConfig.site, 'api')]
+        : [];
+    case 's3':
+      return config.s3Config ? [s3Endpoint(config.s3Config)] : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Refuse destinations on internal addresses, so log forwarding cannot be
+ * used to reach cloud metadata or services next to the control plane.
+ * Collectors on a private network need their host in LOG_FORWARDING_ALLOWED_HOSTS.
+ */
+export async function assertAllowedDestination(config: LogForwardingConfig, allowedHosts: string[]): Promise<void> {
+  for (const url of destinationUrls(config)) {
+    try {
+      await assertAllowedEndpoint(url, allowedHosts, 'LOG_FORWARDING_ALLOWED_HOSTS');
+    } catch (error: any) {
+      if (error instanceof EmbeddingRequestError) {
+        throw new LogDeliveryError(error.message, error.retryable);
+      }
+      // new URL() rejects what is not a URL at all
+      throw new LogDeliveryError(`Invalid ${config.destinationType} endpoint: ${url}`, false);
+    }
+  }
+}
+
+function buildLogDestination(config: LogForwardingConfig): LogDestination {
+  const clusterId = config.clusterId.toString();
+  const credentials = config.credentials || {};
+
+  switch (config.destinationType) {
+    case 'webhook':
+      if (!config.webhookConfig?.url) break;
+      return new WebhookDestination(config.webhookConfig, clusterId, credentials.webhookSecret);
+    case 'splunk':
+      if (!config.splunkConfig || !credentials.splunkHecToken) break;
+      return new SplunkHecDestination(config.splunkConfig, clusterId, credentials.splunkHecToken);
+    case 'datadog':
+      if (!config.datadogConfig || !credentials.datadogApiKey) break;
+      return new DatadogDestination(config.datadogConfig, credentials.datadogApiKey);
+    case 's3':
+      if (!config.s3Config?.accessKeyId || !credentials.s3SecretAccessKey) {
+        throw new LogDeliveryError(
+          'S3 forwarding requires accessKeyId and secretAccessKey (role assumption is not supported)',
+          false,
+        );
+      }
+      return new S3Destination(config.s3Config, clusterId, credentials.s3SecretAccessKey);
+    default:
+      throw new LogDeliveryError(`Forwarding to ${config.destinationType} is not supported yet`, false);
+  }
+
+  throw new LogDeliveryError(`Incomplete ${config.destinationType} configuration`, false);
+}
+
+/**
+ * Build the client for a configuration. Throws a non-retryable
+ * LogDeliveryError when the destination type or its settings cannot be
+ * served. The endpoint is checked on every call, its host may resolve
+ * elsewhere since the configuration was saved.
+ */
+export async function createLogDestination(config: LogForwardingConfig, allowedHosts: string[]): Promise<LogDestination> {
+  const destination = buildLogDestination(config);
+  await assertAllowedDestination(config, allowedHosts);
+  return destination;
+}
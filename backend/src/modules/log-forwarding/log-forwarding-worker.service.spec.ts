@@ -0,0 +1,182 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { LogForwardingWorkerService } from './log-forwarding-worker.service';
+import { LogForwardingConfig } from './schemas/log-forwarding.schema';
+import { LogDeliveryError, createLogDestination } from './log-destinations';
+import { KubernetesService } from '../kubernetes/kubernetes.service';
+import { AuditService } from '../audit/audit.service';
+
+jest.mock('./log-destinations', () => ({
+  ...jest.requireActual('./log-destinations'),
+  createLogDestination: jest.fn(),
+}));
+
+describe('LogForwardingWorkerService', () => {
+  let service: LogForwardingWorkerService;
+
+  const CONFIG_ID = new Types.ObjectId();
+  const destination = { send: jest.fn(), test: jest.fn() };
+
+  const mockModel = {
+    find: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  const mockKubernetesService = {
+    readMongoLogs: jest.fn(),
+  };
+
+  const mockAuditService = {
+    findClusterEventsAfter: jest.fn(),
+  };
+
+  const mongodLine = (msg: string, c = 'NETWORK') => JSON.stringify({ s: 'I', c, msg });
+
+  const configDoc = (overrides: Record<string, any> = {}) => ({
+    _id: CONFIG_ID,
+    id: CONFIG_ID.toString(),
+    clusterId: new Types.ObjectId(),
+    projectId: new Types.ObjectId(),
+    destinationType: 'webhook',
+    webhookConfig: { url: 'http://127.0.0.1/ingest', batchSize: 2 },
+    logTypes: ['mongodb'],
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    consecutiveFailures: 0,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LogForwardingWorkerService,
+        { provide: getModelToken(LogForwardingConfig.name), useValue: mockModel },
+        { provide: ConfigService, useValue: { get: jest.fn((_key: string, fallback?: unknown) => fallback) } },
+        { provide: KubernetesService, useValue: mockKubernetesService },
+        { provide: AuditService, useValue: mockAuditService },
+      ],
+    }).compile();
+
+    service = module.get<LogForwardingWorkerService>(LogForwardingWorkerService);
+
+    jest.clearAllMocks();
+    (createLogDestination as jest.Mock).mockResolvedValue(destination);
+    mockModel.updateOne.mockResolvedValue({});
+    mockAuditService.findClusterEventsAfter.mockResolvedValue([]);
+    mockKubernetesService.readMongoLogs.mockResolvedValue([
+      {
+        pod: 'mongo-x-0',
+        truncated: false,
+        lines: [
+          { timestamp: '2024-01-01T00:00:01.1Z', line: mongodLine('one') },
+          { timestamp: '2024-01-01T00:00:03Z', line: mongodLine('three') },
+        ],
+      },
+      {
+        pod: 'mongo-x-1',
+        truncated: false,
+        lines: [
+          { timestamp: '2024-01-01T00:00:02Z', line: mongodLine('two') },
+          { timestamp: '2024-01-01T00:00:04Z', line: mongodLine('slow', 'COMMAND').replace('slow', 'Slow query') },
+        ],
+      },
+    ]);
+  });
+
+  const cursorUpdates = () =>
+    mockModel.updateOne.mock.calls
+      .map(([, update]) => update.$set?.['cursor.mongodbLogsAt'])
+      .filter((cursor) => cursor !== undefined);
+
+  it('should skip configurations leased by another instance', async () => {
+    mockModel.findOneAndUpdate.mockResolvedValue(null);
+
+    await expect(service.forwardConfig(CONFIG_ID.toString(), new Date())).resolves.toBe(0);
+    expect(mockKubernetesService.readMongoLogs).not.toHaveBeenCalled();
+  });
+
+  it('should ship matching lines in order and advance the cursor per batch', async () => {
+    mockModel.findOneAndUpdate.mockResolvedValue(configDoc());
+    destination.send.mockResolvedValue(undefined);
+
+    const delivered = await service.forwardConfig(CONFIG_ID.toString(), new Date());
+
+    expect(delivered).toBe(3);
+    expect(destination.send.mock.calls.map(([records]) => records.map((r: any) => r.message))).toEqual([
+      ['one', 'two'],
+      ['three'],
+    ]);
+    // The filtered-out slow query line is covered by the final cursor
+    expect(cursorUpdates()).toEqual(['2024-01-01T00:00:02.000000000Z', '2024-01-01T00:00:04.000000000Z']);
+  });
+
+  it('should keep the cursor and back off when the destination rejects a batch', async () => {
+    const now = new Date('2024-01-01T01:00:00Z');
+    mockModel.findOneAndUpdate.mockResolvedValue(configDoc({ consecutiveFailures: 2 }));
+    destination.send.mockRejectedValue(new LogDeliveryError('HTTP 401', false));
+
+    await expect(service.forwardConfig(CONFIG_ID.toString(), now)).resolves.toBe(0);
+
+    expect(destination.send).toHaveBeenCalledTimes(1);
+    expect(cursorUpdates()).toEqual([]);
+    expect(mockModel.updateOne).toHaveBeenCalledWith(
+      { _id: CONFIG_ID },
+      expect.objectContaining({
+        $set: expect.objectContaining({
+          lastError: 'HTTP 401',
+          consecutiveFailures: 3,
+          nextAttemptAt: new Date(now.getTime() + 120_000),
+        }),
+      }),
+    );
+  });
+
+  it('should not read past the point where a pod log was truncated', async () => {
+    mockModel.findOneAndUpdate.mockResolvedValue(configDoc({ webhookConfig: { url: 'http://127.0.0.1/ingest' } }));
+    mockKubernetesService.readMongoLogs.mockResolvedValue([
+      { pod: 'mongo-x-0', truncated: true, lines: [{ timestamp: '2024-01-01T00:00:02Z', line: mongodLine('a') }] },
+      { pod: 'mongo-x-1', truncated: false, lines: [{ timestamp: '2024-01-01T00:00:05Z', line: mongodLine('b') }] },
+    ]);
+    destination.send.mockResolvedValue(undefined);
+
+    await service.forwardConfig(CONFIG_ID.toString(), new Date());
+
+    expect(destination.send).toHaveBeenCalledWith([expect.objectContaining({ message: 'a' })]);
+    expect(cursorUpdates()).toEqual(['2024-01-01T00:00:02.000000000Z']);
+  });
+
+  it('should resume between lines that share a timestamp', async () => {
+    mockModel.findOneAndUpdate.mockResolvedValue(configDoc({
+      cursor: {
+        mongodbLogsAt: '2024-01-01T00:00:02.000000000Z',
+        mongodbLogsSeen: [{ pod: 'mongo-x-0', lines: 1 }],
+      },
+    }));
+    mockKubernetesService.readMongoLogs.mockResolvedValue([
+      {
+        pod: 'mongo-x-0',
+        truncated: false,
+        lines: [
+          { timestamp: '2024-01-01T00:00:01Z', line: mongodLine('old') },
+          { timestamp: '2024-01-01T00:00:02Z', line: mongodLine('sent') },
+          { timestamp: '2024-01-01T00:00:02Z', line: mongodLine('same time') },
+        ],
+      },
+      { pod: 'mongo-x-1', truncated: false, lines: [{ timestamp: '2024-01-01T00:00:02Z', line: mongodLine('other pod') }] },
+    ]);
+    destination.send.mockResolvedValue(undefined);
+
+    await service.forwardConfig(CONFIG_ID.toString(), new Date());
+
+    expect(destination.send.mock.calls.map(([records]) => records.map((r: any) => r.message))).toEqual([
+      ['same time', 'other pod'],
+    ]);
+    const [, update] = mockModel.updateOne.mock.calls.find(([, u]) => u.$set?.['cursor.mongodbLogsSeen']);
+    expect(update.$set['cursor.mongodbLogsSeen']).toEqual([
+      { pod: 'mongo-x-0', lines: 2 },
+      { pod: 'mongo-x-1', lines: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,313 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+import { LogForwardingConfig, LogForwardingConfigDocument } from './schemas/log-forwarding.schema';
+import { LogDestination, LogDeliveryError, createLogDestination, parseAllowedHosts } from './log-destinations';
+import {
+  ForwardedLogRecord,
+  batchLogRecords,
+  normalizeLogTimestamp,
+  parseMongodLogLine,
+} from './log-records';
+import { KubernetesService } from '../kubernetes/kubernetes.service';
+import { AuditService } from '../audit/audit.service';
+
+/** Destination types the worker can ship to. */
+export const FORWARDABLE_DESTINATIONS = ['s3', 'webhook', 'splunk', 'datadog'];
+
+const DEFAULT_BATCH_SIZE = 500;
+const MAX_DELIVERY_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+/** A destination that keeps failing is retried at most this rarely. */
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+const LEASE_MS = 5 * 60 * 1000;
+
+interface PendingSource {
+  records: ForwardedLogRecord[];
+  /** Cursor update to store once records[i] is delivered */
+  cursors: Array<Record<string, unknown>>;
+  /** Cursor update covering everything read, including lines filtered out */
+  finalCursor: Record<string, unknown>;
+}
+
+/**
+ * Ships mongod logs (read from the cluster pods) and platform audit events
+ * to the configured destinations. Each configuration keeps a cursor per
+ * source that only advances past delivered batches, so a failing
+ * destination holds logs back instead of dropping them, and each run reads
+ * no more than it may ship.
+ */
+@Injectable()
+export class LogForwardingWorkerService {
+  private readonly logger = new Logger(LogForwardingWorkerService.name);
+  private isRunning = false;
+  private readonly maxRecordsPerRun: number;
+  private readonly maxBatchBytes: number;
+  private readonly allowedHosts: string[];
+
+  constructor(
+    @InjectModel(LogForwardingConfig.name) private logForwardingModel: Model<LogForwardingConfigDocument>,
+    private readonly configService: ConfigService,
+    private readonly kubernetesService: KubernetesService,
+    private readonly auditService: AuditService,
+  ) {
+    this.maxRecordsPerRun = Number(this.configService.get('LOG_FORWARDING_MAX_RECORDS_PER_RUN', 5000));
+    this.maxBatchBytes = Number(this.configService.get('LOG_FORWARDING_MAX_BATCH_BYTES', 1024 * 1024));
+    this.allowedHosts = parseAllowedHosts(this.configService.get<string>('LOG_FORWARDING_ALLOWED_HOSTS'));
+  }
+
+  @Cron(CronExpression.EVERY_30_SECONDS)
+  async runForwarding(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test') {
+      return;
+    }
+
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const now = new Date();
+      const configs = await this.logForwardingModel.find({
+        enabled: true,
+        destinationType: { $in: FORWARDABLE_DESTINATIONS },
+        $or: [{ nextAttemptAt: { $exists: false } }, { nextAttemptAt: null }, { nextAttemptAt: { $lte: now } }],
+      });
+
+      for (const config of configs) {
+        try {
+          await this.forwardConfig(config.id, now);
+        } catch (error: any) {
+          this.logger.error(`Log forwarding failed for config ${config.id}: ${error.message}`);
+        }
+      }
+    } catch (error: any) {
+      this.logger.error(`Log forwarding run failed: ${error.message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Deliver everything pending for one configuration, within the per-run
+   * budget. Returns the number of records delivered.
+   */
+  async forwardConfig(configId: string, now: Date): Promise<number> {
+    const config = await this.logForwardingModel.findOneAndUpdate(
+      {
+        _id: configId,
+        enabled: true,
+        $or: [{ leaseUntil: { $exists: false } }, { leaseUntil: null }, { leaseUntil: { $lt: now } }],
+      },
+      { $set: { leaseUntil: new Date(now.getTime() + LEASE_MS) } },
+      { new: true },
+    );
+    if (!config) {
+      return 0; // Disabled, deleted or being shipped by another instance
+    }
+
+    let delivered = 0;
+    try {
+      const destination = await createLogDestination(config, this.allowedHosts);
+      const sources = await this.collectPending(config, now);
+      const batchSize = config.webhookConfig?.batchSize || DEFAULT_BATCH_SIZE;
+
+      for (const pending of sources) {
+        let offset = 0;
+        for (const batch of batchLogRecords(pending.records, batchSize, this.maxBatchBytes)) {
+          await this.deliverBatch(config, destination, batch.records);
+          offset += batch.records.length;
+
+          const cursor = offset === pending.records.length ? pending.finalCursor : pending.cursors[offset - 1];
+          await this.logForwardingModel.updateOne(
+            { _id: config._id },
+            {
+              $set: { ...cursor, lastLogSentAt: new Date() },
+              $inc: {
+                logsForwardedCount: batch.records.length,
+                bytesForwardedTotal: batch.bytes,
+                batchesForwardedCount: 1,
+              },
+            },
+          );
+          delivered += batch.records.length;
+        }
+
+        // Nothing matched the log types, but the lines were read
+        if (pending.records.length === 0 && Object.keys(pending.finalCursor).length > 0) {
+          await this.logForwardingModel.updateOne({ _id: config._id }, { $set: pending.finalCursor });
+        }
+      }
+
+      const flushIntervalSeconds = config.webhookConfig?.flushIntervalSeconds;
+      await this.logForwardingModel.updateOne(
+        { _id: config._id },
+        {
+          $set: {
+            consecutiveFailures: 0,
+            nextAttemptAt: flushIntervalSeconds ? new Date(now.getTime() + flushIntervalSeconds * 1000) : null,
+          },
+        },
+      );
+    } catch (error: any) {
+      const failures = (config.consecutiveFailures || 0) + 1;
+      const backoffMs = Math.min(MAX_BACKOFF_MS, 30_000 * 2 ** (failures - 1));
+      await this.logForwardingModel.updateOne(
+        { _id: config._id },
+        {
+          $set: {
+            lastError: error.message,
+            lastErrorAt: new Date(),
+            consecutiveFailures: failures,
+            nextAttemptAt: new Date(now.getTime() + backoffMs),
+          },
+          $inc: { batchesFailedCount: error instanceof LogDeliveryError ? 1 : 0 },
+        },
+      );
+      this.logger.warn(
+        `Log forwarding ${config.id} (${config.destinationType}) failed, retrying in ${Math.round(backoffMs / 1000)}s: ${error.message}`,
+      );
+    } finally {
+      await this.logForwardingModel.updateOne({ _id: config._id }, { $unset: { leaseUntil: 1 } });
+    }
+
+    return delivered;
+  }
+
+  private async deliverBatch(
+    config: LogForwardingConfigDocument,
+    destination: LogDestination,
+    records: ForwardedLogRecord[],
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await destination.send(records);
+        return;
+      } catch (error: any) {
+        const retryable = error instanceof LogDeliveryError ? error.retryable : true;
+        if (!retryable || attempt >= MAX_DELIVERY_ATTEMPTS) {
+          throw error instanceof LogDeliveryError ? error : new LogDeliveryError(error.message, retryable);
+        }
+        await this.logForwardingModel.updateOne({ _id: config._id }, { $inc: { retriesCount: 1 } });
+        await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  /**
+   * Read what is pending per source, filtered by the configured log types.
+   * The run budget is shared between sources, mongod logs first.
+   */
+  private async collectPending(config: LogForwardingConfigDocument, now: Date): Promise<PendingSource[]> {
+    const logTypes = new Set<string>(config.logTypes?.length ? config.logTypes : ['mongodb']);
+    const clusterId = config.clusterId.toString();
+    // Forwarding starts when the configuration was created, not with the full history
+    const startAt = config.createdAt || now;
+    const pending: PendingSource[] = [];
+    let budget = this.maxRecordsPerRun;
+
+    if (logTypes.has('mongodb') || logTypes.has('profiler')) {
+      const since = config.cursor?.mongodbLogsAt || normalizeLogTimestamp(startAt.toISOString())!;
+      // Several lines can share a timestamp, so the cursor also counts the
+      // lines per pod read at that timestamp; the rest are still pending
+      const seenAtSince = new Map((config.cursor?.mongodbLogsSeen || []).map(({ pod, lines }) => [pod, lines]));
+      const podLogs = await this.kubernetesService.readMongoLogs({
+        clusterId,
+        projectId: config.projectId.toString(),
+        since: new Date(since),
+        limitBytesPerPod: this.maxBatchBytes * 4,
+      });
+
+      // Pods are read up to different points; never move past the earliest
+      // point at which a pod's output was cut off
+      let horizon: string | undefined;
+      const lines: Array<{ pod: string; timestamp: string; line: string; index: number }> = [];
+      for (const { pod, lines: podLines, truncated } of podLogs) {
+        let last: string | undefined;
+        let index = 0;
+        for (const entry of podLines) {
+          const timestamp = normalizeLogTimestamp(entry.timestamp);
+          if (!timestamp || timestamp < since) continue;
+          // Position among this pod's lines with the same timestamp
+          index = timestamp === last ? index + 1 : 0;
+          last = timestamp;
+          if (timestamp === since && index < (seenAtSince.get(pod) || 0)) continue;
+          lines.push({ pod, timestamp, line: entry.line, index });
+        }
+        if (truncated && last && (!horizon || last < horizon)) horizon = last;
+      }
+      // Stable, so each pod's lines keep their order within a timestamp
+      lines.sort((a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0));
+
+      const records: ForwardedLogRecord[] = [];
+      const cursors: Array<Record<string, unknown>> = [];
+      let lastRead: Record<string, unknown> | undefined;
+      let seen = new Map<string, number>();
+      for (const line of lines) {
+        if (horizon && line.timestamp > horizon) break;
+        const record = parseMongodLogLine(clusterId, line.pod, line.timestamp, line.line);
+        if (logTypes.has(record.logType) && records.length >= budget) break;
+
+        if (lastRead?.['cursor.mongodbLogsAt'] !== line.timestamp) {
+          seen = line.timestamp === since ? new Map(seenAtSince) : new Map();
+        }
+        seen.set(line.pod, line.index + 1);
+        lastRead = {
+          'cursor.mongodbLogsAt': line.timestamp,
+          'cursor.mongodbLogsSeen': Array.from(seen, ([pod, count]) => ({ pod, lines: count })),
+        };
+
+        if (logTypes.has(record.logType)) {
+          records.push(record);
+          cursors.push(lastRead);
+        }
+      }
+
+      budget -= records.length;
+      pending.push({
+        records,
+        cursors,
+        finalCursor: lastRead || {},
+      });
+    }
+
+    if (logTypes.has('audit') && budget > 0) {
+      const after = config.cursor?.auditAt
+        ? { timestamp: config.cursor.auditAt, id: config.cursor.auditId }
+        : { timestamp: startAt };
+      const events = await this.auditService.findClusterEventsAfter(clusterId, after, budget);
+      const records = events.map<ForwardedLogRecord>((event) => ({
+        timestamp: event.timestamp,
+        logType: 'audit',
+        clusterId,
+        host: 'eutlas',
+        message: event.description || `${event.action} ${event.resourceType}`,
+        attributes: {
+          action: event.action,
+          resourceType: event.resourceType,
+          resourceId: event.resourceId,
+          resourceName: event.resourceName,
+          actorEmail: event.actorEmail,
+          actorType: event.actorType,
+          ipAddress: event.ipAddress,
+          status: event.status,
+        },
+      }));
+      const cursors = events.map((event) => ({ 'cursor.auditAt': event.timestamp, 'cursor.auditId': event.id }));
+
+      pending.push({
+        records,
+        cursors,
+        finalCursor: cursors.length ? cursors[cursors.length - 1] : {},
+      });
+    }
+
+    return pending;
+  }
+}
@@ -11,13 +11,15 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { CurrentProjectAccess } from '../../common/decorators/project-access.decorator';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { LogForwardingService } from './log-forwarding.service';
 import { CreateLogForwardingDto, UpdateLogForwardingDto } from './dto/log-forwarding.dto';
 
 @ApiTags('Log Forwarding')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/log-forwarding')
 export class LogForwardingController {
   constructor(private readonly logForwardingService: LogForwardingService) {}
@@ -29,8 +31,8 @@ export class LogForwardingController {
     @Param('clusterId') clusterId: string,
     @Body() dto: CreateLogForwardingDto,
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
   ) {
-    const orgId = user.userId; // Placeholder
     const config = await this.logForwardingService.create(
       clusterId,
       projectId,
@@ -66,8 +68,11 @@ export class LogForwardingController {
 
   @Get(':configId')
   @ApiOperation({ summary: 'Get log forwarding configuration' })
-  async findOne(@Param('configId') configId: string) {
-    const config = await this.logForwardingService.findById(configId);
+  async findOne(
+    @Param('clusterId') clusterId: string,
+    @Param('configId') configId: string,
+  ) {
+    const config = await this.logForwardingService.findById(clusterId, configId);
     if (!config) {
       throw new NotFoundException('Configuration not found');
     }
@@ -80,10 +85,11 @@ export class LogForwardingController {
   @Patch(':configId')
   @ApiOperation({ summary: 'Update log forwarding configuration' })
   async update(
+    @Param('clusterId') clusterId: string,
     @Param('configId') configId: string,
     @Body() dto: UpdateLogForwardingDto,
   ) {
-    const config = await this.logForwardingService.update(configId, dto);
+    const config = await this.logForwardingService.update(clusterId, configId, dto);
     return {
       success: true,
       data: config,
@@ -92,8 +98,11 @@ export class LogForwardingController {
 
   @Delete(':configId')
   @ApiOperation({ summary: 'Delete log forwarding configuration' })
-  async delete(@Param('configId') configId: string) {
-    await this.logForwardingService.delete(configId);
+  async delete(
+    @Param('clusterId') clusterId: string,
+    @Param('configId') configId: string,
+  ) {
+    await this.logForwardingService.delete(clusterId, configId);
     return {
       success: true,
       message: 'Configuration deleted',
@@ -103,10 +112,11 @@ export class LogForwardingController {
   @Post(':configId/toggle')
   @ApiOperation({ summary: 'Enable or disable log forwarding' })
   async toggle(
+    @Param('clusterId') clusterId: string,
     @Param('configId') configId: string,
     @Body() body: { enabled: boolean },
   ) {
-    const config = await this.logForwardingService.toggle(configId, body.enabled);
+    const config = await this.logForwardingService.toggle(clusterId, configId, body.enabled);
     return {
       success: true,
       data: config,
@@ -115,8 +125,11 @@ export class LogForwardingController {
 
   @Post(':configId/test')
   @ApiOperation({ summary: 'Test log forwarding connection' })
-  async testConnection(@Param('configId') configId: string) {
-    const result = await this.logForwardingService.testConnection(configId);
+  async testConnection(
+    @Param('clusterId') clusterId: string,
+    @Param('configId') configId: string,
+  ) {
+    const result = await this.logForwardingService.testConnection(clusterId, configId);
     return {
       success: true,
       data: result,
@@ -125,8 +138,11 @@ export class LogForwardingController {
 
   @Get(':configId/stats')
   @ApiOperation({ summary: 'Get log forwarding statistics' })
-  async getStats(@Param('configId') configId: string) {
-    const stats = await this.logForwardingService.getStats(configId);
+  async getStats(
+    @Param('clusterId') clusterId: string,
+    @Param('configId') configId: string,
+  ) {
+    const stats = await this.logForwardingService.getStats(clusterId, configId);
     return {
       success: true,
       data: stats,
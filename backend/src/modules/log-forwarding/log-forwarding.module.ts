@@ -2,16 +2,19 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { LogForwardingController } from './log-forwarding.controller';
 import { LogForwardingService } from './log-forwarding.service';
+import { LogForwardingWorkerService } from './log-forwarding-worker.service';
 import { LogForwardingConfig, LogForwardingConfigSchema } from './schemas/log-forwarding.schema';
+import { KubernetesModule } from '../kubernetes/kubernetes.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: LogForwardingConfig.name, schema: LogForwardingConfigSchema },
     ]),
+    KubernetesModule,
   ],
   controllers: [LogForwardingController],
-  providers: [LogForwardingService],
+  providers: [LogForwardingService, LogForwardingWorkerService],
   exports: [LogForwardingService],
 })
 export class LogForwardingModule {}
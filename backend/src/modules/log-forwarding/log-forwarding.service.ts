@@ -1,8 +1,10 @@
 import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
 import { Model, Types } from 'mongoose';
 import { LogForwardingConfig, LogForwardingConfigDocument, LogDestinationType } from './schemas/log-forwarding.schema';
 import { CreateLogForwardingDto, UpdateLogForwardingDto } from './dto/log-forwarding.dto';
+import { LogDeliveryError, assertAllowedDestination, createLogDestination, parseAllowedHosts } from './log-destinations';
 
 @Injectable()
 export class LogForwardingService {
@@ -10,6 +12,7 @@ export class LogForwardingService {
 
   constructor(
     @InjectModel(LogForwardingConfig.name) private logForwardingModel: Model<LogForwardingConfigDocument>,
+    private readonly configService: ConfigService,
   ) {}
 
   async create(
@@ -35,6 +38,7 @@ export class LogForwardingService {
 
     // Set destination-specific config
     this.setDestinationConfig(config, dto);
+    await this.assertDestinationAllowed(config);
 
     await config.save();
     this.logger.log(`Created log forwarding config ${config.id} for cluster ${clusterId}`);
@@ -74,6 +78,7 @@ export class LogForwardingService {
         prefix: dto.s3Config.prefix,
         accessKeyId: dto.s3Config.accessKeyId,
         roleArn: dto.s3Config.roleArn,
+        endpoint: dto.s3Config.endpoint,
       };
       if ((dto.s3Config as any).secretAccessKey) {
         config.credentials = {
@@ -138,70 +143,91 @@ export class LogForwardingService {
       .exec();
   }
 
-  async findById(configId: string): Promise<LogForwardingConfig | null> {
-    return this.logForwardingModel.findById(configId).exec();
+  /** Configurations are addressed through their cluster's route, so other clusters' IDs are not found */
+  async findById(clusterId: string, configId: string): Promise<LogForwardingConfigDocument | null> {
+    if (!Types.ObjectId.isValid(configId)) {
+      return null;
+    }
+    return this.logForwardingModel
+      .findOne({ _id: configId, clusterId: new Types.ObjectId(clusterId) })
+      .exec();
   }
 
-  async update(configId: string, dto: UpdateLogForwardingDto): Promise<LogForwardingConfig> {
-    const config = await this.logForwardingModel.findById(configId);
+  private async getConfig(clusterId: string, configId: string): Promise<LogForwardingConfigDocument> {
+    const config = await this.findById(clusterId, configId);
     if (!config) {
       throw new NotFoundException('Log forwarding configuration not found');
     }
+    return config;
+  }
+
+  async update(clusterId: string, configId: string, dto: UpdateLogForwardingDto): Promise<LogForwardingConfig> {
+    const config = await this.getConfig(clusterId, configId);
 
     if (dto.name) config.name = dto.name;
     if (dto.enabled !== undefined) config.enabled = dto.enabled;
     if (dto.logTypes) config.logTypes = dto.logTypes as any;
 
     this.setDestinationConfig(config, dto);
+    await this.assertDestinationAllowed(config);
+    this.resetBackoff(config);
     await config.save();
 
     return config;
   }
 
-  async delete(configId: string): Promise<void> {
-    const result = await this.logForwardingModel.findByIdAndDelete(configId);
-    if (!result) {
-      throw new NotFoundException('Log forwarding configuration not found');
-    }
+  async delete(clusterId: string, configId: string): Promise<void> {
+    const config = await this.getConfig(clusterId, configId);
+    await config.deleteOne();
     this.logger.log(`Deleted log forwarding config ${configId}`);
   }
 
-  async toggle(configId: string, enabled: boolean): Promise<LogForwardingConfig> {
-    const config = await this.logForwardingModel.findById(configId);
-    if (!config) {
-      throw new NotFoundException('Log forwarding configuration not found');
-    }
+  async toggle(clusterId: string, configId: string, enabled: boolean): Promise<LogForwardingConfig> {
+    const config = await this.getConfig(clusterId, configId);
 
     config.enabled = enabled;
+    if (enabled) this.resetBackoff(config);
     await config.save();
 
     return config;
   }
 
-  async testConnection(configId: string): Promise<{ success: boolean; message: string; latencyMs?: number }> {
-    const config = await this.logForwardingModel.findById(configId);
-    if (!config) {
-      throw new NotFoundException('Log forwarding configuration not found');
+  private async assertDestinationAllowed(config: LogForwardingConfigDocument): Promise<void> {
+    try {
+      await assertAllowedDestination(config, this.allowedHosts());
+    } catch (error) {
+      if (!(error instanceof LogDeliveryError)) throw error;
+      throw new BadRequestException({ code: 'DESTINATION_NOT_ALLOWED', message: error.message });
     }
+  }
+
+  /** Internal hosts collectors may run on, comma-separated */
+  private allowedHosts(): string[] {
+    return parseAllowedHosts(this.configService.get<string>('LOG_FORWARDING_ALLOWED_HOSTS'));
+  }
+
+  /** Let the worker pick up a changed or re-enabled destination on its next run. */
+  private resetBackoff(config: LogForwardingConfigDocument): void {
+    config.consecutiveFailures = 0;
+    config.nextAttemptAt = undefined;
+  }
+
+  async testConnection(clusterId: string, configId: string): Promise<{ success: boolean; message: string; latencyMs?: number }> {
+    const config = await this.getConfig(clusterId, configId);
 
     const startTime = Date.now();
 
-    // Simulate connection test based on destination type
+    // Deliver a marker event to the real destination
     try {
-      await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
-
-      // 90% success rate for simulation
-      if (Math.random() > 0.1) {
-        const latencyMs = Date.now() - startTime;
-        return {
-          success: true,
-          message: `Successfully connected to ${config.destinationType}`,
-          latencyMs,
-        };
-      } else {
-        throw new Error('Connection timeout');
-      }
-    } catch (error) {
+      await (await createLogDestination(config, this.allowedHosts())).test();
+
+      const latencyMs = Date.now() - startTime;
+      return {
+        success: true,
+        message: `Successfully connected to ${config.destinationType}`,
+        latencyMs,
+      };
+    } catch (error: any) {
       try {
         config.lastError = error.message;
         config.lastErrorAt = new Date();
@@ -213,26 +239,42 @@ export class LogForwardingService {
       return {
         success: false,
         message: `Failed to connect: ${error.message}`,
+        latencyMs: Date.now() - startTime,
       };
     }
   }
 
-  async getStats(configId: string): Promise<{
+  async getStats(clusterId: string, configId: string): Promise<{
     logsForwarded: number;
     bytesForwarded: number;
     lastLogSentAt: Date | null;
     errorRate: number;
+    batchesForwarded: number;
+    batchesFailed: number;
+    retries: number;
+    consecutiveFailures: number;
+    nextAttemptAt: Date | null;
+    lastError: string | null;
+    lastErrorAt: Date | null;
   }> {
-    const config = await this.logForwardingModel.findById(configId);
-    if (!config) {
-      throw new NotFoundException('Log forwarding configuration not found');
-    }
+    const config = await this.getConfig(clusterId, configId);
+
+    const batchesForwarded = config.batchesForwardedCount || 0;
+    const batchesFailed = config.batchesFailedCount || 0;
+    const attempted = batchesForwarded + batchesFailed;
 
     return {
       logsForwarded: config.logsForwardedCount || 0,
       bytesForwarded: config.bytesForwardedTotal || 0,
       lastLogSentAt: config.lastLogSentAt || null,
-      errorRate: config.lastError ? 0.01 : 0,
+      errorRate: attempted > 0 ? batchesFailed / attempted : 0,
+      batchesForwarded,
+      batchesFailed,
+      retries: config.retriesCount || 0,
+      consecutiveFailures: config.consecutiveFailures || 0,
+      nextAttemptAt: config.nextAttemptAt || null,
+      lastError: config.lastError || null,
+      lastErrorAt: config.lastErrorAt || null,
     };
   }
 
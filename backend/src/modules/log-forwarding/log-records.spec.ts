@@ -0,0 +1,73 @@
+import { batchLogRecords, normalizeLogTimestamp, parseMongodLogLine, ForwardedLogRecord } from './log-records';
+
+describe('log-records', () => {
+  // ==================== normalizeLogTimestamp ====================
+
+  describe('normalizeLogTimestamp', () => {
+    it('should pad fractions to nanoseconds so timestamps sort as strings', () => {
+      const coarse = normalizeLogTimestamp('2024-01-01T00:00:00.5Z')!;
+      const fine = normalizeLogTimestamp('2024-01-01T00:00:00.123456789Z')!;
+
+      expect(coarse).toBe('2024-01-01T00:00:00.500000000Z');
+      expect(normalizeLogTimestamp('2024-01-01T00:00:00Z')).toBe('2024-01-01T00:00:00.000000000Z');
+      expect(fine < coarse).toBe(true);
+    });
+
+    it('should reject non-UTC or malformed timestamps', () => {
+      expect(normalizeLogTimestamp('2024-01-01T00:00:00+01:00')).toBeNull();
+      expect(normalizeLogTimestamp('garbage')).toBeNull();
+    });
+  });
+
+  // ==================== parseMongodLogLine ====================
+
+  describe('parseMongodLogLine', () => {
+    const timestamp = '2024-01-01T00:00:00.000000000Z';
+
+    it('should extract structured mongod log fields', () => {
+      const line = JSON.stringify({ t: {}, s: 'I', c: 'NETWORK', id: 22943, ctx: 'listener', msg: 'Connection accepted', attr: { remote: '10.0.0.1' } });
+      const record = parseMongodLogLine('c1', 'mongo-c1-0', timestamp, line);
+
+      expect(record).toMatchObject({
+        logType: 'mongodb',
+        host: 'mongo-c1-0',
+        message: 'Connection accepted',
+        attributes: { severity: 'I', component: 'NETWORK', id: 22943, attr: { remote: '10.0.0.1' } },
+      });
+      expect(record.timestamp.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('should classify slow queries as profiler logs', () => {
+      const line = JSON.stringify({ s: 'I', c: 'COMMAND', msg: 'Slow query', attr: { durationMillis: 250 } });
+      expect(parseMongodLogLine('c1', 'mongo-c1-0', timestamp, line).logType).toBe('profiler');
+    });
+
+    it('should keep plain text lines as the message', () => {
+      expect(parseMongodLogLine('c1', 'mongo-c1-0', timestamp, 'waiting for connections').message).toBe(
+        'waiting for connections',
+      );
+    });
+  });
+
+  // ==================== batchLogRecords ====================
+
+  describe('batchLogRecords', () => {
+    const record = (message: string): ForwardedLogRecord => ({
+      timestamp: new Date('2024-01-01T00:00:00Z'),
+      logType: 'mongodb',
+      clusterId: 'c1',
+      host: 'h',
+      message,
+    });
+
+    it('should split by record count', () => {
+      const batches = batchLogRecords([record('a'), record('b'), record('c')], 2, 1024 * 1024);
+      expect(batches.map((batch) => batch.records.length)).toEqual([2, 1]);
+    });
+
+    it('should split by size and keep oversized records in their own batch', () => {
+      const batches = batchLogRecords([record('a'), record('x'.repeat(500)), record('b')], 100, 200);
+      expect(batches.map((batch) => batch.records.map((r) => r.message.length))).toEqual([[1], [500], [1]]);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { LogType } from './schemas/log-forwarding.schema';
+
+export interface ForwardedLogRecord {
+  timestamp: Date;
+  logType: LogType;
+  clusterId: string;
+  /** Pod name for mongod logs, `eutlas` for platform audit events */
+  host: string;
+  message: string;
+  attributes?: Record<string, any>;
+}
+
+export function serializeLogRecord(record: ForwardedLogRecord): Record<string, any> {
+  return {
+    timestamp: record.timestamp.toISOString(),
+    logType: record.logType,
+    clusterId: record.clusterId,
+    host: record.host,
+    message: record.message,
+    ...(record.attributes ? { attributes: record.attributes } : {}),
+  };
+}
+
+/**
+ * Bring a kubelet RFC3339 timestamp to a fixed nanosecond precision so
+ * timestamps (and therefore log cursors) compare correctly as strings.
+ * Returns null for anything that is not a UTC timestamp.
+ */
+export function normalizeLogTimestamp(timestamp: string): string | null {
+  const match = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.(\d{1,9}))?Z$/.exec(timestamp);
+  if (!match) return null;
+  return `${match[1]}.${(match[2] || '').padEnd(9, '0')}Z`;
+}
+
+/**
+ * Turn one mongod log line into a record. mongod 4.4+ writes structured
+ * JSON; slow query entries are reported as `profiler` logs.
+ */
+export function parseMongodLogLine(
+  clusterId: string,
+  pod: string,
+  timestamp: string,
+  line: string,
+): ForwardedLogRecord {
+  const record: ForwardedLogRecord = {
+    timestamp: new Date(timestamp),
+    logType: 'mongodb',
+    clusterId,
+    host: pod,
+    message: line,
+  };
+
+  let entry: any;
+  try {
+    entry = JSON.parse(line);
+  } catch {
+    return record; // Pre-4.4 plain text line
+  }
+  if (!entry || typeof entry !== 'object') return record;
+
+  record.message = typeof entry.msg === 'string' ? entry.msg : line;
+  record.attributes = {
+    severity: entry.s,
+    component: entry.c,
+    id: entry.id,
+    context: entry.ctx,
+    ...(entry.attr ? { attr: entry.attr } : {}),
+  };
+  if (entry.c === 'COMMAND' && entry.msg === 'Slow query') {
+    record.logType = 'profiler';
+  }
+  return record;
+}
+
+/**
+ * Split records into batches bounded by count and serialized size. A
+ * single oversized record still forms its own batch.
+ */
+export function batchLogRecords(
+  records: ForwardedLogRecord[],
+  maxRecords: number,
+  maxBytes: number,
+): Array<{ records: ForwardedLogRecord[]; bytes: number }> {
+  const batches: Array<{ records: ForwardedLogRecord[]; bytes: number }> = [];
+  let current: { records: ForwardedLogRecord[]; bytes: number } = { records: [], bytes: 0 };
+
+  for (const record of records) {
+    const size = Buffer.byteLength(JSON.stringify(serializeLogRecord(record)));
+    if (current.records.length > 0 && (current.records.length >= maxRecords || current.bytes + size > maxBytes)) {
+      batches.push(current);
+      current = { records: [], bytes: 0 };
+    }
+    current.records.push(record);
+    current.bytes += size;
+  }
+  if (current.records.length > 0) batches.push(current);
+
+  return batches;
+}
@@ -54,6 +54,7 @@ export class LogForwardingConfig {
     prefix?: string;
     accessKeyId?: string;
     roleArn?: string;
+    endpoint?: string; // S3-compatible endpoint, defaults to AWS for the region
   };
 
   // Azure Blob Config
@@ -129,12 +130,41 @@ export class LogForwardingConfig {
   @Prop({ default: 0 })
   bytesForwardedTotal?: number;
 
+  @Prop({ default: 0 })
+  batchesForwardedCount?: number;
+
+  @Prop({ default: 0 })
+  batchesFailedCount?: number;
+
+  @Prop({ default: 0 })
+  retriesCount?: number;
+
+  // Failed runs in a row; drives the backoff in nextAttemptAt
+  @Prop({ default: 0 })
+  consecutiveFailures?: number;
+
+  @Prop()
+  nextAttemptAt?: Date;
+
   @Prop()
   lastError?: string;
 
   @Prop()
   lastErrorAt?: Date;
 
+  // Position up to which logs have been delivered
+  @Prop({ type: Object })
+  cursor?: {
+    mongodbLogsAt?: string; // Kubelet timestamp, nanosecond precision
+    mongodbLogsSeen?: Array<{ pod: string; lines: number }>; // Lines per pod already read at mongodbLogsAt
+    auditAt?: Date;
+    auditId?: string; // Tie-breaker between audit events with the same timestamp
+  };
+
+  // Held by the worker instance currently shipping this configuration
+  @Prop()
+  leaseUntil?: Date;
+
   @Prop({ type: Types.ObjectId, ref: 'User' })
   createdBy?: Types.ObjectId;
 
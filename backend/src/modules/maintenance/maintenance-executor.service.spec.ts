@@ -0,0 +1,221 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { MaintenanceExecutorService } from './maintenance-executor.service';
+import { MaintenanceWindow } from './schemas/maintenance-window.schema';
+import { ClustersService } from '../clusters/clusters.service';
+import { ClusterSettingsService } from '../cluster-settings/cluster-settings.service';
+import { CredentialsService } from '../credentials/credentials.service';
+import { KubernetesService, MongoMemberStatus } from '../kubernetes/kubernetes.service';
+import { EventsService } from '../events/events.service';
+
+describe('MaintenanceExecutorService', () => {
+  let service: MaintenanceExecutorService;
+
+  const WINDOW_ID = new Types.ObjectId();
+  const CLAIM_ID = 'claim-1';
+
+  let window: any;
+  let members: MongoMemberStatus[];
+
+  const config: Record<string, any> = {
+    MAINTENANCE_MONGO_RELEASES: '7.0.12,8.0.4',
+    MAINTENANCE_MEMBER_TIMEOUT_SECONDS: 0.05,
+    MAINTENANCE_POLL_INTERVAL_MS: 1,
+  };
+
+  const mockModel = {
+    findOne: jest.fn(),
+    findById: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  const mockClustersService = {
+    findById: jest.fn(),
+    updateStatus: jest.fn(),
+    updateMongoVersion: jest.fn(),
+  };
+
+  const mockClusterSettingsService = {
+    get: jest.fn(),
+  };
+
+  const mockCredentialsService = {
+    decryptCredentials: jest.fn(),
+  };
+
+  const mockKubernetesService = {
+    getMongoMembers: jest.fn(),
+    restartMongoMember: jest.fn(),
+    stepDownMongoPrimary: jest.fn(),
+    setMongoVersion: jest.fn(),
+  };
+
+  const mockEventsService = {
+    createEvent: jest.fn(),
+  };
+
+  const cluster = (overrides: Record<string, any> = {}) => ({
+    id: new Types.ObjectId().toString(),
+    projectId: new Types.ObjectId(),
+    plan: 'MEDIUM',
+    status: 'ready',
+    mongoVersion: '7.0.5',
+    credentialsEncrypted: 'encrypted',
+    ...overrides,
+  });
+
+  const replicaSet = (version = '7.0.5'): MongoMemberStatus[] => [
+    { pod: 'mongo-c-0', uid: 'u0', ready: true, state: 'PRIMARY', version },
+    { pod: 'mongo-c-1', uid: 'u1', ready: true, state: 'SECONDARY', version },
+    { pod: 'mongo-c-2', uid: 'u2', ready: true, state: 'SECONDARY', version },
+  ];
+
+  const finalUpdate = () =>
+    mockModel.updateOne.mock.calls.map(([, update]) => update).find((update) => update.$set?.status)?.$set;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MaintenanceExecutorService,
+        { provide: getModelToken(MaintenanceWindow.name), useValue: mockModel },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string, fallback?: unknown) => config[key] ?? fallback) } },
+        { provide: ClustersService, useValue: mockClustersService },
+        { provide: ClusterSettingsService, useValue: mockClusterSettingsService },
+        { provide: CredentialsService, useValue: mockCredentialsService },
+        { provide: KubernetesService, useValue: mockKubernetesService },
+        { provide: EventsService, useValue: mockEventsService },
+      ],
+    }).compile();
+
+    service = module.get<MaintenanceExecutorService>(MaintenanceExecutorService);
+
+    jest.clearAllMocks();
+    window = {
+      _id: WINDOW_ID,
+      id: WINDOW_ID.toString(),
+      orgId: new Types.ObjectId(),
+      projectId: new Types.ObjectId(),
+      clusterId: new Types.ObjectId(),
+      title: 'Weekly',
+      status: 'in_progress',
+      steps: [],
+      operationsPerformed: [],
+    };
+    members = replicaSet();
+    mockModel.findOne.mockResolvedValue(window);
+    mockModel.findById.mockImplementation(async () => ({ status: 'in_progress', claimId: CLAIM_ID }));
+    mockModel.updateOne.mockResolvedValue({ matchedCount: 1 });
+    mockClusterSettingsService.get.mockResolvedValue(null);
+    mockCredentialsService.decryptCredentials.mockResolvedValue({ username: 'admin', password: 'pw' });
+    mockKubernetesService.getMongoMembers.mockImplementation(async () => members.map((m) => ({ ...m })));
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  it('should upgrade to the newest patch release and record the new version', async () => {
+    mockClustersService.findById.mockResolvedValue(cluster());
+    mockKubernetesService.setMongoVersion.mockImplementation(async ({ version }) => {
+      members = replicaSet(version);
+    });
+
+    await service.execute(window.id, CLAIM_ID);
+
+    expect(mockKubernetesService.setMongoVersion).toHaveBeenCalledWith(expect.objectContaining({ version: '7.0.12' }));
+    expect(mockClustersService.updateMongoVersion).toHaveBeenCalledWith(expect.any(String), '7.0.12');
+    expect(mockClustersService.updateStatus).toHaveBeenLastCalledWith(expect.any(String), 'ready');
+    expect(finalUpdate()).toMatchObject({
+      status: 'completed',
+      operationsPerformed: ['Upgraded MongoDB 7.0.5 to 7.0.12'],
+      actualEndTime: expect.any(Date),
+    });
+    expect(window.steps).toEqual([expect.objectContaining({ type: 'upgrade', status: 'completed' })]);
+  });
+
+  it('should restart members one by one, stepping down the primary last', async () => {
+    mockClustersService.findById.mockResolvedValue(cluster());
+    mockClusterSettingsService.get.mockResolvedValue({ maintenancePreferences: { autoMinorVersionUpgrade: false } });
+    mockKubernetesService.stepDownMongoPrimary.mockImplementation(async ({ pod }) => {
+      members = members.map((m) => ({ ...m, state: m.pod === pod ? 'SECONDARY' : m.pod === 'mongo-c-1' ? 'PRIMARY' : m.state }));
+    });
+    mockKubernetesService.restartMongoMember.mockImplementation(async ({ pod }) => {
+      members = members.map((m) => (m.pod === pod ? { ...m, uid: `${m.uid}-new` } : m));
+    });
+
+    await service.execute(window.id, CLAIM_ID);
+
+    expect(mockKubernetesService.setMongoVersion).not.toHaveBeenCalled();
+    expect(mockKubernetesService.restartMongoMember.mock.calls.map(([params]) => params.pod)).toEqual([
+      'mongo-c-1',
+      'mongo-c-2',
+      'mongo-c-0',
+    ]);
+    expect(mockKubernetesService.stepDownMongoPrimary).toHaveBeenCalledTimes(1);
+    expect(mockKubernetesService.stepDownMongoPrimary).toHaveBeenCalledWith(
+      expect.objectContaining({ pod: 'mongo-c-0', credentials: { username: 'admin', password: 'pw' } }),
+    );
+    expect(finalUpdate()).toMatchObject({ status: 'completed' });
+  });
+
+  it('should roll back an upgrade whose members do not become healthy', async () => {
+    mockClustersService.findById.mockResolvedValue(cluster());
+    mockKubernetesService.setMongoVersion.mockImplementation(async ({ version }) => {
+      members = version === '7.0.12'
+        ? replicaSet(version).map((m) => (m.pod === 'mongo-c-2' ? { ...m, ready: false, state: 'UNKNOWN' } : m))
+        : replicaSet(version);
+    });
+
+    await service.execute(window.id, CLAIM_ID);
+
+    expect(mockKubernetesService.setMongoVersion.mock.calls.map(([params]) => params.version)).toEqual([
+      '7.0.12',
+      '7.0.5',
+    ]);
+    expect(mockClustersService.updateMongoVersion).toHaveBeenLastCalledWith(expect.any(String), '7.0.5');
+    expect(mockClustersService.updateStatus).toHaveBeenLastCalledWith(expect.any(String), 'ready');
+    expect(finalUpdate()).toMatchObject({
+      status: 'failed',
+      failureReason: expect.stringContaining('Timed out'),
+    });
+    expect(window.rollback).toMatchObject({ succeeded: true });
+    expect(window.steps[0]).toMatchObject({ status: 'failed' });
+    expect(mockEventsService.createEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ severity: 'error', message: expect.stringContaining('rolled back to 7.0.5') }),
+    );
+  });
+
+  it('should not touch an unhealthy replica set', async () => {
+    mockClustersService.findById.mockResolvedValue(cluster());
+    members = replicaSet().map((m) => ({ ...m, state: 'SECONDARY' }));
+
+    await service.execute(window.id, CLAIM_ID);
+
+    expect(mockKubernetesService.setMongoVersion).not.toHaveBeenCalled();
+    expect(mockClustersService.updateStatus).not.toHaveBeenCalled();
+    expect(finalUpdate()).toMatchObject({ status: 'failed' });
+  });
+
+  it('should skip windows of paused clusters', async () => {
+    mockClustersService.findById.mockResolvedValue(cluster({ status: 'paused' }));
+
+    await service.execute(window.id, CLAIM_ID);
+
+    expect(mockKubernetesService.getMongoMembers).not.toHaveBeenCalled();
+    expect(finalUpdate()).toMatchObject({ status: 'cancelled', notes: 'Skipped: cluster is paused' });
+  });
+
+  it('should stop between steps once the window is cancelled', async () => {
+    mockClustersService.findById.mockResolvedValue(cluster());
+    mockClusterSettingsService.get.mockResolvedValue({ maintenancePreferences: { autoMinorVersionUpgrade: false } });
+    mockModel.findById.mockResolvedValue({ status: 'cancelled', claimId: CLAIM_ID });
+
+    await service.execute(window.id, CLAIM_ID);
+
+    expect(mockKubernetesService.restartMongoMember).not.toHaveBeenCalled();
+    expect(mockClustersService.updateStatus).toHaveBeenLastCalledWith(expect.any(String), 'ready');
+    expect(finalUpdate()).toBeUndefined();
+  });
+});
@@ -0,0 +1,424 @@
+import { Injectable, Logger, Inject, forwardRef, OnModuleDestroy } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { MaintenanceWindow, MaintenanceWindowDocument, MaintenanceStep } from './schemas/maintenance-window.schema';
+import {
+  DEFAULT_MONGO_RELEASES,
+  isReplicaSetHealthy,
+  orderMembersForRestart,
+  resolveMinorVersionUpgrade,
+} from './maintenance-plan';
+import { ClustersService } from '../clusters/clusters.service';
+import { ClusterDocument } from '../clusters/schemas/cluster.schema';
+import { ClusterSettingsService } from '../cluster-settings/cluster-settings.service';
+import { CredentialsService } from '../credentials/credentials.service';
+import { KubernetesService, MongoMemberStatus } from '../kubernetes/kubernetes.service';
+import { EventsService } from '../events/events.service';
+
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+/** Cluster states in which a window is skipped rather than failed */
+const SKIPPED_CLUSTER_STATUSES = ['pausing', 'paused', 'stopped'];
+
+class ClaimLostError extends Error {}
+
+/**
+ * Executes a claimed maintenance window against the cluster: a minor
+ * version upgrade when one is available and allowed, otherwise a rolling
+ * restart of the members, secondaries first. Every step waits for the
+ * replica set to be healthy again before the next one starts; a failed
+ * upgrade is rolled back to the previous version.
+ *
+ * Progress is persisted per step, so another instance that takes over a
+ * stale window continues with the first unfinished step.
+ */
+@Injectable()
+export class MaintenanceExecutorService implements OnModuleDestroy {
+  private readonly logger = new Logger(MaintenanceExecutorService.name);
+  private readonly executing = new Map<string, NodeJS.Timeout>();
+  private readonly releases: string[];
+  private readonly memberTimeoutMs: number;
+  private readonly pollIntervalMs: number;
+
+  constructor(
+    @InjectModel(MaintenanceWindow.name) private maintenanceModel: Model<MaintenanceWindowDocument>,
+    private readonly configService: ConfigService,
+    @Inject(forwardRef(() => ClustersService))
+    private readonly clustersService: ClustersService,
+    private readonly clusterSettingsService: ClusterSettingsService,
+    private readonly credentialsService: CredentialsService,
+    private readonly kubernetesService: KubernetesService,
+    private readonly eventsService: EventsService,
+  ) {
+    const releases = this.configService.get<string>('MAINTENANCE_MONGO_RELEASES');
+    this.releases = releases ? releases.split(',').map((r) => r.trim()).filter(Boolean) : DEFAULT_MONGO_RELEASES;
+    this.memberTimeoutMs = Number(this.configService.get('MAINTENANCE_MEMBER_TIMEOUT_SECONDS', 600)) * 1000;
+    this.pollIntervalMs = Number(this.configService.get('MAINTENANCE_POLL_INTERVAL_MS', 10_000));
+  }
+
+  onModuleDestroy() {
+    for (const timer of this.executing.values()) {
+      clearInterval(timer);
+    }
+    this.executing.clear();
+  }
+
+  isExecuting(windowId: string): boolean {
+    return this.executing.has(windowId);
+  }
+
+  /**
+   * Run a window claimed with `claimId` to completion. Never throws; the
+   * outcome is recorded on the window.
+   */
+  async execute(windowId: string, claimId: string): Promise<void> {
+    if (this.executing.has(windowId)) {
+      return;
+    }
+
+    let claimLost = false;
+    this.executing.set(
+      windowId,
+      setInterval(() => {
+        this.maintenanceModel
+          .updateOne({ _id: windowId, claimId, status: 'in_progress' }, { $set: { heartbeatAt: new Date() } })
+          .then((result) => {
+            if (result.matchedCount === 0) claimLost = true;
+          })
+          .catch((error) => this.logger.warn(`Heartbeat for maintenance ${windowId} failed: ${error.message}`));
+      }, HEARTBEAT_INTERVAL_MS),
+    );
+
+    try {
+      const window = await this.maintenanceModel.findOne({ _id: windowId, claimId });
+      if (!window) {
+        return;
+      }
+
+      const cluster = await this.clustersService.findById(window.clusterId.toString());
+      if (!cluster) {
+        await this.finish(window, claimId, 'cancelled', { notes: 'Skipped: cluster no longer exists' });
+        return;
+      }
+      if (SKIPPED_CLUSTER_STATUSES.includes(cluster.status)) {
+        await this.finish(window, claimId, 'cancelled', { notes: `Skipped: cluster is ${cluster.status}` });
+        return;
+      }
+
+      if (window.steps.length === 0) {
+        if (cluster.status !== 'ready') {
+          await this.finish(window, claimId, 'failed', { failureReason: `Cluster is ${cluster.status}` });
+          return;
+        }
+        await this.plan(window, claimId, cluster);
+      }
+
+      await this.run(window, claimId, cluster, () => claimLost);
+    } catch (error: any) {
+      if (!(error instanceof ClaimLostError)) {
+        this.logger.error(`Maintenance ${windowId} failed unexpectedly: ${error.message}`);
+      }
+    } finally {
+      clearInterval(this.executing.get(windowId));
+      this.executing.delete(windowId);
+    }
+  }
+
+  private async plan(window: MaintenanceWindowDocument, claimId: string, cluster: ClusterDocument): Promise<void> {
+    const clusterId = cluster.id;
+    const settings = await this.clusterSettingsService.get(clusterId);
+    const autoUpgrade = settings?.maintenancePreferences?.autoMinorVersionUpgrade !== false;
+    const targetVersion = autoUpgrade ? resolveMinorVersionUpgrade(cluster.mongoVersion, this.releases) : null;
+
+    const update: Partial<MaintenanceWindow> = {};
+    if (targetVersion) {
+      // The operator / StatefulSet controller rolls the members for an upgrade
+      update.steps = [{ type: 'upgrade', version: targetVersion, status: 'pending' }];
+      update.fromVersion = cluster.mongoVersion;
+      update.targetVersion = targetVersion;
+    } else {
+      const members = await this.kubernetesService.getMongoMembers({
+        clusterId,
+        projectId: cluster.projectId.toString(),
+      });
+      update.steps = orderMembersForRestart(members).map<MaintenanceStep>((member) => ({
+        type: 'restart',
+        member: member.pod,
+        status: 'pending',
+      }));
+    }
+
+    await this.saveProgress(window, claimId, update);
+  }
+
+  private async run(
+    window: MaintenanceWindowDocument,
+    claimId: string,
+    cluster: ClusterDocument,
+    isClaimLost: () => boolean,
+  ): Promise<void> {
+    const clusterId = cluster.id;
+    const projectId = cluster.projectId.toString();
+    const operations = [...(window.operationsPerformed || [])];
+    let downtimeMs = 0;
+    let started = false;
+
+    try {
+      // Never start on (or continue with) an unhealthy replica set
+      await this.waitForMembers(clusterId, projectId, (members) => isReplicaSetHealthy(members), 'a healthy replica set');
+      await this.clustersService.updateStatus(clusterId, 'updating');
+      started = true;
+
+      for (let index = 0; index < window.steps.length; index++) {
+        const step = window.steps[index];
+        if (step.status === 'completed' || step.status === 'skipped') continue;
+
+        const current = await this.maintenanceModel.findById(window._id, { status: 1, claimId: 1 });
+        if (isClaimLost() || current?.claimId !== claimId) {
+          throw new ClaimLostError();
+        }
+        if (current.status !== 'in_progress') {
+          // Cancelled between steps; leave the cluster as it is now
+          await this.clustersService.updateStatus(clusterId, 'ready');
+          return;
+        }
+
+        await this.saveStep(window, claimId, index, { status: 'running', startedAt: new Date(), error: undefined });
+        const startedAt = Date.now();
+        const singleMember = (await this.kubernetesService.getMongoMembers({ clusterId, projectId })).length === 1;
+
+        const outcome =
+          step.type === 'upgrade'
+            ? await this.upgrade(cluster, step.version!)
+            : await this.restart(cluster, step.member!);
+
+        if (singleMember && outcome !== 'skipped') {
+          downtimeMs += Date.now() - startedAt;
+        }
+        if (outcome === 'completed') {
+          operations.push(
+            step.type === 'upgrade'
+              ? `Upgraded MongoDB ${window.fromVersion} to ${step.version}`
+              : `Restarted member ${step.member}`,
+          );
+        }
+        await this.saveStep(window, claimId, index, { status: outcome, completedAt: new Date() });
+        await this.saveProgress(window, claimId, { operationsPerformed: operations });
+      }
+
+      await this.clustersService.updateStatus(clusterId, 'ready');
+      await this.finish(window, claimId, 'completed', {
+        operationsPerformed: operations,
+        ...(downtimeMs > 0 ? { actualDowntimeMinutes: Math.ceil(downtimeMs / 60_000) } : {}),
+      });
+    } catch (error: any) {
+      if (error instanceof ClaimLostError) {
+        throw error;
+      }
+
+      const failedIndex = window.steps.findIndex((step) => step.status === 'running');
+      if (failedIndex >= 0) {
+        await this.saveStep(window, claimId, failedIndex, { status: 'failed', completedAt: new Date(), error: error.message });
+      }
+
+      if (started) {
+        const recovered = await this.rollback(window, claimId, cluster);
+        await this.clustersService.updateStatus(clusterId, recovered ? 'ready' : 'degraded');
+      }
+      await this.finish(window, claimId, 'failed', {
+        failureReason: error.message,
+        operationsPerformed: operations,
+      });
+    }
+  }
+
+  private async upgrade(cluster: ClusterDocument, version: string): Promise<MaintenanceStep['status']> {
+    const clusterId = cluster.id;
+    const projectId = cluster.projectId.toString();
+
+    await this.kubernetesService.setMongoVersion({ clusterId, projectId, plan: cluster.plan, version });
+
+    const members = await this.kubernetesService.getMongoMembers({ clusterId, projectId });
+    await this.waitForMembers(
+      clusterId,
+      projectId,
+      (current) => current.length >= members.length && isReplicaSetHealthy(current, version),
+      `all members to run ${version}`,
+      Math.max(1, members.length),
+    );
+    await this.clustersService.updateMongoVersion(clusterId, version);
+
+    return 'completed';
+  }
+
+  private async restart(cluster: ClusterDocument, pod: string): Promise<MaintenanceStep['status']> {
+    const clusterId = cluster.id;
+    const projectId = cluster.projectId.toString();
+
+    const members = await this.kubernetesService.getMongoMembers({ clusterId, projectId });
+    const member = members.find((m) => m.pod === pod);
+    if (!member) {
+      return 'skipped'; // Removed since the window was planned, e.g. after a resize
+    }
+
+    if (member.state === 'PRIMARY' && members.length > 1) {
+      const credentials = await this.credentialsService.decryptCredentials(cluster.credentialsEncrypted);
+      await this.kubernetesService.stepDownMongoPrimary({ clusterId, projectId, pod, credentials });
+      await this.waitForMembers(
+        clusterId,
+        projectId,
+        (current) => current.some((m) => m.pod !== pod && m.state === 'PRIMARY'),
+        `another member to become primary`,
+      );
+    }
+
+    await this.kubernetesService.restartMongoMember({ clusterId, projectId, pod });
+    await this.waitForMembers(
+      clusterId,
+      projectId,
+      (current) => {
+        const restarted = current.find((m) => m.pod === pod);
+        const recreated = !member.uid || restarted?.uid !== member.uid;
+        return !!restarted && recreated && current.length >= members.length && isReplicaSetHealthy(current);
+      },
+      `${pod} to rejoin the replica set`,
+    );
+
+    return 'completed';
+  }
+
+  /**
+   * Put back the version the window started from. Returns whether the
+   * replica set is healthy afterwards.
+   */
+  private async rollback(window: MaintenanceWindowDocument, claimId: string, cluster: ClusterDocument): Promise<boolean> {
+    const clusterId = cluster.id;
+    const projectId = cluster.projectId.toString();
+    const upgradeStarted = window.steps.some((step) => step.type === 'upgrade' && step.status !== 'pending');
+
+    if (!upgradeStarted || !window.fromVersion) {
+      // Restarts leave nothing to undo; report whether the members recovered
+      try {
+        await this.waitForMembers(clusterId, projectId, (members) => isReplicaSetHealthy(members), 'a healthy replica set');
+        return true;
+      } catch {
+        return false;
+      }
+    }
+
+    this.logger.warn(`Rolling back cluster ${clusterId} to MongoDB ${window.fromVersion}`);
+    const rollback: NonNullable<MaintenanceWindow['rollback']> = { startedAt: new Date() };
+    await this.saveProgress(window, claimId, { rollback });
+
+    try {
+      const members = await this.kubernetesService.getMongoMembers({ clusterId, projectId });
+      await this.kubernetesService.setMongoVersion({ clusterId, projectId, plan: cluster.plan, version: window.fromVersion });
+      await this.waitForMembers(
+        clusterId,
+        projectId,
+        (current) => current.length >= members.length && isReplicaSetHealthy(current, window.fromVersion),
+        `all members to run ${window.fromVersion}`,
+        Math.max(1, members.length),
+      );
+      await this.clustersService.updateMongoVersion(clusterId, window.fromVersion);
+
+      rollback.succeeded = true;
+    } catch (error: any) {
+      this.logger.error(`Rollback of cluster ${clusterId} failed: ${error.message}`);
+      rollback.succeeded = false;
+      rollback.error = error.message;
+    }
+
+    rollback.completedAt = new Date();
+    await this.saveProgress(window, claimId, { rollback });
+    return rollback.succeeded;
+  }
+
+  /** Poll the members until `ready` holds, for up to `members` member timeouts. */
+  private async waitForMembers(
+    clusterId: string,
+    projectId: string,
+    ready: (members: MongoMemberStatus[]) => boolean,
+    description: string,
+    members = 1,
+  ): Promise<void> {
+    const deadline = Date.now() + this.memberTimeoutMs * members;
+
+    for (;;) {
+      const current = await this.kubernetesService.getMongoMembers({ clusterId, projectId });
+      if (ready(current)) {
+        return;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out after ${Math.round((this.memberTimeoutMs * members) / 1000)}s waiting for ${description}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+
+  private async saveStep(
+    window: MaintenanceWindowDocument,
+    claimId: string,
+    index: number,
+    changes: Partial<MaintenanceStep>,
+  ): Promise<void> {
+    window.steps[index] = { ...window.steps[index], ...changes };
+    await this.saveProgress(window, claimId, { steps: window.steps });
+  }
+
+  /** Persist progress as long as this instance still holds the claim. */
+  private async saveProgress(
+    window: MaintenanceWindowDocument,
+    claimId: string,
+    update: Partial<MaintenanceWindow>,
+  ): Promise<void> {
+    const result = await this.maintenanceModel.updateOne(
+      { _id: window._id, claimId },
+      { $set: { ...update, heartbeatAt: new Date() } },
+    );
+    if (result.matchedCount === 0) {
+      throw new ClaimLostError();
+    }
+    Object.assign(window, update);
+  }
+
+  private async finish(
+    window: MaintenanceWindowDocument,
+    claimId: string,
+    status: 'completed' | 'failed' | 'cancelled',
+    update: Partial<MaintenanceWindow>,
+  ): Promise<void> {
+    const result = await this.maintenanceModel.updateOne(
+      { _id: window._id, claimId, status: 'in_progress' },
+      { $set: { ...update, status, actualEndTime: new Date() }, $unset: { claimId: 1, heartbeatAt: 1 } },
+    );
+    if (result.matchedCount === 0) {
+      return; // Cancelled meanwhile
+    }
+
+    const rolledBack = window.rollback?.succeeded;
+    const message =
+      status === 'completed'
+        ? `Maintenance "${window.title}" completed`
+        : status === 'failed'
+          ? `Maintenance "${window.title}" failed: ${update.failureReason}${rolledBack ? ` (rolled back to ${window.fromVersion})` : ''}`
+          : `Maintenance "${window.title}" skipped: ${update.notes?.replace(/^Skipped: /, '')}`;
+
+    await this.eventsService.createEvent({
+      orgId: window.orgId.toString(),
+      projectId: window.projectId.toString(),
+      clusterId: window.clusterId.toString(),
+      type: 'CLUSTER_UPDATED',
+      severity: status === 'failed' ? 'error' : 'info',
+      message,
+      metadata: {
+        maintenanceWindowId: window.id,
+        operationsPerformed: update.operationsPerformed,
+        ...(window.rollback ? { rollback: window.rollback } : {}),
+      },
+    });
+
+    this.logger.log(`Maintenance ${window.id} ${status}`);
+  }
+}
@@ -0,0 +1,65 @@
+import { isReplicaSetHealthy, orderMembersForRestart, resolveMinorVersionUpgrade } from './maintenance-plan';
+import { MongoMemberStatus } from '../kubernetes/kubernetes.service';
+
+describe('maintenance-plan', () => {
+  const member = (pod: string, state: string, overrides: Partial<MongoMemberStatus> = {}): MongoMemberStatus => ({
+    pod,
+    ready: true,
+    state,
+    version: '7.0.5',
+    ...overrides,
+  });
+
+  // ==================== resolveMinorVersionUpgrade ====================
+
+  describe('resolveMinorVersionUpgrade', () => {
+    const releases = ['7.0.12', '7.0.9', '8.0.4', '8.2.1'];
+
+    it('should pick the newest release of the same series', () => {
+      expect(resolveMinorVersionUpgrade('7.0.5', releases)).toBe('7.0.12');
+    });
+
+    it('should never cross a release series', () => {
+      expect(resolveMinorVersionUpgrade('8.2.1', releases)).toBeNull();
+      expect(resolveMinorVersionUpgrade('6.0.3', releases)).toBeNull();
+    });
+
+    it('should not downgrade or accept malformed versions', () => {
+      expect(resolveMinorVersionUpgrade('7.0.14', releases)).toBeNull();
+      expect(resolveMinorVersionUpgrade('7.0', releases)).toBeNull();
+    });
+  });
+
+  // ==================== orderMembersForRestart ====================
+
+  describe('orderMembersForRestart', () => {
+    it('should restart secondaries first and the primary last', () => {
+      const ordered = orderMembersForRestart([
+        member('mongo-c-0', 'PRIMARY'),
+        member('mongo-c-2', 'SECONDARY'),
+        member('mongo-c-1', 'SECONDARY'),
+      ]);
+
+      expect(ordered.map((m) => m.pod)).toEqual(['mongo-c-1', 'mongo-c-2', 'mongo-c-0']);
+    });
+  });
+
+  // ==================== isReplicaSetHealthy ====================
+
+  describe('isReplicaSetHealthy', () => {
+    it('should require every member to answer and exactly one primary', () => {
+      expect(isReplicaSetHealthy([member('a', 'PRIMARY'), member('b', 'SECONDARY')])).toBe(true);
+      expect(isReplicaSetHealthy([member('a', 'SECONDARY'), member('b', 'SECONDARY')])).toBe(false);
+      expect(isReplicaSetHealthy([member('a', 'PRIMARY'), member('b', 'UNKNOWN')])).toBe(false);
+      expect(isReplicaSetHealthy([member('a', 'PRIMARY'), member('b', 'SECONDARY', { ready: false })])).toBe(false);
+      expect(isReplicaSetHealthy([])).toBe(false);
+    });
+
+    it('should check the version when given', () => {
+      const members = [member('a', 'PRIMARY', { version: '7.0.12' }), member('b', 'SECONDARY')];
+
+      expect(isReplicaSetHealthy(members, '7.0.12')).toBe(false);
+      expect(isReplicaSetHealthy(members)).toBe(true);
+    });
+  });
+});
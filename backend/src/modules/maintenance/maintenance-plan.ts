@@ -0,0 +1,57 @@
+import { MongoMemberStatus } from '../kubernetes/kubernetes.service';
+
+/**
+ * Latest patch release per supported release series. Overridable with
+ * MAINTENANCE_MONGO_RELEASES (comma separated).
+ */
+export const DEFAULT_MONGO_RELEASES = ['7.0.12', '8.0.4', '8.2.1'];
+
+function parseVersion(version: string): [number, number, number] | null {
+  const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(version.trim());
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+}
+
+/**
+ * The newest release within the same major.minor series as `current`, or
+ * null when the cluster already runs it. Minor version upgrades never cross
+ * a release series, so the feature compatibility version stays unchanged
+ * and a rollback is always possible.
+ */
+export function resolveMinorVersionUpgrade(current: string, releases: string[]): string | null {
+  const from = parseVersion(current);
+  if (!from) return null;
+
+  let best: [number, number, number] | null = null;
+  for (const release of releases) {
+    const candidate = parseVersion(release);
+    if (!candidate || candidate[0] !== from[0] || candidate[1] !== from[1]) continue;
+    if (candidate[2] > (best ? best[2] : from[2])) best = candidate;
+  }
+
+  return best ? best.join('.') : null;
+}
+
+/** Restart order: secondaries first, the primary last. */
+export function orderMembersForRestart(members: MongoMemberStatus[]): MongoMemberStatus[] {
+  const rank = (member: MongoMemberStatus) => (member.state === 'PRIMARY' || member.state === 'STANDALONE' ? 1 : 0);
+  return [...members].sort((a, b) => rank(a) - rank(b) || a.pod.localeCompare(b.pod));
+}
+
+/**
+ * Every member answers as primary, secondary or standalone, exactly one of
+ * them is writable and, when given, all run `version`.
+ */
+export function isReplicaSetHealthy(members: MongoMemberStatus[], version?: string): boolean {
+  if (members.length === 0) return false;
+
+  const healthy = members.every(
+    (member) =>
+      member.ready &&
+      ['PRIMARY', 'SECONDARY', 'STANDALONE'].includes(member.state) &&
+      // Versions are not reported when simulating
+      (!version || member.version === undefined || member.version === version),
+  );
+  const writable = members.filter((member) => member.state === 'PRIMARY' || member.state === 'STANDALONE');
+
+  return healthy && writable.length === 1;
+}
@@ -12,6 +12,8 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { CurrentProjectAccess } from '../../common/decorators/project-access.decorator';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { MaintenanceService } from './maintenance.service';
 import {
@@ -23,7 +25,7 @@ import {
 
 @ApiTags('Maintenance Windows')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/maintenance')
 export class MaintenanceController {
   constructor(private readonly maintenanceService: MaintenanceService) {}
@@ -35,8 +37,8 @@ export class MaintenanceController {
     @Param('clusterId') clusterId: string,
     @Body() dto: CreateMaintenanceWindowDto,
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
   ) {
-    const orgId = user.userId; // Placeholder
     const window = await this.maintenanceService.create(
       clusterId,
       projectId,
@@ -97,8 +99,11 @@ export class MaintenanceController {
 
   @Get(':windowId')
   @ApiOperation({ summary: 'Get maintenance window details' })
-  async findOne(@Param('windowId') windowId: string) {
-    const window = await this.maintenanceService.findById(windowId);
+  async findOne(
+    @Param('clusterId') clusterId: string,
+    @Param('windowId') windowId: string,
+  ) {
+    const window = await this.maintenanceService.findById(clusterId, windowId);
     if (!window) {
       throw new NotFoundException('Maintenance window not found');
     }
@@ -111,10 +116,11 @@ export class MaintenanceController {
   @Patch(':windowId')
   @ApiOperation({ summary: 'Update maintenance window' })
   async update(
+    @Param('clusterId') clusterId: string,
     @Param('windowId') windowId: string,
     @Body() dto: UpdateMaintenanceWindowDto,
   ) {
-    const window = await this.maintenanceService.update(windowId, dto);
+    const window = await this.maintenanceService.update(clusterId, windowId, dto);
     return {
       success: true,
       data: window,
@@ -124,11 +130,12 @@ export class MaintenanceController {
   @Delete(':windowId')
   @ApiOperation({ summary: 'Cancel maintenance window' })
   async cancel(
+    @Param('clusterId') clusterId: string,
     @Param('windowId') windowId: string,
     @Body() body: { reason?: string },
     @CurrentUser() user: CurrentUserData,
   ) {
-    const window = await this.maintenanceService.cancel(windowId, user.userId, body.reason);
+    const window = await this.maintenanceService.cancel(clusterId, windowId, user.userId, body.reason);
     return {
       success: true,
       data: window,
@@ -138,10 +145,11 @@ export class MaintenanceController {
   @Post(':windowId/defer')
   @ApiOperation({ summary: 'Defer maintenance window' })
   async defer(
+    @Param('clusterId') clusterId: string,
     @Param('windowId') windowId: string,
     @Body() dto: DeferMaintenanceDto,
   ) {
-    const window = await this.maintenanceService.defer(windowId, dto);
+    const window = await this.maintenanceService.defer(clusterId, windowId, dto);
     return {
       success: true,
       data: window,
@@ -156,8 +164,8 @@ export class MaintenanceController {
     @Param('clusterId') clusterId: string,
     @Body() dto: ScheduleEmergencyMaintenanceDto,
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
   ) {
-    const orgId = user.userId; // Placeholder
     const window = await this.maintenanceService.scheduleEmergency(
       clusterId,
       projectId,
@@ -174,5 +182,3 @@ export class MaintenanceController {
 
 
 
-
-
@@ -1,9 +1,14 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { MaintenanceController } from './maintenance.controller';
 import { MaintenanceService } from './maintenance.service';
+import { MaintenanceExecutorService } from './maintenance-executor.service';
 import { MaintenanceWindow, MaintenanceWindowSchema } from './schemas/maintenance-window.schema';
 import { EventsModule } from '../events/events.module';
+import { ClustersModule } from '../clusters/clusters.module';
+import { ClusterSettingsModule } from '../cluster-settings/cluster-settings.module';
+import { CredentialsModule } from '../credentials/credentials.module';
+import { KubernetesModule } from '../kubernetes/kubernetes.module';
 
 @Module({
   imports: [
@@ -11,9 +16,13 @@ import { EventsModule } from '../events/events.module';
       { name: MaintenanceWindow.name, schema: MaintenanceWindowSchema },
     ]),
     EventsModule,
+    forwardRef(() => ClustersModule),
+    ClusterSettingsModule,
+    CredentialsModule,
+    KubernetesModule,
   ],
   controllers: [MaintenanceController],
-  providers: [MaintenanceService],
+  providers: [MaintenanceService, MaintenanceExecutorService],
   exports: [MaintenanceService],
 })
 export class MaintenanceModule {}
@@ -2,9 +2,11 @@ import { Injectable, Logger, NotFoundException, BadRequestException } from '@nes
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
 import { MaintenanceWindow, MaintenanceWindowDocument, DayOfWeek } from './schemas/maintenance-window.schema';
 import { CreateMaintenanceWindowDto, UpdateMaintenanceWindowDto, DeferMaintenanceDto, ScheduleEmergencyMaintenanceDto } from './dto/maintenance.dto';
 import { EventsService } from '../events/events.service';
+import { MaintenanceExecutorService } from './maintenance-executor.service';
 
 const DAY_TO_NUMBER: Record<DayOfWeek, number> = {
   sunday: 0,
@@ -16,6 +18,9 @@ const DAY_TO_NUMBER: Record<DayOfWeek, number> = {
   saturday: 6,
 };
 
+/** An execution without a heartbeat for this long is taken over */
+const STALE_EXECUTION_MS = 5 * 60 * 1000;
+
 @Injectable()
 export class MaintenanceService {
   private readonly logger = new Logger(MaintenanceService.name);
@@ -23,6 +28,8 @@ export class MaintenanceService {
   constructor(
     @InjectModel(MaintenanceWindow.name) private maintenanceModel: Model<MaintenanceWindowDocument>,
     private eventsService: EventsService,
+    private configService: ConfigService,
+    private maintenanceExecutor: MaintenanceExecutorService,
   ) {}
 
   async create(
@@ -104,8 +111,20 @@ export class MaintenanceService {
       .exec();
   }
 
-  async findById(windowId: string): Promise<MaintenanceWindow | null> {
-    return this.maintenanceModel.findById(windowId).exec();
+  /** Windows are addressed through their cluster's route, so other clusters' IDs are not found */
+  async findById(clusterId: string, windowId: string): Promise<MaintenanceWindowDocument | null> {
+    if (!Types.ObjectId.isValid(windowId)) {
+      return null;
+    }
+    return this.maintenanceModel.findOne({ _id: windowId, clusterId: new Types.ObjectId(clusterId) }).exec();
+  }
+
+  private async getWindow(clusterId: string, windowId: string): Promise<MaintenanceWindowDocument> {
+    const window = await this.findById(clusterId, windowId);
+    if (!window) {
+      throw new NotFoundException('Maintenance window not found');
+    }
+    return window;
   }
 
   async getUpcoming(clusterId: string, days = 30): Promise<MaintenanceWindow[]> {
@@ -122,11 +141,8 @@ export class MaintenanceService {
       .exec();
   }
 
-  async update(windowId: string, dto: UpdateMaintenanceWindowDto): Promise<MaintenanceWindow> {
-    const window = await this.maintenanceModel.findById(windowId);
-    if (!window) {
-      throw new NotFoundException('Maintenance window not found');
-    }
+  async update(clusterId: string, windowId: string, dto: UpdateMaintenanceWindowDto): Promise<MaintenanceWindow> {
+    const window = await this.getWindow(clusterId, windowId);
 
     if (window.status !== 'scheduled') {
       throw new BadRequestException('Can only update scheduled maintenance windows');
@@ -158,11 +174,8 @@ export class MaintenanceService {
     return window;
   }
 
-  async cancel(windowId: string, userId: string, reason?: string): Promise<MaintenanceWindow> {
-    const window = await this.maintenanceModel.findById(windowId);
-    if (!window) {
-      throw new NotFoundException('Maintenance window not found');
-    }
+  async cancel(clusterId: string, windowId: string, userId: string, reason?: string): Promise<MaintenanceWindow> {
+    const window = await this.getWindow(clusterId, windowId);
 
     if (!['scheduled', 'in_progress'].includes(window.status)) {
       throw new BadRequestException('Can only cancel scheduled or in-progress maintenance');
@@ -186,11 +199,8 @@ export class MaintenanceService {
     return window;
   }
 
-  async defer(windowId: string, dto: DeferMaintenanceDto): Promise<MaintenanceWindow> {
-    const window = await this.maintenanceModel.findById(windowId);
-    if (!window) {
-      throw new NotFoundException('Maintenance window not found');
-    }
+  async defer(clusterId: string, windowId: string, dto: DeferMaintenanceDto): Promise<MaintenanceWindow> {
+    const window = await this.getWindow(clusterId, windowId);
 
     if (window.status !== 'scheduled') {
       throw new BadRequestException('Can only defer scheduled maintenance');
@@ -284,45 +294,88 @@ export class MaintenanceService {
       .exec();
   }
 
-  // Check for maintenance windows that need to start
+  /**
+   * Returns the maintenance window covering the given instant, if any.
+   * A window counts while it is in progress or while `at` falls inside its
+   * scheduled start/end range.
+   */
+  async findActiveWindow(clusterId: string, at = new Date()): Promise<MaintenanceWindow | null> {
+    return this.maintenanceModel
+      .findOne({
+        clusterId: new Types.ObjectId(clusterId),
+        $or: [
+          { status: 'in_progress' },
+          {
+            status: 'scheduled',
+            scheduledStartTime: { $lte: at },
+            scheduledEndTime: { $gt: at },
+          },
+        ],
+      })
+      .exec();
+  }
+
+  /**
+   * Claim windows that are due, and executions whose instance stopped
+   * heart-beating, and hand them to the executor.
+   */
   @Cron(CronExpression.EVERY_MINUTE)
   async checkMaintenanceWindows(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test') {
+      return;
+    }
+
     const now = new Date();
-    
-    // Find windows that should start
-    const windowsToStart = await this.maintenanceModel.find({
-      status: 'scheduled',
-      scheduledStartTime: { $lte: now },
+    const staleBefore = new Date(now.getTime() - STALE_EXECUTION_MS);
+
+    const candidates = await this.maintenanceModel.find({
+      $or: [
+        { status: 'scheduled', scheduledStartTime: { $lte: now } },
+        { status: 'in_progress', heartbeatAt: { $lt: staleBefore } },
+      ],
     });
 
-    for (const window of windowsToStart) {
-      window.status = 'in_progress';
-      window.actualStartTime = new Date();
-      await window.save();
-
-      await this.eventsService.createEvent({
-        orgId: window.orgId.toString(),
-        projectId: window.projectId.toString(),
-        clusterId: window.clusterId.toString(),
-        type: 'CLUSTER_UPDATED',
-        severity: 'info',
-        message: `Maintenance "${window.title}" started`,
-        metadata: { maintenanceWindowId: window.id },
-      });
-
-      // Mark maintenance as completed
-      const w = await this.maintenanceModel.findById(window.id);
-      if (w && w.status === 'in_progress') {
-        w.status = 'completed';
-        w.actualEndTime = new Date();
-        w.operationsPerformed = ['System updates', 'Security patches', 'Performance optimizations'];
-        await w.save();
+    for (const candidate of candidates) {
+      if (this.maintenanceExecutor.isExecuting(candidate.id)) {
+        continue;
       }
-    }
-  }
-}
-
-
 
+      const claimId = new Types.ObjectId().toHexString();
+      const starting = candidate.status === 'scheduled';
+      const window = await this.maintenanceModel.findOneAndUpdate(
+        starting
+          ? { _id: candidate._id, status: 'scheduled' }
+          : { _id: candidate._id, status: 'in_progress', heartbeatAt: candidate.heartbeatAt },
+        {
+          $set: {
+            status: 'in_progress',
+            claimId,
+            heartbeatAt: now,
+            ...(starting ? { actualStartTime: now } : {}),
+          },
+        },
+        { new: true },
+      );
+      if (!window) {
+        continue; // Claimed by another instance
+      }
 
+      if (starting) {
+        await this.eventsService.createEvent({
+          orgId: window.orgId.toString(),
+          projectId: window.projectId.toString(),
+          clusterId: window.clusterId.toString(),
+          type: 'CLUSTER_UPDATED',
+          severity: 'info',
+          message: `Maintenance "${window.title}" started`,
+          metadata: { maintenanceWindowId: window.id },
+        });
+      } else {
+        this.logger.warn(`Taking over stale maintenance ${window.id}`);
+      }
 
+      // Runs for as long as the rolling operations take; progress is on the window
+      void this.maintenanceExecutor.execute(window.id, claimId);
+    }
+  }
+}
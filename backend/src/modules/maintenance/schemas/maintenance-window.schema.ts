@@ -6,6 +6,20 @@ export type MaintenanceWindowDocument = MaintenanceWindow & Document;
 export type MaintenanceWindowType = 'scheduled' | 'emergency';
 export type MaintenanceStatus = 'scheduled' | 'in_progress' | 'completed' | 'cancelled' | 'failed';
 export type DayOfWeek = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+export type MaintenanceStepType = 'upgrade' | 'restart';
+export type MaintenanceStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export interface MaintenanceStep {
+  type: MaintenanceStepType;
+  /** Pod restarted by a restart step */
+  member?: string;
+  /** Version installed by an upgrade step */
+  version?: string;
+  status: MaintenanceStepStatus;
+  startedAt?: Date;
+  completedAt?: Date;
+  error?: string;
+}
 
 @Schema({
   timestamps: true,
@@ -97,6 +111,31 @@ export class MaintenanceWindow {
   @Prop({ type: [String] })
   operationsPerformed?: string[];
 
+  // Execution
+  @Prop({ type: [Object], default: [] })
+  steps: MaintenanceStep[];
+
+  @Prop()
+  fromVersion?: string;
+
+  @Prop()
+  targetVersion?: string;
+
+  @Prop({ type: Object })
+  rollback?: {
+    startedAt: Date;
+    completedAt?: Date;
+    succeeded?: boolean;
+    error?: string;
+  };
+
+  /** Instance executing the window; heartbeats let another instance take over */
+  @Prop()
+  claimId?: string;
+
+  @Prop()
+  heartbeatAt?: Date;
+
   @Prop()
   notificationSentAt?: Date;
 
@@ -134,6 +173,7 @@ export const MaintenanceWindowSchema = SchemaFactory.createForClass(MaintenanceW
 MaintenanceWindowSchema.index({ clusterId: 1, status: 1, scheduledStartTime: 1 });
 MaintenanceWindowSchema.index({ orgId: 1, status: 1 });
 MaintenanceWindowSchema.index({ scheduledStartTime: 1, status: 1 });
+MaintenanceWindowSchema.index({ status: 1, heartbeatAt: 1 });
 
 
 
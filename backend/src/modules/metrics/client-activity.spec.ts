@@ -0,0 +1,51 @@
+import { CONTROL_PLANE_APP_NAME, countClientConnections, countClientOperations } from './client-activity';
+
+describe('client activity', () => {
+  describe('countClientConnections', () => {
+    it('should count each client connection once', () => {
+      const ops = [
+        { connectionId: 11, client: '10.0.0.8:51000', appName: 'orders-api', active: true },
+        { connectionId: 11, client: '10.0.0.8:51000', appName: 'orders-api', active: false },
+        { connectionId: 12, client: '10.0.0.9:51230', active: false },
+      ];
+
+      expect(countClientConnections(ops)).toBe(2);
+    });
+
+    it('should skip control plane, replication and background operations', () => {
+      const ops = [
+        { connectionId: 1, client: '10.1.0.2:40000', appName: CONTROL_PLANE_APP_NAME },
+        { connectionId: 2, client: '10.0.1.3:40100', clientMetadata: { driver: { name: 'NetworkInterfaceTL-ReplNetwork' } } },
+        { desc: 'WTCheckpointThread', active: true },
+      ];
+
+      expect(countClientConnections(ops)).toBe(0);
+    });
+  });
+
+  describe('countClientOperations', () => {
+    const usage = (count: number) => ({
+      insert: { count },
+      queries: { count },
+      update: { count },
+      remove: { count },
+      getmore: { count },
+      commands: { count },
+    });
+
+    it('should sum reads and writes on application collections', () => {
+      expect(countClientOperations({ 'shop.orders': usage(2), 'shop.users': usage(1) })).toBe(18);
+    });
+
+    it('should ignore system collections and internal databases', () => {
+      expect(countClientOperations({
+        note: 'all times in microseconds',
+        'shop.system.profile': usage(5),
+        'admin.system.users': usage(5),
+        'local.oplog.rs': usage(5),
+        'config.transactions': usage(5),
+        'shop.$cmd.aggregate': usage(5),
+      })).toBe(0);
+    });
+  });
+});
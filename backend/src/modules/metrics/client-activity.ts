@@ -0,0 +1,49 @@
+import { Document } from 'mongodb';
+
+/**
+ * appName of every MongoClient the control plane opens against a managed
+ * cluster, so our own connections can be told apart from the customer's.
+ */
+export const CONTROL_PLANE_APP_NAME = 'eutlas-control-plane';
+
+/** Operation counters reported by `top` that represent client reads and writes */
+const TOP_COUNTERS = ['insert', 'queries', 'update', 'remove', 'getmore', 'commands'];
+
+/**
+ * Client connections in a `$currentOp` result (run with `idleConnections`).
+ * Skips our own clients and the connections mongod members open to each other.
+ */
+export function countClientConnections(ops: Document[]): number {
+  const connections = new Set<string>();
+
+  for (const op of ops) {
+    if (!op.client || !op.connectionId) continue;
+    if (op.appName === CONTROL_PLANE_APP_NAME) continue;
+    if (String(op.clientMetadata?.driver?.name || '').startsWith('NetworkInterfaceTL')) continue;
+    connections.add(String(op.connectionId));
+  }
+
+  return connections.size;
+}
+
+/**
+ * Cumulative client operations from the `totals` of the `top` command.
+ * Internal databases and system collections (e.g. the profiler reads of the
+ * performance advisor) are left out.
+ */
+export function countClientOperations(totals: Document): number {
+  let operations = 0;
+
+  for (const [namespace, usage] of Object.entries(totals || {})) {
+    const [database, ...rest] = namespace.split('.');
+    const collection = rest.join('.');
+    if (!collection || collection.startsWith('$cmd') || collection.startsWith('system.')) continue;
+    if (['admin', 'config', 'local'].includes(database)) continue;
+
+    for (const counter of TOP_COUNTERS) {
+      operations += Number(usage?.[counter]?.count) || 0;
+    }
+  }
+
+  return operations;
+}
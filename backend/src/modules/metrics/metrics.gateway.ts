@@ -9,13 +9,13 @@ import {
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { Logger } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
-import { ConfigService } from '@nestjs/config';
 import { Interval } from '@nestjs/schedule';
 import { MetricsService } from './metrics.service';
+import { AccessTokensService } from '../users/access-tokens.service';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
+  sessionId?: string;
   subscribedClusters?: Set<string>;
 }
 
@@ -35,8 +35,7 @@ export class MetricsGateway implements OnGatewayConnection, OnGatewayDisconnect
   private clusterSubscriptions: Map<string, Set<string>> = new Map(); // clusterId -> clientIds
 
   constructor(
-    private jwtService: JwtService,
-    private configService: ConfigService,
+    private accessTokensService: AccessTokensService,
     private metricsService: MetricsService,
   ) {}
 
@@ -51,15 +50,15 @@ export class MetricsGateway implements OnGatewayConnection, OnGatewayDisconnect
         return;
       }
 
-      const payload = this.jwtService.verify(token, {
-        secret: this.configService.get('JWT_SECRET'),
-      });
+      // Same checks as HTTP requests, including the session
+      const user = await this.accessTokensService.verify(token);
 
-      client.userId = payload.sub;
+      client.userId = user.userId;
+      client.sessionId = user.sessionId;
       client.subscribedClusters = new Set();
       this.connectedClients.set(client.id, client);
 
-      this.logger.log(`Metrics client connected: ${client.id}, User: ${payload.sub}`);
+      this.logger.log(`Metrics client connected: ${client.id}, User: ${user.userId}`);
       
       client.emit('connected', { 
         message: 'Connected to metrics stream',
@@ -153,6 +152,18 @@ export class MetricsGateway implements OnGatewayConnection, OnGatewayDisconnect
   }
 
   // Push metrics to all subscribed clients every 5 seconds
+  /** Sessions revoked after the socket connected (sign-out, password change) end the stream */
+  @Interval(60_000)
+  async disconnectRevokedSessions() {
+    for (const client of this.connectedClients.values()) {
+      if (!client.userId || !client.sessionId) continue;
+      if (!(await this.accessTokensService.isSessionActive(client.sessionId, client.userId))) {
+        this.logger.log(`Disconnecting ${client.id}: session revoked`);
+        client.disconnect();
+      }
+    }
+  }
+
   @Interval(5000)
   async pushMetricsToSubscribers() {
     for (const [clusterId, subscribers] of this.clusterSubscriptions.entries()) {
@@ -1,7 +1,5 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
-import { JwtModule } from '@nestjs/jwt';
-import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MetricsController } from './metrics.controller';
 import { MetricsService } from './metrics.service';
 import { MetricsGateway } from './metrics.gateway';
@@ -11,6 +9,7 @@ import { ClustersModule } from '../clusters/clusters.module';
 import { ProjectsModule } from '../projects/projects.module';
 import { OrgsModule } from '../orgs/orgs.module';
 import { CredentialsModule } from '../credentials/credentials.module';
+import { UsersModule } from '../users/users.module';
 
 @Module({
   imports: [
@@ -18,14 +17,7 @@ import { CredentialsModule } from '../credentials/credentials.module';
       { name: Metric.name, schema: MetricSchema },
       { name: Cluster.name, schema: ClusterSchema },
     ]),
-    JwtModule.registerAsync({
-      imports: [ConfigModule],
-      useFactory: async (configService: ConfigService) => ({
-        secret: configService.get('JWT_SECRET'),
-        signOptions: { expiresIn: '7d' },
-      }),
-      inject: [ConfigService],
-    }),
+    UsersModule,
     forwardRef(() => ClustersModule),
     CredentialsModule,
     ProjectsModule,
@@ -1,11 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { Interval } from '@nestjs/schedule';
 import { ConfigService } from '@nestjs/config';
 import { Metric, MetricDocument, MetricType } from './schemas/metric.schema';
 import { Cluster, ClusterDocument } from '../clusters/schemas/cluster.schema';
 import { CredentialsService } from '../credentials/credentials.service';
+import { CONTROL_PLANE_APP_NAME, countClientConnections, countClientOperations } from './client-activity';
 
 export interface MetricDataPoint {
   timestamp: Date;
@@ -39,6 +40,13 @@ export interface CurrentMetrics {
   lastUpdated: Date;
 }
 
+export interface ClusterActivitySummary {
+  samples: number;
+  firstSampleAt: Date | null;
+  maxConnections: number;
+  operations: number;
+}
+
 @Injectable()
 export class MetricsService {
   private readonly logger = new Logger(MetricsService.name);
@@ -98,6 +106,8 @@ export class MetricsService {
       { clusterId, type: 'operations_delete' as MetricType, value: metrics.opsDelete, unit: 'count', timestamp },
       { clusterId, type: 'network_in' as MetricType, value: metrics.networkIn, unit: 'bytes', timestamp },
       { clusterId, type: 'network_out' as MetricType, value: metrics.networkOut, unit: 'bytes', timestamp },
+      { clusterId, type: 'client_connections' as MetricType, value: metrics.clientConnections, unit: 'count', timestamp },
+      { clusterId, type: 'client_operations' as MetricType, value: metrics.clientOperations, unit: 'count', timestamp },
     ];
 
     await this.metricModel.insertMany(documents);
@@ -117,6 +127,7 @@ export class MetricsService {
 
     const credentials = await this.credentialsService.decryptCredentials(cluster.credentialsEncrypted);
     const client = new MongoClient(this.buildInternalMetricsConnectionString(cluster, credentials), {
+      appName: CONTROL_PLANE_APP_NAME,
       connectTimeoutMS: 5000,
       serverSelectionTimeoutMS: 5000,
     });
@@ -132,6 +143,12 @@ export class MetricsService {
       // Get dbStats for storage metrics
       const dbStats = await clusterDb.command({ dbStats: 1 });
 
+      // Client-only activity for auto-pause: serverStatus also counts our own pollers
+      const currentOps = await adminDb
+        .aggregate([{ $currentOp: { allUsers: true, idleConnections: true } }])
+        .toArray();
+      const top = await adminDb.command({ top: 1 });
+
       // Parse metrics from serverStatus
       const mem = serverStatus.mem || {};
       const conn = serverStatus.connections || {};
@@ -163,6 +180,8 @@ export class MetricsService {
         opsDelete: opcounters.delete || 0,
         networkIn: network.bytesIn || 0,
         networkOut: network.bytesOut || 0,
+        clientConnections: countClientConnections(currentOps),
+        clientOperations: countClientOperations(top.totals),
       };
     } finally {
       await client.close().catch(() => {});
@@ -305,6 +324,45 @@ export class MetricsService {
     return this.metricModel.aggregate(pipeline).exec();
   }
 
+  /**
+   * Summarises client activity since a point in time, leaving out the
+   * control plane's own connections and queries (see client-activity.ts).
+   * The operation counter is cumulative, so activity is the spread between the
+   * lowest and highest sample; a counter reset after a restart therefore
+   * counts as activity, which errs on the side of "not idle".
+   */
+  async getActivitySummary(clusterId: string, since: Date): Promise<ClusterActivitySummary> {
+    const groups: Array<{ _id: MetricType; min: number; max: number; first: Date; count: number }> =
+      await this.metricModel.aggregate([
+        {
+          $match: {
+            clusterId: new Types.ObjectId(clusterId),
+            type: { $in: ['client_connections', 'client_operations'] },
+            timestamp: { $gte: since },
+          },
+        },
+        {
+          $group: {
+            _id: '$type',
+            min: { $min: '$value' },
+            max: { $max: '$value' },
+            first: { $min: '$timestamp' },
+            count: { $sum: 1 },
+          },
+        },
+      ]).exec();
+
+    const connections = groups.find((g) => g._id === 'client_connections');
+    const operations = groups.find((g) => g._id === 'client_operations');
+
+    return {
+      samples: connections?.count || 0,
+      firstSampleAt: connections?.first || null,
+      maxConnections: connections?.max || 0,
+      operations: operations ? Math.max(0, operations.max - operations.min) : 0,
+    };
+  }
+
   private getStartTime(period: string): Date {
     const now = new Date();
     switch (period) {
@@ -414,6 +472,8 @@ export class MetricsService {
       opsDelete: Math.floor(Math.random() * 10),
       networkIn: Math.floor(Math.random() * 1024 * 1024), // Up to 1MB/s
       networkOut: Math.floor(Math.random() * 2 * 1024 * 1024), // Up to 2MB/s
+      clientConnections: Math.floor(Math.random() * 10),
+      clientOperations: Math.floor(Math.random() * 300),
     };
   }
 }
@@ -14,7 +14,9 @@ export type MetricType =
   | 'operations_delete'
   | 'network_in'
   | 'network_out'
-  | 'replication_lag';
+  | 'replication_lag'
+  | 'client_connections'
+  | 'client_operations';
 
 export type MetricDocument = Metric & Document;
 
@@ -42,7 +44,8 @@ export class Metric {
       'cpu_usage', 'memory_usage', 'storage_used', 'storage_available',
       'connections_current', 'connections_available',
       'operations_insert', 'operations_query', 'operations_update', 'operations_delete',
-      'network_in', 'network_out', 'replication_lag'
+      'network_in', 'network_out', 'replication_lag',
+      'client_connections', 'client_operations',
     ],
   })
   type: MetricType;
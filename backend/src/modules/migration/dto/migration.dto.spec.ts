@@ -4,6 +4,7 @@ import {
   ValidateSourceDto,
   StartMigrationDto,
   MigrationOptionsDto,
+  CutoverMigrationDto,
 } from './migration.dto';
 
 describe('Migration DTOs', () => {
@@ -117,6 +118,7 @@ describe('Migration DTOs', () => {
         preserveIndexOptions: true,
         includeGridFS: true,
         compressTransfer: true,
+        continuous: true,
       });
       const errors = await validate(dto);
       expect(errors.length).toBe(0);
@@ -163,4 +165,18 @@ describe('Migration DTOs', () => {
       }
     });
   });
+
+  describe('CutoverMigrationDto', () => {
+    it('should pass without a timeout', async () => {
+      const errors = await validate(plainToInstance(CutoverMigrationDto, {}));
+      expect(errors.length).toBe(0);
+    });
+
+    it('should reject timeouts outside 1-3600 seconds', async () => {
+      for (const timeoutSeconds of [0, 3601]) {
+        const errors = await validate(plainToInstance(CutoverMigrationDto, { timeoutSeconds }));
+        expect(errors.length).toBeGreaterThan(0);
+      }
+    });
+  });
 });
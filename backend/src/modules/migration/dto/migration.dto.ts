@@ -75,6 +75,15 @@ export class MigrationOptionsDto {
   @IsOptional()
   @IsBoolean()
   compressTransfer?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Keep replicating source changes via change streams after the initial copy until cutover (requires a replica set source)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  continuous?: boolean;
 }
 
 export class StartMigrationDto {
@@ -123,3 +132,15 @@ export class StartMigrationDto {
   @Type(() => MigrationOptionsDto)
   options?: MigrationOptionsDto;
 }
+
+export class CutoverMigrationDto {
+  @ApiPropertyOptional({
+    description: 'How long to wait for replication lag to reach zero before giving up',
+    default: 300,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(3600)
+  timeoutSeconds?: number;
+}
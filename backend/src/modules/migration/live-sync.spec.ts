@@ -0,0 +1,108 @@
+import { Timestamp } from 'mongodb';
+import { UnsupportedChangeError, changeEventToOperation, computeLagMs, isCollectionSelected } from './live-sync';
+
+describe('live-sync', () => {
+  const scope = { databases: ['shop'], excludeCollections: ['shop.sessions'] };
+
+  // ==================== isCollectionSelected ====================
+
+  describe('isCollectionSelected', () => {
+    it('should honour database, include and exclude filters', () => {
+      expect(isCollectionSelected(scope, 'shop', 'orders')).toBe(true);
+      expect(isCollectionSelected(scope, 'shop', 'sessions')).toBe(false);
+      expect(isCollectionSelected(scope, 'other', 'orders')).toBe(false);
+      expect(isCollectionSelected({ databases: ['shop'], collections: ['orders'] }, 'shop', 'users')).toBe(false);
+    });
+
+    it('should never select system collections', () => {
+      expect(isCollectionSelected(scope, 'shop', 'system.views')).toBe(false);
+    });
+  });
+
+  // ==================== changeEventToOperation ====================
+
+  describe('changeEventToOperation', () => {
+    const ns = { db: 'shop', coll: 'orders' };
+    const documentKey = { _id: 1 };
+
+    it('should upsert inserts, replaces and looked-up updates', () => {
+      for (const operationType of ['insert', 'replace', 'update']) {
+        expect(
+          changeEventToOperation({ operationType, ns, documentKey, fullDocument: { _id: 1, total: 5 } }, scope),
+        ).toEqual({
+          type: 'upsert',
+          db: 'shop',
+          collection: 'orders',
+          filter: documentKey,
+          document: { _id: 1, total: 5 },
+        });
+      }
+    });
+
+    it('should delete when an updated document no longer exists', () => {
+      expect(changeEventToOperation({ operationType: 'update', ns, documentKey, fullDocument: null }, scope)).toEqual({
+        type: 'delete',
+        db: 'shop',
+        collection: 'orders',
+        filter: documentKey,
+      });
+    });
+
+    it('should skip events outside the migration scope', () => {
+      const op = changeEventToOperation(
+        { operationType: 'insert', ns: { db: 'shop', coll: 'sessions' }, documentKey, fullDocument: {} },
+        scope,
+      );
+      expect(op.type).toBe('skip');
+    });
+
+    it('should fail on invalidate events', () => {
+      expect(() => changeEventToOperation({ operationType: 'invalidate' }, scope)).toThrow('invalidated');
+    });
+
+    it('should repeat renames within the migration', () => {
+      expect(
+        changeEventToOperation({ operationType: 'rename', ns, to: { db: 'shop', coll: 'orders_v2' } }, scope),
+      ).toEqual({ type: 'rename', db: 'shop', collection: 'orders', to: { db: 'shop', collection: 'orders_v2' } });
+    });
+
+    it('should drop collections renamed out of the migration', () => {
+      expect(
+        changeEventToOperation({ operationType: 'rename', ns, to: { db: 'shop', coll: 'sessions' } }, scope),
+      ).toEqual({ type: 'drop', db: 'shop', collection: 'orders' });
+    });
+
+    it('should fail when a collection is renamed into the migration', () => {
+      const event = { operationType: 'rename', ns: { db: 'shop', coll: 'sessions' }, to: { db: 'shop', coll: 'orders' } };
+
+      expect(() => changeEventToOperation(event, scope)).toThrow(UnsupportedChangeError);
+    });
+
+    it('should drop a database only when it is migrated as a whole', () => {
+      const event = { operationType: 'dropDatabase', ns: { db: 'shop' } };
+
+      expect(changeEventToOperation(event, { databases: ['shop'] })).toEqual({ type: 'dropDatabase', db: 'shop' });
+      expect(changeEventToOperation(event, scope).type).toBe('skip');
+      expect(changeEventToOperation(event, { databases: ['other'] }).type).toBe('skip');
+    });
+
+    it('should fail on change events it cannot replicate', () => {
+      expect(() => changeEventToOperation({ operationType: 'modify', ns }, scope)).toThrow(UnsupportedChangeError);
+    });
+  });
+
+  // ==================== computeLagMs ====================
+
+  describe('computeLagMs', () => {
+    const now = new Date('2024-01-01T00:00:10Z');
+
+    it('should prefer the event wall time', () => {
+      expect(computeLagMs({ wallTime: new Date('2024-01-01T00:00:07Z') }, now)).toBe(3000);
+    });
+
+    it('should fall back to the cluster time', () => {
+      const clusterTime = new Timestamp({ t: Math.floor(now.getTime() / 1000) - 4, i: 1 });
+      expect(computeLagMs({ clusterTime }, now)).toBe(4000);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { Document } from 'mongodb';
+
+/** What a single source change event means for the target cluster. */
+export type LiveSyncOperation =
+  | { type: 'upsert'; db: string; collection: string; filter: Document; document: Document }
+  | { type: 'delete'; db: string; collection: string; filter: Document }
+  | { type: 'drop'; db: string; collection: string }
+  | { type: 'rename'; db: string; collection: string; to: { db: string; collection: string } }
+  | { type: 'dropDatabase'; db: string }
+  | { type: 'skip'; reason: string };
+
+/**
+ * A source change the tail cannot reproduce on the target. Retrying does not
+ * help, so the migration fails instead of silently diverging.
+ */
+export class UnsupportedChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedChangeError';
+  }
+}
+
+export interface MigrationScope {
+  databases: string[];
+  collections?: string[];
+  excludeCollections?: string[];
+}
+
+/**
+ * Whether `dbName.collName` is part of the migration. Collection filters
+ * accept either the qualified `db.collection` form or the bare name.
+ */
+export function isCollectionSelected(scope: MigrationScope, dbName: string, collName: string): boolean {
+  if (collName.startsWith('system.')) return false;
+  if (!scope.databases.includes(dbName)) return false;
+
+  const matches = (entry: string) => entry === `${dbName}.${collName}` || entry === collName;
+  if (scope.collections?.length && !scope.collections.some(matches)) return false;
+  if (scope.excludeCollections?.some(matches)) return false;
+  return true;
+}
+
+/**
+ * Translate a change stream event (opened with `fullDocument: 'updateLookup'`)
+ * into an idempotent write against the target. Events for documents the
+ * initial copy already contains are therefore harmless to replay.
+ */
+export function changeEventToOperation(event: Document, scope: MigrationScope): LiveSyncOperation {
+  if (event.operationType === 'invalidate') {
+    throw new UnsupportedChangeError('Change stream was invalidated on the source');
+  }
+
+  const db: string | undefined = event.ns?.db;
+  const collection: string | undefined = event.ns?.coll;
+
+  if (event.operationType === 'dropDatabase' && db) {
+    // The source reports a drop for every collection first, so only a fully
+    // migrated database may be dropped as a whole on the target
+    if (!scope.databases.includes(db)) {
+      return { type: 'skip', reason: `${db} is not part of this migration` };
+    }
+    return scope.collections?.length || scope.excludeCollections?.length
+      ? { type: 'skip', reason: `${db} was dropped, its selected collections were dropped individually` }
+      : { type: 'dropDatabase', db };
+  }
+
+  if (!db || !collection) {
+    return { type: 'skip', reason: `${event.operationType} on ${db ?? 'unknown database'}` };
+  }
+
+  if (event.operationType === 'rename') {
+    return renameToOperation(db, collection, event.to, scope);
+  }
+
+  if (!isCollectionSelected(scope, db, collection)) {
+    return { type: 'skip', reason: `${db}.${collection} is not part of this migration` };
+  }
+
+  switch (event.operationType) {
+    case 'insert':
+    case 'replace':
+      return { type: 'upsert', db, collection, filter: event.documentKey, document: event.fullDocument };
+    case 'update':
+      // The lookup returns null when the document was deleted after the update
+      return event.fullDocument
+        ? { type: 'upsert', db, collection, filter: event.documentKey, document: event.fullDocument }
+        : { type: 'delete', db, collection, filter: event.documentKey };
+    case 'delete':
+      return { type: 'delete', db, collection, filter: event.documentKey };
+    case 'drop':
+      return { type: 'drop', db, collection };
+    default:
+      throw new UnsupportedChangeError(`${event.operationType} on ${db}.${collection} cannot be replicated`);
+  }
+}
+
+/**
+ * A rename within the migration is repeated on the target; renaming a
+ * collection out of it removes it from the target. Renaming a collection
+ * into the migration would need its documents copied again.
+ */
+function renameToOperation(
+  db: string,
+  collection: string,
+  to: Document | undefined,
+  scope: MigrationScope,
+): LiveSyncOperation {
+  if (!to?.db || !to?.coll) {
+    throw new UnsupportedChangeError(`rename of ${db}.${collection} has no destination`);
+  }
+
+  const fromSelected = isCollectionSelected(scope, db, collection);
+  const toSelected = isCollectionSelected(scope, to.db, to.coll);
+
+  if (fromSelected && toSelected) {
+    return { type: 'rename', db, collection, to: { db: to.db, collection: to.coll } };
+  }
+  if (fromSelected) {
+    return { type: 'drop', db, collection };
+  }
+  if (toSelected) {
+    throw new UnsupportedChangeError(
+      `${db}.${collection} was renamed to ${to.db}.${to.coll}, which is part of the migration but was never copied`,
+    );
+  }
+  return { type: 'skip', reason: `${db}.${collection} is not part of this migration` };
+}
+
+/** Time between the source applying the event and now. */
+export function computeLagMs(event: Document, now: Date): number {
+  const sourceTime: number | undefined =
+    event.wallTime instanceof Date
+      ? event.wallTime.getTime()
+      : event.clusterTime?.t !== undefined
+        ? Number(event.clusterTime.t) * 1000
+        : undefined;
+
+  return sourceTime === undefined ? 0 : Math.max(0, now.getTime() - sourceTime);
+}
@@ -18,13 +18,15 @@ import {
   ApiResponse,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { CurrentProjectAccess } from '../../common/decorators/project-access.decorator';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { MigrationService } from './migration.service';
-import { ValidateSourceDto, StartMigrationDto } from './dto/migration.dto';
+import { ValidateSourceDto, StartMigrationDto, CutoverMigrationDto } from './dto/migration.dto';
 
 @ApiTags('Migration')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/migrations')
 export class MigrationController {
   constructor(private readonly migrationService: MigrationService) {}
@@ -59,13 +61,14 @@ export class MigrationController {
     @Param('clusterId') clusterId: string,
     @Body() body: StartMigrationDto,
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
   ) {
     return this.migrationService.startMigration({
       sourceUri: body.sourceUri,
       sourceProvider: body.sourceProvider,
       targetClusterId: clusterId,
       projectId,
-      orgId: (user as any).orgId,
+      orgId,
       userId: user.userId,
       databases: body.databases,
       excludeDatabases: body.excludeDatabases,
@@ -92,8 +95,11 @@ export class MigrationController {
       'Returns the full migration record including per-database progress, logs, and verification results.',
   })
   @ApiParam({ name: 'migrationId', description: 'Migration ID' })
-  async getMigration(@Param('migrationId') migrationId: string) {
-    const migration = await this.migrationService.getMigration(migrationId);
+  async getMigration(
+    @Param('clusterId') clusterId: string,
+    @Param('migrationId') migrationId: string,
+  ) {
+    const migration = await this.migrationService.getMigration(clusterId, migrationId);
     if (!migration) {
       throw new NotFoundException('Migration not found');
     }
@@ -106,8 +112,11 @@ export class MigrationController {
     description: 'Returns the last 500 log entries for this migration.',
   })
   @ApiParam({ name: 'migrationId', description: 'Migration ID' })
-  async getMigrationLogs(@Param('migrationId') migrationId: string) {
-    const migration = await this.migrationService.getMigration(migrationId);
+  async getMigrationLogs(
+    @Param('clusterId') clusterId: string,
+    @Param('migrationId') migrationId: string,
+  ) {
+    const migration = await this.migrationService.getMigration(clusterId, migrationId);
     if (!migration) {
       throw new NotFoundException('Migration not found');
     }
@@ -119,6 +128,30 @@ export class MigrationController {
     };
   }
 
+  @Post(':migrationId/cutover')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Cut over a continuous migration',
+    description:
+      'Stop writes to the source first. Starts waiting until all source changes have been replicated (lag zero), ' +
+      'then verifies the target and marks the migration completed. Poll GET .../migrations/{migrationId}: ' +
+      'the status becomes "completed", or returns to "syncing" with liveSync.cutoverError set.',
+  })
+  @ApiParam({ name: 'migrationId', description: 'Migration ID' })
+  @ApiResponse({ status: 202, description: 'Cutover started, the migration is cutting_over' })
+  @ApiResponse({ status: 400, description: 'Migration is not a syncing continuous migration' })
+  async cutoverMigration(
+    @Param('clusterId') clusterId: string,
+    @Param('migrationId') migrationId: string,
+    @Body() body: CutoverMigrationDto,
+  ) {
+    return this.migrationService.cutoverMigration(
+      clusterId,
+      migrationId,
+      body.timeoutSeconds ? body.timeoutSeconds * 1000 : undefined,
+    );
+  }
+
   @Delete(':migrationId')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
@@ -126,8 +159,11 @@ export class MigrationController {
     description: 'Cancels a running migration. Already migrated data will remain in the target.',
   })
   @ApiParam({ name: 'migrationId', description: 'Migration ID' })
-  async cancelMigration(@Param('migrationId') migrationId: string) {
-    return this.migrationService.cancelMigration(migrationId);
+  async cancelMigration(
+    @Param('clusterId') clusterId: string,
+    @Param('migrationId') migrationId: string,
+  ) {
+    return this.migrationService.cancelMigration(clusterId, migrationId);
   }
 
   @Post(':migrationId/retry')
@@ -136,7 +172,10 @@ export class MigrationController {
     description: 'Re-queues a failed or cancelled migration for another attempt.',
   })
   @ApiParam({ name: 'migrationId', description: 'Migration ID' })
-  async retryMigration(@Param('migrationId') migrationId: string) {
-    return this.migrationService.retryMigration(migrationId);
+  async retryMigration(
+    @Param('clusterId') clusterId: string,
+    @Param('migrationId') migrationId: string,
+  ) {
+    return this.migrationService.retryMigration(clusterId, migrationId);
   }
 }
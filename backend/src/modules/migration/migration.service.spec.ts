@@ -167,17 +167,20 @@ describe('MigrationService', () => {
         status: 'completed',
         progress: 100,
       };
-      mockMigrationModel.findById.mockResolvedValue(mockMigration);
+      mockMigrationModel.findOne.mockResolvedValue(mockMigration);
 
-      const result = await service.getMigration(MIGRATION_ID);
+      const result = await service.getMigration(CLUSTER_ID, MIGRATION_ID);
       expect(result).toEqual(mockMigration);
-      expect(mockMigrationModel.findById).toHaveBeenCalledWith(MIGRATION_ID);
+      expect(mockMigrationModel.findOne).toHaveBeenCalledWith({
+        _id: MIGRATION_ID,
+        targetClusterId: new Types.ObjectId(CLUSTER_ID),
+      });
     });
 
     it('should return null for non-existent migration', async () => {
-      mockMigrationModel.findById.mockResolvedValue(null);
+      mockMigrationModel.findOne.mockResolvedValue(null);
 
-      const result = await service.getMigration(MIGRATION_ID);
+      const result = await service.getMigration(CLUSTER_ID, MIGRATION_ID);
       expect(result).toBeNull();
     });
   });
@@ -212,15 +215,15 @@ describe('MigrationService', () => {
 
   describe('cancelMigration', () => {
     it('should throw NotFoundException if migration does not exist', async () => {
-      mockMigrationModel.findById.mockResolvedValue(null);
+      mockMigrationModel.findOne.mockResolvedValue(null);
 
       await expect(
-        service.cancelMigration(MIGRATION_ID),
+        service.cancelMigration(CLUSTER_ID, MIGRATION_ID),
       ).rejects.toThrow(NotFoundException);
     });
 
     it('should throw BadRequestException if migration is already completed', async () => {
-      mockMigrationModel.findById.mockResolvedValue({
+      mockMigrationModel.findOne.mockResolvedValue({
         id: MIGRATION_ID,
         status: 'completed',
         targetOrgId: { toString: () => ORG_ID },
@@ -229,12 +232,12 @@ describe('MigrationService', () => {
       });
 
       await expect(
-        service.cancelMigration(MIGRATION_ID),
+        service.cancelMigration(CLUSTER_ID, MIGRATION_ID),
       ).rejects.toThrow(BadRequestException);
     });
 
     it('should throw BadRequestException if migration is already failed', async () => {
-      mockMigrationModel.findById.mockResolvedValue({
+      mockMigrationModel.findOne.mockResolvedValue({
         id: MIGRATION_ID,
         status: 'failed',
         targetOrgId: { toString: () => ORG_ID },
@@ -243,7 +246,7 @@ describe('MigrationService', () => {
       });
 
       await expect(
-        service.cancelMigration(MIGRATION_ID),
+        service.cancelMigration(CLUSTER_ID, MIGRATION_ID),
       ).rejects.toThrow(BadRequestException);
     });
 
@@ -256,7 +259,7 @@ describe('MigrationService', () => {
         targetProjectId: { toString: () => PROJECT_ID },
         targetClusterId: { toString: () => CLUSTER_ID },
       };
-      mockMigrationModel.findById.mockResolvedValue(mockMigration);
+      mockMigrationModel.findOne.mockResolvedValue(mockMigration);
       mockMigrationModel.findByIdAndUpdate.mockResolvedValue({
         ...mockMigration,
         status: 'cancelled',
@@ -264,7 +267,7 @@ describe('MigrationService', () => {
       mockJobsService.cancelJob.mockResolvedValue(undefined);
       mockEventsService.createEvent.mockResolvedValue(undefined);
 
-      const result = await service.cancelMigration(MIGRATION_ID);
+      const result = await service.cancelMigration(CLUSTER_ID, MIGRATION_ID);
       expect(result.status).toBe('cancelled');
       expect(mockJobsService.cancelJob).toHaveBeenCalledWith(JOB_ID);
     });
@@ -272,21 +275,21 @@ describe('MigrationService', () => {
 
   describe('retryMigration', () => {
     it('should throw NotFoundException if migration does not exist', async () => {
-      mockMigrationModel.findById.mockResolvedValue(null);
+      mockMigrationModel.findOne.mockResolvedValue(null);
 
       await expect(
-        service.retryMigration(MIGRATION_ID),
+        service.retryMigration(CLUSTER_ID, MIGRATION_ID),
       ).rejects.toThrow(NotFoundException);
     });
 
     it('should throw BadRequestException if migration is not failed or cancelled', async () => {
-      mockMigrationModel.findById.mockResolvedValue({
+      mockMigrationModel.findOne.mockResolvedValue({
         id: MIGRATION_ID,
         status: 'dumping',
       });
 
       await expect(
-        service.retryMigration(MIGRATION_ID),
+        service.retryMigration(CLUSTER_ID, MIGRATION_ID),
       ).rejects.toThrow(BadRequestException);
     });
 
@@ -301,7 +304,7 @@ describe('MigrationService', () => {
         targetProjectId: { toString: () => PROJECT_ID },
         targetOrgId: { toString: () => ORG_ID },
       };
-      mockMigrationModel.findById.mockResolvedValue(mockMigration);
+      mockMigrationModel.findOne.mockResolvedValue(mockMigration);
       mockMigrationModel.findByIdAndUpdate.mockResolvedValue({
         ...mockMigration,
         status: 'pending',
@@ -309,7 +312,7 @@ describe('MigrationService', () => {
       });
       mockJobsService.createJob.mockResolvedValue({ _id: JOB_ID });
 
-      const result = await service.retryMigration(MIGRATION_ID);
+      const result = await service.retryMigration(CLUSTER_ID, MIGRATION_ID);
       expect(result.status).toBe('pending');
       expect(mockJobsService.createJob).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -321,4 +324,50 @@ describe('MigrationService', () => {
       );
     });
   });
+
+  describe('cutoverMigration', () => {
+    it('should throw NotFoundException if migration does not exist', async () => {
+      mockMigrationModel.findOneAndUpdate.mockResolvedValue(null);
+      mockMigrationModel.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.cutoverMigration(CLUSTER_ID, MIGRATION_ID),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw BadRequestException if migration is not syncing', async () => {
+      mockMigrationModel.findOneAndUpdate.mockResolvedValue(null);
+      mockMigrationModel.findOne.mockResolvedValue({
+        id: MIGRATION_ID,
+        status: 'dumping',
+      });
+
+      await expect(
+        service.cutoverMigration(CLUSTER_ID, MIGRATION_ID),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should return to syncing when lag does not reach zero in time', async () => {
+      const completeCutover = jest.spyOn(service as any, 'completeCutover');
+      mockMigrationModel.findOneAndUpdate.mockResolvedValue({
+        id: MIGRATION_ID,
+        status: 'cutting_over',
+        liveSync: { resumeToken: '{}', eventsApplied: 10, lagMs: 4000 },
+      });
+
+      const result = await service.cutoverMigration(CLUSTER_ID, MIGRATION_ID, 0);
+      expect(result.status).toBe('cutting_over');
+
+      await completeCutover.mock.results[0].value;
+      expect(mockMigrationModel.findOneAndUpdate).toHaveBeenLastCalledWith(
+        { _id: MIGRATION_ID, status: 'cutting_over' },
+        expect.objectContaining({
+          $set: expect.objectContaining({
+            status: 'syncing',
+            'liveSync.cutoverError': expect.stringContaining('Replication lag did not reach zero'),
+          }),
+        }),
+      );
+    });
+  });
 });
@@ -3,10 +3,13 @@ import {
   Logger,
   BadRequestException,
   NotFoundException,
+  OnModuleDestroy,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { BSON, Document, MongoClient } from 'mongodb';
 import { EventsService } from '../events/events.service';
 import { ClustersService } from '../clusters/clusters.service';
 import { JobsService } from '../jobs/jobs.service';
@@ -16,10 +19,50 @@ import {
   MigrationDocument,
   MigrationStatus,
 } from './schemas/migration.schema';
+import {
+  LiveSyncOperation,
+  MigrationScope,
+  UnsupportedChangeError,
+  changeEventToOperation,
+  computeLagMs,
+} from './live-sync';
+
+const ACTIVE_MIGRATION_STATUSES: MigrationStatus[] = [
+  'pending',
+  'validating',
+  'analyzing',
+  'dumping',
+  'restoring',
+  'verifying',
+  'syncing',
+  'cutting_over',
+];
+
+/** Statuses in which a continuous migration tails the source. */
+const LIVE_SYNC_STATUSES: MigrationStatus[] = ['syncing', 'cutting_over'];
+
+const LIVE_SYNC_STEP = 'Initial copy complete, replicating changes until cutover';
+
+/** Sync state is persisted after this many events or this much time, whichever comes first. */
+const LIVE_SYNC_FLUSH_EVENTS = 500;
+const LIVE_SYNC_FLUSH_MS = 2000;
+
+/** A sync whose heartbeat is older than this is taken over by the supervisor. */
+const LIVE_SYNC_STALE_MS = 60 * 1000;
+
+const DEFAULT_CUTOVER_TIMEOUT_MS = 5 * 60 * 1000;
+const CUTOVER_POLL_MS = 1000;
+
+/** Server error codes after which resuming the change stream cannot succeed. */
+const CHANGE_STREAM_HISTORY_LOST = 286;
+const INVALID_RESUME_TOKEN = 260;
+const NAMESPACE_NOT_FOUND = 26;
 
 @Injectable()
-export class MigrationService {
+export class MigrationService implements OnModuleDestroy {
   private readonly logger = new Logger(MigrationService.name);
+  // Change stream tails running in this process, by migration ID
+  private readonly liveSyncs = new Map<string, { stopped: boolean }>();
 
   constructor(
     @InjectModel(Migration.name)
@@ -31,6 +74,13 @@ export class MigrationService {
     private readonly projectsService: ProjectsService,
   ) {}
 
+  onModuleDestroy() {
+    // Tails stop within one await period; the supervisor resumes them elsewhere
+    for (const handle of this.liveSyncs.values()) {
+      handle.stopped = true;
+    }
+  }
+
   // ================================================================
   // Step 1: Validate & Analyze Source
   // ================================================================
@@ -247,6 +297,7 @@ export class MigrationService {
       preserveIndexOptions?: boolean;
       includeGridFS?: boolean;
       compressTransfer?: boolean;
+      continuous?: boolean;
     };
   }): Promise<MigrationDocument> {
     // Validate target cluster
@@ -274,7 +325,7 @@ export class MigrationService {
     // Check no other active migration for this cluster
     const activeMigration = await this.migrationModel.findOne({
       targetClusterId: targetClusterObjectId,
-      status: { $in: ['pending', 'validating', 'analyzing', 'dumping', 'restoring', 'verifying'] },
+      status: { $in: ACTIVE_MIGRATION_STATUSES },
     });
     if (activeMigration) {
       throw new BadRequestException(
@@ -289,6 +340,11 @@ export class MigrationService {
         `Cannot connect to source MongoDB: ${analysis.error}`,
       );
     }
+    if (params.options?.continuous && !analysis.replicaSet) {
+      throw new BadRequestException(
+        'Continuous migration requires the source to be a replica set (change streams are not available on standalone servers)',
+      );
+    }
 
     // Filter databases based on user selection
     let databasesToMigrate = analysis.databases || [];
@@ -343,6 +399,7 @@ export class MigrationService {
           true,
         includeGridFS: params.options?.includeGridFS ?? true,
         compressTransfer: params.options?.compressTransfer ?? true,
+        continuous: params.options?.continuous ?? false,
       },
       databaseProgress: databasesToMigrate.map((db) => ({
         name: db.name,
@@ -439,6 +496,16 @@ export class MigrationService {
       await sourceClient.connect();
       await this.addLog(migrationId, 'info', 'Source connection validated');
 
+      // Continuous mode: remember where the source is before copying, so
+      // every write made during the copy is replayed afterwards
+      if (migration.options?.continuous) {
+        const resumeToken = await this.captureResumeToken(sourceClient, this.migrationScope(migration));
+        await this.migrationModel.findByIdAndUpdate(migrationId, {
+          liveSync: { resumeToken: BSON.EJSON.stringify(resumeToken), eventsApplied: 0, lagMs: 0 },
+        });
+        await this.addLog(migrationId, 'info', 'Change stream position recorded on the source');
+      }
+
       // Phase 2: Get target connection info
       await this.updateMigrationStatus(migrationId, 'analyzing', 10, 'Analyzing target cluster...');
 
@@ -629,6 +696,32 @@ export class MigrationService {
         }
       }
 
+      // Continuous mode: hand over to the change stream tail; verification
+      // runs at cutover, once writes to the source have stopped
+      if (migration.options?.continuous) {
+        await sourceClient.close();
+        await targetClient.close();
+
+        const claimId = new Types.ObjectId().toHexString();
+        await this.migrationModel.findByIdAndUpdate(migrationId, {
+          $set: {
+            status: 'syncing',
+            progress: 95,
+            currentStep: LIVE_SYNC_STEP,
+            'liveSync.claimId': claimId,
+            'liveSync.startedAt': new Date(),
+            'liveSync.heartbeatAt': new Date(),
+          },
+        });
+        await this.addLog(
+          migrationId,
+          'info',
+          `Initial copy completed (${completedDbs}/${totalDbs} databases). Replicating changes until cutover`,
+        );
+        void this.runLiveSync(migrationId, claimId);
+        return;
+      }
+
       // Phase 4: Verification
       await this.updateMigrationStatus(migrationId, 'verifying', 90, 'Verifying migration...');
       await this.addLog(migrationId, 'info', 'Starting verification...');
@@ -639,69 +732,486 @@ export class MigrationService {
         databases.map((d) => d.name),
       );
 
-      await this.migrationModel.findByIdAndUpdate(migrationId, {
-        verification: verificationResult,
-      });
-
       // Close connections
       await sourceClient.close();
       await targetClient.close();
 
       // Phase 5: Complete
-      const updatedMigration = await this.migrationModel.findById(migrationId);
-      const startedAt = updatedMigration?.stats?.startedAt || updatedMigration?.createdAt;
-      const durationMs = startedAt
-        ? Date.now() - new Date(startedAt).getTime()
-        : 0;
+      await this.finishMigration(
+        migration,
+        verificationResult,
+        `${completedDbs}/${totalDbs} databases migrated`,
+      );
+    } catch (error: any) {
+      await this.failMigration(migration, error.message);
+      throw error;
+    }
+  }
 
-      await this.migrationModel.findByIdAndUpdate(migrationId, {
-        status: 'completed',
-        progress: 100,
-        currentStep: 'Migration completed successfully',
-        'stats.completedAt': new Date(),
-        'stats.durationMs': durationMs,
-      });
+  // ================================================================
+  // Continuous Migration: Change Stream Sync & Cutover
+  // ================================================================
 
-      await this.addLog(
-        migrationId,
-        'info',
-        `Migration completed in ${this.formatDuration(durationMs)}. Verification: ${verificationResult.passed ? 'PASSED' : 'ISSUES DETECTED'}`,
+  /**
+   * Start cutting a continuous migration over to the target. Returns as soon
+   * as the migration is "cutting_over"; waiting for lag zero, verification and
+   * completion run in the background and show in the migration status and log.
+   * Writes to the source must be stopped before calling this.
+   */
+  async cutoverMigration(
+    targetClusterId: string,
+    migrationId: string,
+    timeoutMs = DEFAULT_CUTOVER_TIMEOUT_MS,
+  ): Promise<MigrationDocument> {
+    const requestedAt = new Date();
+    const migration = await this.migrationModel.findOneAndUpdate(
+      {
+        _id: migrationId,
+        targetClusterId: this.toObjectId(targetClusterId, 'targetClusterId'),
+        status: 'syncing',
+      },
+      {
+        $set: {
+          status: 'cutting_over',
+          progress: 97,
+          currentStep: 'Cutover: waiting for replication lag to reach zero',
+          'liveSync.cutoverRequestedAt': requestedAt,
+        },
+        $unset: { 'liveSync.cutoverError': 1 },
+      },
+      { new: true },
+    );
+    if (!migration) {
+      const existing = await this.findMigration(targetClusterId, migrationId);
+      throw new BadRequestException(
+        `Cutover is only possible for a continuous migration in "syncing" state (current: ${existing.status})`,
       );
+    }
+    await this.addLog(migrationId, 'info', 'Cutover requested, waiting for replication lag to reach zero');
 
-      // Fire completion event
-      await this.eventsService.createEvent({
-        orgId: migration.targetOrgId.toString(),
-        projectId: migration.targetProjectId.toString(),
-        clusterId: migration.targetClusterId.toString(),
-        type: 'MIGRATION_COMPLETED' as any,
-        severity: 'info',
-        message: `Migration completed: ${completedDbs}/${totalDbs} databases migrated in ${this.formatDuration(durationMs)}`,
-        metadata: {
-          migrationId,
-          verification: verificationResult.passed,
-        },
-      });
+    void this.completeCutover(migration, requestedAt, timeoutMs);
+    return migration;
+  }
+
+  /**
+   * Wait until the tail has applied every change made on the source before
+   * the cutover request (lag zero), verify document counts and mark the
+   * migration completed. Goes back to syncing when the lag does not reach
+   * zero in time or verification fails to run. Never rejects.
+   */
+  private async completeCutover(
+    migration: MigrationDocument,
+    requestedAt: Date,
+    timeoutMs: number,
+  ): Promise<void> {
+    const migrationId = migration.id;
+    try {
+      const deadline = Date.now() + timeoutMs;
+      let current: MigrationDocument | null = migration;
+      while (!this.isCaughtUpSince(current, requestedAt)) {
+        if (current?.status !== 'cutting_over') {
+          await this.addLog(
+            migrationId,
+            'warn',
+            `Migration left cutover before catching up (current: ${current?.status ?? 'deleted'})`,
+          );
+          return;
+        }
+        if (Date.now() >= deadline) {
+          const lagMs = current.liveSync?.lagMs ?? 0;
+          await this.abortCutover(
+            migrationId,
+            `Replication lag did not reach zero within ${this.formatDuration(timeoutMs)} (current lag: ${this.formatDuration(lagMs)}). Make sure writes to the source are stopped and try again.`,
+          );
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, CUTOVER_POLL_MS));
+        current = await this.migrationModel.findById(migrationId);
+      }
+
+      // Tails in other processes stop once they see the completed status
+      const handle = this.liveSyncs.get(migrationId);
+      if (handle) handle.stopped = true;
+
+      const { sourceClient, targetClient } = await this.connectClients(migration);
+      let verificationResult: NonNullable<Migration['verification']>;
+      try {
+        verificationResult = await this.verifyMigration(
+          sourceClient,
+          targetClient,
+          this.migrationScope(migration).databases,
+        );
+      } finally {
+        await sourceClient.close();
+        await targetClient.close();
+      }
+
+      await this.finishMigration(
+        migration,
+        verificationResult,
+        `cut over after replicating ${(current?.liveSync?.eventsApplied ?? 0).toLocaleString()} changes`,
+      );
     } catch (error: any) {
-      await this.migrationModel.findByIdAndUpdate(migrationId, {
-        status: 'failed',
-        currentStep: `Failed: ${error.message}`,
-        errorMessage: error.message,
+      this.logger.error(`[Migration ${migrationId}] Cutover failed: ${error.message}`);
+      await this.abortCutover(migrationId, `Cutover failed: ${error.message}`).catch(() => undefined);
+    }
+  }
+
+  /** Put a migration that is still cutting over back to syncing. */
+  private async abortCutover(migrationId: string, reason: string): Promise<void> {
+    const reverted = await this.migrationModel.findOneAndUpdate(
+      { _id: migrationId, status: 'cutting_over' },
+      {
+        $set: { status: 'syncing', progress: 95, currentStep: LIVE_SYNC_STEP, 'liveSync.cutoverError': reason },
+        $unset: { 'liveSync.cutoverRequestedAt': 1 },
+      },
+    );
+    if (reverted) {
+      await this.addLog(migrationId, 'warn', `${reason} Still syncing.`);
+    }
+  }
+
+  /**
+   * Re-attach tails for continuous migrations whose worker went away
+   * (restart, crash), resuming from the last persisted resume token.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async resumeStaleLiveSyncs(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test') {
+      return;
+    }
+
+    try {
+      const stale = await this.migrationModel.find({
+        status: { $in: LIVE_SYNC_STATUSES },
+        'liveSync.heartbeatAt': { $lt: new Date(Date.now() - LIVE_SYNC_STALE_MS) },
       });
 
-      await this.addLog(migrationId, 'error', `Migration failed: ${error.message}`);
+      for (const migration of stale) {
+        if (this.liveSyncs.has(migration.id)) continue;
+
+        const claimId = new Types.ObjectId().toHexString();
+        const claimed = await this.migrationModel.findOneAndUpdate(
+          { _id: migration._id, 'liveSync.claimId': migration.liveSync?.claimId },
+          { $set: { 'liveSync.claimId': claimId, 'liveSync.heartbeatAt': new Date() } },
+        );
+        if (!claimed) continue;
+
+        await this.addLog(migration.id, 'info', 'Resuming change stream replication from the last recorded position');
+        void this.runLiveSync(migration.id, claimId);
+      }
+    } catch (error: any) {
+      this.logger.error(`Live sync supervision failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Tail the source with a change stream and apply each event to the target
+   * until the migration leaves the syncing states or another worker claims
+   * it. Never rejects: transient errors leave a stale heartbeat for the
+   * supervisor, unrecoverable ones fail the migration.
+   */
+  private async runLiveSync(migrationId: string, claimId: string): Promise<void> {
+    if (this.liveSyncs.has(migrationId)) return;
+    const handle = { stopped: false };
+    this.liveSyncs.set(migrationId, handle);
+
+    let clients: { sourceClient: MongoClient; targetClient: MongoClient } | undefined;
+    try {
+      const migration = await this.migrationModel.findById(migrationId);
+      if (!migration?.liveSync?.resumeToken) {
+        throw new Error('No change stream position was recorded for this migration');
+      }
 
-      await this.eventsService.createEvent({
-        orgId: migration.targetOrgId.toString(),
-        projectId: migration.targetProjectId.toString(),
-        clusterId: migration.targetClusterId.toString(),
-        type: 'MIGRATION_FAILED' as any,
-        severity: 'error',
-        message: `Migration failed: ${error.message}`,
-        metadata: { migrationId },
+      const scope = this.migrationScope(migration);
+      clients = await this.connectClients(migration);
+      const stream = clients.sourceClient.watch(this.liveSyncPipeline(scope), {
+        fullDocument: 'updateLookup',
+        resumeAfter: BSON.EJSON.parse(migration.liveSync.resumeToken),
+        maxAwaitTimeMS: 1000,
       });
 
+      try {
+        let applied = 0;
+        let lagMs = migration.liveSync.lagMs ?? 0;
+        let lastFlushAt = Date.now();
+
+        while (!handle.stopped) {
+          const event: Document | null = await stream.tryNext();
+          if (event) {
+            await this.applyLiveSyncOperation(migrationId, clients.targetClient, changeEventToOperation(event, scope));
+            applied++;
+            lagMs = computeLagMs(event, new Date());
+          }
+
+          const caughtUp = !event;
+          if (
+            applied >= LIVE_SYNC_FLUSH_EVENTS ||
+            Date.now() - lastFlushAt >= LIVE_SYNC_FLUSH_MS ||
+            (caughtUp && applied > 0)
+          ) {
+            const stillOwned = await this.flushLiveSync(migrationId, claimId, stream.resumeToken, {
+              applied,
+              lagMs: caughtUp ? 0 : lagMs,
+              caughtUp,
+            });
+            if (!stillOwned) break;
+            applied = 0;
+            lastFlushAt = Date.now();
+          }
+        }
+      } finally {
+        await stream.close();
+      }
+    } catch (error: any) {
+      if (error?.code === CHANGE_STREAM_HISTORY_LOST || error?.code === INVALID_RESUME_TOKEN) {
+        const migration = await this.migrationModel.findById(migrationId);
+        if (migration && LIVE_SYNC_STATUSES.includes(migration.status)) {
+          await this.failMigration(
+            migration,
+            `The source oplog no longer covers the replication position: ${error.message}`,
+          );
+        }
+      } else if (error instanceof UnsupportedChangeError) {
+        const migration = await this.migrationModel.findById(migrationId);
+        if (migration && LIVE_SYNC_STATUSES.includes(migration.status)) {
+          await this.failMigration(migration, `Cannot keep the target in sync: ${error.message}`);
+        }
+      } else {
+        this.logger.warn(`[Migration ${migrationId}] Live sync interrupted: ${error.message}`);
+        // Expire the heartbeat so the supervisor resumes from the last token
+        const updated = await this.migrationModel.findOneAndUpdate(
+          { _id: migrationId, status: { $in: LIVE_SYNC_STATUSES }, 'liveSync.claimId': claimId },
+          { $set: { 'liveSync.lastError': error.message, 'liveSync.heartbeatAt': new Date(0) } },
+        );
+        if (updated) {
+          await this.addLog(migrationId, 'warn', `Replication interrupted, will resume: ${error.message}`);
+        }
+      }
+    } finally {
+      this.liveSyncs.delete(migrationId);
+      await clients?.sourceClient.close().catch(() => undefined);
+      await clients?.targetClient.close().catch(() => undefined);
+    }
+  }
+
+  private async applyLiveSyncOperation(
+    migrationId: string,
+    targetClient: MongoClient,
+    operation: LiveSyncOperation,
+  ): Promise<void> {
+    if (operation.type === 'skip') {
+      return;
+    }
+
+    switch (operation.type) {
+      case 'upsert':
+        await this.targetCollection(targetClient, operation).replaceOne(operation.filter, operation.document, {
+          upsert: true,
+        });
+        break;
+      case 'delete':
+        await this.targetCollection(targetClient, operation).deleteOne(operation.filter);
+        break;
+      case 'drop':
+        try {
+          await this.targetCollection(targetClient, operation).drop();
+        } catch {
+          // Collection may not exist in target
+        }
+        await this.addLog(migrationId, 'warn', `${operation.db}.${operation.collection} was dropped on the source`);
+        break;
+      case 'rename':
+        try {
+          await targetClient.db('admin').command({
+            renameCollection: `${operation.db}.${operation.collection}`,
+            to: `${operation.to.db}.${operation.to.collection}`,
+            dropTarget: true,
+          });
+        } catch (error: any) {
+          // Nothing to rename when the collection never reached the target
+          if (error?.code !== NAMESPACE_NOT_FOUND) throw error;
+        }
+        await this.addLog(
+          migrationId,
+          'info',
+          `${operation.db}.${operation.collection} was renamed to ${operation.to.db}.${operation.to.collection} on the source`,
+        );
+        break;
+      case 'dropDatabase':
+        await targetClient.db(operation.db).dropDatabase();
+        await this.addLog(migrationId, 'warn', `Database ${operation.db} was dropped on the source`);
+        break;
+    }
+  }
+
+  private targetCollection(targetClient: MongoClient, operation: { db: string; collection: string }) {
+    return targetClient.db(operation.db).collection(operation.collection);
+  }
+
+  /**
+   * Persist the resume token and lag. Returns false when the migration is
+   * no longer syncing (completed, cancelled) or was claimed by another worker.
+   */
+  private async flushLiveSync(
+    migrationId: string,
+    claimId: string,
+    resumeToken: unknown,
+    progress: { applied: number; lagMs: number; caughtUp: boolean },
+  ): Promise<boolean> {
+    const now = new Date();
+    const set: Record<string, unknown> = {
+      'liveSync.heartbeatAt': now,
+      'liveSync.lagMs': progress.lagMs,
+    };
+    if (resumeToken) {
+      set['liveSync.resumeToken'] = BSON.EJSON.stringify(resumeToken);
+    }
+    if (progress.applied > 0) {
+      set['liveSync.lastEventAt'] = new Date(now.getTime() - progress.lagMs);
+    }
+    if (progress.caughtUp) {
+      set['liveSync.caughtUpAt'] = now;
+    }
+
+    const updated = await this.migrationModel.findOneAndUpdate(
+      { _id: migrationId, status: { $in: LIVE_SYNC_STATUSES }, 'liveSync.claimId': claimId },
+      { $set: set, $inc: { 'liveSync.eventsApplied': progress.applied } },
+    );
+    return !!updated;
+  }
+
+  /**
+   * Open a change stream just to obtain the source's current position. An
+   * event returned here happened before the copy starts, so the copy already
+   * contains its effect and resuming after it loses nothing.
+   */
+  private async captureResumeToken(sourceClient: MongoClient, scope: MigrationScope): Promise<unknown> {
+    const stream = sourceClient.watch(this.liveSyncPipeline(scope), { maxAwaitTimeMS: 1 });
+    try {
+      await stream.tryNext();
+      if (!stream.resumeToken) {
+        throw new Error('Source did not return a change stream resume token');
+      }
+      return stream.resumeToken;
+    } finally {
+      await stream.close();
+    }
+  }
+
+  private liveSyncPipeline(scope: MigrationScope): Document[] {
+    return [{ $match: { 'ns.db': { $in: scope.databases } } }];
+  }
+
+  private isCaughtUpSince(migration: MigrationDocument | null, since: Date): boolean {
+    const caughtUpAt = migration?.liveSync?.caughtUpAt;
+    return !!caughtUpAt && new Date(caughtUpAt) >= since && migration?.liveSync?.lagMs === 0;
+  }
+
+  private migrationScope(migration: MigrationDocument): MigrationScope {
+    return {
+      databases: (migration.sourceInfo?.databases || []).map((db) => db.name),
+      collections: migration.collections,
+      excludeCollections: migration.excludeCollections,
+    };
+  }
+
+  private async connectClients(
+    migration: MigrationDocument,
+  ): Promise<{ sourceClient: MongoClient; targetClient: MongoClient }> {
+    const targetCluster = await this.clustersService.findByIdWithCredentials(
+      migration.targetClusterId.toString(),
+    );
+    if (!targetCluster || !targetCluster.credentials?.connectionString) {
+      throw new Error('Cannot get target cluster connection information');
+    }
+
+    const sourceClient = new MongoClient(migration.sourceUri, {
+      connectTimeoutMS: 30000,
+      serverSelectionTimeoutMS: 30000,
+    });
+    const targetClient = new MongoClient(targetCluster.credentials.connectionString, {
+      connectTimeoutMS: 30000,
+      serverSelectionTimeoutMS: 30000,
+    });
+    try {
+      await sourceClient.connect();
+      await targetClient.connect();
+    } catch (error) {
+      await sourceClient.close().catch(() => undefined);
+      await targetClient.close().catch(() => undefined);
       throw error;
     }
+    return { sourceClient, targetClient };
+  }
+
+  private async finishMigration(
+    migration: MigrationDocument,
+    verificationResult: NonNullable<Migration['verification']>,
+    summary: string,
+  ): Promise<MigrationDocument | null> {
+    const migrationId = migration.id;
+    const updatedMigration = await this.migrationModel.findById(migrationId);
+    const startedAt = updatedMigration?.stats?.startedAt || updatedMigration?.createdAt;
+    const durationMs = startedAt
+      ? Date.now() - new Date(startedAt).getTime()
+      : 0;
+
+    const completed = await this.migrationModel.findByIdAndUpdate(
+      migrationId,
+      {
+        status: 'completed',
+        progress: 100,
+        currentStep: 'Migration completed successfully',
+        verification: verificationResult,
+        'stats.completedAt': new Date(),
+        'stats.durationMs': durationMs,
+      },
+      { new: true },
+    );
+
+    await this.addLog(
+      migrationId,
+      'info',
+      `Migration completed in ${this.formatDuration(durationMs)}. Verification: ${verificationResult.passed ? 'PASSED' : 'ISSUES DETECTED'}`,
+    );
+
+    // Fire completion event
+    await this.eventsService.createEvent({
+      orgId: migration.targetOrgId.toString(),
+      projectId: migration.targetProjectId.toString(),
+      clusterId: migration.targetClusterId.toString(),
+      type: 'MIGRATION_COMPLETED' as any,
+      severity: 'info',
+      message: `Migration completed: ${summary} in ${this.formatDuration(durationMs)}`,
+      metadata: {
+        migrationId,
+        verification: verificationResult.passed,
+      },
+    });
+
+    return completed;
+  }
+
+  private async failMigration(migration: MigrationDocument, message: string): Promise<void> {
+    const migrationId = migration.id;
+    await this.migrationModel.findByIdAndUpdate(migrationId, {
+      status: 'failed',
+      currentStep: `Failed: ${message}`,
+      errorMessage: message,
+    });
+
+    await this.addLog(migrationId, 'error', `Migration failed: ${message}`);
+
+    await this.eventsService.createEvent({
+      orgId: migration.targetOrgId.toString(),
+      projectId: migration.targetProjectId.toString(),
+      clusterId: migration.targetClusterId.toString(),
+      type: 'MIGRATION_FAILED' as any,
+      severity: 'error',
+      message: `Migration failed: ${message}`,
+      metadata: { migrationId },
+    });
   }
 
   // ================================================================
@@ -802,8 +1312,23 @@ export class MigrationService {
   // CRUD Operations
   // ================================================================
 
-  async getMigration(migrationId: string): Promise<MigrationDocument | null> {
-    return this.migrationModel.findById(migrationId);
+  /** Migrations are addressed through their target cluster's route, so other clusters' IDs are not found */
+  async getMigration(targetClusterId: string, migrationId: string): Promise<MigrationDocument | null> {
+    if (!Types.ObjectId.isValid(migrationId)) {
+      return null;
+    }
+    return this.migrationModel.findOne({
+      _id: migrationId,
+      targetClusterId: this.toObjectId(targetClusterId, 'targetClusterId'),
+    });
+  }
+
+  private async findMigration(targetClusterId: string, migrationId: string): Promise<MigrationDocument> {
+    const migration = await this.getMigration(targetClusterId, migrationId);
+    if (!migration) {
+      throw new NotFoundException('Migration not found');
+    }
+    return migration;
   }
 
   async listMigrations(
@@ -823,17 +1348,18 @@ export class MigrationService {
       .limit(50);
   }
 
-  async cancelMigration(migrationId: string): Promise<MigrationDocument> {
-    const migration = await this.migrationModel.findById(migrationId);
-    if (!migration) {
-      throw new NotFoundException('Migration not found');
-    }
+  async cancelMigration(targetClusterId: string, migrationId: string): Promise<MigrationDocument> {
+    const migration = await this.findMigration(targetClusterId, migrationId);
     if (['completed', 'failed', 'cancelled'].includes(migration.status)) {
       throw new BadRequestException(
         `Cannot cancel migration in "${migration.status}" state`,
       );
     }
 
+    // Stop a change stream tail running here; others stop on the status change
+    const liveSync = this.liveSyncs.get(migrationId);
+    if (liveSync) liveSync.stopped = true;
+
     // Cancel the associated job if it exists
     if (migration.jobId) {
       try {
@@ -872,11 +1398,8 @@ export class MigrationService {
     return updated!;
   }
 
-  async retryMigration(migrationId: string): Promise<MigrationDocument> {
-    const migration = await this.migrationModel.findById(migrationId);
-    if (!migration) {
-      throw new NotFoundException('Migration not found');
-    }
+  async retryMigration(targetClusterId: string, migrationId: string): Promise<MigrationDocument> {
+    const migration = await this.findMigration(targetClusterId, migrationId);
     if (!['failed', 'cancelled'].includes(migration.status)) {
       throw new BadRequestException(
         `Can only retry migrations in "failed" or "cancelled" state (current: ${migration.status})`,
@@ -28,6 +28,8 @@ describe('Migration Schema', () => {
     expect(enumValues).toContain('dumping');
     expect(enumValues).toContain('restoring');
     expect(enumValues).toContain('verifying');
+    expect(enumValues).toContain('syncing');
+    expect(enumValues).toContain('cutting_over');
     expect(enumValues).toContain('completed');
     expect(enumValues).toContain('failed');
     expect(enumValues).toContain('cancelled');
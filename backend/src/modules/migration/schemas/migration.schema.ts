@@ -8,6 +8,8 @@ export type MigrationStatus =
   | 'dumping'
   | 'restoring'
   | 'verifying'
+  | 'syncing'
+  | 'cutting_over'
   | 'completed'
   | 'failed'
   | 'cancelled';
@@ -65,6 +67,8 @@ export class Migration {
       'dumping',
       'restoring',
       'verifying',
+      'syncing',
+      'cutting_over',
       'completed',
       'failed',
       'cancelled',
@@ -118,6 +122,7 @@ export class Migration {
     includeIndexes?: boolean;
     includeGridFS?: boolean;
     compressTransfer?: boolean;
+    continuous?: boolean;
   };
 
   // Progress tracking per database
@@ -174,6 +179,22 @@ export class Migration {
     }>;
   };
 
+  // Change stream replication state of a continuous (live) migration
+  @Prop({ type: Object })
+  liveSync?: {
+    resumeToken: string; // Extended JSON, recorded before the initial copy
+    claimId?: string; // Changes whenever a worker takes over tailing
+    startedAt?: Date; // When tailing began after the initial copy
+    heartbeatAt?: Date;
+    eventsApplied: number;
+    lastEventAt?: Date; // Source time of the last applied event
+    lagMs: number;
+    caughtUpAt?: Date; // Last time the stream had no pending events
+    cutoverRequestedAt?: Date;
+    cutoverError?: string; // Why the last cutover went back to syncing
+    lastError?: string;
+  };
+
   @Prop()
   errorMessage?: string;
 
@@ -12,35 +12,30 @@ import {
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { Request } from 'express';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { CurrentProjectAccess, RequireProjectRole } from '../../common/decorators/project-access.decorator';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { NetworkAccessService } from './network-access.service';
-import { ClustersService } from '../clusters/clusters.service';
-import { ProjectsService } from '../projects/projects.service';
-import { OrgsService } from '../orgs/orgs.service';
 import { CreateIpWhitelistDto } from './dto/create-ip-whitelist.dto';
 
 @ApiTags('Network Access')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/network')
 export class NetworkAccessController {
   constructor(
     private readonly networkAccessService: NetworkAccessService,
-    private readonly clustersService: ClustersService,
-    private readonly projectsService: ProjectsService,
-    private readonly orgsService: OrgsService,
   ) {}
 
   @Post('ip-whitelist')
   @ApiOperation({ summary: 'Add an IP address or CIDR range to the whitelist' })
   async create(
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Body() createDto: CreateIpWhitelistDto,
   ) {
-    const orgId = await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
     const entry = await this.networkAccessService.create(
       clusterId,
       projectId,
@@ -58,12 +53,9 @@ export class NetworkAccessController {
   @Get('ip-whitelist')
   @ApiOperation({ summary: 'List all IP whitelist entries for a cluster' })
   async findAll(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const entries = await this.networkAccessService.findAllByCluster(clusterId);
 
     return {
@@ -75,13 +67,10 @@ export class NetworkAccessController {
   @Delete('ip-whitelist/:entryId')
   @ApiOperation({ summary: 'Remove an IP whitelist entry' })
   async remove(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('entryId') entryId: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
     const entry = await this.networkAccessService.findById(entryId);
     if (!entry || entry.clusterId.toString() !== clusterId) {
       throw new NotFoundException('IP whitelist entry not found');
@@ -96,15 +85,15 @@ export class NetworkAccessController {
   }
 
   @Post('ip-whitelist/add-current-ip')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Add the current IP address to the whitelist' })
   async addCurrentIp(
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Req() req: Request,
   ) {
-    const orgId = await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN', 'MEMBER']);
-
     // Get client IP from request
     const clientIp = this.getClientIp(req);
 
@@ -127,11 +116,10 @@ export class NetworkAccessController {
   @ApiOperation({ summary: 'Allow access from any IP address (0.0.0.0/0)' })
   async allowFromAnywhere(
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
   ) {
-    const orgId = await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
     const entry = await this.networkAccessService.allowFromAnywhere(
       clusterId,
       projectId,
@@ -146,27 +134,6 @@ export class NetworkAccessController {
     };
   }
 
-  private async verifyAccess(
-    userId: string,
-    projectId: string,
-    clusterId: string,
-    requiredRoles?: ('OWNER' | 'ADMIN' | 'MEMBER' | 'READONLY')[],
-  ): Promise<string> {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, userId, requiredRoles);
-
-    const cluster = await this.clustersService.findById(clusterId);
-    if (!cluster || cluster.projectId.toString() !== projectId) {
-      throw new NotFoundException('Cluster not found');
-    }
-
-    return orgId;
-  }
-
   @Get('my-ip')
   @ApiOperation({ summary: 'Get your current IP address' })
   async getMyIp(
@@ -212,5 +179,3 @@ export class NetworkAccessController {
   }
 }
 
-
-
@@ -0,0 +1,208 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash, createHmac } from 'crypto';
+import { gzipSync, gunzipSync } from 'zlib';
+import axios from 'axios';
+import { ArchiveRule } from './schemas/archive-rule.schema';
+
+export type ArchiveCompression = ArchiveRule['compressionType'];
+
+/** Compression codecs the archive writer can produce with Node built-ins. */
+export const SUPPORTED_ARCHIVE_COMPRESSION: ArchiveCompression[] = ['gzip', 'none'];
+
+/** RFC 3986 encoding as SigV4 expects it; encodeURIComponent leaves !'()* as they are */
+function encodeUriSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+export interface ArchiveStore {
+  readonly kind: 'filesystem' | 's3';
+  put(key: string, body: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Stores archive partitions as files below a base directory — in production
+ * the cluster backup volume mounted into the control plane.
+ */
+class FilesystemArchiveStore implements ArchiveStore {
+  readonly kind = 'filesystem' as const;
+
+  constructor(private readonly baseDir: string) {}
+
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.baseDir, key);
+    if (!resolved.startsWith(path.resolve(this.baseDir) + path.sep)) {
+      throw new Error(`Invalid archive key "${key}"`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // Write to a temp file and rename so readers never see a partial file
+    const tmp = `${target}.tmp`;
+    await fs.writeFile(tmp, body);
+    await fs.rename(tmp, target);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+export interface S3StoreConfig {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/**
+ * Minimal S3-compatible client (path-style, AWS Signature V4) so Hetzner
+ * Object Storage, MinIO or Ceph RGW can hold cold archive partitions.
+ */
+export class S3ArchiveStore implements ArchiveStore {
+  readonly kind = 's3' as const;
+
+  constructor(private readonly config: S3StoreConfig) {}
+
+  async put(key: string, body: Buffer): Promise<void> {
+    await this.request('PUT', key, body);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const data = await this.request('GET', key);
+    return Buffer.from(data);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('DELETE', key);
+  }
+
+  private async request(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer): Promise<ArrayBuffer> {
+    const url = new URL(this.config.endpoint);
+    const canonicalUri = `/${[this.config.bucket, ...key.split('/')].map(encodeUriSegment).join('/')}`;
+    const payload = body || Buffer.alloc(0);
+    const payloadHash = createHash('sha256').update(payload).digest('hex');
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const signedHeaders = Object.keys(headers).sort().join(';');
+    const canonicalHeaders = Object.keys(headers).sort().map((h) => `${h}:${headers[h]}\n`).join('');
+
+    const canonicalRequest = [method, canonicalUri, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      createHash('sha256').update(canonicalRequest).digest('hex'),
+    ].join('\n');
+
+    const hmac = (k: Buffer | string, v: string) => createHmac('sha256', k).update(v).digest();
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    const response = await axios.request<ArrayBuffer>({
+      method,
+      url: `${url.origin}${canonicalUri}`,
+      data: body,
+      responseType: 'arraybuffer',
+      headers: {
+        ...headers,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      timeout: 60_000,
+    });
+
+    return response.data;
+  }
+}
+
+@Injectable()
+export class ArchiveStorageService {
+  private readonly logger = new Logger(ArchiveStorageService.name);
+  private readonly stores = new Map<ArchiveRule['storageClass'], ArchiveStore>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * `standard` partitions live on the backup volume, `cold` partitions in the
+   * configured S3-compatible bucket.
+   */
+  getStore(storageClass: ArchiveRule['storageClass']): ArchiveStore {
+    const cached = this.stores.get(storageClass);
+    if (cached) return cached;
+
+    let store: ArchiveStore;
+    if (storageClass === 'cold') {
+      const endpoint = this.configService.get<string>('ONLINE_ARCHIVE_S3_ENDPOINT');
+      const bucket = this.configService.get<string>('ONLINE_ARCHIVE_S3_BUCKET');
+      const accessKeyId = this.configService.get<string>('ONLINE_ARCHIVE_S3_ACCESS_KEY_ID');
+      const secretAccessKey = this.configService.get<string>('ONLINE_ARCHIVE_S3_SECRET_ACCESS_KEY');
+
+      if (!endpoint || !bucket || !accessKeyId || !secretAccessKey) {
+        throw new BadRequestException({
+          code: 'ARCHIVE_STORAGE_NOT_CONFIGURED',
+          message: 'Cold archive storage requires ONLINE_ARCHIVE_S3_* configuration',
+        });
+      }
+
+      store = new S3ArchiveStore({
+        endpoint,
+        bucket,
+        region: this.configService.get<string>('ONLINE_ARCHIVE_S3_REGION', 'eu-central-1'),
+        accessKeyId,
+        secretAccessKey,
+      });
+    } else {
+      const baseDir = this.configService.get<string>('ONLINE_ARCHIVE_PATH', '/backup/online-archive');
+      store = new FilesystemArchiveStore(baseDir);
+    }
+
+    this.logger.log(`Using ${store.kind} archive store for storage class ${storageClass}`);
+    this.stores.set(storageClass, store);
+    return store;
+  }
+
+  assertCompressionSupported(compression: ArchiveCompression): void {
+    if (!SUPPORTED_ARCHIVE_COMPRESSION.includes(compression)) {
+      throw new BadRequestException({
+        code: 'UNSUPPORTED_COMPRESSION',
+        message: `Compression "${compression}" is not supported for online archive (use ${SUPPORTED_ARCHIVE_COMPRESSION.join(' or ')})`,
+      });
+    }
+  }
+
+  fileExtension(compression: ArchiveCompression): string {
+    return compression === 'gzip' ? '.ndjson.gz' : '.ndjson';
+  }
+
+  compress(data: Buffer, compression: ArchiveCompression): Buffer {
+    this.assertCompressionSupported(compression);
+    return compression === 'gzip' ? gzipSync(data) : data;
+  }
+
+  decompress(data: Buffer, compression: ArchiveCompression): Buffer {
+    this.assertCompressionSupported(compression);
+    return compression === 'gzip' ? gunzipSync(data) : data;
+  }
+}
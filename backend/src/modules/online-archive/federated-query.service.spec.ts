@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { BSON } from 'mongodb';
+import { FederatedQueryService } from './federated-query.service';
+import { ArchiveRule } from './schemas/archive-rule.schema';
+import { ArchivePartition } from './schemas/archive-partition.schema';
+import { ArchiveStorageService } from './archive-storage.service';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+
+describe('FederatedQueryService', () => {
+  let service: FederatedQueryService;
+
+  const CLUSTER_ID = new Types.ObjectId().toString();
+  const config: Record<string, number> = {};
+
+  let partitions: any[];
+  let stored: Record<string, string>;
+
+  const partition = (key: string, docs: object[], bytes = 1024) => {
+    stored[key] = docs.map((doc) => BSON.EJSON.stringify(doc, { relaxed: false })).join('\n') + '\n';
+    return { key, ruleId: new Types.ObjectId(), storageClass: 'standard', compressionType: 'none', bytes };
+  };
+
+  const mockCollection = {
+    find: jest.fn(() => ({ sort: () => ({ limit: () => ({ toArray: async () => [] }) }) })),
+    countDocuments: jest.fn(async () => 0),
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FederatedQueryService,
+        { provide: getModelToken(ArchiveRule.name), useValue: { find: jest.fn(async () => []) } },
+        {
+          provide: getModelToken(ArchivePartition.name),
+          useValue: { find: jest.fn(() => ({ select: () => ({ sort: () => ({ exec: async () => partitions }) }) })) },
+        },
+        {
+          provide: ArchiveStorageService,
+          useValue: {
+            getStore: () => ({ get: async (key: string) => Buffer.from(stored[key]) }),
+            decompress: (data: Buffer) => data,
+          },
+        },
+        {
+          provide: DataExplorerService,
+          useValue: {
+            getConnection: jest.fn(async () => ({ db: () => ({ collection: () => mockCollection }) })),
+            serializeDocument: (doc: object) => doc,
+          },
+        },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string, fallback?: unknown) => config[key] ?? fallback) } },
+      ],
+    }).compile();
+
+    return module.get<FederatedQueryService>(FederatedQueryService);
+  };
+
+  beforeEach(async () => {
+    for (const key of Object.keys(config)) delete config[key];
+    partitions = [];
+    stored = {};
+    service = await createService();
+  });
+
+  it('should count every archived match but return only the requested page', async () => {
+    const docs = Array.from({ length: 50 }, (_, i) => ({ _id: i, status: i % 2 ? 'open' : 'closed' }));
+    partitions = [partition('a', docs.slice(0, 30)), partition('b', docs.slice(30))];
+
+    const result = await service.find(CLUSTER_ID, 'shop', 'orders', {
+      filter: { status: 'open' },
+      sort: { _id: 1 },
+      skip: 2,
+      limit: 3,
+    });
+
+    expect(result.documents.map((doc) => doc._id)).toEqual([5, 7, 9]);
+    expect(result.totalCount).toBe(25);
+    expect(result.sources).toMatchObject({ archivedCount: 25, partitionsScanned: 2 });
+  });
+
+  it('should sort archived documents by numeric fields', async () => {
+    partitions = [
+      partition('a', [{ _id: 1, total: 30 }, { _id: 2, total: 4.5 }]),
+      partition('b', [{ _id: 3, total: 100 }, { _id: 4, total: -2 }]),
+    ];
+
+    const result = await service.find(CLUSTER_ID, 'shop', 'orders', { sort: { total: -1 } });
+
+    expect(result.documents.map((doc) => doc.total)).toEqual([100, 30, 4.5, -2]);
+    expect(result.documents.map((doc) => doc._id)).toEqual([3, 1, 2, 4]);
+  });
+
+  it('should refuse queries that would scan too many archived bytes', async () => {
+    config.FEDERATED_QUERY_MAX_SCAN_BYTES = 1500;
+    service = await createService();
+    partitions = [partition('a', [{ _id: 1 }]), partition('b', [{ _id: 2 }])];
+
+    await expect(service.find(CLUSTER_ID, 'shop', 'orders')).rejects.toMatchObject({
+      response: { code: 'FEDERATED_QUERY_TOO_BROAD' },
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { BSON, Document, ObjectId } from 'mongodb';
+import sift from 'sift';
+import { ArchiveRule, ArchiveRuleDocument } from './schemas/archive-rule.schema';
+import { ArchivePartition, ArchivePartitionDocument } from './schemas/archive-partition.schema';
+import { ArchiveStorageService } from './archive-storage.service';
+import { extractDateBounds, compareBySort, applyProjection, parseArchivedDocument } from './federated-query';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+
+export interface FederatedQueryOptions {
+  filter?: Record<string, any>;
+  sort?: Record<string, 1 | -1>;
+  skip?: number;
+  limit?: number;
+  projection?: Record<string, 0 | 1>;
+}
+
+export interface FederatedQueryResult {
+  documents: Document[];
+  totalCount: number;
+  executionTime: number;
+  sources: {
+    liveCount: number;
+    archivedCount: number;
+    partitionsScanned: number;
+    partitionsPruned: number;
+  };
+}
+
+/** Results are merged in memory, so the window a query may page through is bounded. */
+const MAX_FEDERATED_WINDOW = 10_000;
+
+const formatMiB = (bytes: number) => `${Math.ceil(bytes / (1024 * 1024))} MiB`;
+
+@Injectable()
+export class FederatedQueryService {
+  private readonly logger = new Logger(FederatedQueryService.name);
+  private readonly maxPartitions: number;
+  private readonly maxScanBytes: number;
+
+  constructor(
+    @InjectModel(ArchiveRule.name) private archiveRuleModel: Model<ArchiveRuleDocument>,
+    @InjectModel(ArchivePartition.name) private archivePartitionModel: Model<ArchivePartitionDocument>,
+    private archiveStorage: ArchiveStorageService,
+    private dataExplorerService: DataExplorerService,
+    configService: ConfigService,
+  ) {
+    this.maxPartitions = Number(configService.get('FEDERATED_QUERY_MAX_PARTITIONS', 200));
+    // Partitions are decompressed one at a time; this bounds the work of a query
+    this.maxScanBytes = Number(configService.get('FEDERATED_QUERY_MAX_SCAN_BYTES', 1024 * 1024 * 1024));
+  }
+
+  /**
+   * Query the live collection and its archived partitions as one collection.
+   * Filters use Extended JSON (e.g. `{ "$date": "2023-01-01T00:00:00Z" }`) so
+   * date ranges on the archive rule's `dateField` can prune partitions.
+   */
+  async find(
+    clusterId: string,
+    dbName: string,
+    collectionName: string,
+    options: FederatedQueryOptions = {},
+  ): Promise<FederatedQueryResult> {
+    const startTime = Date.now();
+    const filter = this.parseFilter(options.filter || {});
+    const sort = options.sort || { _id: -1 };
+    const skip = options.skip || 0;
+    const limit = Math.min(options.limit || 20, 100);
+    const window = skip + limit;
+
+    if (window > MAX_FEDERATED_WINDOW) {
+      throw new BadRequestException({
+        code: 'FEDERATED_WINDOW_TOO_LARGE',
+        message: `Federated queries can page through at most ${MAX_FEDERATED_WINDOW} documents; narrow the filter instead`,
+      });
+    }
+
+    // Live part: only the first `window` documents can end up in the page
+    const client = await this.dataExplorerService.getConnection(clusterId);
+    const collection = client.db(dbName).collection(collectionName);
+    const [liveDocuments, liveCount] = await Promise.all([
+      collection.find(filter).sort(sort).limit(window).toArray(),
+      collection.countDocuments(filter),
+    ]);
+
+    // Archived part: matches are counted, but only the first `window` are kept
+    const { partitions, pruned } = await this.selectPartitions(clusterId, dbName, collectionName, filter);
+    const matches = sift(filter);
+    const bySort = compareBySort(sort);
+    let archivedDocuments: Document[] = [];
+    let archivedCount = 0;
+    for (const partition of partitions) {
+      for await (const doc of this.readPartition(partition)) {
+        if (!matches(doc)) continue;
+        archivedCount++;
+        archivedDocuments.push(doc);
+        if (archivedDocuments.length >= 2 * window) {
+          archivedDocuments = archivedDocuments.sort(bySort).slice(0, window);
+        }
+      }
+    }
+
+    const documents = [...liveDocuments, ...archivedDocuments]
+      .sort(bySort)
+      .slice(skip, window)
+      .map((doc) => this.dataExplorerService.serializeDocument(applyProjection(doc, options.projection || {})));
+
+    this.logger.debug(
+      `Federated query on ${dbName}.${collectionName}: ${partitions.length} partitions scanned, ${pruned} pruned`,
+    );
+
+    return {
+      documents,
+      totalCount: liveCount + archivedCount,
+      executionTime: Date.now() - startTime,
+      sources: {
+        liveCount,
+        archivedCount,
+        partitionsScanned: partitions.length,
+        partitionsPruned: pruned,
+      },
+    };
+  }
+
+  /**
+   * Pick the committed partitions whose `dateField` range overlaps the
+   * filter. Partitions of different rules on the same collection are pruned
+   * by their own rule's date field.
+   */
+  private async selectPartitions(
+    clusterId: string,
+    dbName: string,
+    collectionName: string,
+    filter: Record<string, any>,
+  ): Promise<{ partitions: ArchivePartitionDocument[]; pruned: number }> {
+    const base = {
+      clusterId: new Types.ObjectId(clusterId),
+      database: dbName,
+      collection: collectionName,
+      status: 'committed',
+      documentCount: { $gt: 0 },
+    };
+
+    const rules = await this.archiveRuleModel.find({
+      clusterId: base.clusterId,
+      database: dbName,
+      collection: collectionName,
+    });
+    const dateFieldByRule = new Map(rules.map((rule) => [rule.id, rule.dateField]));
+
+    const candidates = await this.archivePartitionModel
+      .find(base)
+      .select('-documentIds')
+      .sort({ minDate: 1, seq: 1 })
+      .exec();
+
+    const partitions = candidates.filter((partition) => {
+      const dateField = dateFieldByRule.get(partition.ruleId.toString());
+      if (!dateField) return true;
+
+      const { from, to } = extractDateBounds(filter, dateField);
+      if (from && partition.maxDate && partition.maxDate < from) return false;
+      if (to && partition.minDate && partition.minDate > to) return false;
+      return true;
+    });
+
+    if (partitions.length > this.maxPartitions) {
+      throw new BadRequestException({
+        code: 'FEDERATED_QUERY_TOO_BROAD',
+        message: `Query would scan ${partitions.length} archive partitions (limit ${this.maxPartitions}); add a range on the archived date field`,
+      });
+    }
+
+    const scanBytes = partitions.reduce((sum, partition) => sum + partition.bytes, 0);
+    if (scanBytes > this.maxScanBytes) {
+      throw new BadRequestException({
+        code: 'FEDERATED_QUERY_TOO_BROAD',
+        message: `Query would scan ${formatMiB(scanBytes)} of archived documents (limit ${formatMiB(this.maxScanBytes)}); add a range on the archived date field`,
+      });
+    }
+
+    return { partitions, pruned: candidates.length - partitions.length };
+  }
+
+  /** Documents of a partition, parsed one line at a time */
+  private async *readPartition(partition: ArchivePartitionDocument): AsyncGenerator<Document> {
+    const store = this.archiveStorage.getStore(partition.storageClass);
+    const text = this.archiveStorage
+      .decompress(await store.get(partition.key), partition.compressionType)
+      .toString('utf8');
+
+    let start = 0;
+    while (start < text.length) {
+      let end = text.indexOf('\n', start);
+      if (end === -1) end = text.length;
+      if (end > start) {
+        yield parseArchivedDocument(text.slice(start, end));
+      }
+      start = end + 1;
+    }
+  }
+
+  private parseFilter(filter: Record<string, any>): Record<string, any> {
+    let parsed: Record<string, any>;
+    try {
+      parsed = BSON.EJSON.deserialize(filter, { relaxed: true });
+    } catch (error: any) {
+      throw new BadRequestException({
+        code: 'INVALID_FILTER',
+        message: `Invalid Extended JSON filter: ${error.message}`,
+      });
+    }
+
+    // Same convenience as the data explorer: a plain string _id may be an ObjectId
+    if (typeof parsed._id === 'string' && ObjectId.isValid(parsed._id) && parsed._id.length === 24) {
+      parsed._id = new ObjectId(parsed._id);
+    }
+
+    return parsed;
+  }
+}
@@ -0,0 +1,107 @@
+import { BSON, Long, ObjectId } from 'mongodb';
+import { extractDateBounds, compareBySort, applyProjection, parseArchivedDocument } from './federated-query';
+
+describe('federated-query', () => {
+  // ==================== extractDateBounds ====================
+
+  describe('extractDateBounds', () => {
+    const from = new Date('2023-01-01T00:00:00Z');
+    const to = new Date('2024-01-01T00:00:00Z');
+
+    it('should read range operators on the date field', () => {
+      expect(extractDateBounds({ createdAt: { $gte: from, $lt: to } }, 'createdAt')).toEqual({ from, to });
+    });
+
+    it('should treat an exact date as both bounds', () => {
+      expect(extractDateBounds({ createdAt: from }, 'createdAt')).toEqual({ from, to: from });
+    });
+
+    it('should narrow bounds across $and clauses', () => {
+      const later = new Date('2023-06-01T00:00:00Z');
+      const bounds = extractDateBounds(
+        { $and: [{ createdAt: { $gte: from } }, { createdAt: { $gte: later, $lt: to } }] },
+        'createdAt',
+      );
+      expect(bounds).toEqual({ from: later, to });
+    });
+
+    it('should not derive bounds from $or or non-date values', () => {
+      expect(extractDateBounds({ $or: [{ createdAt: { $gte: from } }] }, 'createdAt')).toEqual({});
+      expect(extractDateBounds({ createdAt: { $gte: '2023-01-01' } }, 'createdAt')).toEqual({});
+    });
+  });
+
+  // ==================== compareBySort ====================
+
+  describe('compareBySort', () => {
+    it('should sort by multiple keys and directions', () => {
+      const docs = [
+        { status: 'b', n: 1 },
+        { status: 'a', n: 1 },
+        { status: 'a', n: 2 },
+      ];
+      expect(docs.sort(compareBySort({ status: 1, n: -1 }))).toEqual([
+        { status: 'a', n: 2 },
+        { status: 'a', n: 1 },
+        { status: 'b', n: 1 },
+      ]);
+    });
+
+    it('should order ObjectIds and dates chronologically', () => {
+      const older = new ObjectId('000000000000000000000001');
+      const newer = new ObjectId('000000000000000000000002');
+      const docs = [
+        { _id: older, at: new Date('2023-01-01') },
+        { _id: newer, at: new Date('2022-01-01') },
+      ];
+
+      expect(docs.slice().sort(compareBySort({ _id: -1 }))[0]._id).toBe(newer);
+      expect(docs.slice().sort(compareBySort({ at: 1 }))[0]._id).toBe(newer);
+    });
+
+    it('should place missing values first in ascending order', () => {
+      const docs = [{ n: 1 }, {}];
+      expect(docs.sort(compareBySort({ n: 1 }))).toEqual([{}, { n: 1 }]);
+    });
+  });
+
+  // ==================== applyProjection ====================
+
+  describe('applyProjection', () => {
+    const doc = { _id: 1, name: 'x', address: { city: 'Berlin', zip: '10115' }, tags: ['a'] };
+
+    it('should include selected fields and _id', () => {
+      expect(applyProjection(doc, { name: 1, 'address.city': 1 })).toEqual({
+        _id: 1,
+        name: 'x',
+        address: { city: 'Berlin' },
+      });
+    });
+
+    it('should allow excluding _id from an inclusion', () => {
+      expect(applyProjection(doc, { name: 1, _id: 0 })).toEqual({ name: 'x' });
+    });
+
+    it('should exclude fields without mutating the source document', () => {
+      const result = applyProjection(doc, { 'address.zip': 0, tags: 0 });
+      expect(result).toEqual({ _id: 1, name: 'x', address: { city: 'Berlin' } });
+      expect(doc.address.zip).toBe('10115');
+    });
+  });
+
+  // ==================== parseArchivedDocument ====================
+
+  describe('parseArchivedDocument', () => {
+    it('should return numbers the way the driver does', () => {
+      const line = BSON.EJSON.stringify(
+        { n: 30, d: 2.5, small: Long.fromNumber(7), big: Long.fromString('9007199254740993'), at: new Date(0) },
+        { relaxed: false },
+      );
+
+      const doc = parseArchivedDocument(line);
+
+      expect(doc).toMatchObject({ n: 30, d: 2.5, small: 7, at: new Date(0) });
+      expect(doc.big).toEqual(Long.fromString('9007199254740993'));
+    });
+  });
+});
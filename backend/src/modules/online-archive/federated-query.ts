@@ -0,0 +1,140 @@
+import { BSON, Document, ObjectId } from 'mongodb';
+
+export interface DateBounds {
+  /** Inclusive lower bound (a `$gt` bound is widened to `$gte` for pruning) */
+  from?: Date;
+  /** Inclusive upper bound (a `$lt` bound is widened to `$lte` for pruning) */
+  to?: Date;
+}
+
+/**
+ * Derive the range of `field` a filter can match, looking at the field
+ * itself and at top-level `$and` clauses. Anything else (`$or`, `$expr`, ...)
+ * yields no bound, which simply means no partition can be pruned.
+ */
+export function extractDateBounds(filter: Record<string, any>, field: string): DateBounds {
+  const bounds: DateBounds = {};
+
+  const narrowFrom = (value: unknown) => {
+    if (value instanceof Date && (!bounds.from || value > bounds.from)) bounds.from = value;
+  };
+  const narrowTo = (value: unknown) => {
+    if (value instanceof Date && (!bounds.to || value < bounds.to)) bounds.to = value;
+  };
+
+  const condition = filter[field];
+  if (condition instanceof Date) {
+    narrowFrom(condition);
+    narrowTo(condition);
+  } else if (condition && typeof condition === 'object') {
+    narrowFrom(condition.$gte);
+    narrowFrom(condition.$gt);
+    narrowTo(condition.$lte);
+    narrowTo(condition.$lt);
+    narrowFrom(condition.$eq);
+    narrowTo(condition.$eq);
+  }
+
+  if (Array.isArray(filter.$and)) {
+    for (const clause of filter.$and) {
+      const nested = extractDateBounds(clause, field);
+      narrowFrom(nested.from);
+      narrowTo(nested.to);
+    }
+  }
+
+  return bounds;
+}
+
+/**
+ * Parse an archived line into the values the driver returns for the same
+ * document: Int32 and Double become numbers, Longs too when they fit.
+ */
+export function parseArchivedDocument(line: string): Document {
+  return BSON.deserialize(BSON.serialize(BSON.EJSON.parse(line, { relaxed: false }) as Document));
+}
+
+export function getFieldValue(doc: Document, fieldPath: string): unknown {
+  return fieldPath.split('.').reduce<any>((value, part) => (value == null ? undefined : value[part]), doc);
+}
+
+/** Approximation of the BSON comparison order for the types we archive. */
+function typeRank(value: unknown): number {
+  if (value === undefined || value === null) return 0;
+  if (typeof value === 'number' || typeof value === 'bigint') return 1;
+  if (typeof value === 'string') return 2;
+  if (value instanceof ObjectId) return 5;
+  if (typeof value === 'boolean') return 6;
+  if (value instanceof Date) return 7;
+  if (Array.isArray(value)) return 4;
+  return 3;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  if (rankA !== rankB) return rankA - rankB;
+
+  if (a instanceof ObjectId && b instanceof ObjectId) return a.toHexString().localeCompare(b.toHexString());
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return 0;
+}
+
+/** Build a comparator equivalent to a MongoDB sort specification. */
+export function compareBySort(sort: Record<string, 1 | -1>): (a: Document, b: Document) => number {
+  const keys = Object.entries(sort);
+  return (a, b) => {
+    for (const [field, direction] of keys) {
+      const result = compareValues(getFieldValue(a, field), getFieldValue(b, field));
+      if (result !== 0) return direction === -1 ? -result : result;
+    }
+    return 0;
+  };
+}
+
+/** Apply an inclusion or exclusion projection the way `find()` would. */
+export function applyProjection(doc: Document, projection: Record<string, 0 | 1>): Document {
+  const entries = Object.entries(projection);
+  if (entries.length === 0) return doc;
+
+  const inclusive = entries.some(([field, value]) => field !== '_id' && value === 1);
+
+  if (inclusive) {
+    const result: Document = {};
+    if (projection._id !== 0 && doc._id !== undefined) result._id = doc._id;
+
+    for (const [field, value] of entries) {
+      if (value !== 1 || field === '_id') continue;
+      const fieldValue = getFieldValue(doc, field);
+      if (fieldValue === undefined) continue;
+
+      const parts = field.split('.');
+      let target = result;
+      for (const part of parts.slice(0, -1)) {
+        target = target[part] = target[part] || {};
+      }
+      target[parts[parts.length - 1]] = fieldValue;
+    }
+    return result;
+  }
+
+  // Copy along each excluded path so the source document is left untouched
+  const result: Document = { ...doc };
+  for (const [field] of entries) {
+    const parts = field.split('.');
+    let target: Document | undefined = result;
+    for (const part of parts.slice(0, -1)) {
+      const next: unknown = target[part];
+      if (!next || typeof next !== 'object' || Array.isArray(next)) {
+        target = undefined;
+        break;
+      }
+      target = target[part] = { ...(next as Document) };
+    }
+    if (target) delete target[parts[parts.length - 1]];
+  }
+  return result;
+}
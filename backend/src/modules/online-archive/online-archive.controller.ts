@@ -11,13 +11,15 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { CurrentProjectAccess } from '../../common/decorators/project-access.decorator';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { OnlineArchiveService } from './online-archive.service';
 import { CreateArchiveRuleDto, UpdateArchiveRuleDto } from './dto/archive.dto';
 
 @ApiTags('Online Archive')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/archive')
 export class OnlineArchiveController {
   constructor(private readonly archiveService: OnlineArchiveService) {}
@@ -29,8 +31,8 @@ export class OnlineArchiveController {
     @Param('clusterId') clusterId: string,
     @Body() dto: CreateArchiveRuleDto,
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
   ) {
-    const orgId = user.userId;
     const rule = await this.archiveService.create(clusterId, projectId, orgId, user.userId, dto);
     return { success: true, data: rule };
   }
@@ -51,44 +53,48 @@ export class OnlineArchiveController {
 
   @Get('rules/:ruleId')
   @ApiOperation({ summary: 'Get archive rule details' })
-  async findOne(@Param('ruleId') ruleId: string) {
-    const rule = await this.archiveService.findById(ruleId);
+  async findOne(@Param('clusterId') clusterId: string, @Param('ruleId') ruleId: string) {
+    const rule = await this.archiveService.findById(clusterId, ruleId);
     if (!rule) throw new NotFoundException('Archive rule not found');
     return { success: true, data: rule };
   }
 
   @Patch('rules/:ruleId')
   @ApiOperation({ summary: 'Update archive rule' })
-  async update(@Param('ruleId') ruleId: string, @Body() dto: UpdateArchiveRuleDto) {
-    const rule = await this.archiveService.update(ruleId, dto);
+  async update(
+    @Param('clusterId') clusterId: string,
+    @Param('ruleId') ruleId: string,
+    @Body() dto: UpdateArchiveRuleDto,
+  ) {
+    const rule = await this.archiveService.update(clusterId, ruleId, dto);
     return { success: true, data: rule };
   }
 
   @Delete('rules/:ruleId')
   @ApiOperation({ summary: 'Delete archive rule' })
-  async delete(@Param('ruleId') ruleId: string) {
-    await this.archiveService.delete(ruleId);
+  async delete(@Param('clusterId') clusterId: string, @Param('ruleId') ruleId: string) {
+    await this.archiveService.delete(clusterId, ruleId);
     return { success: true, message: 'Archive rule deleted' };
   }
 
   @Post('rules/:ruleId/pause')
   @ApiOperation({ summary: 'Pause archive rule' })
-  async pause(@Param('ruleId') ruleId: string) {
-    const rule = await this.archiveService.pause(ruleId);
+  async pause(@Param('clusterId') clusterId: string, @Param('ruleId') ruleId: string) {
+    const rule = await this.archiveService.pause(clusterId, ruleId);
     return { success: true, data: rule };
   }
 
   @Post('rules/:ruleId/resume')
   @ApiOperation({ summary: 'Resume archive rule' })
-  async resume(@Param('ruleId') ruleId: string) {
-    const rule = await this.archiveService.resume(ruleId);
+  async resume(@Param('clusterId') clusterId: string, @Param('ruleId') ruleId: string) {
+    const rule = await this.archiveService.resume(clusterId, ruleId);
     return { success: true, data: rule };
   }
 
   @Post('rules/:ruleId/run')
   @ApiOperation({ summary: 'Run archive now' })
-  async runNow(@Param('ruleId') ruleId: string) {
-    const result = await this.archiveService.runNow(ruleId);
+  async runNow(@Param('clusterId') clusterId: string, @Param('ruleId') ruleId: string) {
+    const result = await this.archiveService.runNow(clusterId, ruleId);
     return { success: true, data: result, message: 'Archive completed' };
   }
 }
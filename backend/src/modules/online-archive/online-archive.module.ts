@@ -1,20 +1,26 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { OnlineArchiveController } from './online-archive.controller';
 import { OnlineArchiveService } from './online-archive.service';
+import { ArchiveStorageService } from './archive-storage.service';
+import { FederatedQueryService } from './federated-query.service';
 import { ArchiveRule, ArchiveRuleSchema } from './schemas/archive-rule.schema';
+import { ArchivePartition, ArchivePartitionSchema } from './schemas/archive-partition.schema';
 import { EventsModule } from '../events/events.module';
+import { DataExplorerModule } from '../data-explorer/data-explorer.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: ArchiveRule.name, schema: ArchiveRuleSchema },
+      { name: ArchivePartition.name, schema: ArchivePartitionSchema },
     ]),
     EventsModule,
+    forwardRef(() => DataExplorerModule),
   ],
   controllers: [OnlineArchiveController],
-  providers: [OnlineArchiveService],
-  exports: [OnlineArchiveService],
+  providers: [OnlineArchiveService, ArchiveStorageService, FederatedQueryService],
+  exports: [OnlineArchiveService, FederatedQueryService],
 })
 export class OnlineArchiveModule {}
 
@@ -0,0 +1,283 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { BSON, Document } from 'mongodb';
+import sift from 'sift';
+import { OnlineArchiveService } from './online-archive.service';
+import { ArchiveStorageService, ArchiveStore } from './archive-storage.service';
+import { ArchiveRule } from './schemas/archive-rule.schema';
+import { ArchivePartition } from './schemas/archive-partition.schema';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+import { EventsService } from '../events/events.service';
+
+describe('OnlineArchiveService', () => {
+  let service: OnlineArchiveService;
+  let storage: ArchiveStorageService;
+
+  const RULE_ID = new Types.ObjectId();
+  const CLUSTER_ID = new Types.ObjectId();
+  const OLD = new Date('2020-01-01T00:00:00Z');
+  const ejson = (value: unknown) => BSON.EJSON.stringify(value, { relaxed: false });
+
+  let sourceDocs: Document[];
+  let objects: Map<string, Buffer>;
+  let partitions: any[];
+
+  const store: ArchiveStore = {
+    kind: 'filesystem',
+    put: jest.fn(async (key: string, body: Buffer) => {
+      objects.set(key, body);
+    }),
+    get: jest.fn(async (key: string) => {
+      const body = objects.get(key);
+      if (!body) throw new Error(`ENOENT ${key}`);
+      return body;
+    }),
+    delete: jest.fn(async (key: string) => {
+      objects.delete(key);
+    }),
+  };
+
+  // In-memory stand-in for the cluster collection
+  const source = {
+    find: jest.fn((filter: Document) => {
+      const cursor = {
+        sort: () => cursor,
+        limit: () => cursor,
+        toArray: async () =>
+          sourceDocs.filter(sift(filter)).sort((a, b) => (a._id < b._id ? -1 : a._id > b._id ? 1 : 0)),
+      };
+      return cursor;
+    }),
+    deleteMany: jest.fn(async (filter: Document) => {
+      const before = sourceDocs.length;
+      sourceDocs = sourceDocs.filter((doc) => !sift(filter)(doc));
+      return { deletedCount: before - sourceDocs.length };
+    }),
+  };
+
+  const rule = (overrides: Record<string, any> = {}) => ({
+    _id: RULE_ID,
+    id: RULE_ID.toString(),
+    clusterId: CLUSTER_ID,
+    projectId: new Types.ObjectId(),
+    orgId: new Types.ObjectId(),
+    database: 'shop',
+    collection: 'orders',
+    dateField: 'createdAt',
+    archiveAfterDays: 30,
+    storageClass: 'standard',
+    compressionType: 'gzip',
+    schedule: '0 2 * * *',
+    ...overrides,
+  });
+
+  const partitionDoc = (fields: Record<string, any>) => {
+    const partition: any = {
+      ...fields,
+      save: jest.fn(async () => partition),
+      deleteOne: jest.fn(async () => {
+        partitions = partitions.filter((p) => p !== partition);
+      }),
+    };
+    partitions.push(partition);
+    return partition;
+  };
+
+  const mockRuleModel = {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  const mockPartitionModel = {
+    find: jest.fn((query: Document) => ({
+      sort: () => ({ exec: async () => partitions.filter((p) => query.status.$in.includes(p.status)) }),
+    })),
+    findOne: jest.fn(() => ({ sort: () => ({ exec: async () => null }) })),
+    create: jest.fn(async (fields: Record<string, any>) => partitionDoc(fields)),
+    aggregate: jest.fn(async () => []),
+  };
+
+  /** Documents in the stored object of a partition */
+  const readObject = (key: string) =>
+    storage
+      .decompress(objects.get(key)!, 'gzip')
+      .toString('utf8')
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => BSON.EJSON.parse(line, { relaxed: false }));
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OnlineArchiveService,
+        ArchiveStorageService,
+        { provide: getModelToken(ArchiveRule.name), useValue: mockRuleModel },
+        { provide: getModelToken(ArchivePartition.name), useValue: mockPartitionModel },
+        {
+          provide: DataExplorerService,
+          useValue: { getConnection: jest.fn(async () => ({ db: () => ({ collection: () => source }) })) },
+        },
+        { provide: ConfigService, useValue: { get: jest.fn((_key: string, fallback?: unknown) => fallback) } },
+        { provide: EventsService, useValue: { createEvent: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<OnlineArchiveService>(OnlineArchiveService);
+    storage = module.get<ArchiveStorageService>(ArchiveStorageService);
+
+    jest.clearAllMocks();
+    jest.spyOn(storage, 'getStore').mockReturnValue(store);
+    sourceDocs = [];
+    objects = new Map();
+    partitions = [];
+
+    mockRuleModel.findOne.mockReturnValue({ exec: async () => rule() });
+    mockRuleModel.findOneAndUpdate.mockImplementation(async () =>
+      rule({
+        currentRun: {
+          runId: 'run-2',
+          claimId: 'claim-1',
+          cutoff: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+          startedAt: new Date(),
+          heartbeatAt: new Date(),
+        },
+      }),
+    );
+    mockRuleModel.updateOne.mockResolvedValue({ matchedCount: 1 });
+  });
+
+  it('should copy old documents, delete them from the source and commit the partition', async () => {
+    sourceDocs = [
+      { _id: 'a', createdAt: OLD },
+      { _id: 'b', createdAt: new Date() },
+    ];
+
+    await service.runNow(CLUSTER_ID.toString(), RULE_ID.toString());
+
+    expect(sourceDocs.map((doc) => doc._id)).toEqual(['b']);
+    expect(partitions).toHaveLength(1);
+    expect(partitions[0]).toMatchObject({ status: 'committed', documentCount: 1, documentIds: undefined });
+    expect(readObject(partitions[0].key).map((doc) => doc._id)).toEqual(['a']);
+  });
+
+  it('should drop documents that changed between copy and delete from the partition', async () => {
+    sourceDocs = [
+      { _id: 'a', createdAt: OLD },
+      { _id: 'b', createdAt: OLD },
+    ];
+    source.deleteMany.mockImplementationOnce(async (filter: Document) => {
+      sourceDocs[1] = { _id: 'b', createdAt: new Date() };
+      const before = sourceDocs.length;
+      sourceDocs = sourceDocs.filter((doc) => !sift(filter)(doc));
+      return { deletedCount: before - sourceDocs.length };
+    });
+
+    await service.runNow(CLUSTER_ID.toString(), RULE_ID.toString());
+
+    expect(sourceDocs.map((doc) => doc._id)).toEqual(['b']);
+    expect(readObject(partitions[0].key).map((doc) => doc._id)).toEqual(['a']);
+    expect(partitions[0].documentCount).toBe(1);
+  });
+
+  it('should not run the rule of another cluster', async () => {
+    const otherCluster = new Types.ObjectId().toString();
+    mockRuleModel.findOne.mockReturnValue({ exec: async () => null });
+
+    await expect(service.runNow(otherCluster, RULE_ID.toString())).rejects.toThrow(NotFoundException);
+    expect(mockRuleModel.findOne).toHaveBeenCalledWith({
+      _id: RULE_ID.toString(),
+      clusterId: new Types.ObjectId(otherCluster),
+    });
+    expect(mockRuleModel.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  describe('recovery', () => {
+    const leftBehind = (status: string, archived: Document[], documentIds = archived.map((doc) => doc._id)) => {
+      const key = 'cluster/shop/orders/rule/run-1-000000.ndjson.gz';
+      const raw = Buffer.from(archived.map((doc) => ejson(doc) + '\n').join(''));
+      objects.set(key, storage.compress(raw, 'gzip'));
+      return partitionDoc({
+        ruleId: RULE_ID,
+        runId: 'run-1',
+        seq: 0,
+        key,
+        compressionType: 'gzip',
+        status,
+        cutoff: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+        documentCount: archived.length,
+        documentIds: documentIds.map(ejson),
+      });
+    };
+
+    it('should discard partitions whose upload never completed', async () => {
+      sourceDocs = [{ _id: 'a', createdAt: new Date() }];
+      const partition = leftBehind('writing', [{ _id: 'a', createdAt: OLD }]);
+
+      await service.runNow(CLUSTER_ID.toString(), RULE_ID.toString());
+
+      expect(objects.has(partition.key)).toBe(false);
+      expect(partitions).toHaveLength(0);
+      expect(sourceDocs).toHaveLength(1);
+    });
+
+    it('should complete the source delete of a copied partition', async () => {
+      sourceDocs = [{ _id: 'a', createdAt: OLD }];
+      const partition = leftBehind('copied', [{ _id: 'a', createdAt: OLD }]);
+
+      await service.runNow(CLUSTER_ID.toString(), RULE_ID.toString());
+
+      expect(sourceDocs).toHaveLength(0);
+      expect(partition.status).toBe('committed');
+      expect(readObject(partition.key).map((doc) => doc._id)).toEqual(['a']);
+    });
+
+    it('should not duplicate documents that changed when the crash came after the source delete', async () => {
+      // 'a' was deleted before the crash, 'b' had changed and stayed live
+      sourceDocs = [{ _id: 'b', createdAt: new Date() }];
+      const partition = leftBehind('copied', [
+        { _id: 'a', createdAt: OLD },
+        { _id: 'b', createdAt: OLD },
+      ]);
+
+      await service.runNow(CLUSTER_ID.toString(), RULE_ID.toString());
+
+      expect(sourceDocs.map((doc) => doc._id)).toEqual(['b']);
+      expect(readObject(partition.key).map((doc) => doc._id)).toEqual(['a']);
+      expect(partition).toMatchObject({ status: 'committed', documentCount: 1 });
+    });
+
+    it('should finish dropping changed documents from the object', async () => {
+      // Crash after the remaining ids were recorded but before the object was rewritten
+      sourceDocs = [{ _id: 'b', createdAt: new Date() }];
+      const partition = leftBehind(
+        'copied',
+        [
+          { _id: 'a', createdAt: OLD },
+          { _id: 'b', createdAt: OLD },
+        ],
+        ['a'],
+      );
+
+      await service.runNow(CLUSTER_ID.toString(), RULE_ID.toString());
+
+      expect(sourceDocs.map((doc) => doc._id)).toEqual(['b']);
+      expect(readObject(partition.key).map((doc) => doc._id)).toEqual(['a']);
+      expect(partition.status).toBe('committed');
+    });
+
+    it('should remove the object when no document was archived', async () => {
+      sourceDocs = [{ _id: 'a', createdAt: new Date() }];
+      const partition = leftBehind('copied', [{ _id: 'a', createdAt: OLD }]);
+
+      await service.runNow(CLUSTER_ID.toString(), RULE_ID.toString());
+
+      expect(sourceDocs).toHaveLength(1);
+      expect(objects.has(partition.key)).toBe(false);
+      expect(partition).toMatchObject({ status: 'committed', documentCount: 0 });
+    });
+  });
+});
@@ -1,10 +1,21 @@
-import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
 import { Model, Types } from 'mongoose';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { BSON, Collection, Document, Filter } from 'mongodb';
 import { ArchiveRule, ArchiveRuleDocument } from './schemas/archive-rule.schema';
+import { ArchivePartition, ArchivePartitionDocument } from './schemas/archive-partition.schema';
 import { CreateArchiveRuleDto, UpdateArchiveRuleDto } from './dto/archive.dto';
+import { ArchiveStorageService, ArchiveStore } from './archive-storage.service';
+import { getFieldValue } from './federated-query';
 import { EventsService } from '../events/events.service';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A run whose checkpoint has not moved for this long is considered abandoned. */
+const RUN_STALE_MS = 10 * 60 * 1000;
 
 @Injectable()
 export class OnlineArchiveService {
@@ -12,6 +23,10 @@ export class OnlineArchiveService {
 
   constructor(
     @InjectModel(ArchiveRule.name) private archiveRuleModel: Model<ArchiveRuleDocument>,
+    @InjectModel(ArchivePartition.name) private archivePartitionModel: Model<ArchivePartitionDocument>,
+    private archiveStorage: ArchiveStorageService,
+    private dataExplorerService: DataExplorerService,
+    private configService: ConfigService,
     private eventsService: EventsService,
   ) {}
 
@@ -34,6 +49,8 @@ export class OnlineArchiveService {
       throw new BadRequestException(`Archive rule already exists for ${dto.database}.${dto.collection}`);
     }
 
+    this.archiveStorage.assertCompressionSupported(dto.compressionType || 'gzip');
+
     const nextRun = this.calculateNextRun(dto.schedule || '0 2 * * *');
 
     const rule = new this.archiveRuleModel({
@@ -97,15 +114,24 @@ export class OnlineArchiveService {
       .exec();
   }
 
-  async findById(ruleId: string): Promise<ArchiveRule | null> {
-    return this.archiveRuleModel.findById(ruleId).exec();
+  /** Rules are addressed through their cluster's route, so other clusters' IDs are not found */
+  async findById(clusterId: string, ruleId: string): Promise<ArchiveRuleDocument | null> {
+    if (!Types.ObjectId.isValid(ruleId)) {
+      return null;
+    }
+    return this.archiveRuleModel.findOne({ _id: ruleId, clusterId: new Types.ObjectId(clusterId) }).exec();
   }
 
-  async update(ruleId: string, dto: UpdateArchiveRuleDto): Promise<ArchiveRule> {
-    const rule = await this.archiveRuleModel.findById(ruleId);
+  private async getRule(clusterId: string, ruleId: string): Promise<ArchiveRuleDocument> {
+    const rule = await this.findById(clusterId, ruleId);
     if (!rule) {
       throw new NotFoundException('Archive rule not found');
     }
+    return rule;
+  }
+
+  async update(clusterId: string, ruleId: string, dto: UpdateArchiveRuleDto): Promise<ArchiveRule> {
+    const rule = await this.getRule(clusterId, ruleId);
 
     if (dto.name) rule.name = dto.name;
     if (dto.archiveAfterDays) rule.archiveAfterDays = dto.archiveAfterDays;
@@ -120,11 +146,8 @@ export class OnlineArchiveService {
     return rule;
   }
 
-  async delete(ruleId: string): Promise<void> {
-    const rule = await this.archiveRuleModel.findById(ruleId);
-    if (!rule) {
-      throw new NotFoundException('Archive rule not found');
-    }
+  async delete(clusterId: string, ruleId: string): Promise<void> {
+    const rule = await this.getRule(clusterId, ruleId);
 
     rule.status = 'deleting';
     await rule.save();
@@ -133,22 +156,16 @@ export class OnlineArchiveService {
     await this.archiveRuleModel.findByIdAndDelete(ruleId);
   }
 
-  async pause(ruleId: string): Promise<ArchiveRule> {
-    const rule = await this.archiveRuleModel.findById(ruleId);
-    if (!rule) {
-      throw new NotFoundException('Archive rule not found');
-    }
+  async pause(clusterId: string, ruleId: string): Promise<ArchiveRule> {
+    const rule = await this.getRule(clusterId, ruleId);
 
     rule.status = 'paused';
     await rule.save();
     return rule;
   }
 
-  async resume(ruleId: string): Promise<ArchiveRule> {
-    const rule = await this.archiveRuleModel.findById(ruleId);
-    if (!rule) {
-      throw new NotFoundException('Archive rule not found');
-    }
+  async resume(clusterId: string, ruleId: string): Promise<ArchiveRule> {
+    const rule = await this.getRule(clusterId, ruleId);
 
     rule.status = 'active';
     rule.nextRunAt = this.calculateNextRun(rule.schedule);
@@ -156,22 +173,141 @@ export class OnlineArchiveService {
     return rule;
   }
 
-  async runNow(ruleId: string): Promise<{ documentsArchived: number; bytesArchived: number }> {
-    const rule = await this.archiveRuleModel.findById(ruleId);
-    if (!rule) {
-      throw new NotFoundException('Archive rule not found');
+  async runNow(clusterId: string, ruleId: string): Promise<{ documentsArchived: number; bytesArchived: number }> {
+    const rule = await this.claimRun(clusterId, ruleId);
+    const claimId = rule.currentRun!.claimId;
+
+    try {
+      return await this.executeRun(rule);
+    } catch (error: any) {
+      // Keep the checkpoint but release the claim so the next run resumes immediately
+      await this.archiveRuleModel.updateOne(
+        { _id: rule._id, 'currentRun.claimId': claimId },
+        { $set: { lastError: error.message, 'currentRun.heartbeatAt': new Date(0) } },
+      );
+      throw error;
     }
+  }
 
-    // Simulate archiving
-    const documentsArchived = Math.floor(Math.random() * 1000) + 100;
-    const bytesArchived = documentsArchived * (Math.floor(Math.random() * 500) + 200);
+  /**
+   * Start a new run or take over an abandoned one. The checkpoint lives on the
+   * rule so only one worker can move documents for it at a time.
+   */
+  private async claimRun(clusterId: string, ruleId: string): Promise<ArchiveRuleDocument> {
+    const rule = await this.getRule(clusterId, ruleId);
 
-    rule.lastRunAt = new Date();
-    rule.nextRunAt = this.calculateNextRun(rule.schedule);
-    rule.documentsArchived += documentsArchived;
-    rule.bytesArchived += bytesArchived;
-    rule.totalRuns += 1;
-    await rule.save();
+    this.archiveStorage.assertCompressionSupported(rule.compressionType);
+
+    const now = new Date();
+    let claimed: ArchiveRuleDocument | null;
+
+    if (rule.currentRun) {
+      if (new Date(rule.currentRun.heartbeatAt).getTime() > now.getTime() - RUN_STALE_MS) {
+        throw new ConflictException({
+          code: 'ARCHIVE_RUN_IN_PROGRESS',
+          message: `Archive run ${rule.currentRun.runId} is still in progress`,
+        });
+      }
+
+      this.logger.log(`Resuming archive run ${rule.currentRun.runId} for rule ${ruleId}`);
+      claimed = await this.archiveRuleModel.findOneAndUpdate(
+        {
+          _id: rule._id,
+          'currentRun.claimId': rule.currentRun.claimId,
+        },
+        { $set: { 'currentRun.claimId': new Types.ObjectId().toHexString(), 'currentRun.heartbeatAt': now } },
+        { new: true },
+      );
+    } else {
+      claimed = await this.archiveRuleModel.findOneAndUpdate(
+        { _id: rule._id, currentRun: null },
+        {
+          $set: {
+            currentRun: {
+              runId: new Types.ObjectId().toHexString(),
+              claimId: new Types.ObjectId().toHexString(),
+              cutoff: new Date(now.getTime() - rule.archiveAfterDays * DAY_MS),
+              startedAt: now,
+              heartbeatAt: now,
+            },
+          },
+        },
+        { new: true },
+      );
+    }
+
+    if (!claimed) {
+      throw new ConflictException({
+        code: 'ARCHIVE_RUN_IN_PROGRESS',
+        message: 'Another archive run was started for this rule',
+      });
+    }
+
+    return claimed;
+  }
+
+  private async executeRun(rule: ArchiveRuleDocument): Promise<{ documentsArchived: number; bytesArchived: number }> {
+    const run = rule.currentRun!;
+    const client = await this.dataExplorerService.getConnection(rule.clusterId.toString());
+    const source = client.db(rule.database).collection(rule.collection);
+    const store = this.archiveStorage.getStore(rule.storageClass);
+    const batchSize = Number(this.configService.get('ONLINE_ARCHIVE_BATCH_SIZE', 1000));
+
+    await this.recoverPartitions(rule, source, store);
+
+    const lastSeq = await this.archivePartitionModel
+      .findOne({ ruleId: rule._id, runId: run.runId })
+      .sort({ seq: -1 })
+      .exec();
+    let seq = lastSeq ? lastSeq.seq + 1 : 0;
+    let lastId = run.lastId ? BSON.EJSON.parse(run.lastId, { relaxed: false }) : undefined;
+
+    for (;;) {
+      const filter = this.buildArchiveFilter(rule, run.cutoff);
+      const docs = await source
+        .find(lastId !== undefined ? { $and: [filter, { _id: { $gt: lastId } }] } : filter)
+        .sort({ _id: 1 })
+        .limit(batchSize)
+        .toArray();
+
+      if (docs.length === 0) break;
+
+      await this.archiveBatch(rule, source, store, seq++, docs);
+      lastId = docs[docs.length - 1]._id;
+
+      const checkpoint = await this.archiveRuleModel.updateOne(
+        { _id: rule._id, 'currentRun.claimId': run.claimId },
+        {
+          $set: {
+            'currentRun.lastId': BSON.EJSON.stringify(lastId, { relaxed: false }),
+            'currentRun.heartbeatAt': new Date(),
+          },
+        },
+      );
+      if (checkpoint.matchedCount === 0) {
+        throw new ConflictException({
+          code: 'ARCHIVE_RUN_IN_PROGRESS',
+          message: `Archive run ${run.runId} was taken over by another worker`,
+        });
+      }
+    }
+
+    // Totals come from committed partitions so a resumed run counts every batch exactly once
+    const [totals] = await this.archivePartitionModel.aggregate([
+      { $match: { ruleId: rule._id, runId: run.runId, status: 'committed' } },
+      { $group: { _id: null, documents: { $sum: '$documentCount' }, bytes: { $sum: '$bytes' } } },
+    ]);
+    const documentsArchived = totals?.documents || 0;
+    const bytesArchived = totals?.bytes || 0;
+
+    await this.archiveRuleModel.updateOne(
+      { _id: rule._id, 'currentRun.claimId': run.claimId },
+      {
+        $set: { lastRunAt: new Date(), nextRunAt: this.calculateNextRun(rule.schedule) },
+        $inc: { documentsArchived, bytesArchived, totalRuns: 1 },
+        $unset: { currentRun: 1, lastError: 1 },
+      },
+    );
 
     await this.eventsService.createEvent({
       orgId: rule.orgId.toString(),
@@ -180,12 +316,213 @@ export class OnlineArchiveService {
       type: 'CLUSTER_UPDATED',
       severity: 'info',
       message: `Archived ${documentsArchived} documents from ${rule.database}.${rule.collection}`,
-      metadata: { archiveRuleId: rule.id, documentsArchived, bytesArchived },
+      metadata: { archiveRuleId: rule.id, runId: run.runId, documentsArchived, bytesArchived },
     });
 
+    this.logger.log(`Archive run ${run.runId} for rule ${rule.id} moved ${documentsArchived} documents`);
     return { documentsArchived, bytesArchived };
   }
 
+  /**
+   * Copy one batch to the archive store, verify it and only then delete it
+   * from the source. The partition status records how far we got.
+   */
+  private async archiveBatch(
+    rule: ArchiveRuleDocument,
+    source: Collection,
+    store: ArchiveStore,
+    seq: number,
+    docs: Document[],
+  ): Promise<void> {
+    const run = rule.currentRun!;
+    const key = [
+      rule.clusterId.toString(),
+      rule.database,
+      rule.collection,
+      rule.id,
+      `${run.runId}-${String(seq).padStart(6, '0')}${this.archiveStorage.fileExtension(rule.compressionType)}`,
+    ].join('/');
+
+    const dates = docs
+      .map((doc) => getFieldValue(doc, rule.dateField))
+      .filter((value): value is Date => value instanceof Date)
+      .map((value) => value.getTime());
+
+    const partition = await this.archivePartitionModel.create({
+      ruleId: rule._id,
+      clusterId: rule.clusterId,
+      runId: run.runId,
+      seq,
+      database: rule.database,
+      collection: rule.collection,
+      key,
+      storageClass: rule.storageClass,
+      compressionType: rule.compressionType,
+      status: 'writing',
+      cutoff: run.cutoff,
+      minDate: dates.length ? new Date(Math.min(...dates)) : undefined,
+      maxDate: dates.length ? new Date(Math.max(...dates)) : undefined,
+      documentIds: docs.map((doc) => BSON.EJSON.stringify(doc._id, { relaxed: false })),
+    });
+
+    await this.writePartition(rule, store, partition, docs);
+
+    partition.status = 'copied';
+    await partition.save();
+
+    await this.deleteFromSource(rule, source, store, partition, docs);
+    await this.commitPartition(partition);
+  }
+
+  /**
+   * Delete the partition's documents from the source, by _id and only while
+   * they still match the rule. Safe to repeat after a crash: documents
+   * already gone are skipped, and ones that changed are dropped from the
+   * partition either way.
+   */
+  private async deleteFromSource(
+    rule: ArchiveRuleDocument,
+    source: Collection,
+    store: ArchiveStore,
+    partition: ArchivePartitionDocument,
+    docs: Document[],
+  ): Promise<void> {
+    const { deletedCount } = await source.deleteMany({
+      $and: [this.buildArchiveFilter(rule, partition.cutoff), { _id: { $in: docs.map((doc) => doc._id) } }],
+    });
+
+    if (deletedCount !== docs.length) {
+      await this.reconcilePartition(rule, source, store, partition, docs);
+    }
+  }
+
+  private async writePartition(
+    rule: ArchiveRuleDocument,
+    store: ArchiveStore,
+    partition: ArchivePartitionDocument,
+    docs: Document[],
+  ): Promise<void> {
+    const raw = Buffer.from(docs.map((doc) => BSON.EJSON.stringify(doc, { relaxed: false }) + '\n').join(''));
+    const body = this.archiveStorage.compress(raw, rule.compressionType);
+
+    await store.put(partition.key, body);
+
+    // Read the object back before anything is deleted from the source
+    const stored = this.archiveStorage.decompress(await store.get(partition.key), rule.compressionType);
+    const storedCount = stored.toString('utf8').split('\n').filter((line) => line.length > 0).length;
+    if (storedCount !== docs.length || stored.length !== raw.length) {
+      throw new Error(
+        `Verification of archive partition ${partition.key} failed: expected ${docs.length} documents, found ${storedCount}`,
+      );
+    }
+
+    partition.documentCount = docs.length;
+    partition.bytes = raw.length;
+    partition.storedBytes = body.length;
+  }
+
+  /**
+   * Documents that changed between copy and delete no longer match the rule
+   * and stay live, so drop them from the partition to avoid duplicates.
+   */
+  private async reconcilePartition(
+    rule: ArchiveRuleDocument,
+    source: Collection,
+    store: ArchiveStore,
+    partition: ArchivePartitionDocument,
+    docs: Document[],
+  ): Promise<void> {
+    const remaining = await source
+      .find({ _id: { $in: docs.map((doc) => doc._id) } }, { projection: { _id: 1 } })
+      .toArray();
+    if (remaining.length === 0) return;
+
+    const remainingIds = new Set(remaining.map((doc) => BSON.EJSON.stringify(doc._id, { relaxed: false })));
+    const archived = docs.filter((doc) => !remainingIds.has(BSON.EJSON.stringify(doc._id, { relaxed: false })));
+
+    this.logger.warn(
+      `${remaining.length} documents in partition ${partition.key} changed during the run and remain in the source`,
+    );
+
+    // Record the remaining set before the object changes, so recovery never
+    // deletes or keeps documents that were dropped here
+    partition.documentIds = archived.map((doc) => BSON.EJSON.stringify(doc._id, { relaxed: false }));
+    await partition.save();
+
+    if (archived.length === 0) {
+      await store.delete(partition.key);
+      partition.documentCount = 0;
+      partition.bytes = 0;
+      partition.storedBytes = 0;
+    } else {
+      await this.writePartition(rule, store, partition, archived);
+    }
+  }
+
+  private async readPartition(store: ArchiveStore, partition: ArchivePartitionDocument): Promise<Document[]> {
+    const data = this.archiveStorage.decompress(await store.get(partition.key), partition.compressionType);
+    return data
+      .toString('utf8')
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => BSON.EJSON.parse(line, { relaxed: false }) as Document);
+  }
+
+  private async commitPartition(partition: ArchivePartitionDocument): Promise<void> {
+    partition.status = 'committed';
+    partition.committedAt = new Date();
+    partition.documentIds = undefined;
+    await partition.save();
+  }
+
+  /**
+   * Finish partitions an earlier, interrupted run left behind: uploads that
+   * never completed are discarded, verified copies get their source delete.
+   */
+  private async recoverPartitions(
+    rule: ArchiveRuleDocument,
+    source: Collection,
+    store: ArchiveStore,
+  ): Promise<void> {
+    const pending = await this.archivePartitionModel
+      .find({ ruleId: rule._id, status: { $in: ['writing', 'copied'] } })
+      .sort({ seq: 1 })
+      .exec();
+
+    for (const partition of pending) {
+      if (partition.status === 'writing') {
+        this.logger.warn(`Discarding incomplete archive partition ${partition.key}`);
+        await store.delete(partition.key);
+        await partition.deleteOne();
+        continue;
+      }
+
+      this.logger.warn(`Completing source delete for archive partition ${partition.key}`);
+      const ids = new Set(partition.documentIds || []);
+      const stored = ids.size > 0 ? await this.readPartition(store, partition) : [];
+      const docs = stored.filter((doc) => ids.has(BSON.EJSON.stringify(doc._id, { relaxed: false })));
+
+      if (docs.length === 0) {
+        await store.delete(partition.key);
+        partition.documentCount = 0;
+        partition.bytes = 0;
+        partition.storedBytes = 0;
+      } else {
+        // Interrupted while dropping changed documents from the object
+        if (docs.length !== stored.length) {
+          await this.writePartition(rule, store, partition, docs);
+        }
+        await this.deleteFromSource(rule, source, store, partition, docs);
+      }
+      await this.commitPartition(partition);
+    }
+  }
+
+  private buildArchiveFilter(rule: ArchiveRule, cutoff: Date): Filter<Document> {
+    const filter: Filter<Document> = { [rule.dateField]: { $lt: new Date(cutoff) } };
+    return rule.criteria?.query ? { $and: [rule.criteria.query, filter] } : filter;
+  }
+
   async getStats(clusterId: string): Promise<{
     totalRules: number;
     activeRules: number;
@@ -230,11 +567,14 @@ export class OnlineArchiveService {
 
     for (const rule of rulesToRun) {
       try {
-        await this.runNow(rule.id);
+        await this.runNow(rule.clusterId.toString(), rule.id);
         this.logger.log(`Processed archive rule ${rule.id}`);
       } catch (error) {
-        rule.lastError = error.message;
-        await rule.save();
+        if (error instanceof ConflictException) {
+          this.logger.debug(`Archive rule ${rule.id} is already running`);
+          continue;
+        }
+        await this.archiveRuleModel.updateOne({ _id: rule._id }, { $set: { lastError: error.message } });
         this.logger.error(`Failed to process archive rule ${rule.id}: ${error.message}`);
       }
     }
@@ -0,0 +1,103 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ArchivePartitionDocument = ArchivePartition & Document;
+
+/**
+ * writing   - object is being uploaded, source untouched
+ * copied    - object uploaded and verified, source documents not yet deleted
+ * committed - source documents deleted, partition is the only copy
+ */
+export type ArchivePartitionStatus = 'writing' | 'copied' | 'committed';
+
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_: any, ret: any) => {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      delete ret.documentIds;
+      return ret;
+    },
+  },
+})
+export class ArchivePartition {
+  id: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'ArchiveRule', required: true })
+  ruleId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Cluster', required: true })
+  clusterId: Types.ObjectId;
+
+  @Prop({ required: true })
+  runId: string;
+
+  @Prop({ required: true })
+  seq: number;
+
+  @Prop({ required: true })
+  database: string;
+
+  @Prop({ required: true })
+  collection: string;
+
+  // Object key within the archive store
+  @Prop({ required: true })
+  key: string;
+
+  @Prop({ required: true })
+  storageClass: 'standard' | 'cold';
+
+  @Prop({ required: true })
+  compressionType: 'gzip' | 'snappy' | 'zstd' | 'none';
+
+  @Prop({
+    required: true,
+    enum: ['writing', 'copied', 'committed'],
+    default: 'writing',
+  })
+  status: ArchivePartitionStatus;
+
+  @Prop({ default: 0 })
+  documentCount: number;
+
+  // Uncompressed size of the archived documents
+  @Prop({ default: 0 })
+  bytes: number;
+
+  // Size of the stored object
+  @Prop({ default: 0 })
+  storedBytes: number;
+
+  // Age cutoff of the run, re-applied when a pending source delete is resumed
+  @Prop({ required: true })
+  cutoff: Date;
+
+  // Range of the rule's dateField within this partition
+  @Prop()
+  minDate?: Date;
+
+  @Prop()
+  maxDate?: Date;
+
+  // Extended JSON of the archived _ids, kept until the source delete is committed
+  @Prop({ type: [String] })
+  documentIds?: string[];
+
+  @Prop()
+  committedAt?: Date;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const ArchivePartitionSchema = SchemaFactory.createForClass(ArchivePartition);
+
+ArchivePartitionSchema.index({ ruleId: 1, status: 1, seq: 1 });
+ArchivePartitionSchema.index({ clusterId: 1, database: 1, collection: 1, minDate: 1, maxDate: 1 });
@@ -92,6 +92,17 @@ export class ArchiveRule {
   @Prop()
   lastError?: string;
 
+  // Checkpoint of the run in progress; cleared when the run completes
+  @Prop({ type: Object })
+  currentRun?: {
+    runId: string;
+    claimId: string; // Changes whenever a worker takes over the run
+    cutoff: Date;
+    startedAt: Date;
+    heartbeatAt: Date;
+    lastId?: string; // Extended JSON of the last archived _id
+  };
+
   @Prop({ type: Types.ObjectId, ref: 'User' })
   createdBy?: Types.ObjectId;
 
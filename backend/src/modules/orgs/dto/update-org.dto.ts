@@ -1,4 +1,4 @@
-import { IsString, MinLength, MaxLength, IsOptional } from 'class-validator';
+import { IsString, MinLength, MaxLength, IsOptional, IsBoolean } from 'class-validator';
 import { ApiPropertyOptional } from '@nestjs/swagger';
 
 export class UpdateOrgDto {
@@ -8,9 +8,9 @@ export class UpdateOrgDto {
   @MinLength(2, { message: 'Organization name must be at least 2 characters' })
   @MaxLength(50, { message: 'Organization name must be at most 50 characters' })
   name?: string;
-}
-
-
-
-
 
+  @ApiPropertyOptional({ description: 'Require members to use multi-factor authentication' })
+  @IsOptional()
+  @IsBoolean()
+  requireMfa?: boolean;
+}
@@ -100,7 +100,23 @@ export class OrgsController {
     @Body() updateOrgDto: UpdateOrgDto,
   ) {
     await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
-    const org = await this.orgsService.update(orgId, updateOrgDto);
+    const previous = await this.orgsService.findById(orgId);
+    const org = await this.orgsService.update(orgId, updateOrgDto, user.userId);
+
+    if (updateOrgDto.requireMfa !== undefined && updateOrgDto.requireMfa !== previous?.requireMfa) {
+      await this.auditService.safeLog({
+        orgId,
+        action: 'SETTINGS_CHANGED',
+        resourceType: 'organization',
+        resourceId: orgId,
+        resourceName: org.name,
+        ...auditActor(user),
+        previousState: { requireMfa: previous?.requireMfa ?? false },
+        newState: { requireMfa: updateOrgDto.requireMfa },
+        description: `${updateOrgDto.requireMfa ? 'Enabled' : 'Disabled'} required multi-factor authentication`,
+      });
+    }
+
     return {
       success: true,
       data: org,
@@ -5,12 +5,15 @@ import {
   ConflictException,
   Logger,
   BadRequestException,
+  Inject,
+  forwardRef,
 } from '@nestjs/common';
 import { InjectModel, InjectConnection } from '@nestjs/mongoose';
-import { Model, Connection } from 'mongoose';
+import { Model, Connection, Types } from 'mongoose';
 import { Organization, OrganizationDocument } from './schemas/org.schema';
 import { OrgMember, OrgMemberDocument, OrgRole } from './schemas/org-member.schema';
 import { CreateOrgDto } from './dto/create-org.dto';
+import { UsersService } from '../users/users.service';
 
 @Injectable()
 export class OrgsService {
@@ -20,6 +23,8 @@ export class OrgsService {
     @InjectModel(Organization.name) private orgModel: Model<OrganizationDocument>,
     @InjectModel(OrgMember.name) private memberModel: Model<OrgMemberDocument>,
     @InjectConnection() private connection: Connection,
+    @Inject(forwardRef(() => UsersService))
+    private usersService: UsersService,
   ) {}
 
   async create(userId: string, createOrgDto: CreateOrgDto): Promise<Organization> {
@@ -86,6 +91,8 @@ export class OrgsService {
       });
     }
 
+    await this.assertMfaCompliance(orgId, userId);
+
     if (requiredRoles.length > 0 && !this.hasRequiredRole(role, requiredRoles)) {
       throw new ForbiddenException({
         code: 'INSUFFICIENT_PERMISSIONS',
@@ -96,10 +103,38 @@ export class OrgsService {
     return role;
   }
 
+  /**
+   * Organizations that require MFA refuse members without a second factor.
+   * Signing in with MFA is mandatory once enrolled, so enrollment is what
+   * gets checked here.
+   */
+  async assertMfaCompliance(orgId: string, userId: string): Promise<void> {
+    const org = await this.orgModel.findById(orgId, { requireMfa: 1 }).lean().exec();
+    if (!org?.requireMfa) {
+      return;
+    }
+
+    const user = await this.usersService.findById(userId);
+    if (!user?.mfaEnabled) {
+      throw new ForbiddenException({
+        code: 'MFA_REQUIRED',
+        message: 'This organization requires multi-factor authentication. Enable it in your account security settings.',
+      });
+    }
+  }
+
+  /** Organizations of the user that require MFA */
+  async findRequiringMfa(userId: string): Promise<Organization[]> {
+    const memberships = await this.memberModel.find({ userId }).exec();
+    return this.orgModel
+      .find({ _id: { $in: memberships.map((m) => m.orgId) }, requireMfa: true })
+      .exec();
+  }
+
   async getMembers(orgId: string): Promise<OrgMember[]> {
     return this.memberModel
       .find({ orgId })
-      .populate('userId', 'name email')
+      .populate('userId', 'name email mfaEnabled')
       .exec();
   }
 
@@ -168,12 +203,30 @@ export class OrgsService {
     }
 
     await this.memberModel.deleteOne({ orgId, userId }).exec();
+
+    // Project role bindings only make sense for org members
+    await this.connection.collection('projectrolebindings').deleteMany({
+      orgId: new Types.ObjectId(orgId),
+      userId: new Types.ObjectId(userId),
+    });
   }
 
   async update(
     orgId: string,
-    data: { name?: string },
+    data: { name?: string; requireMfa?: boolean },
+    actorUserId?: string,
   ): Promise<OrganizationDocument> {
+    // Nobody may enforce MFA without having it, or they would lock themselves out
+    if (data.requireMfa && actorUserId) {
+      const actor = await this.usersService.findById(actorUserId);
+      if (!actor?.mfaEnabled) {
+        throw new BadRequestException({
+          code: 'MFA_NOT_ENABLED',
+          message: 'Enable multi-factor authentication for your own account before requiring it',
+        });
+      }
+    }
+
     const updateData: any = { ...data };
     if (data.name) {
       updateData.slug = this.generateSlug(data.name);
@@ -223,6 +276,8 @@ export class OrgsService {
     // Collections that reference orgId directly
     const orgIdCollections = [
       'orgmembers',
+      'projectrolebindings',
+      'embeddingproviders',
       'projects',
       'clusters',
       'invitations',
@@ -233,6 +288,8 @@ export class OrgsService {
       'billingaccounts',
       'invoices',
       'usagerecords',
+      'billing_runs',
+      'budgets',
       'ssoconfigs',
       'events',
       'auditlogs',
@@ -263,6 +320,10 @@ export class OrgsService {
       'metrics',
       'slowqueries',
       'indexsuggestions',
+      'queryshapestats',
+      'queryregressions',
+      'piimaps',
+      'piiscans',
       'maintenancewindows',
       'logforwardings',
       'archiverules',
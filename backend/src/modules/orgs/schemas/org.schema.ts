@@ -27,6 +27,10 @@ export class Organization {
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
   ownerId: Types.ObjectId;
 
+  /** Members must have a second factor enrolled to access the organization */
+  @Prop({ default: false })
+  requireMfa: boolean;
+
   @Prop()
   createdAt: Date;
 
@@ -121,7 +121,35 @@ export class ProfilerSettingsDto {
   sampleRate?: number;
 }
 
+export class QueryShapesQueryDto {
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  database?: string;
 
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  collection?: string;
 
+  @ApiProperty({ required: false, default: 7, maximum: 30, description: 'Number of days to aggregate' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(30)
+  days?: number;
 
+  @ApiProperty({ required: false, enum: ['totalTime', 'count', 'maxTime'], default: 'totalTime' })
+  @IsOptional()
+  @IsEnum(['totalTime', 'count', 'maxTime'])
+  sortBy?: 'totalTime' | 'count' | 'maxTime';
 
+  @ApiProperty({ required: false, default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
@@ -0,0 +1,191 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import { Collection } from 'mongodb';
+import { IndexSuggestion, IndexSuggestionDocument, ImpactLevel } from './schemas/index-suggestion.schema';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+import { ClustersService } from '../clusters/clusters.service';
+import { ClusterSettingsService } from '../cluster-settings/cluster-settings.service';
+import { DropCandidate, findDropCandidates, IndexUsageInput } from './index-usage';
+import { SYSTEM_DATABASES } from './profiler-entries';
+
+const DEFAULT_UNUSED_INDEX_DAYS = 30;
+const MB = 1024 * 1024;
+
+/**
+ * Reads index usage and sizes from each cluster and suggests dropping
+ * unused and prefix-redundant indexes.
+ */
+@Injectable()
+export class IndexUsageService {
+  private readonly logger = new Logger(IndexUsageService.name);
+  private isAnalyzing = false;
+
+  constructor(
+    @InjectModel(IndexSuggestion.name) private indexSuggestionModel: Model<IndexSuggestionDocument>,
+    private readonly configService: ConfigService,
+    private readonly dataExplorerService: DataExplorerService,
+    private readonly clustersService: ClustersService,
+    private readonly clusterSettingsService: ClusterSettingsService,
+  ) {}
+
+  @Interval(6 * 60 * 60 * 1000) // Every 6 hours
+  async analyzeAllClusters(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test' || this.isAnalyzing) {
+      return;
+    }
+
+    this.isAnalyzing = true;
+    try {
+      const clusters = await this.clustersService.findAll();
+      for (const cluster of clusters.filter((c) => c.status === 'ready')) {
+        try {
+          await this.analyzeCluster(cluster._id.toString(), cluster.orgId.toString());
+        } catch (error: any) {
+          this.logger.warn(`Could not analyze index usage for cluster ${cluster._id}: ${error.message}`);
+        }
+      }
+    } catch (error: any) {
+      this.logger.error(`Index usage analysis failed: ${error.message}`);
+    } finally {
+      this.isAnalyzing = false;
+    }
+  }
+
+  /**
+   * Refresh the cluster's drop suggestions. Pending suggestions for indexes
+   * that are used again, or no longer exist, expire. Returns the number of
+   * indexes currently suggested for dropping.
+   */
+  async analyzeCluster(clusterId: string, orgId: string): Promise<number> {
+    const settings = await this.clusterSettingsService.get(clusterId);
+    const unusedDays = settings?.unusedIndexDays ?? DEFAULT_UNUSED_INDEX_DAYS;
+    const client = await this.dataExplorerService.getConnection(clusterId);
+    const clusterObjectId = new Types.ObjectId(clusterId);
+
+    const dismissed = new Set(
+      (await this.indexSuggestionModel
+        .find({ clusterId: clusterObjectId, type: 'drop', status: 'dismissed' }, { database: 1, collection: 1, suggestedIndexName: 1 })
+        .lean()
+        .exec()
+      ).map((s) => `${s.database}.${s.collection}.${s.suggestedIndexName}`),
+    );
+
+    const { databases } = await client.db('admin').admin().listDatabases({ nameOnly: true });
+    let flagged = 0;
+
+    for (const { name: database } of databases) {
+      if (SYSTEM_DATABASES.includes(database)) continue;
+
+      const collections = await client.db(database).listCollections({ type: 'collection' }, { nameOnly: true }).toArray();
+      for (const { name: collection } of collections) {
+        if (collection.startsWith('system.')) continue;
+
+        let candidates: DropCandidate[];
+        try {
+          candidates = findDropCandidates(await this.readIndexUsage(client.db(database).collection(collection)), unusedDays);
+        } catch (error: any) {
+          // Leave this namespace's suggestions as they are until the next run
+          this.logger.warn(`Could not read index usage of ${database}.${collection} on cluster ${clusterId}: ${error.message}`);
+          continue;
+        }
+
+        const current = candidates.filter((c) => !dismissed.has(`${database}.${collection}.${c.name}`));
+        for (const candidate of current) {
+          await this.upsertDropSuggestion(clusterObjectId, new Types.ObjectId(orgId), database, collection, candidate);
+        }
+        flagged += current.length;
+
+        await this.indexSuggestionModel.updateMany(
+          {
+            clusterId: clusterObjectId,
+            database,
+            collection,
+            type: 'drop',
+            status: 'pending',
+            suggestedIndexName: { $nin: current.map((c) => c.name) },
+          },
+          { $set: { status: 'expired' } },
+        ).exec();
+      }
+    }
+
+    this.logger.log(`Index usage analyzed for cluster ${clusterId}: ${flagged} index(es) could be dropped`);
+    return flagged;
+  }
+
+  private async readIndexUsage(collection: Collection): Promise<IndexUsageInput[]> {
+    const [indexes, usage, storage] = await Promise.all([
+      collection.indexes(),
+      collection.aggregate([{ $indexStats: {} }]).toArray(),
+      collection.aggregate([{ $collStats: { storageStats: {} } }]).toArray(),
+    ]);
+
+    const usageByName = new Map(usage.map((stat: any) => [stat.name, stat.accesses]));
+    const indexSizes: Record<string, number> = storage[0]?.storageStats?.indexSizes ?? {};
+
+    return indexes.map((index: any) => {
+      const { name, key } = index;
+      const options = { ...index };
+      delete options.name;
+      delete options.key;
+      delete options.v;
+
+      const accesses = usageByName.get(name);
+      return {
+        name,
+        key,
+        options,
+        accessOps: accesses ? Number(accesses.ops) : undefined,
+        accessSince: accesses?.since,
+        sizeBytes: indexSizes[name] ?? 0,
+      };
+    });
+  }
+
+  private async upsertDropSuggestion(
+    clusterId: Types.ObjectId,
+    orgId: Types.ObjectId,
+    database: string,
+    collection: string,
+    candidate: DropCandidate,
+  ): Promise<void> {
+    const reason = candidate.reason === 'redundant'
+      ? `Index is a prefix of ${candidate.coveredBy}, which serves the same queries`
+      : `Index has not been used since ${candidate.accessSince?.toISOString().slice(0, 10)}`;
+
+    await this.indexSuggestionModel.findOneAndUpdate(
+      {
+        clusterId,
+        database,
+        collection,
+        type: 'drop',
+        suggestedIndexName: candidate.name,
+        status: { $in: ['pending', 'hidden'] },
+      },
+      {
+        $set: {
+          suggestedIndex: candidate.key,
+          dropReason: candidate.reason,
+          estimatedBytes: candidate.sizeBytes,
+          accessOps: candidate.accessOps,
+          accessSince: candidate.accessSince,
+          impact: this.dropImpact(candidate.sizeBytes),
+          reason,
+          ...(candidate.coveredBy ? { coveredBy: candidate.coveredBy } : {}),
+        },
+        ...(candidate.coveredBy ? {} : { $unset: { coveredBy: 1 } }),
+        $setOnInsert: { orgId, status: 'pending' },
+      },
+      { upsert: true },
+    ).exec();
+  }
+
+  private dropImpact(sizeBytes: number): ImpactLevel {
+    if (sizeBytes > 1024 * MB) return 'high';
+    if (sizeBytes > 100 * MB) return 'medium';
+    return 'low';
+  }
+}
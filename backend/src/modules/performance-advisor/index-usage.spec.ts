@@ -0,0 +1,98 @@
+import { findDropCandidates, IndexUsageInput, isKeyPrefix, isProtectedIndex } from './index-usage';
+
+describe('index-usage', () => {
+  const NOW = new Date('2026-03-01T00:00:00Z');
+  const LONG_AGO = new Date('2026-01-01T00:00:00Z');
+
+  const index = (name: string, key: Record<string, any>, overrides: Partial<IndexUsageInput> = {}): IndexUsageInput => ({
+    name,
+    key,
+    options: {},
+    accessOps: 10,
+    accessSince: LONG_AGO,
+    sizeBytes: 4096,
+    ...overrides,
+  });
+
+  describe('isKeyPrefix', () => {
+    it('should match leading fields with the same or all-flipped directions', () => {
+      expect(isKeyPrefix({ a: 1 }, { a: 1, b: 1 })).toBe(true);
+      expect(isKeyPrefix({ a: 1, b: -1 }, { a: -1, b: 1, c: 1 })).toBe(true);
+      expect(isKeyPrefix({ a: 1, b: 1 }, { a: 1, b: -1 })).toBe(false);
+      expect(isKeyPrefix({ b: 1 }, { a: 1, b: 1 })).toBe(false);
+      expect(isKeyPrefix({ a: 1, b: 1 }, { a: 1 })).toBe(false);
+    });
+  });
+
+  it('should protect _id, unique, TTL, partial and sparse indexes', () => {
+    expect(isProtectedIndex({ name: '_id_', options: {} })).toBe(true);
+    expect(isProtectedIndex({ name: 'email_1', options: { unique: true } })).toBe(true);
+    expect(isProtectedIndex({ name: 'createdAt_1', options: { expireAfterSeconds: 3600 } })).toBe(true);
+    expect(isProtectedIndex({ name: 'status_1', options: { partialFilterExpression: { status: 'open' } } })).toBe(true);
+    expect(isProtectedIndex({ name: 'status_1', options: { unique: false } })).toBe(false);
+  });
+
+  describe('findDropCandidates', () => {
+    it('should flag indexes without access over the whole period', () => {
+      const candidates = findDropCandidates(
+        [
+          index('_id_', { _id: 1 }, { accessOps: 0 }),
+          index('status_1', { status: 1 }, { accessOps: 0, sizeBytes: 1_000_000 }),
+          index('userId_1', { userId: 1 }),
+        ],
+        30,
+        NOW,
+      );
+
+      expect(candidates).toEqual([
+        { name: 'status_1', key: { status: 1 }, reason: 'unused', accessOps: 0, accessSince: LONG_AGO, sizeBytes: 1_000_000 },
+      ]);
+    });
+
+    it('should not call an index unused when its counters started recently', () => {
+      const restarted = new Date('2026-02-20T00:00:00Z');
+
+      expect(findDropCandidates([index('status_1', { status: 1 }, { accessOps: 0, accessSince: restarted })], 30, NOW)).toEqual([]);
+    });
+
+    it('should flag prefix-redundant indexes even when used', () => {
+      const candidates = findDropCandidates(
+        [index('userId_1', { userId: 1 }), index('userId_1_createdAt_-1', { userId: 1, createdAt: -1 })],
+        30,
+        NOW,
+      );
+
+      expect(candidates).toHaveLength(1);
+      expect(candidates[0]).toMatchObject({ name: 'userId_1', reason: 'redundant', coveredBy: 'userId_1_createdAt_-1' });
+    });
+
+    it('should not count partial, hidden or differently collated indexes as covering', () => {
+      const candidates = findDropCandidates(
+        [
+          index('userId_1', { userId: 1 }),
+          index('userId_1_a_1', { userId: 1, a: 1 }, { options: { partialFilterExpression: { a: { $exists: true } } } }),
+          index('userId_1_b_1', { userId: 1, b: 1 }, { options: { hidden: true } }),
+          index('userId_1_c_1', { userId: 1, c: 1 }, { options: { collation: { locale: 'fr' } } }),
+        ],
+        30,
+        NOW,
+      );
+
+      expect(candidates).toEqual([]);
+    });
+
+    it('should skip special index types and already hidden indexes', () => {
+      const candidates = findDropCandidates(
+        [
+          index('title_text', { _fts: 'text', _ftsx: 1 }, { accessOps: 5 }),
+          index('title_text_author_1', { _fts: 'text', _ftsx: 1, author: 1 }),
+          index('old_1', { old: 1 }, { accessOps: 0, options: { hidden: true } }),
+        ],
+        30,
+        NOW,
+      );
+
+      expect(candidates).toEqual([]);
+    });
+  });
+});
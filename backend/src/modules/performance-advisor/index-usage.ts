@@ -0,0 +1,98 @@
+import { Document } from 'mongodb';
+
+export type DropReason = 'unused' | 'redundant';
+
+export interface IndexUsageInput {
+  name: string;
+  key: Record<string, any>;
+  options: Document;
+  /** Operations since `since`, from $indexStats */
+  accessOps?: number;
+  accessSince?: Date;
+  sizeBytes: number;
+}
+
+export interface DropCandidate {
+  name: string;
+  key: Record<string, any>;
+  reason: DropReason;
+  /** Index that serves the same queries, for redundant indexes */
+  coveredBy?: string;
+  accessOps: number;
+  accessSince?: Date;
+  sizeBytes: number;
+}
+
+// Options that change what an index does beyond speeding up queries
+const CONSTRAINT_OPTIONS = ['unique', 'expireAfterSeconds', 'partialFilterExpression', 'sparse'];
+
+/** Indexes that enforce constraints or expire documents are never suggested */
+export function isProtectedIndex(index: Pick<IndexUsageInput, 'name' | 'options'>): boolean {
+  return index.name === '_id_' || CONSTRAINT_OPTIONS.some((option) => index.options[option] !== undefined && index.options[option] !== false);
+}
+
+function isPlainBtree(key: Record<string, any>): boolean {
+  return Object.values(key).every((direction) => direction === 1 || direction === -1);
+}
+
+function sameCollation(a: Document, b: Document): boolean {
+  return JSON.stringify(a.collation ?? null) === JSON.stringify(b.collation ?? null);
+}
+
+/**
+ * Whether `prefix` is a leading prefix of `key` with the same directions
+ * (or all directions flipped), so `key` can serve every query of `prefix`.
+ */
+export function isKeyPrefix(prefix: Record<string, any>, key: Record<string, any>): boolean {
+  const prefixFields = Object.entries(prefix);
+  const keyFields = Object.entries(key);
+  if (prefixFields.length === 0 || prefixFields.length > keyFields.length) return false;
+
+  const sameDirection = prefixFields.every(([field, dir], i) => keyFields[i][0] === field && keyFields[i][1] === dir);
+  const flipped = prefixFields.every(([field, dir], i) => keyFields[i][0] === field && keyFields[i][1] === -dir);
+  return sameDirection || flipped;
+}
+
+/**
+ * Indexes that can be dropped: no access for at least `minUnusedDays`
+ * since the usage counters started, or a leading prefix of another index.
+ * Counters restart with the server, so a recent `accessSince` means there
+ * is not enough history to call an index unused.
+ */
+export function findDropCandidates(indexes: IndexUsageInput[], minUnusedDays: number, now: Date = new Date()): DropCandidate[] {
+  const unusedBefore = new Date(now.getTime() - minUnusedDays * 24 * 60 * 60 * 1000);
+  const candidates: DropCandidate[] = [];
+
+  for (const index of indexes) {
+    if (isProtectedIndex(index) || index.options.hidden) continue;
+
+    const base = {
+      name: index.name,
+      key: index.key,
+      accessOps: index.accessOps ?? 0,
+      accessSince: index.accessSince,
+      sizeBytes: index.sizeBytes,
+    };
+
+    const coveredBy = isPlainBtree(index.key)
+      ? indexes.find(
+          (other) =>
+            other.name !== index.name &&
+            !other.options.hidden &&
+            !other.options.partialFilterExpression &&
+            !other.options.sparse &&
+            isPlainBtree(other.key) &&
+            sameCollation(index.options, other.options) &&
+            Object.keys(other.key).length > Object.keys(index.key).length &&
+            isKeyPrefix(index.key, other.key),
+        )
+      : undefined;
+
+    if (coveredBy) {
+      candidates.push({ ...base, reason: 'redundant', coveredBy: coveredBy.name });
+    } else if (index.accessOps === 0 && index.accessSince && index.accessSince <= unusedBefore) {
+      candidates.push({ ...base, reason: 'unused' });
+    }
+  }
+  return candidates;
+}
@@ -11,13 +11,15 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { CurrentProjectAccess, RequireProjectRole } from '../../common/decorators/project-access.decorator';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { PerformanceAdvisorService } from './performance-advisor.service';
-import { ClustersService } from '../clusters/clusters.service';
-import { ProjectsService } from '../projects/projects.service';
-import { OrgsService } from '../orgs/orgs.service';
+import { QueryShapesService } from './query-shapes.service';
+import { IndexUsageService } from './index-usage.service';
 import {
   QuerySlowQueriesDto,
+  QueryShapesQueryDto,
   ExplainQueryDto,
   AnalyzeQueryDto,
   ApplyIndexSuggestionDto,
@@ -27,14 +29,13 @@ import {
 
 @ApiTags('Performance Advisor')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/performance')
 export class PerformanceAdvisorController {
   constructor(
     private readonly performanceAdvisorService: PerformanceAdvisorService,
-    private readonly clustersService: ClustersService,
-    private readonly projectsService: ProjectsService,
-    private readonly orgsService: OrgsService,
+    private readonly queryShapesService: QueryShapesService,
+    private readonly indexUsageService: IndexUsageService,
   ) {}
 
   // ==================== Slow Queries ====================
@@ -42,13 +43,10 @@ export class PerformanceAdvisorController {
   @Get('slow-queries')
   @ApiOperation({ summary: 'Get slow queries' })
   async getSlowQueries(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Query() queryDto: QuerySlowQueriesDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const slowQueries = await this.performanceAdvisorService.getSlowQueries(clusterId, queryDto);
 
     return {
@@ -60,13 +58,10 @@ export class PerformanceAdvisorController {
   @Get('slow-queries/:queryId')
   @ApiOperation({ summary: 'Get slow query details' })
   async getSlowQueryDetails(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('queryId') queryId: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const query = await this.performanceAdvisorService.getSlowQueryById(queryId);
     if (!query) {
       throw new NotFoundException('Slow query not found');
@@ -82,13 +77,10 @@ export class PerformanceAdvisorController {
   @ApiOperation({ summary: 'Get performance statistics' })
   @ApiQuery({ name: 'days', required: false, type: Number, description: 'Number of days to analyze' })
   async getStats(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Query('days') days?: number,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const stats = await this.performanceAdvisorService.getSlowQueryStats(clusterId, days || 7);
 
     return {
@@ -97,18 +89,87 @@ export class PerformanceAdvisorController {
     };
   }
 
+  // ==================== Query Shapes ====================
+
+  @Get('query-shapes')
+  @ApiOperation({
+    summary: 'Get per-shape latency aggregates',
+    description:
+      'Covers operations above the slow threshold only. count includes every such operation; p50/p95/p99 are ' +
+      'computed over a bounded sample of their latencies.',
+  })
+  async getQueryShapes(
+    @Param('projectId') projectId: string,
+    @Param('clusterId') clusterId: string,
+    @Query() queryDto: QueryShapesQueryDto,
+  ) {
+    const shapes = await this.queryShapesService.getShapes(clusterId, queryDto);
+
+    return {
+      success: true,
+      data: shapes,
+    };
+  }
+
+  @Get('query-shapes/:queryHash')
+  @ApiOperation({ summary: 'Get hourly aggregates of a query shape' })
+  @ApiQuery({ name: 'days', required: false, type: Number, description: 'Number of days to return' })
+  async getQueryShapeTimeline(
+    @Param('projectId') projectId: string,
+    @Param('clusterId') clusterId: string,
+    @Param('queryHash') queryHash: string,
+    @Query('days') days?: number,
+  ) {
+    const timeline = await this.queryShapesService.getShapeTimeline(clusterId, queryHash, Math.min(Number(days) || 7, 30));
+
+    return {
+      success: true,
+      data: timeline,
+    };
+  }
+
+  @Get('regressions')
+  @ApiOperation({ summary: 'Get query shapes whose latency regressed against their baseline' })
+  @ApiQuery({ name: 'status', required: false, enum: ['active', 'resolved', 'dismissed'] })
+  async getRegressions(
+    @Param('projectId') projectId: string,
+    @Param('clusterId') clusterId: string,
+    @Query('status') status?: 'active' | 'resolved' | 'dismissed',
+  ) {
+    const regressions = await this.queryShapesService.getRegressions(clusterId, status);
+
+    return {
+      success: true,
+      data: regressions,
+    };
+  }
+
+  @Post('regressions/:regressionId/dismiss')
+  @ApiOperation({ summary: 'Dismiss a query regression' })
+  async dismissRegression(
+    @CurrentUser() user: CurrentUserData,
+    @Param('projectId') projectId: string,
+    @Param('clusterId') clusterId: string,
+    @Param('regressionId') regressionId: string,
+  ) {
+    await this.queryShapesService.dismissRegression(clusterId, regressionId, user.userId);
+
+    return {
+      success: true,
+      message: 'Regression dismissed',
+    };
+  }
+
   // ==================== Query Analysis ====================
 
   @Post('explain')
+  @RequireProjectRole('PROJECT_READ_ONLY')
   @ApiOperation({ summary: 'Explain a query execution plan' })
   async explainQuery(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Body() explainDto: ExplainQueryDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const explanation = await this.performanceAdvisorService.explainQuery(clusterId, explainDto);
 
     return {
@@ -118,15 +179,13 @@ export class PerformanceAdvisorController {
   }
 
   @Post('analyze')
+  @RequireProjectRole('PROJECT_READ_ONLY')
   @ApiOperation({ summary: 'Analyze a query and get recommendations' })
   async analyzeQuery(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Body() analyzeDto: AnalyzeQueryDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const analysis = await this.performanceAdvisorService.analyzeQuery(clusterId, analyzeDto);
 
     return {
@@ -139,16 +198,15 @@ export class PerformanceAdvisorController {
 
   @Get('suggestions')
   @ApiOperation({ summary: 'Get index suggestions' })
-  @ApiQuery({ name: 'status', required: false, enum: ['pending', 'applied', 'dismissed'] })
+  @ApiQuery({ name: 'status', required: false, enum: ['pending', 'hidden', 'applied', 'dismissed', 'expired'] })
+  @ApiQuery({ name: 'type', required: false, enum: ['create', 'drop'] })
   async getIndexSuggestions(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Query('status') status?: string,
+    @Query('type') type?: 'create' | 'drop',
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
-    const suggestions = await this.performanceAdvisorService.getIndexSuggestions(clusterId, status);
+    const suggestions = await this.performanceAdvisorService.getIndexSuggestions(clusterId, status, type);
 
     return {
       success: true,
@@ -156,17 +214,29 @@ export class PerformanceAdvisorController {
     };
   }
 
+  @Post('suggestions/analyze-usage')
+  @ApiOperation({ summary: 'Look for unused and redundant indexes now' })
+  async analyzeIndexUsage(
+    @Param('projectId') projectId: string,
+    @Param('clusterId') clusterId: string,
+    @CurrentProjectAccess('orgId') orgId: string,
+  ) {
+    const flagged = await this.indexUsageService.analyzeCluster(clusterId, orgId);
+
+    return {
+      success: true,
+      data: { flagged },
+    };
+  }
+
   @Get('suggestions/:suggestionId')
   @ApiOperation({ summary: 'Get index suggestion details' })
   async getSuggestionDetails(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('suggestionId') suggestionId: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
-    const suggestion = await this.performanceAdvisorService.getSuggestionById(suggestionId);
+    const suggestion = await this.performanceAdvisorService.getSuggestionById(clusterId, suggestionId);
     if (!suggestion) {
       throw new NotFoundException('Suggestion not found');
     }
@@ -186,9 +256,8 @@ export class PerformanceAdvisorController {
     @Param('suggestionId') suggestionId: string,
     @Body() applyDto: ApplyIndexSuggestionDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
     await this.performanceAdvisorService.applySuggestion(
+      clusterId,
       suggestionId,
       user.userId,
       applyDto,
@@ -200,6 +269,38 @@ export class PerformanceAdvisorController {
     };
   }
 
+  @Post('suggestions/:suggestionId/hide')
+  @ApiOperation({ summary: 'Hide the index of a drop suggestion before dropping it' })
+  async hideSuggestedIndex(
+    @CurrentUser() user: CurrentUserData,
+    @Param('projectId') projectId: string,
+    @Param('clusterId') clusterId: string,
+    @Param('suggestionId') suggestionId: string,
+  ) {
+    const suggestion = await this.performanceAdvisorService.hideSuggestedIndex(clusterId, suggestionId, user.userId);
+
+    return {
+      success: true,
+      data: suggestion,
+    };
+  }
+
+  @Post('suggestions/:suggestionId/unhide')
+  @ApiOperation({ summary: 'Unhide the index of a drop suggestion and keep it' })
+  async unhideSuggestedIndex(
+    @CurrentUser() user: CurrentUserData,
+    @Param('projectId') projectId: string,
+    @Param('clusterId') clusterId: string,
+    @Param('suggestionId') suggestionId: string,
+  ) {
+    const suggestion = await this.performanceAdvisorService.unhideSuggestedIndex(clusterId, suggestionId, user.userId);
+
+    return {
+      success: true,
+      data: suggestion,
+    };
+  }
+
   @Post('suggestions/:suggestionId/dismiss')
   @ApiOperation({ summary: 'Dismiss an index suggestion' })
   async dismissSuggestion(
@@ -209,9 +310,8 @@ export class PerformanceAdvisorController {
     @Param('suggestionId') suggestionId: string,
     @Body() dismissDto: DismissIndexSuggestionDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
     await this.performanceAdvisorService.dismissSuggestion(
+      clusterId,
       suggestionId,
       user.userId,
       dismissDto.reason,
@@ -228,13 +328,10 @@ export class PerformanceAdvisorController {
   @Get('profiler/:database')
   @ApiOperation({ summary: 'Get profiler status for a database' })
   async getProfilerStatus(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('database') database: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const status = await this.performanceAdvisorService.getProfilerStatus(clusterId, database);
 
     return {
@@ -246,14 +343,11 @@ export class PerformanceAdvisorController {
   @Patch('profiler/:database')
   @ApiOperation({ summary: 'Set profiler level for a database' })
   async setProfilerLevel(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('database') database: string,
     @Body() settingsDto: ProfilerSettingsDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
     await this.performanceAdvisorService.setProfilerLevel(
       clusterId,
       database,
@@ -267,32 +361,5 @@ export class PerformanceAdvisorController {
       message: `Profiler set to ${settingsDto.level}`,
     };
   }
-
-  // ==================== Helper ====================
-
-  private async verifyAccess(
-    userId: string,
-    projectId: string,
-    clusterId: string,
-    requiredRoles?: ('OWNER' | 'ADMIN' | 'MEMBER' | 'READONLY')[],
-  ): Promise<string> {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, userId, requiredRoles);
-
-    const cluster = await this.clustersService.findById(clusterId);
-    if (!cluster || cluster.projectId.toString() !== projectId) {
-      throw new NotFoundException('Cluster not found');
-    }
-
-    return orgId;
-  }
 }
 
-
-
-
-
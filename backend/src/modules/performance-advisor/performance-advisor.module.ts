@@ -2,26 +2,36 @@ import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { PerformanceAdvisorController } from './performance-advisor.controller';
 import { PerformanceAdvisorService } from './performance-advisor.service';
+import { QueryShapesService } from './query-shapes.service';
+import { IndexUsageService } from './index-usage.service';
 import { SlowQuery, SlowQuerySchema } from './schemas/slow-query.schema';
 import { IndexSuggestion, IndexSuggestionSchema } from './schemas/index-suggestion.schema';
+import { QueryShapeStats, QueryShapeStatsSchema } from './schemas/query-shape-stats.schema';
+import { QueryRegression, QueryRegressionSchema } from './schemas/query-regression.schema';
 import { DataExplorerModule } from '../data-explorer/data-explorer.module';
 import { ClustersModule } from '../clusters/clusters.module';
+import { ClusterSettingsModule } from '../cluster-settings/cluster-settings.module';
 import { ProjectsModule } from '../projects/projects.module';
 import { OrgsModule } from '../orgs/orgs.module';
+import { AlertsModule } from '../alerts/alerts.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: SlowQuery.name, schema: SlowQuerySchema },
       { name: IndexSuggestion.name, schema: IndexSuggestionSchema },
+      { name: QueryShapeStats.name, schema: QueryShapeStatsSchema },
+      { name: QueryRegression.name, schema: QueryRegressionSchema },
     ]),
     forwardRef(() => DataExplorerModule),
     forwardRef(() => ClustersModule),
+    ClusterSettingsModule,
     ProjectsModule,
     OrgsModule,
+    AlertsModule,
   ],
   controllers: [PerformanceAdvisorController],
-  providers: [PerformanceAdvisorService],
+  providers: [PerformanceAdvisorService, QueryShapesService, IndexUsageService],
   exports: [PerformanceAdvisorService],
 })
 export class PerformanceAdvisorModule {}
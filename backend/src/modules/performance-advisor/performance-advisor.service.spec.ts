@@ -0,0 +1,74 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { PerformanceAdvisorService } from './performance-advisor.service';
+import { SlowQuery } from './schemas/slow-query.schema';
+import { IndexSuggestion } from './schemas/index-suggestion.schema';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+import { ClustersService } from '../clusters/clusters.service';
+import { ClusterSettingsService } from '../cluster-settings/cluster-settings.service';
+import { QueryShapesService } from './query-shapes.service';
+
+describe('PerformanceAdvisorService', () => {
+  let service: PerformanceAdvisorService;
+
+  const CLUSTER_ID = new Types.ObjectId().toString();
+  const SUGGESTION_ID = new Types.ObjectId().toString();
+
+  const exec = (value: unknown) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+  const mockIndexSuggestionModel = {
+    findOne: jest.fn(),
+  };
+
+  const mockDataExplorerService = {
+    createIndex: jest.fn(),
+    dropIndex: jest.fn(),
+    setIndexHidden: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PerformanceAdvisorService,
+        { provide: getModelToken(SlowQuery.name), useValue: {} },
+        { provide: getModelToken(IndexSuggestion.name), useValue: mockIndexSuggestionModel },
+        { provide: DataExplorerService, useValue: mockDataExplorerService },
+        { provide: ClustersService, useValue: {} },
+        { provide: ClusterSettingsService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn((_key: string, fallback?: unknown) => fallback) } },
+        { provide: QueryShapesService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<PerformanceAdvisorService>(PerformanceAdvisorService);
+
+    jest.clearAllMocks();
+    mockIndexSuggestionModel.findOne.mockReturnValue(exec(null));
+  });
+
+  describe('suggestion lookups', () => {
+    it('should only find suggestions of the cluster in the route', async () => {
+      await service.getSuggestionById(CLUSTER_ID, SUGGESTION_ID);
+
+      expect(mockIndexSuggestionModel.findOne).toHaveBeenCalledWith({
+        _id: SUGGESTION_ID,
+        clusterId: new Types.ObjectId(CLUSTER_ID),
+      });
+    });
+
+    it('should not drop the index of another cluster\'s suggestion', async () => {
+      await expect(service.applySuggestion(CLUSTER_ID, SUGGESTION_ID, 'user-1')).rejects.toThrow(NotFoundException);
+      expect(mockDataExplorerService.dropIndex).not.toHaveBeenCalled();
+      expect(mockDataExplorerService.createIndex).not.toHaveBeenCalled();
+    });
+
+    it('should not hide the index of another cluster\'s suggestion', async () => {
+      await expect(service.hideSuggestedIndex(CLUSTER_ID, SUGGESTION_ID, 'user-1')).rejects.toThrow(NotFoundException);
+      await expect(service.unhideSuggestedIndex(CLUSTER_ID, SUGGESTION_ID, 'user-1')).rejects.toThrow(NotFoundException);
+      expect(mockDataExplorerService.setIndexHidden).not.toHaveBeenCalled();
+    });
+  });
+});
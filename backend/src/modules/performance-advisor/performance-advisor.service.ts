@@ -6,12 +6,33 @@ import {
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
 import { Interval } from '@nestjs/schedule';
+import { MongoClient } from 'mongodb';
 import { SlowQuery, SlowQueryDocument } from './schemas/slow-query.schema';
-import { IndexSuggestion, IndexSuggestionDocument, ImpactLevel } from './schemas/index-suggestion.schema';
+import { IndexSuggestion, IndexSuggestionDocument, ImpactLevel, SuggestionType } from './schemas/index-suggestion.schema';
 import { DataExplorerService } from '../data-explorer/data-explorer.service';
 import { ClustersService } from '../clusters/clusters.service';
+import { ClusterSettingsService } from '../cluster-settings/cluster-settings.service';
 import { QuerySlowQueriesDto, ExplainQueryDto, AnalyzeQueryDto } from './dto/performance-advisor.dto';
+import {
+  CollectedSlowQuery,
+  dedupeByShape,
+  normalizeQueryShape,
+  parseCurrentOp,
+  parseProfilerEntry,
+  queryShapeHash,
+  SYSTEM_DATABASES,
+} from './profiler-entries';
+import { QueryShapesService } from './query-shapes.service';
+import { ShapeSample } from './query-shapes';
+
+const DEFAULT_SLOW_OP_THRESHOLD_MS = 100;
+// How far back the first collection run reads system.profile
+const PROFILE_LOOKBACK_MS = 60 * 60 * 1000;
+const MAX_PROFILE_ENTRIES_PER_DATABASE = 1000;
+// Running operations are matched to their earlier record within this window
+const CURRENT_OP_MATCH_WINDOW_MS = 24 * 60 * 60 * 1000;
 
 export interface QueryExplainResult {
   queryPlanner: {
@@ -45,6 +66,9 @@ export interface PerformanceStats {
   topCollections: { collection: string; count: number; avgTime: number }[];
   collectionScans: number;
   pendingSuggestions: number;
+  activeRegressions: number;
+  // Index bytes freed by applying pending and hidden drop suggestions
+  reclaimableIndexBytes: number;
 }
 
 export interface QueryAnalysis {
@@ -63,12 +87,16 @@ export interface QueryAnalysis {
 @Injectable()
 export class PerformanceAdvisorService {
   private readonly logger = new Logger(PerformanceAdvisorService.name);
+  private isCollecting = false;
 
   constructor(
     @InjectModel(SlowQuery.name) private slowQueryModel: Model<SlowQueryDocument>,
     @InjectModel(IndexSuggestion.name) private indexSuggestionModel: Model<IndexSuggestionDocument>,
     private readonly dataExplorerService: DataExplorerService,
     private readonly clustersService: ClustersService,
+    private readonly clusterSettingsService: ClusterSettingsService,
+    private readonly configService: ConfigService,
+    private readonly queryShapesService: QueryShapesService,
   ) {}
 
   // ==================== Slow Queries ====================
@@ -110,6 +138,35 @@ export class PerformanceAdvisorService {
   }
 
   async recordSlowQuery(data: Partial<SlowQuery>): Promise<SlowQuery> {
+    const record = { ...data };
+    if (!record.queryHash && record.database && record.collection && record.operation) {
+      const queryShape = normalizeQueryShape(record.query ?? {});
+      record.queryShape = queryShape;
+      record.queryHash = queryShapeHash(record.database, record.collection, record.operation, queryShape, record.sort);
+    }
+
+    const slowQuery = await this.saveSlowQuery(record);
+    if (record.clusterId && record.orgId && record.queryHash) {
+      await this.queryShapesService.recordSamples(record.clusterId.toString(), record.orgId.toString(), [
+        {
+          database: slowQuery.database,
+          collection: slowQuery.collection,
+          operation: slowQuery.operation as ShapeSample['operation'],
+          queryShape: slowQuery.queryShape ?? {},
+          queryHash: record.queryHash,
+          sort: slowQuery.sort,
+          executionTimeMs: slowQuery.executionTimeMs,
+          docsExamined: slowQuery.docsExamined,
+          docsReturned: slowQuery.docsReturned,
+          timestamp: slowQuery.timestamp,
+          occurrences: slowQuery.occurrences ?? 1,
+        },
+      ]);
+    }
+    return slowQuery;
+  }
+
+  private async saveSlowQuery(data: Partial<SlowQuery>): Promise<SlowQueryDocument> {
     const slowQuery = new this.slowQueryModel(data);
     await slowQuery.save();
     
@@ -125,7 +182,7 @@ export class PerformanceAdvisorService {
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
 
-    const [stats, collectionStats, collectionScans, suggestions] = await Promise.all([
+    const [stats, collectionStats, collectionScans, suggestions, activeRegressions, reclaimable] = await Promise.all([
       this.slowQueryModel.aggregate([
         { $match: { clusterId: new Types.ObjectId(clusterId), timestamp: { $gte: startDate } } },
         { $group: { _id: null, count: { $sum: 1 }, avgTime: { $avg: '$executionTimeMs' } } },
@@ -152,6 +209,13 @@ export class PerformanceAdvisorService {
         clusterId,
         status: 'pending',
       }).exec(),
+
+      this.queryShapesService.countActiveRegressions(clusterId),
+
+      this.indexSuggestionModel.aggregate([
+        { $match: { clusterId: new Types.ObjectId(clusterId), type: 'drop', status: { $in: ['pending', 'hidden'] } } },
+        { $group: { _id: null, bytes: { $sum: '$estimatedBytes' } } },
+      ]).exec(),
     ]);
 
     return {
@@ -164,6 +228,8 @@ export class PerformanceAdvisorService {
       })),
       collectionScans,
       pendingSuggestions: suggestions,
+      activeRegressions,
+      reclaimableIndexBytes: reclaimable[0]?.bytes || 0,
     };
   }
 
@@ -239,11 +305,16 @@ export class PerformanceAdvisorService {
   async getIndexSuggestions(
     clusterId: string,
     status?: string,
+    type?: SuggestionType,
   ): Promise<IndexSuggestion[]> {
     const query: any = { clusterId };
     if (status) {
       query.status = status;
     }
+    if (type) {
+      // Suggestions from before drop suggestions existed have no type
+      query.type = type === 'create' ? { $ne: 'drop' } : 'drop';
+    }
 
     return this.indexSuggestionModel
       .find(query)
@@ -251,18 +322,38 @@ export class PerformanceAdvisorService {
       .exec();
   }
 
-  async getSuggestionById(suggestionId: string): Promise<IndexSuggestion | null> {
-    return this.indexSuggestionModel.findById(suggestionId).exec();
+  async getSuggestionById(clusterId: string, suggestionId: string): Promise<IndexSuggestion | null> {
+    if (!Types.ObjectId.isValid(suggestionId)) {
+      return null;
+    }
+    return this.indexSuggestionModel
+      .findOne({ _id: suggestionId, clusterId: new Types.ObjectId(clusterId) })
+      .exec();
+  }
+
+  /** Suggestions are addressed through their cluster's route, so other clusters' IDs are not found */
+  private async findSuggestion(clusterId: string, suggestionId: string): Promise<IndexSuggestionDocument> {
+    const suggestion = Types.ObjectId.isValid(suggestionId)
+      ? await this.indexSuggestionModel
+        .findOne({ _id: suggestionId, clusterId: new Types.ObjectId(clusterId) })
+        .exec()
+      : null;
+    if (!suggestion) {
+      throw new NotFoundException('Suggestion not found');
+    }
+    return suggestion;
   }
 
   async applySuggestion(
+    clusterId: string,
     suggestionId: string,
     userId: string,
     options?: { indexName?: string; background?: boolean },
   ): Promise<void> {
-    const suggestion = await this.indexSuggestionModel.findById(suggestionId).exec();
-    if (!suggestion) {
-      throw new NotFoundException('Suggestion not found');
+    const suggestion = await this.findSuggestion(clusterId, suggestionId);
+
+    if (suggestion.type === 'drop') {
+      return this.applyDropSuggestion(suggestion, userId);
     }
 
     if (suggestion.status !== 'pending') {
@@ -290,14 +381,100 @@ export class PerformanceAdvisorService {
     this.logger.log(`Index suggestion ${suggestionId} applied by ${userId}`);
   }
 
+  /**
+   * Drop the index of a drop suggestion. The index has to be hidden first,
+   * so queries that still need it show up before it is gone.
+   */
+  private async applyDropSuggestion(suggestion: IndexSuggestionDocument, userId: string): Promise<void> {
+    if (suggestion.status !== 'hidden') {
+      throw new BadRequestException({
+        code: 'INDEX_NOT_HIDDEN',
+        message: suggestion.status === 'pending'
+          ? 'Hide the index before dropping it'
+          : `Suggestion is already ${suggestion.status}`,
+      });
+    }
+
+    await this.dataExplorerService.dropIndex(
+      suggestion.clusterId.toString(),
+      suggestion.database,
+      suggestion.collection,
+      suggestion.suggestedIndexName!,
+    );
+
+    suggestion.status = 'applied';
+    suggestion.appliedAt = new Date();
+    suggestion.appliedBy = new Types.ObjectId(userId);
+    await suggestion.save();
+
+    this.logger.log(`Index ${suggestion.suggestedIndexName} dropped by ${userId} (suggestion ${suggestion.id})`);
+  }
+
+  /**
+   * Hide the index of a drop suggestion from the query planner. Unhiding
+   * restores it instantly, unlike rebuilding a dropped index.
+   */
+  async hideSuggestedIndex(clusterId: string, suggestionId: string, userId: string): Promise<IndexSuggestion> {
+    const suggestion = await this.findDropSuggestion(clusterId, suggestionId);
+    if (suggestion.status !== 'pending') {
+      throw new BadRequestException({ code: 'INVALID_SUGGESTION_STATUS', message: `Suggestion is already ${suggestion.status}` });
+    }
+
+    await this.dataExplorerService.setIndexHidden(
+      suggestion.clusterId.toString(),
+      suggestion.database,
+      suggestion.collection,
+      suggestion.suggestedIndexName!,
+      true,
+    );
+
+    suggestion.status = 'hidden';
+    suggestion.hiddenAt = new Date();
+    suggestion.hiddenBy = new Types.ObjectId(userId);
+    await suggestion.save();
+    return suggestion;
+  }
+
+  /** Unhide the index again and keep it: the suggestion is dismissed */
+  async unhideSuggestedIndex(clusterId: string, suggestionId: string, userId: string): Promise<IndexSuggestion> {
+    const suggestion = await this.findDropSuggestion(clusterId, suggestionId);
+    if (suggestion.status !== 'hidden') {
+      throw new BadRequestException({ code: 'INDEX_NOT_HIDDEN', message: 'The index is not hidden' });
+    }
+
+    await this.dataExplorerService.setIndexHidden(
+      suggestion.clusterId.toString(),
+      suggestion.database,
+      suggestion.collection,
+      suggestion.suggestedIndexName!,
+      false,
+    );
+
+    suggestion.status = 'dismissed';
+    suggestion.dismissedAt = new Date();
+    suggestion.dismissedBy = new Types.ObjectId(userId);
+    suggestion.dismissReason = 'Index unhidden';
+    await suggestion.save();
+    return suggestion;
+  }
+
+  private async findDropSuggestion(clusterId: string, suggestionId: string): Promise<IndexSuggestionDocument> {
+    const suggestion = await this.findSuggestion(clusterId, suggestionId);
+    if (suggestion.type !== 'drop') {
+      throw new BadRequestException({ code: 'NOT_A_DROP_SUGGESTION', message: 'Only drop suggestions can hide indexes' });
+    }
+    return suggestion;
+  }
+
   async dismissSuggestion(
+    clusterId: string,
     suggestionId: string,
     userId: string,
     reason?: string,
   ): Promise<void> {
-    const suggestion = await this.indexSuggestionModel.findById(suggestionId).exec();
-    if (!suggestion) {
-      throw new NotFoundException('Suggestion not found');
+    const suggestion = await this.findSuggestion(clusterId, suggestionId);
+    if (suggestion.status === 'hidden') {
+      throw new BadRequestException({ code: 'INDEX_HIDDEN', message: 'Unhide the index to keep it' });
     }
 
     suggestion.status = 'dismissed';
@@ -349,11 +526,129 @@ export class PerformanceAdvisorService {
 
   // ==================== Background Analysis ====================
 
-  @Interval(300000) // Every 5 minutes
+  /**
+   * Read slow operations from every ready cluster: completed ones from
+   * system.profile (databases with profiling enabled) and running ones from
+   * $currentOp, both above the cluster's slowOpThresholdMs.
+   */
+  @Interval(60000)
   async collectSlowQueries(): Promise<void> {
-    // In production, this would poll the MongoDB profiler
-    // For now, we'll simulate or integrate with actual profiler data
-    this.logger.debug('Collecting slow queries from profiler...');
+    if (this.configService.get<string>('NODE_ENV') === 'test' || this.isCollecting) {
+      return;
+    }
+
+    this.isCollecting = true;
+    try {
+      const clusters = await this.clustersService.findAll();
+      for (const cluster of clusters.filter((c) => c.status === 'ready')) {
+        try {
+          await this.collectClusterSlowQueries(cluster._id.toString(), cluster.orgId.toString());
+        } catch (error: any) {
+          // Unreachable cluster or missing privileges: try again next run
+          this.logger.warn(`Could not collect slow queries for cluster ${cluster._id}: ${error.message}`);
+        }
+      }
+    } catch (error: any) {
+      this.logger.error(`Slow query collection failed: ${error.message}`);
+    } finally {
+      this.isCollecting = false;
+    }
+  }
+
+  async collectClusterSlowQueries(clusterId: string, orgId: string): Promise<number> {
+    const settings = await this.clusterSettingsService.get(clusterId);
+    const thresholdMs = settings?.slowOpThresholdMs ?? DEFAULT_SLOW_OP_THRESHOLD_MS;
+    const client = await this.dataExplorerService.getConnection(clusterId);
+
+    const profiled = await this.readProfiler(client, clusterId, thresholdMs);
+    const running = await this.readCurrentOps(client, thresholdMs);
+
+    // Every profiled operation counts towards its shape's aggregates, while
+    // only one sample per shape is kept as a slow query
+    const samples: ShapeSample[] = [...profiled];
+    let recorded = 0;
+    for (const entry of dedupeByShape(profiled)) {
+      await this.saveSlowQuery(this.toSlowQuery(entry, clusterId, orgId));
+      recorded++;
+    }
+
+    const since = new Date(Date.now() - CURRENT_OP_MATCH_WINDOW_MS);
+    for (const entry of dedupeByShape(running)) {
+      // Still running since the last run: only its duration grows
+      const updated = await this.slowQueryModel.findOneAndUpdate(
+        { clusterId: new Types.ObjectId(clusterId), source: 'currentOp', opid: entry.opid, timestamp: { $gte: since } },
+        { $max: { executionTimeMs: entry.executionTimeMs, occurrences: entry.occurrences } },
+      ).exec();
+      if (!updated) {
+        await this.saveSlowQuery(this.toSlowQuery(entry, clusterId, orgId));
+        samples.push(entry);
+        recorded++;
+      }
+    }
+    await this.queryShapesService.recordSamples(clusterId, orgId, samples);
+
+    if (recorded > 0) {
+      this.logger.log(`Recorded ${recorded} slow quer${recorded === 1 ? 'y' : 'ies'} for cluster ${clusterId}`);
+    }
+    return recorded;
+  }
+
+  /**
+   * Profiler entries since the newest one already recorded per database.
+   */
+  private async readProfiler(client: MongoClient, clusterId: string, thresholdMs: number): Promise<CollectedSlowQuery[]> {
+    const { databases } = await client.db('admin').admin().listDatabases({ nameOnly: true });
+    const entries: CollectedSlowQuery[] = [];
+
+    for (const { name } of databases) {
+      if (SYSTEM_DATABASES.includes(name)) continue;
+
+      const latest = await this.slowQueryModel
+        .findOne({ clusterId: new Types.ObjectId(clusterId), source: 'profiler', database: name })
+        .sort({ timestamp: -1 })
+        .select('timestamp')
+        .lean()
+        .exec();
+      const lookback = new Date(Date.now() - PROFILE_LOOKBACK_MS);
+      const since = latest?.timestamp && latest.timestamp > lookback ? latest.timestamp : lookback;
+
+      const profile = await client
+        .db(name)
+        .collection('system.profile')
+        .find({ ts: { $gt: since }, millis: { $gte: thresholdMs } })
+        .sort({ ts: 1 })
+        .limit(MAX_PROFILE_ENTRIES_PER_DATABASE)
+        .toArray();
+
+      for (const doc of profile) {
+        const entry = parseProfilerEntry(doc);
+        if (entry) entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  private async readCurrentOps(client: MongoClient, thresholdMs: number): Promise<CollectedSlowQuery[]> {
+    const ops = await client
+      .db('admin')
+      .aggregate([
+        { $currentOp: { allUsers: true, idleConnections: false } },
+        { $match: { active: true, microsecs_running: { $gte: thresholdMs * 1000 } } },
+      ])
+      .toArray();
+
+    const now = new Date();
+    return ops
+      .map((op) => parseCurrentOp(op, now))
+      .filter((entry): entry is CollectedSlowQuery => entry !== null);
+  }
+
+  private toSlowQuery(entry: CollectedSlowQuery, clusterId: string, orgId: string): Partial<SlowQuery> {
+    return {
+      ...entry,
+      clusterId: new Types.ObjectId(clusterId),
+      orgId: new Types.ObjectId(orgId),
+    };
   }
 
   private async analyzeForIndexSuggestion(slowQuery: SlowQueryDocument): Promise<void> {
@@ -371,6 +666,7 @@ export class PerformanceAdvisorService {
       clusterId: slowQuery.clusterId,
       database: slowQuery.database,
       collection: slowQuery.collection,
+      type: { $ne: 'drop' },
       suggestedIndex,
       status: 'pending',
     }).exec();
@@ -0,0 +1,224 @@
+import { ObjectId } from 'mongodb';
+import {
+  CollectedSlowQuery,
+  dedupeByShape,
+  normalizeQueryShape,
+  parseCurrentOp,
+  parseProfilerEntry,
+  queryShapeHash,
+} from './profiler-entries';
+
+describe('profiler-entries', () => {
+  // ==================== Query Shapes ====================
+
+  describe('normalizeQueryShape', () => {
+    it('should replace literals with type placeholders and keep operators', () => {
+      expect(
+        normalizeQueryShape({
+          status: 'active',
+          age: { $gt: 30, $lte: 65 },
+          tags: { $in: ['a', 'b'] },
+          ownerId: new ObjectId(),
+          createdAt: { $gte: new Date() },
+        }),
+      ).toEqual({
+        status: '?string',
+        age: { $gt: '?number', $lte: '?number' },
+        tags: { $in: '?array' },
+        ownerId: '?objectId',
+        createdAt: { $gte: '?date' },
+      });
+    });
+
+    it('should recurse into logical operators and $elemMatch', () => {
+      expect(
+        normalizeQueryShape({
+          $or: [{ sku: 'A1' }, { qty: { $lt: 5 } }],
+          items: { $elemMatch: { price: { $gt: 10 } } },
+        }),
+      ).toEqual({
+        $or: [{ sku: '?string' }, { qty: { $lt: '?number' } }],
+        items: { $elemMatch: { price: { $gt: '?number' } } },
+      });
+    });
+
+    it('should treat embedded documents without operators as literals', () => {
+      expect(normalizeQueryShape({ address: { city: 'Berlin' } })).toEqual({ address: '?object' });
+    });
+  });
+
+  describe('queryShapeHash', () => {
+    it('should ignore field order and literal values', () => {
+      const a = normalizeQueryShape({ status: 'active', age: { $gt: 30 } });
+      const b = normalizeQueryShape({ age: { $gt: 99 }, status: 'closed' });
+
+      expect(queryShapeHash('shop', 'users', 'find', a)).toBe(queryShapeHash('shop', 'users', 'find', b));
+    });
+
+    it('should tell namespaces, operations and sorts apart', () => {
+      const shape = normalizeQueryShape({ status: 'active' });
+      const hash = queryShapeHash('shop', 'users', 'find', shape);
+
+      expect(queryShapeHash('shop', 'orders', 'find', shape)).not.toBe(hash);
+      expect(queryShapeHash('shop', 'users', 'count', shape)).not.toBe(hash);
+      expect(queryShapeHash('shop', 'users', 'find', shape, { createdAt: -1 })).not.toBe(hash);
+    });
+  });
+
+  // ==================== Profiler ====================
+
+  describe('parseProfilerEntry', () => {
+    const ts = new Date('2026-01-01T00:00:00Z');
+
+    it('should map a profiled find command', () => {
+      const entry = parseProfilerEntry({
+        op: 'query',
+        ns: 'shop.orders',
+        command: { find: 'orders', filter: { status: 'open' }, sort: { createdAt: -1 } },
+        millis: 420,
+        docsExamined: 5000,
+        keysExamined: 0,
+        nreturned: 12,
+        planSummary: 'COLLSCAN',
+        client: '10.0.0.4',
+        user: 'app@admin',
+        ts,
+      });
+
+      expect(entry).toMatchObject({
+        database: 'shop',
+        collection: 'orders',
+        operation: 'find',
+        query: { status: 'open' },
+        sort: { createdAt: -1 },
+        queryShape: { status: '?string' },
+        executionTimeMs: 420,
+        docsExamined: 5000,
+        docsReturned: 12,
+        collectionScan: true,
+        source: 'profiler',
+        timestamp: ts,
+        occurrences: 1,
+      });
+    });
+
+    it('should use the first $match of aggregations and the originating command of getMores', () => {
+      expect(
+        parseProfilerEntry({
+          op: 'command',
+          ns: 'shop.orders',
+          command: { aggregate: 'orders', pipeline: [{ $match: { total: { $gt: 100 } } }, { $group: { _id: '$userId' } }] },
+          millis: 300,
+          ts,
+        }),
+      ).toMatchObject({ operation: 'aggregate', query: { total: { $gt: 100 } } });
+
+      expect(
+        parseProfilerEntry({
+          op: 'getmore',
+          ns: 'shop.orders',
+          command: { getMore: 1, collection: 'orders' },
+          originatingCommand: { find: 'orders', filter: { userId: 7 } },
+          millis: 150,
+          ts,
+        }),
+      ).toMatchObject({ operation: 'getMore', query: { userId: 7 } });
+    });
+
+    it('should skip system collections, admin commands and change streams', () => {
+      expect(parseProfilerEntry({ op: 'query', ns: 'shop.system.profile', command: { find: 'system.profile' }, millis: 200 })).toBeNull();
+      expect(parseProfilerEntry({ op: 'command', ns: 'shop.$cmd', command: { createIndexes: 'orders' }, millis: 900 })).toBeNull();
+      expect(parseProfilerEntry({ op: 'query', ns: 'config.chunks', command: { find: 'chunks' }, millis: 200 })).toBeNull();
+      expect(
+        parseProfilerEntry({
+          op: 'getmore',
+          ns: 'shop.orders',
+          originatingCommand: { aggregate: 'orders', pipeline: [{ $changeStream: {} }] },
+          millis: 1000,
+        }),
+      ).toBeNull();
+    });
+  });
+
+  // ==================== $currentOp ====================
+
+  describe('parseCurrentOp', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+
+    it('should map a running operation with its duration and opid', () => {
+      expect(
+        parseCurrentOp(
+          {
+            op: 'update',
+            ns: 'shop.orders',
+            command: { q: { userId: 7 }, u: { $set: { archived: true } } },
+            microsecs_running: 2_500_000,
+            opid: 1234,
+            planSummary: 'IXSCAN { userId: 1 }',
+            effectiveUsers: [{ user: 'app', db: 'admin' }],
+          },
+          now,
+        ),
+      ).toMatchObject({
+        operation: 'update',
+        query: { userId: 7 },
+        executionTimeMs: 2500,
+        opid: '1234',
+        user: 'app',
+        collectionScan: false,
+        source: 'currentOp',
+        timestamp: now,
+      });
+    });
+
+    it('should skip change streams and tailable cursors', () => {
+      expect(
+        parseCurrentOp({
+          op: 'getmore',
+          ns: 'shop.orders',
+          originatingCommand: { aggregate: 'orders', pipeline: [{ $changeStream: {} }] },
+          microsecs_running: 60_000_000,
+        }),
+      ).toBeNull();
+      expect(
+        parseCurrentOp({
+          op: 'getmore',
+          ns: 'local.oplog.rs',
+          cursor: { tailable: true, awaitData: true },
+          microsecs_running: 60_000_000,
+        }),
+      ).toBeNull();
+    });
+  });
+
+  // ==================== Dedupe ====================
+
+  describe('dedupeByShape', () => {
+    const entry = (executionTimeMs: number, timestamp: string, filter: Record<string, unknown>) =>
+      parseProfilerEntry({
+        op: 'query',
+        ns: 'shop.orders',
+        command: { find: 'orders', filter },
+        millis: executionTimeMs,
+        ts: new Date(timestamp),
+      }) as CollectedSlowQuery;
+
+    it('should keep the slowest sample per shape with the summed count and latest timestamp', () => {
+      const deduped = dedupeByShape([
+        entry(200, '2026-01-01T00:00:00Z', { status: 'open' }),
+        entry(900, '2026-01-01T00:01:00Z', { status: 'closed' }),
+        entry(300, '2026-01-01T00:02:00Z', { status: 'paid' }),
+        entry(150, '2026-01-01T00:03:00Z', { userId: 7 }),
+      ]);
+
+      expect(deduped).toHaveLength(2);
+      expect(deduped[0]).toMatchObject({
+        query: { status: 'closed' },
+        executionTimeMs: 900,
+        occurrences: 3,
+        timestamp: new Date('2026-01-01T00:02:00Z'),
+      });
+      expect(deduped[1]).toMatchObject({ query: { userId: 7 }, occurrences: 1 });
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { createHash } from 'crypto';
+import { Document } from 'mongodb';
+
+export type SlowQuerySource = 'profiler' | 'currentOp' | 'manual';
+
+export type SlowQueryOperation =
+  | 'find' | 'insert' | 'update' | 'delete' | 'aggregate' | 'count' | 'findAndModify' | 'getMore' | 'command';
+
+/** A slow operation read from the cluster, before it is stored as a SlowQuery */
+export interface CollectedSlowQuery {
+  database: string;
+  collection: string;
+  operation: SlowQueryOperation;
+  query: Record<string, any>;
+  sort?: Record<string, any>;
+  projection?: Record<string, any>;
+  queryShape: Record<string, any>;
+  queryHash: string;
+  executionTimeMs: number;
+  docsExamined: number;
+  docsReturned: number;
+  keysExamined: number;
+  collectionScan: boolean;
+  planSummary?: string;
+  client?: string;
+  user?: string;
+  timestamp: Date;
+  source: Exclude<SlowQuerySource, 'manual'>;
+  opid?: string;
+  occurrences: number;
+}
+
+export const SYSTEM_DATABASES = ['admin', 'local', 'config'];
+
+const OPERATIONS_WITH_FILTER_ARRAYS = ['$and', '$or', '$nor'];
+
+function placeholder(value: unknown): string {
+  if (value === null || value === undefined) return '?null';
+  if (Array.isArray(value)) return '?array';
+  if (value instanceof Date) return '?date';
+  if (value instanceof RegExp) return '?regex';
+  const bsonType = (value as any)?._bsontype;
+  if (bsonType) return `?${String(bsonType).charAt(0).toLowerCase()}${String(bsonType).slice(1)}`;
+  if (typeof value === 'object') return '?object';
+  return `?${typeof value}`;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof RegExp) &&
+    !(value as any)._bsontype
+  );
+}
+
+/**
+ * Strip literals from a filter while keeping field names and operators,
+ * so `{ age: { $gt: 30 } }` and `{ age: { $gt: 40 } }` share one shape.
+ */
+export function normalizeQueryShape(filter: unknown): any {
+  if (!isPlainObject(filter)) {
+    return placeholder(filter);
+  }
+
+  const shape: Record<string, any> = {};
+  for (const [key, value] of Object.entries(filter)) {
+    if (OPERATIONS_WITH_FILTER_ARRAYS.includes(key) && Array.isArray(value)) {
+      shape[key] = value.map((clause) => normalizeQueryShape(clause));
+    } else if (isPlainObject(value) && (key === '$elemMatch' || Object.keys(value).some((k) => k.startsWith('$')))) {
+      shape[key] = normalizeQueryShape(value);
+    } else {
+      shape[key] = placeholder(value);
+    }
+  }
+  return shape;
+}
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Fingerprint of a query shape; field order in the filter does not matter */
+export function queryShapeHash(
+  database: string,
+  collection: string,
+  operation: string,
+  shape: Record<string, any>,
+  sort?: Record<string, any>,
+): string {
+  return createHash('sha256')
+    .update(stableStringify({ ns: `${database}.${collection}`, operation, shape, sort: sort ?? null }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function firstStage(pipeline: unknown, stage: string): any {
+  return Array.isArray(pipeline) ? pipeline.find((s) => s && s[stage])?.[stage] : undefined;
+}
+
+function isChangeStream(command: Document | undefined): boolean {
+  return !!firstStage(command?.pipeline, '$changeStream');
+}
+
+/**
+ * Operation name, filter, sort and projection of a profiled or running
+ * operation. Returns null for commands that do not read or write a
+ * collection (createIndexes, hello, ...).
+ */
+function describeOperation(
+  op: string,
+  command: Document = {},
+  originatingCommand?: Document,
+): Pick<CollectedSlowQuery, 'operation' | 'query' | 'sort' | 'projection'> | null {
+  switch (op) {
+    case 'query':
+      return { operation: 'find', query: command.filter ?? {}, sort: command.sort, projection: command.projection };
+    case 'insert':
+      return { operation: 'insert', query: {} };
+    case 'update':
+      return { operation: 'update', query: command.q ?? command.updates?.[0]?.q ?? {} };
+    case 'remove':
+      return { operation: 'delete', query: command.q ?? command.deletes?.[0]?.q ?? {} };
+    case 'getmore': {
+      const origin = originatingCommand ?? {};
+      return {
+        operation: 'getMore',
+        query: origin.filter ?? firstStage(origin.pipeline, '$match') ?? {},
+        sort: origin.sort ?? firstStage(origin.pipeline, '$sort'),
+      };
+    }
+    case 'command':
+      if (command.aggregate) {
+        return {
+          operation: 'aggregate',
+          query: firstStage(command.pipeline, '$match') ?? {},
+          sort: firstStage(command.pipeline, '$sort'),
+        };
+      }
+      if (command.find) {
+        return { operation: 'find', query: command.filter ?? {}, sort: command.sort, projection: command.projection };
+      }
+      if (command.count) return { operation: 'count', query: command.query ?? {} };
+      if (command.distinct) return { operation: 'command', query: command.query ?? {} };
+      if (command.findAndModify || command.findandmodify) {
+        return { operation: 'findAndModify', query: command.query ?? {}, sort: command.sort };
+      }
+      if (command.update) return { operation: 'update', query: command.updates?.[0]?.q ?? {} };
+      if (command.delete) return { operation: 'delete', query: command.deletes?.[0]?.q ?? {} };
+      return null;
+    default:
+      return null;
+  }
+}
+
+function splitNamespace(ns: unknown): { database: string; collection: string } | null {
+  if (typeof ns !== 'string') return null;
+  const dot = ns.indexOf('.');
+  if (dot <= 0) return null;
+  const database = ns.slice(0, dot);
+  const collection = ns.slice(dot + 1);
+  if (!collection || collection === '$cmd' || collection.startsWith('system.') || SYSTEM_DATABASES.includes(database)) {
+    return null;
+  }
+  return { database, collection };
+}
+
+function toCollected(
+  namespace: { database: string; collection: string },
+  operation: Pick<CollectedSlowQuery, 'operation' | 'query' | 'sort' | 'projection'>,
+  stats: Omit<CollectedSlowQuery, 'database' | 'collection' | 'operation' | 'query' | 'sort' | 'projection' | 'queryShape' | 'queryHash' | 'collectionScan' | 'occurrences'>,
+): CollectedSlowQuery {
+  const queryShape = normalizeQueryShape(operation.query);
+  return {
+    ...namespace,
+    ...operation,
+    queryShape,
+    queryHash: queryShapeHash(namespace.database, namespace.collection, operation.operation, queryShape, operation.sort),
+    collectionScan: !!stats.planSummary?.includes('COLLSCAN'),
+    occurrences: 1,
+    ...stats,
+  };
+}
+
+/** Map a `system.profile` document onto a slow query */
+export function parseProfilerEntry(entry: Document): CollectedSlowQuery | null {
+  const namespace = splitNamespace(entry.ns);
+  const operation = namespace && describeOperation(entry.op, entry.command, entry.originatingCommand);
+  if (!namespace || !operation || isChangeStream(entry.command) || isChangeStream(entry.originatingCommand)) {
+    return null;
+  }
+
+  return toCollected(namespace, operation, {
+    executionTimeMs: entry.millis ?? 0,
+    docsExamined: entry.docsExamined ?? 0,
+    docsReturned: entry.nreturned ?? entry.nMatched ?? entry.ndeleted ?? 0,
+    keysExamined: entry.keysExamined ?? 0,
+    planSummary: entry.planSummary,
+    client: entry.client,
+    user: entry.user || undefined,
+    timestamp: entry.ts instanceof Date ? entry.ts : new Date(),
+    source: 'profiler',
+  });
+}
+
+/**
+ * Map a `$currentOp` entry onto a slow query. Change streams and tailable
+ * cursors wait by design and are skipped.
+ */
+export function parseCurrentOp(op: Document, now: Date = new Date()): CollectedSlowQuery | null {
+  const namespace = splitNamespace(op.ns);
+  const operation = namespace && describeOperation(op.op, op.command, op.originatingCommand);
+  if (
+    !namespace ||
+    !operation ||
+    op.cursor?.tailable ||
+    op.cursor?.awaitData ||
+    isChangeStream(op.command) ||
+    isChangeStream(op.originatingCommand)
+  ) {
+    return null;
+  }
+
+  return toCollected(namespace, operation, {
+    executionTimeMs: Math.round((op.microsecs_running ?? (op.secs_running ?? 0) * 1_000_000) / 1000),
+    docsExamined: op.cursor?.docsExamined ?? 0,
+    docsReturned: op.cursor?.nDocsReturned ?? 0,
+    keysExamined: op.cursor?.keysExamined ?? 0,
+    planSummary: op.planSummary,
+    client: op.client,
+    user: op.effectiveUsers?.[0]?.user,
+    timestamp: now,
+    source: 'currentOp',
+    opid: op.opid !== undefined ? String(op.opid) : undefined,
+  });
+}
+
+/**
+ * Collapse entries of the same shape into one, keeping the slowest as the
+ * sample. The merged entry carries the latest timestamp so it can serve as
+ * the profiler watermark.
+ */
+export function dedupeByShape(entries: CollectedSlowQuery[]): CollectedSlowQuery[] {
+  const byShape = new Map<string, CollectedSlowQuery>();
+
+  for (const entry of entries) {
+    const existing = byShape.get(entry.queryHash);
+    if (!existing) {
+      byShape.set(entry.queryHash, { ...entry });
+      continue;
+    }
+
+    const slowest = entry.executionTimeMs > existing.executionTimeMs ? entry : existing;
+    byShape.set(entry.queryHash, {
+      ...slowest,
+      occurrences: existing.occurrences + entry.occurrences,
+      timestamp: entry.timestamp > existing.timestamp ? entry.timestamp : existing.timestamp,
+    });
+  }
+  return [...byShape.values()];
+}
@@ -0,0 +1,127 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { QueryShapesService } from './query-shapes.service';
+import { QueryShapeStats } from './schemas/query-shape-stats.schema';
+import { QueryRegression } from './schemas/query-regression.schema';
+import { AlertsService } from '../alerts/alerts.service';
+import { AlertEngineService } from '../alerts/alert-engine.service';
+import { ClustersService } from '../clusters/clusters.service';
+
+describe('QueryShapesService', () => {
+  let service: QueryShapesService;
+
+  const CLUSTER_ID = new Types.ObjectId().toString();
+  const ORG_ID = new Types.ObjectId();
+  const NOW = new Date('2026-01-08T12:30:00Z');
+
+  const exec = (value: unknown) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+  const mockShapeStatsModel = {
+    distinct: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const mockRegressionModel = {
+    distinct: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateMany: jest.fn(),
+  };
+
+  const cluster = { _id: new Types.ObjectId(CLUSTER_ID), orgId: ORG_ID, name: 'prod' };
+  const mockClustersService = { findById: jest.fn() };
+  const mockAlertsService = { findRulesForCluster: jest.fn() };
+  const mockAlertEngineService = { evaluateMetric: jest.fn() };
+
+  const bucket = (hoursAgo: number, latencies: number[]) => ({
+    clusterId: cluster._id,
+    orgId: ORG_ID,
+    queryHash: 'abc',
+    database: 'shop',
+    collection: 'orders',
+    operation: 'find',
+    queryShape: { status: '?string' },
+    bucketStart: new Date(Date.UTC(2026, 0, 8, 12 - hoursAgo)),
+    latencies,
+  });
+
+  const returnBuckets = (buckets: unknown[]) => {
+    mockShapeStatsModel.distinct.mockReturnValue(exec(buckets.length ? ['abc'] : []));
+    mockShapeStatsModel.find.mockReturnValue({ lean: () => exec(buckets) });
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QueryShapesService,
+        { provide: getModelToken(QueryShapeStats.name), useValue: mockShapeStatsModel },
+        { provide: getModelToken(QueryRegression.name), useValue: mockRegressionModel },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: ClustersService, useValue: mockClustersService },
+        { provide: AlertsService, useValue: mockAlertsService },
+        { provide: AlertEngineService, useValue: mockAlertEngineService },
+      ],
+    }).compile();
+
+    service = module.get<QueryShapesService>(QueryShapesService);
+
+    jest.clearAllMocks();
+    mockRegressionModel.distinct.mockReturnValue(exec([]));
+    mockRegressionModel.findOneAndUpdate.mockImplementation((_filter, update) =>
+      exec({ queryHash: 'abc', ratio: update.$set.ratio }),
+    );
+    mockRegressionModel.updateMany.mockReturnValue(exec({ modifiedCount: 0 }));
+    mockClustersService.findById.mockResolvedValue(cluster);
+    mockAlertsService.findRulesForCluster.mockResolvedValue([]);
+  });
+
+  describe('detectClusterRegressions', () => {
+    it('should open a finding when recent latency is well above the baseline', async () => {
+      returnBuckets([
+        bucket(30, Array(30).fill(200)),
+        bucket(1, Array(6).fill(600)),
+        bucket(0, Array(4).fill(650)),
+      ]);
+
+      const active = await service.detectClusterRegressions(CLUSTER_ID, NOW);
+
+      expect(active).toHaveLength(1);
+      const [filter, update] = mockRegressionModel.findOneAndUpdate.mock.calls[0];
+      expect(filter).toEqual({ clusterId: cluster._id, queryHash: 'abc', status: 'active' });
+      expect(update.$set).toMatchObject({ baselineP95Ms: 200, currentP95Ms: 650, baselineCount: 30, currentCount: 10, ratio: 3.25 });
+      expect(update.$setOnInsert).toMatchObject({ database: 'shop', collection: 'orders', detectedAt: NOW });
+      expect(mockRegressionModel.updateMany.mock.calls[0][0]).toMatchObject({ status: 'active', queryHash: { $nin: ['abc'] } });
+    });
+
+    it('should resolve findings of shapes that recovered', async () => {
+      returnBuckets([bucket(30, Array(30).fill(200)), bucket(0, Array(10).fill(210))]);
+
+      expect(await service.detectClusterRegressions(CLUSTER_ID, NOW)).toEqual([]);
+
+      expect(mockRegressionModel.findOneAndUpdate).not.toHaveBeenCalled();
+      const [filter, update] = mockRegressionModel.updateMany.mock.calls[0];
+      expect(filter.queryHash).toEqual({ $nin: [] });
+      expect(update.$set).toMatchObject({ status: 'resolved', resolvedAt: NOW });
+    });
+
+    it('should not reopen recently dismissed shapes', async () => {
+      returnBuckets([bucket(30, Array(30).fill(200)), bucket(0, Array(10).fill(900))]);
+      mockRegressionModel.distinct.mockReturnValue(exec(['abc']));
+
+      expect(await service.detectClusterRegressions(CLUSTER_ID, NOW)).toEqual([]);
+      expect(mockRegressionModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should feed the largest increase into query_regression alert rules', async () => {
+      const rule = { metricType: 'query_regression', condition: 'gt', threshold: 100 };
+      mockAlertsService.findRulesForCluster.mockResolvedValue([{ metricType: 'cpu_usage' }, rule]);
+      returnBuckets([bucket(30, Array(30).fill(200)), bucket(0, Array(10).fill(500))]);
+
+      await service.detectClusterRegressions(CLUSTER_ID, NOW);
+
+      expect(mockAlertEngineService.evaluateMetric).toHaveBeenCalledTimes(1);
+      expect(mockAlertEngineService.evaluateMetric).toHaveBeenCalledWith(rule, cluster, 150);
+    });
+  });
+});
@@ -0,0 +1,327 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import { QueryShapeStats, QueryShapeStatsDocument } from './schemas/query-shape-stats.schema';
+import { QueryRegression, QueryRegressionDocument, RegressionStatus } from './schemas/query-regression.schema';
+import { AlertsService } from '../alerts/alerts.service';
+import { AlertEngineService } from '../alerts/alert-engine.service';
+import { AlertRuleDocument } from '../alerts/schemas/alert-rule.schema';
+import { ClustersService } from '../clusters/clusters.service';
+import { QueryShapesQueryDto } from './dto/performance-advisor.dto';
+import {
+  detectRegression,
+  examinedToReturnedRatio,
+  hourBucket,
+  LatencySummary,
+  ShapeSample,
+  shapeStatsWrites,
+  summarizeLatencies,
+} from './query-shapes';
+
+/**
+ * Percentiles are computed over a bounded sample of the recorded latencies
+ * (see MAX_LATENCY_SAMPLES); `count` is every slow operation of the shape.
+ */
+export interface QueryShapeSummary extends LatencySummary {
+  queryHash: string;
+  database: string;
+  collection: string;
+  operation: string;
+  queryShape: Record<string, any>;
+  sort?: Record<string, any>;
+  avgExecutionTimeMs: number;
+  maxExecutionTimeMs: number;
+  totalExecutionTimeMs: number;
+  examinedToReturnedRatio: number;
+  lastSeenAt: Date;
+}
+
+export interface QueryShapeBucket extends LatencySummary {
+  bucketStart: Date;
+  avgExecutionTimeMs: number;
+  examinedToReturnedRatio: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const BASELINE_WINDOW_MS = 7 * 24 * HOUR_MS;
+// A dismissed regression is not raised again for the same shape within this time
+const DISMISS_SNOOZE_MS = 7 * 24 * HOUR_MS;
+
+/** Start of the recent window compared against the baseline: the previous hour's bucket */
+function recentWindowStart(now: Date): Date {
+  return hourBucket(new Date(now.getTime() - HOUR_MS));
+}
+
+/**
+ * Per-shape aggregates of slow operations over time, and detection of
+ * shapes whose latency regresses against their own baseline.
+ */
+@Injectable()
+export class QueryShapesService {
+  private readonly logger = new Logger(QueryShapesService.name);
+  private isDetecting = false;
+
+  constructor(
+    @InjectModel(QueryShapeStats.name) private shapeStatsModel: Model<QueryShapeStatsDocument>,
+    @InjectModel(QueryRegression.name) private regressionModel: Model<QueryRegressionDocument>,
+    private readonly configService: ConfigService,
+    private readonly clustersService: ClustersService,
+    private readonly alertsService: AlertsService,
+    private readonly alertEngineService: AlertEngineService,
+  ) {}
+
+  // ==================== Aggregates ====================
+
+  async recordSamples(clusterId: string, orgId: string, samples: ShapeSample[]): Promise<void> {
+    if (samples.length === 0) return;
+
+    const writes = shapeStatsWrites(new Types.ObjectId(clusterId), new Types.ObjectId(orgId), samples);
+    await this.shapeStatsModel.bulkWrite(writes, { ordered: false });
+  }
+
+  /**
+   * Shapes seen within the window, with percentiles over the sampled
+   * latencies. Only operations above the slow threshold are sampled, so
+   * these describe the slow tail of each shape.
+   */
+  async getShapes(clusterId: string, queryDto: QueryShapesQueryDto = {}): Promise<QueryShapeSummary[]> {
+    const since = new Date(Date.now() - (queryDto.days ?? 7) * 24 * HOUR_MS);
+    const match: Record<string, any> = { clusterId: new Types.ObjectId(clusterId), bucketStart: { $gte: hourBucket(since) } };
+    if (queryDto.database) match.database = queryDto.database;
+    if (queryDto.collection) match.collection = queryDto.collection;
+
+    const sortField = queryDto.sortBy === 'count' ? 'count' : queryDto.sortBy === 'maxTime' ? 'maxExecutionTimeMs' : 'totalExecutionTimeMs';
+
+    const groups = await this.shapeStatsModel.aggregate([
+      { $match: match },
+      { $sort: { bucketStart: 1 } },
+      {
+        $group: {
+          _id: '$queryHash',
+          database: { $first: '$database' },
+          collection: { $first: '$collection' },
+          operation: { $first: '$operation' },
+          queryShape: { $first: '$queryShape' },
+          sort: { $first: '$sort' },
+          count: { $sum: '$count' },
+          // Buckets written before sampledCount existed recorded one sample per operation
+          sampledCount: { $sum: { $ifNull: ['$sampledCount', '$count'] } },
+          totalExecutionTimeMs: { $sum: '$totalExecutionTimeMs' },
+          maxExecutionTimeMs: { $max: '$maxExecutionTimeMs' },
+          docsExamined: { $sum: '$docsExamined' },
+          docsReturned: { $sum: '$docsReturned' },
+          lastSeenAt: { $max: '$lastSeenAt' },
+        },
+      },
+      { $sort: { [sortField]: -1 } },
+      { $limit: queryDto.limit ?? 50 },
+    ]).exec();
+
+    // Latency samples only for the shapes returned, to keep the grouping small
+    const latencies = new Map<string, number[]>();
+    const buckets = await this.shapeStatsModel
+      .find({ ...match, queryHash: { $in: groups.map((group: any) => group._id) } }, { queryHash: 1, latencies: 1 })
+      .lean()
+      .exec();
+    for (const bucket of buckets) {
+      const list = latencies.get(bucket.queryHash) ?? [];
+      list.push(...bucket.latencies);
+      latencies.set(bucket.queryHash, list);
+    }
+
+    return groups.map((group: any) => ({
+      queryHash: group._id,
+      database: group.database,
+      collection: group.collection,
+      operation: group.operation,
+      queryShape: group.queryShape,
+      sort: group.sort ?? undefined,
+      ...summarizeLatencies(latencies.get(group._id) ?? []),
+      count: group.count,
+      avgExecutionTimeMs: Math.round(group.totalExecutionTimeMs / Math.max(group.sampledCount, 1)),
+      maxExecutionTimeMs: group.maxExecutionTimeMs,
+      totalExecutionTimeMs: group.totalExecutionTimeMs,
+      examinedToReturnedRatio: examinedToReturnedRatio(group.docsExamined, group.docsReturned),
+      lastSeenAt: group.lastSeenAt,
+    }));
+  }
+
+  /** Hourly aggregates of one shape */
+  async getShapeTimeline(clusterId: string, queryHash: string, days: number = 7): Promise<QueryShapeBucket[]> {
+    const since = hourBucket(new Date(Date.now() - days * 24 * HOUR_MS));
+    const buckets = await this.shapeStatsModel
+      .find({ clusterId: new Types.ObjectId(clusterId), queryHash, bucketStart: { $gte: since } })
+      .sort({ bucketStart: 1 })
+      .lean()
+      .exec();
+
+    if (buckets.length === 0) {
+      throw new NotFoundException({ code: 'QUERY_SHAPE_NOT_FOUND', message: 'Query shape not found' });
+    }
+
+    return buckets.map((bucket) => ({
+      bucketStart: bucket.bucketStart,
+      ...summarizeLatencies(bucket.latencies),
+      count: bucket.count,
+      avgExecutionTimeMs: Math.round(bucket.totalExecutionTimeMs / Math.max(bucket.sampledCount ?? bucket.count, 1)),
+      examinedToReturnedRatio: examinedToReturnedRatio(bucket.docsExamined, bucket.docsReturned),
+    }));
+  }
+
+  // ==================== Regressions ====================
+
+  async getRegressions(clusterId: string, status: RegressionStatus = 'active'): Promise<QueryRegression[]> {
+    return this.regressionModel
+      .find({ clusterId: new Types.ObjectId(clusterId), status })
+      .sort({ ratio: -1, detectedAt: -1 })
+      .exec();
+  }
+
+  async countActiveRegressions(clusterId: string): Promise<number> {
+    return this.regressionModel.countDocuments({ clusterId: new Types.ObjectId(clusterId), status: 'active' }).exec();
+  }
+
+  async dismissRegression(clusterId: string, regressionId: string, userId: string): Promise<QueryRegression> {
+    const regression = await this.regressionModel.findOneAndUpdate(
+      { _id: regressionId, clusterId: new Types.ObjectId(clusterId), status: 'active' },
+      { $set: { status: 'dismissed', dismissedAt: new Date(), dismissedBy: new Types.ObjectId(userId) } },
+      { new: true },
+    ).exec();
+    if (!regression) {
+      throw new NotFoundException({ code: 'REGRESSION_NOT_FOUND', message: 'Active regression not found' });
+    }
+    return regression;
+  }
+
+  @Interval(300000) // Every 5 minutes
+  async detectRegressions(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test' || this.isDetecting) {
+      return;
+    }
+
+    this.isDetecting = true;
+    try {
+      const recentStart = recentWindowStart(new Date());
+      const clusterIds = await this.shapeStatsModel.distinct('clusterId', { bucketStart: { $gte: recentStart } }).exec();
+      const withActive = await this.regressionModel.distinct('clusterId', { status: 'active' }).exec();
+      const ids = new Set([...clusterIds, ...withActive].map((id: any) => id.toString()));
+
+      for (const clusterId of ids) {
+        try {
+          await this.detectClusterRegressions(clusterId);
+        } catch (error: any) {
+          this.logger.warn(`Regression detection failed for cluster ${clusterId}: ${error.message}`);
+        }
+      }
+    } catch (error: any) {
+      this.logger.error(`Regression detection failed: ${error.message}`);
+    } finally {
+      this.isDetecting = false;
+    }
+  }
+
+  /**
+   * Compare each shape's recent hours with the week before, open or
+   * update findings for regressed shapes and resolve the ones that
+   * recovered. Returns the active regressions.
+   */
+  async detectClusterRegressions(clusterId: string, now: Date = new Date()): Promise<QueryRegressionDocument[]> {
+    const clusterObjectId = new Types.ObjectId(clusterId);
+    const recentStart = recentWindowStart(now);
+    const baselineStart = hourBucket(new Date(recentStart.getTime() - BASELINE_WINDOW_MS));
+
+    const recentHashes: string[] = await this.shapeStatsModel
+      .distinct('queryHash', { clusterId: clusterObjectId, bucketStart: { $gte: recentStart } })
+      .exec();
+    const buckets = recentHashes.length
+      ? await this.shapeStatsModel
+          .find({ clusterId: clusterObjectId, queryHash: { $in: recentHashes }, bucketStart: { $gte: baselineStart } })
+          .lean()
+          .exec()
+      : [];
+
+    const byShape = new Map<string, { sample: (typeof buckets)[number]; baseline: number[]; recent: number[] }>();
+    for (const bucket of buckets) {
+      const shape = byShape.get(bucket.queryHash) ?? { sample: bucket, baseline: [], recent: [] };
+      (bucket.bucketStart >= recentStart ? shape.recent : shape.baseline).push(...bucket.latencies);
+      byShape.set(bucket.queryHash, shape);
+    }
+
+    const snoozed = new Set<string>(
+      await this.regressionModel.distinct('queryHash', {
+        clusterId: clusterObjectId,
+        status: 'dismissed',
+        dismissedAt: { $gte: new Date(now.getTime() - DISMISS_SNOOZE_MS) },
+      }).exec(),
+    );
+
+    const active: QueryRegressionDocument[] = [];
+    for (const [queryHash, { sample, baseline, recent }] of byShape) {
+      if (snoozed.has(queryHash)) continue;
+
+      const baselineSummary = summarizeLatencies(baseline);
+      const recentSummary = summarizeLatencies(recent);
+      const ratio = detectRegression(baselineSummary, recentSummary);
+      if (ratio === null) continue;
+
+      const regression = await this.regressionModel.findOneAndUpdate(
+        { clusterId: clusterObjectId, queryHash, status: 'active' },
+        {
+          $set: {
+            baselineP95Ms: baselineSummary.p95,
+            currentP95Ms: recentSummary.p95,
+            baselineCount: baselineSummary.count,
+            currentCount: recentSummary.count,
+            ratio,
+            lastEvaluatedAt: now,
+          },
+          $setOnInsert: {
+            orgId: sample.orgId,
+            database: sample.database,
+            collection: sample.collection,
+            operation: sample.operation,
+            queryShape: sample.queryShape,
+            detectedAt: now,
+          },
+        },
+        { upsert: true, new: true },
+      ).exec();
+      active.push(regression);
+    }
+
+    const resolved = await this.regressionModel.updateMany(
+      { clusterId: clusterObjectId, status: 'active', queryHash: { $nin: active.map((r) => r.queryHash) } },
+      { $set: { status: 'resolved', resolvedAt: now, lastEvaluatedAt: now } },
+    ).exec();
+
+    if (active.length || resolved.modifiedCount) {
+      this.logger.log(`Cluster ${clusterId}: ${active.length} query regression(s) active, ${resolved.modifiedCount} resolved`);
+    }
+
+    await this.evaluateAlertRules(clusterId, active);
+    return active;
+  }
+
+  /**
+   * Feed the largest regression into the cluster's query_regression alert
+   * rules; with no regression the value is 0, which resolves open alerts.
+   */
+  private async evaluateAlertRules(clusterId: string, active: QueryRegressionDocument[]): Promise<void> {
+    const cluster = await this.clustersService.findById(clusterId);
+    if (!cluster) return;
+
+    const rules = (await this.alertsService.findRulesForCluster(cluster.orgId.toString(), clusterId))
+      .filter((rule) => rule.metricType === 'query_regression');
+    if (rules.length === 0) return;
+
+    const increasePercent = active.length
+      ? Math.round((Math.max(...active.map((r) => r.ratio)) - 1) * 100)
+      : 0;
+
+    for (const rule of rules) {
+      await this.alertEngineService.evaluateMetric(rule as AlertRuleDocument, cluster, increasePercent);
+    }
+  }
+}
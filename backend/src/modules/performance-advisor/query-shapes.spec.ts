@@ -0,0 +1,109 @@
+import {
+  detectRegression,
+  examinedToReturnedRatio,
+  hourBucket,
+  MAX_LATENCY_SAMPLES,
+  percentile,
+  ShapeSample,
+  shapeStatsWrites,
+  summarizeLatencies,
+} from './query-shapes';
+
+describe('query-shapes', () => {
+  // ==================== Percentiles ====================
+
+  describe('summarizeLatencies', () => {
+    it('should compute nearest-rank percentiles', () => {
+      const latencies = Array.from({ length: 100 }, (_, i) => 100 - i);
+
+      expect(summarizeLatencies(latencies)).toEqual({ count: 100, p50: 50, p95: 95, p99: 99 });
+    });
+
+    it('should handle small and empty samples', () => {
+      expect(summarizeLatencies([])).toEqual({ count: 0, p50: 0, p95: 0, p99: 0 });
+      expect(summarizeLatencies([300])).toEqual({ count: 1, p50: 300, p95: 300, p99: 300 });
+      expect(percentile([100, 200, 300], 50)).toBe(200);
+    });
+  });
+
+  it('should compute the docs examined per returned ratio', () => {
+    expect(examinedToReturnedRatio(5000, 10)).toBe(500);
+    expect(examinedToReturnedRatio(300, 0)).toBe(300);
+    expect(examinedToReturnedRatio(0, 0)).toBe(0);
+  });
+
+  // ==================== Regressions ====================
+
+  describe('detectRegression', () => {
+    const summary = (count: number, p95: number) => ({ count, p50: p95, p95, p99: p95 });
+
+    it('should report the p95 ratio of regressed shapes', () => {
+      expect(detectRegression(summary(100, 200), summary(10, 500))).toBe(2.5);
+    });
+
+    it('should ignore small or relative-only increases', () => {
+      expect(detectRegression(summary(100, 200), summary(10, 280))).toBeNull();
+      // 3x slower but only 40ms in absolute terms
+      expect(detectRegression(summary(100, 20), summary(10, 60))).toBeNull();
+    });
+
+    it('should require enough samples on both sides', () => {
+      expect(detectRegression(summary(5, 200), summary(10, 800))).toBeNull();
+      expect(detectRegression(summary(100, 200), summary(2, 800))).toBeNull();
+    });
+  });
+
+  // ==================== Buckets ====================
+
+  describe('shapeStatsWrites', () => {
+    const sample = (queryHash: string, executionTimeMs: number, timestamp: string, occurrences = 1): ShapeSample => ({
+      database: 'shop',
+      collection: 'orders',
+      operation: 'find',
+      queryShape: { status: '?string' },
+      queryHash,
+      executionTimeMs,
+      docsExamined: 1000,
+      docsReturned: 10,
+      timestamp: new Date(timestamp),
+      occurrences,
+    });
+
+    it('should add samples to one bucket per shape and hour', () => {
+      const writes = shapeStatsWrites('cluster', 'org', [
+        sample('a', 200, '2026-01-01T10:05:00Z'),
+        sample('a', 400, '2026-01-01T10:55:00Z'),
+        sample('a', 300, '2026-01-01T11:01:00Z'),
+        sample('b', 150, '2026-01-01T10:30:00Z'),
+      ]);
+
+      expect(writes).toHaveLength(3);
+      const first = writes[0].updateOne;
+      expect(first.filter).toEqual({ clusterId: 'cluster', queryHash: 'a', bucketStart: new Date('2026-01-01T10:00:00Z') });
+      expect(first.upsert).toBe(true);
+      expect(first.update.$inc).toEqual({
+        count: 2,
+        sampledCount: 2,
+        totalExecutionTimeMs: 600,
+        docsExamined: 2000,
+        docsReturned: 20,
+      });
+      expect(first.update.$max).toEqual({ maxExecutionTimeMs: 400, lastSeenAt: new Date('2026-01-01T10:55:00Z') });
+      expect(first.update.$push).toEqual({ latencies: { $each: [200, 400], $slice: -MAX_LATENCY_SAMPLES } });
+      expect(first.update.$setOnInsert).toMatchObject({ orgId: 'org', queryShape: { status: '?string' } });
+    });
+
+    it('should count every occurrence of collapsed samples', () => {
+      const [write] = shapeStatsWrites('cluster', 'org', [
+        sample('a', 200, '2026-01-01T10:05:00Z', 3),
+        sample('a', 100, '2026-01-01T10:06:00Z'),
+      ]);
+
+      expect(write.updateOne.update.$inc).toMatchObject({ count: 4, sampledCount: 2, totalExecutionTimeMs: 300 });
+    });
+  });
+
+  it('should truncate timestamps to the hour', () => {
+    expect(hourBucket(new Date('2026-01-01T10:59:59.999Z'))).toEqual(new Date('2026-01-01T10:00:00Z'));
+  });
+});
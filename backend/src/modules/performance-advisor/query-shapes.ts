@@ -0,0 +1,136 @@
+import { CollectedSlowQuery } from './profiler-entries';
+
+/**
+ * One recorded operation of a query shape. `occurrences` counts the
+ * operations it stands for when several were collapsed into it.
+ */
+export type ShapeSample = Pick<
+  CollectedSlowQuery,
+  'database' | 'collection' | 'operation' | 'queryShape' | 'queryHash' | 'sort' | 'executionTimeMs' | 'docsExamined' | 'docsReturned' | 'timestamp' | 'occurrences'
+>;
+
+export interface LatencySummary {
+  count: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface RegressionThresholds {
+  /** Recent p95 must be at least this multiple of the baseline p95 */
+  minRatio: number;
+  /** ...and at least this many milliseconds slower, to ignore noise on fast shapes */
+  minIncreaseMs: number;
+  minBaselineCount: number;
+  minRecentCount: number;
+}
+
+export const DEFAULT_REGRESSION_THRESHOLDS: RegressionThresholds = {
+  minRatio: 1.5,
+  minIncreaseMs: 50,
+  minBaselineCount: 20,
+  minRecentCount: 5,
+};
+
+// Latencies kept per shape and hour for percentiles
+export const MAX_LATENCY_SAMPLES = 200;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function hourBucket(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / HOUR_MS) * HOUR_MS);
+}
+
+/** Nearest-rank percentile of an ascending list */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export function summarizeLatencies(latencies: number[]): LatencySummary {
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+  };
+}
+
+/** Docs examined per doc returned; high values point at missing indexes */
+export function examinedToReturnedRatio(docsExamined: number, docsReturned: number): number {
+  if (docsExamined === 0) return 0;
+  return Math.round((docsExamined / Math.max(docsReturned, 1)) * 100) / 100;
+}
+
+/**
+ * Whether a shape's recent latency regressed versus its own baseline.
+ * Returns the p95 ratio when it did, null otherwise.
+ */
+export function detectRegression(
+  baseline: LatencySummary,
+  recent: LatencySummary,
+  thresholds: RegressionThresholds = DEFAULT_REGRESSION_THRESHOLDS,
+): number | null {
+  if (baseline.count < thresholds.minBaselineCount || recent.count < thresholds.minRecentCount) {
+    return null;
+  }
+  if (baseline.p95 <= 0) {
+    return null;
+  }
+
+  const ratio = recent.p95 / baseline.p95;
+  if (ratio < thresholds.minRatio || recent.p95 - baseline.p95 < thresholds.minIncreaseMs) {
+    return null;
+  }
+  return Math.round(ratio * 100) / 100;
+}
+
+/**
+ * Upserts adding samples to their shape's hourly bucket, one per shape
+ * and hour. `count` covers every occurrence, while times and document
+ * counts are only known for the recorded samples (`sampledCount`).
+ */
+export function shapeStatsWrites(clusterId: unknown, orgId: unknown, samples: ShapeSample[]): any[] {
+  const buckets = new Map<string, { sample: ShapeSample; bucketStart: Date; items: ShapeSample[] }>();
+
+  for (const sample of samples) {
+    const bucketStart = hourBucket(sample.timestamp);
+    const key = `${sample.queryHash}:${bucketStart.getTime()}`;
+    const bucket = buckets.get(key) ?? { sample, bucketStart, items: [] };
+    bucket.items.push(sample);
+    buckets.set(key, bucket);
+  }
+
+  return [...buckets.values()].map(({ sample, bucketStart, items }) => ({
+    updateOne: {
+      filter: { clusterId, queryHash: sample.queryHash, bucketStart },
+      update: {
+        $setOnInsert: {
+          orgId,
+          database: sample.database,
+          collection: sample.collection,
+          operation: sample.operation,
+          queryShape: sample.queryShape,
+          ...(sample.sort ? { sort: sample.sort } : {}),
+        },
+        $inc: {
+          count: items.reduce((sum, item) => sum + item.occurrences, 0),
+          sampledCount: items.length,
+          totalExecutionTimeMs: items.reduce((sum, item) => sum + item.executionTimeMs, 0),
+          docsExamined: items.reduce((sum, item) => sum + item.docsExamined, 0),
+          docsReturned: items.reduce((sum, item) => sum + item.docsReturned, 0),
+        },
+        $max: {
+          maxExecutionTimeMs: Math.max(...items.map((item) => item.executionTimeMs)),
+          lastSeenAt: new Date(Math.max(...items.map((item) => item.timestamp.getTime()))),
+        },
+        $push: {
+          latencies: { $each: items.map((item) => item.executionTimeMs), $slice: -MAX_LATENCY_SAMPLES },
+        },
+      },
+      upsert: true,
+    },
+  }));
+}
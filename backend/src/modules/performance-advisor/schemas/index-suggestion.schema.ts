@@ -1,9 +1,11 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { DropReason } from '../index-usage';
 
 export type IndexSuggestionDocument = IndexSuggestion & Document;
 
-export type SuggestionStatus = 'pending' | 'applied' | 'dismissed' | 'expired';
+export type SuggestionStatus = 'pending' | 'hidden' | 'applied' | 'dismissed' | 'expired';
+export type SuggestionType = 'create' | 'drop';
 export type ImpactLevel = 'high' | 'medium' | 'low';
 
 @Schema({
@@ -33,6 +35,10 @@ export class IndexSuggestion {
   @Prop({ required: true })
   collection: string;
 
+  @Prop({ required: true, enum: ['create', 'drop'], default: 'create' })
+  type: SuggestionType;
+
+  // For drop suggestions, the key and name of the existing index
   @Prop({ type: Object, required: true })
   suggestedIndex: Record<string, 1 | -1>;
 
@@ -57,9 +63,33 @@ export class IndexSuggestion {
   @Prop({ default: 0 })
   estimatedImprovementPercent: number;
 
-  @Prop({ required: true, enum: ['pending', 'applied', 'dismissed', 'expired'], default: 'pending' })
+  @Prop({ enum: ['unused', 'redundant'] })
+  dropReason?: DropReason;
+
+  // Index that serves the same queries as a redundant one
+  @Prop()
+  coveredBy?: string;
+
+  // Index size freed by dropping it
+  @Prop()
+  estimatedBytes?: number;
+
+  // $indexStats accesses since the counters started
+  @Prop()
+  accessOps?: number;
+
+  @Prop()
+  accessSince?: Date;
+
+  @Prop({ required: true, enum: ['pending', 'hidden', 'applied', 'dismissed', 'expired'], default: 'pending' })
   status: SuggestionStatus;
 
+  @Prop()
+  hiddenAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  hiddenBy?: Types.ObjectId;
+
   @Prop()
   appliedAt?: Date;
 
@@ -86,6 +116,7 @@ export const IndexSuggestionSchema = SchemaFactory.createForClass(IndexSuggestio
 
 // Indexes
 IndexSuggestionSchema.index({ clusterId: 1, status: 1 });
+IndexSuggestionSchema.index({ clusterId: 1, type: 1, status: 1 });
 IndexSuggestionSchema.index({ clusterId: 1, database: 1, collection: 1 });
 IndexSuggestionSchema.index({ impact: 1, status: 1 });
 
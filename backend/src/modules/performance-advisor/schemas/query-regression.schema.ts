@@ -0,0 +1,89 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type QueryRegressionDocument = QueryRegression & Document;
+
+export type RegressionStatus = 'active' | 'resolved' | 'dismissed';
+
+/** A query shape whose recent latency is well above its own baseline */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_: any, ret: any) => {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class QueryRegression {
+  id: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Cluster', required: true })
+  clusterId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  orgId: Types.ObjectId;
+
+  @Prop({ required: true })
+  queryHash: string;
+
+  @Prop({ required: true })
+  database: string;
+
+  @Prop({ required: true })
+  collection: string;
+
+  @Prop({ required: true })
+  operation: string;
+
+  @Prop({ type: Object })
+  queryShape: Record<string, any>;
+
+  @Prop({ required: true })
+  baselineP95Ms: number;
+
+  @Prop({ required: true })
+  currentP95Ms: number;
+
+  @Prop({ default: 0 })
+  baselineCount: number;
+
+  @Prop({ default: 0 })
+  currentCount: number;
+
+  // currentP95Ms / baselineP95Ms
+  @Prop({ required: true })
+  ratio: number;
+
+  @Prop({ required: true, enum: ['active', 'resolved', 'dismissed'], default: 'active' })
+  status: RegressionStatus;
+
+  @Prop({ required: true })
+  detectedAt: Date;
+
+  @Prop()
+  lastEvaluatedAt?: Date;
+
+  @Prop()
+  resolvedAt?: Date;
+
+  @Prop()
+  dismissedAt?: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  dismissedBy?: Types.ObjectId;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const QueryRegressionSchema = SchemaFactory.createForClass(QueryRegression);
+
+QueryRegressionSchema.index({ clusterId: 1, status: 1, detectedAt: -1 });
+QueryRegressionSchema.index({ clusterId: 1, queryHash: 1, status: 1 });
@@ -0,0 +1,89 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type QueryShapeStatsDocument = QueryShapeStats & Document;
+
+/**
+ * Slow operations of one query shape within one hour. `count` covers every
+ * operation; execution times and document counts are summed over the
+ * recorded samples (`sampledCount`), and latencies keep a bounded sample of
+ * those for percentiles.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_: any, ret: any) => {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class QueryShapeStats {
+  id: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Cluster', required: true })
+  clusterId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  orgId: Types.ObjectId;
+
+  @Prop({ required: true })
+  queryHash: string;
+
+  @Prop({ required: true })
+  database: string;
+
+  @Prop({ required: true })
+  collection: string;
+
+  @Prop({ required: true })
+  operation: string;
+
+  @Prop({ type: Object })
+  queryShape: Record<string, any>;
+
+  @Prop({ type: Object })
+  sort?: Record<string, any>;
+
+  @Prop({ required: true })
+  bucketStart: Date;
+
+  @Prop({ default: 0 })
+  count: number;
+
+  @Prop({ default: 0 })
+  sampledCount: number;
+
+  @Prop({ default: 0 })
+  totalExecutionTimeMs: number;
+
+  @Prop({ default: 0 })
+  maxExecutionTimeMs: number;
+
+  @Prop({ type: [Number], default: [] })
+  latencies: number[];
+
+  @Prop({ default: 0 })
+  docsExamined: number;
+
+  @Prop({ default: 0 })
+  docsReturned: number;
+
+  @Prop()
+  lastSeenAt: Date;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const QueryShapeStatsSchema = SchemaFactory.createForClass(QueryShapeStats);
+
+QueryShapeStatsSchema.index({ clusterId: 1, queryHash: 1, bucketStart: 1 }, { unique: true });
+QueryShapeStatsSchema.index({ clusterId: 1, bucketStart: -1 });
+QueryShapeStatsSchema.index({ bucketStart: 1 }, { expireAfterSeconds: 60 * 60 * 24 * 30 }); // 30 days TTL
@@ -1,5 +1,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
+import { SlowQuerySource } from '../profiler-entries';
 
 export type SlowQueryDocument = SlowQuery & Document;
 
@@ -39,6 +40,14 @@ export class SlowQuery {
   @Prop({ type: Object })
   sort?: Record<string, any>;
 
+  // Filter with literals replaced by type placeholders
+  @Prop({ type: Object })
+  queryShape?: Record<string, any>;
+
+  // Fingerprint of namespace, operation, shape and sort
+  @Prop({ index: true })
+  queryHash?: string;
+
   @Prop({ type: Object })
   projection?: Record<string, any>;
 
@@ -81,6 +90,17 @@ export class SlowQuery {
   @Prop()
   user?: string;
 
+  @Prop({ enum: ['profiler', 'currentOp', 'manual'], default: 'manual' })
+  source: SlowQuerySource;
+
+  // Operations of this shape collapsed into this record by one collection run
+  @Prop({ default: 1 })
+  occurrences: number;
+
+  // Operation ID of a running operation, to update it on the next run
+  @Prop()
+  opid?: string;
+
   @Prop({ required: true, index: true })
   timestamp: Date;
 
@@ -97,6 +117,7 @@ export const SlowQuerySchema = SchemaFactory.createForClass(SlowQuery);
 SlowQuerySchema.index({ clusterId: 1, timestamp: -1 });
 SlowQuerySchema.index({ clusterId: 1, executionTimeMs: -1 });
 SlowQuerySchema.index({ clusterId: 1, database: 1, collection: 1 });
+SlowQuerySchema.index({ clusterId: 1, source: 1, database: 1, timestamp: -1 });
 SlowQuerySchema.index({ timestamp: 1 }, { expireAfterSeconds: 60 * 60 * 24 * 30 }); // 30 days TTL
 
 
@@ -11,13 +11,15 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiResponse } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { CurrentProjectAccess } from '../../common/decorators/project-access.decorator';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { PitrService } from './pitr.service';
 import { EnablePitrDto, UpdatePitrConfigDto, CreatePitrRestoreDto } from './dto/pitr.dto';
 
 @ApiTags('Point-in-Time Recovery')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/pitr')
 export class PitrController {
   constructor(private readonly pitrService: PitrService) {}
@@ -38,10 +40,8 @@ export class PitrController {
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Body() dto: EnablePitrDto,
-    @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
   ) {
-    // In production, get orgId from project
-    const orgId = user.userId; // Placeholder - should be fetched from project
     const config = await this.pitrService.enablePitr(clusterId, orgId, projectId, dto);
     return {
       success: true,
@@ -55,9 +55,8 @@ export class PitrController {
   async disablePitr(
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
-    @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
   ) {
-    const orgId = user.userId;
     const config = await this.pitrService.disablePitr(clusterId, orgId, projectId);
     return {
       success: true,
@@ -106,8 +105,8 @@ export class PitrController {
     @Param('clusterId') clusterId: string,
     @Body() dto: CreatePitrRestoreDto,
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
   ) {
-    const orgId = user.userId;
     const restore = await this.pitrService.createRestore(
       clusterId,
       orgId,
@@ -124,8 +123,11 @@ export class PitrController {
 
   @Get('restore/:restoreId')
   @ApiOperation({ summary: 'Get restore status' })
-  async getRestore(@Param('restoreId') restoreId: string) {
-    const restore = await this.pitrService.getRestore(restoreId);
+  async getRestore(
+    @Param('clusterId') clusterId: string,
+    @Param('restoreId') restoreId: string,
+  ) {
+    const restore = await this.pitrService.getRestore(clusterId, restoreId);
     if (!restore) {
       throw new NotFoundException('Restore not found');
     }
@@ -147,8 +149,11 @@ export class PitrController {
 
   @Delete('restore/:restoreId')
   @ApiOperation({ summary: 'Cancel an in-progress restore' })
-  async cancelRestore(@Param('restoreId') restoreId: string) {
-    const restore = await this.pitrService.cancelRestore(restoreId);
+  async cancelRestore(
+    @Param('clusterId') clusterId: string,
+    @Param('restoreId') restoreId: string,
+  ) {
+    const restore = await this.pitrService.cancelRestore(clusterId, restoreId);
     return {
       success: true,
       data: restore,
@@ -1,4 +1,4 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { PitrService } from './pitr.service';
 import { PitrController } from './pitr.controller';
@@ -7,6 +7,9 @@ import { OplogEntry, OplogEntrySchema } from './schemas/oplog-entry.schema';
 import { PitrRestore, PitrRestoreSchema } from './schemas/pitr-restore.schema';
 import { EventsModule } from '../events/events.module';
 import { BackupsModule } from '../backups/backups.module';
+import { ClustersModule } from '../clusters/clusters.module';
+import { KubernetesModule } from '../kubernetes/kubernetes.module';
+import { DataExplorerModule } from '../data-explorer/data-explorer.module';
 
 @Module({
   imports: [
@@ -17,6 +20,9 @@ import { BackupsModule } from '../backups/backups.module';
     ]),
     EventsModule,
     BackupsModule,
+    forwardRef(() => ClustersModule),
+    KubernetesModule,
+    DataExplorerModule,
   ],
   controllers: [PitrController],
   providers: [PitrService],
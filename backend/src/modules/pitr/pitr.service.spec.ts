@@ -0,0 +1,238 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BSON, Document, Timestamp } from 'mongodb';
+import { PitrService } from './pitr.service';
+import { PitrConfig } from './schemas/pitr-config.schema';
+import { OplogEntry } from './schemas/oplog-entry.schema';
+import { PitrRestore } from './schemas/pitr-restore.schema';
+import { EventsEnhancedService } from '../events/events-enhanced.service';
+import { BackupsService } from '../backups/backups.service';
+import { ClustersService } from '../clusters/clusters.service';
+import { KubernetesService } from '../kubernetes/kubernetes.service';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+
+describe('PitrService', () => {
+  let service: PitrService;
+
+  const CLUSTER_ID = new Types.ObjectId();
+  const ORG_ID = new Types.ObjectId();
+  const WALL = new Date('2026-03-01T10:00:00.000Z');
+
+  let oplog: Document[];
+  let stored: Document[];
+
+  const oplogFind = jest.fn((filter: Document) => {
+    const cursor = {
+      sort: () => cursor,
+      limit: () => cursor,
+      toArray: async () =>
+        oplog.filter((entry) =>
+          filter.ts.$gte ? entry.ts.greaterThanOrEqual(filter.ts.$gte) : entry.ts.greaterThan(filter.ts.$gt),
+        ),
+    };
+    return cursor;
+  });
+  const adminCommand = jest.fn();
+
+  const client = {
+    db: (name: string) =>
+      name === 'local' ? { collection: () => ({ find: oplogFind }) } : { command: adminCommand },
+  };
+
+  const mockOplogEntryModel = {
+    find: jest.fn(() => {
+      const query: any = {
+        select: () => query,
+        sort: jest.fn(() => query),
+        lean: () => query,
+        cursor: () => stored[Symbol.iterator](),
+      };
+      return query;
+    }),
+  };
+
+  const mockPitrRestoreModel = {
+    findByIdAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  /** A captured oplog entry as stored by captureRealOplog */
+  const captured = (entry: Document) => ({ raw: Buffer.from(BSON.serialize(entry)) });
+
+  const insert = (t: number, i: number, doc: Document) => ({
+    ts: new Timestamp({ t, i }),
+    wall: WALL,
+    op: 'i',
+    ns: 'shop.orders',
+    ui: new BSON.UUID(),
+    o: doc,
+  });
+
+  const restore = (overrides: Record<string, any> = {}): any => ({
+    _id: new Types.ObjectId(),
+    id: 'restore-1',
+    sourceClusterId: CLUSTER_ID,
+    restorePointTimestamp: WALL,
+    totalOplogEntries: 3,
+    metadata: { oplogStartTs: 0 },
+    ...overrides,
+  });
+
+  const config = (overrides: Record<string, any> = {}): any => ({
+    clusterId: CLUSTER_ID,
+    orgId: ORG_ID,
+    enabledAt: new Date('2026-03-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PitrService,
+        { provide: getModelToken(PitrConfig.name), useValue: {} },
+        { provide: getModelToken(OplogEntry.name), useValue: mockOplogEntryModel },
+        { provide: getModelToken(PitrRestore.name), useValue: mockPitrRestoreModel },
+        { provide: EventsEnhancedService, useValue: {} },
+        { provide: BackupsService, useValue: {} },
+        { provide: ClustersService, useValue: {} },
+        { provide: KubernetesService, useValue: {} },
+        { provide: DataExplorerService, useValue: { getConnection: jest.fn(async () => client) } },
+      ],
+    }).compile();
+
+    service = module.get<PitrService>(PitrService);
+
+    jest.clearAllMocks();
+    oplog = [];
+    stored = [];
+    adminCommand.mockResolvedValue({ ok: 1 });
+    mockPitrRestoreModel.findByIdAndUpdate.mockResolvedValue({ status: 'restoring' });
+    mockPitrRestoreModel.updateOne.mockResolvedValue({ matchedCount: 1 });
+  });
+
+  describe('toApplyOp', () => {
+    const toApplyOp = (entry: Document) => (service as any).toApplyOp(entry);
+
+    it('should keep only the fields applyOps accepts', () => {
+      const update = {
+        ...insert(1, 1, { $v: 2, diff: { u: { status: 'paid' } } }),
+        op: 'u',
+        o2: { _id: 1 },
+      };
+
+      expect(toApplyOp(update)).toEqual({
+        op: 'u',
+        ns: 'shop.orders',
+        o: { $v: 2, diff: { u: { status: 'paid' } } },
+        o2: { _id: 1 },
+      });
+    });
+
+    it('should skip no-ops and prepared transaction markers', () => {
+      expect(toApplyOp({ op: 'n', ns: '', o: { msg: 'periodic noop' } })).toBeNull();
+      expect(toApplyOp({ op: 'c', ns: 'admin.$cmd', o: { commitTransaction: 1 } })).toBeNull();
+      expect(toApplyOp({ op: 'c', ns: 'admin.$cmd', o: { abortTransaction: 1 } })).toBeNull();
+    });
+
+    it('should unwrap the operations of a transaction', () => {
+      const transaction = {
+        op: 'c',
+        ns: 'admin.$cmd',
+        o: {
+          applyOps: [
+            insert(1, 1, { _id: 1 }),
+            { op: 'n', ns: '', o: {} },
+          ],
+        },
+      };
+
+      expect(toApplyOp(transaction)).toEqual({
+        op: 'c',
+        ns: 'admin.$cmd',
+        o: { applyOps: [{ op: 'i', ns: 'shop.orders', o: { _id: 1 } }] },
+      });
+    });
+  });
+
+  describe('replayOplog', () => {
+    const replay = () => (service as any).replayOplog(restore(), 'target-cluster');
+
+    it('should apply captured entries in oplog order', async () => {
+      stored = [
+        captured(insert(100, 1, { _id: 1 })),
+        captured(insert(100, 2, { _id: 2 })),
+        captured({ op: 'n', ns: '', o: {}, ts: new Timestamp({ t: 100, i: 3 }) }),
+      ];
+
+      await expect(replay()).resolves.toEqual({ applied: 2, skipped: 1 });
+
+      const sort = mockOplogEntryModel.find.mock.results[0].value.sort;
+      expect(sort).toHaveBeenCalledWith({ 'opTime.t': 1, 'opTime.i': 1 });
+      expect(adminCommand).toHaveBeenCalledWith({
+        applyOps: [
+          { op: 'i', ns: 'shop.orders', o: { _id: 1 } },
+          { op: 'i', ns: 'shop.orders', o: { _id: 2 } },
+        ],
+      });
+    });
+
+    it('should skip entries without a raw copy', async () => {
+      stored = [{ op: 'i', ns: 'shop.orders', o: { _id: 1 } }];
+
+      await expect(replay()).resolves.toEqual({ applied: 0, skipped: 1 });
+      expect(adminCommand).not.toHaveBeenCalled();
+    });
+
+    it('should stop when the restore was cancelled', async () => {
+      stored = [captured(insert(100, 1, { _id: 1 }))];
+      mockPitrRestoreModel.findByIdAndUpdate.mockResolvedValue({ status: 'cancelled' });
+
+      await expect(replay()).rejects.toThrow('was cancelled');
+    });
+  });
+
+  describe('captureRealOplog', () => {
+    const capture = (pitrConfig: any, now = new Date('2026-03-01T10:05:00Z')) =>
+      (service as any).captureRealOplog(pitrConfig, 'batch-1', now);
+
+    it('should store the raw entry with its oplog Timestamp and resume after it', async () => {
+      oplog = [
+        insert(99, 7, { _id: 0 }),
+        insert(100, 1, { _id: 1 }),
+        insert(100, 2, { _id: 2 }),
+        { ts: new Timestamp({ t: 100, i: 3 }), wall: WALL, op: 'n', ns: '', o: { msg: 'periodic noop' } },
+        { ts: new Timestamp({ t: 100, i: 4 }), wall: WALL, op: 'i', ns: 'config.system.sessions', o: {} },
+      ];
+      const pitrConfig = config({ lastOplogTimestamp: { t: 99, i: 7 } });
+
+      const { entries, rolledOver } = await capture(pitrConfig);
+
+      expect(rolledOver).toBe(false);
+      expect(pitrConfig.oplogGapAt).toBeUndefined();
+      expect(entries.map((entry: Document) => entry.opTime)).toEqual([{ t: 100, i: 1 }, { t: 100, i: 2 }]);
+      expect(entries[0]).toMatchObject({ timestamp: WALL, op: 'i', ns: 'shop.orders', batchId: 'batch-1' });
+      expect(entries[0]).not.toHaveProperty('o');
+      expect(BSON.deserialize(entries[1].raw).o).toEqual({ _id: 2 });
+      expect(pitrConfig.lastOplogTimestamp).toEqual({ t: 100, i: 4 });
+    });
+
+    it('should capture up to now when the oplog is drained', async () => {
+      const now = new Date('2026-03-01T10:05:00Z');
+
+      await expect(capture(config(), now)).resolves.toEqual({ entries: [], capturedThrough: now, rolledOver: false });
+    });
+
+    it('should cut the restore window when the oplog rolled over past the resume point', async () => {
+      const laterWall = new Date('2026-03-01T10:03:00Z');
+      oplog = [{ ...insert(105, 1, { _id: 3 }), wall: laterWall }];
+      const pitrConfig = config({ lastOplogTimestamp: { t: 99, i: 7 } });
+
+      const { entries, rolledOver } = await capture(pitrConfig);
+
+      expect(rolledOver).toBe(true);
+      expect(pitrConfig.oplogGapAt).toEqual(laterWall);
+      expect(entries.map((entry: Document) => entry.opTime)).toEqual([{ t: 105, i: 1 }]);
+    });
+  });
+});
@@ -1,15 +1,33 @@
-import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException, Inject, forwardRef } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { BSON, Binary, Document, Timestamp } from 'mongodb';
 import { PitrConfig, PitrConfigDocument } from './schemas/pitr-config.schema';
 import { OplogEntry, OplogEntryDocument } from './schemas/oplog-entry.schema';
-import { PitrRestore, PitrRestoreDocument, PitrRestoreStatus } from './schemas/pitr-restore.schema';
+import { PitrRestore, PitrRestoreDocument } from './schemas/pitr-restore.schema';
 import { EnablePitrDto, UpdatePitrConfigDto, CreatePitrRestoreDto, OplogStatsResponse, PitrRestoreWindowResponse } from './dto/pitr.dto';
 import { EventsEnhancedService } from '../events/events-enhanced.service';
 import { BackupsService } from '../backups/backups.service';
+import { ClustersService } from '../clusters/clusters.service';
+import { KubernetesService } from '../kubernetes/kubernetes.service';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
 import { v4 as uuidv4 } from 'uuid';
 
+/** Oplog entries read from a cluster per capture tick */
+const OPLOG_CAPTURE_BATCH_SIZE = 5000;
+
+/** Limits for a single applyOps command during replay (the command itself must stay below 16MB) */
+const REPLAY_BATCH_ENTRIES = 500;
+const REPLAY_BATCH_BYTES = 4 * 1024 * 1024;
+
+/** Thrown inside the restore pipeline once the restore was cancelled by a user */
+class RestoreCancelledError extends Error {
+  constructor(restoreId: string) {
+    super(`Restore ${restoreId} was cancelled`);
+  }
+}
+
 @Injectable()
 export class PitrService {
   private readonly logger = new Logger(PitrService.name);
@@ -20,6 +38,10 @@ export class PitrService {
     @InjectModel(PitrRestore.name) private pitrRestoreModel: Model<PitrRestoreDocument>,
     private eventsService: EventsEnhancedService,
     private backupsService: BackupsService,
+    @Inject(forwardRef(() => ClustersService))
+    private clustersService: ClustersService,
+    private kubernetesService: KubernetesService,
+    private dataExplorerService: DataExplorerService,
   ) {}
 
   async enablePitr(
@@ -148,9 +170,15 @@ export class PitrService {
       this.getOplogStats(clusterId),
     ]);
 
+    // Entries from before an oplog rollover can't be replayed across the missing operations
+    let oldestRestorePoint = oldestEntry?.timestamp || config.oldestRestorePoint;
+    if (config.oplogGapAt && (!oldestRestorePoint || oldestRestorePoint < config.oplogGapAt)) {
+      oldestRestorePoint = config.oplogGapAt;
+    }
+
     return {
       enabled: true,
-      oldestRestorePoint: oldestEntry?.timestamp || config.oldestRestorePoint,
+      oldestRestorePoint,
       latestRestorePoint: newestEntry?.timestamp || config.latestRestorePoint,
       retentionDays: config.retentionDays,
       storageSizeBytes: stats.storageSizeBytes,
@@ -231,14 +259,42 @@ export class PitrService {
       );
     }
 
-    // Find the closest snapshot before the restore point
-    const baseSnapshot = await this.backupsService.getLatest(clusterId);
+    // Base the restore on the latest snapshot taken before the restore point
+    const baseSnapshot = await this.backupsService.findLatestCompletedBefore(clusterId, restorePoint);
+    if (!baseSnapshot || !baseSnapshot.completedAt) {
+      throw new BadRequestException({
+        code: 'PITR_NO_BASE_SNAPSHOT',
+        message: 'No completed snapshot exists before the requested restore point',
+      });
+    }
+
+    // The dump is not a consistent cut, so replay from the moment it started (oplog ops are idempotent)
+    const replayFrom = baseSnapshot.startedAt || baseSnapshot.completedAt;
+    if (restoreWindow.oldestRestorePoint && replayFrom < restoreWindow.oldestRestorePoint) {
+      throw new BadRequestException({
+        code: 'PITR_OPLOG_GAP',
+        message: `Captured oplog starts at ${restoreWindow.oldestRestorePoint.toISOString()}, after snapshot "${baseSnapshot.name}" was taken`,
+      });
+    }
+
+    if (dto.targetClusterId && dto.targetClusterId !== clusterId) {
+      const target = await this.clustersService.findById(dto.targetClusterId);
+      if (!target || target.projectId.toString() !== projectId) {
+        throw new NotFoundException('Target cluster not found');
+      }
+      if (target.status !== 'ready') {
+        throw new BadRequestException({
+          code: 'TARGET_CLUSTER_NOT_READY',
+          message: `Target cluster is ${target.status}`,
+        });
+      }
+    }
 
     // Count oplog entries needed
     const oplogCount = await this.oplogEntryModel.countDocuments({
       clusterId: new Types.ObjectId(clusterId),
       timestamp: {
-        $gt: baseSnapshot?.completedAt || new Date(0),
+        $gte: replayFrom,
         $lte: restorePoint,
       },
     });
@@ -249,13 +305,14 @@ export class PitrService {
       orgId: new Types.ObjectId(orgId),
       projectId: new Types.ObjectId(projectId),
       restorePointTimestamp: restorePoint,
-      baseSnapshotId: baseSnapshot ? new Types.ObjectId((baseSnapshot as any).id) : undefined,
+      baseSnapshotId: baseSnapshot._id,
       status: 'pending',
       progress: 0,
       initiatedBy: new Types.ObjectId(userId),
       totalOplogEntries: oplogCount,
       metadata: {
-        snapshotTimestamp: baseSnapshot?.completedAt,
+        snapshotTimestamp: baseSnapshot.completedAt,
+        oplogStartTs: replayFrom.getTime(),
         oplogEndTs: restorePoint.getTime(),
       },
     });
@@ -288,52 +345,102 @@ export class PitrService {
       const restore = await this.pitrRestoreModel.findById(restoreId);
       if (!restore) return;
 
-      // Update status to preparing
-      restore.status = 'preparing';
-      restore.startedAt = new Date();
-      restore.currentStep = 'Preparing restore environment';
-      restore.progress = 5;
-      await restore.save();
-
-      // Simulate restore process with delays
-      await this.simulateRestoreStep(restoreId, 'restoring_snapshot', 'Restoring base snapshot', 30);
-      await this.simulateRestoreStep(restoreId, 'applying_oplog', 'Applying oplog entries', 70);
-      await this.simulateRestoreStep(restoreId, 'verifying', 'Verifying data integrity', 90);
-
-      // Complete the restore
-      const finalRestore = await this.pitrRestoreModel.findById(restoreId);
-      if (finalRestore) {
-        finalRestore.status = 'completed';
-        finalRestore.progress = 100;
-        finalRestore.completedAt = new Date();
-        finalRestore.currentStep = 'Restore completed';
-        finalRestore.oplogEntriesApplied = finalRestore.totalOplogEntries;
-        await finalRestore.save();
-
-        // Create success event
-        await this.eventsService.createEvent({
-          orgId: finalRestore.orgId.toString(),
-          projectId: finalRestore.projectId.toString(),
-          clusterId: finalRestore.sourceClusterId.toString(),
-          type: 'PITR_RESTORE_COMPLETED',
-          severity: 'info',
-          message: `Point-in-Time restore completed successfully`,
-          metadata: {
-            restoreId: finalRestore.id,
-            oplogEntriesApplied: finalRestore.oplogEntriesApplied,
-            duration: finalRestore.completedAt.getTime() - (finalRestore.startedAt?.getTime() || 0),
-          },
-        });
+      await this.advanceRestore(restoreId, {
+        status: 'preparing',
+        startedAt: new Date(),
+        currentStep: 'Preparing restore environment',
+        progress: 5,
+      });
+
+      const sourceClusterId = restore.sourceClusterId.toString();
+      const targetClusterId = restore.targetClusterId?.toString() || sourceClusterId;
+      const [source, target, snapshot] = await Promise.all([
+        this.clustersService.findById(sourceClusterId),
+        this.clustersService.findById(targetClusterId),
+        restore.baseSnapshotId ? this.backupsService.findById(restore.baseSnapshotId.toString()) : null,
+      ]);
+
+      if (!source || !target) {
+        throw new Error('Source or target cluster no longer exists');
+      }
+      if (!snapshot || snapshot.status !== 'completed') {
+        throw new Error('Base snapshot is no longer available');
       }
+
+      // 1. Restore the base snapshot into the target
+      await this.advanceRestore(restoreId, {
+        status: 'restoring_snapshot',
+        currentStep: `Restoring snapshot "${snapshot.name}"`,
+        progress: 10,
+      });
+
+      await this.kubernetesService.runRestore({
+        clusterId: sourceClusterId,
+        projectId: restore.projectId.toString(),
+        plan: source.plan,
+        backupId: snapshot.id,
+        targetClusterId,
+        targetPlan: target.plan,
+        restoreId,
+      });
+
+      // 2. Replay captured oplog up to the restore point
+      await this.advanceRestore(restoreId, {
+        status: 'applying_oplog',
+        currentStep: 'Applying oplog entries',
+        progress: 30,
+      });
+
+      const { applied, skipped } = await this.replayOplog(restore, targetClusterId);
+
+      // 3. Verify the target is serving the restored data
+      await this.advanceRestore(restoreId, {
+        status: 'verifying',
+        currentStep: 'Verifying data integrity',
+        progress: 95,
+      });
+
+      const databasesRestored = await this.verifyRestore(targetClusterId);
+
+      const completedAt = new Date();
+      await this.advanceRestore(restoreId, {
+        status: 'completed',
+        progress: 100,
+        completedAt,
+        currentStep: 'Restore completed',
+        oplogEntriesApplied: applied,
+        'metadata.oplogEntriesSkipped': skipped,
+        'metadata.databasesRestored': databasesRestored,
+      });
+
+      await this.eventsService.createEvent({
+        orgId: restore.orgId.toString(),
+        projectId: restore.projectId.toString(),
+        clusterId: sourceClusterId,
+        type: 'PITR_RESTORE_COMPLETED',
+        severity: 'info',
+        message: `Point-in-Time restore to ${restore.restorePointTimestamp.toISOString()} completed successfully`,
+        metadata: {
+          restoreId,
+          targetClusterId,
+          oplogEntriesApplied: applied,
+          oplogEntriesSkipped: skipped,
+          duration: completedAt.getTime() - (restore.startedAt?.getTime() || restore.createdAt.getTime()),
+        },
+      });
     } catch (error) {
+      if (error instanceof RestoreCancelledError) {
+        this.logger.log(error.message);
+        return;
+      }
+
       try {
-        const failedRestore = await this.pitrRestoreModel.findById(restoreId);
+        const failedRestore = await this.pitrRestoreModel.findOneAndUpdate(
+          { _id: restoreId, status: { $ne: 'cancelled' } },
+          { $set: { status: 'failed', errorMessage: error.message, completedAt: new Date() } },
+          { new: true },
+        );
         if (failedRestore) {
-          failedRestore.status = 'failed';
-          failedRestore.errorMessage = error.message;
-          failedRestore.completedAt = new Date();
-          await failedRestore.save();
-
           // Create failure event
           await this.eventsService.createEvent({
             orgId: failedRestore.orgId.toString(),
@@ -353,31 +460,138 @@ export class PitrService {
     }
   }
 
-  private async simulateRestoreStep(
-    restoreId: string,
-    status: PitrRestoreStatus,
-    step: string,
-    progress: number,
-  ): Promise<void> {
-    try {
-      const restore = await this.pitrRestoreModel.findById(restoreId);
-      if (!restore) return;
+  /**
+   * Update restore progress unless the restore was cancelled in the meantime,
+   * in which case the pipeline stops.
+   */
+  private async advanceRestore(restoreId: string, update: Record<string, any>): Promise<void> {
+    const result = await this.pitrRestoreModel.updateOne(
+      { _id: restoreId, status: { $ne: 'cancelled' } },
+      { $set: update },
+    );
+
+    if (result.matchedCount === 0) {
+      throw new RestoreCancelledError(restoreId);
+    }
+  }
+
+  /**
+   * Apply the captured oplog of the source cluster to the target with
+   * `applyOps`, in oplog order, up to and including the restore point.
+   */
+  private async replayOplog(
+    restore: PitrRestoreDocument,
+    targetClusterId: string,
+  ): Promise<{ applied: number; skipped: number }> {
+    const client = await this.dataExplorerService.getConnection(targetClusterId);
+    const admin = client.db('admin');
+    const total = restore.totalOplogEntries || 1;
+
+    let applied = 0;
+    let skipped = 0;
+    let batch: Document[] = [];
+    let batchBytes = 0;
+
+    const flush = async () => {
+      if (batch.length > 0) {
+        await admin.command({ applyOps: batch });
+        applied += batch.length;
+        batch = [];
+        batchBytes = 0;
+      }
+
+      // Persist progress even if cancelled so the applied count stays accurate
+      const updated = await this.pitrRestoreModel.findByIdAndUpdate(
+        restore._id,
+        { $set: { oplogEntriesApplied: applied, 'metadata.oplogEntriesSkipped': skipped } },
+        { new: true },
+      );
+      if (!updated || updated.status === 'cancelled') {
+        throw new RestoreCancelledError(restore.id);
+      }
+
+      await this.advanceRestore(restore.id, {
+        progress: Math.min(94, 30 + Math.floor(((applied + skipped) / total) * 64)),
+        currentStep: `Applying oplog entries (${applied + skipped}/${restore.totalOplogEntries})`,
+      });
+    };
 
-      restore.status = status;
-      restore.currentStep = step;
-      restore.progress = progress;
-      await restore.save();
-    } catch {
-      // Connection may have been closed during teardown, ignore
-      return;
+    const cursor = this.oplogEntryModel
+      .find({
+        clusterId: restore.sourceClusterId,
+        timestamp: {
+          $gte: new Date(restore.metadata?.oplogStartTs ?? 0),
+          $lte: restore.restorePointTimestamp,
+        },
+      })
+      .select('raw')
+      .sort({ 'opTime.t': 1, 'opTime.i': 1 })
+      .lean()
+      .cursor();
+
+    for await (const entry of cursor) {
+      const raw = entry.raw as Buffer | Binary | undefined;
+      const operation = raw ? this.toApplyOp(BSON.deserialize(Buffer.isBuffer(raw) ? raw : raw.buffer)) : null;
+
+      if (!operation) {
+        skipped++;
+        continue;
+      }
+
+      const size = raw ? (Buffer.isBuffer(raw) ? raw.length : raw.length()) : 0;
+      if (batch.length >= REPLAY_BATCH_ENTRIES || batchBytes + size > REPLAY_BATCH_BYTES) {
+        await flush();
+      }
+
+      batch.push(operation);
+      batchBytes += size;
     }
 
-    // Simulate processing time
-    await new Promise((resolve) => setTimeout(resolve, 2000 + Math.random() * 3000));
+    await flush();
+
+    this.logger.log(`Restore ${restore.id}: applied ${applied} oplog entries, skipped ${skipped}`);
+    return { applied, skipped };
   }
 
-  async getRestore(restoreId: string): Promise<PitrRestore | null> {
-    return this.pitrRestoreModel.findById(restoreId).exec();
+  /**
+   * Reduce a captured oplog entry to the fields `applyOps` accepts. Collection
+   * UUIDs are dropped because restored collections get new ones.
+   */
+  private toApplyOp(entry: Document): Document | null {
+    if (entry.op === 'n') return null;
+
+    // Prepared transactions are replayed through their applyOps entries
+    if (entry.op === 'c' && (entry.o?.commitTransaction || entry.o?.abortTransaction)) return null;
+
+    const operation: Document = { op: entry.op, ns: entry.ns, o: entry.o };
+    if (entry.o2) operation.o2 = entry.o2;
+
+    if (entry.op === 'c' && Array.isArray(entry.o?.applyOps)) {
+      operation.o = {
+        applyOps: entry.o.applyOps
+          .map((inner: Document) => this.toApplyOp(inner))
+          .filter((inner: Document | null) => inner !== null),
+      };
+    }
+
+    return operation;
+  }
+
+  private async verifyRestore(targetClusterId: string): Promise<string[]> {
+    const client = await this.dataExplorerService.getConnection(targetClusterId);
+    const { databases } = await client.db('admin').admin().listDatabases({ nameOnly: true });
+
+    return databases
+      .map((db) => db.name)
+      .filter((name) => !['admin', 'local', 'config'].includes(name));
+  }
+
+  /** Restores are addressed through their source cluster's route, so other clusters' IDs are not found */
+  async getRestore(clusterId: string, restoreId: string): Promise<PitrRestoreDocument | null> {
+    if (!Types.ObjectId.isValid(restoreId)) {
+      return null;
+    }
+    return this.pitrRestoreModel.findOne({ _id: restoreId, sourceClusterId: clusterId }).exec();
   }
 
   async getRestoreHistory(clusterId: string): Promise<PitrRestore[]> {
@@ -388,8 +602,8 @@ export class PitrService {
       .exec();
   }
 
-  async cancelRestore(restoreId: string): Promise<PitrRestore> {
-    const restore = await this.pitrRestoreModel.findById(restoreId);
+  async cancelRestore(clusterId: string, restoreId: string): Promise<PitrRestore> {
+    const restore = await this.getRestore(clusterId, restoreId);
     if (!restore) {
       throw new NotFoundException('Restore not found');
     }
@@ -408,7 +622,7 @@ export class PitrService {
   /**
    * Capture oplog entries from managed clusters.
    * In production (replica sets), reads from the real MongoDB oplog.
-   * Falls back to simulated oplog capture in development or for non-replica-set clusters.
+   * Development uses simulated entries, which are counted but never replayed.
    */
   @Cron(CronExpression.EVERY_10_SECONDS)
   async captureOplog(): Promise<void> {
@@ -429,14 +643,20 @@ export class PitrService {
 
     // Try real oplog capture first
     let entries: any[] = [];
+    let capturedThrough = now;
     const isProduction = process.env.NODE_ENV !== 'development';
 
     if (isProduction) {
       try {
-        entries = await this.captureRealOplog(config, batchId);
+        let rolledOver: boolean;
+        ({ entries, capturedThrough, rolledOver } = await this.captureRealOplog(config, batchId, now));
+        config.status = rolledOver ? 'degraded' : 'healthy';
       } catch (err) {
-        this.logger.warn(`Real oplog capture failed for cluster ${config.clusterId}: ${err.message}. Using simulation.`);
-        entries = this.generateSimulatedOplogEntries(config, batchId, now);
+        // Never fabricate entries here: a gap must show up as a degraded restore window
+        this.logger.warn(`Real oplog capture failed for cluster ${config.clusterId}: ${err.message}`);
+        config.status = 'degraded';
+        await config.save();
+        return;
       }
     } else {
       entries = this.generateSimulatedOplogEntries(config, batchId, now);
@@ -448,7 +668,7 @@ export class PitrService {
 
     // Update config
     config.lastOplogCaptureAt = now;
-    config.latestRestorePoint = now;
+    config.latestRestorePoint = capturedThrough;
     if (!config.oldestRestorePoint) {
       config.oldestRestorePoint = now;
     }
@@ -485,46 +705,88 @@ export class PitrService {
 
   /**
    * Capture real oplog entries from the managed MongoDB cluster's local.oplog.rs collection.
-   * This works on replica sets (MEDIUM+ plans) by querying entries since last capture.
+   * This works on replica sets (MEDIUM+ plans) by tailing from the last captured position.
+   * If that position is no longer in the oplog, the operations in between are lost and the
+   * restore window is cut at the oldest entry still available.
    */
-  private async captureRealOplog(config: PitrConfigDocument, batchId: string): Promise<any[]> {
-    const { MongoClient } = require('mongodb');
-    // We'd need to resolve the cluster's connection info from config.clusterId
-    // In production, this connects to the cluster's K8s service endpoint
-    const Cluster = require('../clusters/schemas/cluster.schema').Cluster;
-    
-    // For now, use the cluster connection host stored in config metadata
-    // A full implementation would inject ClustersService and CredentialsService
-    const sinceTs = config.lastOplogCaptureAt || new Date(Date.now() - 10000);
-
-    // This is a template for real oplog tailing.
-    // In actual deployment, you'd connect to mongodb://<cluster-svc>:27017/local
-    // and query oplog.rs for entries since the last capture timestamp.
-    //
-    // const client = new MongoClient(clusterUri, { directConnection: true });
-    // const oplog = client.db('local').collection('oplog.rs');
-    // const cursor = oplog.find({
-    //   ts: { $gt: new Timestamp(sinceTs.getTime() / 1000, 0) },
-    //   ns: { $not: /^(admin|local|config)\./ },
-    // }).sort({ ts: 1 }).limit(1000);
-    //
-    // const rawEntries = await cursor.toArray();
-    // return rawEntries.map(entry => ({
-    //   clusterId: config.clusterId,
-    //   orgId: config.orgId,
-    //   timestamp: entry.wall || new Date(entry.ts.getHighBits() * 1000),
-    //   ts: entry.ts.getHighBits() * 1000,
-    //   h: entry.h?.toString() || uuidv4(),
-    //   op: entry.op,
-    //   ns: entry.ns,
-    //   o: entry.o,
-    //   sizeBytes: JSON.stringify(entry.o).length,
-    //   compressed: config.settings?.compressionEnabled || false,
-    //   batchId,
-    // }));
-
-    // Until cluster connection injection is wired, throw to fall back to simulation
-    throw new Error('Real oplog capture requires cluster connection wiring (planned for production deployment)');
+  private async captureRealOplog(
+    config: PitrConfigDocument,
+    batchId: string,
+    now: Date,
+  ): Promise<{ entries: any[]; capturedThrough: Date; rolledOver: boolean }> {
+    const client = await this.dataExplorerService.getConnection(config.clusterId.toString());
+    const oplog = client.db('local').collection('oplog.rs');
+
+    const since = config.lastOplogTimestamp
+      ? new Timestamp({ t: config.lastOplogTimestamp.t, i: config.lastOplogTimestamp.i })
+      : new Timestamp({ t: Math.floor((config.enabledAt || new Date()).getTime() / 1000), i: 0 });
+
+    // Read from the last captured entry itself, which must still be the first one found
+    const rawEntries = await oplog
+      .find({ ts: config.lastOplogTimestamp ? { $gte: since } : { $gt: since } })
+      .sort({ $natural: 1 })
+      .limit(OPLOG_CAPTURE_BATCH_SIZE)
+      .toArray();
+
+    let rolledOver = false;
+    if (config.lastOplogTimestamp) {
+      const first = rawEntries[0];
+      if (first && (first.ts as Timestamp).equals(since)) {
+        rawEntries.shift();
+      } else {
+        const gapAt: Date = first ? first.wall || new Date((first.ts as Timestamp).t * 1000) : now;
+        this.logger.error(
+          `Oplog of cluster ${config.clusterId} rolled over before it was captured; ` +
+            `restores can't reach back past ${gapAt.toISOString()}`,
+        );
+        config.oplogGapAt = gapAt;
+        rolledOver = true;
+      }
+    }
+
+    if (rawEntries.length === 0) {
+      return { entries: [], capturedThrough: now, rolledOver };
+    }
+
+    const last = rawEntries[rawEntries.length - 1];
+    const lastTs = last.ts as Timestamp;
+    config.lastOplogTimestamp = { t: lastTs.t, i: lastTs.i };
+
+    // A full batch means we are still catching up; only claim what was actually read
+    const capturedThrough =
+      rawEntries.length < OPLOG_CAPTURE_BATCH_SIZE ? now : last.wall || new Date(lastTs.t * 1000);
+
+    const entries = rawEntries
+      .filter((entry) => this.isUserOplogEntry(entry))
+      .map((entry) => {
+        const raw = Buffer.from(BSON.serialize(entry));
+        const ts = entry.ts as Timestamp;
+        const timestamp: Date = entry.wall || new Date(ts.t * 1000);
+
+        // Wall clock times are not unique or monotonic, so ordering uses the oplog Timestamp
+        return {
+          clusterId: config.clusterId,
+          orgId: config.orgId,
+          timestamp,
+          opTime: { t: ts.t, i: ts.i },
+          h: `${ts.t}:${ts.i}`,
+          op: entry.op,
+          ns: entry.ns,
+          raw,
+          sizeBytes: raw.length,
+          compressed: false,
+          batchId,
+        };
+      });
+
+    return { entries, capturedThrough, rolledOver };
+  }
+
+  /** Skip no-ops and internal namespaces; multi-document transactions are logged on admin.$cmd. */
+  private isUserOplogEntry(entry: Document): boolean {
+    if (entry.op === 'n' || !entry.ns) return false;
+    if (entry.ns === 'admin.$cmd') return Array.isArray(entry.o?.applyOps);
+    return !/^(admin|local|config)\./.test(entry.ns);
   }
 
   /**
@@ -543,7 +805,7 @@ export class PitrService {
         clusterId: config.clusterId,
         orgId: config.orgId,
         timestamp: new Date(ts),
-        ts,
+        opTime: { t: Math.floor(now.getTime() / 1000), i: i + 1 },
         h: uuidv4(),
         op,
         ns: `db_${Math.floor(Math.random() * 3)}.collection_${Math.floor(Math.random() * 10)}`,
@@ -27,8 +27,8 @@ export class OplogEntry {
   @Prop({ required: true })
   timestamp: Date; // MongoDB oplog timestamp
 
-  @Prop({ required: true })
-  ts: number; // Unix timestamp for ordering
+  @Prop({ type: Object, required: true })
+  opTime: { t: number; i: number }; // Oplog Timestamp (seconds, increment), the order entries were applied in
 
   @Prop({ type: String })
   h: string; // Unique hash for the operation
@@ -43,10 +43,13 @@ export class OplogEntry {
   ns: string; // Namespace (db.collection)
 
   @Prop({ type: Object })
-  o: Record<string, any>; // Operation object
+  o?: Record<string, any>; // Operation object, only for simulated entries
 
   @Prop({ type: Object })
-  o2?: Record<string, any>; // Query object for updates
+  o2?: Record<string, any>; // Query object for updates, only for simulated entries
+
+  @Prop({ type: Buffer })
+  raw?: Buffer; // Full BSON oplog entry as captured, used for replay (o/o2 are not stored alongside)
 
   @Prop({ default: false })
   compressed: boolean;
@@ -65,7 +68,7 @@ export const OplogEntrySchema = SchemaFactory.createForClass(OplogEntry);
 
 // Indexes for efficient queries
 OplogEntrySchema.index({ clusterId: 1, timestamp: 1 });
-OplogEntrySchema.index({ clusterId: 1, ts: 1 });
+OplogEntrySchema.index({ clusterId: 1, 'opTime.t': 1, 'opTime.i': 1 });
 OplogEntrySchema.index({ batchId: 1 });
 // TTL index - entries expire based on retention policy (handled by service)
 OplogEntrySchema.index({ createdAt: 1 });
@@ -51,6 +51,12 @@ export class PitrConfig {
   @Prop()
   lastOplogCaptureAt?: Date;
 
+  @Prop({ type: Object })
+  lastOplogTimestamp?: { t: number; i: number }; // Oplog position to resume tailing from
+
+  @Prop({ type: Date })
+  oplogGapAt?: Date; // The oplog rolled over before it was captured; restores can't reach back past this
+
   @Prop({ type: Object })
   settings: {
     captureIntervalMs?: number; // How often to capture oplog (simulated)
@@ -93,6 +93,7 @@ export class PitrRestore {
     oplogEndTs?: number;
     databasesRestored?: string[];
     collectionsRestored?: number;
+    oplogEntriesSkipped?: number; // Entries that cannot be replayed (simulated captures, no-ops)
   };
 
   @Prop()
@@ -11,6 +11,8 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { CurrentProjectAccess } from '../../common/decorators/project-access.decorator';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { PrivateNetworksService } from './private-networks.service';
 import {
@@ -24,7 +26,7 @@ import {
 
 @ApiTags('Private Networks')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/networks')
 export class PrivateNetworksController {
   constructor(private readonly networksService: PrivateNetworksService) {}
@@ -35,8 +37,8 @@ export class PrivateNetworksController {
     @Param('projectId') projectId: string,
     @Body() dto: CreatePrivateNetworkDto,
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
   ) {
-    const orgId = user.userId;
     const network = await this.networksService.create(projectId, orgId, user.userId, dto);
     return { success: true, data: network };
   }
@@ -140,7 +142,7 @@ export class PrivateNetworksController {
 // Cluster endpoint controller
 @ApiTags('Cluster Endpoints')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/endpoint')
 export class ClusterEndpointController {
   constructor(private readonly networksService: PrivateNetworksService) {}
@@ -0,0 +1,9 @@
+import { IsIn } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { PROJECT_ROLES, ProjectRole } from '../schemas/project-role-binding.schema';
+
+export class SetProjectRoleDto {
+  @ApiProperty({ enum: PROJECT_ROLES, example: 'PROJECT_DATA_ACCESS_READ_WRITE' })
+  @IsIn(PROJECT_ROLES, { message: `Role must be one of: ${PROJECT_ROLES.join(', ')}` })
+  role: ProjectRole;
+}
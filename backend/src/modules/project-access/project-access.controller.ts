@@ -0,0 +1,146 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { CurrentProjectAccess, RequireProjectRole } from '../../common/decorators/project-access.decorator';
+import { RequireApiKeyScope } from '../../common/decorators/api-key-scope.decorator';
+import { ProjectAccessService } from './project-access.service';
+import { OrgsService } from '../orgs/orgs.service';
+import { AuditService } from '../audit/audit.service';
+import { SetProjectRoleDto } from './dto/project-role.dto';
+
+function auditActor(user: CurrentUserData) {
+  return {
+    actorId: user.userId,
+    actorEmail: user.email,
+    actorType: 'user' as const,
+  };
+}
+
+@ApiTags('Project Access')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
+@Controller('projects/:projectId/members')
+export class ProjectAccessController {
+  constructor(
+    private readonly projectAccessService: ProjectAccessService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  @Get()
+  @RequireApiKeyScope('members:read')
+  @ApiOperation({ summary: 'List project role bindings' })
+  async findAll(@Param('projectId') projectId: string) {
+    const bindings = await this.projectAccessService.findByProject(projectId);
+    return {
+      success: true,
+      data: bindings,
+    };
+  }
+
+  @Put(':userId')
+  @RequireProjectRole('PROJECT_OWNER')
+  @RequireApiKeyScope('members:write')
+  @ApiOperation({
+    summary: 'Grant or change a project role',
+    description: 'Members with project roles can only access the projects they are bound to.',
+  })
+  async setRole(
+    @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
+    @Param('projectId') projectId: string,
+    @Param('userId') targetUserId: string,
+    @Body() dto: SetProjectRoleDto,
+  ) {
+    const { binding, previousRole } = await this.projectAccessService.setRole(
+      orgId,
+      projectId,
+      targetUserId,
+      dto.role,
+      user.userId,
+    );
+
+    await this.auditService.safeLog({
+      orgId,
+      projectId,
+      action: 'PERMISSION_GRANTED',
+      resourceType: 'project',
+      resourceId: projectId,
+      resourceName: targetUserId,
+      ...auditActor(user),
+      previousState: previousRole ? { role: previousRole } : undefined,
+      newState: { userId: targetUserId, role: dto.role },
+      description: `Granted project role ${dto.role}`,
+    });
+
+    return {
+      success: true,
+      data: binding,
+    };
+  }
+
+  @Delete(':userId')
+  @RequireProjectRole('PROJECT_OWNER')
+  @RequireApiKeyScope('members:write')
+  @ApiOperation({ summary: 'Remove a project role' })
+  async removeRole(
+    @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
+    @Param('projectId') projectId: string,
+    @Param('userId') targetUserId: string,
+  ) {
+    const binding = await this.projectAccessService.removeRole(projectId, targetUserId);
+
+    await this.auditService.safeLog({
+      orgId,
+      projectId,
+      action: 'PERMISSION_REVOKED',
+      resourceType: 'project',
+      resourceId: projectId,
+      resourceName: targetUserId,
+      ...auditActor(user),
+      previousState: { userId: targetUserId, role: binding.role },
+      description: `Removed project role ${binding.role}`,
+    });
+
+    return {
+      success: true,
+      message: 'Project role removed',
+    };
+  }
+}
+
+@ApiTags('Project Access')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('orgs/:orgId/project-roles')
+export class OrgProjectRolesController {
+  constructor(
+    private readonly projectAccessService: ProjectAccessService,
+    private readonly orgsService: OrgsService,
+  ) {}
+
+  @Get()
+  @RequireApiKeyScope('members:read')
+  @ApiOperation({ summary: 'List project role bindings of all projects in the organization' })
+  async findAll(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId);
+    const bindings = await this.projectAccessService.findByOrg(orgId);
+    return {
+      success: true,
+      data: bindings,
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { Module, Global } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ProjectAccessController, OrgProjectRolesController } from './project-access.controller';
+import { ProjectAccessService } from './project-access.service';
+import { ProjectRoleBinding, ProjectRoleBindingSchema } from './schemas/project-role-binding.schema';
+import { Project, ProjectSchema } from '../projects/schemas/project.schema';
+import { OrgsModule } from '../orgs/orgs.module';
+
+// Global so every project-scoped controller can use ProjectAccessGuard
+@Global()
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ProjectRoleBinding.name, schema: ProjectRoleBindingSchema },
+      { name: Project.name, schema: ProjectSchema },
+    ]),
+    OrgsModule,
+  ],
+  controllers: [ProjectAccessController, OrgProjectRolesController],
+  providers: [ProjectAccessService],
+  exports: [ProjectAccessService],
+})
+export class ProjectAccessModule {}
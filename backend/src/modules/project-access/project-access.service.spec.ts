@@ -0,0 +1,238 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken, getConnectionToken } from '@nestjs/mongoose';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ProjectAccessService } from './project-access.service';
+import { ProjectRoleBinding } from './schemas/project-role-binding.schema';
+import { Project } from '../projects/schemas/project.schema';
+import { OrgsService } from '../orgs/orgs.service';
+
+describe('ProjectAccessService', () => {
+  let service: ProjectAccessService;
+
+  const ORG_ID = new Types.ObjectId().toString();
+  const PROJECT_ID = new Types.ObjectId().toString();
+  const OTHER_PROJECT_ID = new Types.ObjectId().toString();
+  const USER_ID = new Types.ObjectId().toString();
+
+  const exec = (value: unknown) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+  const mockBindingModel = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    findOneAndDelete: jest.fn(),
+  };
+
+  const mockProjectModel = {
+    findById: jest.fn(),
+  };
+
+  const mockClusters = {
+    countDocuments: jest.fn(),
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockConnection = {
+    collection: jest.fn(() => mockClusters),
+  };
+
+  const mockOrgsService = {
+    getUserRole: jest.fn(),
+    assertMfaCompliance: jest.fn(),
+  };
+
+  const binding = (projectId: string, role: string) => ({
+    projectId: new Types.ObjectId(projectId),
+    role,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProjectAccessService,
+        { provide: getModelToken(ProjectRoleBinding.name), useValue: mockBindingModel },
+        { provide: getModelToken(Project.name), useValue: mockProjectModel },
+        { provide: getConnectionToken(), useValue: mockConnection },
+        { provide: OrgsService, useValue: mockOrgsService },
+      ],
+    }).compile();
+
+    service = module.get<ProjectAccessService>(ProjectAccessService);
+
+    jest.clearAllMocks();
+    mockProjectModel.findById.mockReturnValue({
+      lean: () => exec({ orgId: new Types.ObjectId(ORG_ID) }),
+    });
+    mockBindingModel.find.mockReturnValue(exec([]));
+    mockOrgsService.assertMfaCompliance.mockResolvedValue(undefined);
+  });
+
+  // ==================== checkAccess ====================
+
+  describe('checkAccess', () => {
+    it('should give org admins ownership of every project without reading bindings', async () => {
+      mockOrgsService.getUserRole.mockResolvedValue('ADMIN');
+
+      const access = await service.checkAccess(PROJECT_ID, USER_ID, 'PROJECT_OWNER');
+
+      expect(access).toEqual({ orgId: ORG_ID, projectId: PROJECT_ID, orgRole: 'ADMIN', role: 'PROJECT_OWNER' });
+      expect(mockBindingModel.find).not.toHaveBeenCalled();
+    });
+
+    it('should derive the project role from the org role when the member has no bindings', async () => {
+      mockOrgsService.getUserRole.mockResolvedValue('MEMBER');
+
+      const access = await service.checkAccess(PROJECT_ID, USER_ID, 'PROJECT_DATA_ACCESS_READ_WRITE');
+
+      expect(access.role).toBe('PROJECT_DATA_ACCESS_READ_WRITE');
+      await expect(service.checkAccess(PROJECT_ID, USER_ID, 'PROJECT_OWNER')).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should keep read-only members out of data access', async () => {
+      mockOrgsService.getUserRole.mockResolvedValue('READONLY');
+
+      await expect(
+        service.checkAccess(PROJECT_ID, USER_ID, 'PROJECT_DATA_ACCESS_READ_WRITE'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should use the bound role, even above the implicit one', async () => {
+      mockOrgsService.getUserRole.mockResolvedValue('READONLY');
+      mockBindingModel.find.mockReturnValue(exec([binding(PROJECT_ID, 'PROJECT_OWNER')]));
+
+      const access = await service.checkAccess(PROJECT_ID, USER_ID, 'PROJECT_OWNER');
+
+      expect(access.role).toBe('PROJECT_OWNER');
+    });
+
+    it('should deny projects the member is not bound to', async () => {
+      mockOrgsService.getUserRole.mockResolvedValue('MEMBER');
+      mockBindingModel.find.mockReturnValue(exec([binding(OTHER_PROJECT_ID, 'PROJECT_OWNER')]));
+
+      await expect(service.checkAccess(PROJECT_ID, USER_ID)).rejects.toMatchObject({
+        response: { code: 'NO_PROJECT_ACCESS' },
+      });
+    });
+
+    it('should reject users outside the organization', async () => {
+      mockOrgsService.getUserRole.mockResolvedValue(null);
+
+      await expect(service.checkAccess(PROJECT_ID, USER_ID)).rejects.toMatchObject({
+        response: { code: 'NOT_A_MEMBER' },
+      });
+    });
+
+    it('should throw NotFoundException for unknown or malformed project IDs', async () => {
+      mockProjectModel.findById.mockReturnValue({ lean: () => exec(null) });
+
+      await expect(service.checkAccess(PROJECT_ID, USER_ID)).rejects.toThrow(NotFoundException);
+      await expect(service.checkAccess('not-an-id', USER_ID)).rejects.toThrow(NotFoundException);
+    });
+
+    it('should enforce the organization MFA requirement', async () => {
+      mockOrgsService.getUserRole.mockResolvedValue('OWNER');
+      mockOrgsService.assertMfaCompliance.mockRejectedValue(new ForbiddenException({ code: 'MFA_REQUIRED' }));
+
+      await expect(service.checkAccess(PROJECT_ID, USER_ID)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  // ==================== assertClusterInProject ====================
+
+  it('should throw NotFoundException for clusters of another project', async () => {
+    mockClusters.countDocuments.mockResolvedValue(0);
+
+    await expect(
+      service.assertClusterInProject(PROJECT_ID, new Types.ObjectId().toString()),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  // ==================== checkClusterAccess ====================
+
+  describe('checkClusterAccess', () => {
+    it('should check access to the project of the cluster', async () => {
+      mockClusters.findOne.mockResolvedValue({ projectId: new Types.ObjectId(PROJECT_ID) });
+      mockOrgsService.getUserRole.mockResolvedValue('MEMBER');
+      mockBindingModel.find.mockReturnValue(exec([binding(OTHER_PROJECT_ID, 'PROJECT_OWNER')]));
+
+      await expect(service.checkClusterAccess(new Types.ObjectId().toString(), USER_ID)).rejects.toMatchObject({
+        response: { code: 'NO_PROJECT_ACCESS' },
+      });
+    });
+
+    it('should throw NotFoundException for unknown or malformed cluster IDs', async () => {
+      mockClusters.findOne.mockResolvedValue(null);
+
+      await expect(service.checkClusterAccess(new Types.ObjectId().toString(), USER_ID)).rejects.toThrow(NotFoundException);
+      await expect(service.checkClusterAccess('not-an-id', USER_ID)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  // ==================== getAccessibleProjectIds ====================
+
+  describe('getAccessibleProjectIds', () => {
+    it('should return null for unrestricted members', async () => {
+      mockOrgsService.getUserRole.mockResolvedValue('MEMBER');
+
+      expect(await service.getAccessibleProjectIds(ORG_ID, USER_ID)).toBeNull();
+    });
+
+    it('should return the bound projects for restricted members', async () => {
+      mockOrgsService.getUserRole.mockResolvedValue('MEMBER');
+      mockBindingModel.find.mockReturnValue(exec([binding(PROJECT_ID, 'PROJECT_READ_ONLY')]));
+
+      expect(await service.getAccessibleProjectIds(ORG_ID, USER_ID)).toEqual([PROJECT_ID]);
+    });
+  });
+
+  // ==================== getAccessibleClusterIds ====================
+
+  describe('getAccessibleClusterIds', () => {
+    it('should return null for unrestricted members', async () => {
+      mockOrgsService.getUserRole.mockResolvedValue('OWNER');
+
+      expect(await service.getAccessibleClusterIds(ORG_ID, USER_ID)).toBeNull();
+      expect(mockClusters.find).not.toHaveBeenCalled();
+    });
+
+    it('should return the clusters of the bound projects for restricted members', async () => {
+      const clusterId = new Types.ObjectId();
+      mockOrgsService.getUserRole.mockResolvedValue('MEMBER');
+      mockBindingModel.find.mockReturnValue(exec([binding(PROJECT_ID, 'PROJECT_READ_ONLY')]));
+      mockClusters.find.mockReturnValue({ toArray: jest.fn().mockResolvedValue([{ _id: clusterId }]) });
+
+      expect(await service.getAccessibleClusterIds(ORG_ID, USER_ID)).toEqual([clusterId.toString()]);
+      expect(mockClusters.find.mock.calls[0][0]).toEqual({ projectId: { $in: [new Types.ObjectId(PROJECT_ID)] } });
+    });
+  });
+
+  // ==================== setRole ====================
+
+  describe('setRole', () => {
+    it('should upsert the binding and report the previous role', async () => {
+      mockOrgsService.getUserRole.mockResolvedValue('MEMBER');
+      mockBindingModel.findOne.mockReturnValue(exec({ role: 'PROJECT_READ_ONLY' }));
+      mockBindingModel.findOneAndUpdate.mockReturnValue(exec({ role: 'PROJECT_OWNER' }));
+
+      const result = await service.setRole(ORG_ID, PROJECT_ID, USER_ID, 'PROJECT_OWNER', USER_ID);
+
+      expect(result).toEqual({ binding: { role: 'PROJECT_OWNER' }, previousRole: 'PROJECT_READ_ONLY' });
+      expect(mockBindingModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { projectId: PROJECT_ID, userId: USER_ID },
+        expect.objectContaining({ $set: { role: 'PROJECT_OWNER' } }),
+        { upsert: true, new: true },
+      );
+    });
+
+    it('should refuse bindings for org owners and admins', async () => {
+      mockOrgsService.getUserRole.mockResolvedValue('OWNER');
+
+      await expect(
+        service.setRole(ORG_ID, PROJECT_ID, USER_ID, 'PROJECT_READ_ONLY', USER_ID),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockBindingModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
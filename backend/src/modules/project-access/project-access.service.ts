@@ -0,0 +1,236 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel, InjectConnection } from '@nestjs/mongoose';
+import { Model, Types, Connection } from 'mongoose';
+import {
+  ProjectRoleBinding,
+  ProjectRoleBindingDocument,
+  ProjectRole,
+} from './schemas/project-role-binding.schema';
+import { Project, ProjectDocument } from '../projects/schemas/project.schema';
+import { OrgsService } from '../orgs/orgs.service';
+import { OrgRole } from '../orgs/schemas/org-member.schema';
+
+const PROJECT_ROLE_HIERARCHY: Record<ProjectRole, number> = {
+  PROJECT_OWNER: 3,
+  PROJECT_DATA_ACCESS_READ_WRITE: 2,
+  PROJECT_READ_ONLY: 1,
+};
+
+/** Project role an org member has on every project while they have no bindings */
+const IMPLICIT_PROJECT_ROLES: Record<OrgRole, ProjectRole> = {
+  OWNER: 'PROJECT_OWNER',
+  ADMIN: 'PROJECT_OWNER',
+  MEMBER: 'PROJECT_DATA_ACCESS_READ_WRITE',
+  READONLY: 'PROJECT_READ_ONLY',
+};
+
+export interface ProjectAccess {
+  orgId: string;
+  projectId: string;
+  orgRole: OrgRole;
+  role: ProjectRole;
+}
+
+/**
+ * Resolves what a user may do in a project.
+ *
+ * Org owners and admins own every project. Other members get a project role
+ * implied by their org role, unless they have explicit bindings: then they
+ * can only access the projects they are bound to, with the bound role.
+ */
+@Injectable()
+export class ProjectAccessService {
+  constructor(
+    @InjectModel(ProjectRoleBinding.name) private bindingModel: Model<ProjectRoleBindingDocument>,
+    @InjectModel(Project.name) private projectModel: Model<ProjectDocument>,
+    @InjectConnection() private connection: Connection,
+    private readonly orgsService: OrgsService,
+  ) {}
+
+  async checkAccess(
+    projectId: string,
+    userId: string,
+    requiredRole: ProjectRole = 'PROJECT_READ_ONLY',
+  ): Promise<ProjectAccess> {
+    const project = Types.ObjectId.isValid(projectId)
+      ? await this.projectModel.findById(projectId, { orgId: 1 }).lean().exec()
+      : null;
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    const orgId = project.orgId.toString();
+    const orgRole = await this.orgsService.getUserRole(orgId, userId);
+    if (!orgRole) {
+      throw new ForbiddenException({
+        code: 'NOT_A_MEMBER',
+        message: 'You are not a member of this organization',
+      });
+    }
+
+    const role = await this.resolveRole(orgId, projectId, userId, orgRole);
+    if (!role) {
+      throw new ForbiddenException({
+        code: 'NO_PROJECT_ACCESS',
+        message: 'You do not have access to this project',
+      });
+    }
+
+    await this.orgsService.assertMfaCompliance(orgId, userId);
+
+    if (!this.hasRequiredRole(role, requiredRole)) {
+      throw new ForbiddenException({
+        code: 'INSUFFICIENT_PERMISSIONS',
+        message: 'You do not have sufficient permissions',
+      });
+    }
+
+    return { orgId, projectId, orgRole, role };
+  }
+
+  /** Cluster routes are nested under the project; refuse clusters of other projects */
+  async assertClusterInProject(projectId: string, clusterId: string): Promise<void> {
+    const exists = Types.ObjectId.isValid(clusterId)
+      && (await this.connection.collection('clusters').countDocuments({
+        _id: new Types.ObjectId(clusterId),
+        projectId: new Types.ObjectId(projectId),
+      }, { limit: 1 })) > 0;
+
+    if (!exists) {
+      throw new NotFoundException('Cluster not found');
+    }
+  }
+
+  /** Access to a cluster is access to its project */
+  async checkClusterAccess(
+    clusterId: string,
+    userId: string,
+    requiredRole: ProjectRole = 'PROJECT_READ_ONLY',
+  ): Promise<ProjectAccess> {
+    const cluster = Types.ObjectId.isValid(clusterId)
+      ? await this.connection.collection('clusters').findOne(
+        { _id: new Types.ObjectId(clusterId) },
+        { projection: { projectId: 1 } },
+      )
+      : null;
+    if (!cluster) {
+      throw new NotFoundException('Cluster not found');
+    }
+    return this.checkAccess(cluster.projectId.toString(), userId, requiredRole);
+  }
+
+  hasRequiredRole(role: ProjectRole, requiredRole: ProjectRole): boolean {
+    return PROJECT_ROLE_HIERARCHY[role] >= PROJECT_ROLE_HIERARCHY[requiredRole];
+  }
+
+  /**
+   * Projects of the org the user can see, or null when the user is not
+   * restricted to bound projects.
+   */
+  async getAccessibleProjectIds(orgId: string, userId: string): Promise<string[] | null> {
+    const orgRole = await this.orgsService.getUserRole(orgId, userId);
+    if (!orgRole) {
+      return [];
+    }
+    if (orgRole === 'OWNER' || orgRole === 'ADMIN') {
+      return null;
+    }
+
+    const bindings = await this.bindingModel.find({ orgId, userId }).exec();
+    return bindings.length > 0 ? bindings.map((binding) => binding.projectId.toString()) : null;
+  }
+
+  /**
+   * Clusters of the org the user can see, or null when the user is not
+   * restricted to bound projects.
+   */
+  async getAccessibleClusterIds(orgId: string, userId: string): Promise<string[] | null> {
+    const projectIds = await this.getAccessibleProjectIds(orgId, userId);
+    if (!projectIds) {
+      return null;
+    }
+
+    const clusters = await this.connection.collection('clusters').find(
+      { projectId: { $in: projectIds.map((id) => new Types.ObjectId(id)) } },
+      { projection: { _id: 1 } },
+    ).toArray();
+    return clusters.map((cluster) => cluster._id.toString());
+  }
+
+  async findByProject(projectId: string): Promise<ProjectRoleBinding[]> {
+    return this.bindingModel
+      .find({ projectId })
+      .populate('userId', 'name email')
+      .sort({ createdAt: 1 })
+      .exec();
+  }
+
+  async findByOrg(orgId: string): Promise<ProjectRoleBinding[]> {
+    return this.bindingModel.find({ orgId }).sort({ createdAt: 1 }).exec();
+  }
+
+  async setRole(
+    orgId: string,
+    projectId: string,
+    userId: string,
+    role: ProjectRole,
+    actorUserId: string,
+  ): Promise<{ binding: ProjectRoleBinding; previousRole: ProjectRole | null }> {
+    const orgRole = await this.orgsService.getUserRole(orgId, userId);
+    if (!orgRole) {
+      throw new BadRequestException({
+        code: 'NOT_A_MEMBER',
+        message: 'Only organization members can be given a project role. Invite the user first.',
+      });
+    }
+    if (orgRole === 'OWNER' || orgRole === 'ADMIN') {
+      throw new BadRequestException({
+        code: 'ORG_ADMIN_HAS_FULL_ACCESS',
+        message: 'Organization owners and admins already own every project',
+      });
+    }
+
+    const previous = await this.bindingModel.findOne({ projectId, userId }).exec();
+    const binding = await this.bindingModel.findOneAndUpdate(
+      { projectId, userId },
+      {
+        $set: { role },
+        $setOnInsert: { orgId: new Types.ObjectId(orgId), createdBy: new Types.ObjectId(actorUserId) },
+      },
+      { upsert: true, new: true },
+    ).exec();
+
+    return { binding: binding!, previousRole: previous?.role ?? null };
+  }
+
+  async removeRole(projectId: string, userId: string): Promise<ProjectRoleBinding> {
+    const binding = await this.bindingModel.findOneAndDelete({ projectId, userId }).exec();
+    if (!binding) {
+      throw new NotFoundException('Project role not found');
+    }
+    return binding;
+  }
+
+  private async resolveRole(
+    orgId: string,
+    projectId: string,
+    userId: string,
+    orgRole: OrgRole,
+  ): Promise<ProjectRole | null> {
+    if (orgRole === 'OWNER' || orgRole === 'ADMIN') {
+      return 'PROJECT_OWNER';
+    }
+
+    const bindings = await this.bindingModel.find({ orgId, userId }).exec();
+    if (bindings.length === 0) {
+      return IMPLICIT_PROJECT_ROLES[orgRole];
+    }
+
+    return bindings.find((binding) => binding.projectId.toString() === projectId)?.role ?? null;
+  }
+}
@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+/**
+ * Roles within a single project, from most to least privileged:
+ * - PROJECT_OWNER: manage clusters and everything else in the project
+ * - PROJECT_DATA_ACCESS_READ_WRITE: read cluster config, read and write data
+ * - PROJECT_READ_ONLY: read cluster config and monitoring, no data access
+ */
+export type ProjectRole = 'PROJECT_OWNER' | 'PROJECT_DATA_ACCESS_READ_WRITE' | 'PROJECT_READ_ONLY';
+
+export const PROJECT_ROLES: ProjectRole[] = ['PROJECT_OWNER', 'PROJECT_DATA_ACCESS_READ_WRITE', 'PROJECT_READ_ONLY'];
+
+export type ProjectRoleBindingDocument = ProjectRoleBinding & Document;
+
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_: any, ret: any) => {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class ProjectRoleBinding {
+  id: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  orgId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Project', required: true })
+  projectId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, enum: PROJECT_ROLES })
+  role: ProjectRole;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const ProjectRoleBindingSchema = SchemaFactory.createForClass(ProjectRoleBinding);
+
+// Indexes
+ProjectRoleBindingSchema.index({ projectId: 1, userId: 1 }, { unique: true });
+ProjectRoleBindingSchema.index({ orgId: 1, userId: 1 });
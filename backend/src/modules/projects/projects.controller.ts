@@ -12,9 +12,11 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { ProjectsService } from './projects.service';
 import { OrgsService } from '../orgs/orgs.service';
+import { ProjectAccessService } from '../project-access/project-access.service';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
 import { AuditService } from '../audit/audit.service';
@@ -29,12 +31,13 @@ function auditActor(user: CurrentUserData) {
 
 @ApiTags('Projects')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('orgs/:orgId/projects')
 export class ProjectsController {
   constructor(
     private readonly projectsService: ProjectsService,
     private readonly orgsService: OrgsService,
+    private readonly projectAccessService: ProjectAccessService,
     private readonly auditService: AuditService,
   ) {}
 
@@ -73,20 +76,23 @@ export class ProjectsController {
   ) {
     await this.orgsService.checkAccess(orgId, user.userId);
     const projects = await this.projectsService.findAllByOrg(orgId);
+
+    // Members with project roles only see the projects they are bound to
+    const accessibleIds = await this.projectAccessService.getAccessibleProjectIds(orgId, user.userId);
     return {
       success: true,
-      data: projects,
+      data: accessibleIds
+        ? projects.filter((project) => accessibleIds.includes(project.id))
+        : projects,
     };
   }
 
   @Get(':projectId')
   @ApiOperation({ summary: 'Get project by ID' })
   async findOne(
-    @CurrentUser() user: CurrentUserData,
     @Param('orgId') orgId: string,
     @Param('projectId') projectId: string,
   ) {
-    await this.orgsService.checkAccess(orgId, user.userId);
     const project = await this.projectsService.findById(projectId);
     
     if (!project || project.orgId.toString() !== orgId) {
@@ -107,8 +113,6 @@ export class ProjectsController {
     @Param('projectId') projectId: string,
     @Body() updateProjectDto: UpdateProjectDto,
   ) {
-    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
-    
     const project = await this.projectsService.findById(projectId);
     if (!project || project.orgId.toString() !== orgId) {
       throw new NotFoundException('Project not found');
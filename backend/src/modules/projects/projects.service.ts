@@ -124,6 +124,10 @@ export class ProjectsService {
       'metrics',
       'slowqueries',
       'indexsuggestions',
+      'queryshapestats',
+      'queryregressions',
+      'piimaps',
+      'piiscans',
       'maintenancewindows',
       'logforwardings',
       'archiverules',
@@ -160,7 +164,7 @@ export class ProjectsService {
     }
 
     // Delete project-level data
-    const projectCollections = ['privatenetworks', 'events', 'dashboards'];
+    const projectCollections = ['privatenetworks', 'events', 'dashboards', 'projectrolebindings'];
     for (const collection of projectCollections) {
       try {
         const result = await this.connection.collection(collection).deleteMany({
@@ -242,10 +242,13 @@ export class AutoScalingService {
    * Apply a specific recommendation manually
    */
   async applyRecommendation(
+    clusterId: string,
     recommendationId: string,
     userId: string,
   ): Promise<{ success: boolean; jobId?: string; error?: string }> {
-    const recommendation = await this.recommendationModel.findById(recommendationId);
+    const recommendation = Types.ObjectId.isValid(recommendationId)
+      ? await this.recommendationModel.findOne({ _id: recommendationId, clusterId: new Types.ObjectId(clusterId) })
+      : null;
     if (!recommendation) {
       return { success: false, error: 'Recommendation not found' };
     }
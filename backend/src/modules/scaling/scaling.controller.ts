@@ -9,13 +9,14 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { ScalingService } from './scaling.service';
 import { AutoScalingService } from './auto-scaling.service';
 
 @ApiTags('Scaling Recommendations')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/scaling')
 export class ScalingController {
   constructor(
@@ -62,10 +63,12 @@ export class ScalingController {
   @Post('recommendations/:recommendationId/apply')
   @ApiOperation({ summary: 'Apply a scaling recommendation' })
   async applyRecommendation(
+    @Param('clusterId') clusterId: string,
     @Param('recommendationId') recommendationId: string,
     @CurrentUser() user: CurrentUserData,
   ) {
     const recommendation = await this.scalingService.applyRecommendation(
+      clusterId,
       recommendationId,
       user.userId,
     );
@@ -79,11 +82,13 @@ export class ScalingController {
   @Post('recommendations/:recommendationId/dismiss')
   @ApiOperation({ summary: 'Dismiss a scaling recommendation' })
   async dismissRecommendation(
+    @Param('clusterId') clusterId: string,
     @Param('recommendationId') recommendationId: string,
     @Body() body: { reason?: string },
     @CurrentUser() user: CurrentUserData,
   ) {
     const recommendation = await this.scalingService.dismissRecommendation(
+      clusterId,
       recommendationId,
       user.userId,
       body.reason,
@@ -140,10 +145,11 @@ export class ScalingController {
   @Post('auto-scaling/apply/:recommendationId')
   @ApiOperation({ summary: 'Apply a scaling recommendation manually' })
   async applyScalingRecommendation(
+    @Param('clusterId') clusterId: string,
     @Param('recommendationId') recommendationId: string,
     @CurrentUser() user: CurrentUserData,
   ) {
-    const result = await this.autoScalingService.applyRecommendation(recommendationId, user.userId);
+    const result = await this.autoScalingService.applyRecommendation(clusterId, recommendationId, user.userId);
     return { success: result.success, data: result };
   }
 }
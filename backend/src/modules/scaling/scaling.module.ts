@@ -3,6 +3,7 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { ScalingController, OrgScalingController } from './scaling.controller';
 import { ScalingService } from './scaling.service';
 import { AutoScalingService } from './auto-scaling.service';
+import { ScheduledScalingService } from './scheduled-scaling.service';
 import { ScalingRecommendation, ScalingRecommendationSchema } from './schemas/scaling-recommendation.schema';
 import { MetricsModule } from '../metrics/metrics.module';
 import { ClustersModule } from '../clusters/clusters.module';
@@ -10,6 +11,7 @@ import { ClusterSettingsModule } from '../cluster-settings/cluster-settings.modu
 import { JobsModule } from '../jobs/jobs.module';
 import { EventsModule } from '../events/events.module';
 import { AuditModule } from '../audit/audit.module';
+import { MaintenanceModule } from '../maintenance/maintenance.module';
 
 @Module({
   imports: [
@@ -22,9 +24,10 @@ import { AuditModule } from '../audit/audit.module';
     forwardRef(() => JobsModule),
     EventsModule,
     AuditModule,
+    MaintenanceModule,
   ],
   controllers: [ScalingController, OrgScalingController],
-  providers: [ScalingService, AutoScalingService],
+  providers: [ScalingService, AutoScalingService, ScheduledScalingService],
   exports: [ScalingService, AutoScalingService],
 })
 export class ScalingModule {}
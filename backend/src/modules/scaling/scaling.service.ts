@@ -57,11 +57,25 @@ export class ScalingService {
       .exec();
   }
 
-  async applyRecommendation(recommendationId: string, userId: string): Promise<ScalingRecommendation> {
-    const recommendation = await this.recommendationModel.findById(recommendationId);
+  /** Recommendations are addressed through their cluster's route, so other clusters' IDs are not found */
+  private async findRecommendation(clusterId: string, recommendationId: string): Promise<ScalingRecommendationDocument> {
+    const recommendation = Types.ObjectId.isValid(recommendationId)
+      ? await this.recommendationModel
+        .findOne({ _id: recommendationId, clusterId: new Types.ObjectId(clusterId) })
+        .exec()
+      : null;
     if (!recommendation) {
       throw new NotFoundException('Recommendation not found');
     }
+    return recommendation;
+  }
+
+  async applyRecommendation(
+    clusterId: string,
+    recommendationId: string,
+    userId: string,
+  ): Promise<ScalingRecommendation> {
+    const recommendation = await this.findRecommendation(clusterId, recommendationId);
 
     if (recommendation.status !== 'active') {
       throw new Error('Recommendation is no longer active');
@@ -84,14 +98,12 @@ export class ScalingService {
   }
 
   async dismissRecommendation(
+    clusterId: string,
     recommendationId: string,
     userId: string,
     reason?: string,
   ): Promise<ScalingRecommendation> {
-    const recommendation = await this.recommendationModel.findById(recommendationId);
-    if (!recommendation) {
-      throw new NotFoundException('Recommendation not found');
-    }
+    const recommendation = await this.findRecommendation(clusterId, recommendationId);
 
     recommendation.status = 'dismissed';
     recommendation.dismissedAt = new Date();
@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { ScheduledScalingService } from './scheduled-scaling.service';
+import { ClustersService } from '../clusters/clusters.service';
+import { ClusterSettingsService } from '../cluster-settings/cluster-settings.service';
+import { JobsService } from '../jobs/jobs.service';
+import { MaintenanceService } from '../maintenance/maintenance.service';
+import { EventsService } from '../events/events.service';
+
+describe('ScheduledScalingService', () => {
+  let service: ScheduledScalingService;
+
+  const CLUSTER_ID = new Types.ObjectId();
+  // 08:00 UTC occurrence of the schedule below, one minute late
+  const NOW = new Date('2026-03-02T08:01:00Z');
+  const OCCURRENCE = new Date('2026-03-02T08:00:00Z');
+
+  const mockClusterSettingsService = {
+    findWithEnabledSchedules: jest.fn(),
+    markScheduleTriggered: jest.fn(),
+    setScheduleJob: jest.fn(),
+    recordScheduledScalingHistory: jest.fn(),
+  };
+
+  const mockClustersService = {
+    findById: jest.fn(),
+    updateStatus: jest.fn(),
+  };
+
+  const mockJobsService = {
+    findActiveJobForCluster: jest.fn(),
+    createJob: jest.fn(),
+  };
+
+  const mockMaintenanceService = {
+    findActiveWindow: jest.fn(),
+  };
+
+  const mockEventsService = {
+    createEvent: jest.fn(),
+  };
+
+  const schedule = (overrides: Record<string, any> = {}) => ({
+    id: 'morning',
+    name: 'Scale up for business hours',
+    enabled: true,
+    cronSchedule: '0 8 * * *',
+    targetPlan: 'LARGE',
+    timezone: 'UTC',
+    ...overrides,
+  });
+
+  const historyStatuses = () =>
+    mockClusterSettingsService.recordScheduledScalingHistory.mock.calls.map(([, entry]) => entry.status);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScheduledScalingService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: ClusterSettingsService, useValue: mockClusterSettingsService },
+        { provide: ClustersService, useValue: mockClustersService },
+        { provide: JobsService, useValue: mockJobsService },
+        { provide: MaintenanceService, useValue: mockMaintenanceService },
+        { provide: EventsService, useValue: mockEventsService },
+      ],
+    }).compile();
+
+    service = module.get<ScheduledScalingService>(ScheduledScalingService);
+
+    jest.clearAllMocks();
+    mockClusterSettingsService.findWithEnabledSchedules.mockResolvedValue([
+      { clusterId: CLUSTER_ID, scheduledScaling: [schedule()] },
+    ]);
+    mockClustersService.findById.mockResolvedValue({
+      id: CLUSTER_ID.toString(),
+      plan: 'MEDIUM',
+      status: 'ready',
+      projectId: new Types.ObjectId(),
+      orgId: new Types.ObjectId(),
+    });
+    mockClusterSettingsService.markScheduleTriggered.mockResolvedValue(true);
+    mockClustersService.updateStatus.mockResolvedValue({});
+    mockJobsService.findActiveJobForCluster.mockResolvedValue(null);
+    mockJobsService.createJob.mockResolvedValue({ id: 'job-1' });
+    mockMaintenanceService.findActiveWindow.mockResolvedValue(null);
+    mockEventsService.createEvent.mockResolvedValue(undefined);
+  });
+
+  it('should enqueue a resize when an occurrence is due', async () => {
+    await service.evaluateSchedules(NOW);
+
+    expect(mockClustersService.updateStatus).toHaveBeenCalledWith(CLUSTER_ID.toString(), 'updating');
+    expect(mockJobsService.createJob).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'RESIZE_CLUSTER',
+      payload: expect.objectContaining({ oldPlan: 'MEDIUM', newPlan: 'LARGE', scheduleId: 'morning' }),
+    }));
+    expect(mockClusterSettingsService.markScheduleTriggered).toHaveBeenCalledWith(
+      CLUSTER_ID.toString(), 'morning', undefined, OCCURRENCE,
+    );
+    expect(mockClusterSettingsService.setScheduleJob).toHaveBeenCalledWith(CLUSTER_ID.toString(), 'morning', 'job-1');
+    expect(historyStatuses()).toEqual(['enqueued']);
+  });
+
+  it('should leave an occurrence claimed by another instance alone', async () => {
+    mockClusterSettingsService.markScheduleTriggered.mockResolvedValue(false);
+
+    await service.evaluateSchedules(NOW);
+
+    expect(mockClustersService.updateStatus).not.toHaveBeenCalled();
+    expect(mockJobsService.createJob).not.toHaveBeenCalled();
+    expect(mockClusterSettingsService.recordScheduledScalingHistory).not.toHaveBeenCalled();
+  });
+
+  it('should fire each occurrence once', async () => {
+    mockClusterSettingsService.findWithEnabledSchedules.mockResolvedValue([
+      { clusterId: CLUSTER_ID, scheduledScaling: [schedule({ lastTriggeredAt: OCCURRENCE })] },
+    ]);
+
+    await service.evaluateSchedules(NOW);
+
+    expect(mockClusterSettingsService.markScheduleTriggered).not.toHaveBeenCalled();
+    expect(mockJobsService.createJob).not.toHaveBeenCalled();
+  });
+
+  it('should not replay occurrences older than the catch-up window', async () => {
+    await service.evaluateSchedules(new Date('2026-03-02T08:30:00Z'));
+
+    expect(mockJobsService.createJob).not.toHaveBeenCalled();
+  });
+
+  it('should record a skip while another job or a maintenance window is active', async () => {
+    mockJobsService.findActiveJobForCluster.mockResolvedValueOnce({ id: 'job-0', type: 'CREATE_BACKUP', status: 'in_progress' });
+    await service.evaluateSchedules(NOW);
+
+    mockMaintenanceService.findActiveWindow.mockResolvedValueOnce({ title: 'Kernel upgrade' });
+    await service.evaluateSchedules(NOW);
+
+    const reasons = mockClusterSettingsService.recordScheduledScalingHistory.mock.calls.map(([, entry]) => entry.reason);
+    expect(historyStatuses()).toEqual(['skipped', 'skipped']);
+    expect(reasons).toEqual([
+      'Job job-0 (CREATE_BACKUP) is still in_progress',
+      'Maintenance window "Kernel upgrade" is active',
+    ]);
+    expect(mockClustersService.updateStatus).not.toHaveBeenCalled();
+  });
+
+  it('should restore the cluster status when the job could not be created', async () => {
+    mockJobsService.createJob.mockRejectedValue(new Error('queue unavailable'));
+
+    await service.evaluateSchedules(NOW);
+
+    expect(mockClustersService.updateStatus.mock.calls.map(([, status]) => status)).toEqual(['updating', 'ready']);
+    expect(historyStatuses()).toEqual(['failed']);
+  });
+
+  it('should leave the status to the job once it exists', async () => {
+    mockEventsService.createEvent.mockRejectedValue(new Error('events unavailable'));
+
+    await service.evaluateSchedules(NOW);
+
+    expect(mockClustersService.updateStatus.mock.calls.map(([, status]) => status)).toEqual(['updating']);
+  });
+});
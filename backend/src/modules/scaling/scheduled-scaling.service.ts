@@ -0,0 +1,247 @@
+import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import { ClustersService } from '../clusters/clusters.service';
+import { ClusterDocument, ClusterPlan } from '../clusters/schemas/cluster.schema';
+import { ClusterSettingsService } from '../cluster-settings/cluster-settings.service';
+import { ClusterSettingsDocument } from '../cluster-settings/schemas/cluster-settings.schema';
+import { findLastCronOccurrence } from '../cluster-settings/cron-schedule';
+import { JobsService } from '../jobs/jobs.service';
+import { MaintenanceService } from '../maintenance/maintenance.service';
+import { EventsService } from '../events/events.service';
+
+type ScheduledScalingEntry = ClusterSettingsDocument['scheduledScaling'][number];
+
+const VALID_PLANS: ClusterPlan[] = ['DEV', 'SMALL', 'MEDIUM', 'LARGE', 'XLARGE', 'XXL', 'XXXL', 'DEDICATED_L', 'DEDICATED_XL'];
+
+/**
+ * How far back (in minutes) an occurrence may lie and still be fired. Covers
+ * short scheduler stalls or restarts without replaying stale schedules.
+ */
+const CATCH_UP_MINUTES = 5;
+
+@Injectable()
+export class ScheduledScalingService {
+  private readonly logger = new Logger(ScheduledScalingService.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly clusterSettingsService: ClusterSettingsService,
+    @Inject(forwardRef(() => ClustersService))
+    private readonly clustersService: ClustersService,
+    @Inject(forwardRef(() => JobsService))
+    private readonly jobsService: JobsService,
+    private readonly maintenanceService: MaintenanceService,
+    private readonly eventsService: EventsService,
+  ) {}
+
+  /**
+   * Evaluate all enabled scaling schedules once a minute
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async runScheduledScaling(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test') {
+      return;
+    }
+
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      await this.evaluateSchedules(new Date());
+    } catch (error: any) {
+      this.logger.error(`Scheduled scaling run failed: ${error.message}`);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  async evaluateSchedules(now: Date): Promise<void> {
+    const settingsList = await this.clusterSettingsService.findWithEnabledSchedules();
+
+    for (const settings of settingsList) {
+      for (const schedule of settings.scheduledScaling) {
+        if (!schedule.enabled) continue;
+
+        try {
+          await this.evaluateSchedule(settings.clusterId.toString(), schedule, now);
+        } catch (error: any) {
+          this.logger.error(
+            `Failed to evaluate schedule ${schedule.id} for cluster ${settings.clusterId}: ${error.message}`,
+          );
+        }
+      }
+    }
+  }
+
+  private async evaluateSchedule(
+    clusterId: string,
+    schedule: ScheduledScalingEntry,
+    now: Date,
+  ): Promise<void> {
+    let lastOccurrence: Date | null;
+    try {
+      lastOccurrence = findLastCronOccurrence(
+        schedule.cronSchedule,
+        schedule.timezone || 'UTC',
+        now,
+        CATCH_UP_MINUTES,
+      );
+    } catch (error: any) {
+      this.logger.warn(`Schedule ${schedule.id} has an invalid cron expression: ${error.message}`);
+      return;
+    }
+
+    if (!lastOccurrence) return;
+    const occurrence = lastOccurrence;
+    if (schedule.lastTriggeredAt && new Date(schedule.lastTriggeredAt) >= occurrence) return;
+
+    // Claim the occurrence first so a failure below is recorded once, not retried every minute.
+    // Another instance that claimed it already handles it.
+    const claimed = await this.clusterSettingsService.markScheduleTriggered(
+      clusterId,
+      schedule.id,
+      schedule.lastTriggeredAt,
+      occurrence,
+    );
+    if (!claimed) return;
+
+    const cluster = await this.clustersService.findById(clusterId);
+    if (!cluster) {
+      this.logger.warn(`Cluster ${clusterId} not found for scheduled scaling ${schedule.id}`);
+      return;
+    }
+
+    const skip = (reason: string) => this.recordSkip(clusterId, schedule, cluster.plan, occurrence, reason);
+
+    const targetPlan = schedule.targetPlan as ClusterPlan;
+    if (!VALID_PLANS.includes(targetPlan)) {
+      return skip(`Unknown target plan ${schedule.targetPlan}`);
+    }
+
+    if (cluster.plan === targetPlan) {
+      return skip(`Cluster is already on plan ${targetPlan}`);
+    }
+
+    if (!['ready', 'degraded'].includes(cluster.status)) {
+      return skip(`Cluster is in ${cluster.status} state`);
+    }
+
+    const activeJob = await this.jobsService.findActiveJobForCluster(clusterId);
+    if (activeJob) {
+      return skip(`Job ${activeJob.id} (${activeJob.type}) is still ${activeJob.status}`);
+    }
+
+    const maintenance = await this.maintenanceService.findActiveWindow(clusterId, now);
+    if (maintenance) {
+      return skip(`Maintenance window "${maintenance.title}" is active`);
+    }
+
+    await this.executeSchedule(cluster, schedule, targetPlan, occurrence);
+  }
+
+  private async executeSchedule(
+    cluster: ClusterDocument,
+    schedule: ScheduledScalingEntry,
+    targetPlan: ClusterPlan,
+    occurrence: Date,
+  ): Promise<void> {
+    const clusterId = cluster.id;
+    const fromPlan = cluster.plan;
+    const fromStatus = cluster.status;
+    let jobId: string | undefined;
+
+    this.logger.log(
+      `Scheduled scaling "${schedule.name}" resizing cluster ${clusterId} from ${fromPlan} to ${targetPlan}`,
+    );
+
+    try {
+      await this.clustersService.updateStatus(clusterId, 'updating');
+
+      const job = await this.jobsService.createJob({
+        type: 'RESIZE_CLUSTER',
+        targetClusterId: clusterId,
+        targetProjectId: cluster.projectId.toString(),
+        targetOrgId: cluster.orgId.toString(),
+        payload: {
+          oldPlan: fromPlan,
+          newPlan: targetPlan,
+          reason: `Scheduled scaling: ${schedule.name}`,
+          scheduleId: schedule.id,
+        },
+      });
+      jobId = job.id;
+
+      await this.clusterSettingsService.setScheduleJob(clusterId, schedule.id, job.id);
+      await this.clusterSettingsService.recordScheduledScalingHistory(clusterId, {
+        scheduleId: schedule.id,
+        scheduleName: schedule.name,
+        triggeredAt: occurrence,
+        fromPlan,
+        toPlan: targetPlan,
+        status: 'enqueued',
+        jobId: job.id,
+      });
+
+      await this.eventsService.createEvent({
+        orgId: cluster.orgId.toString(),
+        projectId: cluster.projectId.toString(),
+        clusterId,
+        type: 'CLUSTER_SCALING_STARTED',
+        severity: 'info',
+        message: `Scheduled scaling "${schedule.name}" from ${fromPlan} to ${targetPlan}`,
+        metadata: {
+          fromPlan,
+          toPlan: targetPlan,
+          scheduleId: schedule.id,
+          jobId: job.id,
+          automatic: true,
+          scheduled: true,
+        },
+      });
+    } catch (error: any) {
+      this.logger.error(`Scheduled scaling failed for cluster ${clusterId}: ${error.message}`);
+
+      // Without a job nothing would ever move the cluster out of 'updating'
+      if (!jobId) {
+        await this.clustersService.updateStatus(clusterId, fromStatus).catch((restoreError: any) =>
+          this.logger.error(`Failed to restore status of cluster ${clusterId}: ${restoreError.message}`),
+        );
+      }
+
+      await this.clusterSettingsService.recordScheduledScalingHistory(clusterId, {
+        scheduleId: schedule.id,
+        scheduleName: schedule.name,
+        triggeredAt: occurrence,
+        fromPlan,
+        toPlan: targetPlan,
+        status: 'failed',
+        reason: error.message,
+      });
+    }
+  }
+
+  private async recordSkip(
+    clusterId: string,
+    schedule: ScheduledScalingEntry,
+    currentPlan: string,
+    occurrence: Date,
+    reason: string,
+  ): Promise<void> {
+    this.logger.debug(`Skipping scheduled scaling ${schedule.id} for cluster ${clusterId}: ${reason}`);
+
+    await this.clusterSettingsService.recordScheduledScalingHistory(clusterId, {
+      scheduleId: schedule.id,
+      scheduleName: schedule.name,
+      triggeredAt: occurrence,
+      fromPlan: currentPlan,
+      toPlan: schedule.targetPlan,
+      status: 'skipped',
+      reason,
+    });
+  }
+}
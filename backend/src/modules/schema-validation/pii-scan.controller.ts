@@ -0,0 +1,51 @@
+import { Controller, Get, Post, Param, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { RequireProjectRole } from '../../common/decorators/project-access.decorator';
+import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { PiiScannerService } from './pii-scanner.service';
+
+@ApiTags('PII Discovery')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
+@Controller('projects/:projectId/clusters/:clusterId/pii-scans')
+export class PiiScanController {
+  constructor(private readonly piiScannerService: PiiScannerService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
+  @ApiOperation({ summary: 'Scan the cluster\'s collections for PII' })
+  async startScan(
+    @Param('clusterId') clusterId: string,
+    @CurrentUser() user: CurrentUserData,
+  ) {
+    const scan = await this.piiScannerService.startScan(clusterId, user.userId);
+    return { success: true, data: scan };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List PII scans of the cluster' })
+  async listScans(@Param('clusterId') clusterId: string) {
+    const scans = await this.piiScannerService.listScans(clusterId);
+    return { success: true, data: scans };
+  }
+
+  @Get('latest')
+  @ApiOperation({ summary: 'Get the PII classification report of the last completed scan' })
+  async getLatestReport(@Param('clusterId') clusterId: string) {
+    const report = await this.piiScannerService.getLatestReport(clusterId);
+    return { success: true, data: report };
+  }
+
+  @Get(':scanId')
+  @ApiOperation({ summary: 'Get a PII scan' })
+  async getScan(
+    @Param('clusterId') clusterId: string,
+    @Param('scanId') scanId: string,
+  ) {
+    const scan = await this.piiScannerService.getScan(clusterId, scanId);
+    return { success: true, data: scan };
+  }
+}
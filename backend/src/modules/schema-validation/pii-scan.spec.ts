@@ -0,0 +1,46 @@
+import { isPiiComplianceTag, piiComplianceTags, scannedFieldKey, schemaPiiHints } from './pii-scan';
+
+describe('pii-scan', () => {
+  it('should read PII hints from validation schemas, including nested and array fields', () => {
+    const hints = schemaPiiHints({
+      bsonType: 'object',
+      properties: {
+        email: { bsonType: 'string', description: 'Email address' },
+        lastLogin: { bsonType: 'string', format: 'ipv4' },
+        billing: {
+          bsonType: 'object',
+          properties: { account: { bsonType: 'string', title: 'IBAN' } },
+        },
+        contacts: {
+          bsonType: 'array',
+          items: { bsonType: 'object', properties: { mobile: { bsonType: 'string', description: 'Mobile phone' } } },
+        },
+        status: { bsonType: 'string', description: 'Order status' },
+      },
+    });
+
+    expect(Object.fromEntries(hints)).toEqual({
+      email: 'email',
+      lastLogin: 'ip_address',
+      'billing.account': 'iban',
+      'contacts.mobile': 'phone',
+    });
+  });
+
+  it('should accept schemas wrapped in $jsonSchema', () => {
+    expect(schemaPiiHints({ $jsonSchema: { properties: { ssn: { description: 'SSN' } } } }).get('ssn')).toBe('national_id');
+  });
+
+  it('should tag each category once, prefixed by a plain pii tag', () => {
+    expect(piiComplianceTags(['email', 'card_number', 'email'])).toEqual(['pii', 'pii-card-number', 'pii-email']);
+    expect(piiComplianceTags([])).toEqual([]);
+    expect(['pii', 'pii-email', 'gdpr', 'pci-dss'].filter(isPiiComplianceTag)).toEqual(['pii', 'pii-email']);
+  });
+
+  it('should tell fields apart by namespace, path and category', () => {
+    const field = { database: 'shop', collection: 'orders', path: 'email', category: 'email' as const };
+
+    expect(scannedFieldKey(field)).toBe('shop.orders.email:email');
+    expect(scannedFieldKey({ ...field, category: 'name' })).not.toBe(scannedFieldKey(field));
+  });
+});
@@ -0,0 +1,64 @@
+import { PiiCategory } from '../gdpr/pii-fields';
+
+// Descriptions and formats in validation schemas that name a PII category
+const SCHEMA_HINTS: Array<[RegExp, PiiCategory]> = [
+  [/e-?mail/i, 'email'],
+  [/phone|mobile/i, 'phone'],
+  [/\biban\b|bank account/i, 'iban'],
+  [/credit card|card number/i, 'card_number'],
+  [/\bip address\b/i, 'ip_address'],
+  [/national id|social security|\bssn\b|tax id/i, 'national_id'],
+];
+
+function hintFor(property: Record<string, any>): PiiCategory | undefined {
+  if (property.format === 'email') return 'email';
+  if (property.format === 'ipv4' || property.format === 'ipv6') return 'ip_address';
+  const text = [property.description, property.title].filter((t) => typeof t === 'string').join(' ');
+  return SCHEMA_HINTS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+/**
+ * PII categories a collection's JSON schema declares for its fields,
+ * keyed by dotted path. Array items share the array's path, as in the
+ * classifier.
+ */
+export function schemaPiiHints(jsonSchema: Record<string, any>, prefix = ''): Map<string, PiiCategory> {
+  const hints = new Map<string, PiiCategory>();
+  const schema = jsonSchema?.$jsonSchema ?? jsonSchema;
+
+  for (const [key, property] of Object.entries<Record<string, any>>(schema?.properties ?? {})) {
+    if (!property || typeof property !== 'object') continue;
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    const hint = hintFor(property) ?? (property.items ? hintFor(property.items) : undefined);
+    if (hint) hints.set(path, hint);
+
+    for (const nested of [property, property.items]) {
+      if (nested?.properties) {
+        for (const [nestedPath, category] of schemaPiiHints(nested, path)) hints.set(nestedPath, category);
+      }
+    }
+  }
+  return hints;
+}
+
+export interface ScannedField {
+  database: string;
+  collection: string;
+  path: string;
+  category: PiiCategory;
+}
+
+export function scannedFieldKey(field: ScannedField): string {
+  return `${field.database}.${field.collection}.${field.path}:${field.category}`;
+}
+
+/** Backup compliance tags for the categories found in a cluster */
+export function piiComplianceTags(categories: Iterable<PiiCategory>): string[] {
+  const tags = [...new Set(categories)].map((category) => `pii-${category.replace(/_/g, '-')}`).sort();
+  return tags.length > 0 ? ['pii', ...tags] : [];
+}
+
+export function isPiiComplianceTag(tag: string): boolean {
+  return tag === 'pii' || tag.startsWith('pii-');
+}
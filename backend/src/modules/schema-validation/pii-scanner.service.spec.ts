@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { PiiScannerService } from './pii-scanner.service';
+import { PiiScan } from './schemas/pii-scan.schema';
+import { SchemaValidationService } from './schema-validation.service';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+import { ClustersService } from '../clusters/clusters.service';
+import { BackupPolicyService } from '../backups/backup-policy.service';
+import { EventsService } from '../events/events.service';
+
+describe('PiiScannerService', () => {
+  let service: PiiScannerService;
+
+  const exec = (value: unknown) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+  const mockPiiScanModel = {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  const client = {
+    db: () => ({
+      admin: () => ({ listDatabases: jest.fn(async () => ({ databases: [{ name: 'shop' }] })) }),
+      listCollections: () => ({ toArray: async () => [{ name: 'orders' }] }),
+      collection: () => ({ aggregate: () => ({ toArray: async () => [{ email: 'ada@example.com' }] }) }),
+    }),
+  };
+
+  const scan = (overrides: Record<string, any> = {}): any => ({
+    _id: new Types.ObjectId(),
+    id: 'scan-1',
+    clusterId: new Types.ObjectId(),
+    projectId: new Types.ObjectId(),
+    orgId: new Types.ObjectId(),
+    status: 'running',
+    attempts: 1,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PiiScannerService,
+        { provide: getModelToken(PiiScan.name), useValue: mockPiiScanModel },
+        { provide: ConfigService, useValue: { get: jest.fn((_key: string, fallback?: unknown) => fallback) } },
+        { provide: SchemaValidationService, useValue: { findAllByCluster: jest.fn(async () => []) } },
+        { provide: DataExplorerService, useValue: { getConnection: jest.fn(async () => client) } },
+        { provide: ClustersService, useValue: { findById: jest.fn() } },
+        { provide: BackupPolicyService, useValue: { syncPiiComplianceTags: jest.fn() } },
+        { provide: EventsService, useValue: { createEvent: jest.fn(async () => ({})) } },
+      ],
+    }).compile();
+
+    service = module.get<PiiScannerService>(PiiScannerService);
+
+    jest.clearAllMocks();
+    mockPiiScanModel.findOneAndUpdate.mockReturnValue(exec(null));
+    mockPiiScanModel.updateOne.mockReturnValue(exec({ modifiedCount: 1 }));
+    mockPiiScanModel.findOne.mockReturnValue({ sort: () => exec(null) });
+  });
+
+  describe('runQueuedScans', () => {
+    it('should claim queued scans and running scans whose lease expired', async () => {
+      await service.runQueuedScans();
+
+      const [filter, update] = mockPiiScanModel.findOneAndUpdate.mock.calls[0];
+      expect(filter.$or).toEqual([
+        { status: 'queued' },
+        { status: 'running', $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: expect.any(Date) } }] },
+      ]);
+      expect(update.$set).toEqual(expect.objectContaining({ status: 'running', lockedUntil: expect.any(Date) }));
+      expect(update.$inc).toEqual({ attempts: 1 });
+    });
+
+    it('should renew the lease while scanning and release it on completion', async () => {
+      mockPiiScanModel.findOneAndUpdate.mockReturnValueOnce(exec(scan())).mockReturnValue(exec(null));
+
+      await service.runQueuedScans();
+
+      const updates = mockPiiScanModel.updateOne.mock.calls.map(([, update]) => update);
+      expect(updates[0]).toEqual({ $set: { lockedUntil: expect.any(Date) } });
+      expect(updates.at(-1).$set).toEqual(expect.objectContaining({ status: 'completed', collectionsScanned: 1 }));
+      expect(updates.at(-1).$unset).toEqual({ lockedUntil: 1 });
+    });
+
+    it('should give up on a scan that keeps losing its worker', async () => {
+      mockPiiScanModel.findOneAndUpdate.mockReturnValueOnce(exec(scan({ attempts: 4 }))).mockReturnValue(exec(null));
+
+      await service.runQueuedScans();
+
+      expect(mockPiiScanModel.updateOne).toHaveBeenCalledTimes(1);
+      const [, update] = mockPiiScanModel.updateOne.mock.calls[0];
+      expect(update.$set).toEqual(expect.objectContaining({ status: 'failed', error: 'Gave up after 3 attempts' }));
+      expect(update.$unset).toEqual({ lockedUntil: 1 });
+    });
+  });
+});
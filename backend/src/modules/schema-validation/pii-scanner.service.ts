@@ -0,0 +1,266 @@
+import { ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Document } from 'mongodb';
+import { PiiScan, PiiScanDocument, DiscoveredPiiField, PiiScanTrigger } from './schemas/pii-scan.schema';
+import { SchemaValidationService } from './schema-validation.service';
+import { piiComplianceTags, scannedFieldKey, schemaPiiHints } from './pii-scan';
+import { classifySample, PiiCategory } from '../gdpr/pii-fields';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+import { ClustersService } from '../clusters/clusters.service';
+import { BackupPolicyService } from '../backups/backup-policy.service';
+import { EventsService } from '../events/events.service';
+import { SYSTEM_DATABASES } from '../performance-advisor/profiler-entries';
+
+const SAMPLE_SIZE = 100;
+const RESCAN_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000;
+// Renewed after every collection, so only a worker that went away loses the scan
+const SCAN_LEASE_MS = 10 * 60 * 1000;
+// A scan that keeps taking its worker down is not retried forever
+const MAX_SCAN_ATTEMPTS = 3;
+
+/**
+ * Samples every collection of a cluster and classifies the fields that
+ * hold personal data. Clusters scanned once are rescanned weekly.
+ */
+@Injectable()
+export class PiiScannerService {
+  private readonly logger = new Logger(PiiScannerService.name);
+  private isScanning = false;
+
+  constructor(
+    @InjectModel(PiiScan.name) private piiScanModel: Model<PiiScanDocument>,
+    private readonly configService: ConfigService,
+    private readonly schemaValidationService: SchemaValidationService,
+    private readonly dataExplorerService: DataExplorerService,
+    private readonly clustersService: ClustersService,
+    private readonly backupPolicyService: BackupPolicyService,
+    private readonly eventsService: EventsService,
+  ) {}
+
+  async startScan(clusterId: string, userId?: string, trigger: PiiScanTrigger = 'manual'): Promise<PiiScan> {
+    const cluster = await this.clustersService.findById(clusterId);
+    if (!cluster) {
+      throw new NotFoundException('Cluster not found');
+    }
+
+    const pending = await this.piiScanModel.exists({
+      clusterId: new Types.ObjectId(clusterId),
+      status: { $in: ['queued', 'running'] },
+    });
+    if (pending) {
+      throw new ConflictException({ code: 'SCAN_IN_PROGRESS', message: 'A PII scan of this cluster is already in progress' });
+    }
+
+    return this.piiScanModel.create({
+      clusterId: cluster._id,
+      projectId: cluster.projectId,
+      orgId: cluster.orgId,
+      status: 'queued',
+      trigger,
+      requestedBy: userId ? new Types.ObjectId(userId) : undefined,
+    });
+  }
+
+  async getLatestReport(clusterId: string): Promise<PiiScan | null> {
+    return this.piiScanModel
+      .findOne({ clusterId: new Types.ObjectId(clusterId), status: 'completed' })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+
+  async listScans(clusterId: string, limit = 20): Promise<PiiScan[]> {
+    return this.piiScanModel
+      .find({ clusterId: new Types.ObjectId(clusterId) }, { fields: 0 })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .exec();
+  }
+
+  async getScan(clusterId: string, scanId: string): Promise<PiiScan> {
+    const scan = Types.ObjectId.isValid(scanId)
+      ? await this.piiScanModel.findOne({ _id: scanId, clusterId: new Types.ObjectId(clusterId) }).exec()
+      : null;
+    if (!scan) {
+      throw new NotFoundException({ code: 'SCAN_NOT_FOUND', message: 'PII scan not found' });
+    }
+    return scan;
+  }
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async runQueuedScans(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test' || this.isScanning) {
+      return;
+    }
+
+    this.isScanning = true;
+    try {
+      let scan: PiiScanDocument | null;
+      while ((scan = await this.claimScan(new Date()))) {
+        if (scan.attempts > MAX_SCAN_ATTEMPTS) {
+          await this.piiScanModel.updateOne(
+            { _id: scan._id },
+            {
+              $set: { status: 'failed', error: `Gave up after ${MAX_SCAN_ATTEMPTS} attempts`, completedAt: new Date() },
+              $unset: { lockedUntil: 1 },
+            },
+          ).exec();
+          continue;
+        }
+        await this.runScan(scan);
+      }
+    } catch (error: any) {
+      this.logger.error(`PII scan processing failed: ${error.message}`);
+    } finally {
+      this.isScanning = false;
+    }
+  }
+
+  /**
+   * Take the oldest queued scan, or a running one whose worker stopped
+   * renewing its lease (restart, crash). Scans only read, so running one
+   * again is safe.
+   */
+  private async claimScan(now: Date): Promise<PiiScanDocument | null> {
+    return this.piiScanModel.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'queued' },
+          { status: 'running', $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }] },
+        ],
+      },
+      {
+        $set: { status: 'running', startedAt: now, lockedUntil: new Date(now.getTime() + SCAN_LEASE_MS) },
+        $inc: { attempts: 1 },
+      },
+      { sort: { createdAt: 1 }, new: true },
+    ).exec();
+  }
+
+  /** Queue a rescan of ready clusters whose last scan is a week old */
+  @Cron(CronExpression.EVERY_HOUR)
+  async scheduleRescans(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test') {
+      return;
+    }
+
+    try {
+      const due = await this.piiScanModel.aggregate<{ _id: Types.ObjectId }>([
+        { $sort: { createdAt: -1 } },
+        { $group: { _id: '$clusterId', status: { $first: '$status' }, createdAt: { $first: '$createdAt' } } },
+        {
+          $match: {
+            status: { $in: ['completed', 'failed'] },
+            createdAt: { $lt: new Date(Date.now() - RESCAN_INTERVAL_MS) },
+          },
+        },
+      ]).exec();
+
+      for (const { _id } of due) {
+        const cluster = await this.clustersService.findById(_id.toString());
+        if (cluster?.status !== 'ready') continue;
+        await this.startScan(_id.toString(), undefined, 'scheduled').catch((error) =>
+          this.logger.warn(`Could not schedule PII scan of cluster ${_id}: ${error.message}`),
+        );
+      }
+    } catch (error: any) {
+      this.logger.error(`PII rescan scheduling failed: ${error.message}`);
+    }
+  }
+
+  async runScan(scan: PiiScanDocument): Promise<void> {
+    const clusterId = scan.clusterId.toString();
+    try {
+      const client = await this.dataExplorerService.getConnection(clusterId);
+      const hints = await this.schemaHints(clusterId);
+
+      const fields: DiscoveredPiiField[] = [];
+      let collectionsScanned = 0;
+      let documentsSampled = 0;
+
+      const { databases } = await client.db('admin').admin().listDatabases({ nameOnly: true });
+      for (const { name: database } of databases) {
+        if (SYSTEM_DATABASES.includes(database)) continue;
+
+        const collections = await client.db(database).listCollections({ type: 'collection' }, { nameOnly: true }).toArray();
+        for (const { name: collection } of collections) {
+          if (collection.startsWith('system.')) continue;
+
+          let sample: Document[];
+          try {
+            sample = await client.db(database).collection(collection).aggregate([{ $sample: { size: SAMPLE_SIZE } }]).toArray();
+          } catch (error: any) {
+            this.logger.warn(`Could not sample ${database}.${collection} on cluster ${clusterId}: ${error.message}`);
+            continue;
+          }
+
+          collectionsScanned += 1;
+          documentsSampled += sample.length;
+          for (const field of classifySample(sample, hints.get(`${database}.${collection}`))) {
+            fields.push({ database, collection, ...field, isNew: false });
+          }
+          await this.piiScanModel.updateOne(
+            { _id: scan._id },
+            { $set: { lockedUntil: new Date(Date.now() + SCAN_LEASE_MS) } },
+          ).exec();
+        }
+      }
+
+      const previous = await this.getLatestReport(clusterId);
+      const known = new Set((previous?.fields ?? []).map(scannedFieldKey));
+      const newFields = fields.filter((field) => !known.has(scannedFieldKey(field)));
+      for (const field of newFields) field.isNew = true;
+
+      await this.piiScanModel.updateOne(
+        { _id: scan._id },
+        {
+          $set: {
+            status: 'completed',
+            fields,
+            collectionsScanned,
+            documentsSampled,
+            newFieldCount: newFields.length,
+            completedAt: new Date(),
+          },
+          $unset: { lockedUntil: 1 },
+        },
+      ).exec();
+
+      if (newFields.length > 0) {
+        await this.eventsService.createEvent({
+          orgId: scan.orgId.toString(),
+          projectId: scan.projectId.toString(),
+          clusterId,
+          type: 'PII_FIELDS_DISCOVERED',
+          severity: 'warning',
+          message: `${newFields.length} new PII field(s) found: ${newFields.slice(0, 5).map((f) => `${f.database}.${f.collection}.${f.path}`).join(', ')}${newFields.length > 5 ? ', ...' : ''}`,
+          metadata: {
+            scanId: scan.id,
+            fields: newFields.map(({ database, collection, path, category, confidence }) => ({ database, collection, path, category, confidence })),
+          },
+        }).catch((error) => this.logger.warn(`Could not record PII discovery event: ${error.message}`));
+      }
+
+      await this.backupPolicyService.syncPiiComplianceTags(
+        clusterId,
+        piiComplianceTags(fields.map((f) => f.category)),
+      );
+
+      this.logger.log(`PII scan of cluster ${clusterId} completed: ${fields.length} field(s), ${newFields.length} new`);
+    } catch (error: any) {
+      this.logger.warn(`PII scan ${scan.id} of cluster ${clusterId} failed: ${error.message}`);
+      await this.piiScanModel.updateOne(
+        { _id: scan._id },
+        { $set: { status: 'failed', error: error.message, completedAt: new Date() }, $unset: { lockedUntil: 1 } },
+      ).exec();
+    }
+  }
+
+  /** PII hints from the cluster's validation schemas, keyed by namespace */
+  private async schemaHints(clusterId: string): Promise<Map<string, Map<string, PiiCategory>>> {
+    const schemas = await this.schemaValidationService.findAllByCluster(clusterId);
+    return new Map(schemas.map((schema) => [`${schema.database}.${schema.collection}`, schemaPiiHints(schema.jsonSchema)]));
+  }
+}
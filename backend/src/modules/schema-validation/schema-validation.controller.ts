@@ -11,13 +11,15 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { RequireProjectRole } from '../../common/decorators/project-access.decorator';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { SchemaValidationService } from './schema-validation.service';
 import { CreateSchemaDto, UpdateSchemaDto, ValidateDocumentDto, GenerateSchemaDto, ValidateBulkDto } from './dto/schema-validation.dto';
 
 @ApiTags('Schema Validation')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/schemas')
 export class SchemaValidationController {
   constructor(private readonly schemaService: SchemaValidationService) {}
@@ -49,8 +51,8 @@ export class SchemaValidationController {
 
   @Get(':schemaId')
   @ApiOperation({ summary: 'Get schema details' })
-  async findOne(@Param('schemaId') schemaId: string) {
-    const schema = await this.schemaService.findById(schemaId);
+  async findOne(@Param('clusterId') clusterId: string, @Param('schemaId') schemaId: string) {
+    const schema = await this.schemaService.findById(clusterId, schemaId);
     if (!schema) throw new NotFoundException('Schema not found');
     return { success: true, data: schema };
   }
@@ -69,42 +71,48 @@ export class SchemaValidationController {
   @Patch(':schemaId')
   @ApiOperation({ summary: 'Update schema' })
   async update(
+    @Param('clusterId') clusterId: string,
     @Param('schemaId') schemaId: string,
     @Body() dto: UpdateSchemaDto,
     @CurrentUser() user: CurrentUserData,
   ) {
-    const schema = await this.schemaService.update(schemaId, dto, user.userId);
+    const schema = await this.schemaService.update(clusterId, schemaId, dto, user.userId);
     return { success: true, data: schema };
   }
 
   @Delete(':schemaId')
   @ApiOperation({ summary: 'Delete schema' })
-  async delete(@Param('schemaId') schemaId: string) {
-    await this.schemaService.delete(schemaId);
+  async delete(@Param('clusterId') clusterId: string, @Param('schemaId') schemaId: string) {
+    await this.schemaService.delete(clusterId, schemaId);
     return { success: true, message: 'Schema deleted' };
   }
 
   @Post(':schemaId/validate')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Validate a document against schema' })
   async validateDocument(
+    @Param('clusterId') clusterId: string,
     @Param('schemaId') schemaId: string,
     @Body() dto: ValidateDocumentDto,
   ) {
-    const result = await this.schemaService.validateDocument(schemaId, dto);
+    const result = await this.schemaService.validateDocument(clusterId, schemaId, dto);
     return { success: true, data: result };
   }
 
   @Post(':schemaId/validate-bulk')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Validate multiple documents against schema' })
   async validateDocuments(
+    @Param('clusterId') clusterId: string,
     @Param('schemaId') schemaId: string,
     @Body() body: ValidateBulkDto,
   ) {
-    const result = await this.schemaService.validateDocuments(schemaId, body.documents);
+    const result = await this.schemaService.validateDocuments(clusterId, schemaId, body.documents);
     return { success: true, data: result };
   }
 
   @Post('generate')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Generate schema from sample documents' })
   generateSchema(@Body() dto: GenerateSchemaDto) {
     const schema = this.schemaService.generateSchemaFromDocuments(dto);
@@ -113,19 +121,20 @@ export class SchemaValidationController {
 
   @Get(':schemaId/history')
   @ApiOperation({ summary: 'Get schema version history' })
-  async getHistory(@Param('schemaId') schemaId: string) {
-    const history = await this.schemaService.getSchemaHistory(schemaId);
+  async getHistory(@Param('clusterId') clusterId: string, @Param('schemaId') schemaId: string) {
+    const history = await this.schemaService.getSchemaHistory(clusterId, schemaId);
     return { success: true, data: history };
   }
 
   @Post(':schemaId/revert/:version')
   @ApiOperation({ summary: 'Revert to a previous schema version' })
   async revert(
+    @Param('clusterId') clusterId: string,
     @Param('schemaId') schemaId: string,
     @Param('version') version: string,
     @CurrentUser() user: CurrentUserData,
   ) {
-    const schema = await this.schemaService.revertToVersion(schemaId, parseInt(version), user.userId);
+    const schema = await this.schemaService.revertToVersion(clusterId, schemaId, parseInt(version), user.userId);
     return { success: true, data: schema };
   }
 }
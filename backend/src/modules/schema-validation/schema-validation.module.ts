@@ -1,24 +1,31 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { SchemaValidationController } from './schema-validation.controller';
 import { SchemaValidationService } from './schema-validation.service';
+import { PiiScanController } from './pii-scan.controller';
+import { PiiScannerService } from './pii-scanner.service';
 import { CollectionSchema, CollectionSchemaSchema } from './schemas/collection-schema.schema';
+import { PiiScan, PiiScanSchema } from './schemas/pii-scan.schema';
 import { AuditModule } from '../audit/audit.module';
+import { DataExplorerModule } from '../data-explorer/data-explorer.module';
+import { ClustersModule } from '../clusters/clusters.module';
+import { BackupsModule } from '../backups/backups.module';
+import { EventsModule } from '../events/events.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: CollectionSchema.name, schema: CollectionSchemaSchema },
+      { name: PiiScan.name, schema: PiiScanSchema },
     ]),
     AuditModule,
+    forwardRef(() => DataExplorerModule),
+    forwardRef(() => ClustersModule),
+    BackupsModule,
+    EventsModule,
   ],
-  controllers: [SchemaValidationController],
-  providers: [SchemaValidationService],
-  exports: [SchemaValidationService],
+  controllers: [SchemaValidationController, PiiScanController],
+  providers: [SchemaValidationService, PiiScannerService],
+  exports: [SchemaValidationService, PiiScannerService],
 })
 export class SchemaValidationModule {}
-
-
-
-
-
@@ -88,19 +88,29 @@ export class SchemaValidationService {
     }).exec();
   }
 
-  async findById(schemaId: string): Promise<CollectionSchema | null> {
-    return this.schemaModel.findById(schemaId).exec();
+  /** Schemas are addressed through their cluster's route, so other clusters' IDs are not found */
+  async findById(clusterId: string, schemaId: string): Promise<CollectionSchemaDocument | null> {
+    if (!Types.ObjectId.isValid(schemaId)) {
+      return null;
+    }
+    return this.schemaModel.findOne({ _id: schemaId, clusterId: new Types.ObjectId(clusterId) }).exec();
+  }
+
+  private async getSchema(clusterId: string, schemaId: string): Promise<CollectionSchemaDocument> {
+    const schema = await this.findById(clusterId, schemaId);
+    if (!schema) {
+      throw new NotFoundException('Schema not found');
+    }
+    return schema;
   }
 
   async update(
+    clusterId: string,
     schemaId: string,
     dto: UpdateSchemaDto,
     userId: string,
   ): Promise<CollectionSchema> {
-    const schema = await this.schemaModel.findById(schemaId);
-    if (!schema) {
-      throw new NotFoundException('Schema not found');
-    }
+    const schema = await this.getSchema(clusterId, schemaId);
 
     // If schema is being updated, validate and version it
     if (dto.jsonSchema) {
@@ -131,21 +141,17 @@ export class SchemaValidationService {
     return schema;
   }
 
-  async delete(schemaId: string): Promise<void> {
-    const result = await this.schemaModel.findByIdAndDelete(schemaId);
-    if (!result) {
-      throw new NotFoundException('Schema not found');
-    }
+  async delete(clusterId: string, schemaId: string): Promise<void> {
+    const schema = await this.getSchema(clusterId, schemaId);
+    await schema.deleteOne();
   }
 
   async validateDocument(
+    clusterId: string,
     schemaId: string,
     dto: ValidateDocumentDto,
   ): Promise<{ valid: boolean; errors: any[] }> {
-    const schema = await this.schemaModel.findById(schemaId);
-    if (!schema) {
-      throw new NotFoundException('Schema not found');
-    }
+    const schema = await this.getSchema(clusterId, schemaId);
 
     const validate = this.ajv.compile(schema.jsonSchema);
     const valid = validate(dto.document);
@@ -157,13 +163,11 @@ export class SchemaValidationService {
   }
 
   async validateDocuments(
+    clusterId: string,
     schemaId: string,
     documents: Record<string, any>[],
   ): Promise<{ totalChecked: number; valid: number; invalid: number; errors: any[] }> {
-    const schema = await this.schemaModel.findById(schemaId);
-    if (!schema) {
-      throw new NotFoundException('Schema not found');
-    }
+    const schema = await this.getSchema(clusterId, schemaId);
 
     const validate = this.ajv.compile(schema.jsonSchema);
     let validCount = 0;
@@ -320,19 +324,13 @@ export class SchemaValidationService {
     }
   }
 
-  async getSchemaHistory(schemaId: string): Promise<any[]> {
-    const schema = await this.schemaModel.findById(schemaId);
-    if (!schema) {
-      throw new NotFoundException('Schema not found');
-    }
+  async getSchemaHistory(clusterId: string, schemaId: string): Promise<any[]> {
+    const schema = await this.getSchema(clusterId, schemaId);
     return schema.history;
   }
 
-  async revertToVersion(schemaId: string, version: number, userId: string): Promise<CollectionSchema> {
-    const schema = await this.schemaModel.findById(schemaId);
-    if (!schema) {
-      throw new NotFoundException('Schema not found');
-    }
+  async revertToVersion(clusterId: string, schemaId: string, version: number, userId: string): Promise<CollectionSchema> {
+    const schema = await this.getSchema(clusterId, schemaId);
 
     const historyEntry = schema.history.find(h => h.version === version);
     if (!historyEntry) {
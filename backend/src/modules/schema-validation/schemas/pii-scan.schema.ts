@@ -0,0 +1,116 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { PII_CATEGORIES, PiiCategory } from '../../gdpr/pii-fields';
+
+export type PiiScanDocument = PiiScan & Document;
+
+export type PiiScanStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type PiiScanTrigger = 'manual' | 'scheduled';
+
+@Schema({ _id: false })
+export class DiscoveredPiiField {
+  @Prop({ required: true })
+  database: string;
+
+  @Prop({ required: true })
+  collection: string;
+
+  @Prop({ required: true })
+  path: string;
+
+  @Prop({ required: true, enum: PII_CATEGORIES })
+  category: PiiCategory;
+
+  @Prop({ required: true })
+  confidence: number;
+
+  // Sampled values, and how many of them looked like the category
+  @Prop({ required: true })
+  samples: number;
+
+  @Prop({ required: true })
+  matches: number;
+
+  // Not found by the previous completed scan
+  @Prop({ default: false })
+  isNew: boolean;
+}
+
+export const DiscoveredPiiFieldSchema = SchemaFactory.createForClass(DiscoveredPiiField);
+
+/**
+ * One run of PII discovery over a cluster's collections. Only field
+ * paths and counts are stored, never the sampled values.
+ */
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_: any, ret: any) => {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    },
+  },
+})
+export class PiiScan {
+  id: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Cluster', required: true })
+  clusterId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Project', required: true })
+  projectId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true })
+  orgId: Types.ObjectId;
+
+  @Prop({ required: true, enum: ['queued', 'running', 'completed', 'failed'], default: 'queued' })
+  status: PiiScanStatus;
+
+  @Prop({ required: true, enum: ['manual', 'scheduled'], default: 'manual' })
+  trigger: PiiScanTrigger;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  requestedBy?: Types.ObjectId;
+
+  @Prop({ default: 0 })
+  collectionsScanned: number;
+
+  @Prop({ default: 0 })
+  documentsSampled: number;
+
+  @Prop({ type: [DiscoveredPiiFieldSchema], default: [] })
+  fields: DiscoveredPiiField[];
+
+  @Prop({ default: 0 })
+  newFieldCount: number;
+
+  @Prop()
+  error?: string;
+
+  // Lease of the worker running the scan; an expired lease lets another worker take over
+  @Prop()
+  lockedUntil?: Date;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop()
+  startedAt?: Date;
+
+  @Prop()
+  completedAt?: Date;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const PiiScanSchema = SchemaFactory.createForClass(PiiScan);
+
+PiiScanSchema.index({ clusterId: 1, createdAt: -1 });
+PiiScanSchema.index({ status: 1, createdAt: 1 });
@@ -0,0 +1,81 @@
+import { buildTestSearchPipeline, mapRemoteStatus, toRemoteDefinition, MAX_TEST_SEARCH_RESULTS } from './search-index-remote';
+
+describe('search-index-remote', () => {
+  // ==================== toRemoteDefinition ====================
+
+  describe('toRemoteDefinition', () => {
+    it('should submit mappings and index-level analyzers for search indexes', () => {
+      const definition = toRemoteDefinition({
+        type: 'search',
+        definition: { mappings: { dynamic: false, fields: { title: { type: 'string' } } } },
+        analyzer: 'lucene.english',
+      });
+
+      expect(definition).toEqual({
+        mappings: { dynamic: false, fields: { title: { type: 'string' } } },
+        analyzer: 'lucene.english',
+      });
+    });
+
+    it('should default to dynamic mappings', () => {
+      expect(toRemoteDefinition({ type: 'search', definition: {} })).toEqual({ mappings: { dynamic: true } });
+    });
+
+    it('should only submit fields for vector indexes', () => {
+      const fields = [{ type: 'vector', path: 'embedding', numDimensions: 3, similarity: 'cosine' as const }];
+
+      expect(toRemoteDefinition({ type: 'vectorSearch', definition: { fields }, analyzer: 'lucene.standard' }))
+        .toEqual({ fields });
+    });
+  });
+
+  // ==================== mapRemoteStatus ====================
+
+  describe('mapRemoteStatus', () => {
+    it('should treat queryable READY indexes as ready', () => {
+      expect(mapRemoteStatus({ name: 'idx', status: 'READY', queryable: true })).toEqual({ status: 'ready' });
+    });
+
+    it('should keep pending, building and stale indexes building', () => {
+      for (const status of ['PENDING', 'BUILDING', 'STALE']) {
+        expect(mapRemoteStatus({ name: 'idx', status }).status).toBe('building');
+      }
+      expect(mapRemoteStatus({ name: 'idx', status: 'READY', queryable: false }).status).toBe('building');
+    });
+
+    it('should surface the reason of failed builds', () => {
+      expect(mapRemoteStatus({
+        name: 'idx',
+        status: 'FAILED',
+        statusDetail: [{ status: 'FAILED', message: 'Invalid analyzer' }],
+      })).toEqual({ status: 'failed', errorMessage: 'Invalid analyzer' });
+    });
+
+    it('should fail indexes missing on the cluster', () => {
+      expect(mapRemoteStatus(undefined).status).toBe('failed');
+    });
+  });
+
+  // ==================== buildTestSearchPipeline ====================
+
+  describe('buildTestSearchPipeline', () => {
+    it('should search every field unless a path is given', () => {
+      const [stage] = buildTestSearchPipeline('idx', 'coffee');
+
+      expect(stage).toEqual({ $search: { index: 'idx', text: { query: 'coffee', path: { wildcard: '*' } } } });
+      expect(buildTestSearchPipeline('idx', 'coffee', { path: 'title' })[0].$search.text.path).toBe('title');
+    });
+
+    it('should project the search score next to the document', () => {
+      const pipeline = buildTestSearchPipeline('idx', 'coffee');
+
+      expect(pipeline[2].$project.score).toEqual({ $meta: 'searchScore' });
+    });
+
+    it('should clamp the limit', () => {
+      expect(buildTestSearchPipeline('idx', 'q')[1]).toEqual({ $limit: 10 });
+      expect(buildTestSearchPipeline('idx', 'q', { limit: 5000 })[1]).toEqual({ $limit: MAX_TEST_SEARCH_RESULTS });
+      expect(buildTestSearchPipeline('idx', 'q', { limit: -3 })[1]).toEqual({ $limit: 1 });
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { Document } from 'mongodb';
+import { SearchIndex, SearchIndexStatus } from './schemas/search-index.schema';
+
+/** Entry returned by `$listSearchIndexes` / `Collection.listSearchIndexes()` */
+export interface RemoteSearchIndex {
+  name: string;
+  status?: string;
+  queryable?: boolean;
+  message?: string;
+  statusDetail?: Array<{ status?: string; message?: string }>;
+}
+
+export const MAX_TEST_SEARCH_RESULTS = 100;
+
+/**
+ * The definition mongot expects for an index. Search indexes carry their
+ * mappings and analyzers, vector indexes only their fields.
+ */
+export function toRemoteDefinition(
+  index: Pick<SearchIndex, 'type' | 'definition' | 'analyzer' | 'searchAnalyzer'>,
+): Document {
+  if (index.type === 'vectorSearch') {
+    return { fields: index.definition.fields ?? [] };
+  }
+
+  const definition: Document = {
+    mappings: index.definition.mappings ?? { dynamic: true },
+  };
+  if (index.definition.synonyms?.length) {
+    definition.synonyms = index.definition.synonyms;
+  }
+  if (index.analyzer) {
+    definition.analyzer = index.analyzer;
+  }
+  if (index.searchAnalyzer) {
+    definition.searchAnalyzer = index.searchAnalyzer;
+  }
+  return definition;
+}
+
+/**
+ * Map the server's index state onto ours. An index is only ready once it
+ * is queryable; mongot keeps serving the old version while a new
+ * definition builds, which still counts as building.
+ */
+export function mapRemoteStatus(remote: RemoteSearchIndex | undefined): {
+  status: SearchIndexStatus;
+  errorMessage?: string;
+} {
+  if (!remote) {
+    return { status: 'failed', errorMessage: 'Index no longer exists on the cluster' };
+  }
+
+  switch (remote.status) {
+    case 'READY':
+      return remote.queryable === false ? { status: 'building' } : { status: 'ready' };
+    case 'FAILED':
+      return {
+        status: 'failed',
+        errorMessage: remote.message
+          ?? remote.statusDetail?.find((detail) => detail.message)?.message
+          ?? 'Index build failed',
+      };
+    case 'DELETING':
+    case 'DOES_NOT_EXIST':
+      return { status: 'failed', errorMessage: 'Index no longer exists on the cluster' };
+    default:
+      // PENDING, BUILDING, STALE
+      return { status: 'building' };
+  }
+}
+
+/**
+ * `$search` pipeline for a text query. Without a path the query runs
+ * against every indexed string field.
+ */
+export function buildTestSearchPipeline(
+  indexName: string,
+  query: string,
+  options: { path?: string; limit?: number } = {},
+): Document[] {
+  const limit = Math.min(Math.max(Math.floor(options.limit || 10), 1), MAX_TEST_SEARCH_RESULTS);
+
+  return [
+    {
+      $search: {
+        index: indexName,
+        text: {
+          query,
+          path: options.path ? options.path : { wildcard: '*' },
+        },
+      },
+    },
+    { $limit: limit },
+    {
+      $project: {
+        _id: 1,
+        score: { $meta: 'searchScore' },
+        document: '$$ROOT',
+      },
+    },
+  ];
+}
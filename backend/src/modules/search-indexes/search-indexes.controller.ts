@@ -8,17 +8,18 @@ import {
   Body,
   Query,
   UseGuards,
-  NotFoundException,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { CurrentProjectAccess, RequireProjectRole } from '../../common/decorators/project-access.decorator';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { SearchIndexesService } from './search-indexes.service';
 import { CreateSearchIndexDto, UpdateSearchIndexDto, TestSearchDto } from './dto/search-index.dto';
 
 @ApiTags('Search Indexes')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/search-indexes')
 export class SearchIndexesController {
   constructor(private readonly searchIndexesService: SearchIndexesService) {}
@@ -30,8 +31,8 @@ export class SearchIndexesController {
     @Param('clusterId') clusterId: string,
     @Body() dto: CreateSearchIndexDto,
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
   ) {
-    const orgId = user.userId; // Placeholder
     const index = await this.searchIndexesService.create(
       clusterId,
       projectId,
@@ -86,11 +87,11 @@ export class SearchIndexesController {
 
   @Get(':indexId')
   @ApiOperation({ summary: 'Get a specific search index' })
-  async findOne(@Param('indexId') indexId: string) {
-    const index = await this.searchIndexesService.findById(indexId);
-    if (!index) {
-      throw new NotFoundException('Search index not found');
-    }
+  async findOne(
+    @Param('clusterId') clusterId: string,
+    @Param('indexId') indexId: string,
+  ) {
+    const index = await this.searchIndexesService.findById(clusterId, indexId);
     return {
       success: true,
       data: index,
@@ -100,10 +101,11 @@ export class SearchIndexesController {
   @Patch(':indexId')
   @ApiOperation({ summary: 'Update a search index' })
   async update(
+    @Param('clusterId') clusterId: string,
     @Param('indexId') indexId: string,
     @Body() dto: UpdateSearchIndexDto,
   ) {
-    const index = await this.searchIndexesService.update(indexId, dto);
+    const index = await this.searchIndexesService.update(clusterId, indexId, dto);
     return {
       success: true,
       data: index,
@@ -117,9 +119,8 @@ export class SearchIndexesController {
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('indexId') indexId: string,
-    @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
   ) {
-    const orgId = user.userId;
     await this.searchIndexesService.delete(indexId, orgId, projectId, clusterId);
     return {
       success: true,
@@ -128,12 +129,14 @@ export class SearchIndexesController {
   }
 
   @Post(':indexId/test')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Test a search index' })
   async testSearch(
+    @Param('clusterId') clusterId: string,
     @Param('indexId') indexId: string,
     @Body() dto: TestSearchDto,
   ) {
-    const result = await this.searchIndexesService.testSearch(indexId, dto);
+    const result = await this.searchIndexesService.testSearch(clusterId, indexId, dto);
     return {
       success: true,
       data: result,
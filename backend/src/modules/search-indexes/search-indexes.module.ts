@@ -1,9 +1,10 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { SearchIndexesController } from './search-indexes.controller';
 import { SearchIndexesService } from './search-indexes.service';
 import { SearchIndex, SearchIndexSchema } from './schemas/search-index.schema';
 import { EventsModule } from '../events/events.module';
+import { DataExplorerModule } from '../data-explorer/data-explorer.module';
 
 @Module({
   imports: [
@@ -11,6 +12,7 @@ import { EventsModule } from '../events/events.module';
       { name: SearchIndex.name, schema: SearchIndexSchema },
     ]),
     EventsModule,
+    forwardRef(() => DataExplorerModule),
   ],
   controllers: [SearchIndexesController],
   providers: [SearchIndexesService],
@@ -0,0 +1,58 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { SearchIndexesService } from './search-indexes.service';
+import { SearchIndex } from './schemas/search-index.schema';
+import { EventsService } from '../events/events.service';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+
+describe('SearchIndexesService', () => {
+  let service: SearchIndexesService;
+
+  const CLUSTER_ID = new Types.ObjectId().toString();
+  const INDEX_ID = new Types.ObjectId().toString();
+
+  const mockSearchIndexModel = {
+    findOne: jest.fn(),
+  };
+
+  const mockDataExplorerService = {
+    getConnection: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchIndexesService,
+        { provide: getModelToken(SearchIndex.name), useValue: mockSearchIndexModel },
+        { provide: EventsService, useValue: { createEvent: jest.fn() } },
+        { provide: DataExplorerService, useValue: mockDataExplorerService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<SearchIndexesService>(SearchIndexesService);
+
+    jest.clearAllMocks();
+    mockSearchIndexModel.findOne.mockReturnValue({ exec: jest.fn().mockResolvedValue(null) });
+  });
+
+  it('should only find indexes of the cluster in the route', async () => {
+    await expect(service.findById(CLUSTER_ID, INDEX_ID)).rejects.toThrow(NotFoundException);
+
+    expect(mockSearchIndexModel.findOne).toHaveBeenCalledWith({
+      _id: INDEX_ID,
+      clusterId: new Types.ObjectId(CLUSTER_ID),
+    });
+  });
+
+  it('should not run test searches on indexes of other clusters', async () => {
+    await expect(service.testSearch(CLUSTER_ID, INDEX_ID, { query: 'espresso' })).rejects.toThrow(
+      NotFoundException,
+    );
+
+    expect(mockDataExplorerService.getConnection).not.toHaveBeenCalled();
+  });
+});
@@ -1,17 +1,36 @@
 import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
 import { Model, Types } from 'mongoose';
-import { SearchIndex, SearchIndexDocument, SearchIndexStatus } from './schemas/search-index.schema';
+import { Collection } from 'mongodb';
+import { SearchIndex, SearchIndexDocument } from './schemas/search-index.schema';
 import { CreateSearchIndexDto, UpdateSearchIndexDto, TestSearchDto } from './dto/search-index.dto';
 import { EventsService } from '../events/events.service';
-
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+import {
+  RemoteSearchIndex,
+  toRemoteDefinition,
+  mapRemoteStatus,
+  buildTestSearchPipeline,
+} from './search-index-remote';
+
+/**
+ * Search indexes live on the cluster: mongot (the MongoDB Search companion)
+ * builds them from the definitions we submit through the search index
+ * commands. This service keeps a record per index and mirrors the build
+ * status the cluster reports.
+ */
 @Injectable()
 export class SearchIndexesService {
   private readonly logger = new Logger(SearchIndexesService.name);
+  private isPolling = false;
 
   constructor(
     @InjectModel(SearchIndex.name) private searchIndexModel: Model<SearchIndexDocument>,
     private eventsService: EventsService,
+    private readonly dataExplorerService: DataExplorerService,
+    private readonly configService: ConfigService,
   ) {}
 
   async create(
@@ -47,8 +66,8 @@ export class SearchIndexesService {
 
     await searchIndex.save();
 
-    // Start building the index (simulated)
-    this.buildIndex(searchIndex.id);
+    // Submit to the cluster; the build itself is tracked by pollBuildStatus
+    this.submitIndex(searchIndex.id, 'create');
 
     // Log event
     await this.eventsService.createEvent({
@@ -65,51 +84,91 @@ export class SearchIndexesService {
     return searchIndex;
   }
 
-  private async buildIndex(indexId: string): Promise<void> {
-    // Simulate index building
+  private async getCollection(index: SearchIndex): Promise<Collection> {
+    const client = await this.dataExplorerService.getConnection(index.clusterId.toString());
+    return client.db(index.database).collection(index.collection);
+  }
+
+  private async submitIndex(indexId: string, operation: 'create' | 'update'): Promise<void> {
     try {
       const index = await this.searchIndexModel.findById(indexId);
       if (!index) return;
 
-      // Update to building status
-      index.status = 'building';
-      index.buildStartedAt = new Date();
-      await index.save();
+      const collection = await this.getCollection(index);
+      const definition = toRemoteDefinition(index);
 
-      // Simulate build time (2-5 seconds)
-      await new Promise((resolve) => setTimeout(resolve, 2000 + Math.random() * 3000));
+      if (operation === 'create') {
+        await collection.createSearchIndex({ name: index.name, type: index.type, definition });
+      } else {
+        await collection.updateSearchIndex(index.name, definition);
+      }
 
-      // Complete the build - wrap in try/catch in case connection was closed during the delay
+      await this.searchIndexModel.updateOne(
+        { _id: indexId },
+        { $set: { status: 'building', buildStartedAt: new Date() }, $unset: { errorMessage: 1, buildCompletedAt: 1 } },
+      );
+      this.logger.log(`Submitted search index ${indexId} (${operation})`);
+    } catch (error: any) {
+      this.logger.error(`Search index ${indexId} ${operation} failed: ${error.message}`);
       try {
-        const completed = await this.searchIndexModel.findById(indexId);
-        if (completed && completed.status === 'building') {
-          completed.status = 'ready';
-          completed.buildCompletedAt = new Date();
-          completed.documentCount = Math.floor(Math.random() * 10000);
-          completed.storageSizeBytes = Math.floor(Math.random() * 10000000);
-          await completed.save();
-
-          this.logger.log(`Search index ${indexId} build completed`);
-        }
-      } catch (postDelayError) {
-        // Connection may have been closed during the simulated delay (e.g. during test teardown)
-        this.logger.warn(`Search index ${indexId} post-build update failed (connection may be closed): ${postDelayError.message}`);
+        await this.searchIndexModel.updateOne(
+          { _id: indexId },
+          { $set: { status: 'failed', errorMessage: error.response?.message ?? error.message } },
+        );
+      } catch {
+        // Connection may have been closed (e.g. during test teardown), ignore
       }
-    } catch (error) {
-      try {
-        const failed = await this.searchIndexModel.findById(indexId);
-        if (failed) {
-          failed.status = 'failed';
-          failed.errorMessage = error.message;
-          await failed.save();
+    }
+  }
+
+  /**
+   * Mirror the build status the cluster reports for indexes still building.
+   */
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async pollBuildStatus(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test' || this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      const building = await this.searchIndexModel.find({ status: 'building' });
+      for (const index of building) {
+        try {
+          await this.refreshStatus(index);
+        } catch (error: any) {
+          // Cluster unreachable: keep the index building and retry next run
+          this.logger.warn(`Could not read status of search index ${index.id}: ${error.message}`);
         }
-      } catch {
-        // Connection may have been closed, ignore
       }
-      this.logger.error(`Search index ${indexId} build failed: ${error.message}`);
+    } catch (error: any) {
+      this.logger.error(`Search index status poll failed: ${error.message}`);
+    } finally {
+      this.isPolling = false;
     }
   }
 
+  async refreshStatus(index: SearchIndexDocument): Promise<SearchIndexDocument> {
+    const collection = await this.getCollection(index);
+    const [remote] = (await collection.listSearchIndexes(index.name).toArray()) as RemoteSearchIndex[];
+    const { status, errorMessage } = mapRemoteStatus(remote);
+
+    if (status === index.status) {
+      return index;
+    }
+
+    index.status = status;
+    index.errorMessage = errorMessage;
+    if (status === 'ready') {
+      index.buildCompletedAt = new Date();
+      index.documentCount = await collection.estimatedDocumentCount().catch(() => 0);
+      this.logger.log(`Search index ${index.id} is ready`);
+    } else if (status === 'failed') {
+      this.logger.warn(`Search index ${index.id} failed: ${errorMessage}`);
+    }
+    return index.save();
+  }
+
   async findAllByCluster(clusterId: string): Promise<SearchIndex[]> {
     return this.searchIndexModel
       .find({ clusterId: new Types.ObjectId(clusterId) })
@@ -132,8 +191,15 @@ export class SearchIndexesService {
     return this.searchIndexModel.find(query).sort({ createdAt: -1 }).exec();
   }
 
-  async findById(indexId: string): Promise<SearchIndex | null> {
-    return this.searchIndexModel.findById(indexId).exec();
+  /** Indexes are addressed through their cluster's route, so other clusters' IDs are not found */
+  async findById(clusterId: string, indexId: string): Promise<SearchIndexDocument> {
+    const index = Types.ObjectId.isValid(indexId)
+      ? await this.searchIndexModel.findOne({ _id: indexId, clusterId: new Types.ObjectId(clusterId) }).exec()
+      : null;
+    if (!index) {
+      throw new NotFoundException('Search index not found');
+    }
+    return index;
   }
 
   async findByName(clusterId: string, name: string): Promise<SearchIndex | null> {
@@ -144,13 +210,11 @@ export class SearchIndexesService {
   }
 
   async update(
+    clusterId: string,
     indexId: string,
     dto: UpdateSearchIndexDto,
   ): Promise<SearchIndex> {
-    const index = await this.searchIndexModel.findById(indexId);
-    if (!index) {
-      throw new NotFoundException('Search index not found');
-    }
+    const index = await this.findById(clusterId, indexId);
 
     if (dto.definition) {
       index.definition = { ...index.definition, ...dto.definition };
@@ -159,24 +223,40 @@ export class SearchIndexesService {
       index.analyzer = dto.analyzer;
     }
 
-    // Trigger rebuild
+    // A definition change rebuilds the index on the cluster. Indexes whose
+    // creation was rejected never got there, so submit them again.
     index.status = 'pending';
     await index.save();
 
-    this.buildIndex(indexId);
+    this.submitIndex(indexId, index.buildStartedAt ? 'update' : 'create');
 
     return index;
   }
 
   async delete(indexId: string, orgId: string, projectId: string, clusterId: string): Promise<void> {
-    const index = await this.searchIndexModel.findById(indexId);
-    if (!index) {
-      throw new NotFoundException('Search index not found');
-    }
+    const index = await this.findById(clusterId, indexId);
 
+    const previousStatus = index.status;
     index.status = 'deleting';
     await index.save();
 
+    try {
+      const collection = await this.getCollection(index);
+      await collection.dropSearchIndex(index.name);
+    } catch (error: any) {
+      // An index that failed may never have reached the cluster
+      const missing = error.codeName === 'IndexNotFound' || error.codeName === 'NamespaceNotFound';
+      if (!missing && previousStatus !== 'failed') {
+        index.status = previousStatus;
+        await index.save();
+        throw new BadRequestException({
+          code: 'SEARCH_INDEX_DROP_FAILED',
+          message: `Could not drop search index "${index.name}": ${error.response?.message ?? error.message}`,
+        });
+      }
+      this.logger.warn(`Dropping search index ${indexId} on the cluster failed: ${error.message}`);
+    }
+
     // Log event
     await this.eventsService.createEvent({
       orgId,
@@ -195,38 +275,34 @@ export class SearchIndexesService {
   }
 
   async testSearch(
+    clusterId: string,
     indexId: string,
     dto: TestSearchDto,
   ): Promise<{ results: any[]; executionTime: number }> {
-    const index = await this.searchIndexModel.findById(indexId);
-    if (!index) {
-      throw new NotFoundException('Search index not found');
+    const index = await this.findById(clusterId, indexId);
+
+    if (index.type !== 'search') {
+      throw new BadRequestException({
+        code: 'UNSUPPORTED_INDEX_TYPE',
+        message: 'Use the vector search endpoints to query vectorSearch indexes',
+      });
     }
 
     if (index.status !== 'ready') {
-      throw new BadRequestException(`Index is not ready (status: ${index.status})`);
+      throw new BadRequestException({
+        code: 'INDEX_NOT_READY',
+        message: `Index is not ready (status: ${index.status})`,
+      });
     }
 
     const startTime = Date.now();
 
-    // Simulate search results
-    const results = [];
-    const count = Math.min(dto.limit || 10, 20);
-    
-    for (let i = 0; i < count; i++) {
-      results.push({
-        _id: new Types.ObjectId().toString(),
-        score: Math.random() * 10,
-        document: {
-          title: `Result ${i + 1} for "${dto.query}"`,
-          content: `This is a simulated search result matching your query.`,
-          timestamp: new Date(Date.now() - Math.random() * 86400000 * 30),
-        },
-      });
-    }
-
-    // Sort by score
-    results.sort((a, b) => b.score - a.score);
+    const collection = await this.getCollection(index);
+    const results = await collection
+      .aggregate(buildTestSearchPipeline(index.name, dto.query, { path: dto.path, limit: dto.limit }), {
+        maxTimeMS: 10_000,
+      })
+      .toArray();
 
     // Update query count
     index.queryCount = (index.queryCount || 0) + 1;
@@ -222,7 +222,9 @@ export class UpdateSsoConfigDto {
   allowJitProvisioning?: boolean;
 }
 
-
-
-
-
+export class ExchangeSsoCodeDto {
+  @ApiProperty({ description: 'One-time code from the SSO redirect' })
+  @IsString()
+  @MaxLength(128)
+  code: string;
+}
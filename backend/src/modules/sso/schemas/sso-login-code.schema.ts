@@ -0,0 +1,40 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SsoLoginCodeDocument = SsoLoginCode & Document;
+
+/**
+ * One-time code handed to the frontend after an SSO callback. The browser
+ * redirect only carries the code; tokens are issued when it is exchanged.
+ */
+@Schema({
+  timestamps: true,
+  collection: 'ssologincodes',
+})
+export class SsoLoginCode {
+  /** SHA-256 of the code, the code itself is never stored */
+  @Prop({ required: true, unique: true })
+  codeHash: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'SsoConfig', required: true })
+  ssoConfigId: Types.ObjectId;
+
+  @Prop({ required: true })
+  provider: string;
+
+  @Prop()
+  ipAddress?: string;
+
+  @Prop()
+  userAgent?: string;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const SsoLoginCodeSchema = SchemaFactory.createForClass(SsoLoginCode);
+
+SsoLoginCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL index
@@ -13,6 +13,8 @@ import {
   NotFoundException,
   BadRequestException,
   Logger,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { Response, Request } from 'express';
@@ -21,7 +23,7 @@ import { CurrentUser, CurrentUserData } from '../../common/decorators/current-us
 import { Public } from '../../common/decorators/public.decorator';
 import { SsoService } from './sso.service';
 import { OrgsService } from '../orgs/orgs.service';
-import { CreateSsoConfigDto, UpdateSsoConfigDto } from './dto/sso-config.dto';
+import { CreateSsoConfigDto, UpdateSsoConfigDto, ExchangeSsoCodeDto } from './dto/sso-config.dto';
 
 @ApiTags('SSO')
 @Controller('sso')
@@ -263,6 +265,7 @@ export class SsoController {
   async handleSamlCallback(
     @Param('configId') configId: string,
     @Body() body: { SAMLResponse: string; RelayState?: string },
+    @Req() req: Request,
     @Res() res: Response,
   ) {
     this.logger.log(`Received SAML callback for config ${configId}`);
@@ -288,9 +291,10 @@ export class SsoController {
           provider: 'saml',
         },
         configId,
+        { ipAddress: req.ip, userAgent: req.headers['user-agent'] },
       );
 
-      // Redirect to frontend with token
+      // Redirect to frontend with a one-time code
       res.redirect(result.redirectUrl);
     } catch (error: any) {
       this.logger.error(`SAML callback error: ${error.message}`);
@@ -346,6 +350,7 @@ export class SsoController {
     @Query('code') code: string,
     @Query('state') state: string,
     @Query('error') error: string,
+    @Req() req: Request,
     @Res() res: Response,
   ) {
     if (error) {
@@ -429,6 +434,7 @@ export class SsoController {
           provider: config.oidc.provider,
         },
         configId,
+        { ipAddress: req.ip, userAgent: req.headers['user-agent'] },
       );
 
       res.redirect(result.redirectUrl);
@@ -438,6 +444,15 @@ export class SsoController {
     }
   }
 
+  @Public()
+  @Post('exchange')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Exchange the one-time code from an SSO redirect for tokens' })
+  async exchangeCode(@Body() dto: ExchangeSsoCodeDto) {
+    const tokens = await this.ssoService.exchangeLoginCode(dto.code);
+    return { success: true, data: tokens };
+  }
+
   // ==================== SSO Discovery ====================
 
   @Public()
@@ -5,6 +5,7 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { SsoController } from './sso.controller';
 import { SsoService } from './sso.service';
 import { SsoConfig, SsoConfigSchema } from './schemas/sso-config.schema';
+import { SsoLoginCode, SsoLoginCodeSchema } from './schemas/sso-login-code.schema';
 import { UsersModule } from '../users/users.module';
 import { OrgsModule } from '../orgs/orgs.module';
 import { EventsModule } from '../events/events.module';
@@ -13,13 +14,14 @@ import { EventsModule } from '../events/events.module';
   imports: [
     MongooseModule.forFeature([
       { name: SsoConfig.name, schema: SsoConfigSchema },
+      { name: SsoLoginCode.name, schema: SsoLoginCodeSchema },
     ]),
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
         secret: configService.get<string>('JWT_SECRET', 'your-super-secret-key'),
         signOptions: {
-          expiresIn: configService.get<string>('JWT_EXPIRES_IN', '7d'),
+          expiresIn: configService.get<string>('JWT_EXPIRES_IN', '15m'),
         },
       }),
       inject: [ConfigService],
@@ -4,6 +4,7 @@ import {
   BadRequestException,
   ConflictException,
   Logger,
+  UnauthorizedException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
@@ -11,8 +12,10 @@ import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import * as crypto from 'crypto';
 import { SsoConfig, SsoConfigDocument } from './schemas/sso-config.schema';
+import { SsoLoginCode, SsoLoginCodeDocument } from './schemas/sso-login-code.schema';
 import { CreateSsoConfigDto, UpdateSsoConfigDto } from './dto/sso-config.dto';
 import { UsersService } from '../users/users.service';
+import { SessionsService, SessionMeta } from '../users/sessions.service';
 import { OrgsService } from '../orgs/orgs.service';
 import { EventsService } from '../events/events.service';
 
@@ -25,6 +28,13 @@ export interface SsoUser {
   provider: string;
 }
 
+/** Lifetime of the code in the SSO redirect, only long enough for the frontend to exchange it */
+const LOGIN_CODE_TTL_SECONDS = 60;
+
+function hashLoginCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
 @Injectable()
 export class SsoService {
   private readonly logger = new Logger(SsoService.name);
@@ -32,9 +42,11 @@ export class SsoService {
 
   constructor(
     @InjectModel(SsoConfig.name) private ssoConfigModel: Model<SsoConfigDocument>,
+    @InjectModel(SsoLoginCode.name) private ssoLoginCodeModel: Model<SsoLoginCodeDocument>,
     private readonly configService: ConfigService,
     private readonly jwtService: JwtService,
     private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
     private readonly orgsService: OrgsService,
     private readonly eventsService: EventsService,
   ) {
@@ -133,6 +145,9 @@ export class SsoService {
     const config = await this.findById(configId);
     await this.ssoConfigModel.deleteOne({ _id: configId }).exec();
 
+    // Logins through this provider end now rather than when their tokens expire
+    const revoked = await this.sessionsService.revokeBySsoConfig(configId);
+
     await this.eventsService.createEvent({
       orgId: config.orgId.toString(),
       type: 'SSO_CONFIG_DELETED' as any,
@@ -140,12 +155,16 @@ export class SsoService {
       message: `SSO configuration "${config.name}" deleted`,
     });
 
-    this.logger.log(`SSO config deleted: ${configId}`);
+    this.logger.log(`SSO config deleted: ${configId}; ${revoked} session(s) signed out`);
   }
 
   // ==================== SSO Authentication ====================
 
-  async handleSsoCallback(ssoUser: SsoUser, configId: string): Promise<{ token: string; redirectUrl: string }> {
+  async handleSsoCallback(
+    ssoUser: SsoUser,
+    configId: string,
+    meta?: SessionMeta,
+  ): Promise<{ redirectUrl: string }> {
     const config = await this.findById(configId);
     if (!config.enabled) {
       throw new BadRequestException('SSO configuration is disabled');
@@ -210,15 +229,18 @@ export class SsoService {
       { $set: { lastUsedAt: new Date() }, $inc: { loginCount: 1 } },
     ).exec();
 
-    // Generate JWT token
-    const payload = {
-      sub: user.id,
-      email: user.email,
-      sso: true,
+    // Tokens never go into the redirect URL, where they would end up in
+    // browser history, proxy logs and Referer headers
+    const code = crypto.randomBytes(32).toString('base64url');
+    await this.ssoLoginCodeModel.create({
+      codeHash: hashLoginCode(code),
+      userId: new Types.ObjectId(user.id),
+      ssoConfigId: new Types.ObjectId(configId),
       provider: ssoUser.provider,
-    };
-
-    const token = this.jwtService.sign(payload);
+      ipAddress: meta?.ipAddress,
+      userAgent: meta?.userAgent,
+      expiresAt: new Date(Date.now() + LOGIN_CODE_TTL_SECONDS * 1000),
+    });
 
     // Log event
     await this.eventsService.createEvent({
@@ -230,11 +252,54 @@ export class SsoService {
     });
 
     return {
-      token,
-      redirectUrl: `${this.frontendUrl}/auth/sso-callback?token=${token}`,
+      redirectUrl: `${this.frontendUrl}/auth/sso-callback?code=${code}`,
     };
   }
 
+  /**
+   * Exchange the one-time code from the SSO redirect for a session. The code
+   * is removed on first use, so a leaked URL can't be replayed.
+   */
+  async exchangeLoginCode(code: string): Promise<{ accessToken: string; refreshToken: string }> {
+    const loginCode = await this.ssoLoginCodeModel.findOneAndDelete({
+      codeHash: hashLoginCode(code),
+      expiresAt: { $gt: new Date() },
+    }).exec();
+    if (!loginCode) {
+      throw new UnauthorizedException({
+        code: 'INVALID_SSO_CODE',
+        message: 'The sign-in link has expired. Please sign in again.',
+      });
+    }
+
+    const user = await this.usersService.findById(loginCode.userId.toString());
+    if (!user) {
+      throw new UnauthorizedException({
+        code: 'INVALID_SSO_CODE',
+        message: 'The sign-in link has expired. Please sign in again.',
+      });
+    }
+
+    // Open a session tied to this config and generate JWT token
+    const { session, refreshToken } = await this.sessionsService.create(
+      user.id,
+      'sso',
+      { ipAddress: loginCode.ipAddress, userAgent: loginCode.userAgent },
+      { ssoConfigId: loginCode.ssoConfigId.toString() },
+    );
+
+    const accessToken = this.jwtService.sign({
+      sub: user.id,
+      email: user.email,
+      verified: user.verified,
+      sid: session.id,
+      sso: true,
+      provider: loginCode.provider,
+    });
+
+    return { accessToken, refreshToken };
+  }
+
   // ==================== SAML Helpers ====================
 
   getSamlCallbackUrl(configId: string): string {
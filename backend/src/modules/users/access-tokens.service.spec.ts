@@ -0,0 +1,71 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { UnauthorizedException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { AccessTokensService } from './access-tokens.service';
+import { UsersService } from './users.service';
+import { SessionsService } from './sessions.service';
+
+describe('AccessTokensService', () => {
+  let service: AccessTokensService;
+  const jwtService = new JwtService({ secret: 'test-secret' });
+
+  const USER_ID = new Types.ObjectId();
+  const SESSION_ID = new Types.ObjectId().toString();
+
+  const mockUsersService = { findById: jest.fn() };
+  const mockSessionsService = { findActive: jest.fn() };
+
+  const sign = (claims: Record<string, unknown> = {}) =>
+    jwtService.sign({ sub: USER_ID.toString(), email: 'ada@example.com', verified: true, sid: SESSION_ID, ...claims });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccessTokensService,
+        { provide: JwtService, useValue: jwtService },
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: SessionsService, useValue: mockSessionsService },
+      ],
+    }).compile();
+
+    service = module.get<AccessTokensService>(AccessTokensService);
+
+    jest.clearAllMocks();
+    mockUsersService.findById.mockResolvedValue({ id: USER_ID.toString() });
+    mockSessionsService.findActive.mockResolvedValue({ userId: USER_ID });
+  });
+
+  it('should return the user of a token with an active session', async () => {
+    const user = await service.verify(sign());
+
+    expect(user).toEqual(expect.objectContaining({ userId: USER_ID.toString(), sessionId: SESSION_ID }));
+    expect(mockSessionsService.findActive).toHaveBeenCalledWith(SESSION_ID);
+  });
+
+  it('should reject tokens signed with another secret', async () => {
+    const forged = new JwtService({ secret: 'other' }).sign({ sub: USER_ID.toString(), sid: SESSION_ID });
+
+    await expect(service.verify(forged)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should reject purpose-bound tokens and tokens without a session', async () => {
+    await expect(service.verify(sign({ purpose: 'mfa_challenge' }))).rejects.toThrow(UnauthorizedException);
+    await expect(service.verify(sign({ sid: undefined }))).rejects.toThrow(UnauthorizedException);
+    expect(mockSessionsService.findActive).not.toHaveBeenCalled();
+  });
+
+  it('should reject revoked sessions', async () => {
+    mockSessionsService.findActive.mockResolvedValue(null);
+
+    await expect(service.verify(sign())).rejects.toMatchObject({
+      response: expect.objectContaining({ code: 'SESSION_REVOKED' }),
+    });
+  });
+
+  it('should not accept a session that belongs to another user', async () => {
+    mockSessionsService.findActive.mockResolvedValue({ userId: new Types.ObjectId() });
+
+    await expect(service.isSessionActive(SESSION_ID, USER_ID.toString())).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { UsersService } from './users.service';
+import { SessionsService } from './sessions.service';
+import { CurrentUserData } from '../../common/decorators/current-user.decorator';
+
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  verified: boolean;
+  purpose?: string;
+  sid?: string;
+  impersonatedBy?: string;
+  impersonationLogId?: string;
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Single check for access tokens, used by the HTTP guard and the WebSocket
+ * gateways alike, so a revoked session ends everywhere at once.
+ */
+@Injectable()
+export class AccessTokensService {
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
+  ) {}
+
+  /** Verify the signature of a raw token, then its claims */
+  async verify(token: string): Promise<CurrentUserData> {
+    let payload: AccessTokenPayload;
+    try {
+      payload = this.jwtService.verify<AccessTokenPayload>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid token');
+    }
+    return this.validate(payload);
+  }
+
+  /** Claims of a token whose signature has already been verified */
+  async validate(payload: AccessTokenPayload): Promise<CurrentUserData> {
+    // Purpose-bound tokens (e.g. MFA challenges) are not access tokens
+    if (payload.purpose || !payload.sid) {
+      throw new UnauthorizedException('Invalid token');
+    }
+
+    // Revoked sessions end immediately, not when the token expires
+    if (!(await this.isSessionActive(payload.sid, payload.sub))) {
+      throw new UnauthorizedException({
+        code: 'SESSION_REVOKED',
+        message: 'Your session has ended. Please sign in again.',
+      });
+    }
+
+    const user = await this.usersService.findById(payload.sub);
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    return {
+      userId: payload.sub,
+      email: payload.email,
+      verified: payload.verified,
+      sessionId: payload.sid,
+      impersonatedBy: payload.impersonatedBy,
+      impersonationLogId: payload.impersonationLogId,
+    };
+  }
+
+  /** For re-checking long-lived connections that were authenticated earlier */
+  async isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+    const session = await this.sessionsService.findActive(sessionId);
+    return !!session && session.userId.toString() === userId;
+  }
+}
@@ -0,0 +1,102 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SessionDocument = Session & Document;
+
+export type SessionMethod = 'password' | 'mfa' | 'passkey' | 'sso' | 'impersonation';
+
+export type SessionRevocationReason =
+  | 'logout'
+  | 'signed_out_elsewhere'
+  | 'password_changed'
+  | 'admin'
+  | 'refresh_token_reused'
+  | 'sso_config_deleted';
+
+/** A signed-in device. Access tokens name their session and stop working once it is revoked. */
+@Schema({
+  timestamps: true,
+  collection: 'sessions',
+  toJSON: {
+    virtuals: true,
+    transform: (_: any, ret: any) => {
+      ret.id = ret._id.toString();
+      delete ret._id;
+      delete ret.__v;
+      delete ret.refreshTokenHash;
+      delete ret.previousRefreshTokenHashes;
+      return ret;
+    },
+  },
+})
+export class Session {
+  id: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, enum: ['password', 'mfa', 'passkey', 'sso', 'impersonation'] })
+  method: SessionMethod;
+
+  @Prop({ type: Types.ObjectId, ref: 'SsoConfig' })
+  ssoConfigId?: Types.ObjectId;
+
+  /** Global admin acting as the user */
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  impersonatedBy?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'ImpersonationLog' })
+  impersonationLogId?: Types.ObjectId;
+
+  /** The admin's own session, resumed when impersonation ends */
+  @Prop({ type: Types.ObjectId, ref: 'Session' })
+  parentSessionId?: Types.ObjectId;
+
+  /** SHA-256 of the current refresh token */
+  @Prop({ required: true })
+  refreshTokenHash: string;
+
+  /** Refresh tokens already rotated; presenting one again means it was stolen */
+  @Prop({ type: [String], default: [] })
+  previousRefreshTokenHashes: string[];
+
+  @Prop()
+  rotatedAt?: Date;
+
+  @Prop()
+  ipAddress?: string;
+
+  @Prop()
+  userAgent?: string;
+
+  /** e.g. "Chrome on macOS" */
+  @Prop()
+  device?: string;
+
+  @Prop({ required: true })
+  lastUsedAt: Date;
+
+  /** When the refresh token expires; extended on every refresh */
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  revokedAt?: Date;
+
+  @Prop({ enum: ['logout', 'signed_out_elsewhere', 'password_changed', 'admin', 'refresh_token_reused', 'sso_config_deleted'] })
+  revokedReason?: SessionRevocationReason;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  updatedAt: Date;
+}
+
+export const SessionSchema = SchemaFactory.createForClass(Session);
+
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+SessionSchema.index({ refreshTokenHash: 1 }, { unique: true });
+SessionSchema.index({ previousRefreshTokenHashes: 1 });
+SessionSchema.index({ ssoConfigId: 1 }, { sparse: true });
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 60 * 60 * 24 * 30 }); // Kept 30 days after expiry
@@ -15,6 +15,10 @@ export type UserDocument = User & Document;
       delete ret.verificationToken;
       delete ret.passwordResetToken;
       delete ret.passwordResetExpires;
+      delete ret.mfaSecretEncrypted;
+      delete ret.mfaPendingSecretEncrypted;
+      delete ret.mfaRecoveryCodeHashes;
+      delete ret.mfaLastUsedStep;
       return ret;
     },
   },
@@ -52,6 +56,29 @@ export class User {
   @Prop()
   lastLoginAt?: Date;
 
+  // Multi-factor authentication (TOTP)
+  @Prop({ default: false })
+  mfaEnabled: boolean;
+
+  @Prop()
+  mfaEnabledAt?: Date;
+
+  /** AES-256-GCM encrypted base32 secret */
+  @Prop()
+  mfaSecretEncrypted?: string;
+
+  /** Secret of an enrollment that has not been confirmed with a code yet */
+  @Prop()
+  mfaPendingSecretEncrypted?: string;
+
+  /** SHA-256 hashes of the unused recovery codes */
+  @Prop({ type: [String], default: [] })
+  mfaRecoveryCodeHashes: string[];
+
+  /** Last accepted TOTP time step; codes are not accepted twice */
+  @Prop()
+  mfaLastUsedStep?: number;
+
   @Prop()
   createdAt: Date;
 
@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { createHash } from 'crypto';
+import { SessionsService } from './sessions.service';
+import { Session } from './schemas/session.schema';
+import { describeUserAgent } from './user-agent';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+
+  const USER_ID = new Types.ObjectId();
+  const SESSION_ID = new Types.ObjectId();
+  const hash = (token: string) => createHash('sha256').update(token).digest('hex');
+
+  const mockSessionModel = {
+    create: jest.fn(),
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    updateMany: jest.fn(),
+  };
+
+  const session = (overrides: Record<string, any> = {}) => ({
+    _id: SESSION_ID,
+    id: SESSION_ID.toString(),
+    userId: USER_ID,
+    method: 'password',
+    previousRefreshTokenHashes: [] as string[],
+    save: jest.fn(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        { provide: getModelToken(Session.name), useValue: mockSessionModel },
+        { provide: ConfigService, useValue: { get: jest.fn((_key: string, fallback?: unknown) => fallback) } },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+
+    jest.clearAllMocks();
+    mockSessionModel.create.mockImplementation(async (doc) => ({ ...doc, id: SESSION_ID.toString() }));
+    mockSessionModel.updateMany.mockResolvedValue({ modifiedCount: 2 });
+  });
+
+  it('should store only the hash of the refresh token and label the device', async () => {
+    const { session: created, refreshToken } = await service.create(USER_ID.toString(), 'password', {
+      ipAddress: '203.0.113.7',
+      userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15',
+    });
+
+    expect(refreshToken).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(created).toMatchObject({
+      refreshTokenHash: hash(refreshToken),
+      device: 'Safari on macOS',
+      ipAddress: '203.0.113.7',
+    });
+    expect((created as any).expiresAt.getTime() - Date.now()).toBeGreaterThan(29 * 86400 * 1000);
+  });
+
+  it('should give impersonation sessions a fixed lifetime', async () => {
+    const { session: created } = await service.create(USER_ID.toString(), 'impersonation', undefined, {
+      expiresInSeconds: 3600,
+      impersonation: { adminUserId: new Types.ObjectId().toString(), logId: new Types.ObjectId().toString() },
+    });
+
+    expect((created as any).expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(3600 * 1000);
+    expect(created.impersonatedBy).toBeInstanceOf(Types.ObjectId);
+  });
+
+  describe('rotate', () => {
+    it('should swap the refresh token and remember the old one', async () => {
+      mockSessionModel.findOneAndUpdate.mockResolvedValue(session());
+
+      const result = await service.rotate('old-token');
+
+      expect(result.status).toBe('rotated');
+      const [filter, pipeline] = mockSessionModel.findOneAndUpdate.mock.calls[0];
+      expect(filter.refreshTokenHash).toBe(hash('old-token'));
+      expect(pipeline[0].$set.refreshTokenHash).toBe(hash((result as any).refreshToken));
+      expect(pipeline[0].$set.previousRefreshTokenHashes.$slice[0].$concatArrays[1]).toEqual([hash('old-token')]);
+    });
+
+    it('should revoke the session when a rotated token is used again', async () => {
+      const reused = session({
+        previousRefreshTokenHashes: [hash('stolen'), hash('latest')],
+        rotatedAt: new Date(Date.now() - 60_000),
+      });
+      mockSessionModel.findOneAndUpdate.mockResolvedValue(null);
+      mockSessionModel.findOne.mockResolvedValue(reused);
+
+      const result = await service.rotate('stolen');
+
+      expect(result.status).toBe('reused');
+      expect(reused).toMatchObject({ revokedReason: 'refresh_token_reused' });
+      expect(reused.save).toHaveBeenCalled();
+    });
+
+    it('should turn away a concurrent refresh with the token just rotated without revoking', async () => {
+      const racing = session({ previousRefreshTokenHashes: [hash('latest')], rotatedAt: new Date() });
+      mockSessionModel.findOneAndUpdate.mockResolvedValue(null);
+      mockSessionModel.findOne.mockResolvedValue(racing);
+
+      expect(await service.rotate('latest')).toEqual({ status: 'invalid' });
+      expect(racing.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown tokens', async () => {
+      mockSessionModel.findOneAndUpdate.mockResolvedValue(null);
+      mockSessionModel.findOne.mockResolvedValue(null);
+
+      expect(await service.rotate('unknown')).toEqual({ status: 'invalid' });
+    });
+  });
+
+  it('should keep the calling session when signing out everywhere else', async () => {
+    const revoked = await service.revokeAll(USER_ID.toString(), 'signed_out_elsewhere', SESSION_ID.toString());
+
+    expect(revoked).toBe(2);
+    expect(mockSessionModel.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: USER_ID, _id: { $ne: SESSION_ID } }),
+      { $set: expect.objectContaining({ revokedReason: 'signed_out_elsewhere' }) },
+    );
+  });
+
+  it('should only revoke sessions of the given user', async () => {
+    mockSessionModel.findOne.mockResolvedValue(null);
+
+    await expect(service.revoke(USER_ID.toString(), SESSION_ID.toString(), 'signed_out_elsewhere'))
+      .rejects.toThrow(NotFoundException);
+    expect(mockSessionModel.findOne).toHaveBeenCalledWith(expect.objectContaining({ userId: USER_ID }));
+  });
+
+  it('should describe common user agents', () => {
+    expect(describeUserAgent(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0',
+    )).toBe('Edge on Windows');
+    expect(describeUserAgent(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/120.0 Mobile/15E148 Safari/604.1',
+    )).toBe('Chrome on iOS');
+    expect(describeUserAgent('eutlas-cli/1.2.0 (linux)')).toBe('eutlas-cli');
+    expect(describeUserAgent(undefined)).toBe('Unknown device');
+  });
+});
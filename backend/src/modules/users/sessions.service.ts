@@ -0,0 +1,257 @@
+import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import {
+  Session,
+  SessionDocument,
+  SessionMethod,
+  SessionRevocationReason,
+} from './schemas/session.schema';
+import { describeUserAgent } from './user-agent';
+
+/** Old refresh tokens remembered per session for reuse detection */
+const MAX_PREVIOUS_TOKENS = 50;
+/**
+ * Two tabs refreshing at the same moment both present the token that was
+ * just rotated. Within this window the loser is turned away, not treated as
+ * a thief.
+ */
+const ROTATION_GRACE_MS = 10_000;
+
+export interface SessionMeta {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface CreateSessionOptions {
+  ssoConfigId?: string;
+  impersonation?: { adminUserId: string; logId: string; parentSessionId?: string };
+  /** Shorter lifetime than REFRESH_TOKEN_EXPIRES_IN, e.g. for impersonation */
+  expiresInSeconds?: number;
+}
+
+export type RotationResult =
+  | { status: 'rotated'; session: SessionDocument; refreshToken: string }
+  /** A rotated token came back: the session was revoked */
+  | { status: 'reused'; session: SessionDocument }
+  | { status: 'invalid' };
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Server-side sessions behind access tokens. Each login gets a session and an
+ * opaque refresh token that is replaced on every use; revoking the session
+ * ends the login on the next request.
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(
+    @InjectModel(Session.name) private sessionModel: Model<SessionDocument>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async create(
+    userId: string,
+    method: SessionMethod,
+    meta?: SessionMeta,
+    options: CreateSessionOptions = {},
+  ): Promise<{ session: SessionDocument; refreshToken: string }> {
+    const refreshToken = this.generateToken();
+    const now = new Date();
+    const lifetime = options.expiresInSeconds ?? this.getLifetimeSeconds();
+    const { impersonation } = options;
+
+    const session = await this.sessionModel.create({
+      userId: new Types.ObjectId(userId),
+      method,
+      ssoConfigId: options.ssoConfigId ? new Types.ObjectId(options.ssoConfigId) : undefined,
+      impersonatedBy: impersonation ? new Types.ObjectId(impersonation.adminUserId) : undefined,
+      impersonationLogId: impersonation ? new Types.ObjectId(impersonation.logId) : undefined,
+      parentSessionId: impersonation?.parentSessionId ? new Types.ObjectId(impersonation.parentSessionId) : undefined,
+      refreshTokenHash: hashToken(refreshToken),
+      ipAddress: meta?.ipAddress,
+      userAgent: meta?.userAgent,
+      device: describeUserAgent(meta?.userAgent),
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + lifetime * 1000),
+    });
+
+    return { session, refreshToken };
+  }
+
+  /**
+   * Exchange a refresh token for a new one. Presenting a token that was
+   * already rotated revokes the session, since either the holder or an
+   * attacker is using a stolen copy.
+   */
+  async rotate(refreshToken: string, meta?: SessionMeta): Promise<RotationResult> {
+    const hash = hashToken(refreshToken);
+    const nextToken = this.generateToken();
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.getLifetimeSeconds() * 1000);
+
+    // Pipeline update, so the token is swapped atomically and a concurrent
+    // refresh with the same token finds nothing
+    const session = await this.sessionModel.findOneAndUpdate(
+      { refreshTokenHash: hash, revokedAt: { $exists: false }, expiresAt: { $gt: now } },
+      [
+        {
+          $set: {
+            refreshTokenHash: hashToken(nextToken),
+            previousRefreshTokenHashes: {
+              $slice: [{ $concatArrays: ['$previousRefreshTokenHashes', [hash]] }, -MAX_PREVIOUS_TOKENS],
+            },
+            rotatedAt: now,
+            lastUsedAt: now,
+            // Impersonation sessions keep their fixed end
+            expiresAt: { $cond: [{ $eq: ['$method', 'impersonation'] }, '$expiresAt', expiresAt] },
+            ...(meta?.ipAddress && { ipAddress: meta.ipAddress }),
+            ...(meta?.userAgent && { userAgent: meta.userAgent, device: describeUserAgent(meta.userAgent) }),
+          },
+        },
+      ],
+      { new: true },
+    );
+    if (session) {
+      return { status: 'rotated', session, refreshToken: nextToken };
+    }
+
+    const reused = await this.sessionModel.findOne({ previousRefreshTokenHashes: hash });
+    if (!reused || reused.revokedAt) {
+      return { status: 'invalid' };
+    }
+
+    const lastRotated = reused.previousRefreshTokenHashes[reused.previousRefreshTokenHashes.length - 1];
+    if (lastRotated === hash && reused.rotatedAt && now.getTime() - reused.rotatedAt.getTime() < ROTATION_GRACE_MS) {
+      return { status: 'invalid' };
+    }
+
+    await this.revokeSession(reused, 'refresh_token_reused');
+    this.logger.warn(`Refresh token reuse detected for session ${reused.id} of user ${reused.userId}; session revoked`);
+
+    return { status: 'reused', session: reused };
+  }
+
+  /**
+   * New refresh token for a session without presenting the old one, e.g. to
+   * hand the admin's session back after impersonation. The old token counts
+   * as rotated.
+   */
+  async reissue(sessionId: string): Promise<{ session: SessionDocument; refreshToken: string } | null> {
+    if (!Types.ObjectId.isValid(sessionId)) return null;
+
+    const refreshToken = this.generateToken();
+    const now = new Date();
+    const session = await this.sessionModel.findOneAndUpdate(
+      { _id: new Types.ObjectId(sessionId), revokedAt: { $exists: false }, expiresAt: { $gt: now } },
+      [
+        {
+          $set: {
+            refreshTokenHash: hashToken(refreshToken),
+            previousRefreshTokenHashes: {
+              $slice: [{ $concatArrays: ['$previousRefreshTokenHashes', ['$refreshTokenHash']] }, -MAX_PREVIOUS_TOKENS],
+            },
+            rotatedAt: now,
+            lastUsedAt: now,
+          },
+        },
+      ],
+      { new: true },
+    );
+
+    return session ? { session, refreshToken } : null;
+  }
+
+  /** The session behind an access token, if it is still signed in */
+  async findActive(sessionId: string): Promise<SessionDocument | null> {
+    if (!Types.ObjectId.isValid(sessionId)) return null;
+
+    return this.sessionModel.findOne({
+      _id: new Types.ObjectId(sessionId),
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    });
+  }
+
+  async listActive(userId: string): Promise<SessionDocument[]> {
+    return this.sessionModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      })
+      .sort({ lastUsedAt: -1 })
+      .exec();
+  }
+
+  async revoke(userId: string, sessionId: string, reason: SessionRevocationReason): Promise<SessionDocument> {
+    const session = Types.ObjectId.isValid(sessionId)
+      ? await this.sessionModel.findOne({
+          _id: new Types.ObjectId(sessionId),
+          userId: new Types.ObjectId(userId),
+          revokedAt: { $exists: false },
+        })
+      : null;
+    if (!session) {
+      throw new NotFoundException({
+        code: 'SESSION_NOT_FOUND',
+        message: 'Session not found or already signed out',
+      });
+    }
+
+    await this.revokeSession(session, reason);
+    return session;
+  }
+
+  /** Sign the user out everywhere, optionally keeping the calling session */
+  async revokeAll(userId: string, reason: SessionRevocationReason, exceptSessionId?: string): Promise<number> {
+    const filter: Record<string, any> = {
+      userId: new Types.ObjectId(userId),
+      revokedAt: { $exists: false },
+    };
+    if (exceptSessionId && Types.ObjectId.isValid(exceptSessionId)) {
+      filter._id = { $ne: new Types.ObjectId(exceptSessionId) };
+    }
+
+    const result = await this.sessionModel.updateMany(filter, {
+      $set: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.modifiedCount;
+  }
+
+  /** Sessions signed in through an SSO configuration that no longer exists */
+  async revokeBySsoConfig(ssoConfigId: string): Promise<number> {
+    const result = await this.sessionModel.updateMany(
+      { ssoConfigId: new Types.ObjectId(ssoConfigId), revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: 'sso_config_deleted' } },
+    );
+
+    return result.modifiedCount;
+  }
+
+  private async revokeSession(session: SessionDocument, reason: SessionRevocationReason): Promise<void> {
+    session.revokedAt = new Date();
+    session.revokedReason = reason;
+    await session.save();
+  }
+
+  private generateToken(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  private getLifetimeSeconds(): number {
+    const expiresIn = this.configService.get<string>('REFRESH_TOKEN_EXPIRES_IN', '30d');
+    const match = expiresIn.match(/^(\d+)([smhd])$/);
+    if (!match) return 2592000; // 30 days default
+
+    const multipliers: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+    return parseInt(match[1]) * multipliers[match[2]];
+  }
+}
@@ -0,0 +1,34 @@
+// Short device labels for the session list. Good enough to tell a user's
+// devices apart; not a full user agent parser.
+
+const BROWSERS: [RegExp, string][] = [
+  [/\bEdg(?:e|A|iOS)?\//, 'Edge'],
+  [/\bOPR\/|\bOpera\b/, 'Opera'],
+  [/\bFirefox\/|\bFxiOS\//, 'Firefox'],
+  [/\bChrome\/|\bCriOS\//, 'Chrome'],
+  [/\bVersion\/[\d.]+.*\bSafari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/\biPhone\b|\biPad\b|\biPod\b/, 'iOS'],
+  [/\bAndroid\b/, 'Android'],
+  [/\bWindows\b/, 'Windows'],
+  [/\bMac OS X\b|\bMacintosh\b/, 'macOS'],
+  [/\bCrOS\b/, 'ChromeOS'],
+  [/\bLinux\b/, 'Linux'],
+];
+
+/** e.g. "Firefox on Windows", "eutlas-cli", or "Unknown device" */
+export function describeUserAgent(userAgent?: string): string {
+  if (!userAgent) return 'Unknown device';
+
+  // Command line tools and SDKs identify themselves as name/version
+  const client = userAgent.match(/^(eutlas-cli|curl|node-fetch|axios|python-requests|Go-http-client)\b/i);
+  if (client) return client[1];
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? 'Unknown device';
+}
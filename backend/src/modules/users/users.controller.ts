@@ -69,6 +69,7 @@ export class UsersController {
       user.userId,
       changePasswordDto.currentPassword,
       changePasswordDto.newPassword,
+      user.sessionId,
     );
     return {
       success: true,
@@ -2,6 +2,7 @@ import { Injectable, NotFoundException, BadRequestException, ConflictException,
 import { InjectModel, InjectConnection } from '@nestjs/mongoose';
 import { Model, Connection } from 'mongoose';
 import { User, UserDocument } from './schemas/user.schema';
+import { SessionsService } from './sessions.service';
 import * as bcrypt from 'bcryptjs';
 
 interface CreateUserData {
@@ -18,6 +19,7 @@ export class UsersService {
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     @InjectConnection() private connection: Connection,
+    private readonly sessionsService: SessionsService,
   ) {}
 
   async create(data: CreateUserData): Promise<User> {
@@ -139,12 +141,14 @@ export class UsersService {
   }
 
   /**
-   * Change user password (requires current password verification)
+   * Change user password (requires current password verification).
+   * Signs out every other session; the one making the change stays signed in.
    */
   async changePassword(
     userId: string,
     currentPassword: string,
     newPassword: string,
+    currentSessionId?: string,
   ): Promise<void> {
     const user = await this.userModel.findById(userId).exec();
     if (!user) {
@@ -168,7 +172,9 @@ export class UsersService {
       passwordHash,
     }).exec();
 
-    this.logger.log(`Password changed for user ${userId}`);
+    const revoked = await this.sessionsService.revokeAll(userId, 'password_changed', currentSessionId);
+
+    this.logger.log(`Password changed for user ${userId}; ${revoked} other session(s) signed out`);
   }
 
   /**
@@ -224,6 +230,22 @@ export class UsersService {
       deletedCounts['invitations'] = invitationResult.deletedCount;
     }
 
+    // Delete the user's passkeys
+    const passkeyResult = await this.connection.collection('passkeys').deleteMany({
+      userId: user._id,
+    });
+    if (passkeyResult.deletedCount > 0) {
+      deletedCounts['passkeys'] = passkeyResult.deletedCount;
+    }
+
+    // Delete the user's sessions
+    const sessionResult = await this.connection.collection('sessions').deleteMany({
+      userId: user._id,
+    });
+    if (sessionResult.deletedCount > 0) {
+      deletedCounts['sessions'] = sessionResult.deletedCount;
+    }
+
     // Delete the user
     await this.userModel.findByIdAndDelete(userId).exec();
     deletedCounts['users'] = 1;
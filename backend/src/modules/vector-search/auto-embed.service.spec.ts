@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { AutoEmbedService } from './auto-embed.service';
+import { VectorIndex } from './schemas/vector-index.schema';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+import { EmbeddingProvidersService } from './embedding-providers.service';
+
+describe('AutoEmbedService', () => {
+  let service: AutoEmbedService;
+
+  const INDEX_ID = new Types.ObjectId().toString();
+
+  const exec = (value: unknown) => ({ exec: jest.fn().mockResolvedValue(value) });
+
+  const mockVectorIndexModel = {
+    findById: jest.fn(),
+    updateOne: jest.fn(),
+  };
+
+  const mockCollection = {
+    countDocuments: jest.fn(),
+    find: jest.fn(),
+    bulkWrite: jest.fn(),
+  };
+
+  const mockDataExplorerService = {
+    getConnection: jest.fn(async () => ({
+      db: () => ({ collection: () => mockCollection }),
+    })),
+  };
+
+  const mockEmbeddingProvidersService = {
+    findById: jest.fn(),
+    embed: jest.fn(),
+  };
+
+  const index = (backfill: Record<string, unknown> = { processed: 0 }, retryIds?: unknown[]) => ({
+    _id: new Types.ObjectId(INDEX_ID),
+    orgId: new Types.ObjectId(),
+    clusterId: new Types.ObjectId(),
+    embeddingProviderId: new Types.ObjectId(),
+    database: 'shop',
+    collection: 'products',
+    autoEmbed: { enabled: true, sourceField: 'title', path: 'embedding', backfill, retryIds },
+  });
+
+  const returnDocs = (docs: unknown[]) => {
+    mockCollection.find.mockReturnValue({
+      sort: () => ({ limit: () => ({ toArray: jest.fn().mockResolvedValue(docs) }) }),
+    });
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AutoEmbedService,
+        { provide: getModelToken(VectorIndex.name), useValue: mockVectorIndexModel },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: DataExplorerService, useValue: mockDataExplorerService },
+        { provide: EmbeddingProvidersService, useValue: mockEmbeddingProvidersService },
+      ],
+    }).compile();
+
+    service = module.get<AutoEmbedService>(AutoEmbedService);
+
+    jest.clearAllMocks();
+    mockVectorIndexModel.updateOne.mockReturnValue(exec({}));
+    mockEmbeddingProvidersService.findById.mockResolvedValue({ name: 'vLLM' });
+    mockEmbeddingProvidersService.embed.mockImplementation(async (_provider, texts: string[]) =>
+      texts.map(() => [0.1, 0.2]),
+    );
+  });
+
+  describe('backfillBatch', () => {
+    it('should count the documents to backfill on the first batch and finish when they run out', async () => {
+      mockVectorIndexModel.findById.mockReturnValue(exec(index()));
+      mockCollection.countDocuments.mockResolvedValue(2);
+      returnDocs([{ _id: 1, title: 'Espresso' }, { _id: 2, title: 'Latte' }]);
+
+      expect(await service.backfillBatch(INDEX_ID)).toBe(true);
+
+      expect(mockEmbeddingProvidersService.embed).toHaveBeenCalledWith({ name: 'vLLM' }, ['Espresso', 'Latte'], 'document');
+      expect(mockCollection.bulkWrite).toHaveBeenCalledWith(expect.any(Array), { ordered: false });
+      const [, update] = mockVectorIndexModel.updateOne.mock.calls[0];
+      expect(update.$set).toMatchObject({
+        'autoEmbed.backfill.total': 2,
+        'autoEmbed.backfill.lastId': 2,
+        'autoEmbed.backfill.completedAt': expect.any(Date),
+      });
+      expect(update.$inc).toEqual({ 'autoEmbed.backfill.processed': 2, 'autoEmbed.embeddedCount': 2 });
+    });
+
+    it('should resume after the last backfilled document', async () => {
+      const lastId = new Types.ObjectId();
+      mockVectorIndexModel.findById.mockReturnValue(exec(index({ processed: 100, startedAt: new Date(), lastId })));
+      returnDocs([]);
+
+      await service.backfillBatch(INDEX_ID);
+
+      expect(mockCollection.countDocuments).not.toHaveBeenCalled();
+      expect(mockCollection.find.mock.calls[0][0]).toEqual({ title: { $type: 'string' }, _id: { $gt: lastId } });
+    });
+
+    it('should embed the documents the change stream failed on first', async () => {
+      mockVectorIndexModel.findById.mockReturnValue(exec(index({ processed: 2, completedAt: new Date() }, [7, 9])));
+      mockCollection.find.mockReturnValue({ toArray: jest.fn().mockResolvedValue([{ _id: 7, title: 'Mocha' }]) });
+
+      expect(await service.backfillBatch(INDEX_ID)).toBe(true);
+
+      expect(mockCollection.find.mock.calls[0][0]).toEqual({ title: { $type: 'string' }, _id: { $in: [7, 9] } });
+      expect(mockEmbeddingProvidersService.embed).toHaveBeenCalledWith({ name: 'vLLM' }, ['Mocha'], 'document');
+      const [, update] = mockVectorIndexModel.updateOne.mock.calls[0];
+      expect(update.$pullAll).toEqual({ 'autoEmbed.retryIds': [7, 9] });
+      expect(update.$inc).toEqual({ 'autoEmbed.embeddedCount': 1 });
+    });
+
+    it('should have nothing to do once the backfill completed and no documents wait for a retry', async () => {
+      mockVectorIndexModel.findById.mockReturnValue(exec(index({ processed: 2, completedAt: new Date() }, [])));
+
+      expect(await service.backfillBatch(INDEX_ID)).toBe(true);
+
+      expect(mockCollection.find).not.toHaveBeenCalled();
+    });
+
+    it('should record failures and schedule a retry without advancing', async () => {
+      mockVectorIndexModel.findById.mockReturnValue(exec(index({ processed: 0, startedAt: new Date() })));
+      returnDocs([{ _id: 1, title: 'Espresso' }]);
+      mockEmbeddingProvidersService.embed.mockRejectedValue(new Error('Embedding provider "vLLM" failed: HTTP 503'));
+
+      expect(await service.backfillBatch(INDEX_ID)).toBe(true);
+
+      expect(mockCollection.bulkWrite).not.toHaveBeenCalled();
+      const [, update] = mockVectorIndexModel.updateOne.mock.calls[0];
+      expect(update.$inc).toEqual({ 'autoEmbed.errorCount': 1 });
+      expect(update.$set).toMatchObject({
+        'autoEmbed.lastError': 'Embedding provider "vLLM" failed: HTTP 503',
+        'autoEmbed.backfill.retryAt': expect.any(Date),
+      });
+    });
+  });
+});
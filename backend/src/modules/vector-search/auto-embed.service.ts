@@ -0,0 +1,382 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { BSON, Collection, Document } from 'mongodb';
+import { VectorIndex, VectorIndexDocument } from './schemas/vector-index.schema';
+import { EmbeddingProviderDocument } from './schemas/embedding-provider.schema';
+import { DataExplorerService } from '../data-explorer/data-explorer.service';
+import { EmbeddingProvidersService } from './embedding-providers.service';
+import { computeLagMs } from '../migration/live-sync';
+import {
+  AUTO_EMBED_OPERATIONS,
+  backfillFilter,
+  embeddableText,
+  embeddingWrites,
+  getPathValue,
+  textToEmbed,
+} from './auto-embed';
+
+const BACKFILL_BATCH_SIZE = 100;
+// Time one backfill run may spend on an index before moving to the next
+const BACKFILL_BUDGET_MS = 8_000;
+const BACKFILL_RETRY_MS = 60_000;
+const STATE_FLUSH_MS = 5_000;
+// Failed documents kept for a retry; past this the whole collection is backfilled again
+const MAX_RETRY_IDS = 1_000;
+const CHANGE_STREAM_HISTORY_LOST = 286;
+const INVALID_RESUME_TOKEN = 260;
+
+/**
+ * Generates embeddings for vector indexes with auto-embed enabled: a
+ * change stream per index embeds inserted and updated documents, and a
+ * resumable backfill covers the documents that existed before.
+ */
+@Injectable()
+export class AutoEmbedService implements OnModuleDestroy {
+  private readonly logger = new Logger(AutoEmbedService.name);
+
+  /** Running change stream loops keyed by vectorIndex ID */
+  private readonly watchers = new Map<string, { stopped: boolean }>();
+  private isBackfilling = false;
+
+  constructor(
+    @InjectModel(VectorIndex.name) private vectorIndexModel: Model<VectorIndexDocument>,
+    private readonly configService: ConfigService,
+    private readonly dataExplorerService: DataExplorerService,
+    private readonly embeddingProvidersService: EmbeddingProvidersService,
+  ) {}
+
+  onModuleDestroy() {
+    for (const handle of this.watchers.values()) {
+      handle.stopped = true;
+    }
+  }
+
+  // ==================== Change Streams ====================
+
+  /**
+   * (Re)start the change streams of auto-embed indexes, after a restart or
+   * when a stream ended with an error.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async superviseWatchers(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test') {
+      return;
+    }
+
+    try {
+      const indexes = await this.vectorIndexModel.find(
+        { 'autoEmbed.enabled': true, status: { $ne: 'deleting' } },
+        { _id: 1 },
+      ).exec();
+      for (const index of indexes) {
+        this.start(index._id.toString());
+      }
+    } catch (error: any) {
+      this.logger.error(`Auto-embed supervision failed: ${error.message}`);
+    }
+  }
+
+  start(indexId: string): void {
+    if (!this.watchers.has(indexId)) {
+      void this.watch(indexId);
+    }
+  }
+
+  stop(indexId: string): void {
+    const handle = this.watchers.get(indexId);
+    if (handle) {
+      handle.stopped = true;
+    }
+  }
+
+  /**
+   * Embed changed documents until stopped. Progress is flushed to the index
+   * every few seconds, so a restart resumes from the last flushed event.
+   * Never rejects: errors are recorded on the index and the supervisor
+   * starts a new stream.
+   */
+  private async watch(indexId: string): Promise<void> {
+    const handle = { stopped: false };
+    this.watchers.set(indexId, handle);
+
+    try {
+      const index = await this.vectorIndexModel.findById(indexId).exec();
+      if (!index?.autoEmbed?.enabled || !index.embeddingProviderId) return;
+
+      const { sourceField, path } = index.autoEmbed;
+      const orgId = index.orgId.toString();
+      const providerId = index.embeddingProviderId.toString();
+      let provider = await this.embeddingProvidersService.findById(orgId, providerId);
+
+      const client = await this.dataExplorerService.getConnection(index.clusterId.toString());
+      const collection = client.db(index.database).collection(index.collection);
+      const stream = collection.watch([{ $match: { operationType: { $in: AUTO_EMBED_OPERATIONS } } }], {
+        fullDocument: 'updateLookup',
+        maxAwaitTimeMS: 1000,
+        ...(index.autoEmbed.resumeToken ? { resumeAfter: BSON.EJSON.parse(index.autoEmbed.resumeToken) } : {}),
+      });
+      this.logger.log(`Auto-embed started for index ${indexId} (${sourceField} -> ${path})`);
+
+      try {
+        let embedded = 0;
+        let errors = 0;
+        let failedIds: unknown[] = [];
+        let lastError: string | undefined;
+        let lagMs = 0;
+        let lastFlushAt = 0;
+
+        while (!handle.stopped) {
+          const event: Document | null = await stream.tryNext();
+          const text = event ? textToEmbed(event, sourceField) : null;
+          if (event && text !== null) {
+            try {
+              const [vector] = await this.embeddingProvidersService.embed(provider, [text], 'document');
+              await collection.updateOne(
+                { _id: event.documentKey._id, [sourceField]: text },
+                { $set: { [path]: vector } },
+              );
+              embedded++;
+            } catch (error: any) {
+              // The resume token moves past the event, so the backfill retries the document
+              errors++;
+              failedIds.push(event.documentKey._id);
+              lastError = error.message;
+            }
+            lagMs = computeLagMs(event, new Date());
+          }
+
+          if (Date.now() - lastFlushAt >= STATE_FLUSH_MS) {
+            const stillEnabled = await this.vectorIndexModel.findOneAndUpdate(
+              { _id: indexId, 'autoEmbed.enabled': true },
+              {
+                $set: {
+                  ...(stream.resumeToken ? { 'autoEmbed.resumeToken': BSON.EJSON.stringify(stream.resumeToken) } : {}),
+                  'autoEmbed.lagMs': event ? lagMs : 0,
+                  ...(embedded ? { 'autoEmbed.lastEmbeddedAt': new Date() } : {}),
+                  ...(errors ? { 'autoEmbed.lastError': lastError, 'autoEmbed.lastErrorAt': new Date() } : {}),
+                },
+                $inc: { 'autoEmbed.embeddedCount': embedded, 'autoEmbed.errorCount': errors },
+                ...(failedIds.length ? { $push: { 'autoEmbed.retryIds': { $each: failedIds } } } : {}),
+              },
+            ).exec();
+            if (!stillEnabled) break;
+
+            if ((stillEnabled.autoEmbed?.retryIds?.length ?? 0) + failedIds.length > MAX_RETRY_IDS) {
+              this.logger.warn(`Auto-embed for index ${indexId} failed on too many documents, backfilling again`);
+              await this.restartBackfill(indexId);
+            }
+
+            // Pick up key rotations and limit changes
+            provider = await this.embeddingProvidersService.findById(orgId, providerId);
+            embedded = 0;
+            errors = 0;
+            failedIds = [];
+            lastFlushAt = Date.now();
+          }
+        }
+      } finally {
+        await stream.close();
+      }
+    } catch (error: any) {
+      if (error?.code === CHANGE_STREAM_HISTORY_LOST || error?.code === INVALID_RESUME_TOKEN) {
+        // The oplog moved past our position: start over and backfill the gap
+        this.logger.warn(`Auto-embed for index ${indexId} lost its change stream position, backfilling again`);
+        await this.vectorIndexModel.updateOne(
+          { _id: indexId },
+          {
+            $unset: { 'autoEmbed.resumeToken': 1, 'autoEmbed.retryIds': 1 },
+            $set: { 'autoEmbed.backfill': { processed: 0 } },
+          },
+        ).exec().catch(() => undefined);
+      } else {
+        this.logger.warn(`Auto-embed for index ${indexId} interrupted: ${error.message}`);
+        await this.recordError(indexId, error.message).catch(() => undefined);
+      }
+    } finally {
+      this.watchers.delete(indexId);
+    }
+  }
+
+  // ==================== Backfill ====================
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async runBackfills(): Promise<void> {
+    if (this.configService.get<string>('NODE_ENV') === 'test' || this.isBackfilling) {
+      return;
+    }
+
+    this.isBackfilling = true;
+    try {
+      const now = new Date();
+      const pending = await this.vectorIndexModel.find({
+        'autoEmbed.enabled': true,
+        status: { $ne: 'deleting' },
+        $and: [
+          {
+            $or: [
+              { 'autoEmbed.backfill.completedAt': { $exists: false } },
+              { 'autoEmbed.retryIds.0': { $exists: true } },
+            ],
+          },
+          {
+            $or: [
+              { 'autoEmbed.backfill.retryAt': { $exists: false } },
+              { 'autoEmbed.backfill.retryAt': { $lte: now } },
+            ],
+          },
+        ],
+      }, { _id: 1 }).exec();
+
+      for (const { _id } of pending) {
+        const startedAt = Date.now();
+        let done = false;
+        while (!done && Date.now() - startedAt < BACKFILL_BUDGET_MS) {
+          done = await this.backfillBatch(_id.toString());
+        }
+      }
+    } catch (error: any) {
+      this.logger.error(`Auto-embed backfill failed: ${error.message}`);
+    } finally {
+      this.isBackfilling = false;
+    }
+  }
+
+  /**
+   * Embed the next batch of documents the change stream failed to embed,
+   * or else of existing documents. Returns true when there is nothing left
+   * to do for now, either because the backfill completed or because it
+   * failed and waits for a retry.
+   */
+  async backfillBatch(indexId: string): Promise<boolean> {
+    const index = await this.vectorIndexModel.findById(indexId).exec();
+    const retryIds = index?.autoEmbed?.retryIds ?? [];
+    if (
+      !index?.autoEmbed?.enabled ||
+      !index.embeddingProviderId ||
+      (index.autoEmbed.backfill?.completedAt && !retryIds.length)
+    ) {
+      return true;
+    }
+
+    const { sourceField, path } = index.autoEmbed;
+    const backfill = index.autoEmbed.backfill ?? { processed: 0 };
+
+    try {
+      const provider = await this.embeddingProvidersService.findById(
+        index.orgId.toString(),
+        index.embeddingProviderId.toString(),
+      );
+      const client = await this.dataExplorerService.getConnection(index.clusterId.toString());
+      const collection = client.db(index.database).collection(index.collection);
+
+      if (retryIds.length) {
+        const ids = retryIds.slice(0, BACKFILL_BATCH_SIZE);
+        const filter: Document = { ...backfillFilter(sourceField), _id: { $in: ids } };
+        const docs = await collection.find(filter, { projection: { [sourceField]: 1 } }).toArray();
+        const embedded = await this.embedDocuments(collection, provider, docs, sourceField, path);
+
+        await this.vectorIndexModel.updateOne(
+          { _id: indexId, 'autoEmbed.enabled': true },
+          {
+            $pullAll: { 'autoEmbed.retryIds': ids },
+            $inc: { 'autoEmbed.embeddedCount': embedded },
+            $unset: { 'autoEmbed.backfill.retryAt': 1 },
+            ...(embedded ? { $set: { 'autoEmbed.lastEmbeddedAt': new Date() } } : {}),
+          },
+        ).exec();
+        return ids.length === retryIds.length && !!backfill.completedAt;
+      }
+
+      const progress: Record<string, unknown> = {};
+      if (!backfill.startedAt) {
+        progress['autoEmbed.backfill.startedAt'] = new Date();
+        progress['autoEmbed.backfill.total'] = await collection.countDocuments(backfillFilter(sourceField));
+      }
+
+      const docs = await collection
+        .find(backfillFilter(sourceField, backfill.lastId), { projection: { [sourceField]: 1 } })
+        .sort({ _id: 1 })
+        .limit(BACKFILL_BATCH_SIZE)
+        .toArray();
+
+      const embedded = await this.embedDocuments(collection, provider, docs, sourceField, path);
+      if (embedded) {
+        progress['autoEmbed.lastEmbeddedAt'] = new Date();
+      }
+
+      const done = docs.length < BACKFILL_BATCH_SIZE;
+      if (docs.length) {
+        progress['autoEmbed.backfill.lastId'] = docs[docs.length - 1]._id;
+      }
+      if (done) {
+        progress['autoEmbed.backfill.completedAt'] = new Date();
+      }
+
+      await this.vectorIndexModel.updateOne(
+        { _id: indexId, 'autoEmbed.enabled': true },
+        {
+          $set: progress,
+          $inc: { 'autoEmbed.backfill.processed': docs.length, 'autoEmbed.embeddedCount': embedded },
+          $unset: { 'autoEmbed.backfill.retryAt': 1 },
+        },
+      ).exec();
+
+      if (done) {
+        this.logger.log(`Auto-embed backfill complete for index ${indexId}`);
+      }
+      return done;
+    } catch (error: any) {
+      this.logger.warn(`Auto-embed backfill for index ${indexId} failed, retrying later: ${error.message}`);
+      await this.recordError(indexId, error.message, {
+        'autoEmbed.backfill.retryAt': new Date(Date.now() + BACKFILL_RETRY_MS),
+      });
+      return true;
+    }
+  }
+
+  /**
+   * Backfill every document again, e.g. after documents failed to embed
+   * or the provider's model changed.
+   */
+  async restartBackfill(indexId: string): Promise<void> {
+    await this.vectorIndexModel.updateOne(
+      { _id: indexId, 'autoEmbed.enabled': true },
+      { $set: { 'autoEmbed.backfill': { processed: 0 } }, $unset: { 'autoEmbed.retryIds': 1 } },
+    ).exec();
+  }
+
+  /** Embed the source text of the documents that have one; returns how many were embedded */
+  private async embedDocuments(
+    collection: Collection,
+    provider: EmbeddingProviderDocument,
+    docs: Document[],
+    sourceField: string,
+    path: string,
+  ): Promise<number> {
+    const embeddable = docs
+      .map((doc) => ({ _id: doc._id, text: embeddableText(getPathValue(doc, sourceField)) }))
+      .filter((doc): doc is { _id: any; text: string } => doc.text !== null);
+    if (!embeddable.length) return 0;
+
+    const vectors = await this.embeddingProvidersService.embed(
+      provider,
+      embeddable.map((doc) => doc.text),
+      'document',
+    );
+    await collection.bulkWrite(embeddingWrites(embeddable, vectors, sourceField, path), { ordered: false });
+    return embeddable.length;
+  }
+
+  private async recordError(indexId: string, message: string, extra: Record<string, unknown> = {}): Promise<void> {
+    await this.vectorIndexModel.updateOne(
+      { _id: indexId },
+      {
+        $set: { 'autoEmbed.lastError': message, 'autoEmbed.lastErrorAt': new Date(), ...extra },
+        $inc: { 'autoEmbed.errorCount': 1 },
+      },
+    ).exec();
+  }
+}
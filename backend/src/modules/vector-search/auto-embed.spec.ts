@@ -0,0 +1,71 @@
+import { ObjectId } from 'mongodb';
+import { backfillFilter, embeddableText, embeddingWrites, getPathValue, textToEmbed } from './auto-embed';
+
+describe('auto-embed', () => {
+  const doc = { _id: 1, title: 'Espresso', details: { description: 'Dark roast' }, embedding: [0.1] };
+
+  // ==================== textToEmbed ====================
+
+  describe('textToEmbed', () => {
+    it('should embed the source text of inserted and replaced documents', () => {
+      expect(textToEmbed({ operationType: 'insert', fullDocument: doc }, 'title')).toBe('Espresso');
+      expect(textToEmbed({ operationType: 'replace', fullDocument: doc }, 'details.description')).toBe('Dark roast');
+    });
+
+    it('should embed updates that touch the source field', () => {
+      const update = (updatedFields: Record<string, unknown>) => ({
+        operationType: 'update',
+        updateDescription: { updatedFields, removedFields: [] },
+        fullDocument: doc,
+      });
+
+      expect(textToEmbed(update({ title: 'Espresso' }), 'title')).toBe('Espresso');
+      expect(textToEmbed(update({ details: { description: 'Dark roast' } }), 'details.description')).toBe('Dark roast');
+      expect(textToEmbed(update({ 'details.description': 'Dark roast' }), 'details')).toBeNull();
+    });
+
+    it('should skip updates of other fields, including our own vector writes', () => {
+      const event = {
+        operationType: 'update',
+        updateDescription: { updatedFields: { embedding: [0.2] }, removedFields: [] },
+        fullDocument: doc,
+      };
+
+      expect(textToEmbed(event, 'title')).toBeNull();
+    });
+
+    it('should skip deletes and documents without text', () => {
+      expect(textToEmbed({ operationType: 'delete', documentKey: { _id: 1 } }, 'title')).toBeNull();
+      expect(textToEmbed({ operationType: 'insert', fullDocument: { _id: 2, title: '  ' } }, 'title')).toBeNull();
+      expect(textToEmbed({ operationType: 'insert', fullDocument: { _id: 3, title: 42 } }, 'title')).toBeNull();
+    });
+  });
+
+  // ==================== Backfill ====================
+
+  describe('backfillFilter', () => {
+    it('should resume after the last backfilled document', () => {
+      const lastId = new ObjectId();
+
+      expect(backfillFilter('title')).toEqual({ title: { $type: 'string' } });
+      expect(backfillFilter('title', lastId)).toEqual({ title: { $type: 'string' }, _id: { $gt: lastId } });
+    });
+  });
+
+  it('should only write vectors while the source text is unchanged', () => {
+    expect(embeddingWrites([{ _id: 1, text: 'Espresso' }], [[0.3]], 'title', 'embedding')).toEqual([
+      {
+        updateOne: {
+          filter: { _id: 1, title: 'Espresso' },
+          update: { $set: { embedding: [0.3] } },
+        },
+      },
+    ]);
+  });
+
+  it('should read nested values', () => {
+    expect(getPathValue(doc, 'details.description')).toBe('Dark roast');
+    expect(getPathValue(doc, 'details.missing.deeper')).toBeUndefined();
+    expect(embeddableText(getPathValue(doc, 'details'))).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import { AnyBulkWriteOperation, Document } from 'mongodb';
+
+export const AUTO_EMBED_OPERATIONS = ['insert', 'update', 'replace'];
+
+export function getPathValue(doc: Document | undefined, path: string): unknown {
+  return path.split('.').reduce<any>((value, key) => value?.[key], doc);
+}
+
+/** Only non-blank strings are worth sending to the provider */
+export function embeddableText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value : null;
+}
+
+function overlaps(field: string, sourceField: string): boolean {
+  return field === sourceField || field.startsWith(`${sourceField}.`) || sourceField.startsWith(`${field}.`);
+}
+
+/**
+ * Text to embed for a change event, or null when the event leaves the
+ * source field alone. Our own writes only touch the vector path, so they
+ * never trigger another embedding.
+ */
+export function textToEmbed(event: Document, sourceField: string): string | null {
+  if (!AUTO_EMBED_OPERATIONS.includes(event.operationType)) {
+    return null;
+  }
+  if (event.operationType === 'update') {
+    const updatedFields = Object.keys(event.updateDescription?.updatedFields ?? {});
+    if (!updatedFields.some((field) => overlaps(field, sourceField))) {
+      return null;
+    }
+  }
+  return embeddableText(getPathValue(event.fullDocument, sourceField));
+}
+
+/**
+ * Documents still to backfill, in `_id` order so an interrupted backfill
+ * resumes after the last document it wrote.
+ */
+export function backfillFilter(sourceField: string, lastId?: unknown): Document {
+  return {
+    [sourceField]: { $type: 'string' },
+    ...(lastId !== undefined && lastId !== null ? { _id: { $gt: lastId } } : {}),
+  };
+}
+
+/**
+ * Write the vectors, but only where the source text is still the one that
+ * was embedded; a concurrent edit is picked up by the change stream.
+ */
+export function embeddingWrites(
+  docs: Array<{ _id: any; text: string }>,
+  vectors: number[][],
+  sourceField: string,
+  path: string,
+): AnyBulkWriteOperation[] {
+  return docs.map((doc, i) => ({
+    updateOne: {
+      filter: { _id: doc._id, [sourceField]: doc.text },
+      update: { $set: { [path]: vectors[i] } },
+    },
+  }));
+}
@@ -0,0 +1,127 @@
+import { IsString, IsEnum, IsOptional, IsNumber, IsUrl, Min, Max, MinLength, MaxLength, ArrayMinSize, ArrayMaxSize, IsArray } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { EmbeddingProviderType } from '../embedding-providers';
+
+const PROVIDER_TYPES = ['openai_compatible', 'openai', 'cohere', 'huggingface'];
+
+export class CreateEmbeddingProviderDto {
+  @ApiProperty({ example: 'Local vLLM' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: PROVIDER_TYPES, example: 'openai_compatible' })
+  @IsEnum(PROVIDER_TYPES)
+  type: EmbeddingProviderType;
+
+  @ApiPropertyOptional({
+    example: 'http://vllm.internal:8000/v1',
+    description:
+      'Required for openai_compatible, overrides the public endpoint for other types. ' +
+      'Private, loopback and link-local hosts must be listed in EMBEDDING_PROVIDER_ALLOWED_HOSTS',
+  })
+  @IsOptional()
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  baseUrl?: string;
+
+  @ApiProperty({ example: 'intfloat/multilingual-e5-large' })
+  @IsString()
+  @MinLength(1)
+  model: string;
+
+  @ApiProperty({ example: 1024, description: 'Length of the vectors the model produces' })
+  @IsNumber()
+  @Min(1)
+  @Max(4096)
+  dimensions: number;
+
+  @ApiPropertyOptional({ description: 'Stored encrypted, never returned' })
+  @IsOptional()
+  @IsString()
+  apiKey?: string;
+
+  @ApiPropertyOptional({ default: 32, description: 'Inputs per request' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(2048)
+  batchSize?: number;
+
+  @ApiPropertyOptional({ default: 600 })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100000)
+  maxRequestsPerMinute?: number;
+
+  @ApiPropertyOptional({ default: 3 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(10)
+  maxRetries?: number;
+}
+
+export class UpdateEmbeddingProviderDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: 'Private, loopback and link-local hosts must be listed in EMBEDDING_PROVIDER_ALLOWED_HOSTS' })
+  @IsOptional()
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  baseUrl?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  model?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(4096)
+  dimensions?: number;
+
+  @ApiPropertyOptional({ description: 'Replaces the stored key; an empty string removes it' })
+  @IsOptional()
+  @IsString()
+  apiKey?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(2048)
+  batchSize?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(100000)
+  maxRequestsPerMinute?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(10)
+  maxRetries?: number;
+}
+
+export class TestEmbeddingProviderDto {
+  @ApiPropertyOptional({ example: ['Hello world'], description: 'Sample inputs, defaults to a single sentence' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(16)
+  @IsString({ each: true })
+  texts?: string[];
+}
@@ -12,6 +12,7 @@ import {
   MinLength,
   MaxLength,
   ArrayMinSize,
+  IsMongoId,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 
@@ -63,6 +64,18 @@ export class CustomAnalyzerDto {
   tokenFilters?: string[];
 }
 
+export class AutoEmbedDto {
+  @ApiProperty({ example: 'description', description: 'Text field to generate embeddings from' })
+  @IsString()
+  @MinLength(1)
+  sourceField: string;
+
+  @ApiPropertyOptional({ example: 'embedding', description: 'Vector field to write, defaults to the first vector field' })
+  @IsOptional()
+  @IsString()
+  path?: string;
+}
+
 export class CreateVectorIndexDto {
   @ApiProperty({ example: 'product_embeddings_idx' })
   @IsString()
@@ -103,6 +116,20 @@ export class CreateVectorIndexDto {
   @IsString({ each: true })
   textFields?: string[];
 
+  @ApiPropertyOptional({ description: 'Org embedding provider used for semantic search on this index' })
+  @IsOptional()
+  @IsMongoId()
+  embeddingProviderId?: string;
+
+  @ApiPropertyOptional({
+    type: AutoEmbedDto,
+    description: 'Generate embeddings on write with the embedding provider, including a backfill of existing documents',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AutoEmbedDto)
+  autoEmbed?: AutoEmbedDto;
+
   @ApiPropertyOptional({ type: CustomAnalyzerDto })
   @IsOptional()
   @ValidateNested()
@@ -183,6 +210,13 @@ export class SemanticSearchDto {
   @IsOptional()
   @IsString()
   model?: string;
+
+  @ApiPropertyOptional({
+    description: 'Org embedding provider, defaults to the provider of the index. Takes precedence over embeddingProvider',
+  })
+  @IsOptional()
+  @IsMongoId()
+  embeddingProviderId?: string;
 }
 
 export class HybridSearchDto {
@@ -0,0 +1,110 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
+import { EmbeddingProvidersService } from './embedding-providers.service';
+import { OrgsService } from '../orgs/orgs.service';
+import {
+  CreateEmbeddingProviderDto,
+  UpdateEmbeddingProviderDto,
+  TestEmbeddingProviderDto,
+} from './dto/embedding-provider.dto';
+
+@ApiTags('Vector Search')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('orgs/:orgId/embedding-providers')
+export class EmbeddingProvidersController {
+  constructor(
+    private readonly embeddingProvidersService: EmbeddingProvidersService,
+    private readonly orgsService: OrgsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List embedding providers of the organization' })
+  async findAll(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId);
+    const providers = await this.embeddingProvidersService.findAll(orgId);
+    return {
+      success: true,
+      data: providers,
+    };
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Add an embedding provider',
+    description: 'Use type openai_compatible with a base URL to keep embeddings on self-hosted servers (vLLM, TEI, Ollama).',
+  })
+  async create(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Body() dto: CreateEmbeddingProviderDto,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+    const provider = await this.embeddingProvidersService.create(orgId, user.userId, dto);
+    return {
+      success: true,
+      data: provider,
+    };
+  }
+
+  @Patch(':providerId')
+  @ApiOperation({ summary: 'Update an embedding provider' })
+  async update(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('providerId') providerId: string,
+    @Body() dto: UpdateEmbeddingProviderDto,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+    const provider = await this.embeddingProvidersService.update(orgId, providerId, user.userId, dto);
+    return {
+      success: true,
+      data: provider,
+    };
+  }
+
+  @Delete(':providerId')
+  @ApiOperation({ summary: 'Delete an embedding provider' })
+  async remove(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('providerId') providerId: string,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+    await this.embeddingProvidersService.delete(orgId, providerId, user.userId);
+    return {
+      success: true,
+      message: 'Embedding provider deleted',
+    };
+  }
+
+  @Post(':providerId/test')
+  @ApiOperation({ summary: 'Embed sample inputs to verify the provider settings' })
+  async test(
+    @CurrentUser() user: CurrentUserData,
+    @Param('orgId') orgId: string,
+    @Param('providerId') providerId: string,
+    @Body() dto: TestEmbeddingProviderDto,
+  ) {
+    await this.orgsService.checkAccess(orgId, user.userId, ['OWNER', 'ADMIN']);
+    const result = await this.embeddingProvidersService.test(orgId, providerId, dto.texts);
+    return {
+      success: true,
+      data: result,
+    };
+  }
+}
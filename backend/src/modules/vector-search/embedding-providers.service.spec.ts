@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { EmbeddingProvidersService } from './embedding-providers.service';
+import { EmbeddingProvider } from './schemas/embedding-provider.schema';
+import { VectorIndex } from './schemas/vector-index.schema';
+import { CredentialsService } from '../credentials/credentials.service';
+import { AuditService } from '../audit/audit.service';
+import * as embeddingProviders from './embedding-providers';
+
+describe('EmbeddingProvidersService', () => {
+  let service: EmbeddingProvidersService;
+
+  const ORG_ID = new Types.ObjectId().toString();
+
+  const mockProviderModel = {
+    create: jest.fn(),
+    exists: jest.fn(),
+    findOne: jest.fn(),
+    deleteOne: jest.fn(),
+  };
+
+  const mockVectorIndexModel = {
+    countDocuments: jest.fn(),
+  };
+
+  const mockCredentialsService = {
+    encryptString: jest.fn((text: string) => `enc:${text}`),
+    decryptString: jest.fn((text: string) => text.replace(/^enc:/, '')),
+  };
+
+  const mockAuditService = {
+    safeLog: jest.fn(),
+  };
+
+  const provider = (overrides: Record<string, unknown> = {}) => ({
+    _id: new Types.ObjectId(),
+    id: 'provider-1',
+    orgId: new Types.ObjectId(ORG_ID),
+    name: 'vLLM',
+    type: 'openai_compatible',
+    baseUrl: 'http://vllm.internal:8000/v1',
+    model: 'e5',
+    dimensions: 3,
+    apiKeyEncrypted: 'enc:secret',
+    batchSize: 2,
+    maxRequestsPerMinute: 600,
+    maxRetries: 0,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmbeddingProvidersService,
+        { provide: getModelToken(EmbeddingProvider.name), useValue: mockProviderModel },
+        { provide: getModelToken(VectorIndex.name), useValue: mockVectorIndexModel },
+        { provide: CredentialsService, useValue: mockCredentialsService },
+        { provide: AuditService, useValue: mockAuditService },
+        { provide: ConfigService, useValue: { get: jest.fn(() => 'vllm.internal') } },
+      ],
+    }).compile();
+
+    service = module.get<EmbeddingProvidersService>(EmbeddingProvidersService);
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  // ==================== create ====================
+
+  describe('create', () => {
+    it('should store the API key encrypted', async () => {
+      mockProviderModel.exists.mockResolvedValue(null);
+      mockProviderModel.create.mockImplementation(async (doc) => ({ id: 'provider-1', ...doc }));
+
+      await service.create(ORG_ID, new Types.ObjectId().toString(), {
+        name: 'vLLM',
+        type: 'openai_compatible',
+        baseUrl: 'http://vllm.internal:8000/v1',
+        model: 'e5',
+        dimensions: 1024,
+        apiKey: 'secret',
+      });
+
+      const stored = mockProviderModel.create.mock.calls[0][0];
+      expect(stored.apiKeyEncrypted).toBe('enc:secret');
+      expect(stored).not.toHaveProperty('apiKey');
+    });
+
+    it('should refuse base URLs on internal hosts that are not allow-listed', async () => {
+      mockProviderModel.exists.mockResolvedValue(null);
+
+      await expect(
+        service.create(ORG_ID, new Types.ObjectId().toString(), {
+          name: 'Metadata',
+          type: 'openai',
+          baseUrl: 'http://169.254.169.254/latest/meta-data',
+          model: 'e5',
+          dimensions: 1024,
+        }),
+      ).rejects.toMatchObject({ response: { code: 'BASE_URL_NOT_ALLOWED' } });
+      expect(mockProviderModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should require a base URL for OpenAI-compatible providers', async () => {
+      await expect(
+        service.create(ORG_ID, new Types.ObjectId().toString(), {
+          name: 'vLLM',
+          type: 'openai_compatible',
+          model: 'e5',
+          dimensions: 1024,
+        }),
+      ).rejects.toMatchObject({ response: { code: 'BASE_URL_REQUIRED' } });
+      expect(mockProviderModel.create).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==================== delete ====================
+
+  it('should refuse to delete providers used by vector indexes', async () => {
+    mockProviderModel.findOne.mockReturnValue({ exec: jest.fn().mockResolvedValue(provider()) });
+    mockVectorIndexModel.countDocuments.mockReturnValue({ exec: jest.fn().mockResolvedValue(2) });
+
+    await expect(service.delete(ORG_ID, new Types.ObjectId().toString(), 'user-1')).rejects.toMatchObject({
+      response: { code: 'EMBEDDING_PROVIDER_IN_USE' },
+    });
+    expect(mockProviderModel.deleteOne).not.toHaveBeenCalled();
+  });
+
+  // ==================== embed ====================
+
+  describe('embed', () => {
+    it('should pass the decrypted key and batch settings to the client', async () => {
+      const embed = jest.fn(async (texts: string[]) => texts.map(() => [0.1, 0.2, 0.3]));
+      const create = jest.spyOn(embeddingProviders, 'createEmbeddingClient').mockReturnValue({ embed });
+
+      const vectors = await service.embed(provider() as any, ['a', 'b', 'c'], 'document');
+
+      expect(vectors).toHaveLength(3);
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'secret', baseUrl: 'http://vllm.internal:8000/v1' }));
+      expect(embed).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject vectors that do not match the configured dimensions', async () => {
+      jest.spyOn(embeddingProviders, 'createEmbeddingClient').mockReturnValue({
+        embed: jest.fn(async (texts: string[]) => texts.map(() => [0.1, 0.2])),
+      });
+
+      await expect(service.embed(provider() as any, ['a'], 'query')).rejects.toMatchObject({
+        response: { code: 'EMBEDDING_DIMENSION_MISMATCH' },
+      });
+    });
+
+    it('should surface provider failures as bad requests', async () => {
+      jest.spyOn(embeddingProviders, 'createEmbeddingClient').mockReturnValue({
+        embed: jest.fn().mockRejectedValue(new embeddingProviders.EmbeddingRequestError('HTTP 401', false)),
+      });
+
+      await expect(service.embed(provider() as any, ['a'], 'query')).rejects.toMatchObject({
+        response: { code: 'EMBEDDING_PROVIDER_ERROR' },
+      });
+    });
+  });
+});
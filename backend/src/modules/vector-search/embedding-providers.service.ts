@@ -0,0 +1,282 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { EmbeddingProvider, EmbeddingProviderDocument } from './schemas/embedding-provider.schema';
+import { VectorIndex, VectorIndexDocument } from './schemas/vector-index.schema';
+import { CreateEmbeddingProviderDto, UpdateEmbeddingProviderDto } from './dto/embedding-provider.dto';
+import { CredentialsService } from '../credentials/credentials.service';
+import { AuditService } from '../audit/audit.service';
+import {
+  assertAllowedEndpoint,
+  createEmbeddingClient,
+  embedInBatches,
+  EmbeddingInputType,
+  EmbeddingRequestError,
+  RateLimiter,
+} from './embedding-providers';
+
+const TEST_INPUT = 'EUTLAS embedding provider connectivity test';
+
+@Injectable()
+export class EmbeddingProvidersService {
+  private readonly logger = new Logger(EmbeddingProvidersService.name);
+  // One limiter per provider and quota, shared by every caller in this process
+  private readonly limiters = new Map<string, { maxRequestsPerMinute: number; limiter: RateLimiter }>();
+
+  constructor(
+    @InjectModel(EmbeddingProvider.name) private providerModel: Model<EmbeddingProviderDocument>,
+    @InjectModel(VectorIndex.name) private vectorIndexModel: Model<VectorIndexDocument>,
+    private readonly credentialsService: CredentialsService,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ==================== Provider Management ====================
+
+  async findAll(orgId: string): Promise<EmbeddingProviderDocument[]> {
+    return this.providerModel.find({ orgId: new Types.ObjectId(orgId) }).sort({ name: 1 }).exec();
+  }
+
+  async findById(orgId: string, providerId: string): Promise<EmbeddingProviderDocument> {
+    const provider = Types.ObjectId.isValid(providerId)
+      ? await this.providerModel.findOne({
+        _id: new Types.ObjectId(providerId),
+        orgId: new Types.ObjectId(orgId),
+      }).exec()
+      : null;
+
+    if (!provider) {
+      throw new NotFoundException({
+        code: 'EMBEDDING_PROVIDER_NOT_FOUND',
+        message: 'Embedding provider not found',
+      });
+    }
+    return provider;
+  }
+
+  async create(orgId: string, userId: string, dto: CreateEmbeddingProviderDto): Promise<EmbeddingProviderDocument> {
+    if (dto.type === 'openai_compatible' && !dto.baseUrl) {
+      throw new BadRequestException({
+        code: 'BASE_URL_REQUIRED',
+        message: 'OpenAI-compatible providers require a base URL',
+      });
+    }
+    await this.assertNameAvailable(orgId, dto.name);
+    if (dto.baseUrl) {
+      await this.assertBaseUrlAllowed(dto.baseUrl);
+    }
+
+    const { apiKey, ...settings } = dto;
+    const provider = await this.providerModel.create({
+      ...settings,
+      orgId: new Types.ObjectId(orgId),
+      apiKeyEncrypted: apiKey ? this.credentialsService.encryptString(apiKey) : undefined,
+      createdBy: new Types.ObjectId(userId),
+    });
+
+    await this.auditService.safeLog({
+      orgId,
+      action: 'CREATE',
+      resourceType: 'embedding_provider',
+      resourceId: provider.id,
+      resourceName: provider.name,
+      actorId: userId,
+      description: `Created embedding provider "${provider.name}" (${provider.type}, ${provider.model})`,
+    });
+
+    this.logger.log(`Created embedding provider ${provider.id} for org ${orgId}`);
+    return provider;
+  }
+
+  async update(
+    orgId: string,
+    providerId: string,
+    userId: string,
+    dto: UpdateEmbeddingProviderDto,
+  ): Promise<EmbeddingProviderDocument> {
+    const provider = await this.findById(orgId, providerId);
+
+    if (dto.name && dto.name !== provider.name) {
+      await this.assertNameAvailable(orgId, dto.name);
+    }
+    if (dto.dimensions && dto.dimensions !== provider.dimensions) {
+      const used = await this.vectorIndexModel.countDocuments({ embeddingProviderId: provider._id }).exec();
+      if (used > 0) {
+        throw new ConflictException({
+          code: 'EMBEDDING_PROVIDER_IN_USE',
+          message: `Dimensions cannot change while ${used} vector index(es) use this provider`,
+        });
+      }
+    }
+
+    const { apiKey, ...settings } = dto;
+    Object.assign(provider, settings);
+    if (apiKey !== undefined) {
+      provider.apiKeyEncrypted = apiKey ? this.credentialsService.encryptString(apiKey) : undefined;
+    }
+    if (provider.type === 'openai_compatible' && !provider.baseUrl) {
+      throw new BadRequestException({
+        code: 'BASE_URL_REQUIRED',
+        message: 'OpenAI-compatible providers require a base URL',
+      });
+    }
+    if (dto.baseUrl) {
+      await this.assertBaseUrlAllowed(dto.baseUrl);
+    }
+    await provider.save();
+
+    await this.auditService.safeLog({
+      orgId,
+      action: 'UPDATE',
+      resourceType: 'embedding_provider',
+      resourceId: provider.id,
+      resourceName: provider.name,
+      actorId: userId,
+      newState: { ...settings, ...(apiKey !== undefined ? { apiKey: apiKey ? 'changed' : 'removed' } : {}) },
+      description: `Updated embedding provider "${provider.name}"`,
+    });
+
+    return provider;
+  }
+
+  async delete(orgId: string, providerId: string, userId: string): Promise<void> {
+    const provider = await this.findById(orgId, providerId);
+
+    const used = await this.vectorIndexModel.countDocuments({ embeddingProviderId: provider._id }).exec();
+    if (used > 0) {
+      throw new ConflictException({
+        code: 'EMBEDDING_PROVIDER_IN_USE',
+        message: `Provider is used by ${used} vector index(es)`,
+      });
+    }
+
+    await this.providerModel.deleteOne({ _id: provider._id }).exec();
+    this.limiters.delete(provider.id);
+
+    await this.auditService.safeLog({
+      orgId,
+      action: 'DELETE',
+      resourceType: 'embedding_provider',
+      resourceId: provider.id,
+      resourceName: provider.name,
+      actorId: userId,
+      description: `Deleted embedding provider "${provider.name}"`,
+    });
+  }
+
+  // ==================== Embedding ====================
+
+  /**
+   * Embed texts with the provider's batching, retry and rate limits. Every
+   * vector must have the provider's configured dimensions.
+   */
+  async embed(
+    provider: EmbeddingProvider | EmbeddingProviderDocument,
+    texts: string[],
+    inputType: EmbeddingInputType,
+  ): Promise<number[][]> {
+    const client = createEmbeddingClient({
+      type: provider.type,
+      baseUrl: provider.baseUrl,
+      model: provider.model,
+      apiKey: provider.apiKeyEncrypted ? this.credentialsService.decryptString(provider.apiKeyEncrypted) : undefined,
+    });
+
+    let vectors: number[][];
+    try {
+      // Checked on every call, the host may resolve elsewhere since it was saved
+      if (provider.baseUrl) {
+        await assertAllowedEndpoint(provider.baseUrl, this.allowedHosts());
+      }
+      vectors = await embedInBatches(client, texts, inputType, {
+        batchSize: provider.batchSize,
+        maxRetries: provider.maxRetries,
+        limiter: this.getLimiter(provider),
+      });
+    } catch (error: any) {
+      throw new BadRequestException({
+        code: 'EMBEDDING_PROVIDER_ERROR',
+        message: `Embedding provider "${provider.name}" failed: ${error.message}`,
+      });
+    }
+
+    const mismatch = vectors.findIndex((vector) => !Array.isArray(vector) || vector.length !== provider.dimensions);
+    if (mismatch !== -1) {
+      throw new BadRequestException({
+        code: 'EMBEDDING_DIMENSION_MISMATCH',
+        message: `Provider "${provider.name}" returned a ${vectors[mismatch]?.length ?? 0}-dimensional vector, expected ${provider.dimensions}`,
+      });
+    }
+    return vectors;
+  }
+
+  async test(
+    orgId: string,
+    providerId: string,
+    texts: string[] = [TEST_INPUT],
+  ): Promise<{ success: boolean; message: string; latencyMs: number; dimensions?: number }> {
+    const provider = await this.findById(orgId, providerId);
+    const startTime = Date.now();
+
+    try {
+      const vectors = await this.embed(provider, texts, 'document');
+      return {
+        success: true,
+        message: `Embedded ${vectors.length} input(s) with ${provider.model}`,
+        latencyMs: Date.now() - startTime,
+        dimensions: vectors[0]?.length,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: error.message,
+        latencyMs: Date.now() - startTime,
+      };
+    }
+  }
+
+  private getLimiter(provider: EmbeddingProvider | EmbeddingProviderDocument): RateLimiter {
+    const id = (provider as EmbeddingProviderDocument)._id.toString();
+    const current = this.limiters.get(id);
+    if (current?.maxRequestsPerMinute === provider.maxRequestsPerMinute) {
+      return current.limiter;
+    }
+    const limiter = new RateLimiter(provider.maxRequestsPerMinute);
+    this.limiters.set(id, { maxRequestsPerMinute: provider.maxRequestsPerMinute, limiter });
+    return limiter;
+  }
+
+  private async assertNameAvailable(orgId: string, name: string): Promise<void> {
+    const existing = await this.providerModel.exists({ orgId: new Types.ObjectId(orgId), name });
+    if (existing) {
+      throw new ConflictException({
+        code: 'EMBEDDING_PROVIDER_EXISTS',
+        message: 'An embedding provider with this name already exists',
+      });
+    }
+  }
+
+  private async assertBaseUrlAllowed(baseUrl: string): Promise<void> {
+    try {
+      await assertAllowedEndpoint(baseUrl, this.allowedHosts());
+    } catch (error) {
+      if (!(error instanceof EmbeddingRequestError)) throw error;
+      throw new BadRequestException({ code: 'BASE_URL_NOT_ALLOWED', message: error.message });
+    }
+  }
+
+  /** Internal hosts self-hosted models may run on, comma-separated */
+  private allowedHosts(): string[] {
+    return (this.configService.get<string>('EMBEDDING_PROVIDER_ALLOWED_HOSTS') ?? '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean);
+  }
+}
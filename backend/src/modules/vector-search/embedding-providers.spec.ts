@@ -0,0 +1,198 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  assertAllowedEndpoint,
+  createEmbeddingClient,
+  embedInBatches,
+  EmbeddingClient,
+  EmbeddingRequestError,
+  isInternalAddress,
+  RateLimiter,
+} from './embedding-providers';
+
+interface ReceivedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+describe('embedding-providers', () => {
+  // Local stand-in for a self-hosted embedding server
+  let server: Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  let responses: Array<{ status: number; body: unknown; headers?: Record<string, string> }>;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ url: req.url!, headers: req.headers, body: JSON.parse(Buffer.concat(chunks).toString()) });
+        const response = responses.shift() ?? { status: 500, body: { error: 'unexpected request' } };
+        res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+        res.end(JSON.stringify(response.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responses = [];
+  });
+
+  // ==================== Clients ====================
+
+  describe('createEmbeddingClient', () => {
+    it('should call the OpenAI-compatible endpoint and restore input order', async () => {
+      responses.push({
+        status: 200,
+        body: { data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] },
+      });
+      const client = createEmbeddingClient({ type: 'openai_compatible', baseUrl: `${baseUrl}/`, model: 'e5', apiKey: 'k' });
+
+      expect(await client.embed(['a', 'b'], 'document')).toEqual([[1, 0], [0, 1]]);
+      expect(received[0].url).toBe('/v1/embeddings');
+      expect(received[0].headers.authorization).toBe('Bearer k');
+      expect(received[0].body).toEqual({ input: ['a', 'b'], model: 'e5' });
+    });
+
+    it('should not send an authorization header without a key', async () => {
+      responses.push({ status: 200, body: { data: [{ index: 0, embedding: [1] }] } });
+
+      await createEmbeddingClient({ type: 'openai_compatible', baseUrl, model: 'e5' }).embed(['a'], 'query');
+
+      expect(received[0].headers.authorization).toBeUndefined();
+    });
+
+    it('should require a base URL for OpenAI-compatible providers', () => {
+      expect(() => createEmbeddingClient({ type: 'openai_compatible', model: 'e5' })).toThrow(EmbeddingRequestError);
+    });
+
+    it('should tell Cohere whether it embeds queries or documents', async () => {
+      responses.push({ status: 200, body: { embeddings: [[1, 2]] } });
+
+      await createEmbeddingClient({ type: 'cohere', baseUrl, model: 'embed-multilingual-v3.0' }).embed(['a'], 'query');
+
+      expect(received[0].url).toBe('/v1/embed');
+      expect(received[0].body.input_type).toBe('search_query');
+    });
+
+    it('should mark 429 and 5xx responses retryable and 4xx responses final', async () => {
+      const client = createEmbeddingClient({ type: 'openai_compatible', baseUrl, model: 'e5' });
+
+      responses.push({ status: 429, body: {}, headers: { 'Retry-After': '2' } });
+      await expect(client.embed(['a'], 'query')).rejects.toMatchObject({ retryable: true, retryAfterMs: 2000 });
+
+      responses.push({ status: 404, body: { error: 'model not found' } });
+      await expect(client.embed(['a'], 'query')).rejects.toMatchObject({ retryable: false });
+    });
+  });
+
+  // ==================== embedInBatches ====================
+
+  describe('embedInBatches', () => {
+    const echoClient = (): EmbeddingClient & { embed: jest.Mock } => ({
+      embed: jest.fn(async (texts: string[]) => texts.map((text) => [text.length])),
+    });
+
+    it('should split inputs into batches and keep the order', async () => {
+      const client = echoClient();
+
+      const vectors = await embedInBatches(client, ['a', 'bb', 'ccc', 'dddd', 'eeeee'], 'document', {
+        batchSize: 2,
+        maxRetries: 0,
+      });
+
+      expect(vectors).toEqual([[1], [2], [3], [4], [5]]);
+      expect(client.embed.mock.calls.map(([texts]) => texts)).toEqual([['a', 'bb'], ['ccc', 'dddd'], ['eeeee']]);
+    });
+
+    it('should retry retryable failures with backoff', async () => {
+      const client = echoClient();
+      client.embed.mockRejectedValueOnce(new EmbeddingRequestError('HTTP 503', true));
+
+      const vectors = await embedInBatches(client, ['a'], 'query', { batchSize: 1, maxRetries: 2, retryDelayMs: 1 });
+
+      expect(vectors).toEqual([[1]]);
+      expect(client.embed).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after the configured retries', async () => {
+      const client = echoClient();
+      client.embed.mockRejectedValue(new EmbeddingRequestError('HTTP 429', true, 0));
+
+      await expect(
+        embedInBatches(client, ['a'], 'query', { batchSize: 1, maxRetries: 2, retryDelayMs: 1 }),
+      ).rejects.toThrow('HTTP 429');
+      expect(client.embed).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry final failures or short responses', async () => {
+      const client = echoClient();
+      client.embed.mockRejectedValueOnce(new EmbeddingRequestError('HTTP 401', false));
+
+      await expect(embedInBatches(client, ['a'], 'query', { batchSize: 1, maxRetries: 3 })).rejects.toThrow('HTTP 401');
+      expect(client.embed).toHaveBeenCalledTimes(1);
+
+      client.embed.mockResolvedValueOnce([]);
+      await expect(embedInBatches(client, ['a'], 'query', { batchSize: 1, maxRetries: 3 }))
+        .rejects.toThrow('returned 0 embeddings for 1 inputs');
+    });
+
+    it('should take a rate limit slot for every request', async () => {
+      const limiter = new RateLimiter(10);
+      const acquire = jest.spyOn(limiter, 'acquire');
+
+      await embedInBatches(echoClient(), ['a', 'b', 'c'], 'document', { batchSize: 1, maxRetries: 0, limiter });
+
+      expect(acquire).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  // ==================== RateLimiter ====================
+
+  describe('RateLimiter', () => {
+    it('should wait for the window once the quota is used', async () => {
+      const limiter = new RateLimiter(2, 50);
+      const start = Date.now();
+
+      await limiter.acquire();
+      await limiter.acquire();
+      expect(Date.now() - start).toBeLessThan(40);
+
+      await limiter.acquire();
+      expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+    });
+  });
+
+  // ==================== Endpoint checks ====================
+
+  describe('isInternalAddress', () => {
+    it('should flag loopback, metadata, private and mapped addresses', () => {
+      for (const address of ['127.0.0.1', '169.254.169.254', '10.1.2.3', '172.20.0.1', '192.168.1.1', '::1', 'fd00::1', 'fe80::1', '::ffff:169.254.169.254', '::ffff:a9fe:a9fe']) {
+        expect(isInternalAddress(address)).toBe(true);
+      }
+    });
+
+    it('should let public addresses through', () => {
+      for (const address of ['8.8.8.8', '172.32.0.1', '2606:4700:4700::1111']) {
+        expect(isInternalAddress(address)).toBe(false);
+      }
+    });
+  });
+
+  describe('assertAllowedEndpoint', () => {
+    it('should refuse internal hosts unless they are allow-listed', async () => {
+      await expect(assertAllowedEndpoint('http://169.254.169.254/latest', [])).rejects.toThrow(EmbeddingRequestError);
+      await expect(assertAllowedEndpoint('http://[::ffff:7f00:1]:8000/v1', [])).rejects.toThrow('internal address');
+      await expect(assertAllowedEndpoint(baseUrl, ['127.0.0.1'])).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import axios from 'axios';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+export type EmbeddingProviderType = 'openai_compatible' | 'openai' | 'cohere' | 'huggingface';
+
+/** Cohere embeds queries and stored documents differently */
+export type EmbeddingInputType = 'query' | 'document';
+
+export interface EmbeddingClientConfig {
+  type: EmbeddingProviderType;
+  model: string;
+  /** Required for openai_compatible, overrides the public endpoint otherwise */
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface EmbeddingClient {
+  embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]>;
+}
+
+export interface EmbeddingBatchOptions {
+  batchSize: number;
+  maxRetries: number;
+  limiter?: RateLimiter;
+  /** Base delay of the exponential backoff, doubled on every attempt */
+  retryDelayMs?: number;
+}
+
+/**
+ * Embedding request failure. Network errors, 429 and 5xx responses are
+ * worth retrying; anything else (bad key, unknown model) is not.
+ */
+export class EmbeddingRequestError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+  }
+}
+
+export const PUBLIC_BASE_URLS: Record<Exclude<EmbeddingProviderType, 'openai_compatible'>, string> = {
+  openai: 'https://api.openai.com/v1',
+  cohere: 'https://api.cohere.ai/v1',
+  huggingface: 'https://api-inference.huggingface.co',
+};
+
+const REQUEST_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRY_DELAY_MS = 1_000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+// Loopback, link-local (cloud metadata), private and shared address space
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10]] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Sliding-window limiter shared by every caller of a provider, so a
+ * backfill and interactive searches together stay under the quota.
+ */
+export class RateLimiter {
+  private readonly sentAt: number[] = [];
+
+  constructor(
+    private readonly maxRequests: number,
+    private readonly windowMs = 60_000,
+  ) {}
+
+  async acquire(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      while (this.sentAt.length && this.sentAt[0] <= now - this.windowMs) {
+        this.sentAt.shift();
+      }
+      if (this.sentAt.length < this.maxRequests) {
+        this.sentAt.push(now);
+        return;
+      }
+      await sleep(this.sentAt[0] + this.windowMs - now);
+    }
+  }
+}
+
+function parseRetryAfter(header: unknown): number | undefined {
+  if (typeof header !== 'string' || !header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function toRequestError(error: any): EmbeddingRequestError {
+  if (error instanceof EmbeddingRequestError) return error;
+  const status: number | undefined = error.response?.status;
+  if (status === undefined) {
+    return new EmbeddingRequestError(error.message, true);
+  }
+  const data = error.response.data;
+  const detail = (typeof data === 'string' ? data : JSON.stringify(data ?? '')).slice(0, 200);
+  return new EmbeddingRequestError(
+    `HTTP ${status}${detail ? `: ${detail}` : ''}`,
+    status === 429 || status >= 500,
+    parseRetryAfter(error.response.headers?.['retry-after']),
+  );
+}
+
+async function post(url: string, body: unknown, apiKey?: string): Promise<any> {
+  try {
+    const response = await axios.post(url, body, {
+      timeout: REQUEST_TIMEOUT_MS,
+      // A redirect could lead past the endpoint check
+      maxRedirects: 0,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+    });
+    return response.data;
+  } catch (error: any) {
+    throw toRequestError(error);
+  }
+}
+
+export function isInternalAddress(address: string): boolean {
+  // IPv4-mapped IPv6, e.g. ::ffff:169.254.169.254 or ::ffff:a9fe:a9fe
+  const mapped = /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i.exec(address);
+  if (mapped) {
+    const [high, low] = [parseInt(mapped[2], 16), parseInt(mapped[3], 16)];
+    address = mapped[1] ?? [high >> 8, high & 255, low >> 8, low & 255].join('.');
+  }
+  const family = isIP(address);
+  return family !== 0 && INTERNAL_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Refuse base URLs that reach internal addresses, so a provider cannot be
+ * used to call cloud metadata or services next to the control plane.
+ * Self-hosted models on a private network need their host allow-listed
+ * in the `allowListSetting` environment variable.
+ */
+export async function assertAllowedEndpoint(
+  baseUrl: string,
+  allowedHosts: string[],
+  allowListSetting = 'EMBEDDING_PROVIDER_ALLOWED_HOSTS',
+): Promise<void> {
+  const host = new URL(baseUrl).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (allowedHosts.includes(host)) return;
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(({ address }) => address);
+  } catch (error: any) {
+    throw new EmbeddingRequestError(`Could not resolve ${host}: ${error.message}`, true);
+  }
+  if (addresses.some(isInternalAddress)) {
+    throw new EmbeddingRequestError(
+      `${host} is an internal address; it must be in ${allowListSetting} to be used`,
+      false,
+    );
+  }
+}
+
+function invalidResponse(): EmbeddingRequestError {
+  return new EmbeddingRequestError('Unexpected response from embedding provider', false);
+}
+
+/**
+ * `POST {baseUrl}/embeddings` as served by OpenAI, vLLM, Ollama, TEI and
+ * LiteLLM. Results carry their input index and are not guaranteed to be
+ * in order.
+ */
+class OpenAICompatibleClient implements EmbeddingClient {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    private readonly apiKey?: string,
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const data = await post(`${this.baseUrl}/embeddings`, { input: texts, model: this.model }, this.apiKey);
+    if (!Array.isArray(data?.data)) throw invalidResponse();
+
+    return [...data.data]
+      .sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0))
+      .map((item: any) => item.embedding);
+  }
+}
+
+class CohereClient implements EmbeddingClient {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    private readonly apiKey?: string,
+  ) {}
+
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const data = await post(
+      `${this.baseUrl}/embed`,
+      {
+        texts,
+        model: this.model,
+        input_type: inputType === 'query' ? 'search_query' : 'search_document',
+      },
+      this.apiKey,
+    );
+    if (!Array.isArray(data?.embeddings)) throw invalidResponse();
+    return data.embeddings;
+  }
+}
+
+class HuggingFaceClient implements EmbeddingClient {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    private readonly apiKey?: string,
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const data = await post(
+      `${this.baseUrl}/pipeline/feature-extraction/${this.model}`,
+      { inputs: texts },
+      this.apiKey,
+    );
+    if (!Array.isArray(data)) throw invalidResponse();
+    // A single input may come back as a bare vector
+    return Array.isArray(data[0]) ? data : [data];
+  }
+}
+
+export function createEmbeddingClient(config: EmbeddingClientConfig): EmbeddingClient {
+  const baseUrl = (config.baseUrl || (config.type !== 'openai_compatible' ? PUBLIC_BASE_URLS[config.type] : ''))
+    .replace(/\/+$/, '');
+
+  switch (config.type) {
+    case 'openai_compatible':
+      if (!baseUrl) {
+        throw new EmbeddingRequestError('OpenAI-compatible providers require a base URL', false);
+      }
+      return new OpenAICompatibleClient(baseUrl, config.model, config.apiKey);
+    case 'openai':
+      return new OpenAICompatibleClient(baseUrl, config.model, config.apiKey);
+    case 'cohere':
+      return new CohereClient(baseUrl, config.model, config.apiKey);
+    case 'huggingface':
+      return new HuggingFaceClient(baseUrl, config.model, config.apiKey);
+    default:
+      throw new EmbeddingRequestError(`Embedding provider ${config.type} is not supported`, false);
+  }
+}
+
+async function embedBatch(
+  client: EmbeddingClient,
+  texts: string[],
+  inputType: EmbeddingInputType,
+  options: EmbeddingBatchOptions,
+): Promise<number[][]> {
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    await options.limiter?.acquire();
+    try {
+      const vectors = await client.embed(texts, inputType);
+      if (vectors.length !== texts.length) {
+        throw new EmbeddingRequestError(
+          `Provider returned ${vectors.length} embeddings for ${texts.length} inputs`,
+          false,
+        );
+      }
+      return vectors;
+    } catch (error: any) {
+      const failure = toRequestError(error);
+      if (!failure.retryable || attempt >= options.maxRetries) {
+        throw failure;
+      }
+      await sleep(Math.min(MAX_RETRY_DELAY_MS, failure.retryAfterMs ?? retryDelayMs * 2 ** attempt));
+    }
+  }
+}
+
+/**
+ * Embed texts in provider-sized batches, retrying throttled and failed
+ * batches with backoff. Vectors come back in input order.
+ */
+export async function embedInBatches(
+  client: EmbeddingClient,
+  texts: string[],
+  inputType: EmbeddingInputType,
+  options: EmbeddingBatchOptions,
+): Promise<number[][]> {
+  const batchSize = Math.max(1, options.batchSize);
+  const vectors: number[][] = [];
+
+  for (let offset = 0; offset < texts.length; offset += batchSize) {
+    vectors.push(...(await embedBatch(client, texts.slice(offset, offset + batchSize), inputType, options)));
+  }
+  return vectors;
+}
@@ -0,0 +1,64 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { EmbeddingProviderType } from '../embedding-providers';
+
+export type EmbeddingProviderDocument = EmbeddingProvider & Document;
+
+@Schema({
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform: (_: any, ret: any) => {
+      ret.id = ret._id.toString();
+      ret.hasApiKey = !!ret.apiKeyEncrypted;
+      delete ret._id;
+      delete ret.__v;
+      delete ret.apiKeyEncrypted;
+      return ret;
+    },
+  },
+})
+export class EmbeddingProvider {
+  id: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Organization', required: true, index: true })
+  orgId: Types.ObjectId;
+
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ required: true, enum: ['openai_compatible', 'openai', 'cohere', 'huggingface'] })
+  type: EmbeddingProviderType;
+
+  // e.g. http://vllm.internal:8000/v1 - the public endpoint of the type when unset
+  @Prop()
+  baseUrl?: string;
+
+  @Prop({ required: true })
+  model: string;
+
+  // Length of the vectors the model produces
+  @Prop({ required: true })
+  dimensions: number;
+
+  // Encrypted with CredentialsService, never returned by the API
+  @Prop()
+  apiKeyEncrypted?: string;
+
+  // Inputs per request
+  @Prop({ default: 32 })
+  batchSize: number;
+
+  @Prop({ default: 600 })
+  maxRequestsPerMinute: number;
+
+  @Prop({ default: 3 })
+  maxRetries: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+}
+
+export const EmbeddingProviderSchema = SchemaFactory.createForClass(EmbeddingProvider);
+
+EmbeddingProviderSchema.index({ orgId: 1, name: 1 }, { unique: true });
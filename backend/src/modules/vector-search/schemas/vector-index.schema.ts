@@ -30,6 +30,35 @@ export class FilterField {
   type: string;
 }
 
+/**
+ * Embeddings generated by the platform: the text in `sourceField` is
+ * embedded with the index's provider and written to `path`.
+ */
+export interface AutoEmbedSettings {
+  enabled: boolean;
+  sourceField: string;
+  path: string;
+  // Change stream position as EJSON
+  resumeToken?: string;
+  backfill: {
+    processed: number;
+    total?: number;
+    // _id of the last backfilled document
+    lastId?: unknown;
+    startedAt?: Date;
+    completedAt?: Date;
+    retryAt?: Date;
+  };
+  // _ids the change stream failed to embed, retried by the backfill
+  retryIds?: unknown[];
+  embeddedCount: number;
+  errorCount: number;
+  lagMs: number;
+  lastEmbeddedAt?: Date;
+  lastError?: string;
+  lastErrorAt?: Date;
+}
+
 @Schema({ timestamps: true })
 export class VectorIndex {
   @Prop({ type: Types.ObjectId, ref: 'Cluster', required: true, index: true })
@@ -71,6 +100,13 @@ export class VectorIndex {
   @Prop({ type: [String] })
   textFields: string[];
 
+  // Org embedding provider that produces the vectors of this index
+  @Prop({ type: Types.ObjectId, ref: 'EmbeddingProvider' })
+  embeddingProviderId?: Types.ObjectId;
+
+  @Prop({ type: Object })
+  autoEmbed?: AutoEmbedSettings;
+
   // Custom analyzer configuration
   @Prop({ type: Object })
   analyzer?: {
@@ -7,15 +7,13 @@ import {
   Param,
   Query,
   UseGuards,
-  NotFoundException,
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { JwtAuthGuard } from '../../common/guards/auth.guard';
+import { ProjectAccessGuard } from '../../common/guards/project-access.guard';
+import { CurrentProjectAccess, RequireProjectRole } from '../../common/decorators/project-access.decorator';
 import { CurrentUser, CurrentUserData } from '../../common/decorators/current-user.decorator';
 import { VectorSearchService } from './vector-search.service';
-import { ClustersService } from '../clusters/clusters.service';
-import { ProjectsService } from '../projects/projects.service';
-import { OrgsService } from '../orgs/orgs.service';
 import {
   CreateVectorIndexDto,
   VectorSearchQueryDto,
@@ -25,48 +23,22 @@ import {
 
 @ApiTags('Vector Search')
 @ApiBearerAuth()
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
 @Controller('projects/:projectId/clusters/:clusterId/vector-search')
 export class VectorSearchController {
   constructor(
     private readonly vectorSearchService: VectorSearchService,
-    private readonly clustersService: ClustersService,
-    private readonly projectsService: ProjectsService,
-    private readonly orgsService: OrgsService,
   ) {}
 
-  private async verifyAccess(
-    userId: string,
-    projectId: string,
-    clusterId: string,
-    roles?: string[],
-  ): Promise<string> {
-    const orgId = await this.projectsService.getOrgIdForProject(projectId);
-    if (!orgId) {
-      throw new NotFoundException('Project not found');
-    }
-
-    await this.orgsService.checkAccess(orgId, userId, (roles || ['OWNER', 'ADMIN', 'MEMBER']) as any);
-
-    const cluster = await this.clustersService.findById(clusterId);
-    if (!cluster || cluster.projectId.toString() !== projectId) {
-      throw new NotFoundException('Cluster not found');
-    }
-
-    return orgId;
-  }
-
   // ==================== Index Management ====================
 
   @Get('indexes')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'List vector search indexes' })
   async listIndexes(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const indexes = await this.vectorSearchService.findAllByCluster(clusterId);
 
     return {
@@ -81,6 +53,8 @@ export class VectorSearchController {
         vectorFields: idx.vectorFields,
         filterFields: idx.filterFields,
         textFields: idx.textFields,
+        embeddingProviderId: idx.embeddingProviderId,
+        autoEmbed: idx.autoEmbed,
         documentCount: idx.documentCount,
         indexSizeBytes: idx.indexSizeBytes,
         createdAt: (idx as any).createdAt,
@@ -92,12 +66,11 @@ export class VectorSearchController {
   @ApiOperation({ summary: 'Create vector search index' })
   async createIndex(
     @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Body() createDto: CreateVectorIndexDto,
   ) {
-    const orgId = await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
     const index = await this.vectorSearchService.createIndex(
       clusterId,
       projectId,
@@ -118,16 +91,14 @@ export class VectorSearchController {
   }
 
   @Get('indexes/:indexId')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Get vector index details' })
   async getIndex(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('indexId') indexId: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
-    const index = await this.vectorSearchService.findById(indexId);
+    const index = await this.vectorSearchService.findById(clusterId, indexId);
 
     return {
       success: true,
@@ -138,14 +109,11 @@ export class VectorSearchController {
   @Delete('indexes/:indexId')
   @ApiOperation({ summary: 'Delete vector index' })
   async deleteIndex(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('indexId') indexId: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
-    await this.vectorSearchService.delete(indexId);
+    await this.vectorSearchService.delete(clusterId, indexId);
 
     return { success: true, message: 'Vector index deletion initiated' };
   }
@@ -153,14 +121,11 @@ export class VectorSearchController {
   @Post('indexes/:indexId/rebuild')
   @ApiOperation({ summary: 'Rebuild vector index' })
   async rebuildIndex(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('indexId') indexId: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
-    const index = await this.vectorSearchService.rebuildIndex(indexId);
+    const index = await this.vectorSearchService.rebuildIndex(clusterId, indexId);
 
     return {
       success: true,
@@ -169,17 +134,30 @@ export class VectorSearchController {
     };
   }
 
+  @Post('indexes/:indexId/auto-embed/backfill')
+  @ApiOperation({ summary: 'Embed all existing documents of an auto-embed index again' })
+  async restartAutoEmbedBackfill(
+    @Param('projectId') projectId: string,
+    @Param('clusterId') clusterId: string,
+    @Param('indexId') indexId: string,
+  ) {
+    const index = await this.vectorSearchService.restartAutoEmbedBackfill(clusterId, indexId);
+
+    return {
+      success: true,
+      data: { id: (index as any)._id, autoEmbed: index.autoEmbed },
+      message: 'Auto-embed backfill restarted',
+    };
+  }
+
   @Post('indexes/:indexId/sync')
   @ApiOperation({ summary: 'Bulk sync MongoDB data to Qdrant vector index' })
   async syncIndex(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Param('indexId') indexId: string,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId, ['OWNER', 'ADMIN']);
-
-    const result = await this.vectorSearchService.syncIndex(indexId);
+    const result = await this.vectorSearchService.syncIndex(clusterId, indexId);
 
     return {
       success: true,
@@ -191,12 +169,12 @@ export class VectorSearchController {
   // ==================== Search Operations ====================
 
   @Post('search')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Execute vector search' })
   @ApiQuery({ name: 'index', required: true, description: 'Index name' })
   @ApiQuery({ name: 'database', required: true })
   @ApiQuery({ name: 'collection', required: true })
   async vectorSearch(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Query('index') indexName: string,
@@ -204,8 +182,6 @@ export class VectorSearchController {
     @Query('collection') collection: string,
     @Body() queryDto: VectorSearchQueryDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const results = await this.vectorSearchService.vectorSearch(
       clusterId,
       indexName,
@@ -224,12 +200,13 @@ export class VectorSearchController {
   }
 
   @Post('semantic-search')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Execute semantic search (text-to-vector)' })
   @ApiQuery({ name: 'index', required: true })
   @ApiQuery({ name: 'database', required: true })
   @ApiQuery({ name: 'collection', required: true })
   async semanticSearch(
-    @CurrentUser() user: CurrentUserData,
+    @CurrentProjectAccess('orgId') orgId: string,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Query('index') indexName: string,
@@ -237,10 +214,9 @@ export class VectorSearchController {
     @Query('collection') collection: string,
     @Body() searchDto: SemanticSearchDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const results = await this.vectorSearchService.semanticSearch(
       clusterId,
+      orgId,
       indexName,
       database,
       collection,
@@ -258,12 +234,12 @@ export class VectorSearchController {
   }
 
   @Post('hybrid-search')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Execute hybrid search (vector + text)' })
   @ApiQuery({ name: 'index', required: true })
   @ApiQuery({ name: 'database', required: true })
   @ApiQuery({ name: 'collection', required: true })
   async hybridSearch(
-    @CurrentUser() user: CurrentUserData,
     @Param('projectId') projectId: string,
     @Param('clusterId') clusterId: string,
     @Query('index') indexName: string,
@@ -271,8 +247,6 @@ export class VectorSearchController {
     @Query('collection') collection: string,
     @Body() searchDto: HybridSearchDto,
   ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
     const results = await this.vectorSearchService.hybridSearch(
       clusterId,
       indexName,
@@ -294,14 +268,9 @@ export class VectorSearchController {
   // ==================== Configuration ====================
 
   @Get('analyzers')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Get available text analyzers' })
-  async getAnalyzers(
-    @CurrentUser() user: CurrentUserData,
-    @Param('projectId') projectId: string,
-    @Param('clusterId') clusterId: string,
-  ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
+  async getAnalyzers() {
     return {
       success: true,
       data: this.vectorSearchService.getAvailableAnalyzers(),
@@ -309,14 +278,9 @@ export class VectorSearchController {
   }
 
   @Get('embedding-models')
+  @RequireProjectRole('PROJECT_DATA_ACCESS_READ_WRITE')
   @ApiOperation({ summary: 'Get supported embedding models' })
-  async getEmbeddingModels(
-    @CurrentUser() user: CurrentUserData,
-    @Param('projectId') projectId: string,
-    @Param('clusterId') clusterId: string,
-  ) {
-    await this.verifyAccess(user.userId, projectId, clusterId);
-
+  async getEmbeddingModels() {
     return {
       success: true,
       data: this.vectorSearchService.getEmbeddingModels(),
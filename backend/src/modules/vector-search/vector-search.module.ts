@@ -3,26 +3,33 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { VectorSearchController } from './vector-search.controller';
 import { VectorSearchService } from './vector-search.service';
 import { VectorSyncService } from './vector-sync.service';
+import { EmbeddingProvidersController } from './embedding-providers.controller';
+import { EmbeddingProvidersService } from './embedding-providers.service';
+import { AutoEmbedService } from './auto-embed.service';
 import { VectorIndex, VectorIndexSchema } from './schemas/vector-index.schema';
+import { EmbeddingProvider, EmbeddingProviderSchema } from './schemas/embedding-provider.schema';
 import { ClustersModule } from '../clusters/clusters.module';
 import { ProjectsModule } from '../projects/projects.module';
 import { OrgsModule } from '../orgs/orgs.module';
 import { EventsModule } from '../events/events.module';
 import { DataExplorerModule } from '../data-explorer/data-explorer.module';
+import { CredentialsModule } from '../credentials/credentials.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: VectorIndex.name, schema: VectorIndexSchema },
+      { name: EmbeddingProvider.name, schema: EmbeddingProviderSchema },
     ]),
     ClustersModule,
     ProjectsModule,
     OrgsModule,
     EventsModule,
+    CredentialsModule,
     forwardRef(() => DataExplorerModule),
   ],
-  controllers: [VectorSearchController],
-  providers: [VectorSearchService, VectorSyncService],
-  exports: [VectorSearchService, VectorSyncService],
+  controllers: [VectorSearchController, EmbeddingProvidersController],
+  providers: [VectorSearchService, VectorSyncService, EmbeddingProvidersService, AutoEmbedService],
+  exports: [VectorSearchService, VectorSyncService, EmbeddingProvidersService],
 })
 export class VectorSearchModule {}
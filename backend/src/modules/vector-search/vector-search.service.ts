@@ -14,6 +14,9 @@ import { ClustersService } from '../clusters/clusters.service';
 import { EventsService } from '../events/events.service';
 import { DataExplorerService } from '../data-explorer/data-explorer.service';
 import { VectorSyncService } from './vector-sync.service';
+import { EmbeddingProvidersService } from './embedding-providers.service';
+import { AutoEmbedService } from './auto-embed.service';
+import { createEmbeddingClient, EmbeddingProviderType } from './embedding-providers';
 
 // Pre-defined analyzers
 const BUILT_IN_ANALYZERS = {
@@ -53,6 +56,8 @@ export class VectorSearchService {
     private readonly eventsService: EventsService,
     private readonly dataExplorerService: DataExplorerService,
     private readonly vectorSyncService: VectorSyncService,
+    private readonly embeddingProvidersService: EmbeddingProvidersService,
+    private readonly autoEmbedService: AutoEmbedService,
   ) {}
 
   // ==================== Index Management ====================
@@ -83,17 +88,63 @@ export class VectorSearchService {
       }
     }
 
+    // The provider has to produce vectors that fit every vector field
+    if (createDto.embeddingProviderId) {
+      const provider = await this.embeddingProvidersService.findById(orgId, createDto.embeddingProviderId);
+      const mismatch = createDto.vectorFields.find((field) => field.dimensions !== provider.dimensions);
+      if (mismatch) {
+        throw new BadRequestException({
+          code: 'EMBEDDING_DIMENSION_MISMATCH',
+          message: `Embedding provider "${provider.name}" produces ${provider.dimensions}-dimensional vectors, field "${mismatch.path}" has ${mismatch.dimensions}`,
+        });
+      }
+    }
+
+    const autoEmbedPath = createDto.autoEmbed?.path || createDto.vectorFields[0].path;
+    if (createDto.autoEmbed) {
+      if (!createDto.embeddingProviderId) {
+        throw new BadRequestException({
+          code: 'EMBEDDING_PROVIDER_REQUIRED',
+          message: 'Auto-embed requires an embedding provider',
+        });
+      }
+      if (!createDto.vectorFields.some((field) => field.path === autoEmbedPath)) {
+        throw new BadRequestException({
+          code: 'INVALID_AUTO_EMBED_PATH',
+          message: `Auto-embed path "${autoEmbedPath}" is not a vector field of the index`,
+        });
+      }
+    }
+
     const index = new this.vectorIndexModel({
       clusterId: new Types.ObjectId(clusterId),
       projectId: new Types.ObjectId(projectId),
       orgId: new Types.ObjectId(orgId),
       createdBy: new Types.ObjectId(userId),
       ...createDto,
+      embeddingProviderId: createDto.embeddingProviderId
+        ? new Types.ObjectId(createDto.embeddingProviderId)
+        : undefined,
+      autoEmbed: createDto.autoEmbed
+        ? {
+          enabled: true,
+          sourceField: createDto.autoEmbed.sourceField,
+          path: autoEmbedPath,
+          backfill: { processed: 0 },
+          embeddedCount: 0,
+          errorCount: 0,
+          lagMs: 0,
+        }
+        : undefined,
       status: 'pending',
     });
 
     await index.save();
 
+    if (index.autoEmbed) {
+      this.autoEmbedService.start(index._id.toString());
+    }
+
     // Log event
     await this.eventsService.createEvent({
       orgId,
@@ -248,21 +299,25 @@ export class VectorSearchService {
     }).sort({ createdAt: -1 }).exec();
   }
 
-  async findById(indexId: string): Promise<VectorIndex> {
-    const index = await this.vectorIndexModel.findById(indexId).exec();
+  /** Indexes are addressed through their cluster's route, so other clusters' IDs are not found */
+  async findById(clusterId: string, indexId: string): Promise<VectorIndex> {
+    const index = Types.ObjectId.isValid(indexId)
+      ? await this.vectorIndexModel.findOne({ _id: indexId, clusterId: new Types.ObjectId(clusterId) }).exec()
+      : null;
     if (!index) {
       throw new NotFoundException('Vector index not found');
     }
     return index;
   }
 
-  async delete(indexId: string): Promise<void> {
-    const index = await this.findById(indexId);
+  async delete(clusterId: string, indexId: string): Promise<void> {
+    const index = await this.findById(clusterId, indexId);
 
     await this.vectorIndexModel.updateOne(
       { _id: indexId },
       { status: 'deleting' },
     ).exec();
+    this.autoEmbedService.stop(indexId);
 
     const cluster = await this.clustersService.findById(index.clusterId.toString());
     if (cluster?.vectorSearchEnabled && !cluster.vectorDbHost) {
@@ -294,8 +349,8 @@ export class VectorSearchService {
     });
   }
 
-  async rebuildIndex(indexId: string): Promise<VectorIndex> {
-    const index = await this.findById(indexId);
+  async rebuildIndex(clusterId: string, indexId: string): Promise<VectorIndex> {
+    const index = await this.findById(clusterId, indexId);
 
     if (index.status === 'building') {
       throw new BadRequestException('Index is already building');
@@ -327,13 +382,26 @@ export class VectorSearchService {
 
     this.buildIndexAsync(indexId);
 
-    return this.findById(indexId);
+    return this.findById(clusterId, indexId);
+  }
+
+  async restartAutoEmbedBackfill(clusterId: string, indexId: string): Promise<VectorIndex> {
+    const index = await this.findById(clusterId, indexId);
+    if (!index.autoEmbed?.enabled) {
+      throw new BadRequestException({
+        code: 'AUTO_EMBED_DISABLED',
+        message: 'Auto-embed is not enabled for this index',
+      });
+    }
+
+    await this.autoEmbedService.restartBackfill(indexId);
+    return this.findById(clusterId, indexId);
   }
 
   // ==================== Bulk Sync Endpoint ====================
 
-  async syncIndex(indexId: string): Promise<{ synced: number; errors: number }> {
-    const index = await this.findById(indexId);
+  async syncIndex(clusterId: string, indexId: string): Promise<{ synced: number; errors: number }> {
+    const index = await this.findById(clusterId, indexId);
     if (index.status !== 'ready') {
       throw new BadRequestException('Index must be in ready state to sync');
     }
@@ -657,43 +725,74 @@ export class VectorSearchService {
 
   async semanticSearch(
     clusterId: string,
+    orgId: string,
     indexName: string,
     database: string,
     collection: string,
     searchDto: SemanticSearchDto,
   ): Promise<any[]> {
-    // Generate embedding from query text using the configured provider
-    const embeddingDimensions = EMBEDDING_DIMENSIONS[searchDto.model || 'text-embedding-3-small'] || 1536;
+    const path = searchDto.path || 'embedding';
+    const index = await this.vectorIndexModel.findOne({
+      clusterId: new Types.ObjectId(clusterId),
+      database,
+      collection,
+      name: indexName,
+    }).exec();
+
+    const providerId = searchDto.embeddingProviderId ?? index?.embeddingProviderId?.toString();
     let embedding: number[];
 
-    const apiKey = this.getEmbeddingApiKey(searchDto.embeddingProvider);
-    if (apiKey) {
-      try {
-        embedding = await this.generateEmbedding(
-          searchDto.query,
-          searchDto.embeddingProvider || 'openai',
-          searchDto.model || 'text-embedding-3-small',
-          apiKey,
-        );
-      } catch (err: any) {
-        this.logger.warn(`Embedding API call failed: ${err.message}. Using random embedding for testing.`);
-        embedding = Array.from({ length: embeddingDimensions }, () => Math.random() * 2 - 1);
+    if (providerId) {
+      // Org providers never fall back: the query text must not leave the configured endpoint
+      const provider = await this.embeddingProvidersService.findById(orgId, providerId);
+      const vectorField = index?.vectorFields.find((f) => f.path === path);
+      if (vectorField && vectorField.dimensions !== provider.dimensions) {
+        throw new BadRequestException({
+          code: 'EMBEDDING_DIMENSION_MISMATCH',
+          message: `Embedding provider "${provider.name}" produces ${provider.dimensions}-dimensional vectors, field "${path}" has ${vectorField.dimensions}`,
+        });
       }
+
+      [embedding] = await this.embeddingProvidersService.embed(provider, [searchDto.query], 'query');
+      this.logger.log(`Semantic search: "${searchDto.query}" using provider ${provider.name} (dim=${embedding.length})`);
     } else {
-      this.logger.warn(`No API key for ${searchDto.embeddingProvider || 'openai'}. Using random embedding for testing.`);
-      embedding = Array.from({ length: embeddingDimensions }, () => Math.random() * 2 - 1);
+      embedding = await this.generateLegacyEmbedding(searchDto);
+      this.logger.log(`Semantic search: "${searchDto.query}" using ${searchDto.embeddingProvider || 'openai'} (dim=${embedding.length})`);
     }
 
-    this.logger.log(`Semantic search: "${searchDto.query}" using ${searchDto.embeddingProvider || 'openai'} (dim=${embedding.length})`);
-
     return this.vectorSearch(clusterId, indexName, database, collection, {
       vector: embedding,
-      path: searchDto.path || 'embedding',
+      path,
       limit: searchDto.limit || 10,
       filter: searchDto.filter,
     });
   }
 
+  /**
+   * Embed the query with the public provider keys from the environment.
+   * Without a key, or when the call fails, a random vector keeps the
+   * search path testable.
+   */
+  private async generateLegacyEmbedding(searchDto: SemanticSearchDto): Promise<number[]> {
+    const provider = (searchDto.embeddingProvider || 'openai') as EmbeddingProviderType;
+    const model = searchDto.model || 'text-embedding-3-small';
+    const embeddingDimensions = EMBEDDING_DIMENSIONS[model] || 1536;
+
+    const apiKey = this.getEmbeddingApiKey(provider);
+    if (!apiKey) {
+      this.logger.warn(`No API key for ${provider}. Using random embedding for testing.`);
+      return Array.from({ length: embeddingDimensions }, () => Math.random() * 2 - 1);
+    }
+
+    try {
+      const [embedding] = await createEmbeddingClient({ type: provider, model, apiKey }).embed([searchDto.query], 'query');
+      return embedding;
+    } catch (err: any) {
+      this.logger.warn(`Embedding API call failed: ${err.message}. Using random embedding for testing.`);
+      return Array.from({ length: embeddingDimensions }, () => Math.random() * 2 - 1);
+    }
+  }
+
   /**
    * Get API key for embedding provider from environment configuration.
    */
@@ -709,70 +808,6 @@ export class VectorSearchService {
     }
   }
 
-  /**
-   * Generate embedding vector from text using external API.
-   */
-  private async generateEmbedding(
-    text: string,
-    provider: string,
-    model: string,
-    apiKey: string,
-  ): Promise<number[]> {
-    if (provider === 'openai' || !provider) {
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          input: text,
-          model,
-        }),
-      });
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-      }
-      const data = await response.json();
-      return data.data[0].embedding;
-    }
-
-    if (provider === 'cohere') {
-      const response = await fetch('https://api.cohere.ai/v1/embed', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          texts: [text],
-          model,
-          input_type: 'search_query',
-        }),
-      });
-      if (!response.ok) {
-        throw new Error(`Cohere API error: ${response.status} ${response.statusText}`);
-      }
-      const data = await response.json();
-      return data.embeddings[0];
-    }
-
-    // HuggingFace Inference API
-    const response = await fetch(`https://api-inference.huggingface.co/pipeline/feature-extraction/${model}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({ inputs: text }),
-    });
-    if (!response.ok) {
-      throw new Error(`HuggingFace API error: ${response.status} ${response.statusText}`);
-    }
-    const data = await response.json();
-    return Array.isArray(data[0]) ? data[0] : data;
-  }
-
   // ==================== Hybrid Search ====================
 
   async hybridSearch(
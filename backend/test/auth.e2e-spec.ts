@@ -3,6 +3,7 @@ import { INestApplication, ValidationPipe } from '@nestjs/common';
 import request from 'supertest';
 import { AppModule } from '../src/app.module';
 import { ThrottlerGuard } from '@nestjs/throttler';
+import { generateTotp, totpStep } from '../src/modules/auth/totp';
 
 describe('AuthController (e2e)', () => {
   let app: INestApplication;
@@ -204,4 +205,199 @@ describe('AuthController (e2e)', () => {
         .expect(401);
     });
   });
+
+  // ==================== MFA ====================
+
+  describe('MFA', () => {
+    const mfaEmail = `test-mfa-${Date.now()}@example.com`;
+    let token: string;
+    let secret: string;
+    let recoveryCodes: string[];
+    let challengeToken: string;
+
+    beforeAll(async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/signup')
+        .send({ email: mfaEmail, password, name: 'Test MFA' });
+
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/auth/login')
+        .send({ email: mfaEmail, password });
+      token = res.body.data.accessToken;
+    });
+
+    it('should enroll with a provisioning URI and return recovery codes', async () => {
+      const enroll = await request(app.getHttpServer())
+        .post('/api/v1/auth/mfa/enroll')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      secret = enroll.body.data.secret;
+      expect(enroll.body.data.otpauthUrl).toMatch(/^otpauth:\/\/totp\//);
+
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/auth/mfa/enable')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ code: generateTotp(secret, totpStep(Date.now())) })
+        .expect(200);
+
+      recoveryCodes = res.body.data.recoveryCodes;
+      expect(recoveryCodes).toHaveLength(10);
+    });
+
+    it('should require a second step at login', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/auth/login')
+        .send({ email: mfaEmail, password })
+        .expect(200);
+
+      expect(res.body.data.mfaRequired).toBe(true);
+      expect(res.body.data.accessToken).toBeUndefined();
+      challengeToken = res.body.data.challengeToken;
+    });
+
+    it('should not accept the challenge token as an access token', async () => {
+      await request(app.getHttpServer())
+        .get('/api/v1/orgs')
+        .set('Authorization', `Bearer ${challengeToken}`)
+        .expect(401);
+    });
+
+    it('should reject an invalid code', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login/mfa')
+        .send({ challengeToken, code: '000000' })
+        .expect(401);
+    });
+
+    it('should end a challenge after too many wrong codes', async () => {
+      const login = await request(app.getHttpServer())
+        .post('/api/v1/auth/login')
+        .send({ email: mfaEmail, password })
+        .expect(200);
+      const guessedToken = login.body.data.challengeToken;
+
+      for (let i = 0; i < 5; i++) {
+        await request(app.getHttpServer())
+          .post('/api/v1/auth/login/mfa')
+          .send({ challengeToken: guessedToken, code: '000000' })
+          .expect(401);
+      }
+
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/auth/login/mfa')
+        .send({ challengeToken: guessedToken, recoveryCode: recoveryCodes[1] })
+        .expect(401);
+      expect(res.body.error.code).toBe('MFA_ATTEMPTS_EXCEEDED');
+    });
+
+    it('should complete the login with a recovery code only once', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/auth/login/mfa')
+        .send({ challengeToken, recoveryCode: recoveryCodes[0] })
+        .expect(200);
+
+      expect(res.body.data).toHaveProperty('accessToken');
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/login/mfa')
+        .send({ challengeToken, recoveryCode: recoveryCodes[0] })
+        .expect(401);
+    });
+  });
+
+  // ==================== Sessions ====================
+
+  describe('Sessions', () => {
+    const sessionEmail = `test-sessions-${Date.now()}@example.com`;
+    let first: { accessToken: string; refreshToken: string };
+    let second: { accessToken: string; refreshToken: string };
+
+    const login = async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/auth/login')
+        .send({ email: sessionEmail, password })
+        .expect(200);
+      return res.body.data;
+    };
+
+    beforeAll(async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/signup')
+        .send({ email: sessionEmail, password, name: 'Test Sessions' });
+
+      first = await login();
+      second = await login();
+    });
+
+    it('should rotate the refresh token', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: first.refreshToken })
+        .expect(200);
+
+      expect(res.body.data.refreshToken).not.toBe(first.refreshToken);
+      first = res.body.data;
+    });
+
+    it('should list sessions and mark the current one', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${first.accessToken}`)
+        .expect(200);
+
+      expect(res.body.data).toHaveLength(2);
+      expect(res.body.data.filter((session: any) => session.current)).toHaveLength(1);
+      expect(res.body.data[0].refreshTokenHash).toBeUndefined();
+    });
+
+    it('should sign out other sessions immediately', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/sessions/revoke-others')
+        .set('Authorization', `Bearer ${first.accessToken}`)
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${second.accessToken}`)
+        .expect(401);
+
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: second.refreshToken })
+        .expect(401);
+    });
+
+    it('should revoke the session when a used refresh token is replayed', async () => {
+      const session = await login();
+      const rotated = await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: session.refreshToken })
+        .expect(200);
+
+      // Only the token rotated last gets a grace period for concurrent refreshes
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: rotated.body.data.refreshToken })
+        .expect(200);
+
+      const res = await request(app.getHttpServer())
+        .post('/api/v1/auth/refresh')
+        .send({ refreshToken: session.refreshToken })
+        .expect(401);
+      expect(res.body.error.code).toBe('REFRESH_TOKEN_REUSED');
+    });
+
+    it('should sign out the session on logout', async () => {
+      await request(app.getHttpServer())
+        .post('/api/v1/auth/logout')
+        .set('Authorization', `Bearer ${first.accessToken}`)
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .get('/api/v1/auth/sessions')
+        .set('Authorization', `Bearer ${first.accessToken}`)
+        .expect(401);
+    });
+  });
 });
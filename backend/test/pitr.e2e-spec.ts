@@ -3,6 +3,9 @@ import { INestApplication, ValidationPipe } from '@nestjs/common';
 import request from 'supertest';
 import { AppModule } from '../src/app.module';
 import { ThrottlerGuard } from '@nestjs/throttler';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Backup } from '../src/modules/backups/schemas/backup.schema';
 
 describe('PitrController (e2e)', () => {
   let app: INestApplication;
@@ -164,7 +167,31 @@ describe('PitrController (e2e)', () => {
   describe('POST .../pitr/restore', () => {
     let restoreId: string;
 
+    it('should reject a restore point without a base snapshot', async () => {
+      const res = await request(app.getHttpServer())
+        .post(`${basePath()}/restore`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({
+          restorePointTimestamp: new Date(Date.now() - 3600000).toISOString(),
+        })
+        .expect(400);
+
+      expect(res.body.error.code).toBe('PITR_NO_BASE_SNAPSHOT');
+    });
+
     it('should initiate a point-in-time restore', async () => {
+      // PITR restores start from the latest snapshot before the restore point
+      const backupModel = app.get<Model<Backup>>(getModelToken(Backup.name));
+      await backupModel.create({
+        clusterId: testClusterId,
+        projectId: testProjectId,
+        orgId: testOrgId,
+        name: 'PITR base snapshot',
+        status: 'completed',
+        startedAt: new Date(Date.now() - 3 * 3600000),
+        completedAt: new Date(Date.now() - 2 * 3600000),
+      });
+
       const res = await request(app.getHttpServer())
         .post(`${basePath()}/restore`)
         .set('Authorization', `Bearer ${authToken}`)
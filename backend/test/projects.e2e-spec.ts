@@ -9,6 +9,7 @@ describe('ProjectsController (e2e)', () => {
   let authToken: string;
   let testOrgId: string;
   let testProjectId: string;
+  let userId: string;
 
   beforeAll(async () => {
     const moduleFixture: TestingModule = await Test.createTestingModule({
@@ -44,6 +45,7 @@ describe('ProjectsController (e2e)', () => {
       .send({ email: uniqueEmail, password: 'TestPassword123!' });
 
     authToken = loginRes.body.data.accessToken;
+    userId = loginRes.body.data.user.id;
 
     // Create test organization
     const orgRes = await request(app.getHttpServer())
@@ -161,6 +163,45 @@ describe('ProjectsController (e2e)', () => {
     });
   });
 
+  // ==================== Project Roles ====================
+
+  describe('/projects/:projectId/members', () => {
+    it('should list project role bindings', async () => {
+      const res = await request(app.getHttpServer())
+        .get(`/api/v1/projects/${testProjectId}/members`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(200);
+
+      expect(res.body.success).toBe(true);
+      expect(res.body.data).toEqual([]);
+    });
+
+    it('should refuse project roles for org owners', async () => {
+      const res = await request(app.getHttpServer())
+        .put(`/api/v1/projects/${testProjectId}/members/${userId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ role: 'PROJECT_READ_ONLY' })
+        .expect(400);
+
+      expect(res.body.error.code).toBe('ORG_ADMIN_HAS_FULL_ACCESS');
+    });
+
+    it('should reject unknown project roles', async () => {
+      await request(app.getHttpServer())
+        .put(`/api/v1/projects/${testProjectId}/members/${userId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .send({ role: 'PROJECT_SUPERUSER' })
+        .expect(400);
+    });
+
+    it('should return 404 for a project of another org in the path', async () => {
+      await request(app.getHttpServer())
+        .get(`/api/v1/orgs/000000000000000000000000/projects/${testProjectId}`)
+        .set('Authorization', `Bearer ${authToken}`)
+        .expect(404);
+    });
+  });
+
   // ==================== Delete Project ====================
 
   describe('DELETE /orgs/:orgId/projects/:projectId', () => {
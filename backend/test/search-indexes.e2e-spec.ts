@@ -206,21 +206,22 @@ describe('SearchIndexesController (e2e)', () => {
   // ==================== Test Search Index ====================
 
   describe('POST .../search-indexes/:indexId/test', () => {
-    it('should test search index', async () => {
-      // Wait for index rebuild after PATCH (buildIndex takes 2-5 seconds)
-      const maxRetries = 10;
-      let indexReady = false;
+    it('should refuse to query an index the cluster could not build', async () => {
+      // The test cluster runs without mongot, so the cluster rejects the index
+      const maxRetries = 15;
+      let status: string | undefined;
       for (let i = 0; i < maxRetries; i++) {
         const statusRes = await request(app.getHttpServer())
           .get(`${basePath()}/${testIndexId}`)
           .set('Authorization', `Bearer ${authToken}`);
-        if (statusRes.body.data?.status === 'ready') {
-          indexReady = true;
+        status = statusRes.body.data?.status;
+        if (status === 'failed') {
+          expect(statusRes.body.data.errorMessage).toBeDefined();
           break;
         }
         await new Promise((resolve) => setTimeout(resolve, 1000));
       }
-      expect(indexReady).toBe(true);
+      expect(status).toBe('failed');
 
       const res = await request(app.getHttpServer())
         .post(`${basePath()}/${testIndexId}/test`)
@@ -229,10 +230,10 @@ describe('SearchIndexesController (e2e)', () => {
           query: 'test search query',
           limit: 10,
         })
-        .expect(201);
+        .expect(400);
 
-      expect(res.body.success).toBe(true);
-    });
+      expect(res.body.error.code).toBe('INDEX_NOT_READY');
+    }, 30000);
   });
 
   // ==================== Delete Search Index ====================
@@ -1,4 +1,6 @@
-import { getApiUrl, getToken } from './config';
+import { getApiUrl, getToken, getRefreshToken, setTokens } from './config';
+
+const USER_AGENT = 'eutlas-cli/0.1.0';
 
 interface ApiResponse<T = any> {
   success: boolean;
@@ -13,13 +15,15 @@ class ApiClient {
   private async request<T>(
     method: string,
     path: string,
-    data?: any
+    data?: any,
+    retried = false
   ): Promise<ApiResponse<T>> {
     const url = `${getApiUrl()}${path}`;
     const token = getToken();
 
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
+      'User-Agent': USER_AGENT,
     };
 
     if (token) {
@@ -33,6 +37,11 @@ class ApiClient {
         body: data ? JSON.stringify(data) : undefined,
       });
 
+      // Access tokens are short-lived; renew once with the refresh token
+      if (response.status === 401 && token && !retried && (await this.refreshTokens())) {
+        return this.request<T>(method, path, data, true);
+      }
+
       const json = await response.json();
 
       if (!response.ok) {
@@ -57,6 +66,31 @@ class ApiClient {
     }
   }
 
+  /** Swap the stored refresh token for new tokens; false when the session has ended */
+  private async refreshTokens(): Promise<boolean> {
+    const refreshToken = getRefreshToken();
+    if (!refreshToken) return false;
+
+    try {
+      const response = await fetch(`${getApiUrl()}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'User-Agent': USER_AGENT },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) setTokens(null, null);
+        return false;
+      }
+
+      const json = await response.json();
+      setTokens(json.data.accessToken, json.data.refreshToken);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   async get<T>(path: string): Promise<ApiResponse<T>> {
     return this.request<T>('GET', path);
   }
@@ -78,10 +112,19 @@ class ApiClient {
     return this.post('/auth/login', { email, password });
   }
 
+  /** Second step of a login for accounts with MFA, with the challenge token from login() */
+  async verifyMfaLogin(challengeToken: string, second: { code?: string; recoveryCode?: string }) {
+    return this.post('/auth/login/mfa', { challengeToken, ...second });
+  }
+
   async signup(email: string, password: string, firstName: string, lastName: string) {
     return this.post('/auth/signup', { email, password, firstName, lastName });
   }
 
+  async logout() {
+    return this.post('/auth/logout');
+  }
+
   async getProfile() {
     return this.get('/auth/me');
   }
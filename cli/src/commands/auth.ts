@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import inquirer from 'inquirer';
 import { api } from '../api';
-import { setConfig, clearConfig, getConfig } from '../config';
+import { setTokens, clearConfig, getConfig } from '../config';
 import { success, error, info, spinner, formatOutput } from '../utils';
 
 export function authCommands(program: Command): void {
@@ -13,6 +13,7 @@ export function authCommands(program: Command): void {
     .description('Log in to EUTLAS')
     .option('-e, --email <email>', 'Email address')
     .option('-p, --password <password>', 'Password')
+    .option('-c, --mfa-code <code>', 'Authenticator or recovery code, for accounts with MFA')
     .action(async (options) => {
       let { email, password } = options;
 
@@ -37,7 +38,37 @@ export function authCommands(program: Command): void {
 
       spinner.start('Logging in...');
 
-      const result = await api.login(email, password);
+      let result = await api.login(email, password);
+
+      if (result.success && result.data.mfaRequired) {
+        spinner.stop();
+
+        // Passkeys need a browser, so the CLI can only take codes
+        if (!result.data.mfaMethods?.includes('totp')) {
+          error('Login failed: this account uses a passkey as second factor, which the CLI cannot use. ' +
+            'Set up an authenticator app to log in from the terminal.');
+          process.exit(1);
+        }
+
+        let code: string = options.mfaCode;
+        if (!code) {
+          const answers = await inquirer.prompt([
+            {
+              type: 'password',
+              name: 'code',
+              message: 'Authenticator or recovery code:',
+            },
+          ]);
+          code = answers.code;
+        }
+        code = code.trim();
+
+        spinner.start('Verifying code...');
+        result = await api.verifyMfaLogin(
+          result.data.challengeToken,
+          /^\d{6}$/.test(code) ? { code } : { recoveryCode: code }
+        );
+      }
 
       if (!result.success) {
         spinner.stop();
@@ -45,7 +76,7 @@ export function authCommands(program: Command): void {
         process.exit(1);
       }
 
-      setConfig('token', result.data.accessToken);
+      setTokens(result.data.accessToken, result.data.refreshToken);
       spinner.stop();
       success(`Logged in as ${email}`);
     });
@@ -54,8 +85,12 @@ export function authCommands(program: Command): void {
   auth
     .command('logout')
     .description('Log out of EUTLAS')
-    .action(() => {
-      setConfig('token', null);
+    .action(async () => {
+      if (getConfig('token')) {
+        // Sign out the session on the server too; the local tokens go either way
+        await api.logout();
+      }
+      setTokens(null, null);
       success('Logged out successfully');
     });
 
@@ -112,7 +147,7 @@ export function authCommands(program: Command): void {
         process.exit(1);
       }
 
-      setConfig('token', result.data.accessToken);
+      setTokens(result.data.accessToken, result.data.refreshToken);
       spinner.stop();
       success('Account created successfully!');
       info('You are now logged in.');
@@ -3,6 +3,7 @@ import Conf from 'conf';
 interface ConfigSchema {
   apiUrl: string;
   token: string | null;
+  refreshToken: string | null;
   currentOrg: string | null;
   currentProject: string | null;
   outputFormat: 'table' | 'json' | 'yaml';
@@ -13,6 +14,7 @@ const config = new Conf<ConfigSchema>({
   defaults: {
     apiUrl: 'http://localhost:4000/api/v1',
     token: null,
+    refreshToken: null,
     currentOrg: null,
     currentProject: null,
     outputFormat: 'table',
@@ -39,6 +41,15 @@ export function getToken(): string | null {
   return config.get('token');
 }
 
+export function getRefreshToken(): string | null {
+  return config.get('refreshToken');
+}
+
+export function setTokens(token: string | null, refreshToken: string | null): void {
+  config.set('token', token);
+  config.set('refreshToken', refreshToken);
+}
+
 export function isAuthenticated(): boolean {
   return !!config.get('token');
 }
@@ -6,7 +6,7 @@ import { useRouter } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Loader2, Database, Eye, EyeOff } from "lucide-react";
+import { Loader2, Database, Eye, EyeOff, ShieldCheck, Fingerprint } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -20,7 +20,8 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
-import { authApi, apiClient } from "@/lib/api-client";
+import { authApi, apiClient, LoginResult } from "@/lib/api-client";
+import { getPasskey, isPasskeyCancelled, isPasskeySupported } from "@/lib/webauthn";
 import { useAuthStore } from "@/stores/auth-store";
 
 const loginSchema = z.object({
@@ -33,6 +34,10 @@ type LoginForm = z.infer<typeof loginSchema>;
 export default function LoginPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [mfaMethods, setMfaMethods] = useState<string[]>([]);
+  const [mfaCode, setMfaCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const router = useRouter();
   const { toast } = useToast();
   const setAuth = useAuthStore((state) => state.setAuth);
@@ -45,19 +50,31 @@ export default function LoginPage() {
     resolver: zodResolver(loginSchema),
   });
 
+  const completeLogin = (data: LoginResult) => {
+    if (!data.accessToken || !data.user) return;
+
+    apiClient.setToken(data.accessToken);
+    apiClient.setRefreshToken(data.refreshToken);
+    setAuth(data.user, data.accessToken);
+    toast({
+      title: "Welcome back!",
+      description: data.mfaEnrollmentRequired
+        ? "One of your organizations requires two-factor authentication. Please set it up."
+        : "You've been logged in successfully.",
+    });
+    router.push(data.mfaEnrollmentRequired ? "/dashboard/settings" : "/dashboard");
+  };
+
   const onSubmit = async (data: LoginForm) => {
     setIsSubmitting(true);
     try {
       const response = await authApi.login(data);
 
-      if (response.success && response.data) {
-        apiClient.setToken(response.data.accessToken);
-        setAuth(response.data.user, response.data.accessToken);
-        toast({
-          title: "Welcome back!",
-          description: "You've been logged in successfully.",
-        });
-        router.push("/dashboard");
+      if (response.success && response.data?.mfaRequired && response.data.challengeToken) {
+        setChallengeToken(response.data.challengeToken);
+        setMfaMethods(response.data.mfaMethods ?? ["totp"]);
+      } else if (response.success && response.data) {
+        completeLogin(response.data);
       } else {
         toast({
           variant: "destructive",
@@ -76,6 +93,169 @@ export default function LoginPage() {
     }
   };
 
+  const onSubmitMfa = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await authApi.verifyMfaLogin(
+        useRecoveryCode
+          ? { challengeToken, recoveryCode: mfaCode.trim() }
+          : { challengeToken, code: mfaCode.trim() },
+      );
+
+      if (response.success && response.data) {
+        completeLogin(response.data);
+      } else {
+        if (response.error?.code === "INVALID_MFA_CHALLENGE") {
+          setChallengeToken(null);
+        }
+        setMfaCode("");
+        toast({
+          variant: "destructive",
+          title: "Verification failed",
+          description: response.error?.message || "Invalid authentication code",
+        });
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Something went wrong. Please try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onPasskeyLogin = async () => {
+    setIsSubmitting(true);
+    try {
+      const options = challengeToken
+        ? await authApi.getMfaPasskeyOptions(challengeToken)
+        : await authApi.getPasskeyLoginOptions();
+      if (!options.success || !options.data) {
+        if (options.error?.code === "INVALID_MFA_CHALLENGE") {
+          setChallengeToken(null);
+        }
+        throw new Error(options.error?.message || "Could not start passkey sign-in");
+      }
+
+      const credential = await getPasskey(options.data);
+      if (!credential) return;
+
+      const response = challengeToken
+        ? await authApi.verifyMfaLogin({ challengeToken, passkey: credential })
+        : await authApi.loginWithPasskey(credential);
+
+      if (response.success && response.data) {
+        completeLogin(response.data);
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Verification failed",
+          description: response.error?.message || "The passkey could not be verified",
+        });
+      }
+    } catch (error) {
+      if (!isPasskeyCancelled(error)) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: error instanceof Error ? error.message : "Something went wrong. Please try again.",
+        });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (challengeToken && !mfaMethods.includes("totp")) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1 text-center">
+          <div className="flex justify-center mb-4">
+            <Fingerprint className="h-12 w-12 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-bold">Two-factor authentication</CardTitle>
+          <CardDescription>Confirm the sign-in with your passkey</CardDescription>
+        </CardHeader>
+
+        <CardFooter className="flex flex-col gap-4">
+          <Button className="w-full" onClick={onPasskeyLogin} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Use passkey
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  if (challengeToken) {
+    return (
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1 text-center">
+          <div className="flex justify-center mb-4">
+            <ShieldCheck className="h-12 w-12 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-bold">Two-factor authentication</CardTitle>
+          <CardDescription>
+            {useRecoveryCode
+              ? "Enter one of your recovery codes"
+              : "Enter the 6-digit code from your authenticator app"}
+          </CardDescription>
+        </CardHeader>
+
+        <form onSubmit={onSubmitMfa}>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="mfaCode">{useRecoveryCode ? "Recovery code" : "Authentication code"}</Label>
+              <Input
+                id="mfaCode"
+                autoFocus
+                autoComplete="one-time-code"
+                inputMode={useRecoveryCode ? "text" : "numeric"}
+                placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                value={mfaCode}
+                onChange={(e) => setMfaCode(e.target.value)}
+              />
+            </div>
+          </CardContent>
+
+          <CardFooter className="flex flex-col gap-4">
+            <Button type="submit" className="w-full" disabled={isSubmitting || !mfaCode.trim()}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verify
+            </Button>
+
+            <button
+              type="button"
+              className="text-sm text-primary hover:underline"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setMfaCode("");
+              }}
+            >
+              {useRecoveryCode ? "Use authenticator app instead" : "Use a recovery code instead"}
+            </button>
+
+            {mfaMethods.includes("passkey") && (
+              <button
+                type="button"
+                className="text-sm text-primary hover:underline"
+                onClick={onPasskeyLogin}
+                disabled={isSubmitting}
+              >
+                Use a passkey instead
+              </button>
+            )}
+          </CardFooter>
+        </form>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full max-w-md">
       <CardHeader className="space-y-1 text-center">
@@ -147,6 +327,13 @@ export default function LoginPage() {
             Sign In
           </Button>
 
+          {isPasskeySupported() && (
+            <Button type="button" variant="outline" className="w-full" onClick={onPasskeyLogin} disabled={isSubmitting}>
+              <Fingerprint className="mr-2 h-4 w-4" />
+              Sign in with a passkey
+            </Button>
+          )}
+
           <p className="text-sm text-muted-foreground text-center">
             Don't have an account?{" "}
             <Link href="/signup" className="text-primary hover:underline">
@@ -17,7 +17,8 @@ import {
   Building2,
   CheckCircle,
   XCircle,
-  LogIn
+  LogIn,
+  LogOut
 } from "lucide-react";
 import { useAuthStore } from "@/stores/auth-store";
 import { apiClient } from "@/lib/api-client";
@@ -244,6 +245,26 @@ export default function UsersPage() {
     }
   };
 
+  const revokeUserSessions = async (user: User) => {
+    try {
+      const token = localStorage.getItem("auth_token") || localStorage.getItem("accessToken");
+      const response = await fetch(`/api/v1/admin/users/${user.id}/sessions`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        toast({ title: `Signed out ${data.revoked} session(s) of ${user.email}` });
+      } else {
+        const error = await response.json();
+        toast({ variant: "destructive", title: error.message || "Failed to sign out user" });
+      }
+    } catch (error) {
+      toast({ variant: "destructive", title: "Failed to sign out user" });
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       email: "",
@@ -391,6 +412,10 @@ export default function UsersPage() {
                             <LogIn className="h-4 w-4 mr-2" />
                             Login as User
                           </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => revokeUserSessions(user)}>
+                            <LogOut className="h-4 w-4 mr-2" />
+                            Sign Out Everywhere
+                          </DropdownMenuItem>
                           <DropdownMenuSeparator />
                           <DropdownMenuItem onClick={() => toggleUserStatus(user, 'isGlobalAdmin')}>
                             {user.isGlobalAdmin ? (
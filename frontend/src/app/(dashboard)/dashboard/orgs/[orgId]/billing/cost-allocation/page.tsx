@@ -0,0 +1,339 @@
+'use client';
+
+import { useState } from 'react';
+import { useParams } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { PageHeader } from '@/components/layout/page-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { EmptyState } from '@/components/ui/empty-state';
+import { useToast } from '@/components/ui/use-toast';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { apiClient, costAllocationApi } from '@/lib/api-client';
+import { Download, PieChart, Tag, TrendingUp, Server } from 'lucide-react';
+
+interface CostAllocationCluster {
+  clusterId: string;
+  clusterName: string;
+  projectId?: string;
+  projectName?: string;
+  deleted: boolean;
+  tags: Record<string, string>;
+  totalCents: number;
+}
+
+interface CostAllocationReport {
+  totalCents: number;
+  totalFormatted: string;
+  untaggedCents: number;
+  untaggedFormatted: string;
+  unattributedCents: number;
+  byProject: { projectId?: string; projectName: string; totalCents: number; clusterCount: number }[];
+  byCluster: CostAllocationCluster[];
+  byTag: {
+    tagKey: string;
+    values: { value: string; totalCents: number; clusterCount: number }[];
+    untaggedCents: number;
+  }[];
+}
+
+const formatCurrency = (cents: number, currency = 'EUR') => {
+  return new Intl.NumberFormat('de-DE', {
+    style: 'currency',
+    currency,
+  }).format(cents / 100);
+};
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+export default function CostAllocationPage() {
+  const params = useParams();
+  const orgId = params.orgId as string;
+  const { toast } = useToast();
+
+  const now = new Date();
+  const [startDate, setStartDate] = useState(toDateInput(new Date(now.getFullYear(), now.getMonth(), 1)));
+  const [endDate, setEndDate] = useState(toDateInput(now));
+  const [tagKeys, setTagKeys] = useState('');
+
+  const { data: report, isLoading } = useQuery({
+    queryKey: ['cost-allocation', orgId, startDate, endDate, tagKeys],
+    queryFn: async () => {
+      const res = await costAllocationApi.get(orgId, { startDate, endDate, tagKeys: tagKeys || undefined });
+      return res.success ? (res.data as CostAllocationReport) : null;
+    },
+    enabled: !!orgId && !!startDate && !!endDate,
+  });
+
+  const share = (cents: number) => (report && report.totalCents > 0 ? (cents / report.totalCents) * 100 : 0);
+
+  const handleExport = async (format: 'json' | 'csv') => {
+    const token = apiClient.getToken();
+
+    try {
+      const response = await fetch(costAllocationApi.exportUrl(orgId, startDate, endDate, format, tagKeys || undefined), {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+
+      if (!response.ok) {
+        throw new Error('Export failed');
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `cost-allocation-${startDate}-${endDate}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast({
+        title: 'Export failed',
+        description: 'Could not download the cost allocation report. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="Cost Allocation"
+        description="Break down usage costs by cluster tag, project and cluster"
+        breadcrumbs={[
+          { label: 'Billing', href: `/dashboard/orgs/${orgId}/billing` },
+          { label: 'Cost Allocation' },
+        ]}
+        actions={
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => handleExport('csv')}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button variant="outline" onClick={() => handleExport('json')}>
+              <Download className="h-4 w-4 mr-2" />
+              Export JSON
+            </Button>
+          </div>
+        }
+      />
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Tag keys (optional)</Label>
+              <Input
+                placeholder="team, cost-center"
+                value={tagKeys}
+                onChange={(e) => setTagKeys(e.target.value)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center p-8"><LoadingSpinner /></div>
+      ) : !report || report.totalCents === 0 ? (
+        <EmptyState
+          icon={<PieChart className="h-12 w-12" />}
+          title="No costs in this range"
+          description="Usage costs will appear here once clusters have been running."
+        />
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid gap-4 md:grid-cols-3">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-3">
+                  <TrendingUp className="h-5 w-5 text-blue-500" />
+                  <div>
+                    <div className="text-2xl font-bold">{report.totalFormatted}</div>
+                    <div className="text-sm text-muted-foreground">Total</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+            <Card className={report.untaggedCents > 0 ? 'border-yellow-500/50' : ''}>
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-3">
+                  <Tag className={`h-5 w-5 ${report.untaggedCents > 0 ? 'text-yellow-500' : 'text-muted-foreground'}`} />
+                  <div>
+                    <div className="text-2xl font-bold">{report.untaggedFormatted}</div>
+                    <div className="text-sm text-muted-foreground">
+                      Untagged ({share(report.untaggedCents).toFixed(1)}%)
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-3">
+                  <Server className="h-5 w-5 text-purple-500" />
+                  <div>
+                    <div className="text-2xl font-bold">{report.byCluster.length}</div>
+                    <div className="text-sm text-muted-foreground">Clusters with costs</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Tabs defaultValue="tags" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="tags">By Tag</TabsTrigger>
+              <TabsTrigger value="projects">By Project</TabsTrigger>
+              <TabsTrigger value="clusters">By Cluster</TabsTrigger>
+            </TabsList>
+
+            {/* By Tag */}
+            <TabsContent value="tags" className="space-y-4">
+              {report.byTag.length > 0 ? (
+                <div className="grid gap-4 md:grid-cols-2">
+                  {report.byTag.map((tag) => (
+                    <Card key={tag.tagKey}>
+                      <CardHeader>
+                        <CardTitle className="text-base font-mono">{tag.tagKey}</CardTitle>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        {tag.values.map((item) => (
+                          <div key={item.value} className="space-y-1">
+                            <div className="flex items-center justify-between">
+                              <div className="font-medium">{item.value}</div>
+                              <div className="font-medium">{formatCurrency(item.totalCents)}</div>
+                            </div>
+                            <Progress value={share(item.totalCents)} />
+                          </div>
+                        ))}
+                        {tag.untaggedCents > 0 && (
+                          <div className="space-y-1">
+                            <div className="flex items-center justify-between text-yellow-600">
+                              <div className="font-medium">Untagged</div>
+                              <div className="font-medium">{formatCurrency(tag.untaggedCents)}</div>
+                            </div>
+                            <Progress value={share(tag.untaggedCents)} />
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              ) : (
+                <EmptyState
+                  icon={<Tag className="h-12 w-12" />}
+                  title="No tagged clusters"
+                  description="Add tags such as team or cost-center in cluster settings to allocate costs."
+                />
+              )}
+            </TabsContent>
+
+            {/* By Project */}
+            <TabsContent value="projects">
+              <Card>
+                <CardContent className="pt-6">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Project</TableHead>
+                        <TableHead className="text-center">Clusters</TableHead>
+                        <TableHead className="text-right">Share</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.byProject.map((project) => (
+                        <TableRow key={project.projectId || 'unassigned'}>
+                          <TableCell className="font-medium">{project.projectName}</TableCell>
+                          <TableCell className="text-center">{project.clusterCount}</TableCell>
+                          <TableCell className="text-right">{share(project.totalCents).toFixed(1)}%</TableCell>
+                          <TableCell className="text-right font-medium">{formatCurrency(project.totalCents)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            {/* By Cluster */}
+            <TabsContent value="clusters">
+              <Card>
+                <CardHeader>
+                  <CardDescription>
+                    Tags and projects are shown as they are today.
+                    {report.unattributedCents > 0 &&
+                      ` ${formatCurrency(report.unattributedCents)} of usage is not tied to a cluster.`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Cluster</TableHead>
+                        <TableHead>Project</TableHead>
+                        <TableHead>Tags</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.byCluster.map((cluster) => (
+                        <TableRow key={cluster.clusterId}>
+                          <TableCell className="font-medium">
+                            {cluster.clusterName}
+                            {cluster.deleted && (
+                              <Badge variant="outline" className="ml-2">Deleted</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>{cluster.projectName || '—'}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {Object.entries(cluster.tags).length > 0 ? (
+                                Object.entries(cluster.tags).map(([key, value]) => (
+                                  <Badge key={key} variant="secondary" className="font-mono text-xs">
+                                    {key}={value}
+                                  </Badge>
+                                ))
+                              ) : (
+                                <span className="text-sm text-yellow-600">Untagged</span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right font-medium">{formatCurrency(cluster.totalCents)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useParams } from 'next/navigation';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { PageHeader } from '@/components/layout/page-header';
@@ -12,7 +13,7 @@ import { Label } from '@/components/ui/label';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { EmptyState } from '@/components/ui/empty-state';
 import { useToast } from '@/components/ui/use-toast';
-import { apiClient } from '@/lib/api-client';
+import { apiClient, invoicesApi } from '@/lib/api-client';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Dialog,
@@ -36,6 +37,7 @@ import {
   FileText,
   TrendingUp,
   Wallet,
+  PieChart,
 } from 'lucide-react';
 import { StripePaymentForm } from '@/components/billing/stripe-payment-form';
 
@@ -51,6 +53,10 @@ interface BillingAccount {
     country?: string;
   };
   vatId?: string;
+  vatValidation?: {
+    status: 'valid' | 'invalid' | 'unavailable';
+    checkedAt: string;
+  };
   currency: string;
   taxPercent: number;
   paymentMethodType: 'card' | 'sepa_debit' | 'invoice' | 'none';
@@ -200,6 +206,19 @@ export default function BillingPage() {
     },
   });
 
+  // Re-check VAT ID mutation
+  const revalidateVatIdMutation = useMutation({
+    mutationFn: async () => {
+      await apiClient.post(`/orgs/${orgId}/billing/account/vat-id/validate`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['billing-account', orgId] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.response?.data?.message || 'Failed to check VAT ID', variant: 'destructive' });
+    },
+  });
+
   // Mark invoice paid mutation
   const markPaidMutation = useMutation({
     mutationFn: async (invoiceId: string) => {
@@ -212,6 +231,38 @@ export default function BillingPage() {
     },
   });
 
+  const handleDownload = async (invoice: Invoice, format: 'pdf' | 'xrechnung' | 'factur-x') => {
+    const token = apiClient.getToken();
+    const url = format === 'pdf'
+      ? invoicesApi.pdfUrl(orgId, invoice.id)
+      : invoicesApi.eInvoiceUrl(orgId, invoice.id, format);
+
+    try {
+      const response = await fetch(url, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error?.message || 'Download failed');
+      }
+
+      const blob = await response.blob();
+      const blobUrl = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = blobUrl;
+      link.download = `${invoice.invoiceNumber}${format === 'pdf' ? '.pdf' : `-${format}.xml`}`;
+      link.click();
+      URL.revokeObjectURL(blobUrl);
+    } catch (error: any) {
+      toast({
+        title: 'Download failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
   if (loadingAccount) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -305,6 +356,14 @@ export default function BillingPage() {
       <PageHeader
         title="Billing"
         description="Manage your billing and invoices"
+        actions={
+          <Link href={`/dashboard/orgs/${orgId}/billing/cost-allocation`}>
+            <Button variant="outline">
+              <PieChart className="h-4 w-4 mr-2" />
+              Cost Allocation
+            </Button>
+          </Link>
+        }
       />
 
       {/* Overview Cards */}
@@ -393,6 +452,22 @@ export default function BillingPage() {
                             Due {new Date(invoice.dueDate).toLocaleDateString()}
                           </div>
                         </div>
+                        {invoice.status !== 'draft' && (
+                          <div className="flex gap-2">
+                            <Button size="sm" variant="outline" onClick={() => handleDownload(invoice, 'pdf')}>
+                              <Download className="h-4 w-4 mr-1" />
+                              PDF
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => handleDownload(invoice, 'xrechnung')}>
+                              <Download className="h-4 w-4 mr-1" />
+                              XRechnung
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => handleDownload(invoice, 'factur-x')}>
+                              <Download className="h-4 w-4 mr-1" />
+                              Factur-X
+                            </Button>
+                          </div>
+                        )}
                         {invoice.status === 'open' && (
                           <Button size="sm" onClick={() => markPaidMutation.mutate(invoice.id)}>
                             Mark Paid
@@ -493,7 +568,24 @@ export default function BillingPage() {
                 {account.vatId && (
                   <div>
                     <div className="text-sm text-muted-foreground">VAT ID</div>
-                    <div className="font-medium">{account.vatId}</div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{account.vatId}</span>
+                      {account.vatValidation?.status === 'valid' ? (
+                        <Badge variant="outline" className="text-green-600 border-green-600/50">Verified</Badge>
+                      ) : (
+                        <>
+                          <Badge variant="outline" className="text-yellow-600 border-yellow-600/50">Not verified</Badge>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={revalidateVatIdMutation.isPending}
+                            onClick={() => revalidateVatIdMutation.mutate()}
+                          >
+                            Check again
+                          </Button>
+                        </>
+                      )}
+                    </div>
                   </div>
                 )}
                 <div>
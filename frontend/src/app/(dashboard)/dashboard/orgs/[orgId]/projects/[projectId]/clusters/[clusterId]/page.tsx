@@ -10,7 +10,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { PageHeader } from "@/components/layout/page-header";
-import { Server, Clock, Database, HardDrive, Users, Network, Pause, Play, Settings, Archive, Activity, FileJson, Gauge, History, Search, TrendingUp, Cloud, Calendar, Cog, FileCheck, Shield, Compass, Trash2 } from "lucide-react";
+import { Server, Clock, Database, HardDrive, Users, Network, Pause, Play, Settings, Archive, Activity, FileJson, Gauge, History, Search, TrendingUp, Cloud, Calendar, Cog, FileCheck, Fingerprint, Shield, Compass, Trash2 } from "lucide-react";
 import { formatDateTime } from "@/lib/utils";
 import Link from "next/link";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
@@ -391,6 +391,22 @@ export default function ClusterDetailsPage() {
           </Card>
         </Link>
 
+        <Link href={`/dashboard/orgs/${orgId}/projects/${projectId}/clusters/${clusterId}/pii`}>
+          <Card className="hover:bg-accent/50 transition-colors cursor-pointer h-full">
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-3">
+                <div className="h-10 w-10 rounded-lg bg-yellow-500/10 flex items-center justify-center">
+                  <Fingerprint className="h-5 w-5 text-yellow-500" />
+                </div>
+                <div>
+                  <div className="font-medium">PII</div>
+                  <div className="text-sm text-muted-foreground">Discovery</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </Link>
+
         <Link href={`/dashboard/orgs/${orgId}/projects/${projectId}/clusters/${clusterId}/backups`}>
           <Card className="hover:bg-accent/50 transition-colors cursor-pointer h-full">
             <CardContent className="pt-6">
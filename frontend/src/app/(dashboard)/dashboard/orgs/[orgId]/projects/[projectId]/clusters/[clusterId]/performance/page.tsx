@@ -15,6 +15,7 @@ import { EmptyState } from '@/components/ui/empty-state';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import { useToast } from '@/components/ui/use-toast';
 import { apiClient } from '@/lib/api-client';
+import { formatBytes } from '@/lib/utils';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Dialog,
@@ -78,12 +79,54 @@ interface IndexSuggestion {
   sampleQueries: string[];
 }
 
+interface DropSuggestion {
+  id: string;
+  database: string;
+  collection: string;
+  suggestedIndex: Record<string, number>;
+  suggestedIndexName: string;
+  reason: string;
+  dropReason: 'unused' | 'redundant';
+  estimatedBytes: number;
+  status: 'pending' | 'hidden';
+  hiddenAt?: string;
+}
+
 interface PerformanceStats {
   totalSlowQueries: number;
   avgExecutionTime: number;
   topCollections: { collection: string; count: number; avgTime: number }[];
   collectionScans: number;
   pendingSuggestions: number;
+  activeRegressions: number;
+  reclaimableIndexBytes: number;
+}
+
+interface QueryShape {
+  queryHash: string;
+  database: string;
+  collection: string;
+  operation: string;
+  queryShape: Record<string, any>;
+  count: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  avgExecutionTimeMs: number;
+  examinedToReturnedRatio: number;
+  lastSeenAt: string;
+}
+
+interface QueryRegression {
+  id: string;
+  database: string;
+  collection: string;
+  operation: string;
+  queryShape: Record<string, any>;
+  baselineP95Ms: number;
+  currentP95Ms: number;
+  ratio: number;
+  detectedAt: string;
 }
 
 interface QueryAnalysis {
@@ -131,6 +174,7 @@ export default function PerformanceAdvisorPage() {
   
   const [dismissSuggestionId, setDismissSuggestionId] = useState<string | null>(null);
   const [applySuggestionId, setApplySuggestionId] = useState<string | null>(null);
+  const [dropIndexSuggestionId, setDropIndexSuggestionId] = useState<string | null>(null);
 
   // Fetch performance stats
   const { data: stats, isLoading: loadingStats } = useQuery({
@@ -157,12 +201,44 @@ export default function PerformanceAdvisorPage() {
   const { data: suggestions, isLoading: loadingSuggestions } = useQuery({
     queryKey: ['index-suggestions', clusterId],
     queryFn: async () => {
-      const res = await apiClient.get(`${baseUrl}/suggestions?status=pending`);
+      const res = await apiClient.get(`${baseUrl}/suggestions?status=pending&type=create`);
       return res.data.data as IndexSuggestion[];
     },
     enabled: !!projectId,
   });
 
+  // Fetch unused and redundant indexes
+  const { data: dropSuggestions, isLoading: loadingDropSuggestions } = useQuery({
+    queryKey: ['drop-suggestions', clusterId],
+    queryFn: async () => {
+      const res = await apiClient.get<(DropSuggestion | { status: string })[]>(`${baseUrl}/suggestions?type=drop`);
+      return (res.success ? res.data ?? [] : [])
+        .filter((s): s is DropSuggestion => s.status === 'pending' || s.status === 'hidden');
+    },
+    enabled: !!projectId,
+  });
+
+  // Fetch query shapes
+  const { data: queryShapes, isLoading: loadingShapes } = useQuery({
+    queryKey: ['query-shapes', clusterId],
+    queryFn: async () => {
+      const res = await apiClient.get<QueryShape[]>(`${baseUrl}/query-shapes?days=7`);
+      return res.success ? res.data ?? [] : [];
+    },
+    enabled: !!projectId,
+  });
+
+  // Fetch latency regressions
+  const { data: regressions, isLoading: loadingRegressions } = useQuery({
+    queryKey: ['query-regressions', clusterId],
+    queryFn: async () => {
+      const res = await apiClient.get<QueryRegression[]>(`${baseUrl}/regressions`);
+      return res.success ? res.data ?? [] : [];
+    },
+    enabled: !!projectId,
+    refetchInterval: 60000,
+  });
+
   // Analyze query mutation
   const analyzeMutation = useMutation({
     mutationFn: async () => {
@@ -210,12 +286,42 @@ export default function PerformanceAdvisorPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['index-suggestions', clusterId] });
+      queryClient.invalidateQueries({ queryKey: ['drop-suggestions', clusterId] });
       queryClient.invalidateQueries({ queryKey: ['performance-stats', clusterId] });
       setDismissSuggestionId(null);
       toast({ title: 'Suggestion dismissed' });
     },
   });
 
+  // Hide, unhide or drop an unused index
+  const dropSuggestionMutation = useMutation({
+    mutationFn: async ({ suggestionId, action }: { suggestionId: string; action: 'hide' | 'unhide' | 'apply' }) => {
+      await apiClient.post(`${baseUrl}/suggestions/${suggestionId}/${action}`, {});
+      return action;
+    },
+    onSuccess: (action) => {
+      queryClient.invalidateQueries({ queryKey: ['drop-suggestions', clusterId] });
+      queryClient.invalidateQueries({ queryKey: ['performance-stats', clusterId] });
+      setDropIndexSuggestionId(null);
+      toast({ title: action === 'hide' ? 'Index hidden' : action === 'unhide' ? 'Index unhidden' : 'Index dropped' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.response?.data?.message || 'Failed to update index', variant: 'destructive' });
+    },
+  });
+
+  // Dismiss regression mutation
+  const dismissRegressionMutation = useMutation({
+    mutationFn: async (regressionId: string) => {
+      await apiClient.post(`${baseUrl}/regressions/${regressionId}/dismiss`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['query-regressions', clusterId] });
+      queryClient.invalidateQueries({ queryKey: ['performance-stats', clusterId] });
+      toast({ title: 'Regression dismissed' });
+    },
+  });
+
   return (
     <div className="space-y-6">
       <PageHeader
@@ -304,6 +410,19 @@ export default function PerformanceAdvisorPage() {
               <Badge variant="secondary" className="ml-2">{suggestions.length}</Badge>
             )}
           </TabsTrigger>
+          <TabsTrigger value="unused-indexes">
+            Unused Indexes
+            {dropSuggestions && dropSuggestions.length > 0 && (
+              <Badge variant="secondary" className="ml-2">{dropSuggestions.length}</Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="regressions">
+            Regressions
+            {regressions && regressions.length > 0 && (
+              <Badge variant="destructive" className="ml-2">{regressions.length}</Badge>
+            )}
+          </TabsTrigger>
+          <TabsTrigger value="query-shapes">Query Shapes</TabsTrigger>
           <TabsTrigger value="slow-queries">Slow Queries</TabsTrigger>
           <TabsTrigger value="top-collections">Top Collections</TabsTrigger>
         </TabsList>
@@ -372,6 +491,178 @@ export default function PerformanceAdvisorPage() {
           )}
         </TabsContent>
 
+        {/* Unused Indexes */}
+        <TabsContent value="unused-indexes" className="space-y-4">
+          {stats && stats.reclaimableIndexBytes > 0 && (
+            <div className="text-sm text-muted-foreground">
+              Dropping these indexes would free about {formatBytes(stats.reclaimableIndexBytes)}.
+              Hide an index first and watch for slower queries before dropping it.
+            </div>
+          )}
+          {loadingDropSuggestions ? (
+            <div className="flex justify-center p-8"><LoadingSpinner /></div>
+          ) : dropSuggestions && dropSuggestions.length > 0 ? (
+            dropSuggestions.map((suggestion) => (
+              <Card key={suggestion.id}>
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-2">
+                        <Key className="h-4 w-4" />
+                        <span className="text-sm font-medium">
+                          {suggestion.database}.{suggestion.collection}
+                        </span>
+                        <code className="text-xs">{suggestion.suggestedIndexName}</code>
+                        <Badge variant="outline">{suggestion.dropReason}</Badge>
+                        {suggestion.status === 'hidden' && <Badge variant="secondary">hidden</Badge>}
+                      </div>
+                      <div className="text-sm text-muted-foreground">{suggestion.reason}</div>
+                    </div>
+                    <div className="text-right ml-4 space-y-2">
+                      <div className="text-lg font-bold">{formatBytes(suggestion.estimatedBytes)}</div>
+                      {suggestion.status === 'pending' ? (
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => setDismissSuggestionId(suggestion.id)}>
+                            <XCircle className="h-4 w-4 mr-1" /> Keep
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => dropSuggestionMutation.mutate({ suggestionId: suggestion.id, action: 'hide' })}
+                            disabled={dropSuggestionMutation.isPending}
+                          >
+                            Hide Index
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => dropSuggestionMutation.mutate({ suggestionId: suggestion.id, action: 'unhide' })}
+                            disabled={dropSuggestionMutation.isPending}
+                          >
+                            Unhide
+                          </Button>
+                          <Button variant="destructive" size="sm" onClick={() => setDropIndexSuggestionId(suggestion.id)}>
+                            Drop Index
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          ) : (
+            <EmptyState
+              icon={<CheckCircle2 className="h-12 w-12 text-green-500" />}
+              title="No unused indexes"
+              description="Every index is used and none duplicates another."
+            />
+          )}
+        </TabsContent>
+
+        {/* Regressions */}
+        <TabsContent value="regressions" className="space-y-4">
+          {loadingRegressions ? (
+            <div className="flex justify-center p-8"><LoadingSpinner /></div>
+          ) : regressions && regressions.length > 0 ? (
+            regressions.map((regression) => (
+              <Card key={regression.id} className="border-l-4 border-l-red-500">
+                <CardContent className="p-4">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-2">
+                        <Badge variant="outline">{regression.operation}</Badge>
+                        <span className="text-sm font-medium">{regression.database}.{regression.collection}</span>
+                      </div>
+                      <pre className="text-xs bg-muted/50 rounded p-2 overflow-x-auto">
+                        {JSON.stringify(regression.queryShape)}
+                      </pre>
+                      <div className="text-xs text-muted-foreground mt-2">
+                        Detected {new Date(regression.detectedAt).toLocaleString()}
+                      </div>
+                    </div>
+                    <div className="text-right ml-4 space-y-2">
+                      <div className="flex items-center justify-end gap-1 text-lg font-bold text-red-500">
+                        <TrendingUp className="h-4 w-4" /> {regression.ratio}x
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        p95 {regression.baselineP95Ms}ms → {regression.currentP95Ms}ms
+                      </div>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => dismissRegressionMutation.mutate(regression.id)}
+                        disabled={dismissRegressionMutation.isPending}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" /> Dismiss
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          ) : (
+            <EmptyState
+              icon={<CheckCircle2 className="h-12 w-12 text-green-500" />}
+              title="No regressions"
+              description="No query shape is slower than its usual latency."
+            />
+          )}
+        </TabsContent>
+
+        {/* Query Shapes */}
+        <TabsContent value="query-shapes" className="space-y-4">
+          {loadingShapes ? (
+            <div className="flex justify-center p-8"><LoadingSpinner /></div>
+          ) : queryShapes && queryShapes.length > 0 ? (
+            <div className="space-y-2">
+              {queryShapes.map((shape) => (
+                <Card key={shape.queryHash}>
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between">
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2 mb-2">
+                          <Badge variant="outline">{shape.operation}</Badge>
+                          <span className="text-sm font-medium">{shape.database}.{shape.collection}</span>
+                          <span className="text-xs text-muted-foreground">{shape.count} executions</span>
+                        </div>
+                        <pre className="text-xs bg-muted/50 rounded p-2 overflow-x-auto">
+                          {JSON.stringify(shape.queryShape)}
+                        </pre>
+                      </div>
+                      <div className="grid grid-cols-3 gap-4 text-right ml-4 text-sm">
+                        <div>
+                          <div className="font-bold">{shape.p50}ms</div>
+                          <div className="text-xs text-muted-foreground">p50</div>
+                        </div>
+                        <div>
+                          <div className="font-bold">{shape.p95}ms</div>
+                          <div className="text-xs text-muted-foreground">p95</div>
+                        </div>
+                        <div>
+                          <div className="font-bold">{shape.p99}ms</div>
+                          <div className="text-xs text-muted-foreground">p99</div>
+                        </div>
+                        <div className="col-span-3 text-xs text-muted-foreground">
+                          {shape.examinedToReturnedRatio} docs examined per returned
+                        </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <EmptyState
+              icon={<FileJson className="h-12 w-12" />}
+              title="No query shapes yet"
+              description="Slow queries are grouped by shape as they are collected."
+            />
+          )}
+        </TabsContent>
+
         {/* Slow Queries */}
         <TabsContent value="slow-queries" className="space-y-4">
           {loadingQueries ? (
@@ -565,18 +856,30 @@ export default function PerformanceAdvisorPage() {
       <ConfirmDialog
         open={!!applySuggestionId}
         onClose={() => setApplySuggestionId(null)}
-        onConfirm={() => applySuggestionId && applyMutation.mutate(applySuggestionId)}
+        onConfirm={() => { if (applySuggestionId) applyMutation.mutate(applySuggestionId); }}
         title="Apply Index Suggestion"
         description="This will create the suggested index on your cluster. Index creation may temporarily impact performance."
         confirmText="Create Index"
         isLoading={applyMutation.isPending}
       />
 
+      {/* Drop Index Confirmation */}
+      <ConfirmDialog
+        open={!!dropIndexSuggestionId}
+        onClose={() => setDropIndexSuggestionId(null)}
+        onConfirm={() => { if (dropIndexSuggestionId) dropSuggestionMutation.mutate({ suggestionId: dropIndexSuggestionId, action: 'apply' }); }}
+        title="Drop Index"
+        description="This permanently drops the hidden index. Rebuilding it later can take a long time on large collections."
+        confirmText="Drop Index"
+        isDestructive
+        isLoading={dropSuggestionMutation.isPending}
+      />
+
       {/* Dismiss Confirmation */}
       <ConfirmDialog
         open={!!dismissSuggestionId}
         onClose={() => setDismissSuggestionId(null)}
-        onConfirm={() => dismissSuggestionId && dismissMutation.mutate(dismissSuggestionId)}
+        onConfirm={() => { if (dismissSuggestionId) dismissMutation.mutate(dismissSuggestionId); }}
         title="Dismiss Suggestion"
         description="Are you sure you want to dismiss this suggestion? It won't appear again unless re-triggered."
         confirmText="Dismiss"
@@ -0,0 +1,274 @@
+'use client';
+
+import { useParams, useRouter } from 'next/navigation';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { PageHeader } from '@/components/layout/page-header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { EmptyState } from '@/components/ui/empty-state';
+import { useToast } from '@/components/ui/use-toast';
+import { apiClient } from '@/lib/api-client';
+import { formatDateTime } from '@/lib/utils';
+import {
+  ArrowLeft,
+  Database,
+  FileSearch,
+  Fingerprint,
+  Loader2,
+  ScanSearch,
+  Sparkles,
+} from 'lucide-react';
+
+type PiiCategory = 'email' | 'name' | 'phone' | 'iban' | 'ip_address' | 'national_id' | 'card_number';
+
+interface DiscoveredField {
+  database: string;
+  collection: string;
+  path: string;
+  category: PiiCategory;
+  confidence: number;
+  samples: number;
+  matches: number;
+  isNew: boolean;
+}
+
+interface PiiScan {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  trigger: 'manual' | 'scheduled';
+  collectionsScanned: number;
+  documentsSampled: number;
+  fields?: DiscoveredField[];
+  newFieldCount: number;
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+const categoryLabels: Record<PiiCategory, string> = {
+  email: 'Email',
+  name: 'Name',
+  phone: 'Phone',
+  iban: 'IBAN',
+  ip_address: 'IP address',
+  national_id: 'National ID',
+  card_number: 'Card number',
+};
+
+const categoryColors: Record<PiiCategory, string> = {
+  email: 'bg-blue-500/10 text-blue-600 border-blue-500/20',
+  name: 'bg-slate-500/10 text-slate-600 border-slate-500/20',
+  phone: 'bg-teal-500/10 text-teal-600 border-teal-500/20',
+  iban: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+  ip_address: 'bg-violet-500/10 text-violet-600 border-violet-500/20',
+  national_id: 'bg-red-500/10 text-red-600 border-red-500/20',
+  card_number: 'bg-red-500/10 text-red-600 border-red-500/20',
+};
+
+export default function PiiDiscoveryPage() {
+  const params = useParams();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const clusterId = params.clusterId as string;
+  const projectId = params.projectId as string;
+  const baseUrl = `/projects/${projectId}/clusters/${clusterId}/pii-scans`;
+
+  const { data: scans } = useQuery({
+    queryKey: ['pii-scans', clusterId],
+    queryFn: async () => {
+      const res = await apiClient.get<PiiScan[]>(baseUrl);
+      return res.success ? res.data ?? [] : [];
+    },
+    enabled: !!projectId,
+    // Poll while a scan is in progress
+    refetchInterval: (query) =>
+      query.state.data?.some((scan) => scan.status === 'queued' || scan.status === 'running') ? 5000 : false,
+  });
+
+  const scanInProgress = scans?.some((scan) => scan.status === 'queued' || scan.status === 'running') ?? false;
+  const lastScan = scans?.[0];
+
+  const { data: report, isLoading: loadingReport } = useQuery({
+    queryKey: ['pii-report', clusterId, scans?.find((scan) => scan.status === 'completed')?.id],
+    queryFn: async () => {
+      const res = await apiClient.get<PiiScan | null>(`${baseUrl}/latest`);
+      return res.success ? res.data ?? null : null;
+    },
+    enabled: !!projectId,
+  });
+
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiClient.post(baseUrl);
+      if (!res.success) throw new Error(res.error?.message || 'Could not start the scan');
+      return res.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pii-scans', clusterId] });
+      toast({ title: 'Scan started', description: 'Collections are being sampled for personal data' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const fieldsByCollection = (report?.fields ?? []).reduce<Record<string, DiscoveredField[]>>((groups, field) => {
+    const namespace = `${field.database}.${field.collection}`;
+    (groups[namespace] ??= []).push(field);
+    return groups;
+  }, {});
+  const categories = new Set((report?.fields ?? []).map((field) => field.category));
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="PII Discovery"
+        description="Fields that hold personal data, found by sampling every collection"
+        actions={
+          <div className="flex gap-2">
+            <Button onClick={() => scanMutation.mutate()} disabled={scanInProgress || scanMutation.isPending}>
+              {scanInProgress || scanMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <ScanSearch className="h-4 w-4 mr-2" />
+              )}
+              {scanInProgress ? 'Scanning...' : 'Scan Now'}
+            </Button>
+            <Button variant="outline" onClick={() => router.back()}>
+              <ArrowLeft className="h-4 w-4 mr-2" /> Back
+            </Button>
+          </div>
+        }
+      />
+
+      {lastScan?.status === 'failed' && (
+        <Card className="border-red-500/50">
+          <CardContent className="pt-6 text-sm">
+            The last scan failed: <span className="text-muted-foreground">{lastScan.error}</span>
+          </CardContent>
+        </Card>
+      )}
+
+      {loadingReport ? (
+        <div className="flex justify-center p-8"><LoadingSpinner /></div>
+      ) : !report ? (
+        <EmptyState
+          icon={<FileSearch className="h-12 w-12" />}
+          title="No scan yet"
+          description="Run a scan to find emails, phone numbers, IBANs, card numbers and other personal data in this cluster. Only field names are stored, never the values."
+        />
+      ) : (
+        <>
+          <div className="grid gap-4 md:grid-cols-4">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-3">
+                  <Database className="h-5 w-5 text-blue-500" />
+                  <div>
+                    <div className="text-2xl font-bold">{report.collectionsScanned}</div>
+                    <div className="text-sm text-muted-foreground">Collections</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-3">
+                  <FileSearch className="h-5 w-5 text-slate-500" />
+                  <div>
+                    <div className="text-2xl font-bold">{report.documentsSampled}</div>
+                    <div className="text-sm text-muted-foreground">Documents Sampled</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+            <Card className={report.fields?.length ? 'border-yellow-500/50' : ''}>
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-3">
+                  <Fingerprint className="h-5 w-5 text-yellow-500" />
+                  <div>
+                    <div className="text-2xl font-bold">{report.fields?.length ?? 0}</div>
+                    <div className="text-sm text-muted-foreground">PII Fields</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+            <Card className={report.newFieldCount > 0 ? 'border-red-500/50' : ''}>
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-3">
+                  <Sparkles className={`h-5 w-5 ${report.newFieldCount > 0 ? 'text-red-500' : 'text-muted-foreground'}`} />
+                  <div>
+                    <div className="text-2xl font-bold">{report.newFieldCount}</div>
+                    <div className="text-sm text-muted-foreground">New Since Last Scan</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="text-sm text-muted-foreground">
+            Scanned {formatDateTime(report.completedAt)}
+            {categories.size > 0 && (
+              <> &middot; backups are tagged{' '}
+                {['pii', ...Array.from(categories).map((c) => `pii-${c.replace(/_/g, '-')}`).sort()].join(', ')}
+              </>
+            )}
+          </div>
+
+          {Object.keys(fieldsByCollection).length === 0 ? (
+            <EmptyState
+              icon={<Fingerprint className="h-12 w-12 text-green-500" />}
+              title="No personal data found"
+              description="None of the sampled fields look like personal data."
+            />
+          ) : (
+            Object.entries(fieldsByCollection).map(([namespace, fields]) => (
+              <Card key={namespace}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Database className="h-4 w-4" />
+                    {namespace}
+                  </CardTitle>
+                  <CardDescription>{fields.length} field(s) with personal data</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground border-b">
+                        <th className="py-2 font-medium">Field</th>
+                        <th className="py-2 font-medium">Category</th>
+                        <th className="py-2 font-medium text-right">Confidence</th>
+                        <th className="py-2 font-medium text-right">Matching Values</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {fields.map((field) => (
+                        <tr key={`${field.path}:${field.category}`} className="border-b last:border-0">
+                          <td className="py-2">
+                            <code className="text-xs">{field.path}</code>
+                            {field.isNew && <Badge variant="destructive" className="ml-2">New</Badge>}
+                          </td>
+                          <td className="py-2">
+                            <Badge className={categoryColors[field.category]}>{categoryLabels[field.category]}</Badge>
+                          </td>
+                          <td className="py-2 text-right font-medium">{Math.round(field.confidence * 100)}%</td>
+                          <td className="py-2 text-right text-muted-foreground">
+                            {field.matches} / {field.samples}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -126,22 +126,25 @@ export default function SearchIndexesPage() {
                   </span>
                 </div>
                 <div className="max-h-[400px] overflow-auto border rounded-lg">
+                  {testResults.results.length === 0 && (
+                    <p className="p-3 text-sm text-muted-foreground">No documents match this query.</p>
+                  )}
                   {testResults.results.map((result: any, i: number) => (
                     <div
-                      key={result._id}
+                      key={String(result._id ?? i)}
                       className="p-3 border-b last:border-b-0 hover:bg-muted/50"
                     >
                       <div className="flex items-center justify-between mb-1">
-                        <span className="text-sm font-medium">
-                          {result.document.title}
+                        <span className="text-sm font-medium font-mono">
+                          {String(result._id)}
                         </span>
                         <span className="text-xs text-muted-foreground">
                           Score: {result.score.toFixed(2)}
                         </span>
                       </div>
-                      <p className="text-sm text-muted-foreground truncate">
-                        {result.document.content}
-                      </p>
+                      <pre className="text-xs text-muted-foreground whitespace-pre-wrap break-all max-h-40 overflow-hidden">
+                        {JSON.stringify(result.document, null, 2)}
+                      </pre>
                     </div>
                   ))}
                 </div>
@@ -13,7 +13,7 @@ import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { EmptyState } from '@/components/ui/empty-state';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import { useToast } from '@/components/ui/use-toast';
-import { apiClient } from '@/lib/api-client';
+import { apiClient, projectsApi, projectRolesApi, ProjectRole, ProjectRoleBinding } from '@/lib/api-client';
 import {
   Dialog,
   DialogContent,
@@ -53,6 +53,7 @@ import {
   XCircle,
   Crown,
   Pencil,
+  FolderLock,
 } from 'lucide-react';
 
 interface Member {
@@ -66,6 +67,11 @@ interface Member {
   createdAt: string;
 }
 
+interface Project {
+  id: string;
+  name: string;
+}
+
 interface Invitation {
   id: string;
   email: string;
@@ -90,6 +96,12 @@ const roleLabels: Record<string, string> = {
   READONLY: 'Read Only',
 };
 
+const projectRoleLabels: Record<ProjectRole, string> = {
+  PROJECT_OWNER: 'Project Owner',
+  PROJECT_DATA_ACCESS_READ_WRITE: 'Data Read/Write',
+  PROJECT_READ_ONLY: 'Project Read Only',
+};
+
 export default function TeamPage() {
   const params = useParams();
   const orgId = params.orgId as string;
@@ -107,6 +119,9 @@ export default function TeamPage() {
   const [editName, setEditName] = useState('');
   const [editEmail, setEditEmail] = useState('');
 
+  // Project access state
+  const [projectAccessMember, setProjectAccessMember] = useState<Member | null>(null);
+
   // Fetch members
   const { data: members, isLoading: loadingMembers, error: membersError } = useQuery({
     queryKey: ['org-members', orgId],
@@ -125,6 +140,29 @@ export default function TeamPage() {
     },
   });
 
+  // Fetch projects and project role bindings
+  const { data: projects } = useQuery({
+    queryKey: ['projects', orgId],
+    queryFn: async () => {
+      const response = await projectsApi.list(orgId);
+      return (response.data ?? []) as Project[];
+    },
+  });
+
+  const { data: projectRoles } = useQuery({
+    queryKey: ['project-roles', orgId],
+    queryFn: async () => {
+      const response = await projectRolesApi.listByOrg(orgId);
+      return response.data ?? [];
+    },
+  });
+
+  const bindingsFor = (userId: string): ProjectRoleBinding[] =>
+    (projectRoles ?? []).filter((binding) => binding.userId === userId);
+
+  const projectName = (projectId: string) =>
+    projects?.find((project) => project.id === projectId)?.name ?? 'Unknown project';
+
   // Invite mutation
   const inviteMutation = useMutation({
     mutationFn: async (data: { email: string; role: string }) => {
@@ -223,6 +261,29 @@ export default function TeamPage() {
     },
   });
 
+  // Set or remove project role mutation
+  const projectRoleMutation = useMutation({
+    mutationFn: async ({ projectId, userId, role }: { projectId: string; userId: string; role: ProjectRole | 'NONE' }) => {
+      const response = role === 'NONE'
+        ? await projectRolesApi.remove(projectId, userId)
+        : await projectRolesApi.set(projectId, userId, role);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to update project access');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project-roles', orgId] });
+      toast({ title: 'Project access updated' });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update project access',
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Update member profile mutation
   const updateMemberMutation = useMutation({
     mutationFn: async ({ userId, name, email }: { userId: string; name?: string; email?: string }) => {
@@ -385,6 +446,15 @@ export default function TeamPage() {
                       <div className="text-sm text-muted-foreground">
                         {member.userId.email}
                       </div>
+                      {bindingsFor(member.userId.id).length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {bindingsFor(member.userId.id).map((binding) => (
+                            <Badge key={binding.id} variant="secondary" className="text-xs font-normal">
+                              {projectName(binding.projectId)}: {projectRoleLabels[binding.role]}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -404,6 +474,12 @@ export default function TeamPage() {
                           <Pencil className="h-4 w-4 mr-2" />
                           Edit Profile
                         </DropdownMenuItem>
+                        {(member.role === 'MEMBER' || member.role === 'READONLY') && (
+                          <DropdownMenuItem onClick={() => setProjectAccessMember(member)}>
+                            <FolderLock className="h-4 w-4 mr-2" />
+                            Project Access
+                          </DropdownMenuItem>
+                        )}
                         {member.role !== 'OWNER' && (
                           <>
                             <DropdownMenuItem
@@ -540,6 +616,63 @@ export default function TeamPage() {
         isLoading={revokeMutation.isPending}
       />
 
+      {/* Project Access Dialog */}
+      <Dialog open={!!projectAccessMember} onOpenChange={(open) => !open && setProjectAccessMember(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Project Access</DialogTitle>
+            <DialogDescription>
+              Without project roles, {projectAccessMember?.userId.name || projectAccessMember?.userId.email} can
+              access every project as {roleLabels[projectAccessMember?.role ?? 'MEMBER']}. Once you assign a
+              project role, they can only access the projects they have a role in.
+            </DialogDescription>
+          </DialogHeader>
+          {projects && projects.length > 0 ? (
+            <div className="divide-y">
+              {projects.map((project) => {
+                const binding = projectAccessMember
+                  ? bindingsFor(projectAccessMember.userId.id).find((b) => b.projectId === project.id)
+                  : undefined;
+                return (
+                  <div key={project.id} className="flex items-center justify-between gap-4 py-2">
+                    <span className="text-sm font-medium truncate">{project.name}</span>
+                    <Select
+                      value={binding?.role ?? 'NONE'}
+                      disabled={projectRoleMutation.isPending}
+                      onValueChange={(role) => {
+                        if (!projectAccessMember || (role === 'NONE' && !binding)) return;
+                        projectRoleMutation.mutate({
+                          projectId: project.id,
+                          userId: projectAccessMember.userId.id,
+                          role: role as ProjectRole | 'NONE',
+                        });
+                      }}
+                    >
+                      <SelectTrigger className="w-[200px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="NONE">No project role</SelectItem>
+                        <SelectItem value="PROJECT_OWNER">Project Owner</SelectItem>
+                        <SelectItem value="PROJECT_DATA_ACCESS_READ_WRITE">Data Read/Write</SelectItem>
+                        <SelectItem value="PROJECT_READ_ONLY">Project Read Only</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">This organization has no projects yet.</p>
+          )}
+          <div className="flex justify-end">
+            <Button variant="outline" onClick={() => setProjectAccessMember(null)}>
+              Done
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Edit Member Dialog */}
       <Dialog open={!!editingMember} onOpenChange={(open) => !open && setEditingMember(null)}>
         <DialogContent>
@@ -7,6 +7,9 @@ import { User, Lock, Trash2, Check, AlertTriangle } from 'lucide-react';
 import { useAuthStore } from '@/stores/auth-store';
 import { usersApi, apiClient } from '@/lib/api-client';
 import { PageHeader } from '@/components/layout/page-header';
+import { MfaSettings } from '@/components/auth/mfa-settings';
+import { PasskeySettings } from '@/components/auth/passkey-settings';
+import { SessionSettings } from '@/components/auth/session-settings';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -275,6 +278,12 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        <MfaSettings />
+
+        <PasskeySettings />
+
+        <SessionSettings />
+
         {/* Danger Zone */}
         <Card className="border-red-200">
           <CardHeader>
@@ -34,7 +34,7 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { apiClient } from "@/lib/api-client";
+import { apiClient, authApi } from "@/lib/api-client";
 import { cn } from "@/lib/utils";
 import { ImpersonationBanner } from "@/components/auth/impersonation-banner";
 
@@ -45,7 +45,7 @@ export default function DashboardLayout({
 }) {
   const router = useRouter();
   const pathname = usePathname();
-  const { user, isAuthenticated, token, logout } = useAuthStore();
+  const { user, isAuthenticated, token, logout, updateToken } = useAuthStore();
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [mounted, setMounted] = useState(false);
 
@@ -71,18 +71,27 @@ export default function DashboardLayout({
       router.push("/login");
     };
 
+    // Keep the persisted token in step with silent refreshes
+    const handleTokenRefreshed = (event: Event) => {
+      updateToken((event as CustomEvent<string>).detail);
+    };
+
     apiClient.setOnUnauthorized(handleUnauthorized);
 
     // Listen for unauthorized events (fallback)
     window.addEventListener("auth:unauthorized", handleUnauthorized);
+    window.addEventListener("auth:token-refreshed", handleTokenRefreshed);
 
     return () => {
       window.removeEventListener("auth:unauthorized", handleUnauthorized);
+      window.removeEventListener("auth:token-refreshed", handleTokenRefreshed);
       apiClient.setOnUnauthorized(null);
     };
-  }, [mounted, isAuthenticated, logout, router]);
+  }, [mounted, isAuthenticated, logout, updateToken, router]);
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    // Sign out the session on the server; the local tokens go either way
+    await authApi.logout();
     apiClient.setToken(null);
     logout();
     router.push("/login");
@@ -20,13 +20,19 @@ export function ImpersonationBanner() {
     try {
       setIsLoading(true);
 
-      const response = await apiClient.post('/auth/stop-impersonating', {});
+      const response = await apiClient.post<{
+        accessToken: string;
+        refreshToken: string;
+        user: { id: string; email: string; name?: string; verified: boolean };
+      }>('/auth/stop-impersonating', {});
 
-      if (response.data.success && response.data.data) {
-        // Update auth with admin's token
+      if (response.success && response.data) {
+        // Resume the admin's session
+        apiClient.setToken(response.data.accessToken);
+        apiClient.setRefreshToken(response.data.refreshToken);
         setAuth(
-          response.data.data.user,
-          response.data.data.accessToken,
+          response.data.user,
+          response.data.accessToken,
           undefined // Clear impersonation
         );
 
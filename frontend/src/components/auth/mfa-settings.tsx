@@ -0,0 +1,279 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ShieldCheck, Check, Copy, KeyRound } from 'lucide-react';
+import { authApi } from '@/lib/api-client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+export function MfaSettings() {
+  const queryClient = useQueryClient();
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [showDisable, setShowDisable] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['mfa-status'],
+    queryFn: async () => {
+      const response = await authApi.getMfaStatus();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to load MFA status');
+      }
+      return response.data;
+    },
+  });
+
+  const onSettled = () => {
+    setCode('');
+    queryClient.invalidateQueries({ queryKey: ['mfa-status'] });
+  };
+
+  const enrollMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authApi.startMfaEnrollment();
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to start enrollment');
+      }
+      return response.data;
+    },
+    onSuccess: (data) => {
+      setEnrollment(data);
+      setRecoveryCodes(null);
+      setError(null);
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authApi.confirmMfaEnrollment(code.trim());
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Invalid code');
+      }
+      return response.data;
+    },
+    onSuccess: (data) => {
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      setError(null);
+    },
+    onError: (err: Error) => setError(err.message),
+    onSettled,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authApi.regenerateRecoveryCodes(code.trim());
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Invalid code');
+      }
+      return response.data;
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      setError(null);
+    },
+    onError: (err: Error) => setError(err.message),
+    onSettled,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const value = code.trim();
+      const response = await authApi.disableMfa(
+        /^\d{6}$/.test(value) ? { password, code: value } : { password, recoveryCode: value },
+      );
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to disable MFA');
+      }
+    },
+    onSuccess: () => {
+      setShowDisable(false);
+      setPassword('');
+      setRecoveryCodes(null);
+      setError(null);
+    },
+    onError: (err: Error) => setError(err.message),
+    onSettled,
+  });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="secondary">Enabled</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Require a code from an authenticator app when you sign in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+
+        {status && status.requiredBy.length > 0 && !status.enabled && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              {status.requiredBy.map((org) => org.name).join(', ')} require two-factor authentication.
+              You cannot access {status.requiredBy.length === 1 ? 'this organization' : 'these organizations'} until
+              you set it up.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {recoveryCodes && (
+          <div className="space-y-2 rounded-md border p-4">
+            <p className="text-sm font-medium flex items-center gap-2">
+              <KeyRound className="h-4 w-4" />
+              Recovery codes
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Store these somewhere safe. Each code can be used once to sign in without your device.
+              They will not be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-1 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button variant="outline" size="sm" onClick={copyRecoveryCodes}>
+              {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+              {copied ? 'Copied' : 'Copy codes'}
+            </Button>
+          </div>
+        )}
+
+        {status && !status.enabled && !enrollment && (
+          <Button onClick={() => enrollMutation.mutate()} disabled={enrollMutation.isPending}>
+            {enrollMutation.isPending ? 'Starting...' : 'Set up authenticator app'}
+          </Button>
+        )}
+
+        {enrollment && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              confirmMutation.mutate();
+            }}
+          >
+            <div className="space-y-2 text-sm">
+              <p>
+                Open the setup link on the device with your authenticator app, or add the key below manually.
+              </p>
+              <a href={enrollment.otpauthUrl} className="text-primary hover:underline break-all">
+                {enrollment.otpauthUrl}
+              </a>
+              <p className="font-mono bg-muted rounded px-2 py-1 break-all">{enrollment.secret}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mfaEnrollCode">Code from the app</Label>
+              <Input
+                id="mfaEnrollCode"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={confirmMutation.isPending || !code.trim()}>
+                {confirmMutation.isPending ? 'Verifying...' : 'Enable'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setEnrollment(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {status?.enabled && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="mfaCode">Authentication code</Label>
+              <Input
+                id="mfaCode"
+                autoComplete="one-time-code"
+                placeholder={showDisable ? '123456 or recovery code' : '123456'}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            {showDisable && (
+              <div className="space-y-2">
+                <Label htmlFor="mfaPassword">Password</Label>
+                <Input
+                  id="mfaPassword"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="flex gap-2">
+              {showDisable ? (
+                <>
+                  <Button
+                    variant="destructive"
+                    onClick={() => disableMutation.mutate()}
+                    disabled={disableMutation.isPending || !code.trim() || !password}
+                  >
+                    {disableMutation.isPending ? 'Disabling...' : 'Disable'}
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowDisable(false)}>
+                    Cancel
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button
+                    variant="outline"
+                    onClick={() => regenerateMutation.mutate()}
+                    disabled={regenerateMutation.isPending || !code.trim()}
+                  >
+                    New recovery codes
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowDisable(true)}
+                    disabled={status.requiredBy.length > 0}
+                    title={status.requiredBy.length > 0 ? 'Required by your organization' : undefined}
+                  >
+                    Disable
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Fingerprint, Trash2, Cloud } from 'lucide-react';
+import { authApi, Passkey } from '@/lib/api-client';
+import { createPasskey, isPasskeyCancelled, isPasskeySupported } from '@/lib/webauthn';
+import { formatDateTime } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+
+export function PasskeySettings() {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [removing, setRemoving] = useState<Passkey | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: passkeys, isLoading } = useQuery({
+    queryKey: ['passkeys'],
+    queryFn: async () => {
+      const response = await authApi.listPasskeys();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to load passkeys');
+      }
+      return response.data ?? [];
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async () => {
+      const options = await authApi.getPasskeyRegistrationOptions();
+      if (!options.success || !options.data) {
+        throw new Error(options.error?.message || 'Failed to start registration');
+      }
+
+      const credential = await createPasskey(options.data);
+      if (!credential) {
+        throw new Error('No passkey was created');
+      }
+
+      const response = await authApi.registerPasskey({ name: name.trim() || undefined, credential });
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to register passkey');
+      }
+    },
+    onSuccess: () => {
+      setName('');
+      setError(null);
+    },
+    onError: (err: Error) => setError(isPasskeyCancelled(err) ? null : err.message),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['passkeys'] }),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (passkeyId: string) => {
+      const response = await authApi.removePasskey(passkeyId);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to remove passkey');
+      }
+    },
+    onSuccess: () => {
+      setRemoving(null);
+      setError(null);
+    },
+    onError: (err: Error) => setError(err.message),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['passkeys'] }),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Fingerprint className="h-5 w-5" />
+          Passkeys
+          {passkeys && passkeys.length > 0 && <Badge variant="secondary">{passkeys.length}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Sign in with your fingerprint, face or device PIN instead of a password. Once you add a passkey,
+          it is also asked for after your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+
+        {passkeys && passkeys.length > 0 && (
+          <div className="divide-y rounded-md border">
+            {passkeys.map((passkey) => (
+              <div key={passkey.id} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    {passkey.name}
+                    {passkey.backedUp && (
+                      <Badge variant="outline" className="gap-1">
+                        <Cloud className="h-3 w-3" />
+                        Synced
+                      </Badge>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Added {formatDateTime(passkey.createdAt)}
+                    {' · '}
+                    {passkey.lastUsedAt ? `Last used ${formatDateTime(passkey.lastUsedAt)}` : 'Never used'}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => setRemoving(passkey)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isPasskeySupported() ? (
+          <form
+            className="flex items-end gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              registerMutation.mutate();
+            }}
+          >
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="passkeyName">Name</Label>
+              <Input
+                id="passkeyName"
+                placeholder="e.g. MacBook Touch ID"
+                maxLength={64}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={registerMutation.isPending}>
+              {registerMutation.isPending ? 'Waiting for device...' : 'Add passkey'}
+            </Button>
+          </form>
+        ) : (
+          <p className="text-sm text-muted-foreground">This browser does not support passkeys.</p>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={!!removing}
+        onClose={() => setRemoving(null)}
+        onConfirm={() => {
+          if (removing) removeMutation.mutate(removing.id);
+        }}
+        title="Remove Passkey"
+        description={`Remove "${removing?.name}"? You will no longer be able to sign in with it.`}
+        confirmText="Remove"
+        isDestructive
+        isLoading={removeMutation.isPending}
+      />
+    </Card>
+  );
+}
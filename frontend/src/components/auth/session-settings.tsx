@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { MonitorSmartphone, LogOut } from 'lucide-react';
+import { authApi, Session } from '@/lib/api-client';
+import { formatDateTime } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+
+const METHOD_LABELS: Record<Session['method'], string> = {
+  password: 'Password',
+  mfa: 'Two-factor',
+  passkey: 'Passkey',
+  sso: 'SSO',
+  impersonation: 'Admin support',
+};
+
+export function SessionSettings() {
+  const queryClient = useQueryClient();
+  const [revoking, setRevoking] = useState<Session | null>(null);
+  const [confirmOthers, setConfirmOthers] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: sessions, isLoading } = useQuery({
+    queryKey: ['sessions'],
+    queryFn: async () => {
+      const response = await authApi.listSessions();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to load sessions');
+      }
+      return response.data ?? [];
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await authApi.revokeSession(sessionId);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to sign out session');
+      }
+    },
+    onSuccess: () => {
+      setRevoking(null);
+      setError(null);
+    },
+    onError: (err: Error) => setError(err.message),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['sessions'] }),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authApi.revokeOtherSessions();
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Failed to sign out other sessions');
+      }
+    },
+    onSuccess: () => {
+      setConfirmOthers(false);
+      setError(null);
+    },
+    onError: (err: Error) => setError(err.message),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['sessions'] }),
+  });
+
+  const otherSessions = sessions?.filter((session) => !session.current) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5" />
+          Sessions
+          {sessions && sessions.length > 0 && <Badge variant="secondary">{sessions.length}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Devices where you are signed in. Changing your password signs out all other sessions.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+
+        {sessions && sessions.length > 0 && (
+          <div className="divide-y rounded-md border">
+            {sessions.map((session) => (
+              <div key={session.id} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    {session.device || 'Unknown device'}
+                    {session.current && <Badge variant="outline">This device</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {METHOD_LABELS[session.method]}
+                    {session.ipAddress && ` · ${session.ipAddress}`}
+                    {' · '}
+                    Last active {formatDateTime(session.lastUsedAt)}
+                  </p>
+                </div>
+                {!session.current && (
+                  <Button variant="ghost" size="sm" onClick={() => setRevoking(session)}>
+                    <LogOut className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {otherSessions.length > 0 && (
+          <Button variant="outline" onClick={() => setConfirmOthers(true)}>
+            Sign out other sessions
+          </Button>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={!!revoking}
+        onClose={() => setRevoking(null)}
+        onConfirm={() => {
+          if (revoking) revokeMutation.mutate(revoking.id);
+        }}
+        title="Sign Out Session"
+        description={`Sign out "${revoking?.device || 'Unknown device'}"? It will have to sign in again.`}
+        confirmText="Sign out"
+        isDestructive
+        isLoading={revokeMutation.isPending}
+      />
+
+      <ConfirmDialog
+        open={confirmOthers}
+        onClose={() => setConfirmOthers(false)}
+        onConfirm={() => revokeOthersMutation.mutate()}
+        title="Sign Out Other Sessions"
+        description={`Sign out ${otherSessions.length} other session(s)? You stay signed in on this device.`}
+        confirmText="Sign out"
+        isDestructive
+        isLoading={revokeOthersMutation.isPending}
+      />
+    </Card>
+  );
+}
@@ -182,6 +182,9 @@ export function SearchIndexList({ projectId, clusterId, onCreateClick, onTestCli
                             <span>• {index.queryCount.toLocaleString()} queries</span>
                           )}
                         </div>
+                        {index.status === 'failed' && index.errorMessage && (
+                          <p className="text-sm text-red-600 mt-1">{index.errorMessage}</p>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
@@ -18,8 +18,21 @@ export function useAuth() {
     const response = await authApi.login({ email, password });
 
     if (response.success && response.data) {
-      apiClient.setToken(response.data.accessToken);
-      setAuth(response.data.user, response.data.accessToken);
+      const { accessToken, refreshToken, user: signedInUser, mfaRequired, challengeToken } = response.data;
+
+      // Accounts with MFA get a challenge instead of tokens; the login page finishes it
+      if (mfaRequired || !accessToken || !signedInUser) {
+        return {
+          success: false,
+          mfaRequired: true,
+          challengeToken,
+          error: "Two-factor authentication is required",
+        };
+      }
+
+      apiClient.setToken(accessToken);
+      apiClient.setRefreshToken(refreshToken);
+      setAuth(signedInUser, accessToken);
       return { success: true };
     }
 
@@ -42,7 +55,8 @@ export function useAuth() {
     };
   };
 
-  const logout = () => {
+  const logout = async () => {
+    await authApi.logout();
     apiClient.setToken(null);
     clearAuth();
     router.push("/login");
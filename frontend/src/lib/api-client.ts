@@ -1,3 +1,10 @@
+import type {
+  PasskeyAssertionCredential,
+  PasskeyCreationOptions,
+  PasskeyRegistrationCredential,
+  PasskeyRequestOptions,
+} from "./webauthn";
+
 // Use relative URL in production, absolute URL in development
 const getApiBaseUrl = () => {
   // If explicitly set, use that
@@ -28,20 +35,35 @@ class ApiClient {
   private baseUrl: string;
   private token: string | null = null;
   private onUnauthorized: (() => void) | null = null;
+  private refreshing: Promise<boolean> | null = null;
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl;
   }
 
+  // Clearing the access token signs out, so the refresh token goes with it
   setToken(token: string | null) {
     this.token = token;
     if (token) {
       localStorage.setItem("auth_token", token);
     } else {
       localStorage.removeItem("auth_token");
+      localStorage.removeItem("refresh_token");
+    }
+  }
+
+  setRefreshToken(refreshToken: string | null | undefined) {
+    if (refreshToken) {
+      localStorage.setItem("refresh_token", refreshToken);
+    } else {
+      localStorage.removeItem("refresh_token");
     }
   }
 
+  private getRefreshToken(): string | null {
+    return typeof window !== "undefined" ? localStorage.getItem("refresh_token") : null;
+  }
+
   getToken(): string | null {
     if (this.token) return this.token;
     if (typeof window !== "undefined") {
@@ -83,10 +105,52 @@ class ApiClient {
     }
   }
 
+  // Access tokens are short-lived; concurrent 401s share one refresh request
+  private refreshSession(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.rotateRefreshToken().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async rotateRefreshToken(): Promise<boolean> {
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) return false;
+
+    try {
+      const response = await fetch(`${this.baseUrl}/auth/refresh`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (response.ok) {
+        const json = await response.json();
+        this.setToken(json.data.accessToken);
+        this.setRefreshToken(json.data.refreshToken);
+        window.dispatchEvent(new CustomEvent("auth:token-refreshed", { detail: json.data.accessToken }));
+        return true;
+      }
+    } catch (e) {
+      return false;
+    }
+
+    // Another tab may have rotated the shared refresh token first
+    const stored = this.getRefreshToken();
+    if (stored && stored !== refreshToken) {
+      this.token = localStorage.getItem("auth_token");
+      return true;
+    }
+    return false;
+  }
+
   private async request<T>(
     method: string,
     path: string,
-    data?: unknown
+    data?: unknown,
+    retried = false
   ): Promise<ApiResponse<T>> {
     const url = `${this.baseUrl}${path}`;
     const token = this.getToken();
@@ -106,6 +170,10 @@ class ApiClient {
         body: data ? JSON.stringify(data) : undefined,
       });
 
+      if (response.status === 401 && token && !retried && path !== "/auth/refresh" && (await this.refreshSession())) {
+        return this.request<T>(method, path, data, true);
+      }
+
       let json;
       try {
         json = await response.json();
@@ -172,16 +240,108 @@ class ApiClient {
 export const apiClient = new ApiClient(API_BASE_URL);
 
 // Auth API
+export interface LoginResult {
+  accessToken?: string;
+  refreshToken?: string;
+  expiresIn: number;
+  user?: { id: string; email: string; name?: string; verified: boolean; mfaEnabled?: boolean };
+  // Set when the account has MFA enabled; finish with verifyMfaLogin
+  mfaRequired?: boolean;
+  challengeToken?: string;
+  mfaMethods?: ("totp" | "passkey")[];
+  // Set when an organization requires MFA and the user has not enrolled yet
+  mfaEnrollmentRequired?: boolean;
+}
+
+export interface Passkey {
+  id: string;
+  name: string;
+  credentialId: string;
+  transports: string[];
+  backedUp: boolean;
+  lastUsedAt?: string;
+  createdAt: string;
+}
+
+export interface Session {
+  id: string;
+  method: "password" | "mfa" | "passkey" | "sso" | "impersonation";
+  device?: string;
+  ipAddress?: string;
+  lastUsedAt: string;
+  createdAt: string;
+  expiresAt: string;
+  // The session making the request
+  current: boolean;
+}
+
 export const authApi = {
   signup: (data: { email: string; password: string; name?: string }) =>
     apiClient.post("/auth/signup", data),
 
   login: (data: { email: string; password: string }) =>
-    apiClient.post<{
-      accessToken: string;
-      expiresIn: number;
-      user: { id: string; email: string; name?: string; verified: boolean };
-    }>("/auth/login", data),
+    apiClient.post<LoginResult>("/auth/login", data),
+
+  verifyMfaLogin: (data: {
+    challengeToken: string;
+    code?: string;
+    recoveryCode?: string;
+    passkey?: PasskeyAssertionCredential;
+  }) => apiClient.post<LoginResult>("/auth/login/mfa", data),
+
+  getMfaPasskeyOptions: (challengeToken: string) =>
+    apiClient.post<PasskeyRequestOptions>("/auth/login/mfa/passkey/options", { challengeToken }),
+
+  getPasskeyLoginOptions: () =>
+    apiClient.post<PasskeyRequestOptions>("/auth/login/passkey/options"),
+
+  loginWithPasskey: (credential: PasskeyAssertionCredential) =>
+    apiClient.post<LoginResult>("/auth/login/passkey", { credential }),
+
+  logout: () =>
+    apiClient.post("/auth/logout"),
+
+  listSessions: () =>
+    apiClient.get<Session[]>("/auth/sessions"),
+
+  revokeSession: (sessionId: string) =>
+    apiClient.delete(`/auth/sessions/${sessionId}`),
+
+  revokeOtherSessions: () =>
+    apiClient.post<{ revoked: number }>("/auth/sessions/revoke-others"),
+
+  listPasskeys: () =>
+    apiClient.get<Passkey[]>("/auth/passkeys"),
+
+  getPasskeyRegistrationOptions: () =>
+    apiClient.post<PasskeyCreationOptions>("/auth/passkeys/options"),
+
+  registerPasskey: (data: { name?: string; credential: PasskeyRegistrationCredential }) =>
+    apiClient.post<Passkey>("/auth/passkeys", data),
+
+  removePasskey: (passkeyId: string) =>
+    apiClient.delete(`/auth/passkeys/${passkeyId}`),
+
+  getMfaStatus: () =>
+    apiClient.get<{
+      enabled: boolean;
+      enabledAt?: string;
+      enrollmentPending: boolean;
+      recoveryCodesRemaining: number;
+      requiredBy: { id: string; name: string }[];
+    }>("/auth/mfa"),
+
+  startMfaEnrollment: () =>
+    apiClient.post<{ secret: string; otpauthUrl: string }>("/auth/mfa/enroll"),
+
+  confirmMfaEnrollment: (code: string) =>
+    apiClient.post<{ recoveryCodes: string[] }>("/auth/mfa/enable", { code }),
+
+  disableMfa: (data: { password: string; code?: string; recoveryCode?: string }) =>
+    apiClient.post("/auth/mfa/disable", data),
+
+  regenerateRecoveryCodes: (code: string) =>
+    apiClient.post<{ recoveryCodes: string[] }>("/auth/mfa/recovery-codes", { code }),
 
   verifyEmail: (token: string) =>
     apiClient.post("/auth/verify-email", { token }),
@@ -223,7 +383,7 @@ export const orgsApi = {
   list: () => apiClient.get("/orgs"),
   get: (orgId: string) => apiClient.get(`/orgs/${orgId}`),
   create: (data: { name: string }) => apiClient.post("/orgs", data),
-  update: (orgId: string, data: { name?: string }) =>
+  update: (orgId: string, data: { name?: string; requireMfa?: boolean }) =>
     apiClient.patch(`/orgs/${orgId}`, data),
   delete: (orgId: string) => apiClient.delete(`/orgs/${orgId}`),
   getMembers: (orgId: string) => apiClient.get(`/orgs/${orgId}/members`),
@@ -242,6 +402,29 @@ export const projectsApi = {
     apiClient.delete(`/orgs/${orgId}/projects/${projectId}`),
 };
 
+// Project Roles API
+export type ProjectRole = 'PROJECT_OWNER' | 'PROJECT_DATA_ACCESS_READ_WRITE' | 'PROJECT_READ_ONLY';
+
+export interface ProjectRoleBinding {
+  id: string;
+  orgId: string;
+  projectId: string;
+  userId: string;
+  role: ProjectRole;
+  createdAt: string;
+}
+
+export const projectRolesApi = {
+  listByOrg: (orgId: string) =>
+    apiClient.get<ProjectRoleBinding[]>(`/orgs/${orgId}/project-roles`),
+  listByProject: (projectId: string) =>
+    apiClient.get<ProjectRoleBinding[]>(`/projects/${projectId}/members`),
+  set: (projectId: string, userId: string, role: ProjectRole) =>
+    apiClient.put<ProjectRoleBinding>(`/projects/${projectId}/members/${userId}`, { role }),
+  remove: (projectId: string, userId: string) =>
+    apiClient.delete(`/projects/${projectId}/members/${userId}`),
+};
+
 // Clusters API
 export const clustersApi = {
   list: (projectId: string) => apiClient.get(`/projects/${projectId}/clusters`),
@@ -411,6 +594,52 @@ export const searchIndexesApi = {
     apiClient.get(`/projects/${projectId}/clusters/${clusterId}/search-indexes/analyzers`),
 };
 
+// Embedding Providers API
+export type EmbeddingProviderType = 'openai_compatible' | 'openai' | 'cohere' | 'huggingface';
+
+export interface EmbeddingProvider {
+  id: string;
+  orgId: string;
+  name: string;
+  type: EmbeddingProviderType;
+  baseUrl?: string;
+  model: string;
+  dimensions: number;
+  hasApiKey: boolean;
+  batchSize: number;
+  maxRequestsPerMinute: number;
+  maxRetries: number;
+  createdAt: string;
+}
+
+export interface EmbeddingProviderInput {
+  name: string;
+  type: EmbeddingProviderType;
+  baseUrl?: string;
+  model: string;
+  dimensions: number;
+  apiKey?: string;
+  batchSize?: number;
+  maxRequestsPerMinute?: number;
+  maxRetries?: number;
+}
+
+export const embeddingProvidersApi = {
+  list: (orgId: string) =>
+    apiClient.get<EmbeddingProvider[]>(`/orgs/${orgId}/embedding-providers`),
+  create: (orgId: string, data: EmbeddingProviderInput) =>
+    apiClient.post<EmbeddingProvider>(`/orgs/${orgId}/embedding-providers`, data),
+  update: (orgId: string, providerId: string, data: Partial<Omit<EmbeddingProviderInput, 'type'>>) =>
+    apiClient.patch<EmbeddingProvider>(`/orgs/${orgId}/embedding-providers/${providerId}`, data),
+  delete: (orgId: string, providerId: string) =>
+    apiClient.delete(`/orgs/${orgId}/embedding-providers/${providerId}`),
+  test: (orgId: string, providerId: string, texts?: string[]) =>
+    apiClient.post<{ success: boolean; message: string; latencyMs: number; dimensions?: number }>(
+      `/orgs/${orgId}/embedding-providers/${providerId}/test`,
+      { texts },
+    ),
+};
+
 // Scaling Recommendations API
 export const scalingApi = {
   getRecommendations: (projectId: string, clusterId: string) =>
@@ -549,6 +778,28 @@ export const auditApi = {
     `${API_BASE_URL}/orgs/${orgId}/audit/export?startDate=${startDate}&endDate=${endDate}&format=${format}`,
 };
 
+// Cost Allocation API
+export const costAllocationApi = {
+  get: (orgId: string, params: { startDate: string; endDate: string; tagKeys?: string }) => {
+    const searchParams = new URLSearchParams({ startDate: params.startDate, endDate: params.endDate });
+    if (params.tagKeys) searchParams.set('tagKeys', params.tagKeys);
+    return apiClient.get(`/orgs/${orgId}/billing/cost-allocation?${searchParams.toString()}`);
+  },
+
+  exportUrl: (orgId: string, startDate: string, endDate: string, format: 'json' | 'csv' = 'csv', tagKeys?: string) =>
+    `${API_BASE_URL}/orgs/${orgId}/billing/cost-allocation/export?startDate=${startDate}&endDate=${endDate}&format=${format}` +
+    (tagKeys ? `&tagKeys=${encodeURIComponent(tagKeys)}` : ''),
+};
+
+// Invoice Documents API
+export const invoicesApi = {
+  pdfUrl: (orgId: string, invoiceId: string) =>
+    `${API_BASE_URL}/orgs/${orgId}/billing/invoices/${invoiceId}/pdf`,
+
+  eInvoiceUrl: (orgId: string, invoiceId: string, format: 'xrechnung' | 'factur-x' = 'xrechnung') =>
+    `${API_BASE_URL}/orgs/${orgId}/billing/invoices/${invoiceId}/e-invoice?format=${format}`,
+};
+
 // Cluster Settings API
 export const clusterSettingsApi = {
   get: (projectId: string, clusterId: string) =>
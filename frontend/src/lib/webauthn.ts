@@ -0,0 +1,111 @@
+// Browser side of the passkey ceremonies. The API sends binary fields as
+// base64url strings; navigator.credentials wants ArrayBuffers.
+
+export interface PasskeyCredentialDescriptor {
+  type: 'public-key';
+  id: string;
+  transports?: string[];
+}
+
+export interface PasskeyCreationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number;
+  attestation: AttestationConveyancePreference;
+  excludeCredentials: PasskeyCredentialDescriptor[];
+  authenticatorSelection: AuthenticatorSelectionCriteria;
+}
+
+export interface PasskeyRequestOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: UserVerificationRequirement;
+  allowCredentials: PasskeyCredentialDescriptor[];
+}
+
+export interface PasskeyRegistrationCredential {
+  id: string;
+  response: { clientDataJSON: string; attestationObject: string; transports?: string[] };
+}
+
+export interface PasskeyAssertionCredential {
+  id: string;
+  response: { clientDataJSON: string; authenticatorData: string; signature: string; userHandle?: string };
+}
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0)).buffer;
+}
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  const binary = Array.from(new Uint8Array(buffer), (byte) => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function toDescriptor(credential: PasskeyCredentialDescriptor): PublicKeyCredentialDescriptor {
+  return {
+    type: credential.type,
+    id: fromBase64Url(credential.id),
+    transports: credential.transports as AuthenticatorTransport[] | undefined,
+  };
+}
+
+export function isPasskeySupported(): boolean {
+  return typeof window !== 'undefined' && !!window.PublicKeyCredential;
+}
+
+/** Browsers reject with NotAllowedError when the user dismisses the prompt */
+export function isPasskeyCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'NotAllowedError';
+}
+
+/** Create a passkey on an authenticator of the user's choice */
+export async function createPasskey(options: PasskeyCreationOptions): Promise<PasskeyRegistrationCredential | null> {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      user: { ...options.user, id: fromBase64Url(options.user.id) },
+      excludeCredentials: options.excludeCredentials.map(toDescriptor),
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) return null;
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: toBase64Url(credential.rawId),
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject),
+      transports: response.getTransports?.(),
+    },
+  };
+}
+
+/** Sign the challenge with one of the user's passkeys */
+export async function getPasskey(options: PasskeyRequestOptions): Promise<PasskeyAssertionCredential | null> {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      allowCredentials: options.allowCredentials.map(toDescriptor),
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) return null;
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: toBase64Url(credential.rawId),
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle ? toBase64Url(response.userHandle) : undefined,
+    },
+  };
+}
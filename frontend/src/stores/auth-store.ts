@@ -22,6 +22,7 @@ interface AuthState {
   impersonation: ImpersonationInfo | null;
   setAuth: (user: User, token: string, impersonation?: ImpersonationInfo) => void;
   updateUser: (updates: Partial<User>) => void;
+  updateToken: (token: string) => void;
   logout: () => void;
   isImpersonating: () => boolean;
   clearImpersonation: () => void;
@@ -45,6 +46,7 @@ export const useAuthStore = create<AuthState>()(
         set((state) => ({
           user: state.user ? { ...state.user, ...updates } : null,
         })),
+      updateToken: (token) => set({ token }),
       logout: () =>
         set({
           user: null,
@@ -39,7 +39,7 @@ export interface SignupRequest {
 
 export interface AuthResponse {
   accessToken: string;
-  refreshToken?: string;
+  refreshToken: string;
   expiresIn: number;
   user: {
     id: string;
@@ -49,6 +49,12 @@ export interface AuthResponse {
   };
 }
 
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+export type RefreshTokenResponse = Pick<AuthResponse, 'accessToken' | 'refreshToken' | 'expiresIn'>;
+
 export interface ForgotPasswordRequest {
   email: string;
 }
@@ -70,6 +76,9 @@ export const ErrorCodes = {
   EMAIL_ALREADY_EXISTS: 'EMAIL_ALREADY_EXISTS',
   INVALID_TOKEN: 'INVALID_TOKEN',
   TOKEN_EXPIRED: 'TOKEN_EXPIRED',
+  INVALID_REFRESH_TOKEN: 'INVALID_REFRESH_TOKEN',
+  REFRESH_TOKEN_REUSED: 'REFRESH_TOKEN_REUSED',
+  SESSION_REVOKED: 'SESSION_REVOKED',
   
   // Authorization
   UNAUTHORIZED: 'UNAUTHORIZED',
@@ -88,6 +97,11 @@ export const ErrorCodes = {
   CLUSTER_NOT_READY: 'CLUSTER_NOT_READY',
   CLUSTER_OPERATION_IN_PROGRESS: 'CLUSTER_OPERATION_IN_PROGRESS',
   
+  // Billing
+  BUDGET_EXCEEDED: 'BUDGET_EXCEEDED',
+  INVOICE_NOT_ISSUED: 'INVOICE_NOT_ISSUED',
+  INVALID_VAT_ID: 'INVALID_VAT_ID',
+  
   // System
   INTERNAL_ERROR: 'INTERNAL_ERROR',
   SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',